@@ -6,13 +6,24 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { toast } from "@/components/ui/use-toast";
 import LoadingSpinner from '@/components/LoadingSpinner';
 import GlobalErrorBoundary from '@/components/GlobalErrorBoundary';
-import { setupAutoReportScheduling } from '@/utils/attendanceUtils';
+import { RequireRole } from '@/components/RequireRole';
+import { UserMenu } from '@/components/UserMenu';
+import { AuthProvider } from '@/components/AuthProvider';
+import { ROUTE_ROLES } from '@/utils/authUtils';
+import { loadOrganizationTimezone } from '@/utils/timezoneUtils';
 
 // Lazy load components
 const Index = lazy(() => import('@/pages/index'));
 const RosterManagement = lazy(() => import('@/pages/RosterManagement'));
 const GatePass = lazy(() => import('@/pages/GatePass'));
 const AttendanceBotDashboard = lazy(() => import('@/pages/AttendanceBotDashboard'));
+const LeaveManagement = lazy(() => import('@/pages/LeaveManagement'));
+const Payroll = lazy(() => import('@/pages/Payroll'));
+const Login = lazy(() => import('@/pages/Login'));
+const Scan = lazy(() => import('@/pages/Scan'));
+const Pair = lazy(() => import('@/pages/Pair'));
+const CheckIn = lazy(() => import('@/pages/CheckIn'));
+const SiteCode = lazy(() => import('@/pages/SiteCode'));
 const SplashScreen = lazy(() => import('@/components/SplashScreen'));
 
 // Create a new QueryClient with better configuration
@@ -31,11 +42,11 @@ const App: React.FC = () => {
   const [isInitialized, setIsInitialized] = React.useState<boolean>(false);
   const [initError, setInitError] = React.useState<string | null>(null);
   
-  // Set up automatic report scheduling when the app loads with improved error handling
+  // Load organization settings when the app starts; reports are scheduled server-side
   React.useEffect(() => {
     const initializeApp = async () => {
       try {
-        await setupAutoReportScheduling();
+        await loadOrganizationTimezone();
         setIsInitialized(true);
       } catch (error) {
         console.error("Error initializing app:", error);
@@ -88,26 +99,36 @@ const App: React.FC = () => {
   return (
     <GlobalErrorBoundary>
       <QueryClientProvider client={queryClient}>
-        <Router>
-          <div className="min-h-screen bg-background">
-            {showSplash ? (
-              <Suspense fallback={<LoadingSpinner />}>
-                <SplashScreen onFinished={handleSplashFinished} />
-              </Suspense>
-            ) : (
-              <Suspense fallback={<LoadingSpinner />}>
-                <Routes>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/roster/*" element={<RosterManagement />} />
-                  <Route path="/gatepass/*" element={<GatePass />} />
-                  <Route path="/bot-dashboard/*" element={<AttendanceBotDashboard />} />
-                </Routes>
-              </Suspense>
-            )}
-            <Toaster />
-            <Sonner />
-          </div>
-        </Router>
+        <AuthProvider>
+          <Router>
+            <div className="min-h-screen bg-background">
+              {showSplash ? (
+                <Suspense fallback={<LoadingSpinner />}>
+                  <SplashScreen onFinished={handleSplashFinished} />
+                </Suspense>
+              ) : (
+                <Suspense fallback={<LoadingSpinner />}>
+                  <UserMenu />
+                  <Routes>
+                    <Route path="/login" element={<Login />} />
+                    <Route path="/pair" element={<Pair />} />
+                    <Route path="/" element={<RequireRole roles={ROUTE_ROLES.home}><Index /></RequireRole>} />
+                    <Route path="/roster/*" element={<RequireRole roles={ROUTE_ROLES.roster}><RosterManagement /></RequireRole>} />
+                    <Route path="/gatepass/*" element={<RequireRole roles={ROUTE_ROLES.gatePass}><GatePass /></RequireRole>} />
+                    <Route path="/bot-dashboard/*" element={<RequireRole roles={ROUTE_ROLES.bot}><AttendanceBotDashboard /></RequireRole>} />
+                    <Route path="/leave/*" element={<RequireRole roles={ROUTE_ROLES.leave}><LeaveManagement /></RequireRole>} />
+                    <Route path="/payroll/*" element={<RequireRole roles={ROUTE_ROLES.payroll}><Payroll /></RequireRole>} />
+                    <Route path="/scan" element={<RequireRole roles={ROUTE_ROLES.scan}><Scan /></RequireRole>} />
+                    <Route path="/check-in" element={<RequireRole roles={ROUTE_ROLES.checkIn}><CheckIn /></RequireRole>} />
+                    <Route path="/site-code" element={<RequireRole roles={ROUTE_ROLES.siteCode}><SiteCode /></RequireRole>} />
+                  </Routes>
+                </Suspense>
+              )}
+              <Toaster />
+              <Sonner />
+            </div>
+          </Router>
+        </AuthProvider>
       </QueryClientProvider>
     </GlobalErrorBoundary>
   );
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { FileDown, Share2, FileText } from 'lucide-react';
+import { FileDown, Share2, FileText, Bell } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -22,6 +22,10 @@ import {
 import { format } from 'date-fns';
 import { Document, Page, Text, View, PDFDownloadLink } from '@react-pdf/renderer';
 import { toast } from '@/components/ui/use-toast';
+import { getApprovedLeave, getDatesInRange, splitAbsencesByLeave } from '@/utils/leaveUtils';
+import { getNonWorkingDates } from '@/utils/holidayUtils';
+import { TemplateMessage, buildAbsenteesMessage, sendToRecipients } from '@/utils/messagingUtils';
+import { buildAbsenteesNotification, notifyAdmins } from '@/utils/adminNotificationUtils';
 
 interface Employee {
   id: string;
@@ -35,8 +39,9 @@ interface Employee {
 }
 
 // PDF Document Component
-const AbsentEmployeePDF = ({ absentEmployees, startDate, endDate }: { 
+const AbsentEmployeePDF = ({ absentEmployees, onLeaveEmployees, startDate, endDate }: { 
   absentEmployees: Employee[], 
+  onLeaveEmployees: Employee[],
   startDate: Date,
   endDate: Date 
 }) => {
@@ -75,6 +80,9 @@ const AbsentEmployeePDF = ({ absentEmployees, startDate, endDate }: {
           <Text style={{ fontSize: 12, color: '#666666', marginBottom: 5 }}>
             Total Absent Employees: {absentEmployees.length}
           </Text>
+          <Text style={{ fontSize: 12, color: '#666666', marginBottom: 5 }}>
+            On Approved Leave: {onLeaveEmployees.length}
+          </Text>
           <Text style={{ fontSize: 12, color: '#666666' }}>
             Departments Affected: {Object.keys(departmentGroups).length}
           </Text>
@@ -130,6 +138,42 @@ const AbsentEmployeePDF = ({ absentEmployees, startDate, endDate }: {
           </View>
         ))}
 
+        {/* Employees whose every missed day was approved leave */}
+        {onLeaveEmployees.length > 0 && (
+          <View style={{ marginBottom: 20 }}>
+            <View style={{ 
+              backgroundColor: '#e6e6e6', 
+              padding: 8,
+              marginBottom: 10
+            }}>
+              <Text style={{ fontSize: 14, color: '#1a1a1a' }}>
+                On Leave ({onLeaveEmployees.length})
+              </Text>
+            </View>
+
+            <View style={{ border: '1px solid #cccccc' }}>
+              {onLeaveEmployees.map((emp) => (
+                <View key={emp.id} style={{ 
+                  flexDirection: 'row',
+                  borderBottom: '1px solid #cccccc',
+                  padding: 8,
+                  backgroundColor: '#ffffff'
+                }}>
+                  <Text style={{ flex: 2, fontSize: 10 }}>
+                    {emp.first_name} {emp.last_name}
+                  </Text>
+                  <Text style={{ flex: 1, fontSize: 10 }}>
+                    {emp.departments?.name || 'Unassigned'}
+                  </Text>
+                  <Text style={{ flex: 1, fontSize: 10 }}>
+                    {emp.position || 'N/A'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Footer */}
         <View style={{ 
           position: 'absolute', 
@@ -163,8 +207,10 @@ const AbsentEmployeePDF = ({ absentEmployees, startDate, endDate }: {
 const AbsentEmployeeDownload: React.FC = () => {
   const [loading, setLoading] = React.useState(false);
   const [absentEmployees, setAbsentEmployees] = React.useState<Employee[]>([]);
+  const [onLeaveEmployees, setOnLeaveEmployees] = React.useState<Employee[]>([]);
   const [whatsappNumber, setWhatsappNumber] = React.useState('');
   const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [isSending, setIsSending] = React.useState(false);
   const today = new Date();
   const [startDate, setStartDate] = React.useState(today);
   const [endDate, setEndDate] = React.useState(today);
@@ -184,6 +230,8 @@ const AbsentEmployeeDownload: React.FC = () => {
           phone,
           status,
           position,
+          department_id,
+          home_site_id,
           department:department_id (
             name
           )
@@ -200,6 +248,7 @@ const AbsentEmployeeDownload: React.FC = () => {
           variant: "destructive"
         });
         setAbsentEmployees([]);
+        setOnLeaveEmployees([]);
         return;
       }
 
@@ -223,6 +272,7 @@ const AbsentEmployeeDownload: React.FC = () => {
           variant: "destructive"
         });
         setAbsentEmployees([]);
+        setOnLeaveEmployees([]);
         return;
       }
 
@@ -252,28 +302,24 @@ const AbsentEmployeeDownload: React.FC = () => {
         presentEmployees.get(record.date)?.add(record.employee_id);
       });
 
-      // Find absent employees
-      const absentEmployeesList = activeEmployees.filter(employee => {
-        let currentDate = new Date(start);
-        const endDate = new Date(end);
-        
-        // Check each date in range
-        while (currentDate <= endDate) {
-          const dateStr = format(currentDate, 'yyyy-MM-dd');
-          const presentForDate = presentEmployees.get(dateStr);
-          
-          // If employee is not in the present list for this date, they were absent
-          if (!presentForDate?.has(employee.id)) {
-            return true;
-          }
-          
-          currentDate.setDate(currentDate.getDate() + 1);
-        }
-        return false;
-      });
+      // Holidays and rostered off days are skipped; missed days covered by
+      // approved leave are reported as leave, not absence
+      const [approvedLeave, nonWorking] = await Promise.all([
+        getApprovedLeave(startStr, endStr),
+        getNonWorkingDates(employees || [], startStr, endStr)
+      ]);
+      const { absent, onLeave } = splitAbsencesByLeave(
+        activeEmployees.map(employee => employee.id),
+        getDatesInRange(startStr, endStr),
+        presentEmployees,
+        approvedLeave,
+        nonWorking
+      );
+      const absentEmployeesList = activeEmployees.filter(employee => absent.includes(employee.id));
 
       console.log('Absent employees found:', absentEmployeesList.length);
       setAbsentEmployees(absentEmployeesList);
+      setOnLeaveEmployees(activeEmployees.filter(employee => onLeave.includes(employee.id)));
 
       if (absentEmployeesList.length === 0) {
         toast({
@@ -289,13 +335,14 @@ const AbsentEmployeeDownload: React.FC = () => {
         variant: "destructive"
       });
       setAbsentEmployees([]); // Reset the state on error
+      setOnLeaveEmployees([]);
     } finally {
       setLoading(false);
     }
   };
 
-  const generateWhatsAppMessage = () => {
-    if (absentEmployees.length === 0) return '';
+  const generateWhatsAppMessage = (): TemplateMessage | null => {
+    if (absentEmployees.length === 0 && onLeaveEmployees.length === 0) return null;
 
     const dateRange = startDate.toISOString().split('T')[0] === endDate.toISOString().split('T')[0]
       ? format(startDate, 'EEEE, MMMM do, yyyy')
@@ -316,33 +363,72 @@ const AbsentEmployeeDownload: React.FC = () => {
 
 📊 *Summary*
 • Total Absent: ${absentEmployees.length}
+• On Leave: ${onLeaveEmployees.length}
 
 ${Object.entries(departmentGroups).map(([dept, employees]) => 
   `👥 *${dept}* (${employees.length})
 ${employees.map((emp, i) => `${i + 1}. ${emp.name}`).join('\n')}`
 ).join('\n\n')}
-
+${onLeaveEmployees.length > 0 ? `
+🌴 *On Leave* (${onLeaveEmployees.length})
+${onLeaveEmployees.map((emp, i) => `${i + 1}. ${emp.name}`).join('\n')}
+` : ''}
 🤖 Generated by Attendance System`;
 
-    return encodeURIComponent(message);
+    return buildAbsenteesMessage(dateRange, absentEmployees.map(employee => employee.name), message);
   };
 
-  const handleWhatsAppShare = () => {
+  const handleWhatsAppShare = async () => {
     const message = generateWhatsAppMessage();
     if (!message) return;
 
-    // Format WhatsApp number
-    let formattedNumber = whatsappNumber.trim().replace(/\D/g, '');
-    formattedNumber = formattedNumber.startsWith('0') 
-      ? '94' + formattedNumber.substring(1)
-      : formattedNumber.startsWith('94') 
-        ? formattedNumber 
-        : '94' + formattedNumber;
-
-    // Create WhatsApp URL
-    const whatsappUrl = `https://api.whatsapp.com/send?phone=${formattedNumber}&text=${message}`;
-    window.open(whatsappUrl, '_blank');
-    setIsDialogOpen(false);
+    setIsSending(true);
+    try {
+      const [receipt] = await sendToRecipients([whatsappNumber], message);
+      if (receipt?.status !== 'sent') {
+        throw new Error(receipt?.error || 'Failed to send the report');
+      }
+      toast({
+        title: "Report Sent",
+        description: `Absent employees report sent to ${receipt.recipient}`,
+      });
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send the report",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleNotifyAdmins = async () => {
+    const dateRange = startDate.toISOString().split('T')[0] === endDate.toISOString().split('T')[0]
+      ? format(startDate, 'EEEE, MMMM do, yyyy')
+      : `${format(startDate, 'MMMM do, yyyy')} - ${format(endDate, 'MMMM do, yyyy')}`;
+    const byDepartment = absentEmployees.reduce((groups, employee) => {
+      const dept = employee.departments?.name || 'Unassigned';
+      groups[dept] = [...(groups[dept] || []), employee.name];
+      return groups;
+    }, {} as Record<string, string[]>);
+
+    setIsSending(true);
+    try {
+      const result = await notifyAdmins(buildAbsenteesNotification(
+        dateRange,
+        byDepartment,
+        onLeaveEmployees.map(employee => employee.name)
+      ));
+      toast({
+        title: result.success ? "Admins Notified" : "Error",
+        description: result.message,
+        variant: result.success ? "default" : "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
   };
 
   const handleDateChange = (type: 'start' | 'end', event: React.ChangeEvent<HTMLInputElement>) => {
@@ -403,6 +489,7 @@ ${employees.map((emp, i) => `${i + 1}. ${emp.name}`).join('\n')}`
             <PDFDownloadLink
               document={<AbsentEmployeePDF 
                 absentEmployees={absentEmployees} 
+                onLeaveEmployees={onLeaveEmployees}
                 startDate={startDate}
                 endDate={endDate}
               />}
@@ -419,6 +506,15 @@ ${employees.map((emp, i) => `${i + 1}. ${emp.name}`).join('\n')}`
                 </Button>
               )}
             </PDFDownloadLink>
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={handleNotifyAdmins}
+              disabled={loading || absentEmployees.length === 0 || isSending}
+            >
+              <Bell className="mr-2 h-4 w-4" />
+              Notify Admins
+            </Button>
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
                 <Button
@@ -452,10 +548,10 @@ ${employees.map((emp, i) => `${i + 1}. ${emp.name}`).join('\n')}`
                   </div>
                   <Button 
                     onClick={handleWhatsAppShare}
-                    disabled={!whatsappNumber || whatsappNumber.length < 10}
+                    disabled={!whatsappNumber || whatsappNumber.length < 10 || isSending}
                     className="w-full"
                   >
-                    Share Report
+                    {isSending ? 'Sending...' : 'Share Report'}
                   </Button>
                 </div>
               </DialogContent>
@@ -466,7 +562,7 @@ ${employees.map((emp, i) => `${i + 1}. ${emp.name}`).join('\n')}`
             <div className="text-center py-4">Loading...</div>
           ) : absentEmployees.length > 0 ? (
             <div className="text-center py-4 text-muted-foreground">
-              Found {absentEmployees.length} absent employees. Click "Download PDF Report" to view the detailed report.
+              Found {absentEmployees.length} absent employees{onLeaveEmployees.length > 0 && ` and ${onLeaveEmployees.length} on leave`}. Click "Download PDF Report" to view the detailed report.
             </div>
           ) : (
             <div className="text-center py-4 text-muted-foreground">
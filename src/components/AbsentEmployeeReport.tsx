@@ -3,6 +3,10 @@ import { Document, Page, Text, View, PDFDownloadLink } from '@react-pdf/renderer
 import { Button } from '@/components/ui/button';
 import { FileDown, Share2, MessageCircle } from 'lucide-react';
 import { getTodayAttendanceSummary } from '@/utils/attendanceUtils';
+import { formatDateInTimezone, getDateInTimezone, getOrganizationTimezone } from '@/utils/timezoneUtils';
+import { getEmployeesOnLeave } from '@/utils/leaveUtils';
+import { getNonWorkingDates, isWorkingDay } from '@/utils/holidayUtils';
+import { ALL_SITES, Site, getSiteName, getSites, getSiteToday } from '@/utils/siteUtils';
 import { supabase } from '@/integrations/supabase/client';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,6 +24,10 @@ interface Employee {
   name: string;
   department: string;
   contact: string;
+  department_id?: string | null;
+  home_site_id?: string | null;
+  site?: string;
+  leaveType?: string;
 }
 
 interface AttendanceSummary {
@@ -27,6 +35,7 @@ interface AttendanceSummary {
   presentCount: number;
   lateCount: number;
   absentCount: number;
+  onLeaveCount: number;
   checkedOutCount: number;
   onTime: number;
   stillWorking: number;
@@ -52,13 +61,16 @@ interface AttendanceSummary {
     lateButPresent: number;
     checkedOut: number;
     onTimeArrivals: number;
+    onLeave: number;
     absent: number;
   };
 }
 
 interface PDFProps {
   absentEmployees: Employee[];
+  onLeaveEmployees: Employee[];
   summary: AttendanceSummary;
+  siteLabel: string;
 }
 
 // Define styles for PDF
@@ -123,18 +135,20 @@ const styles = {
 } as const;
 
 // PDF Document Component
-const AbsentEmployeePDF: React.FC<PDFProps> = ({ absentEmployees, summary }) => (
+const AbsentEmployeePDF: React.FC<PDFProps> = ({ absentEmployees, onLeaveEmployees, summary, siteLabel }) => (
   <Document>
     <Page size="A4" style={styles.page}>
       <Text style={styles.header}>Absent Employees Report</Text>
       
       <View style={styles.section}>
-        <Text style={styles.subHeader}>Date: {new Date().toLocaleDateString()}</Text>
+        <Text style={styles.subHeader}>Date: {formatDateInTimezone(new Date())}</Text>
+        <Text style={styles.subHeader}>Site: {siteLabel}</Text>
         
         {/* Summary Section */}
         <View style={[styles.section, { marginBottom: 20 }]}>
           <Text>Total Employees: {summary.totalEmployees}</Text>
           <Text>Total Absent: {summary.absentCount}</Text>
+          <Text>On Leave: {summary.onLeaveCount}</Text>
           <Text>Absence Rate: {summary.absentRate}%</Text>
         </View>
 
@@ -144,6 +158,7 @@ const AbsentEmployeePDF: React.FC<PDFProps> = ({ absentEmployees, summary }) =>
             <Text style={styles.tableCell}>Employee ID</Text>
             <Text style={styles.tableCell}>Name</Text>
             <Text style={styles.tableCell}>Department</Text>
+            <Text style={styles.tableCell}>Site</Text>
             <Text style={styles.tableCell}>Contact</Text>
           </View>
           
@@ -152,18 +167,43 @@ const AbsentEmployeePDF: React.FC<PDFProps> = ({ absentEmployees, summary }) =>
               <Text style={styles.tableCell}>{employee.id}</Text>
               <Text style={styles.tableCell}>{employee.name}</Text>
               <Text style={styles.tableCell}>{employee.department}</Text>
+              <Text style={styles.tableCell}>{employee.site}</Text>
               <Text style={styles.tableCell}>{employee.contact}</Text>
             </View>
           ))}
         </View>
 
+        {/* Employees on approved leave */}
+        {onLeaveEmployees.length > 0 && (
+          <>
+            <Text style={[styles.subHeader, { marginTop: 20 }]}>On Leave</Text>
+            <View style={styles.table}>
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                <Text style={styles.tableCell}>Employee ID</Text>
+                <Text style={styles.tableCell}>Name</Text>
+                <Text style={styles.tableCell}>Department</Text>
+                <Text style={styles.tableCell}>Leave Type</Text>
+              </View>
+
+              {onLeaveEmployees.map((employee: Employee, index: number) => (
+                <View key={index} style={styles.tableRow}>
+                  <Text style={styles.tableCell}>{employee.id}</Text>
+                  <Text style={styles.tableCell}>{employee.name}</Text>
+                  <Text style={styles.tableCell}>{employee.department}</Text>
+                  <Text style={styles.tableCell}>{employee.leaveType}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
         <Text style={styles.summaryText}>
           This report was generated automatically by the attendance system.
         </Text>
       </View>
 
       <Text style={styles.footer}>
-        Generated on {new Date().toLocaleString()}
+        Generated on {new Date().toLocaleString('en-US', { timeZone: getOrganizationTimezone() })}
       </Text>
     </Page>
   </Document>
@@ -173,48 +213,72 @@ const AbsentEmployeePDF: React.FC<PDFProps> = ({ absentEmployees, summary }) =>
 const AbsentEmployeeReport: React.FC = () => {
   const [loading, setLoading] = React.useState(false);
   const [absentEmployees, setAbsentEmployees] = React.useState<Employee[]>([]);
+  const [onLeaveEmployees, setOnLeaveEmployees] = React.useState<Employee[]>([]);
   const [summary, setSummary] = React.useState<AttendanceSummary | null>(null);
   const [whatsappNumber, setWhatsappNumber] = React.useState('');
   const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [sites, setSites] = React.useState<Site[]>([]);
+  const [selectedSite, setSelectedSite] = React.useState(ALL_SITES);
+
+  const siteId = selectedSite === ALL_SITES ? null : selectedSite;
+  const siteLabel = siteId ? getSiteName(sites, siteId) : 'All sites';
 
-  const fetchAbsentEmployees = async () => {
+  const fetchAbsentEmployees = React.useCallback(async () => {
     setLoading(true);
     try {
+      const siteList = await getSites().catch((error) => {
+        console.error('Error loading sites:', error);
+        return [] as Site[];
+      });
+      setSites(siteList);
+
       // Get today's attendance summary
-      const todaySummary = await getTodayAttendanceSummary() as AttendanceSummary;
+      const todaySummary = await getTodayAttendanceSummary(siteId) as AttendanceSummary;
       setSummary(todaySummary);
 
-      // Get all active employees
-      const { data: employees } = await supabase
+      // Get active employees, for one home site when filtered
+      let employeeQuery = supabase
         .from('employees')
-        .select('id, name, department, contact')
+        .select('id, name, department, contact, department_id, home_site_id')
         .eq('status', 'active');
+      if (siteId) employeeQuery = employeeQuery.eq('home_site_id', siteId);
+      const { data: employees } = await employeeQuery;
 
-      // Get today's attendance records
-      const today = new Date().toISOString().split('T')[0];
+      // Get today's attendance records; a site's "today" is its own local date
+      const today = siteId ? getSiteToday(siteList.find(site => site.id === siteId)) : getDateInTimezone();
       const { data: attendance } = await supabase
         .from('attendance')
         .select('employee_id')
         .eq('date', today);
 
-      // Find employees who are absent (no attendance record for today)
+      const employeesOnLeave = await getEmployeesOnLeave(today);
+      const nonWorking = await getNonWorkingDates(employees || [], today, today);
+
+      // Find employees expected in today with no attendance record, split by approved leave
       const presentEmployeeIds = attendance?.map(record => record.employee_id) || [];
-      const absentEmployeesList = (employees || []).filter(
-        (employee: Employee) => !presentEmployeeIds.includes(employee.id)
-      ) as Employee[];
+      // Grouped by site so head office can read the list site by site
+      const missingEmployees = ((employees || []).filter(
+        (employee: Employee) => !presentEmployeeIds.includes(employee.id) &&
+          (employeesOnLeave.has(employee.id) || isWorkingDay(nonWorking, employee.id, today))
+      ) as Employee[])
+        .map(employee => ({ ...employee, site: getSiteName(siteList, employee.home_site_id) }))
+        .sort((a, b) => a.site.localeCompare(b.site));
 
-      setAbsentEmployees(absentEmployeesList);
+      setAbsentEmployees(missingEmployees.filter(employee => !employeesOnLeave.has(employee.id)));
+      setOnLeaveEmployees(missingEmployees
+        .filter(employee => employeesOnLeave.has(employee.id))
+        .map(employee => ({ ...employee, leaveType: employeesOnLeave.get(employee.id)?.leave_type?.name || 'Leave' })));
     } catch (error) {
       console.error('Error fetching absent employees:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [siteId]);
 
   const generateWhatsAppMessage = () => {
-    if (!summary || absentEmployees.length === 0) return '';
+    if (!summary || (absentEmployees.length === 0 && onLeaveEmployees.length === 0)) return '';
 
-    const dateStr = new Date().toLocaleDateString('en-US', {
+    const dateStr = formatDateInTimezone(new Date(), {
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -223,17 +287,24 @@ const AbsentEmployeeReport: React.FC = () => {
 
     const message = `🏢 *ABSENT EMPLOYEES REPORT*
 📅 ${dateStr}
+🏢 ${siteLabel}
 
 📊 *Summary*
 • Total Employees: ${summary.totalEmployees}
 • Absent Today: ${summary.absentCount}
+• On Leave: ${summary.onLeaveCount}
 • Absence Rate: ${summary.absentRate}%
 
 👥 *Absent Employees List*
 ${absentEmployees.map((emp, index) => 
-  `${index + 1}. ${emp.name} (${emp.department})`
+  `${index + 1}. ${emp.name} (${emp.department}${siteId ? '' : `, ${emp.site}`})`
 ).join('\n')}
-
+${onLeaveEmployees.length > 0 ? `
+🌴 *On Leave*
+${onLeaveEmployees.map((emp, index) => 
+  `${index + 1}. ${emp.name} (${emp.leaveType})`
+).join('\n')}
+` : ''}
 🤖 Generated by Attendance System`;
 
     return encodeURIComponent(message);
@@ -259,7 +330,7 @@ ${absentEmployees.map((emp, index) =>
 
   React.useEffect(() => {
     fetchAbsentEmployees();
-  }, []);
+  }, [fetchAbsentEmployees]);
 
   if (!summary || loading) {
     return <div>Loading...</div>;
@@ -270,9 +341,20 @@ ${absentEmployees.map((emp, index) =>
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Absent Employees Report</h2>
         <div className="flex gap-2">
+          <select
+            aria-label="Site"
+            className="border rounded-md p-2"
+            value={selectedSite}
+            onChange={(e) => setSelectedSite(e.target.value)}
+          >
+            <option value={ALL_SITES}>All sites</option>
+            {sites.map(site => (
+              <option key={site.id} value={site.id}>{site.name}</option>
+            ))}
+          </select>
           <PDFDownloadLink
-            document={<AbsentEmployeePDF absentEmployees={absentEmployees} summary={summary} />}
-            fileName={`absent-employees-${new Date().toISOString().split('T')[0]}.pdf`}
+            document={<AbsentEmployeePDF absentEmployees={absentEmployees} onLeaveEmployees={onLeaveEmployees} summary={summary} siteLabel={siteLabel} />}
+            fileName={`absent-employees-${getDateInTimezone()}.pdf`}
           >
             {({ loading: pdfLoading }) => (
               <Button disabled={pdfLoading}>
@@ -323,7 +405,7 @@ ${absentEmployees.map((emp, index) =>
       </div>
 
       <div className="bg-muted p-4 rounded-lg">
-        <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
           <div>
             <p className="text-sm text-muted-foreground">Total Employees</p>
             <p className="text-2xl font-bold">{summary.totalEmployees}</p>
@@ -332,6 +414,10 @@ ${absentEmployees.map((emp, index) =>
             <p className="text-sm text-muted-foreground">Absent Today</p>
             <p className="text-2xl font-bold text-red-600">{summary.absentCount}</p>
           </div>
+          <div>
+            <p className="text-sm text-muted-foreground">On Leave</p>
+            <p className="text-2xl font-bold text-blue-600">{summary.onLeaveCount}</p>
+          </div>
           <div>
             <p className="text-sm text-muted-foreground">Absence Rate</p>
             <p className="text-2xl font-bold">{summary.absentRate}%</p>
@@ -346,6 +432,7 @@ ${absentEmployees.map((emp, index) =>
               <th className="p-3 text-left">Employee ID</th>
               <th className="p-3 text-left">Name</th>
               <th className="p-3 text-left">Department</th>
+              <th className="p-3 text-left">Site</th>
               <th className="p-3 text-left">Contact</th>
             </tr>
           </thead>
@@ -355,12 +442,39 @@ ${absentEmployees.map((emp, index) =>
                 <td className="p-3">{employee.id}</td>
                 <td className="p-3">{employee.name}</td>
                 <td className="p-3">{employee.department}</td>
+                <td className="p-3">{employee.site}</td>
                 <td className="p-3">{employee.contact}</td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+
+      {onLeaveEmployees.length > 0 && (
+        <div className="border rounded-lg">
+          <h3 className="p-3 font-semibold border-b">On Leave</h3>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b">
+                <th className="p-3 text-left">Employee ID</th>
+                <th className="p-3 text-left">Name</th>
+                <th className="p-3 text-left">Department</th>
+                <th className="p-3 text-left">Leave Type</th>
+              </tr>
+            </thead>
+            <tbody>
+              {onLeaveEmployees.map((employee) => (
+                <tr key={employee.id} className="border-b">
+                  <td className="p-3">{employee.id}</td>
+                  <td className="p-3">{employee.name}</td>
+                  <td className="p-3">{employee.department}</td>
+                  <td className="p-3">{employee.leaveType}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
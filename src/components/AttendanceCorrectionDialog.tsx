@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CheckCircle, History, Loader2, PencilLine, XCircle } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { Attendance } from '@/types';
+import { LegacyPunchField } from '@/utils/attendanceStateMachine';
+import {
+  AttendanceCorrection,
+  AttendanceHistoryEntry,
+  CORRECTABLE_FIELDS,
+  PunchCorrectionValues,
+  approveAttendanceCorrection,
+  getAttendanceCorrections,
+  getAttendanceHistory,
+  rejectAttendanceCorrection,
+  requestAttendanceCorrection
+} from '@/utils/attendanceCorrectionUtils';
+import { formatDateInTimezone, formatTimeInTimezone, getZonedParts, zonedTimeToUtc } from '@/utils/timezoneUtils';
+
+interface AttendanceCorrectionDialogProps {
+  record: Attendance | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: () => void;
+}
+
+const FIELD_LABELS: Record<LegacyPunchField, string> = {
+  first_check_in_time: 'First Check-In',
+  first_check_out_time: 'First Check-Out',
+  second_check_in_time: 'Second Check-In',
+  second_check_out_time: 'Second Check-Out'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// datetime-local inputs hold wall-clock time in the organization timezone
+const toInputValue = (value: string | null | undefined): string => {
+  if (!value) return '';
+  const { year, month, day, hour, minute } = getZonedParts(value);
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
+
+const fromInputValue = (value: string): string | null => {
+  if (!value) return null;
+  const [date, time] = value.split('T');
+  return zonedTimeToUtc(date, time).toISOString();
+};
+
+const formatPunch = (value: unknown): string =>
+  typeof value === 'string' && value
+    ? `${formatDateInTimezone(value, { month: 'short', day: 'numeric' })} ${formatTimeInTimezone(value)}`
+    : '-';
+
+export function AttendanceCorrectionDialog({ record, open, onOpenChange, onApplied }: AttendanceCorrectionDialogProps) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<LegacyPunchField, string>>({
+    first_check_in_time: '',
+    first_check_out_time: '',
+    second_check_in_time: '',
+    second_check_out_time: ''
+  });
+  const [reason, setReason] = useState('');
+  const [reviewNote, setReviewNote] = useState('');
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([]);
+  const [history, setHistory] = useState<AttendanceHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [tab, setTab] = useState('request');
+
+  const loadAudit = useCallback(async () => {
+    if (!record) return;
+    setLoading(true);
+    try {
+      const [correctionData, historyData] = await Promise.all([
+        getAttendanceCorrections({ attendanceId: record.id }),
+        getAttendanceHistory(record.id)
+      ]);
+      setCorrections(correctionData);
+      setHistory(historyData);
+      if (correctionData.some(correction => correction.status === 'pending')) {
+        setTab('review');
+      }
+    } catch (error) {
+      console.error('Error loading correction history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [record]);
+
+  useEffect(() => {
+    if (!open || !record) return;
+    setValues({
+      first_check_in_time: toInputValue(record.first_check_in_time),
+      first_check_out_time: toInputValue(record.first_check_out_time),
+      second_check_in_time: toInputValue(record.second_check_in_time),
+      second_check_out_time: toInputValue(record.second_check_out_time)
+    });
+    setReason('');
+    setReviewNote('');
+    setTab('request');
+    loadAudit();
+  }, [open, record, loadAudit]);
+
+  const pending = corrections.find(correction => correction.status === 'pending');
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!record) return;
+    setSubmitting(true);
+    try {
+      // Inputs are minute-precision, so only send the fields that were edited
+      const proposed: PunchCorrectionValues = {};
+      CORRECTABLE_FIELDS.forEach(field => {
+        if (values[field] !== toInputValue(record[field])) {
+          proposed[field] = fromInputValue(values[field]);
+        }
+      });
+
+      const result = await requestAttendanceCorrection(record.id, proposed, reason);
+      notify(result);
+      if (result.success) {
+        setReason('');
+        await loadAudit();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!pending) return;
+    setSubmitting(true);
+    try {
+      const result = approve
+        ? await approveAttendanceCorrection(pending.id, reviewNote)
+        : await rejectAttendanceCorrection(pending.id, reviewNote);
+      notify(result);
+      if (result.success) {
+        setReviewNote('');
+        await loadAudit();
+        if (approve) onApplied?.();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Punch Correction</DialogTitle>
+          <DialogDescription>
+            {record ? `${record.employee_name || 'Employee'} — ${record.date}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="request">Request</TabsTrigger>
+            <TabsTrigger value="review">
+              Review {pending && <Badge variant="secondary" className="ml-2">1</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="request" className="space-y-4 pt-4">
+            {pending ? (
+              <p className="text-sm text-muted-foreground">
+                A correction requested by {pending.requested_by_name || 'another user'} is awaiting approval.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {CORRECTABLE_FIELDS.map(field => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={`correction-${field}`}>{FIELD_LABELS[field]}</Label>
+                      <Input
+                        id={`correction-${field}`}
+                        type="datetime-local"
+                        value={values[field]}
+                        onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="correction-reason">Reason</Label>
+                  <Textarea
+                    id="correction-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Scanner was offline, employee arrived at 08:55"
+                  />
+                </div>
+                <Button onClick={handleSubmit} disabled={submitting || !reason.trim()} className="w-full">
+                  {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PencilLine className="h-4 w-4 mr-2" />}
+                  Submit for Approval
+                </Button>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="review" className="space-y-4 pt-4">
+            {!pending ? (
+              <p className="text-sm text-muted-foreground">No corrections awaiting approval.</p>
+            ) : (
+              <>
+                <div className="rounded-md border p-3 space-y-2 text-sm">
+                  <p><span className="font-medium">Requested by:</span> {pending.requested_by_name || '-'}</p>
+                  <p><span className="font-medium">Reason:</span> {pending.reason}</p>
+                  {(Object.keys(pending.proposed_values) as LegacyPunchField[]).map(field => (
+                    <p key={field}>
+                      <span className="font-medium">{FIELD_LABELS[field]}:</span>{' '}
+                      {formatPunch(pending.original_values[field])} → {formatPunch(pending.proposed_values[field])}
+                    </p>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="correction-note">Note</Label>
+                  <Textarea
+                    id="correction-note"
+                    value={reviewNote}
+                    onChange={(e) => setReviewNote(e.target.value)}
+                    placeholder="Required when rejecting"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={() => handleReview(true)} disabled={submitting} className="flex-1">
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleReview(false)}
+                    disabled={submitting || !reviewNote.trim()}
+                    className="flex-1"
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-3 pt-4">
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : history.length === 0 && corrections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes recorded for this attendance.</p>
+            ) : (
+              <>
+                {history.map(entry => (
+                  <div key={entry.id} className="rounded-md border p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 font-medium">
+                        <History className="h-4 w-4" />
+                        {entry.change_type} by {entry.changed_by}
+                      </span>
+                      <span className="text-muted-foreground">{formatPunch(entry.created_at)}</span>
+                    </div>
+                    {entry.reason && <p className="text-muted-foreground">{entry.reason}</p>}
+                    {CORRECTABLE_FIELDS
+                      .filter(field => entry.before_values[field] !== entry.after_values[field])
+                      .map(field => (
+                        <p key={field}>
+                          {FIELD_LABELS[field]}: {formatPunch(entry.before_values[field])} → {formatPunch(entry.after_values[field])}
+                        </p>
+                      ))}
+                    {entry.before_values.minutes_late !== entry.after_values.minutes_late && (
+                      <p>Minutes late: {String(entry.before_values.minutes_late ?? 0)} → {String(entry.after_values.minutes_late ?? 0)}</p>
+                    )}
+                    {entry.before_values.working_duration !== entry.after_values.working_duration && (
+                      <p>Working duration: {String(entry.before_values.working_duration ?? '-')} → {String(entry.after_values.working_duration ?? '-')}</p>
+                    )}
+                  </div>
+                ))}
+                {corrections
+                  .filter(correction => correction.status === 'rejected')
+                  .map(correction => (
+                    <div key={correction.id} className="rounded-md border border-dashed p-3 text-sm">
+                      <span className="font-medium">Rejected</span> request by {correction.requested_by_name || '-'}
+                      {correction.reviewed_by_name && <> — {correction.reviewed_by_name}: {correction.review_note}</>}
+                    </div>
+                  ))}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,46 +1,53 @@
 import React from 'react';
 import { Card, CardContent } from './ui/card';
 import { Clock, LogIn, LogOut } from 'lucide-react';
+import { AttendanceState } from '@/types';
 
 interface AttendanceStateIndicatorProps {
-  currentState: 'not_checked_in' | 'first_checked_in' | 'first_checked_out' | 'second_checked_in' | 'second_checked_out';
+  currentState: AttendanceState;
+  maxSessions?: number;
 }
 
-const stateConfig = {
-  not_checked_in: {
-    message: 'Ready for First Check-In',
-    nextAction: 'First Check-In',
-    icon: LogIn,
-    color: 'text-blue-500'
-  },
-  first_checked_in: {
-    message: 'First Session Active',
-    nextAction: 'First Check-Out',
-    icon: Clock,
-    color: 'text-green-500'
-  },
-  first_checked_out: {
-    message: 'First Session Complete',
-    nextAction: 'Second Check-In',
+const ORDINALS = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth'];
+
+const sessionLabel = (session: number) => ORDINALS[session - 1] || `Session ${session}`;
+
+// Read the session number and punch out of states like `second_checked_in` or `session_3_checked_out`
+const parseState = (state: AttendanceState): { session: number; checkedIn: boolean } => {
+  if (state === 'not_checked_in') return { session: 0, checkedIn: false };
+  const checkedIn = state.endsWith('_checked_in');
+  if (state.startsWith('first_')) return { session: 1, checkedIn };
+  if (state.startsWith('second_')) return { session: 2, checkedIn };
+  return { session: parseInt(state.split('_')[1], 10) || 0, checkedIn };
+};
+
+const getStateConfig = (state: AttendanceState, maxSessions: number) => {
+  const { session, checkedIn } = parseState(state);
+
+  if (session === 0) {
+    return { message: 'Ready for First Check-In', nextAction: 'First Check-In', icon: LogIn, color: 'text-blue-500' };
+  }
+  if (checkedIn) {
+    return {
+      message: `${sessionLabel(session)} Session Active`,
+      nextAction: `${sessionLabel(session)} Check-Out`,
+      icon: Clock,
+      color: 'text-green-500'
+    };
+  }
+  if (session >= maxSessions) {
+    return { message: 'All Sessions Complete', nextAction: 'Done for Today', icon: LogOut, color: 'text-purple-500' };
+  }
+  return {
+    message: `${sessionLabel(session)} Session Complete`,
+    nextAction: `${sessionLabel(session + 1)} Check-In`,
     icon: LogIn,
     color: 'text-orange-500'
-  },
-  second_checked_in: {
-    message: 'Second Session Active',
-    nextAction: 'Second Check-Out',
-    icon: Clock,
-    color: 'text-green-500'
-  },
-  second_checked_out: {
-    message: 'All Sessions Complete',
-    nextAction: 'Done for Today',
-    icon: LogOut,
-    color: 'text-purple-500'
-  }
+  };
 };
 
-export const AttendanceStateIndicator: React.FC<AttendanceStateIndicatorProps> = ({ currentState }) => {
-  const config = stateConfig[currentState];
+export const AttendanceStateIndicator: React.FC<AttendanceStateIndicatorProps> = ({ currentState, maxSessions = 2 }) => {
+  const config = getStateConfig(currentState, maxSessions);
   const Icon = config.icon;
 
   return (
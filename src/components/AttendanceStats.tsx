@@ -6,6 +6,7 @@ import { toast } from '@/components/ui/use-toast';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { supabase } from '@/lib/supabase';
+import { ALL_SITES, Site, getSites } from '@/utils/siteUtils';
 
 interface DetailedStats {
   onTime: number;
@@ -84,11 +85,19 @@ const AttendanceStats: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [lastPresentCount, setLastPresentCount] = useState(0);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [selectedSite, setSelectedSite] = useState(ALL_SITES);
+
+  useEffect(() => {
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, []);
 
   const refreshStats = useCallback(async () => {
       try {
       setLoading(true);
-        const data = await getTodayAttendanceSummary();
+        const data = await getTodayAttendanceSummary(selectedSite === ALL_SITES ? null : selectedSite);
       setStats(data);
         setLastPresentCount(data.presentCount);
       } catch (error) {
@@ -101,14 +110,14 @@ const AttendanceStats: React.FC = () => {
       } finally {
         setLoading(false);
       }
-  }, []);
+  }, [selectedSite]);
 
   useEffect(() => {
     refreshStats();
 
     const interval = setInterval(refreshStats, 30 * 1000);
     return () => clearInterval(interval);
-  }, [refreshKey]);
+  }, [refreshKey, refreshStats]);
 
   useEffect(() => {
     const channel = supabase
@@ -129,7 +138,7 @@ const AttendanceStats: React.FC = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [refreshStats]);
 
   const handleRefresh = () => {
     setRefreshKey(prev => prev + 1);
@@ -138,9 +147,9 @@ const AttendanceStats: React.FC = () => {
   const handleShare = async () => {
     try {
       setSharing(true);
-      const whatsappUrl = await autoShareAttendanceSummary();
+      const sent = await autoShareAttendanceSummary();
       
-      if (!whatsappUrl) {
+      if (!sent) {
         toast({
           title: "Sharing Failed",
           description: "Please check your WhatsApp settings and try again.",
@@ -149,11 +158,9 @@ const AttendanceStats: React.FC = () => {
         return;
       }
 
-      window.open(whatsappUrl, '_blank');
-      
       toast({
-        title: "Report Ready",
-        description: "WhatsApp has been opened with the detailed report.",
+        title: "Report Sent",
+        description: "The detailed report has been sent via WhatsApp.",
       });
     } catch (error) {
       toast({
@@ -285,15 +292,30 @@ const AttendanceStats: React.FC = () => {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold tracking-tight">Today's Attendance</h2>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleRefresh}
-          className="flex items-center gap-2"
-        >
-          <RefreshCcw className="h-4 w-4" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {sites.length > 1 && (
+            <select
+              aria-label="Site"
+              className="border rounded-md p-2 text-sm"
+              value={selectedSite}
+              onChange={(e) => setSelectedSite(e.target.value)}
+            >
+              <option value={ALL_SITES}>All sites</option>
+              {sites.map(site => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRefresh}
+            className="flex items-center gap-2"
+          >
+            <RefreshCcw className="h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       <Tabs value={activeView} onValueChange={(value: any) => setActiveView(value)}>
@@ -3,16 +3,15 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/use-toast';
-import { toast as sonnerToast } from "sonner";
 import { Attendance } from '@/types';
 import { 
   getAttendanceRecords, 
   getAdminContactInfo,
   saveAdminContactInfo,
-  autoShareAttendanceSummary,
   getTodayAttendanceSummary
 } from '@/utils/attendanceUtils';
 import { getEmployees } from '@/utils/employeeUtils';
+import { buildDailySummaryMessage, sendToRecipients } from '@/utils/messagingUtils';
 import { 
   CalendarIcon, 
   Send, 
@@ -54,7 +53,6 @@ const AttendanceSummaryShare: React.FC = () => {
   const [whatsappNumber, setWhatsappNumber] = useState('');
   const [whatsappShareEnabled, setWhatsappShareEnabled] = useState(false);
   const [settingsSaved, setSettingsSaved] = useState(false);
-  const [reminderSet, setReminderSet] = useState(false);
   const [activeTab, setActiveTab] = useState<string>('whatsapp');
   const { toast } = useToast();
   const [isSharing, setIsSharing] = useState(false);
@@ -105,52 +103,6 @@ const AttendanceSummaryShare: React.FC = () => {
     loadAdminContactInfo();
   }, [toast]);
 
-  // Setup auto-sharing interval checker
-  useEffect(() => {
-    // Check every 5 minutes if it's time to send the report
-    const intervalId = setInterval(() => {
-      const now = new Date();
-      const hour = now.getHours();
-      const minute = now.getMinutes();
-      
-      // Send report at 6 PM (18:00)
-      if (hour === 18 && minute >= 0 && minute < 5) {
-        if (whatsappShareEnabled && whatsappNumber) {
-          autoShareAttendanceSummary()
-            .then(success => {
-              if (success) {
-                sonnerToast.success('Auto-Share Success', {
-                  description: 'Attendance summary automatically shared',
-                });
-              }
-            })
-            .catch(err => {
-              console.error('Error in auto-sharing:', err);
-              sonnerToast.error('Auto-Share Failed', {
-                description: 'Could not send attendance summary automatically',
-              });
-            });
-        }
-      }
-      
-      // Set a reminder at 5 PM if auto-share is enabled
-      if (hour === 17 && minute >= 0 && minute < 5 && !reminderSet) {
-        if (whatsappShareEnabled && whatsappNumber) {
-          sonnerToast('Auto-Share Reminder', {
-            description: 'Daily attendance report will be automatically shared in 1 hour',
-            duration: 10000,
-          });
-          setReminderSet(true);
-          
-          // Reset the reminder flag after 10 minutes
-          setTimeout(() => setReminderSet(false), 10 * 60 * 1000);
-        }
-      }
-    }, 5 * 60 * 1000); // Check every 5 minutes
-
-    return () => clearInterval(intervalId);
-  }, [whatsappShareEnabled, whatsappNumber, reminderSet]);
-
   const validateAndFormatNumber = (number: string): string | null => {
     // Remove all non-digits
     const cleaned = number.trim().replace(/[^0-9]/g, '');
@@ -205,6 +157,7 @@ const AttendanceSummaryShare: React.FC = () => {
         `• Total Employees: ${summary.totalEmployees}\n` +
         `• Present: ${summary.presentCount} ✅\n` +
         `• Late: ${summary.lateCount} ⏰\n` +
+        `• On Leave: ${summary.onLeaveCount || 0} 🌴\n` +
         `• Absent: ${summary.absentCount} ❌\n` +
         `• Checked Out: ${summary.checkedOutCount} 🏃\n\n` +
         `📈 *DETAILED STATUS*\n` +
@@ -317,6 +270,7 @@ const AttendanceSummaryShare: React.FC = () => {
         `• Total Employees: ${summary.totalEmployees}\n` +
         `• Currently Present: ${summary.presentCount} 👥\n` +
         `• Late but Present: ${summary.lateCount} ⏰\n` +
+        `• On Leave: ${summary.onLeaveCount || 0} 🌴\n` +
         `• Absent: ${summary.absentCount} ❌\n` +
         `• Checked Out: ${summary.checkedOutCount} 🏃\n\n` +
         `📈 *DETAILED STATUS*\n` +
@@ -335,46 +289,15 @@ const AttendanceSummaryShare: React.FC = () => {
 
       console.log('Message prepared:', message);
 
-      // Try sharing with each number
-      let successCount = 0;
-      const errors = [];
-
-      for (const number of numbers) {
-        try {
-          console.log(`Attempting to share with number: ${number}`);
-          
-          // Try direct WhatsApp API first
-          const encodedMessage = encodeURIComponent(message);
-          let url = `https://wa.me/${number}?text=${encodedMessage}`;
-          
-          console.log('Opening URL:', url);
-          let win = window.open(url, '_blank');
-          
-          if (!win) {
-            console.log('First attempt failed, trying alternative URL...');
-            // If first attempt fails, try alternative URL
-            url = `https://api.whatsapp.com/send?phone=${number}&text=${encodedMessage}`;
-            win = window.open(url, '_blank');
-          }
-
-          if (win) {
-            console.log(`Successfully opened WhatsApp for number: ${number}`);
-            successCount++;
-            // Add small delay between multiple numbers
-            if (numbers.length > 1 && successCount < numbers.length) {
-              await new Promise(resolve => setTimeout(resolve, 1000));
-            }
-          } else {
-            throw new Error('Pop-up blocked');
-          }
-        } catch (error: any) {
-          console.error(`Error sharing to ${number}:`, error);
-          const errorMessage = typeof error === 'object' && error !== null && 'message' in error
-            ? error.message
-            : 'Unknown error';
-          errors.push(`Failed to share to ${number}: ${errorMessage}`);
-        }
-      }
+      // Send through the bot's WhatsApp provider, retrying each number
+      const receipts = await sendToRecipients(
+        numbers,
+        buildDailySummaryMessage(dateStr, summary, message)
+      );
+      const successCount = receipts.filter(receipt => receipt.status === 'sent').length;
+      const errors = receipts
+        .filter(receipt => receipt.status === 'failed')
+        .map(receipt => `Failed to send to ${receipt.recipient}: ${receipt.error}`);
 
       if (successCount > 0) {
         console.log(`Successfully shared with ${successCount} numbers`);
@@ -392,7 +315,8 @@ const AttendanceSummaryShare: React.FC = () => {
 
           toast({
             title: 'Success',
-            description: `Report shared with ${successCount} number${successCount > 1 ? 's' : ''}`,
+            description: `Report sent to ${successCount} number${successCount > 1 ? 's' : ''}` +
+              (errors.length > 0 ? `, ${errors.length} failed` : ''),
           });
         } catch (error) {
           console.error('Error saving settings:', error);
@@ -407,7 +331,7 @@ const AttendanceSummaryShare: React.FC = () => {
         if (errors.length > 0) {
           throw new Error(`Sharing failed: ${errors[0]}`);
         } else {
-          throw new Error('Failed to share report. Please ensure pop-ups are enabled and try again.');
+          throw new Error('Failed to send report. Please try again.');
         }
       }
 
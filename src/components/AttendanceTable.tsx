@@ -19,7 +19,7 @@ import {
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Attendance } from '@/types';
-import { Calendar, Download, Search, Clock, Timer, FileText, Share2, Loader2, Trash2, UserX, AlertTriangle, CheckCircle, FileDown, Share, UserCheck } from 'lucide-react';
+import { Calendar, Download, Search, Clock, Timer, FileText, Share2, Loader2, Trash2, UserX, AlertTriangle, CheckCircle, FileDown, Share, UserCheck, PencilLine } from 'lucide-react';
 import { getAttendanceRecords, deleteAttendance, deleteAttendanceRecord, createTestAttendanceRecord, getEffectiveStatus } from '@/utils/attendanceUtils';
 import { getDepartments } from '@/utils/employeeUtils';
 import { Document, Page, Text, View, PDFDownloadLink } from '@react-pdf/renderer';
@@ -30,6 +30,7 @@ import { Label } from "@/components/ui/label";
 import Swal from 'sweetalert2';
 import { supabase } from '@/integrations/supabase/client';
 import AbsentEmployeeDownload from '@/components/AbsentEmployeeDownload';
+import { useAuth } from '@/hooks/useAuth';
 import {
   Dialog,
   DialogContent,
@@ -38,16 +39,23 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { formatDistanceStrict, format } from 'date-fns';
+import { formatDistanceStrict, format, parseISO } from 'date-fns';
+import { addDaysToDate, formatTimeInTimezone, getDateInTimezone, getOrganizationTimezone } from '@/utils/timezoneUtils';
 import { calculateWorkingTime } from '@/utils/attendanceUtils';
 import { PresentEmployeeReport } from './PresentEmployeeReport';
+import { AttendanceCorrectionDialog } from './AttendanceCorrectionDialog';
 import EnhancedAttendanceExport from '@/components/EnhancedAttendanceExport';
 import { 
   calculateLateDuration, 
   formatLateDuration as formatLateDurationUtil, 
+  getRosterBasedEarlyDeparture,
   getRosterBasedLateDuration 
 } from '@/utils/lateDurationUtils';
 
+// Punch times are shown in the organization timezone
+const PDF_TIME_FORMAT: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hour12: false };
+const EXPORT_TIME_FORMAT: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', second: '2-digit' };
+
 interface AttendanceTableProps {
   attendanceRecords?: Attendance[] | Promise<Attendance[]>;
 }
@@ -232,8 +240,8 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({
   attendanceRecords: propAttendanceRecords
 }) => {
   // Get today and 7 days ago for default date range
-  const today = new Date().toISOString().split('T')[0];
-  const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const today = getDateInTimezone();
+  const sevenDaysAgo = addDaysToDate(today, -7);
   const [startDate, setStartDate] = useState<string>(sevenDaysAgo);
   const [endDate, setEndDate] = useState<string>(today);
   const [department, setDepartment] = useState<string>('all');
@@ -242,6 +250,8 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({
   const [records, setRecords] = useState<Attendance[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [selectedRecords, setSelectedRecords] = useState<string[]>([]);
+  const { can } = useAuth();
+  const canDelete = can('attendance.delete');
   const [sharing, setSharing] = useState<boolean>(false);
   const [showAbsentDialog, setShowAbsentDialog] = useState<boolean>(false);
   const [deletionType, setDeletionType] = useState<DeletionType>({ type: null });
@@ -250,6 +260,7 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({
   const [lastDeletedId, setLastDeletedId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isPresentReportOpen, setIsPresentReportOpen] = useState(false);
+  const [correctionRecord, setCorrectionRecord] = useState<Attendance | null>(null);
   
   useEffect(() => {
     const fetchData = async () => {
@@ -272,7 +283,7 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({
         // Ensure each record has a date field
         attendanceData = attendanceData.map(record => ({
           ...record,
-          date: record.date || new Date(record.check_in_time || record.first_check_in_time).toISOString().split('T')[0]
+          date: record.date || getDateInTimezone(record.check_in_time || record.first_check_in_time)
         }));
         
         setRecords(attendanceData);
@@ -372,19 +383,21 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({
       'Break Duration', 
       'Status', 
       'Minutes Late', 
+      'Minutes Early',
       'Working Duration'
     ];
     
     const rows = filteredRecords.map(record => [
       record.date,
       record.employee_name || 'Unknown',
-      record.check_in_time ? new Date(record.check_in_time).toLocaleTimeString() : 'N/A',
-      record.check_out_time ? new Date(record.check_out_time).toLocaleTimeString() : 'N/A',
-      record.second_check_in_time ? new Date(record.second_check_in_time).toLocaleTimeString() : 'N/A',
-      record.second_check_out_time ? new Date(record.second_check_out_time).toLocaleTimeString() : 'N/A',
+      record.check_in_time ? formatTimeInTimezone(record.check_in_time, EXPORT_TIME_FORMAT) : 'N/A',
+      record.check_out_time ? formatTimeInTimezone(record.check_out_time, EXPORT_TIME_FORMAT) : 'N/A',
+      record.second_check_in_time ? formatTimeInTimezone(record.second_check_in_time, EXPORT_TIME_FORMAT) : 'N/A',
+      record.second_check_out_time ? formatTimeInTimezone(record.second_check_out_time, EXPORT_TIME_FORMAT) : 'N/A',
       formatBreakDuration(record.break_duration),
       record.status,
       record.minutes_late || 0,
+      getRosterBasedEarlyDeparture(record, record.roster),
       record.working_duration || 'N/A'
     ]);
     
@@ -486,22 +499,22 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({
                 index % 2 === 1 && styles.tableRowAlt
               ]}>
                 <Text style={[styles.tableCell, { flex: 0.5, fontSize: 6 }]}>
-                  {format(new Date(record.date), 'MM/dd')}
+                  {format(parseISO(record.date), 'MM/dd')}
                 </Text>
                 <Text style={[styles.nameCellStyle, { flex: 1.2, fontSize: 6 }]}>
                   {record.employee_name}
                 </Text>
                 <Text style={[styles.tableCell, { flex: 0.5, fontSize: 6 }]}>
-                  {record.check_in_time ? format(new Date(record.check_in_time), 'HH:mm') : '-'}
+                  {formatTimeInTimezone(record.check_in_time, PDF_TIME_FORMAT)}
                 </Text>
                 <Text style={[styles.tableCell, { flex: 0.5, fontSize: 6 }]}>
-                  {record.check_out_time ? format(new Date(record.check_out_time), 'HH:mm') : '-'}
+                  {formatTimeInTimezone(record.check_out_time, PDF_TIME_FORMAT)}
                 </Text>
                 <Text style={[styles.tableCell, { flex: 0.5, fontSize: 6 }]}>
-                  {record.second_check_in_time ? format(new Date(record.second_check_in_time), 'HH:mm') : '-'}
+                  {formatTimeInTimezone(record.second_check_in_time, PDF_TIME_FORMAT)}
                 </Text>
                 <Text style={[styles.tableCell, { flex: 0.5, fontSize: 6 }]}>
-                  {record.second_check_out_time ? format(new Date(record.second_check_out_time), 'HH:mm') : '-'}
+                  {formatTimeInTimezone(record.second_check_out_time, PDF_TIME_FORMAT)}
                 </Text>
                 <Text style={[styles.tableCell, { flex: 0.4, fontSize: 6 }]}>
                   {formatBreakDuration(record.break_duration)}
@@ -787,6 +800,7 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
   };
 
   const handleDeleteSingleRecord = async (recordId: string) => {
+    if (!canDelete) return;
     try {
       const result = await Swal.fire({
         title: 'Delete Attendance Record',
@@ -863,6 +877,7 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
   }, [lastDeletedId]);
 
   const handleBulkDelete = async () => {
+    if (!canDelete) return;
     if (selectedRecords.length === 0) {
       await Swal.fire({
         icon: 'warning',
@@ -1016,7 +1031,8 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
       hour: '2-digit',
       minute: '2-digit',
       second: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZone: getOrganizationTimezone()
     });
   };
 
@@ -1098,18 +1114,18 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
 
   // Add a helper function to format time compactly
   const formatTimeCompact = (timeString: string | null | undefined): string => {
-    if (!timeString) return '-';
-    return format(new Date(timeString), 'HH:mm');
+    return formatTimeInTimezone(timeString, PDF_TIME_FORMAT);
   };
 
   // Add a helper function to format date compactly
   const formatDateCompact = (dateString: string): string => {
-    return format(new Date(dateString), 'MM/dd');
+    return format(parseISO(dateString), 'MM/dd');
   };
 
   const getStatusBadge = (record: Attendance) => {
     const isLate = record.minutes_late > 0;
-    const isEarlyDeparture = record.early_departure_minutes > 0;
+    const earlyDepartureMinutes = getRosterBasedEarlyDeparture(record, record.roster);
+    const isEarlyDeparture = earlyDepartureMinutes > 0;
     const complianceRate = record.compliance_rate || 0;
 
     if (isLate || isEarlyDeparture) {
@@ -1117,7 +1133,7 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
         <div className="flex flex-col gap-1">
           <Badge variant="destructive" className="flex items-center gap-1">
             <AlertTriangle className="w-4 h-4" />
-            {isLate ? `${record.minutes_late}m Late` : `${record.early_departure_minutes}m Early`}
+            {isLate ? `${record.minutes_late}m Late` : `${earlyDepartureMinutes}m Early`}
           </Badge>
           <Badge variant={complianceRate >= 90 ? "default" : "warning"}>
             {complianceRate.toFixed(1)}% Compliance
@@ -1147,7 +1163,8 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
       return date.toLocaleTimeString('en-US', {
         hour: '2-digit',
         minute: '2-digit',
-        hour12: true
+        hour12: true,
+        timeZone: getOrganizationTimezone()
       });
     } catch (error) {
       console.error('Error formatting time:', error);
@@ -1322,7 +1339,7 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
                   ` (${filteredRecords.length} in current view)`
                 }
               </span>
-              {selectedRecords.length > 0 && (
+              {canDelete && selectedRecords.length > 0 && (
                 <Button
                   variant="destructive"
                   size="sm"
@@ -1430,9 +1447,9 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
                                  getEffectiveStatus(record).toUpperCase() || 'UNKNOWN'}
                               </Badge>
                               {/* Late status is now integrated into the main status badge */}
-                              {record.early_departure_minutes > 0 && (
+                              {getRosterBasedEarlyDeparture(record, record.roster) > 0 && (
                                 <Badge variant="destructive" className="text-xs">
-                                  {formatLateDurationLegacy(record.early_departure_minutes)} Early
+                                  {formatLateDurationLegacy(getRosterBasedEarlyDeparture(record, record.roster))} Early
                                 </Badge>
                               )}
                             </div>
@@ -1445,10 +1462,20 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
                             <Button
                                 variant="ghost"
                                 size="icon"
-                              onClick={() => handleDeleteSingleRecord(record.id)}
+                                title="Correct punches / view history"
+                                onClick={() => setCorrectionRecord(record)}
                             >
-                              <Trash2 className="h-4 w-4" />
+                              <PencilLine className="h-4 w-4" />
                             </Button>
+                            {canDelete && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteSingleRecord(record.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -1489,6 +1516,14 @@ ${record.overtime ? `💪 Overtime: ${record.overtime.toFixed(1)}h` : ''}`;
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Punch Correction Dialog */}
+      <AttendanceCorrectionDialog
+        record={correctionRecord}
+        open={!!correctionRecord}
+        onOpenChange={(open) => !open && setCorrectionRecord(null)}
+        onApplied={() => setRefreshTrigger(prev => prev + 1)}
+      />
     </Card>
   );
 };
@@ -0,0 +1,67 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { AuthContext } from '@/hooks/useAuth';
+import { CurrentRole, Permission, hasPermission, loadCurrentRole, signOut } from '@/utils/authUtils';
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [currentRole, setCurrentRole] = useState<CurrentRole | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const applySession = async (next: Session | null) => {
+      setSession(next);
+      if (!next) {
+        setCurrentRole(null);
+        setLoading(false);
+        return;
+      }
+      try {
+        const role = await loadCurrentRole(next.user.id);
+        if (!cancelled) setCurrentRole(role);
+      } catch {
+        if (!cancelled) setCurrentRole(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    supabase.auth.getSession().then(({ data }) => applySession(data.session));
+
+    // Supabase warns against awaiting other calls inside this callback, so
+    // the role is loaded on the next tick
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, next) => {
+      if (event === 'INITIAL_SESSION' || event === 'TOKEN_REFRESHED') return;
+      setTimeout(() => applySession(next), 0);
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(currentRole?.role, permission),
+    [currentRole]
+  );
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        role: currentRole?.role ?? null,
+        departmentId: currentRole?.department_id ?? null,
+        employeeId: currentRole?.employee_id ?? null,
+        loading,
+        can,
+        signOut
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -7,6 +7,8 @@ import { useToast } from '@/components/ui/use-toast';
 import { Input } from '@/components/ui/input';
 import { Bot, Clock, Settings, Share2, CheckCircle2, AlertTriangle, Users, Trash2 } from 'lucide-react';
 import { getTodayAttendanceSummary } from '@/utils/attendanceUtils';
+import { BOT_SCHEDULE_NAME, getReportSchedules, saveReportSchedule } from '@/utils/reportScheduleUtils';
+import { MAX_RETRY_ATTEMPTS, TemplateMessage, buildDailySummaryMessage, sendToRecipients } from '@/utils/messagingUtils';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -27,9 +29,6 @@ interface BotSettings {
   notifyOnErrors: boolean;
 }
 
-const MAX_RETRY_ATTEMPTS = 3;
-const RETRY_DELAY = 5000; // 5 seconds
-
 const AutomatedAttendanceBot: React.FC = () => {
   const [botSettings, setBotSettings] = useState<BotSettings>({
     isEnabled: false,
@@ -41,8 +40,57 @@ const AutomatedAttendanceBot: React.FC = () => {
   });
   const [isProcessing, setIsProcessing] = useState(false);
   const [newAdminNumber, setNewAdminNumber] = useState('');
+  const [scheduleId, setScheduleId] = useState<string | undefined>();
   const { toast } = useToast();
 
+  // Auto-share is delivered by the server-side report scheduler
+  useEffect(() => {
+    getReportSchedules()
+      .then(schedules => {
+        const schedule = schedules.find(item => item.name === BOT_SCHEDULE_NAME);
+        if (!schedule) return;
+        setScheduleId(schedule.id);
+        setBotSettings(prev => ({
+          ...prev,
+          isEnabled: schedule.is_active,
+          shareTime: schedule.send_time,
+          adminNumbers: schedule.recipients.length > 0 ? schedule.recipients : prev.adminNumbers
+        }));
+      })
+      .catch(error => console.error('Error loading BOT schedule:', error));
+  }, []);
+
+  const syncSchedule = async (settings: BotSettings) => {
+    const result = await saveReportSchedule({
+      id: scheduleId,
+      name: BOT_SCHEDULE_NAME,
+      report_type: 'daily_summary',
+      channel: 'whatsapp',
+      recipients: settings.adminNumbers,
+      send_time: settings.shareTime,
+      days_of_week: [0, 1, 2, 3, 4, 5, 6],
+      is_active: settings.isEnabled,
+      site_id: null
+    });
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.message, variant: 'destructive' });
+      return;
+    }
+    if (!scheduleId) {
+      const schedules = await getReportSchedules();
+      setScheduleId(schedules.find(item => item.name === BOT_SCHEDULE_NAME)?.id);
+    }
+  };
+
+  const updateSettings = (changes: Partial<BotSettings>, sync = true) => {
+    const next = { ...botSettings, ...changes };
+    setBotSettings(next);
+    if (sync) {
+      syncSchedule(next).catch(error => console.error('Error saving BOT schedule:', error));
+    }
+  };
+
   // Function to validate WhatsApp number
   const validateWhatsAppNumber = (number: string): string => {
     let cleaned = number.replace(/\D/g, '');
@@ -52,132 +100,96 @@ const AutomatedAttendanceBot: React.FC = () => {
     return cleaned.length >= 11 ? cleaned : '';
   };
 
-  // Function to generate detailed attendance summary with improved error handling
-  const generateDetailedSummary = async () => {
-    try {
-      const summary = await getTodayAttendanceSummary();
-      const dateStr = new Date().toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      });
+  // Function to generate the templated attendance summary
+  const generateDetailedSummary = async (): Promise<TemplateMessage> => {
+    const summary = await getTodayAttendanceSummary();
+    const dateStr = new Date().toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
 
-      // Ensure we have valid data with fallbacks
-      const safeData = {
-        totalEmployees: summary.totalEmployees || 0,
-        presentCount: summary.presentCount || 0,
-        lateCount: summary.lateCount || 0,
-        absentCount: summary.absentCount || 0,
-        checkedOutCount: summary.checkedOutCount || 0,
-        presentRate: summary.presentRate || summary.totalPresentRate || '0.0',
-        lateRate: summary.lateRate || '0.0',
-        absentRate: summary.absentRate || '0.0'
-      };
+    // Ensure we have valid data with fallbacks
+    const safeData = {
+      totalEmployees: summary.totalEmployees || 0,
+      presentCount: summary.presentCount || 0,
+      lateCount: summary.lateCount || 0,
+      absentCount: summary.absentCount || 0,
+      onLeaveCount: summary.onLeaveCount || 0,
+      checkedOutCount: summary.checkedOutCount || 0,
+      presentRate: summary.presentRate || summary.totalPresentRate || '0.0',
+      lateRate: summary.lateRate || '0.0',
+      absentRate: summary.absentRate || '0.0'
+    };
 
-      return `*Dutch Trails Report*\n` +
-        `───────────────────\n` +
-        `📅 Date: ${dateStr}\n` +
-        `🤖 Generated by: Dutch Attendance BOT\n` +
-        `───────────────────\n\n` +
-        `📊 *ATTENDANCE SUMMARY*\n` +
-        `• Total Staff: ${safeData.totalEmployees}\n` +
-        `• Present: ${safeData.presentCount} ✅\n` +
-        `• Late Arrivals: ${safeData.lateCount} ⏰\n` +
-        `• Absent: ${safeData.absentCount} ❌\n` +
-        `• Early Departures: ${safeData.checkedOutCount} 🏃\n\n` +
-        `📈 *PERFORMANCE METRICS*\n` +
-        `• Attendance Rate: ${safeData.presentRate}%\n` +
-        `• Punctuality Rate: ${(100 - Number(safeData.lateRate)).toFixed(1)}%\n` +
-        `• Absence Rate: ${safeData.absentRate}%\n\n` +
-        `⚠️ *ATTENTION REQUIRED*\n` +
-        `${safeData.lateCount > 0 ? `• Late Arrivals: ${safeData.lateCount} staff\n` : ''}` +
-        `${safeData.absentCount > 0 ? `• Unplanned Absences: ${safeData.absentCount} staff\n` : ''}` +
-        `${safeData.checkedOutCount > 0 ? `• Early Departures: ${safeData.checkedOutCount} staff\n` : ''}` +
-        `\nThis is an automated message from Dutch Attendance BOT.\n` +
-        `Time: ${new Date().toLocaleTimeString()}\n` +
-        `───────────────────`;
-    } catch (error) {
-      console.error('Error generating summary:', error);
-      
-      // Return a fallback message if data loading fails
-      const dateStr = new Date().toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      });
-      
-      return `*Dutch Trails Report*\n` +
-        `───────────────────\n` +
-        `📅 Date: ${dateStr}\n` +
-        `🤖 Generated by: Dutch Attendance BOT\n` +
-        `───────────────────\n\n` +
-        `⚠️ *ERROR*\n` +
-        `Unable to load attendance data. Please check manually.\n` +
-        `\nTime: ${new Date().toLocaleTimeString()}\n` +
-        `───────────────────`;
-    }
+    const text = `*Dutch Trails Report*\n` +
+      `───────────────────\n` +
+      `📅 Date: ${dateStr}\n` +
+      `🤖 Generated by: Dutch Attendance BOT\n` +
+      `───────────────────\n\n` +
+      `📊 *ATTENDANCE SUMMARY*\n` +
+      `• Total Staff: ${safeData.totalEmployees}\n` +
+      `• Present: ${safeData.presentCount} ✅\n` +
+      `• Late Arrivals: ${safeData.lateCount} ⏰\n` +
+      `• On Leave: ${safeData.onLeaveCount} 🌴\n` +
+      `• Absent: ${safeData.absentCount} ❌\n` +
+      `• Early Departures: ${safeData.checkedOutCount} 🏃\n\n` +
+      `📈 *PERFORMANCE METRICS*\n` +
+      `• Attendance Rate: ${safeData.presentRate}%\n` +
+      `• Punctuality Rate: ${(100 - Number(safeData.lateRate)).toFixed(1)}%\n` +
+      `• Absence Rate: ${safeData.absentRate}%\n\n` +
+      `⚠️ *ATTENTION REQUIRED*\n` +
+      `${safeData.lateCount > 0 ? `• Late Arrivals: ${safeData.lateCount} staff\n` : ''}` +
+      `${safeData.absentCount > 0 ? `• Unplanned Absences: ${safeData.absentCount} staff\n` : ''}` +
+      `${safeData.checkedOutCount > 0 ? `• Early Departures: ${safeData.checkedOutCount} staff\n` : ''}` +
+      `\nThis is an automated message from Dutch Attendance BOT.\n` +
+      `Time: ${new Date().toLocaleTimeString()}\n` +
+      `───────────────────`;
+
+    return buildDailySummaryMessage(dateStr, safeData, text);
   };
 
-  // Function to send message via WhatsApp BOT with retry logic
-  const sendViaBotAPI = async (message: string, retryCount = 0): Promise<boolean> => {
-    try {
-      if (!botSettings.adminNumbers.length) {
-        throw new Error('No admin numbers configured');
-      }
-
-      const promises = botSettings.adminNumbers.map(async (number) => {
-        const validNumber = validateWhatsAppNumber(number);
-        if (!validNumber) return false;
-
-        const url = `https://wa.me/${validNumber}?text=${encodeURIComponent(message)}`;
-        window.open(url, '_blank');
-        return true;
-      });
-
-      const results = await Promise.all(promises);
-      const successCount = results.filter(Boolean).length;
-
-      if (successCount === 0) {
-        throw new Error('Failed to send to any admin');
-      }
-
-      setBotSettings(prev => ({
-        ...prev,
-        lastShared: new Date().toISOString(),
-        retryAttempts: 0
-      }));
-
-      toast({
-        title: 'Success',
-        description: `Attendance summary sent to ${successCount} admin${successCount > 1 ? 's' : ''}`,
-      });
+  // Function to send the message to every admin, retrying each number on its own
+  const sendViaBotAPI = async (message: TemplateMessage): Promise<boolean> => {
+    if (!botSettings.adminNumbers.length) {
+      throw new Error('No admin numbers configured');
+    }
 
-      return true;
-    } catch (error) {
-      console.error('Bot API Error:', error);
-      
-      if (retryCount < MAX_RETRY_ATTEMPTS) {
-        toast({
-          title: 'Retrying',
-          description: `Attempt ${retryCount + 1} of ${MAX_RETRY_ATTEMPTS}...`,
-        });
-        
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
-        return sendViaBotAPI(message, retryCount + 1);
-      }
+    const receipts = await sendToRecipients(botSettings.adminNumbers, message, {
+      onRetry: (number, attempt) => toast({
+        title: 'Retrying',
+        description: `${number}: attempt ${attempt} of ${MAX_RETRY_ATTEMPTS}...`,
+      })
+    });
+    const successCount = receipts.filter(receipt => receipt.status === 'sent').length;
 
+    if (successCount === 0) {
+      console.error('Bot API Error:', receipts);
       if (botSettings.notifyOnErrors) {
         toast({
           title: 'Error',
-          description: 'Failed to send summary after multiple attempts',
+          description: receipts[0]?.error || 'Failed to send summary after multiple attempts',
           variant: 'destructive'
         });
       }
-
       return false;
     }
+
+    setBotSettings(prev => ({
+      ...prev,
+      lastShared: new Date().toISOString(),
+      retryAttempts: 0
+    }));
+
+    const failed = receipts.length - successCount;
+    toast({
+      title: 'Success',
+      description: `Attendance summary sent to ${successCount} admin${successCount > 1 ? 's' : ''}` +
+        (failed > 0 ? `, ${failed} failed` : ''),
+    });
+
+    return true;
   };
 
   // Function to handle manual share
@@ -218,10 +230,7 @@ const AutomatedAttendanceBot: React.FC = () => {
       return;
     }
 
-    setBotSettings(prev => ({
-      ...prev,
-      adminNumbers: [...prev.adminNumbers, validNumber]
-    }));
+    updateSettings({ adminNumbers: [...botSettings.adminNumbers, validNumber] });
     setNewAdminNumber('');
     
     toast({
@@ -242,10 +251,7 @@ const AutomatedAttendanceBot: React.FC = () => {
       return;
     }
 
-    setBotSettings(prev => ({
-      ...prev,
-      adminNumbers: prev.adminNumbers.filter(n => n !== number)
-    }));
+    updateSettings({ adminNumbers: botSettings.adminNumbers.filter(n => n !== number) });
     
     toast({
       title: 'Admin Removed',
@@ -253,42 +259,6 @@ const AutomatedAttendanceBot: React.FC = () => {
     });
   };
 
-  // Auto-share check interval
-  useEffect(() => {
-    if (!botSettings.isEnabled) return;
-
-    const checkAndShare = async () => {
-      try {
-        const now = new Date();
-        const [hour, minute] = botSettings.shareTime.split(':').map(Number);
-        
-        if (now.getHours() === hour && now.getMinutes() === minute) {
-          const lastShared = botSettings.lastShared ? new Date(botSettings.lastShared) : null;
-          
-          // Check if we haven't shared today
-          if (!lastShared || lastShared.getDate() !== now.getDate()) {
-            setIsProcessing(true);
-            try {
-              const summary = await generateDetailedSummary();
-              await sendViaBotAPI(summary);
-            } catch (error) {
-              console.error('Error in auto-share:', error);
-              // Continue execution even if auto-share fails
-            } finally {
-              setIsProcessing(false);
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Error in checkAndShare:', error);
-        setIsProcessing(false);
-      }
-    };
-
-    const interval = setInterval(checkAndShare, 60000); // Check every minute
-    return () => clearInterval(interval);
-  }, [botSettings.isEnabled, botSettings.shareTime, botSettings.lastShared]);
-
   return (
     <Card className="w-full bg-gradient-to-br from-blue-50 to-purple-50 dark:from-blue-900/40 dark:to-purple-900/40">
       <CardHeader>
@@ -309,7 +279,7 @@ const AutomatedAttendanceBot: React.FC = () => {
           </div>
           <Switch
             checked={botSettings.isEnabled}
-            onCheckedChange={(checked) => setBotSettings(prev => ({ ...prev, isEnabled: checked }))}
+            onCheckedChange={(checked) => updateSettings({ isEnabled: checked })}
           />
         </div>
 
@@ -367,10 +337,14 @@ const AutomatedAttendanceBot: React.FC = () => {
             <Input
               type="time"
               value={botSettings.shareTime}
-              onChange={(e) => setBotSettings(prev => ({ ...prev, shareTime: e.target.value }))}
+              onChange={(e) => updateSettings({ shareTime: e.target.value }, false)}
+              onBlur={() => syncSchedule(botSettings).catch(error => console.error('Error saving BOT schedule:', error))}
               className="bg-white/80 dark:bg-black/20"
             />
           </div>
+          <p className="text-xs text-muted-foreground">
+            Sent by the server every day at this time, even when the app is closed
+          </p>
         </div>
 
         {/* Error Notification Setting */}
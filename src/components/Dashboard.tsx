@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { getAttendanceRecords, getAdminContactInfo, saveAdminContactInfo, autoShareAttendanceSummary, getTodayAttendanceSummary } from '@/utils/attendanceUtils';
 import { getEmployees } from '@/utils/employeeUtils';
+import { getDateInTimezone, getOrganizationTimezone, isValidTimeZone, saveOrganizationTimezone } from '@/utils/timezoneUtils';
 import { User, Users, Clock, CheckCircle, UploadCloud, Share2, AlertTriangle, Calendar, TestTube, Mail, UserCheck, LogOut, UserX } from 'lucide-react';
 import { Attendance, Employee, AttendanceSummary } from '@/types';
 import { Button } from '@/components/ui/button';
@@ -14,6 +15,10 @@ import { toast } from '@/components/ui/use-toast';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
 import { PushNotificationToggle } from './PushNotificationToggle';
+import { HolidayCalendarSettings } from './HolidayCalendarSettings';
+import { OvertimePolicySettings } from './OvertimePolicySettings';
+import { GatePassAlertSettings } from './GatePassAlertSettings';
+import { SiteRollup } from './SiteRollup';
 
 // Error boundary component
 class ErrorBoundary extends React.Component<
@@ -68,6 +73,10 @@ const Dashboard: React.FC = () => {
   const [whatsappNumber, setWhatsappNumber] = useState('');
   const [isWhatsappShareEnabled, setIsWhatsappShareEnabled] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+
+  // Organization timezone state
+  const [timezone, setTimezone] = useState(getOrganizationTimezone());
+  const [isSavingTimezone, setIsSavingTimezone] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   
   // Today's summary with proper typing
@@ -77,6 +86,8 @@ const Dashboard: React.FC = () => {
     lateCount: 0,
     checkedOutCount: 0,
     absentCount: 0,
+    onLeaveCount: 0,
+    offDutyCount: 0,
     onTime: 0,
     stillWorking: 0,
     currentPresenceRate: '0.0',
@@ -85,6 +96,7 @@ const Dashboard: React.FC = () => {
     onTimeRate: '0.0',
     lateRate: '0.0',
     absentRate: '0.0',
+    onLeaveRate: '0.0',
     detailed: {
       onTime: 0,
       lateArrivals: 0,
@@ -102,11 +114,12 @@ const Dashboard: React.FC = () => {
       lateButPresent: 0,
       checkedOut: 0,
       onTimeArrivals: 0,
+      onLeave: 0,
       absent: 0
     }
   });
   
-  const today = new Date().toISOString().split('T')[0];
+  const today = getDateInTimezone();
   
   // Fetch initial data with improved error handling
   useEffect(() => {
@@ -136,6 +149,8 @@ const Dashboard: React.FC = () => {
               lateCount: 0,
               checkedOutCount: 0,
               absentCount: 0,
+              onLeaveCount: 0,
+              offDutyCount: 0,
               onTime: 0,
               stillWorking: 0,
               currentPresenceRate: '0.0',
@@ -144,6 +159,7 @@ const Dashboard: React.FC = () => {
               onTimeRate: '0.0',
               lateRate: '0.0',
               absentRate: '0.0',
+              onLeaveRate: '0.0',
               detailed: {
                 onTime: 0,
                 lateArrivals: 0,
@@ -161,6 +177,7 @@ const Dashboard: React.FC = () => {
                 lateButPresent: 0,
                 checkedOut: 0,
                 onTimeArrivals: 0,
+                onLeave: 0,
                 absent: 0
               }
             };
@@ -285,6 +302,30 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Save organization timezone
+  const handleSaveTimezone = async () => {
+    if (!isValidTimeZone(timezone)) {
+      toast({
+        title: 'Validation Error',
+        description: 'Please enter a valid timezone (e.g., Asia/Colombo)',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsSavingTimezone(true);
+    try {
+      const result = await saveOrganizationTimezone(timezone);
+      toast({
+        title: result.success ? 'Success' : 'Error',
+        description: result.message,
+        variant: result.success ? 'default' : 'destructive',
+      });
+    } finally {
+      setIsSavingTimezone(false);
+    }
+  };
+
   // Handle WhatsApp sharing
   const handleShareNow = async () => {
     if (!whatsappNumber) {
@@ -298,14 +339,12 @@ const Dashboard: React.FC = () => {
 
     setIsSharing(true);
     try {
-      const whatsappUrl = await autoShareAttendanceSummary();
+      const sent = await autoShareAttendanceSummary();
       
-      if (whatsappUrl) {
-        // Open the WhatsApp URL in a new window
-        window.open(whatsappUrl, '_blank');
+      if (sent) {
         toast({
           title: 'Success',
-          description: 'Opening WhatsApp to share the report...',
+          description: 'Report sent via WhatsApp',
         });
       } else {
         toast({
@@ -424,6 +463,11 @@ const Dashboard: React.FC = () => {
                     <p className="text-xs text-red-600">
                       Absence Rate: {summary.absentRate}%
                     </p>
+                    {summary.onLeaveCount > 0 && (
+                      <p className="text-xs text-blue-600">
+                        {summary.onLeaveCount} on approved leave
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       Out of {summary.totalEmployees} total employees
                     </p>
@@ -471,6 +515,10 @@ const Dashboard: React.FC = () => {
                 </CardContent>
               </Card>
             </div>
+
+            <div className="mt-6">
+              <SiteRollup />
+            </div>
           </TabsContent>
 
           <TabsContent value="settings" className="mt-4">
@@ -590,6 +638,40 @@ const Dashboard: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="mt-4 border-none shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="h-5 w-5 text-blue-600" />
+                  Organization Timezone
+                </CardTitle>
+                <CardDescription>
+                  Attendance dates and punch times are recorded in this timezone
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label htmlFor="organization-timezone">Timezone</Label>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    id="organization-timezone"
+                    value={timezone}
+                    onChange={(e) => setTimezone(e.target.value.trim())}
+                    placeholder="Asia/Colombo"
+                    className="flex-1"
+                  />
+                  <Button onClick={handleSaveTimezone} disabled={isSavingTimezone || !timezone}>
+                    {isSavingTimezone ? 'Saving...' : 'Save Timezone'}
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Use an IANA timezone name, e.g. Asia/Colombo or Europe/Amsterdam
+                </p>
+              </CardContent>
+            </Card>
+
+            <HolidayCalendarSettings />
+            <OvertimePolicySettings />
+            <GatePassAlertSettings />
           </TabsContent>
         </Tabs>
       </div>
@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Mail, Save, Send } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/use-toast';
+import {
+  SMTPSettings,
+  defaultSMTPConfig,
+  getSMTPSettings,
+  saveSMTPSettings,
+  sendTestEmail
+} from '@/utils/smtpConfig';
+
+export function EmailSettings() {
+  const [settings, setSettings] = useState<SMTPSettings>(defaultSMTPConfig);
+  const [testRecipient, setTestRecipient] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    getSMTPSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error loading SMTP settings:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveSMTPSettings(settings);
+      notify(result);
+      if (result.success) {
+        setSettings(current => ({ ...current, auth: { ...current.auth, pass: '' } }));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    try {
+      notify(await sendTestEmail(testRecipient.trim()));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email (SMTP)
+        </CardTitle>
+        <CardDescription>
+          Used for emailed reports. Use port 465 with SSL; ports 25 and 587 are blocked for edge functions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="smtp-host">Host</Label>
+                <Input
+                  id="smtp-host"
+                  value={settings.host}
+                  onChange={(e) => setSettings(current => ({ ...current, host: e.target.value }))}
+                  placeholder="smtp.gmail.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtp-port">Port</Label>
+                <Input
+                  id="smtp-port"
+                  type="number"
+                  value={settings.port}
+                  onChange={(e) => setSettings(current => ({ ...current, port: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="smtp-secure">Use SSL/TLS</Label>
+              <Switch
+                id="smtp-secure"
+                checked={settings.secure}
+                onCheckedChange={(secure) => setSettings(current => ({ ...current, secure }))}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="smtp-user">Username</Label>
+                <Input
+                  id="smtp-user"
+                  value={settings.auth.user}
+                  onChange={(e) => setSettings(current => ({ ...current, auth: { ...current.auth, user: e.target.value } }))}
+                  autoComplete="off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="smtp-pass">Password</Label>
+                <Input
+                  id="smtp-pass"
+                  type="password"
+                  value={settings.auth.pass}
+                  onChange={(e) => setSettings(current => ({ ...current, auth: { ...current.auth, pass: e.target.value } }))}
+                  placeholder="Leave blank to keep the saved password"
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="smtp-from">From</Label>
+              <Input
+                id="smtp-from"
+                value={settings.from}
+                onChange={(e) => setSettings(current => ({ ...current, from: e.target.value }))}
+                placeholder="Dutch Trails BOT <reports@example.com>"
+              />
+            </div>
+            <Button onClick={handleSave} disabled={saving} className="w-full">
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save SMTP Settings
+            </Button>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="smtp-test">Send a test email</Label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  id="smtp-test"
+                  type="email"
+                  value={testRecipient}
+                  onChange={(e) => setTestRecipient(e.target.value)}
+                  placeholder="you@example.com"
+                  className="flex-1"
+                />
+                <Button variant="outline" onClick={handleTest} disabled={testing || !testRecipient.trim()}>
+                  {testing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Send Test
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
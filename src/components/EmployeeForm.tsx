@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/components/ui/use-toast';
 import { Employee } from '@/types';
 import { addEmployee, updateEmployee, getDepartments } from '@/utils/employeeUtils';
+import { Site, getSites } from '@/utils/siteUtils';
 
 interface EmployeeFormProps {
   employee?: Employee;
@@ -30,8 +31,15 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onSave }) => {
   const [existingDepartments, setExistingDepartments] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingDepartments, setLoadingDepartments] = useState(true);
+  const [sites, setSites] = useState<Site[]>([]);
   const { toast } = useToast();
 
+  useEffect(() => {
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, []);
+
   useEffect(() => {
     let mounted = true;
     
@@ -214,6 +222,25 @@ const EmployeeForm: React.FC<EmployeeFormProps> = ({ employee, onSave }) => {
                 </Select>
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="home_site_id">Home Site</Label>
+                <Select
+                  value={formData.home_site_id || undefined}
+                  onValueChange={(value) => handleSelectChange('home_site_id', value)}
+                >
+                  <SelectTrigger id="home_site_id">
+                    <SelectValue placeholder="Select site" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sites.map(site => (
+                      <SelectItem key={site.id} value={site.id}>
+                        {site.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="position">Position</Label>
                 <Input
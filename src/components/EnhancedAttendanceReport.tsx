@@ -3,6 +3,7 @@ import { Document, Page, Text, View, StyleSheet } from '@react-pdf/renderer';
 import { format } from 'date-fns';
 import { Attendance, Employee } from '@/types';
 import { calculateWorkingTime, getEffectiveStatus } from '@/utils/attendanceUtils';
+import { formatBucketMinutes } from '@/utils/overtimeUtils';
 
 // Dynamic font size calculation based on record count
 const calculateFontSizes = (recordCount: number) => {
@@ -267,6 +268,26 @@ const EnhancedAttendanceReport: React.FC<EnhancedAttendanceReportProps> = ({
     return calculateWorkingTime(record);
   };
 
+  // Only rosters with an overtime policy have buckets
+  const formatOvertimeBuckets = (record: Attendance) => {
+    if (record.regular_minutes === null || record.regular_minutes === undefined) {
+      return <Text style={styles.timeValue}>-</Text>;
+    }
+    return (
+      <View style={styles.timeCell}>
+        <Text style={styles.timeValue}>
+          {formatBucketMinutes(record.regular_minutes)} / {formatBucketMinutes(record.ot1_minutes)} / {formatBucketMinutes(record.ot2_minutes)}
+        </Text>
+        {record.ot2_minutes ? (
+          <Text style={styles.timeLabel}>OT2 x{record.ot2_multiplier}</Text>
+        ) : null}
+        {record.unapproved_overtime_minutes ? (
+          <Text style={[styles.timeLabel, { color: '#e67e22' }]}>pending approval</Text>
+        ) : null}
+      </View>
+    );
+  };
+
   const formatTimeWithLabel = (time: string | null | undefined, label: string) => {
     if (!time) {
       return (
@@ -316,6 +337,7 @@ const EnhancedAttendanceReport: React.FC<EnhancedAttendanceReportProps> = ({
               <Text style={[styles.tableHeaderCell, { flex: 0.8 }]}>Second Shift</Text>
               <Text style={[styles.tableHeaderCell, { flex: 0.5 }]}>Break</Text>
               <Text style={[styles.tableHeaderCell, { flex: 0.5 }]}>Hours</Text>
+              <Text style={[styles.tableHeaderCell, { flex: 0.7 }]}>Reg / OT1 / OT2</Text>
               <Text style={[styles.tableHeaderCell, { flex: 0.4 }]}>Late</Text>
               <Text style={[styles.tableHeaderCell, { flex: 0.6 }]}>Status</Text>
             </View>
@@ -356,6 +378,10 @@ const EnhancedAttendanceReport: React.FC<EnhancedAttendanceReportProps> = ({
                   </Text>
                 </View>
 
+                <View style={[{ flex: 0.7, alignItems: 'center' }]}>
+                  {formatOvertimeBuckets(record)}
+                </View>
+
                 <View style={[{ flex: 0.4, alignItems: 'center' }]}>
                   <Text style={[
                     styles.timeValue,
@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { QRScanner } from './QRScanner';
-import { parseQRCodeData } from '@/utils/qrCodeUtils';
-import { recordAttendance, getNextAttendanceAction } from '@/utils/attendanceUtils';
+import { parseQRCodeData, verifyEmployeeQR } from '@/utils/qrCodeUtils';
+import { singleScanAttendance, getNextAttendanceAction } from '@/utils/attendanceUtils';
 import { useToast } from '@/hooks/use-toast';
 import { ScannerOverlay } from './ScannerOverlay';
 import { enhancedSpeechUtility } from '@/utils/enhancedSpeechUtils';
 import { cooldownManager } from '@/utils/cooldownUtils';
+import { isConnectivityError, offlineScanQueue } from '@/utils/offlineQueueUtils';
 import { useCooldown } from '@/hooks/useCooldown';
 import { CooldownTimer } from './CooldownTimer';
 import { Card, CardContent } from '@/components/ui/card';
@@ -54,6 +55,26 @@ const EnhancedQRScanner: React.FC<EnhancedQRScannerProps> = ({ onScanComplete })
         throw new Error('Invalid QR code format');
       }
 
+      // Without a connection the scan is queued with its device timestamp and verified on replay
+      const queueOfflineScan = async () => {
+        await offlineScanQueue.enqueue(result, qrData.id);
+        toast({
+          title: 'Scan saved offline',
+          description: 'The scan will be recorded with its original time once the connection is back',
+          duration: 3000,
+        });
+      };
+      const verification = navigator.onLine ? await verifyEmployeeQR(result) : null;
+      if (!verification || verification.reason === 'unavailable') {
+        await queueOfflineScan();
+        return;
+      }
+
+      // Reject forged, revoked or expired legacy badges before touching attendance
+      if (!verification.valid) {
+        throw new Error(verification.message);
+      }
+
       // Check if action is allowed during cooldown
       const nextAction = await getNextAttendanceAction(qrData.id);
       
@@ -71,8 +92,17 @@ const EnhancedQRScanner: React.FC<EnhancedQRScannerProps> = ({ onScanComplete })
         return;
       }
 
-      // Record attendance
-      const attendanceResult = await recordAttendance(qrData.id);
+      // The state machine decides the punch and enforces cooldown and ordering
+      let attendanceResult;
+      try {
+        attendanceResult = await singleScanAttendance(qrData.id, { badge: result });
+      } catch (error) {
+        if (isConnectivityError(error)) {
+          await queueOfflineScan();
+          return;
+        }
+        throw error;
+      }
 
       // Determine if cooldown should start
       const shouldStartCooldown = 
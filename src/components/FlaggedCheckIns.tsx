@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, MapPinOff, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { formatDateInTimezone, formatTimeInTimezone } from '@/utils/timezoneUtils';
+import { CheckInAttempt, PUNCH_METHOD_LABELS, getFlaggedCheckIns, reviewCheckIn } from '@/utils/selfCheckInUtils';
+
+const notify = (result: { success: boolean; message: string }) => {
+  toast({
+    title: result.success ? 'Success' : 'Error',
+    description: result.message,
+    variant: result.success ? 'default' : 'destructive',
+  });
+};
+
+const mapUrl = (attempt: CheckInAttempt) =>
+  `https://www.openstreetmap.org/?mlat=${attempt.latitude}&mlon=${attempt.longitude}#map=17/${attempt.latitude}/${attempt.longitude}`;
+
+// Self check-ins from outside a geofence, or with an expired site code, wait here for review
+export function FlaggedCheckIns() {
+  const [attempts, setAttempts] = useState<CheckInAttempt[]>([]);
+  const [working, setWorking] = useState<string | null>(null);
+
+  const loadAttempts = useCallback(async () => {
+    try {
+      setAttempts(await getFlaggedCheckIns());
+    } catch (error) {
+      console.error('Error loading flagged check-ins:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAttempts();
+  }, [loadAttempts]);
+
+  const handleReview = async (attempt: CheckInAttempt, approve: boolean) => {
+    setWorking(attempt.id);
+    try {
+      notify(await reviewCheckIn(attempt.id, approve));
+      await loadAttempts();
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  if (attempts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MapPinOff className="h-5 w-5" />
+          Flagged Check-ins
+        </CardTitle>
+        <CardDescription>
+          Approving records the punch at the time it was attempted
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead>Attempted</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Location</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {attempts.map(attempt => (
+              <TableRow key={attempt.id}>
+                <TableCell className="font-medium">
+                  {attempt.employee ? `${attempt.employee.first_name} ${attempt.employee.last_name}` : 'Unknown'}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatDateInTimezone(attempt.attempted_at, { month: 'short', day: 'numeric' })}{' '}
+                  {formatTimeInTimezone(attempt.attempted_at)}
+                </TableCell>
+                <TableCell>{PUNCH_METHOD_LABELS[attempt.method]}</TableCell>
+                <TableCell className="text-sm">{attempt.reason}</TableCell>
+                <TableCell className="text-sm">
+                  {attempt.latitude !== null && attempt.longitude !== null ? (
+                    <a href={mapUrl(attempt)} target="_blank" rel="noreferrer" className="underline">
+                      ±{Math.round(attempt.accuracy_m ?? 0)} m
+                    </a>
+                  ) : (
+                    '-'
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Approve"
+                    disabled={working === attempt.id}
+                    onClick={() => handleReview(attempt, true)}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Reject"
+                    disabled={working === attempt.id}
+                    onClick={() => handleReview(attempt, false)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { BellRing, Loader2, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { getGatePassAlertMinutes, parseAlertMinutes, saveGatePassAlertMinutes } from '@/utils/gatePassUtils';
+
+const notify = (result: { success: boolean; message: string }) => {
+  toast({
+    title: result.success ? 'Success' : 'Error',
+    description: result.message,
+    variant: result.success ? 'default' : 'destructive',
+  });
+};
+
+// When overdue gate pass returns are alerted and escalated
+export function GatePassAlertSettings() {
+  const [steps, setSteps] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getGatePassAlertMinutes()
+      .then(minutes => setSteps(minutes.join(', ')))
+      .catch(error => console.error('Error loading gate pass alert settings:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    const minutes = parseAlertMinutes(steps);
+    if (!minutes) {
+      notify({ success: false, message: 'Enter minutes as increasing whole numbers, e.g. 0, 30, 120' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      notify(await saveGatePassAlertMinutes(minutes));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-4 border-none shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-red-600" />
+          Overdue Gate Pass Alerts
+        </CardTitle>
+        <CardDescription>
+          Minutes past the expected return time at which each alert goes out. The first alerts the
+          approver and security; every later step also escalates to the admins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <Loader2 className="h-6 w-6 animate-spin" />
+        ) : (
+          <>
+            <Label htmlFor="gate-pass-alert-minutes">Alert steps (minutes)</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                id="gate-pass-alert-minutes"
+                value={steps}
+                onChange={(e) => setSteps(e.target.value)}
+                placeholder="0, 30, 120"
+                className="flex-1"
+              />
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
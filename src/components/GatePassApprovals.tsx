@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Inbox, Loader2, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/use-toast';
+import { GatePass } from '@/types';
+import { getPendingGatePasses, reviewGatePass } from '@/utils/gatePassUtils';
+
+const notify = (result: { success: boolean; message: string }) => {
+  toast({
+    title: result.success ? 'Success' : 'Error',
+    description: result.message,
+    variant: result.success ? 'default' : 'destructive',
+  });
+};
+
+interface GatePassApprovalsProps {
+  onReviewed?: () => void;
+}
+
+// Gate pass requests waiting for the department head or HR
+export function GatePassApprovals({ onReviewed }: GatePassApprovalsProps) {
+  const [passes, setPasses] = useState<GatePass[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+
+  const loadPasses = useCallback(async () => {
+    try {
+      setPasses(await getPendingGatePasses());
+    } catch (error) {
+      console.error('Error loading gate pass approvals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPasses();
+  }, [loadPasses]);
+
+  const handleReview = async (pass: GatePass, approve: boolean) => {
+    setWorking(pass.id);
+    try {
+      const result = await reviewGatePass(pass.id, approve, comments[pass.id]);
+      notify(result);
+      if (result.success) {
+        onReviewed?.();
+      }
+      await loadPasses();
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Awaiting Approval
+        </CardTitle>
+        <CardDescription>
+          Approved passes become active and can be downloaded; rejecting needs a comment
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : passes.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">No gate passes are waiting for approval</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Exit / Return</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Comment</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {passes.map(pass => (
+                  <TableRow key={pass.id}>
+                    <TableCell className="font-medium">{pass.employeeName}</TableCell>
+                    <TableCell className="capitalize">{pass.type}</TableCell>
+                    <TableCell className="text-sm">{pass.reason}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {pass.expectedExitTime || 'N/A'} / {pass.expectedReturnTime || 'N/A'}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(pass.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Input
+                        placeholder="Optional when approving"
+                        value={comments[pass.id] || ''}
+                        onChange={(e) => setComments(current => ({ ...current, [pass.id]: e.target.value }))}
+                        disabled={working === pass.id}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Approve"
+                        disabled={working === pass.id}
+                        onClick={() => handleReview(pass, true)}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reject"
+                        disabled={working === pass.id}
+                        onClick={() => handleReview(pass, false)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -154,6 +154,10 @@ const GatePassForm: React.FC<GatePassFormProps> = ({ onSuccess, onError }) => {
         />
       </div>
 
+      <p className="text-sm text-gray-500">
+        The pass is sent to the employee's department head and becomes active once approved.
+      </p>
+
       <div className="flex justify-end">
         <button
           type="submit"
@@ -164,7 +168,7 @@ const GatePassForm: React.FC<GatePassFormProps> = ({ onSuccess, onError }) => {
               : 'bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500'
           }`}
         >
-          {loading ? 'Creating...' : 'Create Gate Pass'}
+          {loading ? 'Submitting...' : 'Request Gate Pass'}
         </button>
       </div>
     </form>
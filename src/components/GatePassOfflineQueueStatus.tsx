@@ -0,0 +1,66 @@
+import React from 'react';
+import { AlertTriangle, CloudOff, RefreshCw, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useOfflineGatePassQueue } from '@/hooks/useOfflineGatePassQueue';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+// Exits and returns recorded offline at this gate, and any the server turned down
+const GatePassOfflineQueueStatus: React.FC = () => {
+  const { isOnline } = useOnlineStatus();
+  const { pendingCount, conflicts, isReplaying, replay, dismissConflict } = useOfflineGatePassQueue();
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="border-2 border-amber-200 bg-amber-50">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <CloudOff className="h-4 w-4 text-amber-600" />
+            <span className="text-sm font-medium text-amber-800">
+              {isOnline ? 'Online' : 'Offline: passes are checked against their signature'}
+            </span>
+            <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+              {pendingCount} gate event{pendingCount === 1 ? '' : 's'} queued
+            </Badge>
+          </div>
+          {isOnline && pendingCount > 0 && (
+            <Button size="sm" variant="outline" onClick={() => replay()} disabled={isReplaying}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isReplaying ? 'animate-spin' : ''}`} />
+              {isReplaying ? 'Syncing...' : 'Sync now'}
+            </Button>
+          )}
+        </div>
+
+        {/* Usage the server rejected during sync, e.g. double use at another gate */}
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              <span>{conflicts.length} gate event{conflicts.length === 1 ? '' : 's'} could not be recorded</span>
+            </div>
+            {conflicts.map(event => (
+              <div key={event.id} className="flex items-center justify-between rounded border border-red-200 bg-white p-2 text-xs">
+                <div>
+                  <p className="font-medium">
+                    {event.holderName} ({event.passCode}): {event.usageType} at {new Date(event.occurredAt).toLocaleString()}
+                  </p>
+                  <p className="text-red-600">{event.conflictReason}</p>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => dismissConflict(event.id!)}>
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GatePassOfflineQueueStatus;
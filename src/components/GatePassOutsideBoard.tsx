@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DoorOpen, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { GatePass } from '@/types';
+import { formatOverdue, getOverdueMinutes, getPassesOutside } from '@/utils/gatePassUtils';
+
+// Reload from the database every minute; recount overdue time in between
+const REFRESH_MS = 60 * 1000;
+const TICK_MS = 15 * 1000;
+
+// Everyone currently out on a gate pass, with how overdue they are
+export function GatePassOutsideBoard() {
+  const [passes, setPasses] = useState<GatePass[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadPasses = useCallback(async () => {
+    try {
+      setPasses(await getPassesOutside());
+    } catch (error) {
+      console.error('Error loading passes outside:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPasses();
+    const refresh = setInterval(loadPasses, REFRESH_MS);
+    const tick = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
+  }, [loadPasses]);
+
+  const overdueCount = passes.filter(pass => getOverdueMinutes(pass, now) !== null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DoorOpen className="h-5 w-5" />
+          Currently Outside ({passes.length})
+        </CardTitle>
+        <CardDescription>
+          {overdueCount > 0
+            ? `${overdueCount} overdue back; the approver and security are alerted, then the admins`
+            : 'Everyone outside is within their expected return time'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : passes.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">Nobody is out on a gate pass</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Left</TableHead>
+                  <TableHead>Expected Back</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {passes.map(pass => {
+                  const overdue = getOverdueMinutes(pass, now);
+                  return (
+                    <TableRow key={pass.id} className={overdue !== null ? 'bg-red-50' : ''}>
+                      <TableCell className="font-medium">{pass.employeeName}</TableCell>
+                      <TableCell>{pass.exitTime}</TableCell>
+                      <TableCell>{pass.expectedReturnTime || 'N/A'}</TableCell>
+                      <TableCell>
+                        {overdue !== null ? (
+                          <Badge variant="outline" className="bg-red-100 text-red-800">
+                            {formatOverdue(overdue)} overdue
+                          </Badge>
+                        ) : pass.returnDueAt ? (
+                          <Badge variant="outline" className="bg-green-100 text-green-800">On time</Badge>
+                        ) : (
+                          <Badge variant="outline">No return time</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{pass.reason}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
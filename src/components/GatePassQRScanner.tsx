@@ -1,38 +1,121 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Html5QrcodeScanner } from 'html5-qrcode';
+import { CloudOff, Loader2, LogIn, LogOut, Search } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { toast } from '@/components/ui/use-toast';
+import { GatePass } from '@/types';
+import { parseGatePassQR, recordGatePassUsage, verifyGatePass } from '@/utils/gatePassUtils';
+import {
+  OfflineGatePassVerification,
+  decodeSignedGatePass,
+  getSignedPassSchedule,
+  verifyGatePassOffline
+} from '@/utils/signedGatePassUtils';
+import { describeSchedule, getExitDenial } from '@/utils/gatePassScheduleUtils';
+import { offlineGatePassQueue } from '@/utils/offlineGatePassQueueUtils';
+import { VISITOR_TYPE_LABELS } from '@/utils/visitorUtils';
+import GatePassOfflineQueueStatus from '@/components/GatePassOfflineQueueStatus';
 
-// Add type declaration for Html5QrcodeScanner
-declare global {
-  interface Window {
-    Html5QrcodeScanner: {
-      new (
-        elementId: string,
-        config: {
-          fps: number;
-          qrbox: { width: number; height: number };
-        },
-        verbose: boolean
-      ): Html5QrcodeScanner;
-    };
-  }
-}
+// The scanner keeps firing while a code is in view; ignore repeats for a while
+const RESCAN_DELAY_MS = 5000;
 
-interface GatePassQRData {
-  id: string;
-  pass_code: string;
-  type: 'gate_pass';
-  employee_id: string;
-  validity: 'single' | 'day' | 'week' | 'month';
+interface Props {
+  onVerified?: (pass: GatePass) => void;
 }
 
-interface Props {
-  onScan: (data: GatePassQRData) => void;
-  onError?: (error: string) => void;
+interface Verification {
+  verified: boolean;
+  message: string;
+  pass?: GatePass;
+  // Set when the gate had no connection and only the signature was checked
+  offline?: OfflineGatePassVerification;
 }
 
-const GatePassQRScanner: React.FC<Props> = ({ onScan, onError }) => {
+const currentTime = () => new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Who the pass is for, with the visitor's photo and ID details for visitor passes
+const PassHolder: React.FC<{ pass: GatePass }> = ({ pass }) => {
+  const visitor = pass.visitor;
+  if (!visitor) {
+    return (
+      <div>
+        <p className="text-lg font-semibold">{pass.employeeName}</p>
+        <p className="text-sm text-muted-foreground">Employee</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4">
+      {visitor.photo && (
+        <img src={visitor.photo} alt={visitor.full_name} className="h-24 w-24 rounded-md object-cover border" />
+      )}
+      <div className="space-y-1 text-sm">
+        <p className="text-lg font-semibold">
+          {visitor.full_name}{' '}
+          <Badge variant="outline" className="bg-purple-100 text-purple-800 border-purple-200">
+            {VISITOR_TYPE_LABELS[visitor.visitor_type]}
+          </Badge>
+        </p>
+        {visitor.company && <p>Company: {visitor.company}</p>}
+        <p>Visiting: {visitor.host ? `${visitor.host.first_name} ${visitor.host.last_name}` : 'Unknown'}</p>
+        {visitor.id_document_number && <p>ID: {visitor.id_document_number}</p>}
+        {visitor.vehicle_plate && <p>Vehicle: {visitor.vehicle_plate}</p>}
+        {visitor.purpose && <p>Purpose: {visitor.purpose}</p>}
+      </div>
+    </div>
+  );
+};
+
+const GatePassQRScanner: React.FC<Props> = ({ onVerified }) => {
   const scannerRef = useRef<Html5QrcodeScanner | null>(null);
+  const lastScan = useRef<{ code: string; at: number } | null>(null);
+  const onVerifiedRef = useRef(onVerified);
+  const [manualCode, setManualCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [result, setResult] = useState<Verification | null>(null);
+
+  onVerifiedRef.current = onVerified;
+
+  // Online the database is the authority; offline only signed passes can be checked
+  const verify = async (scanned: string) => {
+    setVerifying(true);
+    try {
+      if (!navigator.onLine) {
+        if (!decodeSignedGatePass(scanned)) {
+          setResult({ verified: false, message: 'This gate is offline. Only signed pass QR codes can be checked.' });
+          return;
+        }
+        const offline = await verifyGatePassOffline(scanned);
+        setResult({ verified: offline.valid, message: offline.message, offline });
+        return;
+      }
+
+      const code = parseGatePassQR(scanned);
+      if (!code) {
+        setResult({ verified: false, message: 'Invalid gate pass QR code' });
+        return;
+      }
+      const verification = await verifyGatePass(code);
+      setResult(verification);
+      if (verification.verified && verification.pass) {
+        onVerifiedRef.current?.(verification.pass);
+      }
+    } catch (error) {
+      console.error('Error verifying gate pass:', error);
+      setResult({ verified: false, message: 'Error verifying pass. Please try again.' });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const verifyRef = useRef(verify);
+  verifyRef.current = verify;
 
   useEffect(() => {
     scannerRef.current = new Html5QrcodeScanner(
@@ -42,22 +125,21 @@ const GatePassQRScanner: React.FC<Props> = ({ onScan, onError }) => {
     );
 
     scannerRef.current.render((decodedText) => {
-      try {
-        const parsedData = JSON.parse(decodedText);
-        if (!isValidGatePassQR(parsedData)) {
-          throw new Error('Invalid gate pass QR code format');
-        }
-        onScan(parsedData as GatePassQRData);
-      } catch (error) {
-        const errorMessage = 'Invalid gate pass QR code';
+      const code = decodeSignedGatePass(decodedText) ? decodedText.trim() : parseGatePassQR(decodedText);
+      if (!code) {
         toast({
           title: 'Error',
-          description: errorMessage,
+          description: 'Invalid gate pass QR code',
           variant: 'destructive',
         });
-        if (onError) onError(errorMessage);
+        return;
       }
-    }, (error) => {
+
+      const now = Date.now();
+      if (lastScan.current?.code === code && now - lastScan.current.at < RESCAN_DELAY_MS) return;
+      lastScan.current = { code, at: now };
+      verifyRef.current(code);
+    }, () => {
       // Ignore errors as they're too frequent during scanning
     });
 
@@ -66,25 +148,201 @@ const GatePassQRScanner: React.FC<Props> = ({ onScan, onError }) => {
         scannerRef.current.clear().catch(console.error);
       }
     };
-  }, [onScan, onError]);
+  }, []);
 
-  const isValidGatePassQR = (data: any): data is GatePassQRData => {
-    return (
-      data &&
-      typeof data === 'object' &&
-      typeof data.id === 'string' &&
-      typeof data.pass_code === 'string' &&
-      data.type === 'gate_pass' &&
-      typeof data.employee_id === 'string' &&
-      ['single', 'day', 'week', 'month'].includes(data.validity)
-    );
+  const handleManualVerify = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = decodeSignedGatePass(manualCode) ? manualCode.trim() : parseGatePassQR(manualCode);
+    if (!code) {
+      toast({
+        title: 'Error',
+        description: 'Please enter a valid pass code',
+        variant: 'destructive',
+      });
+      return;
+    }
+    verify(code);
+  };
+
+  // Offline usage is queued and reconciled with the other gates on sync
+  const handleQueueUsage = async (type: 'exit' | 'return') => {
+    const payload = result?.offline?.payload;
+    if (!payload) return;
+
+    const denial = type === 'exit' ? getExitDenial({ validFrom: null, schedule: getSignedPassSchedule(payload) }) : null;
+    if (denial) {
+      toast({
+        title: 'Exit Not Allowed',
+        description: denial,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setRecording(true);
+    try {
+      const time = currentTime();
+      await offlineGatePassQueue.enqueue({
+        passId: payload.pid,
+        passCode: payload.pc,
+        holderName: payload.n,
+        usageType: type,
+        time
+      });
+      toast({
+        title: type === 'exit' ? 'Exit Queued' : 'Return Queued',
+        description: `Time: ${time}. It will sync when the gate is back online.`,
+      });
+    } catch (error) {
+      console.error('Error queuing gate pass usage:', error);
+      toast({
+        title: 'Error',
+        description: `Failed to queue the ${type}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const handleRecordUsage = async (type: 'exit' | 'return') => {
+    const pass = result?.pass;
+    if (!pass) return;
+
+    setRecording(true);
+    try {
+      const time = currentTime();
+      const usage = await recordGatePassUsage(pass.id, type, time);
+      toast({
+        title: usage.success ? (type === 'exit' ? 'Exit Recorded' : 'Return Recorded') : 'Error',
+        description: usage.success ? `Time: ${time}` : usage.message || 'Failed to record usage',
+        variant: usage.success ? 'default' : 'destructive',
+      });
+      if (usage.success) {
+        setResult({
+          ...result,
+          pass: { ...pass, ...(type === 'exit' ? { exitTime: time, returnTime: undefined } : { returnTime: time }) }
+        });
+      }
+    } finally {
+      setRecording(false);
+    }
   };
 
+  const pass = result?.pass;
+  const offlinePass = result?.offline?.payload;
+
   return (
-    <div className="relative rounded-lg overflow-hidden">
-      <div id="gate-pass-reader" className="w-full" />
-    </div>
+    <Card>
+      <CardHeader>
+        <CardTitle>Verify Gate Pass</CardTitle>
+        <CardDescription>Scan the pass QR code or type its code, then record the exit or return</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="md:col-span-2">
+          <GatePassOfflineQueueStatus />
+        </div>
+        <div className="space-y-4">
+          <div className="relative rounded-lg overflow-hidden">
+            <div id="gate-pass-reader" className="w-full" />
+          </div>
+          <form onSubmit={handleManualVerify} className="flex gap-2">
+            <Input
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              placeholder="Pass code"
+              className="font-mono"
+            />
+            <Button type="submit" disabled={verifying}>
+              {verifying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Verify
+            </Button>
+          </form>
+        </div>
+
+        <div>
+          {verifying ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : result && (
+            <div className="space-y-4">
+              <Alert variant={result.verified ? 'default' : 'destructive'}>
+                <AlertTitle>{result.verified ? 'Valid Pass' : 'Invalid Pass'}</AlertTitle>
+                <AlertDescription>{result.message}</AlertDescription>
+              </Alert>
+              {offlinePass && (
+                <>
+                  <div>
+                    <p className="text-lg font-semibold flex items-center gap-2">
+                      {offlinePass.n}
+                      <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                        <CloudOff className="mr-1 h-3 w-3" />
+                        Offline check
+                      </Badge>
+                    </p>
+                    <p className="text-sm text-muted-foreground">{offlinePass.vid ? 'Visitor' : 'Employee'}</p>
+                  </div>
+                  <div className="text-sm space-y-1">
+                    <p>Pass code: <span className="font-mono">{offlinePass.pc}</span></p>
+                    <p className="capitalize">Type: {offlinePass.t}, {offlinePass.val}</p>
+                    <p>Valid: {new Date(offlinePass.nbf * 1000).toLocaleString()} to {new Date(offlinePass.exp * 1000).toLocaleString()}</p>
+                    {offlinePass.s && <p>Exits: {describeSchedule(getSignedPassSchedule(offlinePass)!)}</p>}
+                  </div>
+                  {result.verified && (
+                    <div className="flex gap-2">
+                      <Button className="flex-1" onClick={() => handleQueueUsage('exit')} disabled={recording}>
+                        <LogOut className="mr-2 h-4 w-4" />
+                        Queue Exit
+                      </Button>
+                      <Button variant="outline" className="flex-1" onClick={() => handleQueueUsage('return')} disabled={recording}>
+                        <LogIn className="mr-2 h-4 w-4" />
+                        Queue Return
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+              {pass && (
+                <>
+                  <PassHolder pass={pass} />
+                  <div className="text-sm space-y-1">
+                    <p>Pass code: <span className="font-mono">{pass.passCode}</span></p>
+                    <p>Reason: {pass.reason}</p>
+                    <p>Valid until: {new Date(pass.expiresAt).toLocaleString()}</p>
+                    {pass.schedule && <p>Exits: {describeSchedule(pass.schedule)}</p>}
+                    {pass.exitTime && <p>Exit: {pass.exitTime}</p>}
+                    {pass.returnTime && <p>Return: {pass.returnTime}</p>}
+                  </div>
+                  {result.verified && (
+                    <div className="flex gap-2">
+                      <Button
+                        className="flex-1"
+                        onClick={() => handleRecordUsage('exit')}
+                        disabled={recording || (!!pass.exitTime && !pass.returnTime)}
+                      >
+                        <LogOut className="mr-2 h-4 w-4" />
+                        Record Exit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => handleRecordUsage('return')}
+                        disabled={recording || !pass.exitTime || !!pass.returnTime}
+                      >
+                        <LogIn className="mr-2 h-4 w-4" />
+                        Record Return
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
   );
 };
 
-export default GatePassQRScanner; 
\ No newline at end of file
+export default GatePassQRScanner;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { WEEKDAY_NAMES, describeSchedule } from '@/utils/gatePassScheduleUtils';
+
+export interface RecurringScheduleForm {
+  startDate: string;
+  endDate: string;
+  days: number[];
+  start: string;
+  end: string;
+}
+
+interface Props {
+  value: RecurringScheduleForm;
+  onChange: (value: RecurringScheduleForm) => void;
+  disabled?: boolean;
+}
+
+// Dates, weekdays and the daily exit window of a recurring gate pass
+export const GatePassScheduleInput: React.FC<Props> = ({ value, onChange, disabled }) => {
+  const toggleDay = (day: number) => {
+    const days = value.days.includes(day) ? value.days.filter(d => d !== day) : [...value.days, day];
+    onChange({ ...value, days });
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-start-date">From</Label>
+          <Input
+            id="schedule-start-date"
+            type="date"
+            value={value.startDate}
+            onChange={(e) => onChange({ ...value, startDate: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-end-date">Until</Label>
+          <Input
+            id="schedule-end-date"
+            type="date"
+            value={value.endDate}
+            onChange={(e) => onChange({ ...value, endDate: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Days</Label>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_NAMES.map((name, day) => (
+            <Button
+              key={name}
+              type="button"
+              size="sm"
+              variant={value.days.includes(day) ? 'default' : 'outline'}
+              onClick={() => toggleDay(day)}
+              disabled={disabled}
+              aria-pressed={value.days.includes(day)}
+            >
+              {name.slice(0, 3)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-start-time">Exits From</Label>
+          <Input
+            id="schedule-start-time"
+            type="time"
+            value={value.start}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-end-time">Exits Until</Label>
+          <Input
+            id="schedule-end-time"
+            type="time"
+            value={value.end}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {value.days.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Exits allowed {describeSchedule(value)} from {value.startDate} to {value.endDate}
+        </p>
+      )}
+    </div>
+  );
+};
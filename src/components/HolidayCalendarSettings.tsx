@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback, useRef, ChangeEvent } from 'react';
+import { CalendarDays, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { format, parseISO } from 'date-fns';
+import { getDateInTimezone } from '@/utils/timezoneUtils';
+import { Holiday, addHoliday, deleteHoliday, getHolidays, importHolidaysFromIcs } from '@/utils/holidayUtils';
+import { Site, getSites } from '@/utils/siteUtils';
+
+interface Department {
+  id: string;
+  name: string;
+}
+
+export function HolidayCalendarSettings() {
+  const year = getDateInTimezone().slice(0, 4);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [departmentId, setDepartmentId] = useState('');
+  const [sites, setSites] = useState<Site[]>([]);
+  const [siteId, setSiteId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadHolidays = useCallback(async () => {
+    try {
+      setHolidays(await getHolidays(`${year}-01-01`));
+    } catch (error) {
+      console.error('Error loading holidays:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    loadHolidays();
+    supabase
+      .from('departments')
+      .select('id, name')
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching departments:', error);
+          return;
+        }
+        setDepartments(data || []);
+      });
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, [loadHolidays]);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const result = await addHoliday({ date, name, departmentId, siteId });
+      notify(result);
+      if (result.success) {
+        setDate('');
+        setName('');
+        await loadHolidays();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setSaving(true);
+    try {
+      notify(await importHolidaysFromIcs(await file.text(), departmentId, siteId));
+      await loadHolidays();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    notify(await deleteHoliday(id));
+    await loadHolidays();
+  };
+
+  return (
+    <Card className="mt-4 border-none shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-orange-600" />
+          Holiday Calendar
+        </CardTitle>
+        <CardDescription>
+          Holidays are not counted as absences or in attendance rates
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-date">Date</Label>
+            <Input id="holiday-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-name">Name</Label>
+            <Input
+              id="holiday-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Vesak Full Moon Poya Day"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-department">Applies to</Label>
+            <select
+              id="holiday-department"
+              className="w-full border rounded-md p-2"
+              value={departmentId}
+              onChange={(e) => setDepartmentId(e.target.value)}
+            >
+              <option value="">All departments</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-site">Site</Label>
+            <select
+              id="holiday-site"
+              className="w-full border rounded-md p-2"
+              value={siteId}
+              onChange={(e) => setSiteId(e.target.value)}
+            >
+              <option value="">All sites</option>
+              {sites.map(site => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleAdd} disabled={saving || !date || !name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Holiday
+          </Button>
+          <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Import .ics
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : holidays.length === 0 ? (
+          <p className="text-sm text-gray-500">No holidays from {year} onwards</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {holidays.map(holiday => (
+                <TableRow key={holiday.id}>
+                  <TableCell>
+                    {format(parseISO(holiday.date), 'EEE, MMM d, yyyy')}
+                  </TableCell>
+                  <TableCell>
+                    {holiday.name}
+                    {holiday.source === 'ics' && <Badge variant="outline" className="ml-2">imported</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {holiday.department?.name || 'All departments'}
+                    <div className="text-xs text-muted-foreground">{holiday.site?.name || 'All sites'}</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(holiday.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { QRCodeSVG } from 'qrcode.react';
+import { Ban, Loader2, Plus, RefreshCw, Tablet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import {
+  DeviceStatus,
+  KioskDevice,
+  PairingCode,
+  createPairingCode,
+  getDeviceStatus,
+  getKioskDevices,
+  getPairingUrl,
+  revokeDevice
+} from '@/utils/deviceUtils';
+import { Site, getSites } from '@/utils/siteUtils';
+
+const STATUS_BADGES: Record<DeviceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  online: { label: 'Online', variant: 'default' },
+  stale: { label: 'Not responding', variant: 'secondary' },
+  offline: { label: 'Offline', variant: 'destructive' },
+  revoked: { label: 'Revoked', variant: 'outline' }
+};
+
+export function KioskDevices() {
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [name, setName] = useState('');
+  const [sites, setSites] = useState<Site[]>([]);
+  const [siteId, setSiteId] = useState('');
+  const [pairing, setPairing] = useState<PairingCode | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    try {
+      setDevices(await getKioskDevices());
+    } catch (error) {
+      console.error('Error loading devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, [loadDevices]);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const handleCreatePairing = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    try {
+      const result = await createPairingCode(name, siteId);
+      notify(result);
+      if (result.pairing) {
+        setPairing(result.pairing);
+        setName('');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    if (!window.confirm(`Revoke ${device.name}? It will stop recording scans immediately.`)) return;
+    setWorking(true);
+    try {
+      const result = await revokeDevice(device.id);
+      notify(result);
+      if (result.success) await loadDevices();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Tablet className="h-5 w-5" />
+            Kiosk Devices
+          </span>
+          <Button variant="ghost" size="icon" onClick={loadDevices} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Paired tablets sign in as kiosks. Every punch and gate pass exit or return they capture is tagged with the device and site.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No devices paired yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {devices.map(device => {
+              const status = STATUS_BADGES[getDeviceStatus(device)];
+              return (
+                <div key={device.id} className="flex items-center justify-between gap-2 border rounded-md p-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{device.name}</span>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {device.site?.name || 'No site'}
+                      {' · '}
+                      {device.last_seen_at
+                        ? `seen ${formatDistanceToNow(new Date(device.last_seen_at), { addSuffix: true })}`
+                        : 'never seen'}
+                      {!!device.health.queued_scans && ` · ${device.health.queued_scans} scans waiting to sync`}
+                    </p>
+                  </div>
+                  {!device.revoked_at && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={working}
+                      onClick={() => handleRevoke(device)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Ban className="mr-1 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <form onSubmit={handleCreatePairing} className="space-y-2 border-t pt-4">
+          <Label>Pair a new device</Label>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2">
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Device name, e.g. Main Gate Tablet" />
+            <select
+              className="w-full border rounded-md p-2"
+              value={siteId}
+              onChange={(e) => setSiteId(e.target.value)}
+            >
+              <option value="">Select site</option>
+              {sites.map(site => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+            <Button type="submit" disabled={working || !name.trim() || !siteId}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create Code
+            </Button>
+          </div>
+        </form>
+
+        {pairing && (
+          <div className="flex flex-col items-center gap-2 border rounded-md p-4">
+            <QRCodeSVG value={getPairingUrl(pairing.code)} size={180} />
+            <span className="font-mono text-xl tracking-widest">{pairing.code}</span>
+            <p className="text-xs text-muted-foreground text-center">
+              Scan with the tablet or open /pair on it and type the code. Pairs {pairing.name} at {pairing.site?.name};
+              expires {formatDistanceToNow(new Date(pairing.expires_at), { addSuffix: true })}.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => { setPairing(null); loadDevices(); }}>
+              Done
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AlertTriangle, CloudOff, RefreshCw, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useOfflineScanQueue } from '@/hooks/useOfflineScanQueue';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+interface OfflineQueueStatusProps {
+  className?: string;
+}
+
+const OfflineQueueStatus: React.FC<OfflineQueueStatusProps> = ({ className }) => {
+  const { isOnline } = useOnlineStatus();
+  const { pendingCount, conflicts, isReplaying, replay, dismissConflict, retryConflict } = useOfflineScanQueue();
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={`border-2 border-amber-200 bg-amber-50 ${className || ''}`}>
+      <CardContent className="p-4 space-y-3">
+        {/* Queue summary */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <CloudOff className="h-4 w-4 text-amber-600" />
+            <span className="text-sm font-medium text-amber-800">
+              {isOnline ? 'Online' : 'Offline'}
+            </span>
+            <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+              {pendingCount} scan{pendingCount === 1 ? '' : 's'} queued
+            </Badge>
+          </div>
+          {isOnline && pendingCount > 0 && (
+            <Button size="sm" variant="outline" onClick={() => replay()} disabled={isReplaying}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isReplaying ? 'animate-spin' : ''}`} />
+              {isReplaying ? 'Syncing...' : 'Sync now'}
+            </Button>
+          )}
+        </div>
+
+        {/* Scans the server rejected during replay */}
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              <span>{conflicts.length} scan{conflicts.length === 1 ? '' : 's'} could not be recorded</span>
+            </div>
+            {conflicts.map(scan => (
+              <div key={scan.id} className="flex items-center justify-between rounded border border-red-200 bg-white p-2 text-xs">
+                <div>
+                  <p className="font-medium">{new Date(scan.scannedAt).toLocaleString()}</p>
+                  <p className="text-red-600">{scan.conflictReason}</p>
+                </div>
+                <div className="flex space-x-1">
+                  <Button size="sm" variant="ghost" onClick={() => retryConflict(scan.id!)} disabled={!isOnline || isReplaying}>
+                    <RefreshCw className="h-3 w-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => dismissConflict(scan.id!)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OfflineQueueStatus;
@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Clock, Loader2, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { format, parseISO } from 'date-fns';
+import {
+  OvertimePolicy,
+  PendingOvertime,
+  approveOvertime,
+  assignOvertimePolicy,
+  formatBucketMinutes,
+  getOvertimePolicies,
+  getPendingOvertime,
+  saveOvertimePolicy
+} from '@/utils/overtimeUtils';
+
+interface RosterRow {
+  id: string;
+  name: string | null;
+  overtime_policy_id: string | null;
+  employee?: { first_name: string; last_name: string } | null;
+}
+
+type PolicyForm = Omit<OvertimePolicy, 'id'> & { id?: string };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_POLICY: PolicyForm = {
+  name: '',
+  daily_threshold_minutes: 480,
+  weekly_threshold_minutes: 2400,
+  overtime_multiplier: 1.5,
+  weekend_multiplier: 1.5,
+  holiday_multiplier: 2,
+  weekend_days: [0, 6],
+  requires_approval: false,
+  minimum_block_minutes: 15,
+  is_active: true
+};
+
+export function OvertimePolicySettings() {
+  const [policies, setPolicies] = useState<OvertimePolicy[]>([]);
+  const [rosters, setRosters] = useState<RosterRow[]>([]);
+  const [pending, setPending] = useState<PendingOvertime[]>([]);
+  const [form, setForm] = useState<PolicyForm>(EMPTY_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [policyList, pendingList, { data: rosterList, error }] = await Promise.all([
+        getOvertimePolicies(),
+        getPendingOvertime(),
+        supabase
+          .from('rosters')
+          .select('id, name, overtime_policy_id, employee:employee_id (first_name, last_name)')
+          .eq('status', 'active')
+          .order('name')
+      ]);
+      if (error) throw error;
+
+      setPolicies(policyList);
+      setPending(pendingList);
+      setRosters((rosterList || []) as unknown as RosterRow[]);
+    } catch (error) {
+      console.error('Error loading overtime settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const updateForm = <K extends keyof PolicyForm>(key: K, value: PolicyForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const toggleWeekendDay = (day: number) =>
+    updateForm(
+      'weekend_days',
+      form.weekend_days.includes(day)
+        ? form.weekend_days.filter(value => value !== day)
+        : [...form.weekend_days, day].sort((a, b) => a - b)
+    );
+
+  const selectPolicy = (id: string) => {
+    const policy = policies.find(item => item.id === id);
+    setForm(policy ? { ...policy } : EMPTY_POLICY);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveOvertimePolicy(form);
+      notify(result);
+      if (result.success) await loadData();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssign = async (rosterId: string, policyId: string) => {
+    notify(await assignOvertimePolicy(rosterId, policyId || null));
+    await loadData();
+  };
+
+  const handleApprove = async (attendanceId: string) => {
+    notify(await approveOvertime(attendanceId));
+    await loadData();
+  };
+
+  return (
+    <Card className="mt-4 border-none shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-purple-600" />
+          Overtime Policies
+        </CardTitle>
+        <CardDescription>
+          Thresholds and multipliers used to split each day into regular, OT1 and OT2 time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-policy">Policy</Label>
+                  <select
+                    id="overtime-policy"
+                    className="w-full border rounded-md p-2"
+                    value={form.id || ''}
+                    onChange={(e) => selectPolicy(e.target.value)}
+                  >
+                    <option value="">New policy</option>
+                    {policies.map(policy => (
+                      <option key={policy.id} value={policy.id}>{policy.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-name">Name</Label>
+                  <Input id="overtime-name" value={form.name} onChange={(e) => updateForm('name', e.target.value)} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-daily">Daily threshold (min)</Label>
+                  <Input
+                    id="overtime-daily"
+                    type="number"
+                    min={0}
+                    value={form.daily_threshold_minutes}
+                    onChange={(e) => updateForm('daily_threshold_minutes', Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-weekly">Weekly threshold (min)</Label>
+                  <Input
+                    id="overtime-weekly"
+                    type="number"
+                    min={0}
+                    placeholder="None"
+                    value={form.weekly_threshold_minutes ?? ''}
+                    onChange={(e) => updateForm('weekly_threshold_minutes', e.target.value === '' ? null : Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-block">Minimum block (min)</Label>
+                  <Input
+                    id="overtime-block"
+                    type="number"
+                    min={1}
+                    value={form.minimum_block_minutes}
+                    onChange={(e) => updateForm('minimum_block_minutes', Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-ot1">OT1 multiplier</Label>
+                  <Input
+                    id="overtime-ot1"
+                    type="number"
+                    min={1}
+                    step={0.25}
+                    value={form.overtime_multiplier}
+                    onChange={(e) => updateForm('overtime_multiplier', Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-weekend">Weekend multiplier</Label>
+                  <Input
+                    id="overtime-weekend"
+                    type="number"
+                    min={1}
+                    step={0.25}
+                    value={form.weekend_multiplier}
+                    onChange={(e) => updateForm('weekend_multiplier', Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="overtime-holiday">Holiday multiplier</Label>
+                  <Input
+                    id="overtime-holiday"
+                    type="number"
+                    min={1}
+                    step={0.25}
+                    value={form.holiday_multiplier}
+                    onChange={(e) => updateForm('holiday_multiplier', Number(e.target.value))}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Weekend days</Label>
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAYS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={form.weekend_days.includes(day) ? 'default' : 'outline'}
+                      onClick={() => toggleWeekendDay(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="overtime-approval"
+                    checked={form.requires_approval}
+                    onCheckedChange={(checked) => updateForm('requires_approval', checked)}
+                  />
+                  <Label htmlFor="overtime-approval">Overtime requires approval</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="overtime-active"
+                    checked={form.is_active}
+                    onCheckedChange={(checked) => updateForm('is_active', checked)}
+                  />
+                  <Label htmlFor="overtime-active">Active</Label>
+                </div>
+                <Button onClick={handleSave} disabled={saving || !form.name.trim()} className="sm:ml-auto">
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save Policy
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Roster policies</h3>
+              {rosters.length === 0 ? (
+                <p className="text-sm text-gray-500">No active rosters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Roster</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Overtime policy</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rosters.map(roster => (
+                      <TableRow key={roster.id}>
+                        <TableCell>{roster.name || 'Unnamed roster'}</TableCell>
+                        <TableCell>
+                          {roster.employee ? `${roster.employee.first_name} ${roster.employee.last_name}` : '-'}
+                        </TableCell>
+                        <TableCell>
+                          <select
+                            className="w-full border rounded-md p-2"
+                            value={roster.overtime_policy_id || ''}
+                            onChange={(e) => handleAssign(roster.id, e.target.value)}
+                          >
+                            <option value="">No overtime policy</option>
+                            {policies.map(policy => (
+                              <option key={policy.id} value={policy.id}>{policy.name}</option>
+                            ))}
+                          </select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium">Overtime awaiting approval</h3>
+              {pending.length === 0 ? (
+                <p className="text-sm text-gray-500">No overtime awaiting approval</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>OT1</TableHead>
+                      <TableHead>OT2</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pending.map(item => (
+                      <TableRow key={item.id}>
+                        <TableCell>{format(parseISO(item.date), 'EEE, MMM d, yyyy')}</TableCell>
+                        <TableCell>
+                          {item.employee ? `${item.employee.first_name} ${item.employee.last_name}` : '-'}
+                        </TableCell>
+                        <TableCell>{formatBucketMinutes(item.ot1_minutes)}</TableCell>
+                        <TableCell>{formatBucketMinutes(item.ot2_minutes)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => handleApprove(item.id)}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -34,10 +34,12 @@ import {
   FileText,
   Loader2,
   RefreshCw,
-  FileSpreadsheet
+  FileSpreadsheet,
+  Mail
 } from 'lucide-react';
-import { format, startOfDay, endOfDay, parseISO, differenceInMinutes } from 'date-fns';
+import { format, startOfDay, endOfDay, parseISO } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
+import { buildAttendanceReportNotification, emailAdmins } from '@/utils/adminNotificationUtils';
 import { useToast } from '@/components/ui/use-toast';
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
@@ -46,6 +48,9 @@ import { cn } from '@/lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { calculateLateDuration, formatLateDuration, getRosterBasedLateDuration } from '@/utils/lateDurationUtils';
 import { getEffectiveStatus } from '@/utils/attendanceUtils';
+import { calculateSessionTotals } from '@/utils/attendanceStateMachine';
+import { AttendanceSession } from '@/types';
+import { ALL_SITES, Site, getSiteName, getSites } from '@/utils/siteUtils';
 
 interface PresentEmployee {
   id: string;
@@ -94,6 +99,7 @@ interface AttendanceRecord {
   first_check_out_time: string | null;
   second_check_in_time: string | null;
   second_check_out_time: string | null;
+  sessions?: AttendanceSession[] | null;
   break_duration_minutes: number | null;
   working_duration_minutes: number | null;
   status: string;
@@ -110,6 +116,7 @@ interface AttendanceRecord {
       id: string;
       name: string;
     };
+    site: string;
   };
   roster: RosterInfo | null;
 }
@@ -128,6 +135,22 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
   const [selectedDepartment, setSelectedDepartment] = useState<string>('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [reportData, setReportData] = useState<AttendanceRecord[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [selectedSite, setSelectedSite] = useState<string>(ALL_SITES);
+
+  const siteLabel = selectedSite === ALL_SITES ? 'All Sites' : getSiteName(sites, selectedSite);
+  // Across several sites each department is listed once per site
+  const groupBySite = selectedSite === ALL_SITES && sites.length > 1;
+  const getGroupName = (record: AttendanceRecord) => {
+    const department = record.employee?.department?.name || 'Unassigned';
+    return groupBySite ? `${record.employee?.site} - ${department}` : department;
+  };
+
+  useEffect(() => {
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, []);
 
   // Function to validate department selection
   const validateDepartment = (departmentId: string): Department | { id: 'all', name: 'All Departments' } | null => {
@@ -265,6 +288,7 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
           first_check_out_time,
           second_check_in_time,
           second_check_out_time,
+          sessions,
           status,
           working_duration_minutes,
           minutes_late,
@@ -308,44 +332,10 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
           lateMinutes = record.minutes_late || 0;
         }
 
-        // Calculate break hours - use stored value or calculate
-        let breakMinutes = record.break_duration_minutes || 0;
-        if (!breakMinutes && record.first_check_out_time && record.second_check_in_time) {
-          const firstCheckOut = parseISO(record.first_check_out_time);
-          const secondCheckIn = parseISO(record.second_check_in_time);
-          breakMinutes = differenceInMinutes(secondCheckIn, firstCheckOut);
-        }
-
-        // Calculate working duration - use stored value or calculate
-        let workingMinutes = record.working_duration_minutes || 0;
-        if (!workingMinutes && firstCheckIn) {
-          // Calculate manually if not stored
-          const checkInTime = parseISO(firstCheckIn);
-          let totalWorked = 0;
-
-          // First session
-          if (record.first_check_out_time) {
-            const firstCheckOut = parseISO(record.first_check_out_time);
-            totalWorked += differenceInMinutes(firstCheckOut, checkInTime);
-          } else {
-            // Still working
-            totalWorked += differenceInMinutes(new Date(), checkInTime);
-          }
-
-          // Second session
-          if (record.second_check_in_time) {
-            const secondCheckIn = parseISO(record.second_check_in_time);
-            if (record.second_check_out_time) {
-              const secondCheckOut = parseISO(record.second_check_out_time);
-              totalWorked += differenceInMinutes(secondCheckOut, secondCheckIn);
-            } else {
-              // Still in second session
-              totalWorked += differenceInMinutes(new Date(), secondCheckIn);
-            }
-          }
-
-          workingMinutes = totalWorked;
-        }
+        // Use stored values when present, otherwise total every session of the day
+        const sessionTotals = calculateSessionTotals(record);
+        const breakMinutes = record.break_duration_minutes || sessionTotals.breakMinutes;
+        const workingMinutes = record.working_duration_minutes || sessionTotals.workedMinutes;
 
         return {
           id: record.id,
@@ -457,7 +447,7 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
       // First get all active employees with their department info
       const { data: employeesData, error: employeesError } = await supabase
         .from('employees')
-        .select('id, name, first_name, last_name, department_id, position')
+        .select('id, name, first_name, last_name, department_id, home_site_id, position')
         .eq('status', 'active');
 
       if (employeesError) {
@@ -487,13 +477,15 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
         department: {
           id: emp.department_id,
           name: departmentMap[emp.department_id] || 'Unassigned'
-        }
+        },
+        site: getSiteName(sites, emp.home_site_id)
       }));
 
-      // Filter employees based on department selection
-      const validEmployees = selectedDepartment === 'all'
-        ? employeesWithDept
-        : employeesWithDept?.filter(emp => emp.department_id === selectedDepartment) || [];
+      // Filter employees based on department and home site selection
+      const validEmployees = employeesWithDept.filter(emp =>
+        (selectedDepartment === 'all' || emp.department_id === selectedDepartment) &&
+        (selectedSite === ALL_SITES || emp.home_site_id === selectedSite)
+      );
 
       if (!validEmployees || validEmployees.length === 0) {
         console.log('No active employees found', selectedDepartment === 'all' ? 'across all departments' : `in department: ${selectedDepartment}`);
@@ -518,6 +510,7 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
           first_check_out_time,
           second_check_in_time,
           second_check_out_time,
+          sessions,
           break_duration_minutes,
           working_duration_minutes,
           status,
@@ -569,7 +562,8 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
             last_name: employee?.last_name || '',
             department_id: employee?.department_id || '',
             position: employee?.position || 'Unassigned',
-            department: employee?.department || { id: '', name: 'Unassigned' }
+            department: employee?.department || { id: '', name: 'Unassigned' },
+            site: employee?.site || 'No site'
           },
           roster: rosterData ? {
             id: rosterData.id,
@@ -603,7 +597,7 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
 
         // Add department grouping to the records
         enrichedAttendanceData.forEach(record => {
-          record.departmentGroup = record.employee?.department?.name || 'Unassigned';
+          record.departmentGroup = getGroupName(record);
         });
       }
 
@@ -627,7 +621,8 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
     }
   };
 
-  const generatePDF = async () => {
+  // The same PDF is downloaded or emailed to the admins
+  const generatePDF = async (delivery: 'download' | 'email' = 'download') => {
     setLoading(true);
     try {
       const attendanceData = await fetchAttendanceData();
@@ -661,7 +656,8 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
       doc.text('ATTENDANCE REPORT', pageWidth / 2, 32, { align: 'center' });
 
       doc.setFontSize(16);
-      doc.text(selectedDepartment === 'all' ? 'ALL DEPARTMENTS' : departments.find(d => d.id === selectedDepartment)?.name?.toUpperCase() || 'UNKNOWN DEPARTMENT', pageWidth / 2, 44, { align: 'center' });
+      const departmentHeading = selectedDepartment === 'all' ? 'ALL DEPARTMENTS' : departments.find(d => d.id === selectedDepartment)?.name?.toUpperCase() || 'UNKNOWN DEPARTMENT';
+      doc.text(`${departmentHeading} · ${siteLabel.toUpperCase()}`, pageWidth / 2, 44, { align: 'center' });
 
       // Add date range and generation info
       doc.setFontSize(10);
@@ -675,7 +671,7 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
       if (selectedDepartment === 'all') {
         // Group data by department
         const departmentGroups = attendanceData.reduce((groups, record) => {
-          const deptName = record.employee?.department?.name || 'Unassigned';
+          const deptName = getGroupName(record);
           if (!groups[deptName]) {
             groups[deptName] = [];
           }
@@ -829,13 +825,39 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
       );
 
       // Save the PDF
-      const filename = `attendance_report_${selectedDepartment === 'all' ? 'all_departments' : departments.find(d => d.id === selectedDepartment)?.name?.toLowerCase()}_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}.pdf`;
-      doc.save(filename);
+      const siteSlug = selectedSite === ALL_SITES ? '' : `${siteLabel.toLowerCase().replace(/\s+/g, '_')}_`;
+      const filename = `attendance_report_${siteSlug}${selectedDepartment === 'all' ? 'all_departments' : departments.find(d => d.id === selectedDepartment)?.name?.toLowerCase()}_${format(startDate, 'yyyyMMdd')}-${format(endDate, 'yyyyMMdd')}.pdf`;
+
+      if (delivery === 'email') {
+        const departmentLabel = selectedDepartment === 'all'
+          ? 'All Departments'
+          : departments.find(d => d.id === selectedDepartment)?.name || 'Unknown Department';
+        const result = await emailAdmins(
+          buildAttendanceReportNotification(
+            `${format(startDate, 'dd/MM/yyyy')} - ${format(endDate, 'dd/MM/yyyy')}`,
+            `${departmentLabel} · ${siteLabel}`,
+            attendanceData.length
+          ),
+          [{
+            filename,
+            content: doc.output('datauristring').split(',')[1],
+            contentType: 'application/pdf'
+          }]
+        );
+        if (!result.success) throw new Error(result.message);
 
-      toast({
-        title: 'Success',
-        description: 'PDF report generated successfully',
-      });
+        toast({
+          title: 'Success',
+          description: `PDF report emailed. ${result.message}`,
+        });
+      } else {
+        doc.save(filename);
+
+        toast({
+          title: 'Success',
+          description: 'PDF report generated successfully',
+        });
+      }
 
       setIsDialogOpen(false);
       onSuccess?.();
@@ -1134,6 +1156,29 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Site</label>
+                <Select
+                  value={selectedSite}
+                  onValueChange={(value) => {
+                    setSelectedSite(value);
+                    setReportData([]);
+                  }}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select site" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_SITES}>All Sites</SelectItem>
+                    {sites.map((site) => (
+                      <SelectItem key={site.id} value={site.id}>
+                        {site.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -1155,7 +1200,17 @@ export function PresentEmployeeReport({ className, onSuccess }: PresentEmployeeR
 
               <div className="flex flex-col gap-2 sm:flex-row sm:gap-2">
                 <Button
-                  onClick={generatePDF}
+                  onClick={() => generatePDF('email')}
+                  disabled={loading || !startDate || !endDate}
+                  variant="outline"
+                  className="flex items-center gap-2 w-full sm:w-auto"
+                  size="sm"
+                >
+                  <Mail className="h-4 w-4" />
+                  Email PDF
+                </Button>
+                <Button
+                  onClick={() => generatePDF()}
                   disabled={loading || !startDate || !endDate}
                   className="flex items-center gap-2 w-full sm:w-auto"
                   size="sm"
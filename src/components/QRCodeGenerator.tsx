@@ -1,11 +1,11 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/use-toast';
 import { Employee } from '@/types';
-import { Download } from 'lucide-react';
-import { generateEmployeeQR } from '@/utils/qrCodeUtils';
+import { Download, Loader2, ShieldOff } from 'lucide-react';
+import { EmployeeBadge, getOrIssueEmployeeBadge, issueEmployeeBadge, revokeEmployeeBadge } from '@/utils/badgeUtils';
 
 interface QRCodeGeneratorProps {
   employee: Employee;
@@ -14,6 +14,59 @@ interface QRCodeGeneratorProps {
 const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ employee }) => {
   const qrRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
+  const [badge, setBadge] = useState<EmployeeBadge | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getOrIssueEmployeeBadge(employee.id)
+      .then(result => {
+        if (!cancelled) setBadge(result);
+      })
+      .catch(error => {
+        console.error('Error loading employee badge:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Badge Unavailable',
+          description: error instanceof Error ? error.message : 'Failed to load employee badge',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [employee.id, toast]);
+
+  // Kill a lost card and print a replacement with a new serial
+  const handleRevokeAndReissue = async () => {
+    if (!badge) return;
+
+    const reason = window.prompt(`Why is badge ${badge.serial} being revoked?`, 'Lost card');
+    if (!reason) return;
+
+    setIsRevoking(true);
+    try {
+      const result = await revokeEmployeeBadge(badge.serial, reason);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      setBadge(await issueEmployeeBadge(employee.id));
+      toast({
+        title: 'Badge Revoked',
+        description: `Badge ${badge.serial} can no longer be used. A replacement has been issued.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Revocation Failed',
+        description: error instanceof Error ? error.message : 'Failed to revoke badge',
+      });
+    } finally {
+      setIsRevoking(false);
+    }
+  };
 
   const handleDownload = () => {
     if (!qrRef.current) return;
@@ -57,14 +110,6 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ employee }) => {
     img.src = 'data:image/svg+xml;base64,' + encodedSvgData;
   };
 
-  // Generate QR code data using the standardized format with system identifier
-  const qrCodeData = generateEmployeeQR({
-    id: employee.id,
-    name: employee.name,
-    email: employee.email,
-    department: employee.department
-  });
-
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
@@ -72,26 +117,42 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({ employee }) => {
       </CardHeader>
       <CardContent className="flex flex-col items-center">
         <div ref={qrRef} className="bg-white p-4 rounded-md mb-4">
-          <QRCodeSVG
-            value={qrCodeData}
-            size={200}
-            bgColor={"#ffffff"}
-            fgColor={"#000000"}
-            level={"H"}
-            includeMargin={true}
-          />
+          {badge ? (
+            <QRCodeSVG
+              value={badge.qr_data}
+              size={200}
+              bgColor={"#ffffff"}
+              fgColor={"#000000"}
+              level={"H"}
+              includeMargin={true}
+            />
+          ) : (
+            <div className="h-[200px] w-[200px] flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
         </div>
         
         <div className="text-center mb-4">
           <h3 className="font-bold text-lg">{employee.name}</h3>
           <p className="text-muted-foreground">{employee.department}</p>
           <p className="text-sm text-muted-foreground">{employee.position}</p>
+          {badge && <p className="text-xs text-muted-foreground">Badge serial: {badge.serial}</p>}
         </div>
         
-        <Button onClick={handleDownload} className="w-full flex items-center justify-center gap-2">
+        <Button onClick={handleDownload} disabled={!badge} className="w-full flex items-center justify-center gap-2">
           <Download className="h-4 w-4" />
           Download QR Code
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleRevokeAndReissue}
+          disabled={!badge || isRevoking}
+          className="w-full mt-2 flex items-center justify-center gap-2 text-destructive"
+        >
+          <ShieldOff className="h-4 w-4" />
+          {isRevoking ? 'Revoking...' : 'Revoke & Reissue Badge'}
+        </Button>
       </CardContent>
     </Card>
   );
@@ -5,8 +5,11 @@ import { Button } from './ui/button';
 import { useToast } from './ui/use-toast';
 import LoadingSpinner from './LoadingSpinner';
 import { AttendanceStateIndicator } from './AttendanceStateIndicator';
-import { getCurrentAttendanceState, getNextAttendanceAction, recordAttendance } from '@/utils/attendanceUtils';
-import { parseQRCodeData } from '@/utils/qrCodeUtils';
+import { getCurrentAttendanceState, singleScanAttendance } from '@/utils/attendanceUtils';
+import { parseQRCodeData, verifyEmployeeQR } from '@/utils/qrCodeUtils';
+import { isConnectivityError, offlineScanQueue } from '@/utils/offlineQueueUtils';
+import { AttendanceState } from '@/types';
+import OfflineQueueStatus from './OfflineQueueStatus';
 import { AlertTriangle, CheckCircle, Clock, Volume2, VolumeX } from 'lucide-react';
 import { Badge } from './ui/badge';
 import { attendanceSpeechService } from '@/utils/speechUtils';
@@ -21,7 +24,7 @@ interface QRScannerProps {
 const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onScanError }) => {
   const [isScanning, setIsScanning] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [attendanceState, setAttendanceState] = useState<'not_checked_in' | 'first_checked_in' | 'first_checked_out' | 'second_checked_in' | 'second_checked_out'>('not_checked_in');
+  const [attendanceState, setAttendanceState] = useState<AttendanceState>('not_checked_in');
   const [voiceEnabled, setVoiceEnabled] = useState(true);
   const [lastScanTime, setLastScanTime] = useState(0);
   const { toast } = useToast();
@@ -62,6 +65,15 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onScanError }) =>
     }
   }), [videoConstraints]);
 
+  const queueOfflineScan = useCallback(async (qrData: string, employeeId: string) => {
+    await offlineScanQueue.enqueue(qrData, employeeId);
+    toast({
+      title: "Scan saved offline",
+      description: "The scan will be recorded with its original time once the connection is back",
+      duration: 3000
+    });
+  }, [toast]);
+
   const handleScan = useCallback(async (detectedCodes: any[]) => {
     if (!detectedCodes.length || isLoading || processingRef.current) return;
 
@@ -86,8 +98,34 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onScanError }) =>
         throw new Error('Invalid QR code format');
       }
 
-      // Record attendance with optimized error handling
-      const attendanceResult = await recordAttendance(qrData.id);
+      // Without a connection the scan is queued with its device timestamp and verified on replay
+      if (!navigator.onLine) {
+        await queueOfflineScan(result, qrData.id);
+        return;
+      }
+
+      // Reject forged, revoked or expired legacy badges before touching attendance
+      const verification = await verifyEmployeeQR(result);
+      if (verification.reason === 'unavailable') {
+        await queueOfflineScan(result, qrData.id);
+        return;
+      }
+      if (!verification.valid) {
+        throw new Error(verification.message);
+      }
+
+      // The state machine decides the punch and enforces cooldown and ordering
+      let attendanceResult;
+      try {
+        attendanceResult = await singleScanAttendance(qrData.id, { badge: result });
+      } catch (error) {
+        // Lost the connection mid-scan: keep it for replay instead of rejecting it
+        if (isConnectivityError(error)) {
+          await queueOfflineScan(result, qrData.id);
+          return;
+        }
+        throw error;
+      }
 
       // Update attendance state asynchronously
       const newState = await getCurrentAttendanceState(qrData.id);
@@ -168,7 +206,7 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onScanError }) =>
         lastScannedCodeRef.current = null;
       }, 1500);
     }
-  }, [isLoading, lastScanTime, voiceEnabled, onScanSuccess, onScanError, toast]);
+  }, [isLoading, lastScanTime, voiceEnabled, onScanSuccess, onScanError, toast, queueOfflineScan]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -211,6 +249,8 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onScanError }) =>
           </div>
         )}
 
+        <OfflineQueueStatus className="mb-4" />
+
         {isLoading && (
           <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-10">
             <LoadingSpinner />
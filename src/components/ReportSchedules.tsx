@@ -0,0 +1,473 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Loader2, Play, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
+import { getOrganizationTimezone } from '@/utils/timezoneUtils';
+import {
+  DeliveryStatus,
+  REPORT_CHANNEL_LABELS,
+  REPORT_TYPE_LABELS,
+  ReportChannel,
+  ReportDelivery,
+  ReportSchedule,
+  ReportType,
+  deleteReportSchedule,
+  getReportDeliveries,
+  getReportSchedules,
+  runDueReports,
+  saveReportSchedule
+} from '@/utils/reportScheduleUtils';
+import { MessageReceipt, ReceiptStatus, getMessageReceipts } from '@/utils/messagingUtils';
+import { Site, getSiteName, getSites } from '@/utils/siteUtils';
+
+type ScheduleForm = Omit<ReportSchedule, 'id'> & { id?: string };
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_VARIANTS: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sending: 'secondary',
+  sent: 'default',
+  partial: 'outline',
+  failed: 'destructive'
+};
+
+const emptySchedule = (): ScheduleForm => ({
+  name: '',
+  report_type: 'daily_summary',
+  channel: 'whatsapp',
+  recipients: [],
+  send_time: '18:00',
+  timezone: getOrganizationTimezone(),
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  is_active: true,
+  site_id: null
+});
+
+const notify = (result: { success: boolean; message: string }) => {
+  toast({
+    title: result.success ? 'Success' : 'Error',
+    description: result.message,
+    variant: result.success ? 'default' : 'destructive',
+  });
+};
+
+export function ReportScheduleSettings() {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [form, setForm] = useState<ScheduleForm>(emptySchedule);
+  const [recipientText, setRecipientText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setSchedules(await getReportSchedules());
+    } catch (error) {
+      console.error('Error loading report schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, [loadSchedules]);
+
+  const editSchedule = (schedule?: ReportSchedule) => {
+    const next = schedule ? { ...schedule } : emptySchedule();
+    setForm(next);
+    setRecipientText(next.recipients.join('\n'));
+  };
+
+  const toggleDay = (day: number) =>
+    setForm(current => ({
+      ...current,
+      days_of_week: current.days_of_week.includes(day)
+        ? current.days_of_week.filter(value => value !== day)
+        : [...current.days_of_week, day].sort((a, b) => a - b)
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveReportSchedule({ ...form, recipients: recipientText.split(/[\n,]/) });
+      notify(result);
+      if (result.success) {
+        editSchedule();
+        await loadSchedules();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    notify(await deleteReportSchedule(id));
+    if (form.id === id) editSchedule();
+    await loadSchedules();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Report Schedules
+        </CardTitle>
+        <CardDescription>
+          Reports are sent by the server at the scheduled time, at most once per day
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No report schedules yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Report</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map(schedule => (
+                <TableRow key={schedule.id} className="cursor-pointer" onClick={() => editSchedule(schedule)}>
+                  <TableCell>
+                    {schedule.name}
+                    {!schedule.is_active && <Badge variant="outline" className="ml-2">paused</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {REPORT_TYPE_LABELS[schedule.report_type]}
+                    <div className="text-xs text-muted-foreground">
+                      {schedule.site_id ? getSiteName(sites, schedule.site_id) : 'All sites'}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {schedule.send_time} ({schedule.timezone})
+                    <div className="text-xs text-muted-foreground">
+                      {schedule.days_of_week.length === 7
+                        ? 'Every day'
+                        : schedule.days_of_week.map(day => WEEKDAYS[day]).join(', ')}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {REPORT_CHANNEL_LABELS[schedule.channel]}
+                    <div className="text-xs text-muted-foreground">{schedule.recipients.length} recipient(s)</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(schedule.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">{form.id ? `Edit ${form.name}` : 'New schedule'}</h3>
+            {form.id && (
+              <Button variant="ghost" size="sm" onClick={() => editSchedule()}>
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                onChange={(e) => setForm(current => ({ ...current, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-report">Report</Label>
+              <select
+                id="schedule-report"
+                className="w-full border rounded-md p-2"
+                value={form.report_type}
+                onChange={(e) => setForm(current => ({ ...current, report_type: e.target.value as ReportType }))}
+              >
+                {Object.entries(REPORT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-site">Site</Label>
+              <select
+                id="schedule-site"
+                className="w-full border rounded-md p-2"
+                value={form.site_id || ''}
+                onChange={(e) => setForm(current => ({ ...current, site_id: e.target.value || null }))}
+              >
+                <option value="">All sites, with a line per site</option>
+                {sites.map(site => (
+                  <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-time">Send time</Label>
+              <Input
+                id="schedule-time"
+                type="time"
+                value={form.send_time}
+                onChange={(e) => setForm(current => ({ ...current, send_time: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-timezone">Timezone</Label>
+              <Input
+                id="schedule-timezone"
+                value={form.timezone}
+                onChange={(e) => setForm(current => ({ ...current, timezone: e.target.value }))}
+                placeholder="e.g. Asia/Colombo"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-channel">Channel</Label>
+              <select
+                id="schedule-channel"
+                className="w-full border rounded-md p-2"
+                value={form.channel}
+                onChange={(e) => setForm(current => ({ ...current, channel: e.target.value as ReportChannel }))}
+              >
+                {Object.entries(REPORT_CHANNEL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-recipients">Recipients</Label>
+              <Textarea
+                id="schedule-recipients"
+                value={recipientText}
+                onChange={(e) => setRecipientText(e.target.value)}
+                placeholder="One phone number, email or chat ID per line"
+                rows={3}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={form.days_of_week.includes(day) ? 'default' : 'outline'}
+                  onClick={() => toggleDay(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(current => ({ ...current, is_active: checked }))}
+              />
+              <Label htmlFor="schedule-active">Active</Label>
+            </div>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()} className="ml-auto">
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Schedule
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ReportDeliveryLog() {
+  const [deliveries, setDeliveries] = useState<ReportDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  const loadDeliveries = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDeliveries(await getReportDeliveries());
+    } catch (error) {
+      console.error('Error loading delivery log:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      notify(await runDueReports());
+      await loadDeliveries();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>Every scheduled report run and its result</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadDeliveries} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+          <Button size="sm" onClick={handleRunNow} disabled={running}>
+            {running ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+            Send Due Reports
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reports have been sent yet</p>
+        ) : (
+          <div className="space-y-3">
+            {deliveries.map(delivery => (
+              <div key={delivery.id} className="p-3 bg-muted rounded-lg space-y-1">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium">{delivery.schedule?.name || 'Deleted schedule'}</p>
+                  <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  For {delivery.scheduled_for} via {REPORT_CHANNEL_LABELS[delivery.channel]}
+                  {' · '}{format(new Date(delivery.started_at), 'MMM d, yyyy HH:mm')}
+                  {' · '}{delivery.results.filter(result => result.ok).length}/{delivery.recipients.length} delivered
+                </p>
+                {delivery.error && <p className="text-sm text-red-600">{delivery.error}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const RECEIPT_VARIANTS: Record<ReceiptStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sent: 'secondary',
+  delivered: 'default',
+  read: 'default',
+  failed: 'destructive'
+};
+
+export function MessageReceiptLog() {
+  const [receipts, setReceipts] = useState<MessageReceipt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadReceipts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReceipts(await getMessageReceipts());
+    } catch (error) {
+      console.error('Error loading message receipts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReceipts();
+  }, [loadReceipts]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Message Receipts</CardTitle>
+          <CardDescription>Every message send attempt and what the provider reported back</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadReceipts} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : receipts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No messages have been sent yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sent</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Template</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receipts.map(receipt => (
+                <TableRow key={receipt.id}>
+                  <TableCell>{format(new Date(receipt.created_at), 'MMM d, HH:mm')}</TableCell>
+                  <TableCell>{receipt.recipient}</TableCell>
+                  <TableCell>{REPORT_CHANNEL_LABELS[receipt.channel as ReportChannel] || receipt.channel}</TableCell>
+                  <TableCell>
+                    {receipt.template || '-'}
+                    {receipt.attempt > 1 && (
+                      <div className="text-xs text-muted-foreground">attempt {receipt.attempt}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={RECEIPT_VARIANTS[receipt.status]}>{receipt.status}</Badge>
+                    {receipt.error && <div className="text-xs text-red-600">{receipt.error}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole, ROLE_LABELS } from '@/utils/authUtils';
+
+interface RequireRoleProps {
+  roles: AppRole[];
+  children: React.ReactNode;
+}
+
+// Route guard: sends signed-out users to the login page and tells signed-in
+// users without one of `roles` that they have no access
+export function RequireRole({ roles, children }: RequireRoleProps) {
+  const { session, role, loading, signOut } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!role || !roles.includes(role)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              No access
+            </CardTitle>
+            <CardDescription>
+              {role
+                ? `Your role (${ROLE_LABELS[role]}) cannot open this page.`
+                : `${session.user.email} has not been given a role yet. Ask a super admin to add you.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" className="w-full" onClick={signOut}>
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
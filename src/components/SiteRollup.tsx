@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Building2, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { getTodayAttendanceSummary } from '@/utils/attendanceUtils';
+import { Site, SiteTotals, combineSiteTotals, getSites } from '@/utils/siteUtils';
+
+type SiteRow = SiteTotals & { site: Site; rate: string };
+
+// Head office view: today's attendance at every site, each on its own local date
+export function SiteRollup() {
+  const [rows, setRows] = useState<SiteRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadRollup = useCallback(async () => {
+    setLoading(true);
+    try {
+      const sites = await getSites();
+      const summaries = await Promise.all(sites.map(site => getTodayAttendanceSummary(site.id)));
+      setRows(sites.map((site, index) => ({ site, ...summaries[index], rate: summaries[index].totalPresentRate })));
+    } catch (error) {
+      console.error('Error loading site roll-up:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRollup();
+  }, [loadRollup]);
+
+  const total = combineSiteTotals(rows);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            All Sites
+          </CardTitle>
+          <CardDescription>Today's attendance by home site</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadRollup} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sites yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Site</TableHead>
+                <TableHead className="text-right">Staff</TableHead>
+                <TableHead className="text-right">Present</TableHead>
+                <TableHead className="text-right">Late</TableHead>
+                <TableHead className="text-right">On leave</TableHead>
+                <TableHead className="text-right">Off duty</TableHead>
+                <TableHead className="text-right">Absent</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.site.id}>
+                  <TableCell>
+                    {row.site.name}
+                    <div className="text-xs text-muted-foreground">{row.site.timezone}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.totalEmployees}</TableCell>
+                  <TableCell className="text-right">{row.presentCount + row.checkedOutCount}</TableCell>
+                  <TableCell className="text-right">{row.lateCount}</TableCell>
+                  <TableCell className="text-right">{row.onLeaveCount}</TableCell>
+                  <TableCell className="text-right">{row.offDutyCount}</TableCell>
+                  <TableCell className="text-right">{row.absentCount}</TableCell>
+                  <TableCell className="text-right">{row.rate}%</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>All sites</TableCell>
+                <TableCell className="text-right">{total.totalEmployees}</TableCell>
+                <TableCell className="text-right">{total.presentCount + total.checkedOutCount}</TableCell>
+                <TableCell className="text-right">{total.lateCount}</TableCell>
+                <TableCell className="text-right">{total.onLeaveCount}</TableCell>
+                <TableCell className="text-right">{total.offDutyCount}</TableCell>
+                <TableCell className="text-right">{total.absentCount}</TableCell>
+                <TableCell className="text-right">{total.attendanceRate}%</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Building2, Loader2, LocateFixed, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { Site, SiteInput, WEEKDAY_LABELS, deleteSite, emptySite, getSites, saveSite } from '@/utils/siteUtils';
+import { getCurrentLocation } from '@/utils/selfCheckInUtils';
+
+const notify = (result: { success: boolean; message: string }) => {
+  toast({
+    title: result.success ? 'Success' : 'Error',
+    description: result.message,
+    variant: result.success ? 'default' : 'destructive',
+  });
+};
+
+const CONTACT_FIELDS: { key: 'contact_email' | 'contact_phone' | 'contact_whatsapp' | 'contact_telegram'; label: string; placeholder: string }[] = [
+  { key: 'contact_email', label: 'Admin email', placeholder: 'manager@example.com' },
+  { key: 'contact_phone', label: 'Admin phone', placeholder: '+94 77 123 4567' },
+  { key: 'contact_whatsapp', label: 'Admin WhatsApp', placeholder: '+94 77 123 4567' },
+  { key: 'contact_telegram', label: 'Admin Telegram chat ID', placeholder: '123456789' }
+];
+
+export function SiteSettings() {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [form, setForm] = useState<SiteInput>(emptySite);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const loadSites = useCallback(async () => {
+    try {
+      setSites(await getSites());
+    } catch (error) {
+      console.error('Error loading sites:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  const editSite = (site?: Site) => setForm(site ? { ...site } : emptySite());
+
+  const toggleDay = (day: number) =>
+    setForm(current => ({
+      ...current,
+      working_days: current.working_days.includes(day)
+        ? current.working_days.filter(value => value !== day)
+        : [...current.working_days, day].sort((a, b) => a - b)
+    }));
+
+  const parseCoordinate = (value: string) => (value.trim() === '' ? null : Number(value));
+
+  // Admins usually set the geofence standing at the site
+  const fillCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const location = await getCurrentLocation();
+      setForm(current => ({
+        ...current,
+        latitude: Number(location.latitude.toFixed(6)),
+        longitude: Number(location.longitude.toFixed(6))
+      }));
+    } catch (error) {
+      notify({ success: false, message: error instanceof Error ? error.message : 'Could not find your location' });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveSite(form);
+      notify(result);
+      if (result.success) {
+        editSite();
+        await loadSites();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    notify(await deleteSite(id));
+    if (form.id === id) editSite();
+    await loadSites();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Sites
+        </CardTitle>
+        <CardDescription>
+          Each site keeps its own timezone and working week. Employees are reported under their home site wherever they punch.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : sites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sites yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Timezone</TableHead>
+                <TableHead>Working days</TableHead>
+                <TableHead>Contacts</TableHead>
+                <TableHead>Self check-in</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sites.map(site => (
+                <TableRow key={site.id} className="cursor-pointer" onClick={() => editSite(site)}>
+                  <TableCell className="font-medium">{site.name}</TableCell>
+                  <TableCell>{site.timezone}</TableCell>
+                  <TableCell>{site.working_days.map(day => WEEKDAY_LABELS[day]).join(', ')}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {[site.contact_email, site.contact_phone].filter(Boolean).join(' · ') || '-'}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {site.latitude !== null ? `Within ${site.geofence_radius_m} m` : 'Site QR only'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(site.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">{form.id ? `Edit ${form.name}` : 'New site'}</h3>
+            {form.id && (
+              <Button variant="ghost" size="sm" onClick={() => editSite()}>
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="site-name">Name</Label>
+              <Input
+                id="site-name"
+                value={form.name}
+                onChange={(e) => setForm(current => ({ ...current, name: e.target.value }))}
+                placeholder="e.g. Galle Fort"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="site-timezone">Timezone</Label>
+              <Input
+                id="site-timezone"
+                value={form.timezone}
+                onChange={(e) => setForm(current => ({ ...current, timezone: e.target.value.trim() }))}
+                placeholder="e.g. Asia/Colombo"
+              />
+            </div>
+            {CONTACT_FIELDS.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`site-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`site-${field.key}`}
+                  value={form[field.key] || ''}
+                  onChange={(e) => setForm(current => ({ ...current, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_10rem_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="site-latitude">Latitude</Label>
+                <Input
+                  id="site-latitude"
+                  type="number"
+                  step="any"
+                  value={form.latitude ?? ''}
+                  onChange={(e) => setForm(current => ({ ...current, latitude: parseCoordinate(e.target.value) }))}
+                  placeholder="e.g. 6.9271"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="site-longitude">Longitude</Label>
+                <Input
+                  id="site-longitude"
+                  type="number"
+                  step="any"
+                  value={form.longitude ?? ''}
+                  onChange={(e) => setForm(current => ({ ...current, longitude: parseCoordinate(e.target.value) }))}
+                  placeholder="e.g. 79.8612"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="site-radius">Check-in radius (m)</Label>
+                <Input
+                  id="site-radius"
+                  type="number"
+                  min={1}
+                  value={form.geofence_radius_m}
+                  onChange={(e) => setForm(current => ({ ...current, geofence_radius_m: Number(e.target.value) }))}
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={fillCurrentLocation} disabled={locating}>
+                {locating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LocateFixed className="h-4 w-4 mr-2" />}
+                Use my location
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Employees can check in from their phones within this radius. Without a location, only the site QR code at reception works.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Working days</Label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={form.working_days.includes(day) ? 'default' : 'outline'}
+                  onClick={() => toggleDay(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Days outside the working week are not counted as absences for employees based here
+            </p>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Site
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+import { LogOut, UserCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { ROLE_LABELS } from '@/utils/authUtils';
+
+// Thin bar with the signed-in account; hidden when nobody is signed in
+export function UserMenu() {
+  const { session, role, signOut } = useAuth();
+
+  if (!session) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-2 border-b px-4 py-1 text-sm">
+      <UserCircle className="h-4 w-4 text-muted-foreground" />
+      <span className="truncate">{session.user.email}</span>
+      {role && <span className="hidden sm:inline text-muted-foreground">({ROLE_LABELS[role]})</span>}
+      <Button variant="ghost" size="sm" onClick={signOut}>
+        <LogOut className="mr-1 h-4 w-4" />
+        Sign out
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Trash2, UserPlus, Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  APP_ROLES,
+  AppRole,
+  ROLE_LABELS,
+  UserRole,
+  getDepartmentOptions,
+  getEmployeeOptions,
+  getUserRoles,
+  inviteUser,
+  removeUserRole,
+  updateUserRole
+} from '@/utils/authUtils';
+
+export function UserRoleSettings() {
+  const { session } = useAuth();
+  const [users, setUsers] = useState<UserRole[]>([]);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  const [employees, setEmployees] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AppRole>('hr');
+  const [inviteDepartment, setInviteDepartment] = useState('');
+  const [inviteEmployee, setInviteEmployee] = useState('');
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const [roles, departmentOptions, employeeOptions] = await Promise.all([
+        getUserRoles(),
+        getDepartmentOptions(),
+        getEmployeeOptions()
+      ]);
+      setUsers(roles);
+      setDepartments(departmentOptions);
+      setEmployees(employeeOptions);
+    } catch (error) {
+      console.error('Error loading users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const run = async (action: () => Promise<{ success: boolean; message: string }>) => {
+    setWorking(true);
+    try {
+      const result = await action();
+      notify(result);
+      if (result.success) await loadUsers();
+      return result.success;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRoleChange = (user: UserRole, role: AppRole) =>
+    run(() =>
+      updateUserRole(
+        user.user_id,
+        role,
+        user.department_id ?? departments[0]?.id ?? null,
+        user.employee_id ?? employees[0]?.id ?? null
+      )
+    );
+
+  const handleDepartmentChange = (user: UserRole, departmentId: string) =>
+    run(() => updateUserRole(user.user_id, user.role, departmentId));
+
+  const handleEmployeeChange = (user: UserRole, employeeId: string) =>
+    run(() => updateUserRole(user.user_id, user.role, null, employeeId));
+
+  const handleRemove = (user: UserRole) => {
+    if (!window.confirm(`Remove access for ${user.email}?`)) return;
+    run(() => removeUserRole(user.user_id));
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const departmentId = inviteRole === 'department_manager' ? inviteDepartment || null : null;
+    const employeeId = inviteRole === 'employee' ? inviteEmployee || null : null;
+    if (await run(() => inviteUser(inviteEmail.trim(), inviteRole, departmentId, employeeId))) {
+      setInviteEmail('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Users & Roles
+        </CardTitle>
+        <CardDescription>
+          Invited users get an email to choose a password. Department managers only see their own department;
+          employees can only check themselves in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {users.map(user => (
+              <div key={user.user_id} className="grid grid-cols-1 md:grid-cols-[1fr_12rem_12rem_auto] gap-2 items-center border rounded-md p-2">
+                <span className="truncate text-sm">{user.email}</span>
+                <select
+                  className="w-full border rounded-md p-2"
+                  value={user.role}
+                  disabled={working || user.user_id === session?.user.id}
+                  onChange={(e) => handleRoleChange(user, e.target.value as AppRole)}
+                >
+                  {APP_ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                {user.role === 'department_manager' ? (
+                  <select
+                    className="w-full border rounded-md p-2"
+                    value={user.department_id ?? ''}
+                    disabled={working}
+                    onChange={(e) => handleDepartmentChange(user, e.target.value)}
+                  >
+                    {departments.map(department => (
+                      <option key={department.id} value={department.id}>{department.name}</option>
+                    ))}
+                  </select>
+                ) : user.role === 'employee' ? (
+                  <select
+                    className="w-full border rounded-md p-2"
+                    value={user.employee_id ?? ''}
+                    disabled={working}
+                    onChange={(e) => handleEmployeeChange(user, e.target.value)}
+                  >
+                    {employees.map(employee => (
+                      <option key={employee.id} value={employee.id}>{employee.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={working || user.user_id === session?.user.id}
+                  onClick={() => handleRemove(user)}
+                  title="Remove access"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleInvite} className="space-y-2 border-t pt-4">
+          <Label htmlFor="invite-email">Invite a user</Label>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_12rem_12rem_auto] gap-2">
+            <Input
+              id="invite-email"
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="name@example.com"
+              required
+            />
+            <select
+              className="w-full border rounded-md p-2"
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as AppRole)}
+            >
+              {APP_ROLES.map(role => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            {inviteRole === 'department_manager' ? (
+              <select
+                className="w-full border rounded-md p-2"
+                value={inviteDepartment}
+                onChange={(e) => setInviteDepartment(e.target.value)}
+                required
+              >
+                <option value="">Department...</option>
+                {departments.map(department => (
+                  <option key={department.id} value={department.id}>{department.name}</option>
+                ))}
+              </select>
+            ) : inviteRole === 'employee' ? (
+              <select
+                className="w-full border rounded-md p-2"
+                value={inviteEmployee}
+                onChange={(e) => setInviteEmployee(e.target.value)}
+                required
+              >
+                <option value="">Employee...</option>
+                {employees.map(employee => (
+                  <option key={employee.id} value={employee.id}>{employee.name}</option>
+                ))}
+              </select>
+            ) : (
+              <span />
+            )}
+            <Button type="submit" disabled={working || !inviteEmail.trim()}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
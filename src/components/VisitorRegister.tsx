@@ -0,0 +1,306 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import Webcam from 'react-webcam';
+import { Camera, Loader2, RefreshCw, UserPlus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
+import { Employee, GatePass } from '@/types';
+import {
+  MAX_VISIT_HOURS,
+  VISITOR_TYPE_LABELS,
+  Visitor,
+  VisitorForm,
+  VisitorType,
+  emptyVisitorForm,
+  getRecentVisitors,
+  registerVisitor
+} from '@/utils/visitorUtils';
+
+// Photos are stored inline with the visitor, so keep them small
+const PHOTO_WIDTH = 320;
+const PHOTO_QUALITY = 0.7;
+
+const notify = (result: { success: boolean; message: string }) => {
+  toast({
+    title: result.success ? 'Success' : 'Error',
+    description: result.message,
+    variant: result.success ? 'default' : 'destructive',
+  });
+};
+
+interface VisitorRegisterProps {
+  employees: Employee[];
+  onRegistered: (pass: GatePass) => void;
+}
+
+// Security's log of visitors, vendors and contractors, issuing each a gate pass
+export function VisitorRegister({ employees, onRegistered }: VisitorRegisterProps) {
+  const webcamRef = useRef<Webcam>(null);
+  const [form, setForm] = useState<VisitorForm>(emptyVisitorForm);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [visitors, setVisitors] = useState<Visitor[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadVisitors = useCallback(async () => {
+    setLoading(true);
+    try {
+      setVisitors(await getRecentVisitors());
+    } catch (error) {
+      console.error('Error loading visitors:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadVisitors();
+  }, [loadVisitors]);
+
+  const update = <K extends keyof VisitorForm>(key: K, value: VisitorForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const takePhoto = () => {
+    const photo = webcamRef.current?.getScreenshot();
+    if (!photo) {
+      notify({ success: false, message: 'The camera is not ready yet' });
+      return;
+    }
+    update('photo', photo);
+    setCameraOn(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const result = await registerVisitor(form);
+      notify(result);
+      if (result.success && result.pass) {
+        setForm(emptyVisitorForm());
+        onRegistered(result.pass);
+        loadVisitors();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeEmployees = employees.filter(employee => employee.status === 'active');
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Register Visitor
+          </CardTitle>
+          <CardDescription>
+            Visitors, vendors and contractors get a pass for the hours below; their host is told they have arrived
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="visitor-name">Full name</Label>
+                <Input
+                  id="visitor-name"
+                  value={form.full_name}
+                  onChange={(e) => update('full_name', e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="visitor-type">Type</Label>
+                  <select
+                    id="visitor-type"
+                    className="w-full border rounded-md p-2"
+                    value={form.visitor_type}
+                    onChange={(e) => update('visitor_type', e.target.value as VisitorType)}
+                  >
+                    {(Object.keys(VISITOR_TYPE_LABELS) as VisitorType[]).map(type => (
+                      <option key={type} value={type}>{VISITOR_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="visitor-company">Company</Label>
+                  <Input
+                    id="visitor-company"
+                    value={form.company}
+                    onChange={(e) => update('company', e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="visitor-host">Visiting</Label>
+                <select
+                  id="visitor-host"
+                  className="w-full border rounded-md p-2"
+                  value={form.host_employee_id}
+                  onChange={(e) => update('host_employee_id', e.target.value)}
+                >
+                  <option value="">Select host employee</option>
+                  {activeEmployees.map(employee => (
+                    <option key={employee.id} value={employee.id}>
+                      {employee.first_name} {employee.last_name} ({employee.department})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="visitor-id-number">ID document number</Label>
+                  <Input
+                    id="visitor-id-number"
+                    value={form.id_document_number}
+                    onChange={(e) => update('id_document_number', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="visitor-plate">Vehicle plate</Label>
+                  <Input
+                    id="visitor-plate"
+                    value={form.vehicle_plate}
+                    onChange={(e) => update('vehicle_plate', e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-[1fr_auto] gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="visitor-purpose">Purpose</Label>
+                  <Input
+                    id="visitor-purpose"
+                    value={form.purpose}
+                    onChange={(e) => update('purpose', e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="visitor-hours">Hours</Label>
+                  <Input
+                    id="visitor-hours"
+                    type="number"
+                    min={1}
+                    max={MAX_VISIT_HOURS}
+                    className="w-20"
+                    value={form.valid_hours}
+                    onChange={(e) => update('valid_hours', Number(e.target.value))}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Photo</Label>
+              <div className="aspect-[4/3] w-full overflow-hidden rounded-md border bg-muted flex items-center justify-center">
+                {cameraOn ? (
+                  <Webcam
+                    ref={webcamRef}
+                    audio={false}
+                    screenshotFormat="image/jpeg"
+                    screenshotQuality={PHOTO_QUALITY}
+                    minScreenshotWidth={PHOTO_WIDTH}
+                    forceScreenshotSourceSize={false}
+                    videoConstraints={{ facingMode: 'environment' }}
+                    className="h-full w-full object-cover"
+                  />
+                ) : form.photo ? (
+                  <img src={form.photo} alt="Visitor" className="h-full w-full object-cover" />
+                ) : (
+                  <Camera className="h-10 w-10 text-muted-foreground" />
+                )}
+              </div>
+              {cameraOn ? (
+                <div className="flex gap-2">
+                  <Button type="button" className="flex-1" onClick={takePhoto}>Take Photo</Button>
+                  <Button type="button" variant="outline" onClick={() => setCameraOn(false)}>Cancel</Button>
+                </div>
+              ) : (
+                <Button type="button" variant="outline" className="w-full" onClick={() => setCameraOn(true)}>
+                  <Camera className="mr-2 h-4 w-4" />
+                  {form.photo ? 'Retake Photo' : 'Open Camera'}
+                </Button>
+              )}
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Register and Issue Pass
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Recent Visitors</CardTitle>
+            <CardDescription>The latest arrivals logged at the gate</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadVisitors} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : visitors.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-6">No visitors registered yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Visitor</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Visiting</TableHead>
+                    <TableHead>ID / Vehicle</TableHead>
+                    <TableHead>Arrived</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visitors.map(visitor => (
+                    <TableRow key={visitor.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {visitor.photo && (
+                            <img src={visitor.photo} alt="" className="h-8 w-8 rounded-full object-cover" />
+                          )}
+                          <div>
+                            <p className="font-medium">{visitor.full_name}</p>
+                            {visitor.company && <p className="text-xs text-muted-foreground">{visitor.company}</p>}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{VISITOR_TYPE_LABELS[visitor.visitor_type]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {visitor.host ? `${visitor.host.first_name} ${visitor.host.last_name}` : 'Unknown'}
+                      </TableCell>
+                      <TableCell>
+                        <p>{visitor.id_document_number}</p>
+                        {visitor.vehicle_plate && <p className="text-xs text-muted-foreground">{visitor.vehicle_plate}</p>}
+                      </TableCell>
+                      <TableCell>{new Date(visitor.arrived_at).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Attendance } from '@/types';
 import { getAttendanceRecords } from '@/utils/attendanceUtils';
 import { getDepartments } from '@/utils/employeeUtils';
+import { getDateInTimezone } from '@/utils/timezoneUtils';
 import { useOnlineStatus } from './useOnlineStatus';
 
 // Increased cache duration for better performance
@@ -61,7 +62,7 @@ export function useAttendanceData(refreshTrigger = 0, options: UseAttendanceData
   const normalizeAttendanceData = useCallback((data: any[]): Attendance[] => {
     return data.map(record => ({
       ...record,
-      date: record.date || new Date(record.check_in_time || record.first_check_in_time).toISOString().split('T')[0],
+      date: record.date || getDateInTimezone(record.check_in_time || record.first_check_in_time),
       // Add any other normalization logic here
     }));
   }, []);
@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { AppRole, Permission } from '@/utils/authUtils';
+
+// Provided by AuthProvider in src/components/AuthProvider.tsx
+export interface AuthContextValue {
+  session: Session | null;
+  role: AppRole | null;
+  departmentId: string | null;
+  employeeId: string | null;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used inside an AuthProvider');
+  }
+  return context;
+};
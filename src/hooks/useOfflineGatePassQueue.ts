@@ -0,0 +1,32 @@
+// React Hook for the Offline Gate Pass Usage Queue
+import { useState, useEffect } from 'react';
+import { offlineGatePassQueue, GatePassQueueState, QueuedGatePassUsage } from '@/utils/offlineGatePassQueueUtils';
+
+export const useOfflineGatePassQueue = () => {
+  const [queueState, setQueueState] = useState<GatePassQueueState>(
+    offlineGatePassQueue.getState()
+  );
+
+  useEffect(() => {
+    const unsubscribe = offlineGatePassQueue.subscribe(setQueueState);
+    return unsubscribe;
+  }, []);
+
+  return {
+    // Current queue state
+    queueState,
+
+    // Computed properties
+    pendingCount: queueState.pendingCount,
+    conflicts: queueState.conflicts,
+    isReplaying: queueState.isReplaying,
+
+    // Helper functions
+    enqueue: (usage: Pick<QueuedGatePassUsage, 'passId' | 'passCode' | 'holderName' | 'usageType' | 'time'>) =>
+      offlineGatePassQueue.enqueue(usage),
+    replay: () => offlineGatePassQueue.replay(),
+    dismissConflict: (id: number) => offlineGatePassQueue.dismissConflict(id)
+  };
+};
+
+export default useOfflineGatePassQueue;
@@ -0,0 +1,32 @@
+// React Hook for the Offline Scan Queue
+import { useState, useEffect } from 'react';
+import { offlineScanQueue, OfflineQueueState } from '@/utils/offlineQueueUtils';
+
+export const useOfflineScanQueue = () => {
+  const [queueState, setQueueState] = useState<OfflineQueueState>(
+    offlineScanQueue.getState()
+  );
+
+  useEffect(() => {
+    const unsubscribe = offlineScanQueue.subscribe(setQueueState);
+    return unsubscribe;
+  }, []);
+
+  return {
+    // Current queue state
+    queueState,
+
+    // Computed properties
+    pendingCount: queueState.pendingCount,
+    conflicts: queueState.conflicts,
+    isReplaying: queueState.isReplaying,
+
+    // Helper functions
+    enqueue: (qrData: string, employeeId: string) => offlineScanQueue.enqueue(qrData, employeeId),
+    replay: () => offlineScanQueue.replay(),
+    dismissConflict: (id: number) => offlineScanQueue.dismissConflict(id),
+    retryConflict: (id: number) => offlineScanQueue.retryConflict(id)
+  };
+};
+
+export default useOfflineScanQueue;
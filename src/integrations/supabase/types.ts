@@ -648,6 +648,7 @@ export interface Roster {
   status: 'active' | 'completed' | 'upcoming';
   grace_period: number;
   early_departure_threshold: number;
+  max_sessions?: number;
   created_at: string;
   updated_at: string;
   created_by?: string;
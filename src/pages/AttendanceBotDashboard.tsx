@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import AutomatedAttendanceBot from '@/components/AutomatedAttendanceBot';
+import { MessageReceiptLog, ReportDeliveryLog, ReportScheduleSettings } from '@/components/ReportSchedules';
+import { EmailSettings } from '@/components/EmailSettings';
 import { Bot, Settings, Clock, Users, Calendar, Bell } from 'lucide-react';
 
 const AttendanceBotDashboard: React.FC = () => {
@@ -188,28 +190,18 @@ const AttendanceBotDashboard: React.FC = () => {
                     </CardContent>
                   </Card>
                 </div>
+
+                <div className="mt-6 space-y-6">
+                  <ReportScheduleSettings />
+                  <EmailSettings />
+                </div>
               </TabsContent>
               
               <TabsContent value="logs" className="mt-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Activity Logs</CardTitle>
-                    <CardDescription>Recent BOT activities and reports</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      {[1, 2, 3].map((i) => (
-                        <div key={i} className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                          <div>
-                            <p className="font-medium">Daily Report Sent</p>
-                            <p className="text-sm text-muted-foreground">Today at 6:00 PM</p>
-                          </div>
-                          <Button variant="ghost" size="sm">View</Button>
-                        </div>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
+                <div className="space-y-6">
+                  <ReportDeliveryLog />
+                  <MessageReceiptLog />
+                </div>
               </TabsContent>
             </Tabs>
           </CardContent>
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Scanner } from '@yudiel/react-qr-scanner';
+import { AlertTriangle, CheckCircle, Loader2, MapPin, QrCode, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Site, getSites } from '@/utils/siteUtils';
+import {
+  GeofenceCheck,
+  SelfCheckInResult,
+  checkGeofence,
+  getCurrentLocation,
+  parseSiteCheckInQR,
+  selfCheckIn
+} from '@/utils/selfCheckInUtils';
+
+// Self check-in from an employee's own phone, by location or the site QR at reception
+const CheckIn: React.FC = () => {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [geofence, setGeofence] = useState<GeofenceCheck | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<SelfCheckInResult | null>(null);
+
+  useEffect(() => {
+    getSites()
+      .then(setSites)
+      .catch(error => console.error('Error loading sites:', error));
+  }, []);
+
+  const handleLocationCheckIn = async () => {
+    setWorking(true);
+    setResult(null);
+    try {
+      const location = await getCurrentLocation();
+      setGeofence(checkGeofence(sites, location));
+      setResult(await selfCheckIn(location));
+    } catch (error) {
+      setResult({ success: false, flagged: false, message: error instanceof Error ? error.message : 'Failed to check in' });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSiteCode = async (value: string | undefined) => {
+    if (!value || working) return;
+    const siteCode = parseSiteCheckInQR(value);
+    if (!siteCode) {
+      setResult({ success: false, flagged: false, message: 'That is not a site check-in code' });
+      return;
+    }
+
+    setScanning(false);
+    setWorking(true);
+    setResult(null);
+    try {
+      // The code alone is enough; the location is recorded when the phone shares it
+      const location = await getCurrentLocation(60 * 1000).catch(() => null);
+      setResult(await selfCheckIn(location, siteCode));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-md space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">Check In</CardTitle>
+          <CardDescription>
+            Check in or out from your phone while you are at a site, or scan the code shown at reception.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button className="w-full" size="lg" onClick={handleLocationCheckIn} disabled={working}>
+            {working ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <MapPin className="mr-2 h-5 w-5" />}
+            Use my location
+          </Button>
+          <Button
+            className="w-full"
+            size="lg"
+            variant="outline"
+            onClick={() => setScanning(current => !current)}
+            disabled={working}
+          >
+            <QrCode className="mr-2 h-5 w-5" />
+            {scanning ? 'Stop scanning' : 'Scan site code'}
+          </Button>
+
+          {scanning && (
+            <Scanner
+              onScan={(codes) => handleSiteCode(codes[0]?.rawValue)}
+              onError={console.error}
+              formats={['qr_code']}
+              constraints={{ facingMode: 'environment' }}
+            />
+          )}
+
+          {geofence && (
+            <p className="text-sm text-muted-foreground">
+              {Math.round(geofence.distance)} m from {geofence.site.name} (check-in radius {geofence.site.geofence_radius_m} m)
+            </p>
+          )}
+
+          {result && (
+            <div
+              className={`flex items-start gap-2 rounded-md border p-3 text-sm ${
+                result.success
+                  ? 'border-green-200 bg-green-50 text-green-700'
+                  : result.flagged
+                    ? 'border-orange-200 bg-orange-50 text-orange-700'
+                    : 'border-red-200 bg-red-50 text-red-700'
+              }`}
+            >
+              {result.success ? (
+                <CheckCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              ) : result.flagged ? (
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              ) : (
+                <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+              )}
+              <span>{result.message}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CheckIn;
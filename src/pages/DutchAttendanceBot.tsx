@@ -121,12 +121,25 @@ const DutchAttendanceBot: React.FC = () => {
                 </ol>
               </div>
 
+              <div className="space-y-2">
+                <h3 className="font-medium">Chat Commands</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Admins can message the BOT on WhatsApp or Telegram:
+                </p>
+                <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                  <li><code>/today</code> – today's attendance summary</li>
+                  <li><code>/absent [department]</code> – who is absent</li>
+                  <li><code>/late</code> – late arrivals</li>
+                  <li><code>/who &lt;name&gt;</code> – one employee's status</li>
+                  <li><code>/passes out</code> – employees out on a gate pass</li>
+                </ul>
+              </div>
+
               <div className="space-y-2">
                 <h3 className="font-medium">Requirements</h3>
                 <ul className="list-disc list-inside text-sm text-gray-600 dark:text-gray-300 space-y-1">
-                  <li>WhatsApp Web access</li>
-                  <li>Valid admin phone numbers</li>
-                  <li>Browser pop-ups enabled</li>
+                  <li>WhatsApp Cloud API or Telegram bot configured</li>
+                  <li>Valid admin phone numbers or Telegram chat IDs</li>
                 </ul>
               </div>
             </CardContent>
@@ -14,14 +14,24 @@ import { getEmployees } from '@/utils/employeeUtils';
 import { 
   getGatePasses,
   createGatePass,
+  createScheduledGatePass,
   verifyGatePass,
   generateGatePassImage,
   recordGatePassUsage,
-  deleteGatePass
+  deleteGatePass,
+  isGatePassApproved
 } from '@/utils/gatePassUtils';
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { Skeleton } from '@/components/ui/skeleton';
 import { TimeSelector } from '@/components/TimeSelector';
+import { GatePassApprovals } from '@/components/GatePassApprovals';
+import { GatePassOutsideBoard } from '@/components/GatePassOutsideBoard';
+import GatePassQRScanner from '@/components/GatePassQRScanner';
+import { VisitorRegister } from '@/components/VisitorRegister';
+import { GatePassScheduleInput, RecurringScheduleForm } from '@/components/GatePassScheduleInput';
+import { buildCustomWindow, buildRecurringWindow, describeSchedule } from '@/utils/gatePassScheduleUtils';
+import { addDaysToDate, getDateInTimezone, getOrganizationTimezone } from '@/utils/timezoneUtils';
+import { useAuth } from '@/hooks/useAuth';
 
 interface ActiveGatePass {
   endTime: string;
@@ -29,15 +39,32 @@ interface ActiveGatePass {
   employeeName: string;
 }
 
+// Value for a datetime-local input, in the browser's time
+const toDateTimeLocal = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+const emptyRecurringSchedule = (): RecurringScheduleForm => {
+  const today = getDateInTimezone(new Date(), getOrganizationTimezone());
+  return { startDate: today, endDate: addDaysToDate(today, 27), days: [], start: '12:00', end: '14:00' };
+};
+
 const GatePass: React.FC = () => {
+  const { can } = useAuth();
+  const canIssue = can('gatepass.issue');
+  const canApprove = can('gatepass.approve');
+  const canDelete = can('gatepass.delete');
+  const canRegisterVisitors = can('visitors.register');
+
   // State management
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [gatePasses, setGatePasses] = useState<GatePassType[]>([]);
   const [selectedEmployee, setSelectedEmployee] = useState<string>('');
   const [passType, setPassType] = useState<'entry' | 'exit' | 'both'>('both');
-  const [passValidity, setPassValidity] = useState<'single' | 'day' | 'week' | 'month' | 'custom'>('single');
+  const [passValidity, setPassValidity] = useState<'single' | 'day' | 'week' | 'month' | 'custom' | 'recurring'>('single');
   const [passReason, setPassReason] = useState<string>('');
-  const [activeTab, setActiveTab] = useState<string>('create');
+  const [activeTab, setActiveTab] = useState<string>(canIssue ? 'create' : 'verify');
   const [passCode, setPassCode] = useState<string>('');
   const [verificationResult, setVerificationResult] = useState<{
     verified: boolean;
@@ -70,6 +97,8 @@ const GatePass: React.FC = () => {
   const [customValidityHours, setCustomValidityHours] = useState<number>(1);
   const [customValidityMinutes, setCustomValidityMinutes] = useState<number>(0);
   const [isCustomValidity, setIsCustomValidity] = useState<boolean>(false);
+  const [customValidFrom, setCustomValidFrom] = useState<string>(toDateTimeLocal(new Date()));
+  const [recurringSchedule, setRecurringSchedule] = useState<RecurringScheduleForm>(emptyRecurringSchedule);
   
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
   
@@ -184,6 +213,7 @@ const GatePass: React.FC = () => {
       if (minutes > 0) text += `${text ? ' and ' : ''}${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
       return text || '0 minutes';
     }
+    if (validity === 'recurring') return 'on a weekly schedule';
 
     switch (validity) {
       case 'single':
@@ -237,6 +267,7 @@ const GatePass: React.FC = () => {
 
   // Modify handleCreateGatePass
   const handleCreateGatePass = async () => {
+    if (!canIssue) return;
     if (!selectedEmployee || !passReason) {
       toast({
         title: 'Missing Information',
@@ -249,55 +280,32 @@ const GatePass: React.FC = () => {
     try {
       setIsCreating(true);
       
-      // Calculate custom validity if needed
-      let validity = passValidity;
-      if (passValidity === 'custom') {
-        // For custom validity, we'll use 'single' but calculate the expiration differently
-        validity = 'single';
-      }
-      
-      const newPass = await createGatePass(
-        selectedEmployee,
-        validity as 'single' | 'day' | 'week' | 'month',
-        passType,
-        passReason,
-        expectedExitTime,
-        expectedReturnTime
-      );
+      // Custom and recurring passes carry their own window
+      const newPass = passValidity === 'custom' || passValidity === 'recurring'
+        ? await createScheduledGatePass(
+            selectedEmployee,
+            passType,
+            passReason,
+            passValidity === 'custom'
+              ? buildCustomWindow(new Date(customValidFrom), customValidityHours, customValidityMinutes)
+              : buildRecurringWindow(recurringSchedule.startDate, recurringSchedule.endDate, recurringSchedule),
+            expectedExitTime,
+            expectedReturnTime
+          )
+        : await createGatePass(
+            selectedEmployee,
+            passValidity,
+            passType,
+            passReason,
+            expectedExitTime,
+            expectedReturnTime
+          );
       
       if (newPass) {
-        // Set countdown end time based on pass validity
-        const now = new Date();
-        let endTime: Date;
-        
-        if (passValidity === 'custom') {
-          // For custom validity, calculate exact hours and minutes
-          const totalMilliseconds = 
-            (customValidityHours * 60 * 60 * 1000) + 
-            (customValidityMinutes * 60 * 1000);
-          endTime = new Date(now.getTime() + totalMilliseconds);
-        } else {
-          // For predefined periods, use the expiration date from the pass
-          endTime = new Date(newPass.expiresAt);
-        }
-        
-        // Save active pass to localStorage
-        const activePassData = {
-          endTime: endTime.toISOString(),
-          passCode: newPass.passCode,
-          employeeName: newPass.employeeName
-        };
-        localStorage.setItem('activeGatePass', JSON.stringify(activePassData));
-        setActivePass(activePassData);
-        setCountdownEnd(endTime);
-        
-        // Download gate pass image automatically
-        await handleDownloadGatePass(newPass);
-        
-        // Show success toast
+        // The pass has no QR code until the department head approves it
         toast({
-          title: 'Gate Pass Created Successfully',
-          description: `Pass code: ${newPass.passCode} - Valid until ${endTime.toLocaleString()}`,
+          title: 'Gate Pass Requested',
+          description: `Pass ${newPass.passCode} for ${newPass.employeeName} was sent for approval`,
           variant: 'default',
           duration: 5000,
         });
@@ -313,6 +321,8 @@ const GatePass: React.FC = () => {
         setCustomValidityHours(1);
         setCustomValidityMinutes(0);
         setIsCustomValidity(false);
+        setCustomValidFrom(toDateTimeLocal(new Date()));
+        setRecurringSchedule(emptyRecurringSchedule());
       } else {
         toast({
           title: 'Error',
@@ -324,7 +334,7 @@ const GatePass: React.FC = () => {
       console.error('Error creating gate pass:', error);
       toast({
         title: 'Error',
-        description: 'An unexpected error occurred. Please try again.',
+        description: error instanceof Error ? error.message : 'An unexpected error occurred. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -450,6 +460,8 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
   // Function to get appropriate badge color based on status
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800';
       case 'active':
         return 'bg-green-100 text-green-800';
       case 'used':
@@ -457,6 +469,7 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
       case 'expired':
         return 'bg-orange-100 text-orange-800';
       case 'revoked':
+      case 'rejected':
         return 'bg-red-100 text-red-800';
       default:
         return '';
@@ -474,7 +487,7 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
 
   // Add handleDeletePass function
   const handleDeletePass = async (passId: string) => {
-    if (!passId) return;
+    if (!passId || !canDelete) return;
 
     try {
       setIsDeleting(passId);
@@ -513,22 +526,27 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
           <div>
             <h1 className="text-3xl font-bold tracking-tight mb-2">Gate Pass System</h1>
             <p className="text-muted-foreground">
-              Create and manage temporary access passes for employees
+              Create and manage temporary access passes for employees and visitors
             </p>
           </div>
           <TabsList className="mt-4 md:mt-0">
-            <TabsTrigger value="create">Create Pass</TabsTrigger>
+            {canIssue && <TabsTrigger value="create">Create Pass</TabsTrigger>}
+            {canApprove && <TabsTrigger value="approvals">Approvals</TabsTrigger>}
+            <TabsTrigger value="verify">Verify</TabsTrigger>
+            {canRegisterVisitors && <TabsTrigger value="visitors">Visitors</TabsTrigger>}
+            <TabsTrigger value="outside">Outside</TabsTrigger>
             <TabsTrigger value="passes">All Passes</TabsTrigger>
           </TabsList>
         </div>
         
         {/* Create Pass Tab */}
+        {canIssue && (
         <TabsContent value="create">
           <Card>
             <CardHeader>
               <CardTitle>Create New Gate Pass</CardTitle>
               <CardDescription>
-                Generate a temporary access pass for employees
+                Request a temporary access pass; it becomes active once the employee's department head approves it
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -581,7 +599,7 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                   className="w-full border rounded-md p-2"
                   value={passValidity}
                   onChange={(e) => {
-                    setPassValidity(e.target.value as 'single' | 'day' | 'week' | 'month' | 'custom');
+                    setPassValidity(e.target.value as 'single' | 'day' | 'week' | 'month' | 'custom' | 'recurring');
                     setIsCustomValidity(e.target.value === 'custom');
                   }}
                   disabled={isCreating}
@@ -592,11 +610,22 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                   <option value="week">One Week</option>
                   <option value="month">One Month</option>
                   <option value="custom">Custom Duration</option>
+                  <option value="recurring">Recurring Schedule</option>
                 </select>
 
                 {/* Custom Validity Input */}
                 {isCustomValidity && (
                   <div className="mt-4 space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="validity-from">Starts</Label>
+                      <Input
+                        id="validity-from"
+                        type="datetime-local"
+                        value={customValidFrom}
+                        onChange={(e) => setCustomValidFrom(e.target.value)}
+                        className="w-full"
+                      />
+                    </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <Label htmlFor="validity-hours">Hours</Label>
@@ -630,6 +659,14 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                     </p>
                   </div>
                 )}
+
+                {passValidity === 'recurring' && (
+                  <GatePassScheduleInput
+                    value={recurringSchedule}
+                    onChange={setRecurringSchedule}
+                    disabled={isCreating}
+                  />
+                )}
               </div>
               
               {/* Time Selection */}
@@ -736,14 +773,45 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                 ) : (
                   <>
                     <QrCode className="mr-2 h-4 w-4" />
-                    Generate Gate Pass
+                    Request Gate Pass
                   </>
                 )}
               </Button>
             </CardFooter>
           </Card>
         </TabsContent>
+        )}
         
+        {/* Approvals Tab */}
+        {canApprove && (
+        <TabsContent value="approvals">
+          <GatePassApprovals onReviewed={() => setRefreshTrigger(prev => prev + 1)} />
+        </TabsContent>
+        )}
+
+        {/* Verify Tab */}
+        <TabsContent value="verify">
+          <GatePassQRScanner onVerified={() => setRefreshTrigger(prev => prev + 1)} />
+        </TabsContent>
+
+        {/* Visitors Tab */}
+        {canRegisterVisitors && (
+        <TabsContent value="visitors">
+          <VisitorRegister
+            employees={employees}
+            onRegistered={(pass) => {
+              setRefreshTrigger(prev => prev + 1);
+              handleDownloadGatePass(pass);
+            }}
+          />
+        </TabsContent>
+        )}
+
+        {/* Currently Outside Tab */}
+        <TabsContent value="outside">
+          <GatePassOutsideBoard />
+        </TabsContent>
+
         {/* All Passes Tab */}
         <TabsContent value="passes">
           <Card>
@@ -793,12 +861,22 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                             <TableCell className="font-medium font-mono">
                               {pass.passCode}
                             </TableCell>
-                            <TableCell>{pass.employeeName}</TableCell>
+                            <TableCell>
+                              {pass.employeeName}
+                              {pass.visitorId && (
+                                <Badge variant="outline" className="ml-2 bg-purple-100 text-purple-800 border-purple-200">
+                                  Visitor
+                                </Badge>
+                              )}
+                            </TableCell>
                             <TableCell className="capitalize">{pass.type}</TableCell>
                             <TableCell>
                               <Badge variant="outline" className={getStatusBadgeClass(pass.status)}>
                                 {pass.status}
                               </Badge>
+                              {pass.reviewComment && (
+                                <p className="text-xs text-muted-foreground mt-1">{pass.reviewComment}</p>
+                              )}
                             </TableCell>
                             <TableCell>
                               {pass.exitTime || pass.expectedExitTime || 'N/A'}
@@ -808,6 +886,9 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                             </TableCell>
                             <TableCell>
                               {new Date(pass.expiresAt).toLocaleString()}
+                              {pass.schedule && (
+                                <p className="text-xs text-muted-foreground mt-1">{describeSchedule(pass.schedule)}</p>
+                              )}
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-2">
@@ -823,7 +904,7 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                                   variant="outline"
                                   size="sm"
                                   onClick={() => handleDownloadGatePass(pass)}
-                                  disabled={isDownloading}
+                                  disabled={isDownloading || !isGatePassApproved(pass.status)}
                                 >
                                   {isDownloading ? (
                                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -832,19 +913,21 @@ Expires: ${new Date(pass.expiresAt).toLocaleString()}`;
                                   )}
                                   <span className="ml-2">Download</span>
                                 </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => handleDeletePass(pass.id)}
-                                  disabled={isDeleting === pass.id}
-                                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                                >
-                                  {isDeleting === pass.id ? (
-                                    <Loader2 className="h-4 w-4 animate-spin" />
-                                  ) : (
-                                    <Trash2 className="h-4 w-4" />
-                                  )}
-                                </Button>
+                                {canDelete && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDeletePass(pass.id)}
+                                    disabled={isDeleting === pass.id}
+                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                  >
+                                    {isDeleting === pass.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <Trash2 className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                )}
                               </div>
                             </TableCell>
                           </TableRow>
@@ -0,0 +1,483 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, CalendarDays, CheckCircle, ChevronLeft, ChevronRight, Loader2, Send, XCircle } from 'lucide-react';
+import { addMonths, endOfMonth, format, getDay, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Employee } from '@/types/index';
+import { getEmployees } from '@/utils/employeeUtils';
+import { getDateInTimezone } from '@/utils/timezoneUtils';
+import {
+  LeaveBalance,
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  cancelLeaveRequest,
+  getDatesInRange,
+  getLeaveBalances,
+  getLeaveForDate,
+  getLeaveRequests,
+  getLeaveTypes,
+  requestLeave,
+  reviewLeaveRequest
+} from '@/utils/leaveUtils';
+
+const STATUS_VARIANTS: Record<LeaveStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'outline'
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const employeeName = (request: LeaveRequest) =>
+  request.employee?.name ||
+  [request.employee?.first_name, request.employee?.last_name].filter(Boolean).join(' ') ||
+  'Employee';
+
+const LeaveManagement: React.FC = () => {
+  const today = getDateInTimezone();
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [activeTab, setActiveTab] = useState('request');
+
+  // Request form
+  const [employeeId, setEmployeeId] = useState('');
+  const [leaveTypeId, setLeaveTypeId] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [halfDay, setHalfDay] = useState(false);
+  const [reason, setReason] = useState('');
+
+  // Approvals
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  // Balances
+  const [balanceEmployeeId, setBalanceEmployeeId] = useState('');
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+
+  // Calendar
+  const [month, setMonth] = useState(today.slice(0, 7));
+
+  const { toast } = useToast();
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setRequests(await getLeaveRequests());
+    } catch (error) {
+      console.error('Error loading leave requests:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const [employeeData, typeData] = await Promise.all([getEmployees(), getLeaveTypes()]);
+        setEmployees(employeeData.filter(employee => employee.status === 'active'));
+        setLeaveTypes(typeData);
+        await loadRequests();
+      } catch (error) {
+        console.error('Error loading leave data:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load leave data',
+          variant: 'destructive',
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [loadRequests, toast]);
+
+  useEffect(() => {
+    if (!balanceEmployeeId) {
+      setBalances([]);
+      return;
+    }
+    getLeaveBalances(balanceEmployeeId)
+      .then(setBalances)
+      .catch(error => console.error('Error loading leave balances:', error));
+  }, [balanceEmployeeId, requests]);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const result = await requestLeave({ employeeId, leaveTypeId, startDate, endDate, halfDay, reason });
+      notify(result);
+      if (result.success) {
+        setReason('');
+        setHalfDay(false);
+        await loadRequests();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReview = async (request: LeaveRequest, approve: boolean) => {
+    setSubmitting(true);
+    try {
+      notify(await reviewLeaveRequest(request.id, approve, reviewNotes[request.id]));
+      await loadRequests();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    setSubmitting(true);
+    try {
+      notify(await cancelLeaveRequest(request.id));
+      await loadRequests();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+
+  const calendarDays = useMemo(() => {
+    const firstDay = `${month}-01`;
+    const lastDay = format(endOfMonth(parseISO(firstDay)), 'yyyy-MM-dd');
+    const approved = requests.filter(request => request.status === 'approved');
+    return {
+      leadingBlanks: getDay(parseISO(firstDay)),
+      days: getDatesInRange(firstDay, lastDay).map(date => ({
+        date,
+        onLeave: Array.from(getLeaveForDate(approved, date).values())
+      }))
+    };
+  }, [month, requests]);
+
+  const shiftMonth = (amount: number) =>
+    setMonth(format(addMonths(parseISO(`${month}-01`), amount), 'yyyy-MM'));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <Link to="/">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">Leave Management</h1>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="grid w-full grid-cols-4">
+          <TabsTrigger value="request">Request</TabsTrigger>
+          <TabsTrigger value="approvals">
+            Approvals {pendingRequests.length > 0 && <Badge variant="secondary" className="ml-2">{pendingRequests.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="balances">Balances</TabsTrigger>
+          <TabsTrigger value="calendar">Calendar</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="request" className="space-y-6 pt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Request Leave</CardTitle>
+              <CardDescription>Requests take effect once a manager approves them</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="leave-employee">Employee</Label>
+                  <select
+                    id="leave-employee"
+                    className="w-full border rounded-md p-2"
+                    value={employeeId}
+                    onChange={(e) => setEmployeeId(e.target.value)}
+                  >
+                    <option value="">Select an employee</option>
+                    {employees.map(employee => (
+                      <option key={employee.id} value={employee.id}>
+                        {employee.first_name} {employee.last_name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-type">Leave Type</Label>
+                  <select
+                    id="leave-type"
+                    className="w-full border rounded-md p-2"
+                    value={leaveTypeId}
+                    onChange={(e) => setLeaveTypeId(e.target.value)}
+                  >
+                    <option value="">Select a leave type</option>
+                    {leaveTypes.map(type => (
+                      <option key={type.id} value={type.id}>
+                        {type.name}{type.is_paid ? '' : ' (unpaid)'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-start">Start Date</Label>
+                  <Input
+                    id="leave-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => {
+                      setStartDate(e.target.value);
+                      if (e.target.value > endDate) setEndDate(e.target.value);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="leave-end">End Date</Label>
+                  <Input
+                    id="leave-end"
+                    type="date"
+                    value={endDate}
+                    min={startDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              {startDate === endDate && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={halfDay} onChange={(e) => setHalfDay(e.target.checked)} />
+                  Half day
+                </label>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="leave-reason">Reason</Label>
+                <Textarea
+                  id="leave-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <Button
+                onClick={handleSubmit}
+                disabled={submitting || !employeeId || !leaveTypeId || endDate < startDate}
+                className="w-full"
+              >
+                {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Submit Request
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Requests</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No leave requests yet
+                      </TableCell>
+                    </TableRow>
+                  ) : requests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell>{employeeName(request)}</TableCell>
+                      <TableCell>{request.leave_type?.name}</TableCell>
+                      <TableCell>
+                        {request.start_date === request.end_date
+                          ? request.start_date
+                          : `${request.start_date} – ${request.end_date}`}
+                      </TableCell>
+                      <TableCell>{request.days}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(request.status === 'pending' || request.status === 'approved') && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCancel(request)} disabled={submitting}>
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="approvals" className="space-y-4 pt-4">
+          {pendingRequests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No leave requests awaiting approval.</p>
+          ) : pendingRequests.map(request => (
+            <Card key={request.id}>
+              <CardContent className="pt-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{employeeName(request)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {request.leave_type?.name} · {request.start_date} to {request.end_date} · {request.days} day(s)
+                    </p>
+                  </div>
+                </div>
+                {request.reason && <p className="text-sm">{request.reason}</p>}
+                <Textarea
+                  value={reviewNotes[request.id] || ''}
+                  onChange={(e) => setReviewNotes(prev => ({ ...prev, [request.id]: e.target.value }))}
+                  placeholder="Note (optional)"
+                />
+                <div className="flex gap-2">
+                  <Button onClick={() => handleReview(request, true)} disabled={submitting} className="flex-1">
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleReview(request, false)}
+                    disabled={submitting}
+                    className="flex-1"
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="balances" className="space-y-4 pt-4">
+          <div className="space-y-2 max-w-sm">
+            <Label htmlFor="balance-employee">Employee</Label>
+            <select
+              id="balance-employee"
+              className="w-full border rounded-md p-2"
+              value={balanceEmployeeId}
+              onChange={(e) => setBalanceEmployeeId(e.target.value)}
+            >
+              <option value="">Select an employee</option>
+              {employees.map(employee => (
+                <option key={employee.id} value={employee.id}>
+                  {employee.first_name} {employee.last_name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {balanceEmployeeId && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Leave Type</TableHead>
+                  <TableHead>Accrued</TableHead>
+                  <TableHead>Carried Over</TableHead>
+                  <TableHead>Adjustment</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {balances.map(balance => (
+                  <TableRow key={balance.leaveType.id}>
+                    <TableCell>{balance.leaveType.name}</TableCell>
+                    <TableCell>{balance.available === null ? '-' : balance.accrued}</TableCell>
+                    <TableCell>{balance.carriedOver}</TableCell>
+                    <TableCell>{balance.adjustment}</TableCell>
+                    <TableCell>{balance.used}</TableCell>
+                    <TableCell className="font-medium">
+                      {balance.available === null ? 'Unlimited' : balance.available}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+
+        <TabsContent value="calendar" className="pt-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5" />
+                {format(parseISO(`${month}-01`), 'MMMM yyyy')}
+              </CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" size="icon" onClick={() => shiftMonth(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => shiftMonth(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-7 gap-1 text-sm">
+                {WEEKDAYS.map(day => (
+                  <div key={day} className="p-2 text-center font-medium text-muted-foreground">{day}</div>
+                ))}
+                {Array.from({ length: calendarDays.leadingBlanks }, (_, index) => (
+                  <div key={`blank-${index}`} />
+                ))}
+                {calendarDays.days.map(({ date, onLeave }) => (
+                  <div
+                    key={date}
+                    className={`min-h-[80px] rounded-md border p-1 ${date === today ? 'border-primary' : ''}`}
+                  >
+                    <div className="text-xs text-muted-foreground">{Number(date.slice(8))}</div>
+                    {onLeave.map(request => (
+                      <div
+                        key={request.id}
+                        className="truncate rounded px-1 text-xs text-white"
+                        style={{ backgroundColor: request.leave_type?.color }}
+                        title={`${employeeName(request)} — ${request.leave_type?.name}`}
+                      >
+                        {employeeName(request)}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default LeaveManagement;
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { KeyRound, Loader2, LogIn, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { useAuth } from '@/hooks/useAuth';
+import { getHomePath, requestPasswordReset, setPassword, signIn } from '@/utils/authUtils';
+import { getStoredDevice, restoreDeviceSession } from '@/utils/deviceUtils';
+
+type Mode = 'signIn' | 'forgot';
+
+const Login: React.FC = () => {
+  const { session, role, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode>('signIn');
+  const [email, setEmail] = useState('');
+  const [password, setPasswordValue] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [working, setWorking] = useState(false);
+  const [restoringDevice, setRestoringDevice] = useState(() => !!getStoredDevice());
+
+  // Invitation and reset links sign the user in and ask for a new password
+  const choosingPassword = searchParams.get('setPassword') === '1';
+  const from = (location.state as { from?: string } | null)?.from;
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  // Paired kiosk tablets sign themselves back in with their device token
+  useEffect(() => {
+    if (loading || session || !restoringDevice) return;
+    restoreDeviceSession().then(result => {
+      if (!result.success) {
+        toast({ title: 'Error', description: result.message, variant: 'destructive' });
+        setRestoringDevice(false);
+      }
+    });
+  }, [loading, session, restoringDevice, toast]);
+
+  if (loading || (restoringDevice && !session)) {
+    return <LoadingSpinner />;
+  }
+
+  if (session && !choosingPassword) {
+    return <Navigate to={from || (role ? getHomePath(role) : '/')} replace />;
+  }
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    try {
+      const result = await signIn(email, password);
+      if (!result.success) notify(result);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleForgot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    try {
+      const result = await requestPasswordReset(email);
+      notify(result);
+      if (result.success) setMode('signIn');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      notify({ success: false, message: 'Passwords do not match' });
+      return;
+    }
+    setWorking(true);
+    try {
+      const result = await setPassword(password);
+      notify(result);
+      if (result.success) navigate(role ? getHomePath(role) : '/', { replace: true });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Dutch Trails Attendance</CardTitle>
+          <CardDescription>
+            {choosingPassword && session
+              ? `Choose a password for ${session.user.email}`
+              : mode === 'forgot'
+                ? 'We will email you a link to choose a new password'
+                : 'Sign in to continue'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {choosingPassword && session ? (
+            <form onSubmit={handleSetPassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPasswordValue(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={working}>
+                {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <KeyRound className="mr-2 h-4 w-4" />}
+                Save Password
+              </Button>
+            </form>
+          ) : mode === 'forgot' ? (
+            <form onSubmit={handleForgot} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reset-email">Email</Label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={working}>
+                {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+                Send Reset Link
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => setMode('signIn')}>
+                Back to sign in
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSignIn} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPasswordValue(e.target.value)}
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={working}>
+                {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogIn className="mr-2 h-4 w-4" />}
+                Sign In
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => setMode('forgot')}>
+                Forgot password?
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
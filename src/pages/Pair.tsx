@@ -0,0 +1,86 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, Tablet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { pairDevice } from '@/utils/deviceUtils';
+
+// Opened on a tablet from the pairing QR, or with the code typed in
+const Pair: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [code, setCode] = useState(searchParams.get('code') ?? '');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const attemptedRef = useRef(false);
+
+  const handlePair = useCallback(async (pairingCode: string) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const result = await pairDevice(pairingCode.trim());
+      if (result.success) {
+        navigate('/scan', { replace: true });
+      } else {
+        setError(result.message);
+      }
+    } finally {
+      setWorking(false);
+    }
+  }, [navigate]);
+
+  // Pair straight away when the code came from the QR
+  useEffect(() => {
+    const initialCode = searchParams.get('code');
+    if (initialCode && !attemptedRef.current) {
+      attemptedRef.current = true;
+      handlePair(initialCode);
+    }
+  }, [searchParams, handlePair]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tablet className="h-5 w-5" />
+            Pair this device
+          </CardTitle>
+          <CardDescription>
+            Enter the code shown on the admin screen to register this tablet as a kiosk.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handlePair(code);
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="pairing-code">Pairing code</Label>
+              <Input
+                id="pairing-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                className="font-mono tracking-widest"
+                autoComplete="off"
+                required
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={working || !code.trim()}>
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Pair Device
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Pair;
@@ -0,0 +1,505 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, Download, Eye, Loader2, Lock, Plus, Save, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { getDateInTimezone } from '@/utils/timezoneUtils';
+import { attendanceExportService } from '@/utils/attendanceExportUtils';
+import {
+  PAYROLL_COLUMNS,
+  PayFrequency,
+  PayPeriod,
+  PayrollColumn,
+  PayrollColumnKey,
+  PayrollTemplate,
+  PayrollTotals,
+  calculatePayPeriodTotals,
+  closePayPeriod,
+  createPayPeriod,
+  deletePayrollTemplate,
+  getPayPeriodTotals,
+  getPayPeriods,
+  getPayrollTemplates,
+  savePayrollTemplate
+} from '@/utils/payrollUtils';
+
+type TemplateForm = Omit<PayrollTemplate, 'id'> & { id?: string };
+
+const EMPTY_TEMPLATE: TemplateForm = {
+  name: '',
+  payroll_system: '',
+  columns: [],
+  delimiter: ',',
+  include_header: true
+};
+
+const FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Bi-weekly',
+  monthly: 'Monthly'
+};
+
+const formatRange = (period: Pick<PayPeriod, 'start_date' | 'end_date'>) =>
+  `${format(parseISO(period.start_date), 'MMM d, yyyy')} - ${format(parseISO(period.end_date), 'MMM d, yyyy')}`;
+
+const Payroll: React.FC = () => {
+  const [periods, setPeriods] = useState<PayPeriod[]>([]);
+  const [templates, setTemplates] = useState<PayrollTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [activeTab, setActiveTab] = useState('periods');
+
+  // Periods
+  const [frequency, setFrequency] = useState<PayFrequency>('monthly');
+  const [periodDate, setPeriodDate] = useState(getDateInTimezone());
+  const [selectedPeriod, setSelectedPeriod] = useState<PayPeriod | null>(null);
+  const [totals, setTotals] = useState<PayrollTotals[]>([]);
+  const [exportTemplateId, setExportTemplateId] = useState('');
+
+  // Templates
+  const [templateForm, setTemplateForm] = useState<TemplateForm>(EMPTY_TEMPLATE);
+
+  const { toast } = useToast();
+
+  const loadData = useCallback(async () => {
+    try {
+      const [periodData, templateData] = await Promise.all([getPayPeriods(), getPayrollTemplates()]);
+      setPeriods(periodData);
+      setTemplates(templateData);
+      setExportTemplateId(current => current || templateData[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading payroll data:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load payroll data',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const notify = (result: { success: boolean; message: string }) => {
+    toast({
+      title: result.success ? 'Success' : 'Error',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive',
+    });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setWorking(true);
+    try {
+      await action();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCreatePeriod = () => run(async () => {
+    const result = await createPayPeriod(frequency, periodDate);
+    notify(result);
+    if (result.success) await loadData();
+  });
+
+  // Open periods show a live preview; closed periods show the stored totals
+  const handleViewTotals = (period: PayPeriod) => run(async () => {
+    try {
+      setSelectedPeriod(period);
+      setTotals(period.status === 'closed'
+        ? await getPayPeriodTotals(period.id)
+        : await calculatePayPeriodTotals(period));
+    } catch (error) {
+      notify({ success: false, message: error instanceof Error ? error.message : 'Failed to load totals' });
+    }
+  });
+
+  const handleClosePeriod = (period: PayPeriod) => run(async () => {
+    const result = await closePayPeriod(period);
+    notify(result);
+    if (result.success) {
+      await loadData();
+      setSelectedPeriod({ ...period, status: 'closed' });
+      setTotals(await getPayPeriodTotals(period.id));
+    }
+  });
+
+  const handleExport = () => {
+    const template = templates.find(item => item.id === exportTemplateId);
+    if (!selectedPeriod || !template) return;
+    attendanceExportService.exportPayroll(totals, template, selectedPeriod);
+  };
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(item => item.id === id);
+    setTemplateForm(template ? { ...template, columns: [...template.columns] } : EMPTY_TEMPLATE);
+  };
+
+  const setColumns = (columns: PayrollColumn[]) =>
+    setTemplateForm(current => ({ ...current, columns }));
+
+  const toggleColumn = (key: PayrollColumnKey, checked: boolean) =>
+    setColumns(checked
+      ? [...templateForm.columns, { key, header: PAYROLL_COLUMNS[key] }]
+      : templateForm.columns.filter(column => column.key !== key));
+
+  const renameColumn = (key: PayrollColumnKey, header: string) =>
+    setColumns(templateForm.columns.map(column => (column.key === key ? { ...column, header } : column)));
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...templateForm.columns];
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    setColumns(columns);
+  };
+
+  const handleSaveTemplate = () => run(async () => {
+    const result = await savePayrollTemplate(templateForm);
+    notify(result);
+    if (result.success) await loadData();
+  });
+
+  const handleDeleteTemplate = () => run(async () => {
+    if (!templateForm.id) return;
+    const result = await deletePayrollTemplate(templateForm.id);
+    notify(result);
+    if (result.success) {
+      setTemplateForm(EMPTY_TEMPLATE);
+      await loadData();
+    }
+  });
+
+  const unselectedColumns = (Object.keys(PAYROLL_COLUMNS) as PayrollColumnKey[])
+    .filter(key => !templateForm.columns.some(column => column.key === key));
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center gap-4">
+        <Link to="/">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold">Payroll</h1>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="periods">Pay Periods</TabsTrigger>
+          <TabsTrigger value="templates">Export Templates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="periods" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>New Pay Period</CardTitle>
+              <CardDescription>The period covering the chosen date is created</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="pay-frequency">Frequency</Label>
+                <select
+                  id="pay-frequency"
+                  className="w-full border rounded-md p-2"
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as PayFrequency)}
+                >
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pay-date">Date in period</Label>
+                <Input id="pay-date" type="date" value={periodDate} onChange={(e) => setPeriodDate(e.target.value)} />
+              </div>
+              <Button onClick={handleCreatePeriod} disabled={working || !periodDate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Period
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Pay Periods</CardTitle>
+              <CardDescription>
+                Closing a period stores its totals and locks its attendance against further changes
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {periods.length === 0 ? (
+                <p className="text-sm text-gray-500">No pay periods yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Frequency</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {periods.map(period => (
+                      <TableRow key={period.id}>
+                        <TableCell>{formatRange(period)}</TableCell>
+                        <TableCell>{FREQUENCY_LABELS[period.frequency]}</TableCell>
+                        <TableCell>
+                          {period.status === 'closed' ? (
+                            <div>
+                              <Badge>
+                                <Lock className="h-3 w-3 mr-1" />
+                                Closed
+                              </Badge>
+                              <p className="text-xs text-gray-500 mt-1">
+                                by {period.closed_by_name || '-'}
+                                {period.closed_at && ` on ${format(new Date(period.closed_at), 'MMM d, yyyy')}`}
+                              </p>
+                            </div>
+                          ) : (
+                            <Badge variant="secondary">Open</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => handleViewTotals(period)} disabled={working}>
+                            <Eye className="h-4 w-4 mr-1" />
+                            {period.status === 'closed' ? 'Totals' : 'Preview'}
+                          </Button>
+                          {period.status === 'open' && (
+                            <Button size="sm" onClick={() => handleClosePeriod(period)} disabled={working}>
+                              <Lock className="h-4 w-4 mr-1" />
+                              Close &amp; Lock
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedPeriod && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  {selectedPeriod.status === 'closed' ? 'Totals' : 'Preview'}: {formatRange(selectedPeriod)}
+                </CardTitle>
+                <CardDescription>
+                  {selectedPeriod.status === 'closed'
+                    ? 'Stored when the period was closed'
+                    : 'Calculated from current attendance; the period is still open'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {selectedPeriod.status === 'closed' && (
+                  <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+                    <div className="space-y-2 sm:w-64">
+                      <Label htmlFor="pay-template">Export template</Label>
+                      <select
+                        id="pay-template"
+                        className="w-full border rounded-md p-2"
+                        value={exportTemplateId}
+                        onChange={(e) => setExportTemplateId(e.target.value)}
+                      >
+                        {templates.map(template => (
+                          <option key={template.id} value={template.id}>
+                            {template.name}{template.payroll_system ? ` (${template.payroll_system})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Button onClick={handleExport} disabled={!exportTemplateId || totals.length === 0}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </div>
+                )}
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead>Days</TableHead>
+                        <TableHead>Regular</TableHead>
+                        <TableHead>OT1</TableHead>
+                        <TableHead>OT2</TableHead>
+                        <TableHead>Late (min)</TableHead>
+                        <TableHead>Unpaid Break (min)</TableHead>
+                        <TableHead>Paid Leave</TableHead>
+                        <TableHead>Unpaid Leave</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {totals.map(row => (
+                        <TableRow key={row.employee_id}>
+                          <TableCell>
+                            <div className="font-medium">{row.employee_name}</div>
+                            <div className="text-xs text-gray-500">{row.department || 'Unassigned'}</div>
+                          </TableCell>
+                          <TableCell>{row.days_worked}</TableCell>
+                          <TableCell>{row.regular_hours.toFixed(2)}h</TableCell>
+                          <TableCell>{row.ot1_hours.toFixed(2)}h</TableCell>
+                          <TableCell>{row.ot2_hours.toFixed(2)}h</TableCell>
+                          <TableCell>{row.late_minutes}</TableCell>
+                          <TableCell>{row.unpaid_break_minutes}</TableCell>
+                          <TableCell>{row.paid_leave_days}</TableCell>
+                          <TableCell>{row.unpaid_leave_days}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="templates" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Export Templates</CardTitle>
+              <CardDescription>Column layouts for importing period totals into a payroll system</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-select">Template</Label>
+                  <select
+                    id="template-select"
+                    className="w-full border rounded-md p-2"
+                    value={templateForm.id || ''}
+                    onChange={(e) => selectTemplate(e.target.value)}
+                  >
+                    <option value="">New template</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={templateForm.name}
+                    onChange={(e) => setTemplateForm(current => ({ ...current, name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-system">Payroll system</Label>
+                  <Input
+                    id="template-system"
+                    value={templateForm.payroll_system || ''}
+                    onChange={(e) => setTemplateForm(current => ({ ...current, payroll_system: e.target.value }))}
+                    placeholder="e.g. QuickBooks"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-delimiter">Delimiter</Label>
+                  <select
+                    id="template-delimiter"
+                    className="w-full border rounded-md p-2"
+                    value={templateForm.delimiter}
+                    onChange={(e) => setTemplateForm(current => ({
+                      ...current,
+                      delimiter: e.target.value as PayrollTemplate['delimiter']
+                    }))}
+                  >
+                    <option value=",">Comma</option>
+                    <option value=";">Semicolon</option>
+                    <option value={'\t'}>Tab</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="template-header"
+                  checked={templateForm.include_header}
+                  onCheckedChange={(checked) => setTemplateForm(current => ({ ...current, include_header: checked === true }))}
+                />
+                <Label htmlFor="template-header">Include header row</Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Columns, in export order</Label>
+                {templateForm.columns.length === 0 && (
+                  <p className="text-sm text-gray-500">No columns selected</p>
+                )}
+                {templateForm.columns.map((column, index) => (
+                  <div key={column.key} className="flex items-center gap-2">
+                    <Checkbox checked onCheckedChange={() => toggleColumn(column.key, false)} />
+                    <span className="w-48 text-sm text-gray-600">{PAYROLL_COLUMNS[column.key]}</span>
+                    <Input
+                      value={column.header}
+                      onChange={(e) => renameColumn(column.key, e.target.value)}
+                      className="max-w-xs"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveColumn(index, 1)}
+                      disabled={index === templateForm.columns.length - 1}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {unselectedColumns.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {unselectedColumns.map(key => (
+                      <Button key={key} size="sm" variant="outline" onClick={() => toggleColumn(key, true)}>
+                        <Plus className="h-3 w-3 mr-1" />
+                        {PAYROLL_COLUMNS[key]}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleSaveTemplate} disabled={working || !templateForm.name.trim()}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Template
+                </Button>
+                {templateForm.id && (
+                  <Button variant="outline" onClick={handleDeleteTemplate} disabled={working}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default Payroll;
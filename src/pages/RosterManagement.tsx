@@ -450,6 +450,7 @@ interface FormValues {
   endTime?: string;
   customStartTime?: string;
   customEndTime?: string;
+  maxSessions: number;
 }
 
 interface CountdownInfo {
@@ -521,6 +522,7 @@ const formSchema = z.object({
   endTime: z.string().optional(),
   customStartTime: z.string().optional(),
   customEndTime: z.string().optional(),
+  maxSessions: z.coerce.number().int().min(1, { message: "At least one session is required" }).max(6, { message: "At most 6 sessions per day" }),
 }).refine((data) => {
   // Validate that end date is after start date
   return data.endDate >= data.startDate;
@@ -694,7 +696,8 @@ export default function RosterManagement() {
     startDate: new Date(),
     endDate: new Date(),
     rosterType: 'working',
-    shift: 'morning'
+    shift: 'morning',
+    maxSessions: 2
   });
   const [rosters, setRosters] = useState<Roster[]>([]);
   const [loading, setLoading] = useState(true);
@@ -730,7 +733,8 @@ export default function RosterManagement() {
       startTime: '',
       endTime: '',
       customStartTime: '',
-      customEndTime: ''
+      customEndTime: '',
+      maxSessions: 2
     }
   });
 
@@ -823,6 +827,7 @@ export default function RosterManagement() {
           time_slot: timeSlot
         }],
         status: 'active',
+        max_sessions: data.maxSessions,
         notes: `${data.rosterType.toUpperCase()} Roster - Created on ${format(new Date(), 'PPP')}`,
       };
 
@@ -911,7 +916,8 @@ export default function RosterManagement() {
       startTime: '',
       endTime: '',
       customStartTime: '',
-      customEndTime: ''
+      customEndTime: '',
+      maxSessions: 2
     });
   };
 
@@ -1504,6 +1510,23 @@ export default function RosterManagement() {
                         )}
                       />
                       
+                      <FormField
+                        control={form.control}
+                        name="maxSessions"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Sessions per Day</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={1} max={6} {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Check-in/check-out pairs allowed each day (1-6)
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                           <div className="space-y-4">
                             <div className="flex items-center justify-between">
                               <FormLabel className="text-base">Custom Time</FormLabel>
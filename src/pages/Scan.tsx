@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MapPin, QrCode } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import QRScanner from '@/components/QRScanner';
+import { useAuth } from '@/hooks/useAuth';
+import { offlineScanQueue } from '@/utils/offlineQueueUtils';
+import { HEARTBEAT_INTERVAL_MS, forgetDevice, getStoredDevice, sendHeartbeat } from '@/utils/deviceUtils';
+import { getCurrentLocation } from '@/utils/selfCheckInUtils';
+
+// Check-in screen for kiosk devices, which cannot open the rest of the app
+const Scan: React.FC = () => {
+  const { role, signOut } = useAuth();
+  const [device] = useState(getStoredDevice);
+
+  // Paired tablets report in so admins can see they are alive
+  useEffect(() => {
+    if (role !== 'kiosk' || !device) return;
+
+    const beat = async () => {
+      const location = await getCurrentLocation(HEARTBEAT_INTERVAL_MS).catch(() => undefined);
+      const active = await sendHeartbeat({
+        online: navigator.onLine,
+        queued_scans: offlineScanQueue.getState().pendingCount,
+        user_agent: navigator.userAgent,
+        location
+      });
+      if (!active) {
+        forgetDevice();
+        await signOut();
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [role, device, signOut]);
+
+  return (
+    <div className="container mx-auto p-4 max-w-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold">Scan Your Badge</h1>
+        <div className="flex items-center gap-2">
+          {device && (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4" />
+              {device.name} · {device.site}
+            </span>
+          )}
+          {/* Reception tablets can show the site code for self check-in */}
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/site-code">
+              <QrCode className="mr-1 h-4 w-4" />
+              Site code
+            </Link>
+          </Button>
+        </div>
+      </div>
+      <QRScanner />
+    </div>
+  );
+};
+
+export default Scan;
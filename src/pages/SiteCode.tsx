@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { getStoredDevice } from '@/utils/deviceUtils';
+import { Site, getSites } from '@/utils/siteUtils';
+import { SITE_CODE_ROTATION_MS, getSiteCheckInCode } from '@/utils/selfCheckInUtils';
+
+// Rotating check-in code for a reception screen. Employees scan it from the
+// check-in page; a photo of it stops working within a minute.
+const SiteCode: React.FC = () => {
+  const { role } = useAuth();
+  const [device] = useState(getStoredDevice);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [siteId, setSiteId] = useState('');
+  const [qr, setQr] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Kiosks always show their own site's code
+  const isKiosk = role === 'kiosk';
+
+  useEffect(() => {
+    if (isKiosk) return;
+    getSites()
+      .then(loaded => {
+        setSites(loaded);
+        setSiteId(current => current || loaded[0]?.id || '');
+      })
+      .catch(loadError => console.error('Error loading sites:', loadError));
+  }, [isKiosk]);
+
+  useEffect(() => {
+    if (!isKiosk && !siteId) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const code = await getSiteCheckInCode(isKiosk ? null : siteId);
+        if (cancelled) return;
+        setQr(code.qr);
+        setError(null);
+        // Fetch the next code just after this one rotates out
+        const wait = new Date(code.expiresAt).getTime() - Date.now() + 500;
+        timeout = setTimeout(refresh, Math.min(Math.max(wait, 1000), SITE_CODE_ROTATION_MS));
+      } catch (refreshError) {
+        if (cancelled) return;
+        setError(refreshError instanceof Error ? refreshError.message : 'Failed to load the site check-in code');
+        timeout = setTimeout(refresh, SITE_CODE_ROTATION_MS);
+      }
+    };
+
+    refresh();
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isKiosk, siteId]);
+
+  return (
+    <div className="container mx-auto p-4 max-w-md">
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Scan to Check In</CardTitle>
+          <CardDescription>
+            Open Check In on your phone and scan this code{device ? ` at ${device.site}` : ''}. It changes every 30 seconds.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {!isKiosk && (
+            <select
+              className="w-full border rounded-md p-2"
+              value={siteId}
+              onChange={(e) => setSiteId(e.target.value)}
+            >
+              {sites.map(site => (
+                <option key={site.id} value={site.id}>{site.name}</option>
+              ))}
+            </select>
+          )}
+          {error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : qr ? (
+            <QRCodeSVG value={qr} size={280} />
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SiteCode;
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../integrations/supabase/client';
-import { getAdminContactInfo, saveAdminContactInfo, recordAttendanceCheckIn, determineNextAttendanceAction, singleScanAttendance } from '../utils/attendanceUtils';
+import { AttendanceError, getAdminContactInfo, saveAdminContactInfo, recordAttendanceCheckIn, determineNextAttendanceAction, singleScanAttendance } from '../utils/attendanceUtils';
+import { parseQRCodeData, verifyEmployeeQR } from '../utils/qrCodeUtils';
+import { isConnectivityError, offlineScanQueue } from '../utils/offlineQueueUtils';
+import { getDateInTimezone } from '../utils/timezoneUtils';
 import Swal from 'sweetalert2';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
@@ -111,8 +114,8 @@ export default function Attendance() {
   const [selectedRecords, setSelectedRecords] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [department, setDepartment] = useState('All Departments');
-  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
-  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [startDate, setStartDate] = useState(getDateInTimezone());
+  const [endDate, setEndDate] = useState(getDateInTimezone());
 
   // Enhanced filtering with more options
   const [advancedFilters, setAdvancedFilters] = useState({
@@ -267,40 +270,53 @@ export default function Attendance() {
 
   const handleScan = async (qrData: string) => {
     try {
-      const parsedData = JSON.parse(qrData);
-      
-      if (!parsedData.id) {
-        // Try legacy format
-        const legacyMatch = qrData.match(/^EMP:([^:]+):(.+)$/);
-        if (!legacyMatch) {
-          triggerErrorAnimation();
-          toast({
-            variant: "destructive",
-            title: "Invalid QR Code",
-            description: "Please scan a valid employee QR code"
-          });
-          return;
-        }
-        parsedData.id = legacyMatch[1];
+      // Keep the scan with its device timestamp when the kiosk is offline
+      const parsed = parseQRCodeData(qrData);
+      const queueOfflineScan = async (employeeId: string) => {
+        await offlineScanQueue.enqueue(qrData, employeeId);
+        toast({
+          title: "Scan saved offline",
+          description: "It will be recorded with its original time once the connection is back"
+        });
+      };
+      const verification = navigator.onLine ? await verifyEmployeeQR(qrData) : null;
+      if ((!verification || verification.reason === 'unavailable') && parsed.type === 'employee' && parsed.id) {
+        await queueOfflineScan(parsed.id);
+        return;
+      }
+
+      if (!verification || !verification.valid || !verification.employeeId) {
+        triggerErrorAnimation();
+        toast({
+          variant: "destructive",
+          title: "Invalid QR Code",
+          description: verification?.message || 'Invalid QR code format'
+        });
+        return;
       }
 
       setIsLoading(true);
-      const result = await markAttendance(parsedData.id);
-      
-      if (result.success) {
+      try {
+        // The state machine decides the punch and enforces cooldown and ordering
+        const result = await singleScanAttendance(verification.employeeId, { badge: qrData });
+
         // Show success animation with action type
         triggerSuccessAnimation(result.action);
-        
+
         toast({
           title: "Success",
           description: result.message
         });
-      } else {
+      } catch (error) {
+        if (isConnectivityError(error)) {
+          await queueOfflineScan(verification.employeeId);
+          return;
+        }
         triggerErrorAnimation();
         toast({
           variant: "destructive",
           title: "Error",
-          description: result.message
+          description: error instanceof AttendanceError ? error.message : "Failed to record attendance"
         });
       }
     } catch (error) {
@@ -606,7 +622,7 @@ export default function Attendance() {
     setDepartment('All Departments');
     
     // Reset date to today
-    const today = new Date().toISOString().split('T')[0];
+    const today = getDateInTimezone();
     setStartDate(today);
     setEndDate(today);
     
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
-import { PlusCircle, QrCode, Users, FileText, Clock, Calendar, BarChartHorizontal, Bot, Settings } from 'lucide-react';
+import { PlusCircle, QrCode, Users, FileText, Clock, Calendar, BarChartHorizontal, Bot, Settings, CalendarDays, Wallet } from 'lucide-react';
 import { Employee } from '@/types';
 import { getEmployees, deleteEmployee } from '@/utils/employeeUtils';
 import EmployeeTable from '@/components/EmployeeTable';
@@ -16,6 +16,11 @@ import QRScanDialog from '@/components/QRScanDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import VoiceSettings from '@/components/VoiceSettings';
+import { UserRoleSettings } from '@/components/UserRoleSettings';
+import { KioskDevices } from '@/components/KioskDevices';
+import { SiteSettings } from '@/components/SiteSettings';
+import { FlaggedCheckIns } from '@/components/FlaggedCheckIns';
+import { useAuth } from '@/hooks/useAuth';
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
@@ -25,6 +30,8 @@ const Index = () => {
   const [loading, setLoading] = useState(true);
   const [showQRScanDialog, setShowQRScanDialog] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageEmployees = can('employees.manage');
   
   useEffect(() => {
     const fetchEmployees = async () => {
@@ -85,6 +92,14 @@ const Index = () => {
   };
   
   const handleDeleteEmployee = async (id: string) => {
+    if (!canManageEmployees) {
+      toast({
+        title: 'Not allowed',
+        description: 'Only HR and super admins can delete employees',
+        variant: 'destructive',
+      });
+      return;
+    }
     try {
       const success = await deleteEmployee(id);
       if (success) {
@@ -182,6 +197,42 @@ const Index = () => {
             </CardContent>
           </Card>
         </Link>
+        <Link to="/leave" className="block">
+          <Card className="hover:shadow-lg transition-shadow">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="h-5 w-5 text-orange-600" />
+                Leave Management
+              </CardTitle>
+              <CardDescription>
+                Request and approve employee leave
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Track leave balances and see who is away on the calendar
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+        <Link to="/payroll" className="block">
+          <Card className="hover:shadow-lg transition-shadow">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5 text-emerald-600" />
+                Payroll
+              </CardTitle>
+              <CardDescription>
+                Close and lock pay periods
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Export hours, overtime and leave totals for your payroll system
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
       </div>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
@@ -229,10 +280,12 @@ const Index = () => {
           <div className="grid gap-4">
             <div className="flex justify-between items-center">
               <h2 className="text-2xl font-bold">Employee Management</h2>
-              <Button onClick={handleAddEmployee}>
-                <PlusCircle className="mr-2 h-4 w-4" />
-                Add Employee
-              </Button>
+              {canManageEmployees && (
+                <Button onClick={handleAddEmployee}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add Employee
+                </Button>
+              )}
             </div>
           {showEmployeeForm ? (
             <EmployeeForm 
@@ -255,6 +308,7 @@ const Index = () => {
             <div className="flex justify-between items-center">
               <h2 className="text-2xl font-bold">Attendance Records</h2>
             </div>
+          <FlaggedCheckIns />
           <AttendanceTable />
           </div>
         </TabsContent>
@@ -279,6 +333,21 @@ const Index = () => {
                   </p>
                 </CardContent>
               </Card>
+              {can('settings.manage') && (
+                <div className="lg:col-span-2">
+                  <SiteSettings />
+                </div>
+              )}
+              {can('devices.manage') && (
+                <div className="lg:col-span-2">
+                  <KioskDevices />
+                </div>
+              )}
+              {can('users.manage') && (
+                <div className="lg:col-span-2">
+                  <UserRoleSettings />
+                </div>
+              )}
             </div>
           </div>
         </TabsContent>
@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { Roster, DailyShift } from '@/integrations/supabase/types';
+import { getDateInTimezone } from '@/utils/timezoneUtils';
 
 export class RosterService {
   private static async checkTableExists(): Promise<boolean> {
@@ -58,8 +59,7 @@ export class RosterService {
       // Only apply status filter if it's provided
     if (filters?.status) {
         // For now, we'll determine status based on dates if the column doesn't exist
-        const now = new Date();
-        const today = now.toISOString().split('T')[0];
+        const today = getDateInTimezone();
 
         switch (filters.status.toLowerCase()) {
           case 'active':
@@ -100,8 +100,7 @@ export class RosterService {
       }
 
       // Calculate status based on dates if the status column doesn't exist
-      const now = new Date();
-      const today = now.toISOString().split('T')[0];
+      const today = getDateInTimezone();
 
       // Transform the data to match the Roster interface
       return data.map(roster => {
@@ -238,6 +237,7 @@ export class RosterService {
         start_date: roster.start_date,
         end_date: roster.end_date,
         shift_pattern: shiftPattern,
+        max_sessions: roster.max_sessions ?? 2,
         notes: roster.notes,
           is_active: true,
           status: 'active',
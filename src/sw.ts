@@ -1,4 +1,5 @@
 import { precacheAndRoute } from 'workbox-precaching';
+import { REPLAY_SCAN_QUEUE_MESSAGE, SCAN_QUEUE_SYNC_TAG } from './utils/scanQueueSync';
 
 declare let self: ServiceWorkerGlobalScope;
 
@@ -42,4 +43,28 @@ self.addEventListener('notificationclick', (event) => {
 // Ensure the service worker takes control immediately
 self.addEventListener('activate', (event) => {
   event.waitUntil(clients.claim());
-}); 
\ No newline at end of file
+});
+
+// Replay queued offline scans when connectivity returns. The queue needs the
+// signed-in session of the kiosk page, so open windows do the actual work.
+// Background sync is not in the TypeScript DOM types, hence the local shapes.
+const syncScope = self as unknown as EventTarget & {
+  clients: {
+    matchAll: (options: { type: 'window'; includeUncontrolled: boolean }) => Promise<{ postMessage: (message: unknown) => void }[]>;
+  };
+};
+
+syncScope.addEventListener('sync', (event) => {
+  const syncEvent = event as Event & { tag: string; waitUntil: (promise: Promise<unknown>) => void };
+  if (syncEvent.tag !== SCAN_QUEUE_SYNC_TAG) return;
+
+  syncEvent.waitUntil(
+    syncScope.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      if (windowClients.length === 0) {
+        // Let the browser retry the sync once a kiosk page is open again
+        throw new Error('No open window to replay the scan queue');
+      }
+      windowClients.forEach((client) => client.postMessage({ type: REPLAY_SCAN_QUEUE_MESSAGE }));
+    })
+  );
+});
@@ -0,0 +1,53 @@
+import { vi } from 'vitest';
+import type { Mock } from 'vitest';
+
+/**
+ * Stand-in for the Supabase client in unit tests. Mock the client module with
+ *
+ *   vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+ *
+ * then import `supabase` from the client as usual and answer table reads
+ * with mockQuery or mockTables.
+ */
+
+interface QueryResult {
+  data?: unknown;
+  error: unknown;
+}
+
+const CHAINED_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'is', 'not', 'or', 'filter', 'match',
+  'order', 'limit', 'range'
+] as const;
+
+export type QueryMock = Record<(typeof CHAINED_METHODS)[number] | 'single' | 'maybeSingle', Mock>
+  & PromiseLike<QueryResult>;
+
+export const supabase = {
+  from: vi.fn(),
+  rpc: vi.fn(),
+  functions: { invoke: vi.fn() },
+  auth: { signInWithPassword: vi.fn(), signOut: vi.fn() },
+};
+
+/**
+ * A query builder that resolves with `result` however it is chained, whether
+ * awaited directly or through single() and maybeSingle(). Every step is a
+ * spy, so a test can check what was written through e.g. `query.insert`.
+ */
+export const mockQuery = (result: QueryResult = { data: null, error: null }): QueryMock => {
+  const query = {} as QueryMock;
+  query.then = (onFulfilled, onRejected) => Promise.resolve(result).then(onFulfilled, onRejected);
+  CHAINED_METHODS.forEach(method => {
+    query[method] = vi.fn().mockReturnValue(query);
+  });
+  query.single = vi.fn().mockResolvedValue(result);
+  query.maybeSingle = vi.fn().mockResolvedValue(result);
+  return query;
+};
+
+// Answers supabase.from(table) with the query given for that table
+export const mockTables = (tables: Record<string, QueryMock>) => {
+  supabase.from.mockImplementation((table: string) => tables[table] ?? mockQuery());
+};
@@ -6,6 +6,7 @@ export interface Employee {
   email: string | null;
   department: string;
   department_id?: string;
+  home_site_id?: string | null;
   position: string | null;
   phone: string | null;
   join_date: string;
@@ -48,6 +49,7 @@ export interface Attendance {
   first_check_out_time: string | null;
   second_check_in_time: string | null;
   second_check_out_time: string | null;
+  sessions?: AttendanceSession[];
   status: AttendanceStatus;
   minutes_late: number;
   early_departure_minutes: number;
@@ -56,6 +58,12 @@ export interface Attendance {
   actual_hours: number;
   working_duration: string;
   action: AttendanceAction;
+  // Overtime buckets in minutes, set when the roster has an overtime policy
+  regular_minutes?: number | null;
+  ot1_minutes?: number | null;
+  ot2_minutes?: number | null;
+  ot2_multiplier?: number | null;
+  unapproved_overtime_minutes?: number;
   roster: {
     id: string;
     name: string;
@@ -81,15 +89,36 @@ export interface ExtendedAttendance extends Attendance {
   timestamp?: string;
 }
 
+// The visitor a visitor pass was issued to
+export interface GatePassVisitor {
+  id: string;
+  full_name: string;
+  visitor_type: 'visitor' | 'vendor' | 'contractor';
+  company: string | null;
+  id_document_number: string | null;
+  vehicle_plate: string | null;
+  purpose: string | null;
+  photo: string | null;
+  host?: { first_name: string; last_name: string } | null;
+}
+
+// Weekly window in which a recurring gate pass allows exits
+export interface GatePassSchedule {
+  days: number[]; // 0 = Sunday, as Date.getDay()
+  start: string;  // HH:MM in the organization timezone
+  end: string;
+}
+
 export interface GatePass {
   id: string;
-  employeeId: string;
+  // Null on visitor passes
+  employeeId: string | null;
   employeeName: string;
   passCode: string;
-  validity: 'single' | 'day' | 'week' | 'month' | 'custom';
+  validity: 'single' | 'day' | 'week' | 'month' | 'custom' | 'recurring';
   type: 'entry' | 'exit' | 'both';
   reason: string;
-  status: 'active' | 'used' | 'expired' | 'revoked';
+  status: 'pending' | 'active' | 'used' | 'expired' | 'revoked' | 'rejected';
   createdAt: string;
   expiresAt: string;
   usedAt?: string | null;
@@ -103,6 +132,19 @@ export interface GatePass {
   revokedAt?: string | null;
   revokedBy?: string | null;
   revocationReason?: string | null;
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+  reviewComment?: string | null;
+  exitedAt?: string | null;
+  returnDueAt?: string | null;
+  visitorId?: string | null;
+  visitor?: GatePassVisitor | null;
+  // Signed QR payload, see signedGatePassUtils
+  qrData?: string | null;
+  // Custom and recurring passes start at validFrom; recurring ones only
+  // allow exits inside the schedule
+  validFrom?: string | null;
+  schedule?: GatePassSchedule | null;
   customValidity?: {
     hours: number;
     minutes: number;
@@ -153,7 +195,30 @@ export interface CustomPostgrestResponse<T> {
 }
 
 // Attendance-related types
-export type AttendanceAction = 'first_check_in' | 'first_check_out' | 'second_check_in' | 'second_check_out';
+// Sessions after the second are named by number, e.g. session_3_check_in
+export type AttendanceAction =
+  | 'first_check_in'
+  | 'first_check_out'
+  | 'second_check_in'
+  | 'second_check_out'
+  | `session_${number}_check_in`
+  | `session_${number}_check_out`;
+
+// Where an employee is in the day, derived from the recorded punches
+export type AttendanceState =
+  | 'not_checked_in'
+  | 'first_checked_in'
+  | 'first_checked_out'
+  | 'second_checked_in'
+  | 'second_checked_out'
+  | `session_${number}_checked_in`
+  | `session_${number}_checked_out`;
+
+// One check-in/check-out pair; a day holds these in punch order
+export interface AttendanceSession {
+  check_in: string;
+  check_out: string | null;
+}
 
 // Attendance Summary Interface
 export interface AttendanceSummary {
@@ -161,6 +226,8 @@ export interface AttendanceSummary {
   presentCount: number;
   lateCount: number;
   absentCount: number;
+  onLeaveCount: number; // Approved leave, not counted as absent
+  offDutyCount: number; // Holiday or rostered off day, not counted as absent
   checkedOutCount: number;
   onTime: number;
   stillWorking: number;
@@ -170,6 +237,7 @@ export interface AttendanceSummary {
   onTimeRate: string;
   lateRate: string;
   absentRate: string;
+  onLeaveRate: string;
   detailed: {
     onTime: number;
     lateArrivals: number;
@@ -187,6 +255,7 @@ export interface AttendanceSummary {
     lateButPresent: number;
     checkedOut: number;
     onTimeArrivals: number;
+    onLeave: number;
     absent: number;
   };
 }
@@ -202,6 +271,7 @@ export interface Roster {
   break_duration: number;
   grace_period: number;
   early_departure_threshold: number;
+  max_sessions?: number;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -231,7 +301,7 @@ export interface RosterAttendance extends Attendance {
 }
 
 export interface RosterMetrics {
-  total_days: number;
+  total_days: number; // Working days only: holidays and rostered off days are excluded
   days_present: number;
   days_absent: number;
   total_late_minutes: number;
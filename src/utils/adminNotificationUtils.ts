@@ -0,0 +1,288 @@
+// Admin Notification Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { WHATSAPP_TEMPLATES } from './messagingUtils';
+import { Notification, NotificationChannel } from '../../supabase/functions/_shared/notificationFormat';
+
+/**
+ * Admin notifications are built here as plain sections and handed to the
+ * notify_admins edge function, which sends them to every admin on the
+ * channels enabled in their notification_preferences and formats them per
+ * channel there (WhatsApp template, Telegram MarkdownV2, 160-character SMS).
+ */
+
+export type { NotificationChannel };
+
+// Handed to notify_admins as is, so it is the edge function's own type
+export type AdminNotification = Notification;
+
+export interface NotificationResult {
+  channel: NotificationChannel;
+  recipient: string;
+  ok: boolean;
+  error?: string;
+}
+
+const BOT_FOOTER = 'This is an automated message from Dutch Attendance BOT.';
+
+export const buildDailySummaryNotification = (
+  dateLabel: string,
+  summary: {
+    totalEmployees: number;
+    presentCount: number;
+    lateCount: number;
+    onLeaveCount?: number;
+    absentCount: number;
+    checkedOutCount?: number;
+    totalPresentRate?: string | number;
+    lateRate?: string | number;
+    absentRate?: string | number;
+  }
+): AdminNotification => {
+  const attendanceRate = `${summary.totalPresentRate ?? '0.0'}%`;
+  return {
+    title: 'Dutch Trails Report',
+    subtitle: `📅 ${dateLabel}`,
+    sections: [
+      {
+        heading: '📊 ATTENDANCE SUMMARY',
+        lines: [
+          `Total Staff: ${summary.totalEmployees}`,
+          `Present: ${summary.presentCount} ✅`,
+          `Late Arrivals: ${summary.lateCount} ⏰`,
+          `On Leave: ${summary.onLeaveCount || 0} 🌴`,
+          `Absent: ${summary.absentCount} ❌`,
+          `Checked Out: ${summary.checkedOutCount || 0} 🏃`
+        ]
+      },
+      {
+        heading: '📈 PERFORMANCE METRICS',
+        lines: [
+          `Attendance Rate: ${attendanceRate}`,
+          `Punctuality Rate: ${(100 - Number(summary.lateRate || 0)).toFixed(1)}%`,
+          `Absence Rate: ${summary.absentRate ?? '0.0'}%`
+        ]
+      }
+    ],
+    footer: BOT_FOOTER,
+    template: {
+      name: WHATSAPP_TEMPLATES.dailySummary,
+      parameters: [
+        dateLabel,
+        String(summary.totalEmployees),
+        String(summary.presentCount),
+        String(summary.lateCount),
+        String(summary.onLeaveCount || 0),
+        String(summary.absentCount),
+        attendanceRate
+      ]
+    }
+  };
+};
+
+export const buildAbsenteesNotification = (
+  dateLabel: string,
+  absentByDepartment: Record<string, string[]>,
+  onLeave: string[] = []
+): AdminNotification => {
+  const names = Object.values(absentByDepartment).flat();
+  const sections = Object.entries(absentByDepartment).map(([department, employees]) => ({
+    heading: `👥 ${department} (${employees.length})`,
+    lines: employees
+  }));
+  if (onLeave.length > 0) {
+    sections.push({ heading: `🌴 On Leave (${onLeave.length})`, lines: onLeave });
+  }
+
+  return {
+    title: 'Absent Employees Report',
+    subtitle: `📅 ${dateLabel}`,
+    sections: [
+      { heading: '📊 Summary', lines: [`Total Absent: ${names.length}`, `On Leave: ${onLeave.length}`] },
+      ...sections
+    ],
+    footer: BOT_FOOTER,
+    template: {
+      name: WHATSAPP_TEMPLATES.absentees,
+      parameters: [dateLabel, String(names.length), names.join(', ') || 'None']
+    }
+  };
+};
+
+export const buildGatePassNotification = (
+  pass: { employeeName: string; reason: string; expectedReturnTime?: string | null },
+  event: 'exit' | 'return',
+  time: string
+): AdminNotification => {
+  const eventLabel = event === 'exit' ? 'left the premises' : 'returned';
+  return {
+    title: event === 'exit' ? '🚪 Gate Pass Exit' : '↩️ Gate Pass Return',
+    sections: [{
+      heading: `${pass.employeeName} ${eventLabel} at ${time}`,
+      lines: [
+        `Reason: ${pass.reason}`,
+        ...(event === 'exit' && pass.expectedReturnTime ? [`Expected back: ${pass.expectedReturnTime}`] : [])
+      ]
+    }],
+    footer: BOT_FOOTER,
+    template: {
+      name: WHATSAPP_TEMPLATES.gatePassAlert,
+      parameters: [pass.employeeName, eventLabel, time, pass.reason]
+    }
+  };
+};
+
+export const buildGatePassApprovalNotification = (pass: {
+  employeeName: string;
+  reason: string;
+  type: string;
+  expiresAt: string;
+  expectedExitTime?: string | null;
+  expectedReturnTime?: string | null;
+}): AdminNotification => ({
+  title: '📝 Gate Pass Approval Needed',
+  sections: [{
+    heading: `${pass.employeeName} has requested a ${pass.type} gate pass`,
+    lines: [
+      `Reason: ${pass.reason}`,
+      ...(pass.expectedExitTime ? [`Expected exit: ${pass.expectedExitTime}`] : []),
+      ...(pass.expectedReturnTime ? [`Expected back: ${pass.expectedReturnTime}`] : []),
+      `Valid until: ${new Date(pass.expiresAt).toLocaleString()}`,
+      'Approve or reject it under Approvals on the Gate Pass page.'
+    ]
+  }],
+  footer: BOT_FOOTER,
+  // Only sent by email, so no WhatsApp template is involved
+  template: { name: 'gate_pass_approval', parameters: [] }
+});
+
+export const buildVisitorArrivalNotification = (visitor: {
+  fullName: string;
+  company?: string | null;
+  purpose?: string | null;
+  vehiclePlate?: string | null;
+  expiresAt: string;
+}): AdminNotification => ({
+  title: '👋 Your Visitor Has Arrived',
+  sections: [{
+    heading: `${visitor.fullName}${visitor.company ? ` (${visitor.company})` : ''} is at the gate`,
+    lines: [
+      ...(visitor.purpose ? [`Purpose: ${visitor.purpose}`] : []),
+      ...(visitor.vehiclePlate ? [`Vehicle: ${visitor.vehiclePlate}`] : []),
+      `Pass valid until: ${new Date(visitor.expiresAt).toLocaleString()}`
+    ]
+  }],
+  footer: BOT_FOOTER,
+  // Sent by email and SMS only, so no WhatsApp template is involved
+  template: { name: 'visitor_arrival', parameters: [] }
+});
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64 encoded file contents
+  content: string;
+  contentType?: string;
+}
+
+const summarizeResults = (results: NotificationResult[], fallback: string) => {
+  const sent = results.filter(result => result.ok).length;
+  if (results.length === 0) {
+    return { success: false, message: 'No admin has a notification channel enabled', results };
+  }
+  if (sent === 0) {
+    return { success: false, message: results[0].error || fallback, results };
+  }
+  return {
+    success: true,
+    message: sent === results.length
+      ? `Sent to ${sent} admin contact${sent > 1 ? 's' : ''}`
+      : `Sent to ${sent} of ${results.length} admin contacts`,
+    results
+  };
+};
+
+export const notifyAdmins = async (
+  notification: AdminNotification
+): Promise<{ success: boolean; message: string; results: NotificationResult[] }> => {
+  const { data, error } = await supabase.functions.invoke('notify_admins', { body: { notification } });
+
+  if (error) {
+    console.error('Error notifying admins:', error);
+    return { success: false, message: data?.error || 'Failed to notify admins', results: [] };
+  }
+
+  return summarizeResults(data?.results || [], 'Failed to notify admins');
+};
+
+export const buildAttendanceReportNotification = (
+  periodLabel: string,
+  departmentLabel: string,
+  recordCount: number
+): AdminNotification => ({
+  title: 'Dutch Trails Attendance Report',
+  subtitle: `📅 ${periodLabel}`,
+  sections: [{
+    heading: departmentLabel,
+    lines: [`${recordCount} attendance records`, 'The full report is attached as a PDF.']
+  }],
+  footer: BOT_FOOTER,
+  // Only sent by email, so no WhatsApp template is involved
+  template: { name: 'attendance_report', parameters: [] }
+});
+
+// Emails a report to every admin with email notifications enabled
+export const emailAdmins = async (
+  notification: AdminNotification,
+  attachments: EmailAttachment[] = []
+): Promise<{ success: boolean; message: string; results: NotificationResult[] }> => {
+  const { data, error } = await supabase.functions.invoke('send_email', { body: { notification, attachments } });
+
+  if (error) {
+    console.error('Error emailing admins:', error);
+    return { success: false, message: data?.error || 'Failed to email admins', results: [] };
+  }
+
+  const results: NotificationResult[] = data?.results || [];
+  if (results.length === 0) {
+    return { success: false, message: 'No admin has email notifications enabled', results };
+  }
+  return summarizeResults(results, 'Failed to email admins');
+};
+
+// Emails a gate pass request to the employee's department heads (or HR when
+// there are none) through the notify_gate_pass_approvers edge function
+export const notifyGatePassApprovers = async (
+  passId: string,
+  notification: AdminNotification
+): Promise<{ success: boolean; message: string; results: NotificationResult[] }> => {
+  const { data, error } = await supabase.functions.invoke('notify_gate_pass_approvers', { body: { passId, notification } });
+
+  if (error) {
+    console.error('Error notifying gate pass approvers:', error);
+    return { success: false, message: data?.error || 'Failed to notify approvers', results: [] };
+  }
+
+  const results: NotificationResult[] = data?.results || [];
+  if (results.length === 0) {
+    return { success: false, message: 'Nobody can approve this gate pass', results };
+  }
+  return summarizeResults(results, 'Failed to notify approvers');
+};
+
+// Tells the host employee their visitor is at the gate, by email and SMS
+export const notifyVisitorHost = async (
+  visitorId: string,
+  notification: AdminNotification
+): Promise<{ success: boolean; message: string; results: NotificationResult[] }> => {
+  const { data, error } = await supabase.functions.invoke('notify_visitor_host', { body: { visitorId, notification } });
+
+  if (error) {
+    console.error('Error notifying visitor host:', error);
+    return { success: false, message: data?.error || 'Failed to notify the host', results: [] };
+  }
+
+  const results: NotificationResult[] = data?.results || [];
+  if (results.length === 0) {
+    return { success: false, message: 'The host has no email or phone number on record', results };
+  }
+  return summarizeResults(results, 'Failed to notify the host');
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery, mockTables } from '@/test/supabaseMock';
+import {
+  applyPunchCorrection,
+  approveAttendanceCorrection,
+  getChangedFields,
+  rejectAttendanceCorrection,
+  requestAttendanceCorrection,
+  validatePunchCorrection
+} from './attendanceCorrectionUtils';
+import { recalculateOvertimeForWeek } from './overtimeUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+vi.mock('./overtimeUtils', () => ({
+  recalculateOvertimeForWeek: vi.fn(),
+}));
+
+const iso = (time: string) => new Date(`2025-07-01T${time}:00.000Z`).toISOString();
+
+const RECORD = {
+  date: '2025-07-01',
+  first_check_in_time: iso('09:20'),
+  first_check_out_time: iso('12:00'),
+  second_check_in_time: iso('13:00'),
+  second_check_out_time: null,
+};
+
+describe('punch corrections', () => {
+  it('only reports fields whose value changes', () => {
+    expect(getChangedFields(RECORD, {
+      first_check_in_time: iso('09:20'),
+      second_check_out_time: iso('17:00'),
+    })).toEqual({ second_check_out_time: iso('17:00') });
+  });
+
+  it('rebuilds the session list from the corrected columns', () => {
+    const corrected = applyPunchCorrection(RECORD, { first_check_in_time: iso('08:55') });
+
+    expect(corrected.sessions).toEqual([
+      { check_in: iso('08:55'), check_out: iso('12:00') },
+      { check_in: iso('13:00'), check_out: null },
+    ]);
+  });
+
+  it.each([
+    ['no change', { first_check_in_time: iso('09:20') }, 'does not change'],
+    ['out of order', { first_check_out_time: iso('08:00') }, 'in order'],
+    ['check-out without its check-in', { second_check_in_time: null, second_check_out_time: iso('17:00') }, 'requires a second check-in'],
+    ['dropping the first check-in', { first_check_in_time: null }, 'first check-in'],
+  ])('rejects %s', (_label, values, message) => {
+    expect(validatePunchCorrection(RECORD, values)).toContain(message);
+  });
+
+  it('accepts a valid correction', () => {
+    expect(validatePunchCorrection(RECORD, { second_check_out_time: iso('17:00') })).toBeNull();
+  });
+});
+
+describe('reviewing corrections', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('files the correction without naming the requester', async () => {
+    const corrections = mockQuery({ data: { id: 'correction-1' }, error: null });
+    mockTables({
+      attendance: mockQuery({ data: { id: 'att-1', employee_id: 'employee-1', ...RECORD }, error: null }),
+      attendance_corrections: corrections,
+    });
+
+    const result = await requestAttendanceCorrection('att-1', { second_check_out_time: iso('17:00') }, 'Forgot to scan out');
+
+    expect(result.success).toBe(true);
+    // The database records the signed-in user as the requester
+    expect(corrections.insert.mock.calls[0][0]).not.toHaveProperty('requested_by');
+  });
+
+  it('leaves the reviewer and the recomputed values to the database', async () => {
+    (recalculateOvertimeForWeek as Mock).mockResolvedValue(undefined);
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { success: true, record: { employee_id: 'employee-1', date: '2025-07-01' } },
+      error: null,
+    });
+
+    const result = await approveAttendanceCorrection('correction-1', ' Checked CCTV ');
+
+    expect(result.success).toBe(true);
+    expect(supabase.rpc).toHaveBeenCalledWith('apply_attendance_correction', {
+      p_correction_id: 'correction-1',
+      p_review_note: 'Checked CCTV',
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(recalculateOvertimeForWeek).toHaveBeenCalledWith('employee-1', '2025-07-01');
+  });
+
+  it('passes on the refusal when the requester tries to approve', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { success: false, error: 'A correction must be approved by a different admin' },
+      error: null,
+    });
+
+    expect(await approveAttendanceCorrection('correction-1')).toEqual({
+      success: false,
+      message: 'A correction must be approved by a different admin',
+    });
+  });
+
+  it('reports a reviewer without the HR or super admin role', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: null,
+      error: Object.assign(new Error('Only HR or a super admin can reject corrections'), { code: '42501' }),
+    });
+
+    expect(await rejectAttendanceCorrection('correction-1', 'Wrong day')).toEqual({
+      success: false,
+      message: 'Only HR or a super admin can reject corrections',
+    });
+  });
+
+  it('requires a note to reject', async () => {
+    expect((await rejectAttendanceCorrection('correction-1', ' ')).success).toBe(false);
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+});
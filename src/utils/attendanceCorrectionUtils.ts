@@ -0,0 +1,297 @@
+// Attendance Punch Correction Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { AttendanceSession } from '@/types';
+import {
+  AttendancePunches,
+  LegacyPunchField,
+  getAttendanceSessions
+} from './attendanceStateMachine';
+import { recalculateOvertimeForWeek } from './overtimeUtils';
+
+/**
+ * Punches are never edited in place. A supervisor files a correction with the
+ * proposed punch times and a reason, and a different HR admin or super admin
+ * approves or rejects it. Requester and reviewer are the signed-in users. On
+ * approval `apply_attendance_correction` validates the punches, recomputes
+ * lateness and worked time, updates the record and writes an immutable
+ * before/after row to `attendance_history` in one transaction.
+ */
+
+export const CORRECTABLE_FIELDS: LegacyPunchField[] = [
+  'first_check_in_time',
+  'first_check_out_time',
+  'second_check_in_time',
+  'second_check_out_time'
+];
+
+export type PunchCorrectionValues = Partial<Record<LegacyPunchField, string | null>>;
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AttendanceCorrection {
+  id: string;
+  attendance_id: string;
+  employee_id: string;
+  requested_by: string | null;
+  // Email of the requester, or the name typed in before sign-in was required
+  requested_by_name: string | null;
+  reason: string;
+  original_values: PunchCorrectionValues;
+  proposed_values: PunchCorrectionValues;
+  status: CorrectionStatus;
+  reviewed_by: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+export interface AttendanceHistoryEntry {
+  id: string;
+  attendance_id: string;
+  correction_id: string | null;
+  change_type: string;
+  changed_by: string;
+  reason: string | null;
+  before_values: Record<string, unknown>;
+  after_values: Record<string, unknown>;
+  created_at: string;
+}
+
+type CorrectionResult = { success: boolean; message: string };
+
+const sameInstant = (a?: string | null, b?: string | null): boolean =>
+  (!a && !b) || (!!a && !!b && new Date(a).getTime() === new Date(b).getTime());
+
+// Only the fields whose value actually changes
+export const getChangedFields = (
+  record: AttendancePunches,
+  values: PunchCorrectionValues
+): PunchCorrectionValues => {
+  const changed: PunchCorrectionValues = {};
+  CORRECTABLE_FIELDS.forEach(field => {
+    if (field in values && !sameInstant(record[field], values[field])) {
+      changed[field] = values[field] || null;
+    }
+  });
+  return changed;
+};
+
+/**
+ * Record as it would read after the correction. The first two sessions are
+ * rebuilt from the corrected columns; any later sessions are kept as they are.
+ */
+export const applyPunchCorrection = (
+  record: AttendancePunches,
+  values: PunchCorrectionValues
+): AttendancePunches => {
+  const corrected: AttendancePunches = { ...record };
+  CORRECTABLE_FIELDS.forEach(field => {
+    if (field in values) corrected[field] = values[field] || null;
+  });
+
+  const legacySessions: AttendanceSession[] = [];
+  if (corrected.first_check_in_time) {
+    legacySessions.push({ check_in: corrected.first_check_in_time, check_out: corrected.first_check_out_time || null });
+  }
+  if (corrected.second_check_in_time) {
+    legacySessions.push({ check_in: corrected.second_check_in_time, check_out: corrected.second_check_out_time || null });
+  }
+
+  return {
+    ...corrected,
+    sessions: [...legacySessions, ...getAttendanceSessions(record).slice(2)]
+  };
+};
+
+// Returns an error message, or null when the corrected punches are usable
+export const validatePunchCorrection = (
+  record: AttendancePunches,
+  values: PunchCorrectionValues
+): string | null => {
+  if (Object.keys(getChangedFields(record, values)).length === 0) {
+    return 'The correction does not change any punch';
+  }
+
+  for (const field of CORRECTABLE_FIELDS) {
+    const value = values[field];
+    if (value && isNaN(new Date(value).getTime())) {
+      return `Invalid time for ${field.replace(/_/g, ' ')}`;
+    }
+  }
+
+  const corrected = applyPunchCorrection(record, values);
+  if (!corrected.first_check_in_time && (corrected.first_check_out_time || corrected.second_check_in_time)) {
+    return 'A record with later punches must keep its first check-in';
+  }
+  if (!corrected.second_check_in_time && corrected.second_check_out_time) {
+    return 'Second check-out requires a second check-in';
+  }
+  if (corrected.second_check_in_time && !corrected.first_check_out_time) {
+    return 'Second check-in requires a first check-out';
+  }
+
+  const punches = getAttendanceSessions(corrected)
+    .flatMap(session => [session.check_in, session.check_out])
+    .filter((punch): punch is string => Boolean(punch))
+    .map(punch => new Date(punch).getTime());
+
+  for (let i = 1; i < punches.length; i++) {
+    if (punches[i] <= punches[i - 1]) {
+      return 'Punch times must be in order: each punch after the previous one';
+    }
+  }
+
+  return null;
+};
+
+const fetchAttendance = async (attendanceId: string) => {
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('*')
+    .eq('id', attendanceId)
+    .single();
+
+  if (error || !data) {
+    throw new Error('Attendance record not found');
+  }
+  return data;
+};
+
+// File a correction for a second admin to review
+export const requestAttendanceCorrection = async (
+  attendanceId: string,
+  values: PunchCorrectionValues,
+  reason: string
+): Promise<CorrectionResult & { correction?: AttendanceCorrection }> => {
+  try {
+    if (!reason?.trim()) {
+      return { success: false, message: 'A reason for the correction is required' };
+    }
+
+    const record = await fetchAttendance(attendanceId);
+    const validationError = validatePunchCorrection(record, values);
+    if (validationError) {
+      return { success: false, message: validationError };
+    }
+
+    const proposed = getChangedFields(record, values);
+    const original: PunchCorrectionValues = {};
+    (Object.keys(proposed) as LegacyPunchField[]).forEach(field => {
+      original[field] = record[field] || null;
+    });
+
+    const { data, error } = await supabase
+      .from('attendance_corrections')
+      .insert({
+        attendance_id: attendanceId,
+        employee_id: record.employee_id,
+        reason: reason.trim(),
+        original_values: original,
+        proposed_values: proposed
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error requesting attendance correction:', error);
+      return {
+        success: false,
+        message: error.code === '23505'
+          ? 'This record already has a correction awaiting approval'
+          : 'Failed to submit correction'
+      };
+    }
+
+    return { success: true, message: 'Correction submitted for approval', correction: data as AttendanceCorrection };
+  } catch (error) {
+    console.error('Error in requestAttendanceCorrection:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to submit correction' };
+  }
+};
+
+export const getAttendanceCorrections = async (
+  filters: { attendanceId?: string; status?: CorrectionStatus } = {}
+): Promise<AttendanceCorrection[]> => {
+  let query = supabase
+    .from('attendance_corrections')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (filters.attendanceId) query = query.eq('attendance_id', filters.attendanceId);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching attendance corrections:', error);
+    throw new Error('Failed to load attendance corrections');
+  }
+  return (data || []) as AttendanceCorrection[];
+};
+
+export const getAttendanceHistory = async (attendanceId: string): Promise<AttendanceHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('attendance_history')
+    .select('*')
+    .eq('attendance_id', attendanceId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching attendance history:', error);
+    throw new Error('Failed to load attendance history');
+  }
+  return (data || []) as AttendanceHistoryEntry[];
+};
+
+export const approveAttendanceCorrection = async (
+  correctionId: string,
+  note?: string
+): Promise<CorrectionResult> => {
+  try {
+    const { data, error } = await supabase.rpc('apply_attendance_correction', {
+      p_correction_id: correctionId,
+      p_review_note: note?.trim() || null
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, message: data?.error || 'Failed to apply correction' };
+    }
+
+    const record = data.record;
+    recalculateOvertimeForWeek(record.employee_id, record.date).catch(error =>
+      console.error('Error recalculating overtime after correction:', error)
+    );
+
+    return { success: true, message: 'Correction approved and attendance updated' };
+  } catch (error) {
+    console.error('Error in approveAttendanceCorrection:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to approve correction' };
+  }
+};
+
+export const rejectAttendanceCorrection = async (
+  correctionId: string,
+  note: string
+): Promise<CorrectionResult> => {
+  try {
+    if (!note?.trim()) {
+      return { success: false, message: 'Please give a reason for rejecting the correction' };
+    }
+
+    const { data, error } = await supabase.rpc('reject_attendance_correction', {
+      p_correction_id: correctionId,
+      p_review_note: note.trim()
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      return { success: false, message: data?.error || 'Failed to reject correction' };
+    }
+
+    return { success: true, message: 'Correction rejected' };
+  } catch (error) {
+    console.error('Error in rejectAttendanceCorrection:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to reject correction' };
+  }
+};
@@ -1,4 +1,6 @@
 import { Attendance } from '@/types';
+import { calculateSessionTotals } from './attendanceStateMachine';
+import { PayPeriod, PayrollTemplate, PayrollTotals, formatPayrollExport } from './payrollUtils';
 import { format } from 'date-fns';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
@@ -26,6 +28,10 @@ export interface ExportSummary {
   lateCount: number;
   onTimeCount: number;
   averageWorkingHours: number;
+  regularMinutes: number;
+  ot1Minutes: number;
+  ot2Minutes: number;
+  unapprovedOvertimeMinutes: number;
   departmentBreakdown: { [key: string]: number };
   exportDate: string;
   dateRange: string;
@@ -66,6 +72,19 @@ class AttendanceExportService {
     }
   }
 
+  // Closed pay period totals in a payroll system's column layout
+  public exportPayroll(
+    totals: PayrollTotals[],
+    template: PayrollTemplate,
+    period: Pick<PayPeriod, 'start_date' | 'end_date'>
+  ): void {
+    const content = formatPayrollExport(totals, template, period);
+    const extension = template.delimiter === '\t' ? 'txt' : 'csv';
+    const name = template.name.replace(/[^a-zA-Z0-9]/g, '_');
+    const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+    saveAs(blob, `payroll_${name}_${period.start_date}_${period.end_date}.${extension}`);
+  }
+
   private filterRecords(records: Attendance[], criteria?: ExportOptions['filterCriteria']): Attendance[] {
     if (!criteria) return records;
 
@@ -117,9 +136,11 @@ class AttendanceExportService {
     const onTimeCount = totalRecords - lateCount;
 
     const totalWorkingHours = records.reduce((sum, record) => {
-      return sum + (record.actual_hours || 0);
+      return sum + this.getWorkedHours(record);
     }, 0);
     const averageWorkingHours = totalRecords > 0 ? totalWorkingHours / totalRecords : 0;
+    const sumMinutes = (pick: (record: Attendance) => number | null | undefined) =>
+      records.reduce((sum, record) => sum + (pick(record) || 0), 0);
 
     const departmentBreakdown = records.reduce((acc, record) => {
       const dept = record.employee?.department || 'Unassigned';
@@ -139,12 +160,35 @@ class AttendanceExportService {
       lateCount,
       onTimeCount,
       averageWorkingHours,
+      regularMinutes: sumMinutes(record => record.regular_minutes),
+      ot1Minutes: sumMinutes(record => record.ot1_minutes),
+      ot2Minutes: sumMinutes(record => record.ot2_minutes),
+      unapprovedOvertimeMinutes: sumMinutes(record => record.unapproved_overtime_minutes),
       departmentBreakdown,
       exportDate: format(new Date(), options.dateFormat),
       dateRange: `${format(startDate, options.dateFormat)} - ${format(endDate, options.dateFormat)}`
     };
   }
 
+  // Stored hours win; otherwise total every session recorded for the day
+  private getWorkedHours(record: Attendance): number {
+    return record.actual_hours || calculateSessionTotals(record).workedMinutes / 60;
+  }
+
+  // Overtime buckets are blank for rosters without an overtime policy
+  private getOvertimeColumns(record: Attendance): (string | number)[] {
+    if (record.regular_minutes === null || record.regular_minutes === undefined) {
+      return ['', '', '', '', ''];
+    }
+    return [
+      record.regular_minutes,
+      record.ot1_minutes || 0,
+      record.ot2_minutes || 0,
+      record.ot2_multiplier ?? '',
+      record.unapproved_overtime_minutes || 0
+    ];
+  }
+
   private exportToCSV(records: Attendance[], options: ExportOptions): void {
     const headers = [
       'Date',
@@ -154,8 +198,14 @@ class AttendanceExportService {
       'First Check-Out',
       'Second Check-In',
       'Second Check-Out',
+      'Sessions',
       'Break Duration (minutes)',
       'Working Duration (hours)',
+      'Regular (minutes)',
+      'OT1 (minutes)',
+      'OT2 (minutes)',
+      'OT2 Multiplier',
+      'Unapproved OT (minutes)',
       'Status',
       'Minutes Late',
       'Early Departure (minutes)',
@@ -170,8 +220,10 @@ class AttendanceExportService {
       record.first_check_out_time ? format(new Date(record.first_check_out_time), options.timeFormat) : '',
       record.second_check_in_time ? format(new Date(record.second_check_in_time), options.timeFormat) : '',
       record.second_check_out_time ? format(new Date(record.second_check_out_time), options.timeFormat) : '',
-      record.break_duration || 0,
-      record.actual_hours?.toFixed(2) || '0.00',
+      calculateSessionTotals(record).sessionCount,
+      record.break_duration || calculateSessionTotals(record).breakMinutes,
+      this.getWorkedHours(record).toFixed(2),
+      ...this.getOvertimeColumns(record),
       record.status || '',
       record.minutes_late || 0,
       record.early_departure_minutes || 0,
@@ -207,6 +259,10 @@ class AttendanceExportService {
       csvContent += `"Present Count","${summary.presentCount}"\n`;
       csvContent += `"Late Count","${summary.lateCount}"\n`;
       csvContent += `"Average Working Hours","${summary.averageWorkingHours.toFixed(2)}"\n`;
+      csvContent += `"Regular Minutes","${summary.regularMinutes}"\n`;
+      csvContent += `"OT1 Minutes","${summary.ot1Minutes}"\n`;
+      csvContent += `"OT2 Minutes","${summary.ot2Minutes}"\n`;
+      csvContent += `"Unapproved OT Minutes","${summary.unapprovedOvertimeMinutes}"\n`;
       csvContent += `"Export Date","${summary.exportDate}"\n`;
       csvContent += `"Date Range","${summary.dateRange}"\n`;
     }
@@ -290,14 +346,18 @@ class AttendanceExportService {
 
   private prepareCSVData(records: Attendance[], options: ExportOptions): string {
     // Simplified CSV preparation - you can expand this
-    const headers = ['Date', 'Employee', 'Department', 'Check-In', 'Check-Out', 'Status'];
+    const headers = [
+      'Date', 'Employee', 'Department', 'Check-In', 'Check-Out', 'Status',
+      'Regular (minutes)', 'OT1 (minutes)', 'OT2 (minutes)', 'OT2 Multiplier', 'Unapproved OT (minutes)'
+    ];
     const rows = records.map(record => [
       record.date || format(new Date(record.first_check_in_time), options.dateFormat),
       record.employee_name || 'Unknown',
       record.employee?.department || 'Unassigned',
       record.first_check_in_time ? format(new Date(record.first_check_in_time), options.timeFormat) : '',
       record.first_check_out_time ? format(new Date(record.first_check_out_time), options.timeFormat) : '',
-      record.status || ''
+      record.status || '',
+      ...this.getOvertimeColumns(record)
     ]);
 
     return [headers.join(','), ...rows.map(row => row.map(cell => `"${cell}"`).join(','))].join('\n');
@@ -332,6 +392,13 @@ Late Count: ${summary.lateCount}
 On Time Count: ${summary.onTimeCount}
 Average Working Hours: ${summary.averageWorkingHours.toFixed(2)}
 
+OVERTIME (minutes)
+------------------
+Regular: ${summary.regularMinutes}
+OT1: ${summary.ot1Minutes}
+OT2: ${summary.ot2Minutes}
+Awaiting Approval: ${summary.unapprovedOvertimeMinutes}
+
 DEPARTMENT BREAKDOWN
 -------------------
 ${Object.entries(summary.departmentBreakdown)
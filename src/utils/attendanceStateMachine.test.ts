@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ATTENDANCE_RULES,
+  AttendancePunches,
+  calculateSessionTotals,
+  getAttendanceSessions,
+  getAttendanceState,
+  getLastPunchTime,
+  getNextAction,
+  getRulesForRoster
+} from './attendanceStateMachine';
+
+const at = (time: string) => new Date(`2025-07-01T${time}:00.000Z`);
+const iso = (time: string) => at(time).toISOString();
+
+const punches = (overrides: Partial<AttendancePunches> = {}): AttendancePunches => ({
+  first_check_in_time: null,
+  first_check_out_time: null,
+  second_check_in_time: null,
+  second_check_out_time: null,
+  ...overrides
+});
+
+const NONE = null;
+const FIRST_IN = punches({ first_check_in_time: iso('08:00') });
+const FIRST_OUT = punches({ first_check_in_time: iso('08:00'), first_check_out_time: iso('12:00') });
+const SECOND_IN = punches({
+  first_check_in_time: iso('08:00'),
+  first_check_out_time: iso('12:00'),
+  second_check_in_time: iso('13:00')
+});
+const SECOND_OUT = punches({
+  first_check_in_time: iso('08:00'),
+  first_check_out_time: iso('12:00'),
+  second_check_in_time: iso('13:00'),
+  second_check_out_time: iso('17:00')
+});
+
+describe('attendance state machine', () => {
+  describe('state and next action', () => {
+    it.each([
+      ['no record', NONE, 'not_checked_in', 'first_check_in'],
+      ['empty record', punches(), 'not_checked_in', 'first_check_in'],
+      ['first session open', FIRST_IN, 'first_checked_in', 'first_check_out'],
+      ['on break', FIRST_OUT, 'first_checked_out', 'second_check_in'],
+      ['second session open', SECOND_IN, 'second_checked_in', 'second_check_out'],
+      ['day completed', SECOND_OUT, 'second_checked_out', 'completed'],
+    ])('%s', (_label, record, state, next) => {
+      expect(getAttendanceState(record)).toBe(state);
+      expect(getNextAction(record)).toBe(next);
+    });
+  });
+
+  describe('split shifts', () => {
+    const fourSessions = getRulesForRoster({ max_sessions: 4 });
+    const SECOND_OUT_SESSIONS = punches({
+      sessions: [
+        { check_in: iso('06:00'), check_out: iso('09:00') },
+        { check_in: iso('11:00'), check_out: iso('14:00') },
+      ],
+    });
+    const THIRD_IN = punches({
+      sessions: [
+        { check_in: iso('06:00'), check_out: iso('09:00') },
+        { check_in: iso('11:00'), check_out: iso('14:00') },
+        { check_in: iso('17:00'), check_out: null },
+      ],
+    });
+
+    it('continues past the second session when the roster allows it', () => {
+      expect(getNextAction(SECOND_OUT_SESSIONS, fourSessions)).toBe('session_3_check_in');
+      expect(getNextAction(SECOND_OUT_SESSIONS)).toBe('completed');
+      expect(getAttendanceState(THIRD_IN)).toBe('session_3_checked_in');
+    });
+
+    it('completes the day after the last session the roster allows', () => {
+      const THIRD_OUT = punches({
+        sessions: [
+          { check_in: iso('06:00'), check_out: iso('09:00') },
+          { check_in: iso('11:00'), check_out: iso('14:00') },
+          { check_in: iso('17:00'), check_out: iso('20:00') },
+        ],
+      });
+
+      expect(getNextAction(THIRD_IN, fourSessions)).toBe('session_3_check_out');
+      expect(getNextAction(THIRD_OUT, fourSessions)).toBe('session_4_check_in');
+      expect(getNextAction(THIRD_OUT, getRulesForRoster({ max_sessions: 3 }))).toBe('completed');
+    });
+
+    it('ignores invalid roster limits', () => {
+      expect(getRulesForRoster({ max_sessions: 0 }).maximumSessions).toBe(ATTENDANCE_RULES.maximumSessions);
+      expect(getRulesForRoster(null).maximumSessions).toBe(ATTENDANCE_RULES.maximumSessions);
+    });
+  });
+
+  describe('reading sessions', () => {
+    it('reads legacy two-session records from the first/second columns', () => {
+      expect(getAttendanceSessions(SECOND_OUT)).toEqual([
+        { check_in: iso('08:00'), check_out: iso('12:00') },
+        { check_in: iso('13:00'), check_out: iso('17:00') },
+      ]);
+    });
+
+    it('prefers the legacy columns when they are ahead of the session list', () => {
+      const record = punches({
+        first_check_in_time: iso('08:00'),
+        first_check_out_time: iso('12:00'),
+        sessions: [{ check_in: iso('08:00'), check_out: null }],
+      });
+
+      expect(getAttendanceState(record)).toBe('first_checked_out');
+    });
+
+    it('totals work and breaks across any number of sessions', () => {
+      const record = punches({
+        sessions: [
+          { check_in: iso('06:00'), check_out: iso('09:00') },
+          { check_in: iso('11:00'), check_out: iso('14:00') },
+          { check_in: iso('17:00'), check_out: iso('19:30') },
+        ],
+      });
+
+      expect(calculateSessionTotals(record)).toEqual({
+        sessionCount: 3,
+        workedMinutes: 510,
+        breakMinutes: 300,
+        hasOpenSession: false,
+      });
+      expect(calculateSessionTotals(SECOND_OUT)).toMatchObject({ workedMinutes: 480, breakMinutes: 60 });
+    });
+
+    it('counts an open session up to now', () => {
+      expect(calculateSessionTotals(FIRST_IN, at('10:30'))).toMatchObject({ workedMinutes: 150, hasOpenSession: true });
+    });
+  });
+
+  it('finds the latest punch regardless of column order', () => {
+    expect(getLastPunchTime(NONE)).toBeNull();
+    expect(getLastPunchTime(SECOND_IN)).toBe(iso('13:00'));
+  });
+});
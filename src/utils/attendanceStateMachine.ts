@@ -0,0 +1,158 @@
+// Attendance State Machine
+import { AttendanceAction, AttendanceSession, AttendanceState } from '@/types';
+
+/**
+ * The punch sequence: check in, check out, and repeat up to the roster's
+ * session limit. Whether a punch is accepted (ordering, cooldowns, minimum
+ * session and break lengths) is decided only by apply_attendance_punch in the
+ * database. These pure functions read a record to show the state of the day
+ * and the next action.
+ */
+
+// Legacy two-session columns plus the ordered session list
+export interface AttendancePunches {
+  first_check_in_time?: string | null;
+  first_check_out_time?: string | null;
+  second_check_in_time?: string | null;
+  second_check_out_time?: string | null;
+  sessions?: AttendanceSession[] | null;
+}
+
+export type LegacyPunchField =
+  | 'first_check_in_time'
+  | 'first_check_out_time'
+  | 'second_check_in_time'
+  | 'second_check_out_time';
+
+export interface AttendanceRules {
+  maximumSessions: number;
+}
+
+export const ATTENDANCE_RULES: AttendanceRules = {
+  maximumSessions: 2
+};
+
+// Apply a roster's session limit on top of the default rules
+export const getRulesForRoster = (
+  roster?: { max_sessions?: number | null } | null,
+  rules: AttendanceRules = ATTENDANCE_RULES
+): AttendanceRules => {
+  const maximumSessions = roster?.max_sessions && roster.max_sessions > 0
+    ? roster.max_sessions
+    : rules.maximumSessions;
+  return { ...rules, maximumSessions };
+};
+
+export type PunchKind = 'check_in' | 'check_out';
+
+const SESSION_NAMES = ['first', 'second'];
+
+const sessionName = (session: number): string => SESSION_NAMES[session - 1] || `session_${session}`;
+
+export const getActionName = (session: number, punch: PunchKind): AttendanceAction =>
+  `${sessionName(session)}_${punch}` as AttendanceAction;
+
+const getStateName = (session: number, punch: PunchKind): AttendanceState =>
+  `${sessionName(session)}_${punch === 'check_in' ? 'checked_in' : 'checked_out'}` as AttendanceState;
+
+const minutesBetween = (from: string, to: Date): number =>
+  (to.getTime() - new Date(from).getTime()) / 60000;
+
+const countPunches = (sessions: AttendanceSession[]): number =>
+  sessions.reduce((count, session) => count + (session.check_out ? 2 : 1), 0);
+
+/**
+ * Read the day's sessions in punch order. Records written before the session
+ * list existed, or by paths that only update the first/second columns, are
+ * read from those columns when they hold more punches than the list.
+ */
+export const getAttendanceSessions = (record: AttendancePunches | null | undefined): AttendanceSession[] => {
+  if (!record) return [];
+
+  const legacy: AttendanceSession[] = [];
+  if (record.first_check_in_time) {
+    legacy.push({ check_in: record.first_check_in_time, check_out: record.first_check_out_time || null });
+  }
+  if (record.second_check_in_time) {
+    legacy.push({ check_in: record.second_check_in_time, check_out: record.second_check_out_time || null });
+  }
+
+  const sessions = (record.sessions || []).map(session => ({ ...session }));
+  return countPunches(legacy) > countPunches(sessions) ? legacy : sessions;
+};
+
+// Derive the current state from the last session on the record
+export const getAttendanceState = (record: AttendancePunches | null | undefined): AttendanceState => {
+  const sessions = getAttendanceSessions(record);
+  const last = sessions[sessions.length - 1];
+  if (!last) return 'not_checked_in';
+  return getStateName(sessions.length, last.check_out ? 'check_out' : 'check_in');
+};
+
+const getNextPunch = (
+  sessions: AttendanceSession[],
+  maximumSessions: number
+): { session: number; punch: PunchKind } | null => {
+  const last = sessions[sessions.length - 1];
+  if (last && !last.check_out) {
+    return { session: sessions.length, punch: 'check_out' };
+  }
+  if (sessions.length >= maximumSessions) {
+    return null;
+  }
+  return { session: sessions.length + 1, punch: 'check_in' };
+};
+
+export const getNextAction = (
+  record: AttendancePunches | null | undefined,
+  rules: AttendanceRules = ATTENDANCE_RULES
+): AttendanceAction | 'completed' => {
+  const next = getNextPunch(getAttendanceSessions(record), rules.maximumSessions);
+  return next ? getActionName(next.session, next.punch) : 'completed';
+};
+
+// Latest punch already on the record
+export const getLastPunchTime = (record: AttendancePunches | null | undefined): string | null => {
+  const punches = getAttendanceSessions(record)
+    .flatMap(session => [session.check_in, session.check_out])
+    .filter((punch): punch is string => Boolean(punch));
+
+  return punches.sort((a, b) => new Date(a).getTime() - new Date(b).getTime()).pop() || null;
+};
+
+export interface SessionTotals {
+  sessionCount: number;
+  workedMinutes: number;
+  breakMinutes: number;
+  hasOpenSession: boolean;
+}
+
+/**
+ * Total worked time across all sessions and the breaks between them. An open
+ * session counts up to `now`.
+ */
+export const calculateSessionTotals = (
+  record: AttendancePunches | null | undefined,
+  now: Date = new Date()
+): SessionTotals => {
+  const sessions = getAttendanceSessions(record);
+  let workedMinutes = 0;
+  let breakMinutes = 0;
+
+  sessions.forEach((session, index) => {
+    const end = session.check_out ? new Date(session.check_out) : now;
+    workedMinutes += Math.max(0, minutesBetween(session.check_in, end));
+
+    const previous = sessions[index - 1];
+    if (previous?.check_out) {
+      breakMinutes += Math.max(0, minutesBetween(previous.check_out, new Date(session.check_in)));
+    }
+  });
+
+  return {
+    sessionCount: sessions.length,
+    workedMinutes: Math.round(workedMinutes),
+    breakMinutes: Math.round(breakMinutes),
+    hasOpenSession: sessions.some(session => !session.check_out)
+  };
+};
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { recordAttendance, AttendanceError } from './attendanceUtils'; // Import AttendanceError
+import { recordAttendance, singleScanAttendance, AttendanceError } from './attendanceUtils'; // Import AttendanceError
+import { recalculateOvertimeForWeek } from './overtimeUtils';
 import { supabase } from '@/integrations/supabase/client'; // Actual path
 import { ExtendedWorkTimeInfo, ExtendedAttendance } from '@/types'; // Actual path
 import type { Mock } from 'vitest';
@@ -18,6 +19,10 @@ vi.mock('@/integrations/supabase/client', () => ({
   },
 }));
 
+vi.mock('./overtimeUtils', () => ({
+  recalculateOvertimeForWeek: vi.fn(),
+}));
+
 describe('recordAttendance', () => {
   const mockEmployeeId = 'employee-123';
   const mockTimestamp = new Date().toISOString();
@@ -236,3 +241,78 @@ describe('recordAttendance', () => {
     await expect(recordAttendance(mockEmployeeId)).rejects.toThrow('Maximum check-ins/check-outs reached'); // This is the default case message
   });
 });
+
+describe('singleScanAttendance', () => {
+  const employeeId = 'employee-123';
+  const record = { id: 'att-1', employee_id: employeeId, date: '2025-07-01', status: 'ON_BREAK' };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    (recalculateOvertimeForWeek as Mock).mockResolvedValue(undefined);
+  });
+
+  it('records the punch through the attendance RPC', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: {
+        status: 'Success',
+        action: 'FIRST_CHECK_OUT',
+        punch: 'check_out',
+        message: 'Successfully recorded first check out',
+        employee_name: 'Jane Doe',
+        punched_at: '2025-07-01T12:00:00+00:00',
+        record,
+      },
+      error: null,
+    });
+
+    const result = await singleScanAttendance(employeeId, {
+      scannedAt: '2025-07-01T12:00:00Z',
+      badge: 'EMP2.payload.signature',
+    });
+
+    // The database checks the badge again before applying the punch
+    expect(supabase.rpc).toHaveBeenCalledWith('record_attendance_punch', {
+      p_employee_id: employeeId,
+      p_scanned_at: '2025-07-01T12:00:00.000Z',
+      p_badge: 'EMP2.payload.signature',
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ ...record, action: 'FIRST_CHECK_OUT', employeeName: 'Jane Doe' });
+    expect(recalculateOvertimeForWeek).toHaveBeenCalledWith(employeeId, '2025-07-01');
+  });
+
+  it('leaves live scans to the server clock', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { status: 'Success', action: 'FIRST_CHECK_IN', punch: 'check_in', record },
+      error: null,
+    });
+
+    await singleScanAttendance(employeeId);
+
+    expect(supabase.rpc).toHaveBeenCalledWith('record_attendance_punch', {
+      p_employee_id: employeeId,
+      p_scanned_at: null,
+      p_badge: null,
+    });
+    expect(recalculateOvertimeForWeek).not.toHaveBeenCalled();
+  });
+
+  it('raises the rule the database refused the punch with', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { status: 'Error', reason: 'COOLDOWN_ACTIVE', message: 'Please wait 3 minutes before checking out from your first session' },
+      error: null,
+    });
+
+    const error = await singleScanAttendance(employeeId).catch(e => e);
+
+    expect(error).toBeInstanceOf(AttendanceError);
+    expect(error).toMatchObject({ code: 'COOLDOWN_ACTIVE' });
+  });
+
+  it('passes request failures on unchanged for the offline queue', async () => {
+    const failure = { message: 'TypeError: Failed to fetch', code: '' };
+    (supabase.rpc as Mock).mockResolvedValue({ data: null, error: failure });
+
+    await expect(singleScanAttendance(employeeId)).rejects.toBe(failure);
+  });
+});
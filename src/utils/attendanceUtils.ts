@@ -9,11 +9,27 @@ import {
   ExtendedAttendance, 
   CustomPostgrestResponse,
   AttendanceAction, 
+  AttendanceState,
   Employee, 
   Roster, 
   RosterAttendance, 
   AdminContactInfo
 } from '@/types';
+import {
+  AttendancePunches,
+  calculateSessionTotals,
+  getAttendanceState,
+  getNextAction,
+  getRulesForRoster
+} from './attendanceStateMachine';
+import { getBusinessDate } from './businessDayUtils';
+import { addDaysToDate, formatDateInTimezone, getDateInTimezone } from './timezoneUtils';
+import { getDatesInRange, getEmployeesOnLeave } from './leaveUtils';
+import { getNonWorkingDates, getWorkingDates, isWorkingDay } from './holidayUtils';
+import { getSiteToday } from './siteUtils';
+import { recalculateOvertimeForWeek } from './overtimeUtils';
+import { getClosedPayPeriod, getPayPeriodLockMessage } from './payrollUtils';
+import { buildDailySummaryNotification, notifyAdmins } from './adminNotificationUtils';
 import Swal from 'sweetalert2';
 
 // Using AdminContactInfo from types
@@ -135,7 +151,7 @@ const generateUniqueTimestamp = async (
   let attempt = 0;
 
   while (attempt < 10) {    // Get the last check-in/check-out for this employee today
-    const today = baseTime.toISOString().split('T')[0];
+    const today = getDateInTimezone(baseTime);
     const { data: lastRecord } = await supabase
       .from('attendance')
       .select('check_in_time, check_out_time')
@@ -196,73 +212,8 @@ const generateUniqueTimestamp = async (
   throw new AttendanceError('Unable to generate unique timestamp');
 };
 
-// Enhanced Attendance Recording Function
-export const recordAttendance = async (employeeId: string): Promise<any> => {
-  try {
-    // First get the employee's roster
-    const roster = await getEmployeeRoster(employeeId);
-    if (!roster || !roster.id) {
-      throw new AttendanceError(
-        'No active roster found for employee',
-        'ROSTER_ERROR',
-        { employeeId }
-      );
-    }
-
-    // Call the database function to process attendance
-    const { data: result, error } = await supabase.rpc('process_roster_attendance', { 
-      p_employee_id: employeeId,
-      p_current_time: new Date().toISOString(),
-      p_roster_id: roster.id
-    });
-
-    if (error) {
-      console.error('Error processing attendance:', error);
-      // Check if it's a roster-related error
-      if (error.message.includes('roster_id')) {
-        throw new AttendanceError(
-          'Invalid roster configuration',
-          'ROSTER_ERROR',
-          { employeeId, rosterId: roster.id }
-        );
-      }
-      throw new AttendanceError(`Failed to process attendance: ${error.message}`);
-      }
-
-    if (!result) {
-      throw new AttendanceError('No response from attendance processor');
-    }
-
-    // Get employee details
-    const { data: employee, error: employeeError } = await supabase
-      .from('employees')
-      .select('first_name, last_name')
-      .eq('id', employeeId)
-      .single();
-
-    if (employeeError) {
-      console.error('Error fetching employee details:', employeeError);
-      throw new AttendanceError('Failed to fetch employee details');
-    }
-
-    // Return the processed attendance record with additional info
-    return {
-      ...result,
-      employeeName: employee ? `${employee.first_name} ${employee.last_name}` : 'Unknown',
-      timestamp: new Date().toISOString(),
-      rosterId: roster.id // Include roster ID in response
-    };
-  } catch (error) {
-    console.error('Error recording attendance:', error);
-    if (error instanceof AttendanceError) {
-    throw error;
-    }
-    throw new AttendanceError(
-      error instanceof Error ? error.message : 'Failed to record attendance',
-      'ATTENDANCE_ERROR'
-    );
-  }
-};
+// Kept for older callers: every punch goes through the attendance state machine
+export const recordAttendance = async (employeeId: string): Promise<any> => singleScanAttendance(employeeId);
 
 // Helper functions for attendance calculations
 const calculateLateness = (currentTime: Date, rosterStartTime: string, gracePeriod: number): number => {
@@ -374,6 +325,11 @@ export const getAttendanceRecords = async (): Promise<Attendance[]> => {
         expected_hours,
         actual_hours,
         last_action,
+        regular_minutes,
+        ot1_minutes,
+        ot2_minutes,
+        ot2_multiplier,
+        unapproved_overtime_minutes,
         created_at,
         updated_at,
         employees!inner (
@@ -474,6 +430,11 @@ export const getAttendanceRecords = async (): Promise<Attendance[]> => {
         actual_hours: record.actual_hours || 0,
         working_duration: workingDuration,
         action,
+        regular_minutes: record.regular_minutes,
+        ot1_minutes: record.ot1_minutes,
+        ot2_minutes: record.ot2_minutes,
+        ot2_multiplier: record.ot2_multiplier === null ? null : Number(record.ot2_multiplier),
+        unapproved_overtime_minutes: record.unapproved_overtime_minutes || 0,
         roster: {
           id: record.rosters.id,
           name: record.rosters.name,
@@ -497,38 +458,75 @@ export const getAttendanceRecords = async (): Promise<Attendance[]> => {
   }
 };
 
-// Get Today's Attendance Summary
-export const getTodayAttendanceSummary = async () => {
+// Get Today's Attendance Summary, optionally for the employees based at one site
+export const getTodayAttendanceSummary = async (siteId?: string | null) => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    // "Today" is the site's own date when looking at one site
+    let today = getDateInTimezone();
+    if (siteId) {
+      const { data: site } = await supabase.from('sites').select('timezone').eq('id', siteId).maybeSingle();
+      today = getSiteToday(site);
+    }
     
     // Fetch active employees and today's attendance
-    const { data: activeEmployees, error: employeeError } = await supabase
+    let employeeQuery = supabase
       .from('employees')
-      .select('id, status')
+      .select('id, status, department_id, home_site_id')
       .eq('status', 'active');
+    if (siteId) employeeQuery = employeeQuery.eq('home_site_id', siteId);
+    const { data: activeEmployees, error: employeeError } = await employeeQuery;
 
     if (employeeError) throw employeeError;
 
     const totalEmployees = activeEmployees?.length || 0;
     
-    // Fetch today's attendance records
-    const { data: attendanceData, error: attendanceError } = await supabase
+    // Fetch today's attendance records; employees count at their home site
+    // wherever they punched
+    const { data: allAttendance, error: attendanceError } = await supabase
       .from('attendance')
       .select('*')
       .eq('date', today);
 
     if (attendanceError) throw attendanceError;
 
+    const siteEmployeeIds = new Set(activeEmployees?.map(employee => employee.id));
+    const attendanceData = siteId
+      ? allAttendance?.filter(record => siteEmployeeIds.has(record.employee_id))
+      : allAttendance;
+
+    // Approved leave is reported separately; a leave lookup failure shouldn't hide the summary
+    const employeesOnLeave = await getEmployeesOnLeave(today).catch((error) => {
+      console.error('Error fetching approved leave:', error);
+      return new Map();
+    });
+    const nonWorking = await getNonWorkingDates(activeEmployees || [], today, today).catch((error) => {
+      console.error('Error fetching holidays:', error);
+      return new Map<string, Set<string>>();
+    });
+
     // Compute attendance metrics
     const statusCounts = {
       currentlyPresent: 0,
       lateButPresent: 0,
       checkedOut: 0,
       onTimeArrivals: 0,
+      onLeave: 0,
+      offDuty: 0,
       absent: 0
     };
 
+    // Employees who punched in anyway count as present, not on leave
+    const attendedIds = new Set(attendanceData?.map(record => record.employee_id));
+    statusCounts.onLeave = activeEmployees?.filter(employee =>
+      employeesOnLeave.has(employee.id) && !attendedIds.has(employee.id)
+    ).length || 0;
+    // Not expected in today: a holiday for their department or a rostered off day
+    statusCounts.offDuty = activeEmployees?.filter(employee =>
+      !attendedIds.has(employee.id) &&
+      !employeesOnLeave.has(employee.id) &&
+      !isWorkingDay(nonWorking, employee.id, today)
+    ).length || 0;
+
     attendanceData?.forEach(record => {
       // Handle first check-in/out sequence
       if (record.first_check_in_time && !record.first_check_out_time) {
@@ -553,7 +551,7 @@ export const getTodayAttendanceSummary = async () => {
     });
 
     // Calculate absent count
-    statusCounts.absent = Math.max(0, totalEmployees - (statusCounts.currentlyPresent + statusCounts.checkedOut));
+    statusCounts.absent = Math.max(0, totalEmployees - (statusCounts.currentlyPresent + statusCounts.checkedOut + statusCounts.onLeave + statusCounts.offDuty));
 
     // Compute rates
     const totalPresent = statusCounts.currentlyPresent + statusCounts.checkedOut;
@@ -576,6 +574,10 @@ export const getTodayAttendanceSummary = async () => {
       
       absentRate: totalEmployees > 0 
         ? ((statusCounts.absent / totalEmployees) * 100).toFixed(1) 
+        : '0.0',
+
+      onLeaveRate: totalEmployees > 0 
+        ? ((statusCounts.onLeave / totalEmployees) * 100).toFixed(1) 
         : '0.0'
     };
 
@@ -604,6 +606,8 @@ export const getTodayAttendanceSummary = async () => {
       presentCount: statusCounts.currentlyPresent,
       lateCount: statusCounts.lateButPresent,
       absentCount: statusCounts.absent,
+      onLeaveCount: statusCounts.onLeave,
+      offDutyCount: statusCounts.offDuty,
       checkedOutCount: statusCounts.checkedOut,
       onTime: statusCounts.onTimeArrivals,
       stillWorking: statusCounts.currentlyPresent,
@@ -614,6 +618,7 @@ export const getTodayAttendanceSummary = async () => {
       onTimeRate: rates.onTimeRate,
       lateRate: rates.lateRate,
       absentRate: rates.absentRate,
+      onLeaveRate: rates.onLeaveRate,
       
       detailed,
       
@@ -622,6 +627,7 @@ export const getTodayAttendanceSummary = async () => {
         lateButPresent: statusCounts.lateButPresent,
         checkedOut: statusCounts.checkedOut,
         onTimeArrivals: statusCounts.onTimeArrivals,
+        onLeave: statusCounts.onLeave,
         absent: statusCounts.absent
       }
     };
@@ -634,6 +640,8 @@ export const getTodayAttendanceSummary = async () => {
       presentCount: 0,
       lateCount: 0,
       absentCount: 0,
+      onLeaveCount: 0,
+      offDutyCount: 0,
       checkedOutCount: 0,
       onTime: 0,
       stillWorking: 0,
@@ -643,6 +651,7 @@ export const getTodayAttendanceSummary = async () => {
       onTimeRate: '0.0',
       lateRate: '0.0',
       absentRate: '0.0',
+      onLeaveRate: '0.0',
       detailed: {
         onTime: 0,
         lateArrivals: 0,
@@ -660,6 +669,7 @@ export const getTodayAttendanceSummary = async () => {
         lateButPresent: 0,
         checkedOut: 0,
         onTimeArrivals: 0,
+        onLeave: 0,
         absent: 0
       }
     };
@@ -677,120 +687,17 @@ export const setupAttendanceConstraints = async () => {
   }
 };
 
-// Auto Report Scheduling Function
-export const setupAutoReportScheduling = async (): Promise<void> => {
+// Sends today's summary to every admin on the channels they enabled
+export const autoShareAttendanceSummary = async (): Promise<boolean> => {
   try {
-    // Placeholder for auto report scheduling logic
-    console.log('Auto report scheduling initialized');
-    
-    // Example: Set up periodic attendance summary generation
-    const generateSummaryPeriodically = () => {
-      // Run summary generation every 30 minutes
-      setInterval(async () => {
-        try {
-          const summary = await getTodayAttendanceSummary();
-          
-          // Optional: Send summary via WhatsApp or other notification method
-          await autoShareAttendanceSummary();
-        } catch (error) {
-          console.error('Error in periodic summary generation:', error);
-        }
-      }, 30 * 60 * 1000); // 30 minutes
-    };
+    const summary = await getTodayAttendanceSummary();
+    const dateLabel = formatDateInTimezone(new Date(), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
 
-    generateSummaryPeriodically();
-  } catch (error) {
-    console.error('Failed to setup auto report scheduling:', error);
-  }
-};
-
-// Auto Report Sharing Function
-export const autoShareAttendanceSummary = async (): Promise<string | false> => {
-  try {
-    // Fetch summary and admin settings concurrently
-    const [summary, adminInfo] = await Promise.all([
-      getTodayAttendanceSummary(),
-      getAdminContactInfo()
-    ]);
-
-    if (!adminInfo.notification_preferences?.whatsapp || !adminInfo.whatsapp) {
-      console.log('WhatsApp sharing is disabled or no numbers configured');
-      return false;
+    const result = await notifyAdmins(buildDailySummaryNotification(dateLabel, summary));
+    if (!result.success) {
+      console.log('Attendance summary was not sent:', result.message);
     }
-
-    // Format date
-    const dateOptions: Intl.DateTimeFormatOptions = { 
-      weekday: 'long', 
-      year: 'numeric', 
-      month: 'long', 
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    };
-    const formattedDate = new Date().toLocaleDateString('en-US', dateOptions);
-
-    // Create comprehensive summary message
-    const message = 
-`🏢 *COMPREHENSIVE ATTENDANCE REPORT*
-━━━━━━━━━━━━━━━━━━━━━
-📅 ${formattedDate}
-━━━━━━━━━━━━━━━━━━━━━
-
-📊 *OVERALL SUMMARY*
-• Total Employees: ${summary.totalEmployees}
-• Currently Present: ${summary.presentCount} 👥
-• Late but Present: ${summary.lateCount} ⏰
-• Absent: ${summary.absentCount} ❌
-• Checked Out: ${summary.checkedOutCount} 🏃
-
-📈 *PERFORMANCE METRICS*
-• Attendance Rate: ${summary.totalPresentRate}%
-• Punctuality Rate: ${(100 - Number(summary.lateRate)).toFixed(1)}%
-• Efficiency Rate: ${summary.detailed.efficiencyRate}%
-• Absence Rate: ${summary.absentRate}%
-
-⏰ *DETAILED ATTENDANCE*
-• On Time Arrivals: ${summary.detailed.onTime} ✅
-• Late Arrivals: ${summary.detailed.lateArrivals} ⏰
-• Very Late (>30min): ${summary.detailed.veryLate} ⚠️
-• Half Day: ${summary.detailed.halfDay} 📅
-• Early Departures: ${summary.detailed.earlyDepartures} 🚶
-• Working Overtime: ${summary.detailed.overtime} 💪
-
-💼 *CURRENT WORKPLACE STATUS*
-• Still Working: ${summary.stillWorking}
-• Currently Present: ${summary.presenceBreakdown.currentlyPresent}
-• Late but Present: ${summary.presenceBreakdown.lateButPresent}
-• Checked Out: ${summary.presenceBreakdown.checkedOut}
-
-⚡ *PRODUCTIVITY METRICS*
-• Regular Hours Worked: ${summary.detailed.regularHours.toFixed(1)}h
-• Attendance Rate: ${summary.detailed.attendanceRate}%
-• Efficiency Rate: ${summary.detailed.efficiencyRate}%
-• Punctuality Rate: ${summary.detailed.punctualityRate}%
-
-⚠️ *ATTENTION REQUIRED*
-${summary.lateCount > 0 ? `• Late Arrivals: ${summary.lateCount} staff\n` : ''}${summary.detailed.veryLate > 0 ? `• Very Late Arrivals: ${summary.detailed.veryLate} staff\n` : ''}${summary.absentCount > 0 ? `• Unplanned Absences: ${summary.absentCount} staff\n` : ''}${summary.detailed.earlyDepartures > 0 ? `• Early Departures: ${summary.detailed.earlyDepartures} staff\n` : ''}${summary.detailed.halfDay > 0 ? `• Half Day: ${summary.detailed.halfDay} staff\n` : ''}
-
-Generated by QR Attendance System
-Time: ${new Date().toLocaleTimeString()}
-━━━━━━━━━━━━━━━━━━━━━`;
-
-    // Process WhatsApp number
-    const number = adminInfo.whatsapp.trim().replace(/\D/g, '');
-    
-    // Ensure proper number format
-    const formattedNumber = number.startsWith('0') 
-      ? '94' + number.substring(1)
-      : number.startsWith('94') 
-        ? number 
-        : '94' + number;
-
-    // Create WhatsApp URL
-    const encodedMessage = encodeURIComponent(message);
-    const whatsappUrl = `https://api.whatsapp.com/send?phone=${formattedNumber}&text=${encodedMessage}`;
-    
-    return whatsappUrl;
+    return result.success;
   } catch (error) {
     console.error('Error in autoShareAttendanceSummary:', error);
     return false;
@@ -808,132 +715,99 @@ export const recordAttendanceCheckIn = async (employeeId: string) => {
   }
 };
 
-export const determineNextAttendanceAction = async (employeeId: string) => {
+// Shift window and session limit from the employee's active roster, null when none is set
+const getActiveRoster = async (
+  employeeId: string
+): Promise<{ max_sessions: number | null; start_time: string; end_time: string } | null> => {
+  const { data, error } = await supabase
+    .from('rosters')
+    .select('max_sessions, start_time, end_time')
+    .eq('employee_id', employeeId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching active roster:', error);
+    return null;
+  }
+  return data;
+};
+
+export const determineNextAttendanceAction = async (employeeId: string): Promise<AttendanceAction | 'completed'> => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const roster = await getActiveRoster(employeeId);
+    const today = getBusinessDate(new Date(), roster);
     const { data, error } = await supabase
       .from('attendance')
-      .select('check_in_time, check_out_time')
+      .select('first_check_in_time, first_check_out_time, second_check_in_time, second_check_out_time, sessions')
       .eq('employee_id', employeeId)
       .eq('date', today)
       .order('created_at', { ascending: false })
       .limit(1)
-      .single();
-
-    if (error || !data) {
-      // No record for today, allow check-in
-      return 'check-in';
-    }
+      .maybeSingle();
 
-    // If no check-out time exists, prevent another check-in
-    if (!data.check_out_time) {
-      throw new Error('You have already checked in today. Please check out at the end of your day.');
+    if (error) {
+      throw error;
     }
 
-    // If checked out, allow check-in for the next day
-    return 'check-in';
+    return getNextAction(data, getRulesForRoster(roster));
   } catch (error) {
     console.error('Error determining attendance action:', error);
-    return 'check-in';
+    return 'first_check_in';
   }
 };
 
-export const singleScanAttendance = async (employeeId: string) => {
+/**
+ * Record the next punch for an employee. `scannedAt` lets the offline queue
+ * replay a scan with the time it was captured on the device instead of now.
+ * `badge` is the scanned QR code; the record_attendance_punch RPC checks it
+ * again (kiosks cannot punch without one) and then runs the attendance state
+ * machine in the database.
+ */
+export const singleScanAttendance = async (
+  employeeId: string,
+  options: { scannedAt?: string; badge?: string } = {}
+) => {
   try {
-    // First validate that the employee exists
-    const { data: employee, error: employeeError } = await supabase
-      .from('employees')
-      .select('id, first_name, last_name, status')
-      .eq('id', employeeId)
-      .single();
+    const scannedAt = options.scannedAt ? new Date(options.scannedAt).toISOString() : null;
 
-    if (employeeError || !employee) {
-      throw new Error('Employee not found or invalid employee ID');
-    }
-
-    if (employee.status !== 'active') {
-      throw new Error('Employee is not active in the system');
-    }
-
-    // Get today's date
-    const today = new Date().toISOString().split('T')[0];
+    const { data, error } = await supabase.rpc('record_attendance_punch', {
+      p_employee_id: employeeId,
+      p_scanned_at: scannedAt,
+      p_badge: options.badge ?? null
+    });
 
-    // Check for existing attendance record
-    const { data: existingRecord, error: existingError } = await supabase
-      .from('attendance')
-      .select('*')
-      .eq('employee_id', employeeId)
-      .eq('date', today)
-      .order('created_at', { ascending: false })
-      .maybeSingle();
-    
-    if (existingError) {
-      console.error('Error checking existing attendance:', existingError);
-      throw new Error('Failed to check existing attendance');
+    // Passed on as is so the offline queue can tell connectivity failures apart
+    if (error) {
+      console.error('Error recording attendance punch:', error);
+      throw error;
     }
 
-    // Determine the next action based on existing record
-    let nextAction = 'FIRST_CHECK_IN';
-    if (existingRecord) {
-      if (!existingRecord.first_check_out_time) {
-        nextAction = 'FIRST_CHECK_OUT';
-      } else if (!existingRecord.second_check_in_time) {
-        nextAction = 'SECOND_CHECK_IN';
-      } else if (!existingRecord.second_check_out_time) {
-        nextAction = 'SECOND_CHECK_OUT';
-      } else {
-        throw new Error('All attendance actions completed for today');
-      }
+    if (data?.status !== 'Success') {
+      throw new AttendanceError(
+        data?.message || 'Failed to record attendance',
+        data?.reason || 'ATTENDANCE_ERROR',
+        { employeeId, scannedAt }
+      );
     }
 
-    // Process the attendance based on the next action
-    let result;
-    const currentTime = new Date().toISOString();
-
-    if (nextAction === 'FIRST_CHECK_IN') {
-      const { data, error } = await supabase
-        .from('attendance')
-        .insert({
-          employee_id: employeeId,
-          date: today,
-          first_check_in_time: currentTime,
-          status: 'PRESENT',
-          is_second_session: false
-        })
-        .select()
-        .single();
-
-      if (error) throw new Error('Failed to record first check-in');
-      result = data;
-    } else {
-      // Update existing record
-      const updateData = {
-        first_check_out_time: nextAction === 'FIRST_CHECK_OUT' ? currentTime : existingRecord.first_check_out_time,
-        second_check_in_time: nextAction === 'SECOND_CHECK_IN' ? currentTime : existingRecord.second_check_in_time,
-        second_check_out_time: nextAction === 'SECOND_CHECK_OUT' ? currentTime : existingRecord.second_check_out_time,
-        status: nextAction === 'SECOND_CHECK_OUT' ? 'COMPLETED' : 
-                nextAction === 'FIRST_CHECK_OUT' ? 'ON_BREAK' : 'PRESENT',
-        is_second_session: nextAction === 'SECOND_CHECK_IN' || nextAction === 'SECOND_CHECK_OUT'
-      };
+    const result = data.record;
 
-      const { data, error } = await supabase
-        .from('attendance')
-        .update(updateData)
-        .eq('id', existingRecord.id)
-        .select()
-        .single();
-
-      if (error) throw new Error(`Failed to record ${nextAction.toLowerCase()}`);
-      result = data;
+    // A closed session can move this day (or later ones this week) into overtime
+    if (data.punch === 'check_out') {
+      recalculateOvertimeForWeek(employeeId, result.date).catch(error =>
+        console.error('Error recalculating overtime:', error)
+      );
     }
 
-    // Return the result with employee name
     return {
       ...result,
-      employeeName: `${employee.first_name} ${employee.last_name}`,
-      timestamp: currentTime,
-      action: nextAction,
-      message: `Successfully recorded ${nextAction.toLowerCase().replace('_', ' ')}`
+      employeeName: data.employee_name,
+      timestamp: data.punched_at,
+      action: data.action,
+      message: data.message
     };
   } catch (error) {
     console.error('Single scan attendance error:', error);
@@ -1005,8 +879,8 @@ export async function getEmployeeRoster(employeeId: string): Promise<any> {
               employee_id: employeeId,
       department_id: employee?.department_id,
       position: employee?.position || 'General',
-              start_date: new Date().toISOString().split('T')[0],
-      end_date: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+              start_date: getDateInTimezone(),
+      end_date: addDaysToDate(getDateInTimezone(), 365),
               start_time: '09:00:00',
               end_time: '17:00:00',
               break_start: '13:00:00',
@@ -1065,6 +939,15 @@ export const markAttendance = async (
       };
     }
 
+    const lockedPeriod = await getClosedPayPeriod(getDateInTimezone());
+    if (lockedPeriod) {
+      return {
+        success: false,
+        message: getPayPeriodLockMessage(lockedPeriod),
+        action: nextAction.toUpperCase()
+      };
+    }
+
     // Validate that the requested action matches the next valid action
     if (action !== nextAction) {
     return {
@@ -1075,7 +958,7 @@ export const markAttendance = async (
     }
 
     // Record the attendance
-    const result = await recordAttendance(employeeId);
+    const result = await singleScanAttendance(employeeId);
 
     if (!result) {
       return {
@@ -1172,7 +1055,16 @@ export const calculateAttendanceMetrics = async (
     throw new Error('Error fetching attendance metrics');
     }
 
-  const metrics = data.reduce((acc, record) => {
+  // Holidays and rostered off days are not expected working days
+  const { data: employee } = await supabase
+    .from('employees')
+    .select('id, department_id, home_site_id')
+    .eq('id', employeeId)
+    .single();
+  const nonWorking = await getNonWorkingDates([employee || { id: employeeId }], startDate, endDate);
+  const workingDates = new Set(getWorkingDates(getDatesInRange(startDate, endDate), nonWorking, employeeId));
+
+  const metrics = data.filter(record => workingDates.has(record.date)).reduce((acc, record) => {
     acc.totalLateMinutes += record.minutes_late || 0;
     acc.totalEarlyDepartureMinutes += record.early_departure_minutes || 0;
     acc.totalActualHours += record.actual_hours || 0;
@@ -1189,10 +1081,7 @@ export const calculateAttendanceMetrics = async (
     daysPresent: 0
   });
 
-  // Calculate total working days in the date range
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  const totalDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  const totalDays = workingDates.size;
 
     return {
     totalDays,
@@ -1202,7 +1091,7 @@ export const calculateAttendanceMetrics = async (
     totalEarlyDepartureMinutes: metrics.totalEarlyDepartureMinutes,
     averageWorkingHours: metrics.daysPresent ? metrics.totalActualHours / metrics.daysPresent : 0,
     rosterComplianceRate: metrics.daysPresent ? metrics.totalComplianceRate / metrics.daysPresent : 0,
-    attendancePercentage: (metrics.daysPresent / totalDays) * 100
+    attendancePercentage: totalDays ? (metrics.daysPresent / totalDays) * 100 : 0
   };
 };
 
@@ -1241,46 +1130,15 @@ export const getEffectiveStatus = (record: {
   }
 };
 
-// Calculate working time for an attendance record
-export const calculateWorkingTime = (record: {
-  first_check_in_time?: string | null;
-  first_check_out_time?: string | null;
-  second_check_in_time?: string | null;
-  second_check_out_time?: string | null;
-  break_duration?: number | null;
-}): string => {
-  if (!record.first_check_in_time) {
+// Calculate working time for an attendance record across all of its sessions
+export const calculateWorkingTime = (record: AttendancePunches): string => {
+  const { sessionCount, workedMinutes } = calculateSessionTotals(record);
+  if (sessionCount === 0) {
     return '0h';
   }
 
-  const now = new Date();
-  let totalMinutes = 0;
-
-  // Calculate first session duration
-  const firstCheckIn = new Date(record.first_check_in_time);
-  const firstCheckOut = record.first_check_out_time ? new Date(record.first_check_out_time) : null;
-
-  if (firstCheckOut) {
-    totalMinutes += (firstCheckOut.getTime() - firstCheckIn.getTime()) / (1000 * 60);
-  } else {
-    // Ongoing first session
-    totalMinutes += (now.getTime() - firstCheckIn.getTime()) / (1000 * 60);
-    return `${Math.max(0, Math.round(totalMinutes / 60))}h`;
-  }
-
-  // Calculate second session duration if exists
-  if (record.second_check_in_time) {
-    const secondCheckIn = new Date(record.second_check_in_time);
-    const secondCheckOut = record.second_check_out_time ? new Date(record.second_check_out_time) : now;
-    totalMinutes += (secondCheckOut.getTime() - secondCheckIn.getTime()) / (1000 * 60);
-  }
-
-  // Subtract break duration if available and both sessions exist
-  if (record.break_duration && record.first_check_out_time && record.second_check_in_time) {
-    totalMinutes -= record.break_duration;
-  }
-
-  return `${Math.max(0, Math.round(totalMinutes / 60))}h`;
+  // Breaks are the gaps between sessions, so they are already excluded
+  return `${Math.max(0, Math.round(workedMinutes / 60))}h`;
 };
 
 // Create a test attendance record for testing purposes
@@ -1298,7 +1156,7 @@ export const createTestAttendanceRecord = (
   } = {}
 ) => {
   const now = new Date();
-  const defaultDate = now.toISOString().split('T')[0];
+  const defaultDate = getDateInTimezone(now);
   
   return {
     id: `test-${Date.now()}`,
@@ -1345,6 +1203,14 @@ export const deleteAttendance = async (
       };
     }
 
+    const lockedPeriod = await getClosedPayPeriod(record.date);
+    if (lockedPeriod) {
+      return {
+        success: false,
+        message: getPayPeriodLockMessage(lockedPeriod)
+      };
+    }
+
     // Delete the attendance record
     const { error: deleteError } = await supabase
       .from('attendance')
@@ -1432,17 +1298,11 @@ export const saveAdminContactInfo = async (
   }
 };
 
-interface AttendanceSession {
-  first_check_in_time: string | null;
-  first_check_out_time: string | null;
-  second_check_in_time: string | null;
-  second_check_out_time: string | null;
-}
-
-export const getNextAttendanceAction = async (employeeId: string): Promise<'first_check_in' | 'first_check_out' | 'second_check_in' | 'second_check_out' | 'completed'> => {
-  const today = new Date().toISOString().split('T')[0];
-  
+export const getNextAttendanceAction = async (employeeId: string): Promise<AttendanceAction | 'completed'> => {
   try {
+    const roster = await getActiveRoster(employeeId);
+    const today = getBusinessDate(new Date(), roster);
+
     const { data: record, error } = await supabase
       .from('attendance')
       .select('*')
@@ -1455,39 +1315,18 @@ export const getNextAttendanceAction = async (employeeId: string): Promise<'firs
       return 'first_check_in';
     }
 
-    // No record exists - start with first check in
-    if (!record) {
-      return 'first_check_in';
-    }
-
-    // Determine next action based on existing timestamps
-    if (!record.first_check_in_time) {
-      return 'first_check_in';
-    }
-    
-    if (!record.first_check_out_time) {
-      return 'first_check_out';
-    }
-    
-    if (!record.second_check_in_time) {
-      return 'second_check_in';
-    }
-    
-    if (!record.second_check_out_time) {
-      return 'second_check_out';
-    }
-
-    return 'completed';
+    return getNextAction(record, getRulesForRoster(roster));
   } catch (error) {
     console.error('Error in getNextAttendanceAction:', error);
     return 'first_check_in';
   }
 };
 
-export const getCurrentAttendanceState = async (employeeId: string): Promise<'not_checked_in' | 'first_checked_in' | 'first_checked_out' | 'second_checked_in' | 'second_checked_out'> => {
-  const today = new Date().toISOString().split('T')[0];
-  
+export const getCurrentAttendanceState = async (employeeId: string): Promise<AttendanceState> => {
   try {
+    const roster = await getActiveRoster(employeeId);
+    const today = getBusinessDate(new Date(), roster);
+
     const { data: record, error } = await supabase
           .from('attendance')
       .select('*')
@@ -1495,27 +1334,11 @@ export const getCurrentAttendanceState = async (employeeId: string): Promise<'no
       .eq('date', today)
       .maybeSingle();
 
-    if (error || !record) {
+    if (error) {
       return 'not_checked_in';
     }
 
-    if (record.second_check_out_time) {
-      return 'second_checked_out';
-    }
-    
-    if (record.second_check_in_time) {
-      return 'second_checked_in';
-    }
-    
-    if (record.first_check_out_time) {
-      return 'first_checked_out';
-    }
-    
-    if (record.first_check_in_time) {
-      return 'first_checked_in';
-    }
-
-    return 'not_checked_in';
+    return getAttendanceState(record);
   } catch (error) {
     console.error('Error in getCurrentAttendanceState:', error);
     return 'not_checked_in';
@@ -1524,7 +1347,8 @@ export const getCurrentAttendanceState = async (employeeId: string): Promise<'no
 
 // Helper function to format duration
 export const formatDuration = (minutes: number): string => {
-  const hours = Math.floor(minutes / 60);
-  const remainingMinutes = minutes % 60;
+  const totalMinutes = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(totalMinutes / 60);
+  const remainingMinutes = totalMinutes % 60;
   return `${hours}h ${remainingMinutes}m`;
 };
\ No newline at end of file
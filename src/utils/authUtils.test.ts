@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/supabaseMock';
+import { APP_ROLES, ROUTE_ROLES, getHomePath, hasPermission, loadCurrentRole, updateUserRole } from './authUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+const mockRoleLookup = (response: { data: unknown; error: unknown }) => {
+  (supabase.from as Mock).mockReturnValue(mockQuery(response));
+};
+
+describe('permissions', () => {
+  it('only lets admins and HR delete attendance and gate passes', () => {
+    const allowed = APP_ROLES.filter(role => hasPermission(role, 'attendance.delete'));
+    expect(allowed).toEqual(['super_admin', 'hr']);
+    expect(APP_ROLES.filter(role => hasPermission(role, 'gatepass.delete'))).toEqual(allowed);
+  });
+
+  it('keeps user management with super admins', () => {
+    expect(APP_ROLES.filter(role => hasPermission(role, 'users.manage'))).toEqual(['super_admin']);
+  });
+
+  it('lets department heads approve gate passes but not guards or kiosks', () => {
+    expect(APP_ROLES.filter(role => hasPermission(role, 'gatepass.approve'))).toEqual(['super_admin', 'hr', 'department_manager']);
+  });
+
+  it('lets security register visitors alongside admins and HR', () => {
+    expect(APP_ROLES.filter(role => hasPermission(role, 'visitors.register'))).toEqual(['super_admin', 'hr', 'security_guard']);
+  });
+
+  it('grants nothing without a role', () => {
+    expect(hasPermission(null, 'gatepass.issue')).toBe(false);
+    expect(hasPermission(undefined, 'gatepass.issue')).toBe(false);
+  });
+});
+
+describe('route roles', () => {
+  // The payroll, report and settings tables only answer these roles
+  it('keeps payroll and the bot dashboard with HR and super admins', () => {
+    expect(ROUTE_ROLES.payroll).toEqual(['super_admin', 'hr']);
+    expect(ROUTE_ROLES.bot).toEqual(['super_admin', 'hr']);
+  });
+});
+
+describe('home paths', () => {
+  it('lands every role on a route it may open', () => {
+    for (const role of APP_ROLES) {
+      const path = getHomePath(role);
+      const route = path === '/' ? 'home' : path === '/gatepass' ? 'gatePass' : path === '/check-in' ? 'checkIn' : 'scan';
+      expect(ROUTE_ROLES[route]).toContain(role);
+    }
+  });
+});
+
+describe('role changes', () => {
+  it('requires a department for department managers', async () => {
+    const result = await updateUserRole('user-1', 'department_manager', null);
+    expect(result).toEqual({ success: false, message: 'Department managers need a department' });
+  });
+
+  it('requires an employee for employee accounts', async () => {
+    const result = await updateUserRole('user-1', 'employee', null, null);
+    expect(result).toEqual({ success: false, message: 'Employee accounts need an employee' });
+  });
+});
+
+describe('loadCurrentRole', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('still loads the role when the first super admin check fails', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: null, error: { message: 'Failed to fetch' } });
+    mockRoleLookup({ data: { role: 'hr', department_id: null, employee_id: null }, error: null });
+
+    expect(await loadCurrentRole('user-1')).toEqual({ role: 'hr', department_id: null, employee_id: null });
+    expect(supabase.rpc).toHaveBeenCalledWith('claim_first_super_admin');
+  });
+
+  it('returns null for users who have not been given a role', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: null, error: null });
+    mockRoleLookup({ data: null, error: null });
+
+    expect(await loadCurrentRole('user-1')).toBeNull();
+  });
+});
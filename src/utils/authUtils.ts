@@ -0,0 +1,246 @@
+// Auth Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { APP_ROLES, AppRole } from '../../supabase/functions/_shared/roles';
+
+/**
+ * Users sign in with Supabase Auth and hold one role from `user_roles`. Row
+ * level security enforces the same roles in the database (see the
+ * roles_and_rls migration); the permissions here only decide which routes and
+ * actions the app offers, so a hidden button is never the only guard.
+ */
+
+export { APP_ROLES };
+export type { AppRole };
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  super_admin: 'Super Admin',
+  hr: 'HR',
+  department_manager: 'Department Manager',
+  security_guard: 'Security Guard',
+  kiosk: 'Kiosk Device',
+  employee: 'Employee'
+};
+
+export type Permission =
+  | 'attendance.delete'
+  | 'employees.manage'
+  | 'gatepass.issue'
+  | 'gatepass.approve'
+  | 'gatepass.delete'
+  | 'visitors.register'
+  | 'settings.manage'
+  | 'devices.manage'
+  | 'users.manage';
+
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  super_admin: ['attendance.delete', 'employees.manage', 'gatepass.issue', 'gatepass.approve', 'gatepass.delete', 'visitors.register', 'settings.manage', 'devices.manage', 'users.manage'],
+  hr: ['attendance.delete', 'employees.manage', 'gatepass.issue', 'gatepass.approve', 'gatepass.delete', 'visitors.register', 'settings.manage', 'devices.manage'],
+  department_manager: ['gatepass.issue', 'gatepass.approve'],
+  security_guard: ['visitors.register'],
+  kiosk: [],
+  employee: []
+};
+
+// Roles allowed on each route in App.tsx
+export const ROUTE_ROLES = {
+  home: ['super_admin', 'hr', 'department_manager'],
+  roster: ['super_admin', 'hr', 'department_manager'],
+  // Kiosks at the gate record exit and return times
+  gatePass: ['super_admin', 'hr', 'department_manager', 'security_guard', 'kiosk'],
+  bot: ['super_admin', 'hr'],
+  leave: ['super_admin', 'hr', 'department_manager'],
+  payroll: ['super_admin', 'hr'],
+  scan: ['super_admin', 'hr', 'kiosk'],
+  // Employees check themselves in from their own phones
+  checkIn: ['employee'],
+  // Rotating site code shown at reception for self check-in
+  siteCode: ['super_admin', 'hr', 'kiosk']
+} satisfies Record<string, AppRole[]>;
+
+export interface CurrentRole {
+  role: AppRole;
+  department_id: string | null;
+  // Required for employees, ignored for everyone else
+  employee_id: string | null;
+}
+
+export interface UserRole extends CurrentRole {
+  user_id: string;
+  email: string;
+  created_at: string;
+}
+
+export const hasPermission = (role: AppRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Where a user lands after signing in
+export const getHomePath = (role: AppRole): string => {
+  switch (role) {
+    case 'security_guard':
+      return '/gatepass';
+    case 'kiosk':
+      return '/scan';
+    case 'employee':
+      return '/check-in';
+    default:
+      return '/';
+  }
+};
+
+export const signIn = async (email: string, password: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) {
+    console.error('Error signing in:', error);
+    return { success: false, message: error.message === 'Invalid login credentials' ? 'Wrong email or password' : error.message };
+  }
+  return { success: true, message: 'Signed in' };
+};
+
+// Invitation and reset links land on the login page signed in, to choose a password
+const getSetPasswordUrl = () => `${window.location.origin}/login?setPassword=1`;
+
+export const requestPasswordReset = async (email: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), { redirectTo: getSetPasswordUrl() });
+  if (error) {
+    console.error('Error requesting password reset:', error);
+    return { success: false, message: error.message };
+  }
+  return { success: true, message: `A reset link was sent to ${email.trim()}` };
+};
+
+export const setPassword = async (password: string): Promise<{ success: boolean; message: string }> => {
+  if (password.length < 8) {
+    return { success: false, message: 'Use at least 8 characters' };
+  }
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) {
+    console.error('Error setting password:', error);
+    return { success: false, message: error.message };
+  }
+  return { success: true, message: 'Password saved' };
+};
+
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+  if (error) console.error('Error signing out:', error);
+};
+
+/**
+ * The signed-in user's role, or null when none has been given yet. The very
+ * first user to sign in is made super admin so the system can be set up.
+ */
+export const loadCurrentRole = async (userId: string): Promise<CurrentRole | null> => {
+  const { error: claimError } = await supabase.rpc('claim_first_super_admin');
+  if (claimError) console.error('Error checking first super admin:', claimError);
+
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role, department_id, employee_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading user role:', error);
+    throw error;
+  }
+  return data as CurrentRole | null;
+};
+
+export const getUserRoles = async (): Promise<UserRole[]> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('user_id, email, role, department_id, employee_id, created_at')
+    .order('email');
+
+  if (error) {
+    console.error('Error fetching user roles:', error);
+    throw error;
+  }
+  return (data || []) as UserRole[];
+};
+
+export const updateUserRole = async (
+  userId: string,
+  role: AppRole,
+  departmentId: string | null,
+  employeeId: string | null = null
+): Promise<{ success: boolean; message: string }> => {
+  if (role === 'department_manager' && !departmentId) {
+    return { success: false, message: 'Department managers need a department' };
+  }
+  if (role === 'employee' && !employeeId) {
+    return { success: false, message: 'Employee accounts need an employee' };
+  }
+
+  const { error } = await supabase
+    .from('user_roles')
+    .update({
+      role,
+      department_id: role === 'department_manager' ? departmentId : null,
+      employee_id: role === 'employee' ? employeeId : null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error updating user role:', error);
+    return {
+      success: false,
+      message: error.code === '23505' ? 'That employee already has an account' : 'Failed to update role'
+    };
+  }
+  return { success: true, message: `Role changed to ${ROLE_LABELS[role]}` };
+};
+
+// Removes the role; the account remains but can no longer open any page
+export const removeUserRole = async (userId: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.from('user_roles').delete().eq('user_id', userId);
+
+  if (error) {
+    console.error('Error removing user role:', error);
+    return { success: false, message: 'Failed to remove access' };
+  }
+  return { success: true, message: 'Access removed' };
+};
+
+export const inviteUser = async (
+  email: string,
+  role: AppRole,
+  departmentId: string | null,
+  employeeId: string | null = null
+): Promise<{ success: boolean; message: string }> => {
+  const { data, error } = await supabase.functions.invoke('invite_user', {
+    body: { email, role, departmentId, employeeId, redirectTo: getSetPasswordUrl() }
+  });
+
+  if (error) {
+    console.error('Error inviting user:', error);
+    return { success: false, message: data?.error || 'Failed to invite user' };
+  }
+  return { success: true, message: `Invitation sent to ${email}` };
+};
+
+// Departments a manager can be assigned to
+export const getDepartmentOptions = async (): Promise<{ id: string; name: string }[]> => {
+  const { data, error } = await supabase.from('departments').select('id, name').order('name');
+
+  if (error) {
+    console.error('Error fetching departments:', error);
+    throw error;
+  }
+  return data || [];
+};
+
+// Employees an employee account can be linked to
+export const getEmployeeOptions = async (): Promise<{ id: string; name: string }[]> => {
+  const { data, error } = await supabase
+    .from('employees')
+    .select('id, first_name, last_name')
+    .order('first_name');
+
+  if (error) {
+    console.error('Error fetching employees:', error);
+    throw error;
+  }
+  return (data || []).map(employee => ({ id: employee.id, name: `${employee.first_name} ${employee.last_name}` }));
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import {
+  createSignedBadge,
+  decodeSignedBadge,
+  DEFAULT_LEGACY_BADGE_ACCEPT_UNTIL,
+  encodeBase64Url,
+  isLegacyBadgeAccepted,
+  SignedBadgePayload,
+  verifyBadgeSignature
+} from './badgeUtils';
+
+// The signature helpers never reach the database
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    functions: { invoke: vi.fn() },
+  },
+}));
+
+describe('signed employee badges', () => {
+  const payload: SignedBadgePayload = {
+    v: 1,
+    eid: 'employee-123',
+    iat: '2025-07-01',
+    kid: 'k1',
+    sn: 'BTESTSERIAL',
+  };
+
+  let privateKey: CryptoKey;
+  let publicKeys: Record<string, string>;
+
+  beforeAll(async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    privateKey = keyPair.privateKey;
+    const rawPublicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    publicKeys = { k1: encodeBase64Url(new Uint8Array(rawPublicKey)) };
+  });
+
+  it('round-trips a signed badge', async () => {
+    const qrData = await createSignedBadge(payload, privateKey);
+    const decoded = decodeSignedBadge(qrData);
+
+    expect(qrData.startsWith('EMP2.')).toBe(true);
+    expect(decoded?.payload).toEqual(payload);
+    expect(await verifyBadgeSignature(decoded!, publicKeys)).toEqual({ valid: true });
+  });
+
+  it('rejects a badge whose payload was altered', async () => {
+    const qrData = await createSignedBadge(payload, privateKey);
+    const [prefix, , signature] = qrData.split('.');
+    const forgedPayload = encodeBase64Url(
+      new TextEncoder().encode(JSON.stringify({ ...payload, eid: 'employee-999' }))
+    );
+
+    const decoded = decodeSignedBadge(`${prefix}.${forgedPayload}.${signature}`);
+
+    expect(decoded?.payload.eid).toBe('employee-999');
+    expect(await verifyBadgeSignature(decoded!, publicKeys)).toEqual({ valid: false, reason: 'bad_signature' });
+  });
+
+  it('rejects badges signed with an unknown key or version', async () => {
+    const unknownKey = decodeSignedBadge(await createSignedBadge({ ...payload, kid: 'k9' }, privateKey));
+    const futureVersion = decodeSignedBadge(await createSignedBadge({ ...payload, v: 2 }, privateKey));
+
+    expect(await verifyBadgeSignature(unknownKey!, publicKeys)).toEqual({ valid: false, reason: 'unknown_key' });
+    expect(await verifyBadgeSignature(futureVersion!, publicKeys)).toEqual({ valid: false, reason: 'unsupported_version' });
+  });
+
+  it('does not decode legacy or malformed codes as signed badges', () => {
+    expect(decodeSignedBadge('EMP:employee-123:Jane Doe')).toBeNull();
+    expect(decodeSignedBadge('EMP2.not-json.sig')).toBeNull();
+    expect(decodeSignedBadge('EMP2.only-two')).toBeNull();
+  });
+});
+
+describe('isLegacyBadgeAccepted', () => {
+  it('closes the window at the default cut-off when none is configured', () => {
+    vi.stubEnv('VITE_LEGACY_BADGE_ACCEPT_UNTIL', '');
+    try {
+      expect(isLegacyBadgeAccepted(new Date(`${DEFAULT_LEGACY_BADGE_ACCEPT_UNTIL}T12:00:00`))).toBe(true);
+      expect(isLegacyBadgeAccepted(new Date('2030-01-01T00:00:00'))).toBe(false);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('refuses legacy badges when the cut-off cannot be read', () => {
+    expect(isLegacyBadgeAccepted(new Date('2025-01-01T00:00:00'), 'next year')).toBe(false);
+    expect(isLegacyBadgeAccepted(new Date('2025-01-01T00:00:00'), '2025-02-31')).toBe(false);
+  });
+
+  it('accepts legacy badges through the end of the cut-off day only', () => {
+    expect(isLegacyBadgeAccepted(new Date('2025-09-30T23:00:00'), '2025-09-30')).toBe(true);
+    expect(isLegacyBadgeAccepted(new Date('2025-10-01T00:01:00'), '2025-09-30')).toBe(false);
+  });
+});
@@ -0,0 +1,268 @@
+// Signed Employee Badge Utilities
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Signed badges are encoded as `EMP2.<payload>.<signature>` where both parts are
+ * base64url. The payload is signed with Ed25519 by the `issue_employee_badge`
+ * edge function; kiosks only ever hold the public keys.
+ */
+export const SIGNED_BADGE_PREFIX = 'EMP2';
+export const SIGNED_BADGE_VERSION = 1;
+
+// Last day plain badges are accepted when VITE_LEGACY_BADGE_ACCEPT_UNTIL is not
+// set; the same default as admin_settings.legacy_badge_accepted_until
+export const DEFAULT_LEGACY_BADGE_ACCEPT_UNTIL = '2025-12-31';
+
+export interface SignedBadgePayload {
+  v: number;   // payload version
+  eid: string; // employee id
+  iat: string; // issue date (YYYY-MM-DD)
+  kid: string; // signing key id
+  sn: string;  // badge serial
+}
+
+export interface DecodedSignedBadge {
+  payload: SignedBadgePayload;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+export interface EmployeeBadge {
+  id: string;
+  employee_id: string;
+  serial: string;
+  key_id: string;
+  qr_data: string;
+  issued_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revocation_reason: string | null;
+}
+
+export type BadgeVerificationFailure =
+  | 'malformed'
+  | 'unsupported_version'
+  | 'unknown_key'
+  | 'bad_signature'
+  | 'unknown_badge'
+  | 'revoked'
+  | 'legacy_not_accepted'
+  | 'inactive_employee'
+  | 'unavailable';
+
+export interface BadgeVerificationResult {
+  valid: boolean;
+  format: 'signed' | 'legacy' | 'unknown';
+  employeeId: string | null;
+  serial?: string;
+  reason?: BadgeVerificationFailure;
+  message: string;
+}
+
+export interface BadgeConfig {
+  // Ed25519 public keys (raw, base64url) indexed by key id
+  publicKeys: Record<string, string>;
+  // Last day plain `EMP:<id>:<name>` badges are accepted (YYYY-MM-DD)
+  legacyAcceptedUntil: string;
+}
+
+export const getBadgeConfig = (): BadgeConfig => {
+  let publicKeys: Record<string, string> = {};
+  try {
+    publicKeys = JSON.parse(import.meta.env.VITE_BADGE_PUBLIC_KEYS || '{}');
+  } catch (error) {
+    console.error('Invalid VITE_BADGE_PUBLIC_KEYS value:', error);
+  }
+
+  return {
+    publicKeys,
+    legacyAcceptedUntil: import.meta.env.VITE_LEGACY_BADGE_ACCEPT_UNTIL || DEFAULT_LEGACY_BADGE_ACCEPT_UNTIL
+  };
+};
+
+export const encodeBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/**
+ * Split a scanned string into its signed badge parts. Returns null for anything
+ * that is not structurally a signed badge; the signature is NOT checked here.
+ */
+export const decodeSignedBadge = (qrData: string): DecodedSignedBadge | null => {
+  const parts = qrData.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== SIGNED_BADGE_PREFIX) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(decodeBase64Url(parts[1])));
+    if (!payload || typeof payload.eid !== 'string' || typeof payload.kid !== 'string' || typeof payload.sn !== 'string') {
+      return null;
+    }
+
+    return {
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: decodeBase64Url(parts[2])
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build a signed badge string. Used by tests and mirrors the edge function;
+ * the private key never ships to the browser.
+ */
+export const createSignedBadge = async (
+  payload: SignedBadgePayload,
+  privateKey: CryptoKey
+): Promise<string> => {
+  const encodedPayload = encodeBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signingInput = `${SIGNED_BADGE_PREFIX}.${encodedPayload}`;
+  const signature = await crypto.subtle.sign('Ed25519', privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Check the version and Ed25519 signature of a decoded badge against the
+ * configured public keys. Signed gate passes use the same keys and check.
+ */
+export const verifyBadgeSignature = async (
+  badge: Pick<DecodedSignedBadge, 'signingInput' | 'signature'> & { payload: { v: number; kid: string } },
+  publicKeys: Record<string, string> = getBadgeConfig().publicKeys
+): Promise<{ valid: boolean; reason?: BadgeVerificationFailure }> => {
+  if (badge.payload.v !== SIGNED_BADGE_VERSION) {
+    return { valid: false, reason: 'unsupported_version' };
+  }
+
+  const rawKey = publicKeys[badge.payload.kid];
+  if (!rawKey) {
+    return { valid: false, reason: 'unknown_key' };
+  }
+
+  try {
+    const key = await crypto.subtle.importKey('raw', decodeBase64Url(rawKey), { name: 'Ed25519' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      'Ed25519',
+      key,
+      badge.signature,
+      new TextEncoder().encode(badge.signingInput)
+    );
+    return valid ? { valid: true } : { valid: false, reason: 'bad_signature' };
+  } catch (error) {
+    console.error('Error verifying badge signature:', error);
+    return { valid: false, reason: 'bad_signature' };
+  }
+};
+
+// Legacy badges stay valid up to and including the configured cut-off day.
+// A cut-off that cannot be read closes the window rather than leaving it open.
+export const isLegacyBadgeAccepted = (
+  now: Date = new Date(),
+  legacyAcceptedUntil: string = getBadgeConfig().legacyAcceptedUntil
+): boolean => {
+  const match = legacyAcceptedUntil.trim().match(/^(\d{4})-(\d{2})-(\d{2})(T|$)/);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const cutoff = new Date(year, month - 1, day, 23, 59, 59, 999);
+  if (isNaN(cutoff.getTime()) || cutoff.getDate() !== day) return false;
+
+  return now <= cutoff;
+};
+
+// Look up a badge serial and report whether it may still be used
+export const getBadgeRevocationStatus = async (
+  serial: string
+): Promise<{ usable: boolean; reason?: BadgeVerificationFailure }> => {
+  const { data: badge, error } = await supabase
+    .from('employee_badges')
+    .select('serial, revoked_at')
+    .eq('serial', serial)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking badge revocation:', error);
+    throw new Error('Failed to check badge status');
+  }
+
+  if (!badge) return { usable: false, reason: 'unknown_badge' };
+  if (badge.revoked_at) return { usable: false, reason: 'revoked' };
+  return { usable: true };
+};
+
+// Get the employee's current badge, issuing the first one if none exists yet
+export const getOrIssueEmployeeBadge = async (employeeId: string): Promise<EmployeeBadge> => {
+  const { data: badge, error } = await supabase
+    .from('employee_badges')
+    .select('*')
+    .eq('employee_id', employeeId)
+    .is('revoked_at', null)
+    .order('issued_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching employee badge:', error);
+    throw new Error('Failed to fetch employee badge');
+  }
+
+  return badge ? (badge as EmployeeBadge) : issueEmployeeBadge(employeeId);
+};
+
+// Ask the signing edge function for a fresh badge with a new serial
+export const issueEmployeeBadge = async (employeeId: string): Promise<EmployeeBadge> => {
+  const { data, error } = await supabase.functions.invoke('issue_employee_badge', {
+    body: { employeeId }
+  });
+
+  if (error || !data?.badge) {
+    console.error('Error issuing employee badge:', error || data);
+    throw new Error(data?.error || 'Failed to issue employee badge');
+  }
+
+  return data.badge as EmployeeBadge;
+};
+
+// Revoke a single badge (e.g. a lost card) without touching the employee record
+export const revokeEmployeeBadge = async (
+  serial: string,
+  reason: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    if (!reason?.trim()) {
+      return { success: false, message: 'A revocation reason is required' };
+    }
+
+    const { error } = await supabase
+      .from('employee_badges')
+      .update({
+        revoked_at: new Date().toISOString(),
+        revocation_reason: reason.trim()
+      })
+      .eq('serial', serial)
+      .is('revoked_at', null);
+
+    if (error) {
+      console.error('Error revoking badge:', error);
+      return { success: false, message: 'Failed to revoke badge' };
+    }
+
+    return { success: true, message: 'Badge revoked successfully' };
+  } catch (error) {
+    console.error('Error revoking badge:', error);
+    return { success: false, message: 'An unexpected error occurred while revoking the badge' };
+  }
+};
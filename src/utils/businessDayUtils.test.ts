@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getBusinessDate, getShiftLengthMinutes, getShiftWindow, isOvernightShift } from './businessDayUtils';
+import {
+  calculateEarlyDeparture,
+  calculateExpectedWorkingHours,
+  calculateLateDuration,
+  getRosterBasedEarlyDeparture
+} from './lateDurationUtils';
+import { Roster } from '@/types';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+// Local-time constructors keep these tests independent of the machine timezone
+const local = (day: number, hours: number, minutes = 0) => new Date(2025, 6, day, hours, minutes);
+
+const roster = (start_time: string, end_time: string): Roster => ({
+  id: 'roster-1',
+  name: 'Test roster',
+  start_time,
+  end_time,
+  break_duration: 0,
+  grace_period: 5,
+  early_departure_threshold: 10,
+  is_active: true,
+  created_at: '',
+  updated_at: ''
+});
+
+const NIGHT = roster('22:00:00', '06:00:00');
+const DAY = roster('09:00:00', '17:00:00');
+
+describe('business day', () => {
+  it('detects overnight shifts', () => {
+    expect(isOvernightShift(NIGHT)).toBe(true);
+    expect(isOvernightShift(DAY)).toBe(false);
+    expect(getShiftLengthMinutes(NIGHT)).toBe(8 * 60);
+  });
+
+  it('attaches punches after midnight to the shift that started the evening before', () => {
+    expect(getBusinessDate(local(1, 21, 55), NIGHT)).toBe('2025-07-01');
+    expect(getBusinessDate(local(2, 0, 30), NIGHT)).toBe('2025-07-01');
+    expect(getBusinessDate(local(2, 6, 15), NIGHT)).toBe('2025-07-01');
+    // After the middle of the off-duty gap the punch starts the next shift
+    expect(getBusinessDate(local(2, 14, 30), NIGHT)).toBe('2025-07-02');
+  });
+
+  it('uses the calendar date for day shifts and missing rosters', () => {
+    expect(getBusinessDate(local(2, 0, 30), DAY)).toBe('2025-07-02');
+    expect(getBusinessDate(local(2, 0, 30), null)).toBe('2025-07-02');
+  });
+
+  it('dates punches in the organization timezone rather than UTC', () => {
+    // 20:00 UTC on 1 July is already 01:30 on 2 July in Colombo
+    expect(getBusinessDate(new Date('2025-07-01T20:00:00Z'), DAY, 'Asia/Colombo')).toBe('2025-07-02');
+    expect(getBusinessDate(new Date('2025-07-01T20:00:00Z'), NIGHT, 'Asia/Colombo')).toBe('2025-07-01');
+    // 23:30 UTC on 1 July is 19:30 the same day in New York
+    expect(getBusinessDate(new Date('2025-07-01T23:30:00Z'), DAY, 'America/New_York')).toBe('2025-07-01');
+  });
+
+  it('builds a shift window that ends the next morning', () => {
+    const window = getShiftWindow('2025-07-01', NIGHT);
+
+    expect(window.start).toEqual(local(1, 22));
+    expect(window.end).toEqual(local(2, 6));
+    expect(window.isOvernight).toBe(true);
+  });
+});
+
+describe('overnight late, early-departure and expected hours calculations', () => {
+  it('measures lateness from the previous evening for a check-in after midnight', () => {
+    const result = calculateLateDuration(local(2, 0, 30), NIGHT);
+
+    expect(result.rosterStartTime).toEqual(local(1, 22));
+    expect(result.lateMinutes).toBe(145);
+  });
+
+  it('does not mark an early check-in as late', () => {
+    expect(calculateLateDuration(local(1, 21, 50), NIGHT).isLate).toBe(false);
+  });
+
+  it('measures early departure against the next-morning end', () => {
+    expect(calculateEarlyDeparture(local(2, 5, 0), NIGHT, '2025-07-01')).toMatchObject({ isEarly: true, earlyMinutes: 50 });
+    expect(calculateEarlyDeparture(local(2, 6, 5), NIGHT, '2025-07-01').isEarly).toBe(false);
+  });
+
+  it('computes positive expected hours across midnight', () => {
+    expect(calculateExpectedWorkingHours(NIGHT)).toBe(8);
+  });
+
+  it('reports early departure once the last session of the day is closed', () => {
+    const day = {
+      date: '2025-07-01',
+      sessions: [
+        { check_in: local(1, 22).toISOString(), check_out: local(2, 1).toISOString() },
+        { check_in: local(2, 1, 30).toISOString(), check_out: local(2, 5).toISOString() }
+      ]
+    };
+
+    expect(getRosterBasedEarlyDeparture(day, NIGHT)).toBe(50);
+    // On a break between sessions the employee has not left yet
+    expect(getRosterBasedEarlyDeparture({ ...day, sessions: day.sessions.slice(0, 1) }, NIGHT)).toBe(0);
+    expect(getRosterBasedEarlyDeparture({ early_departure_minutes: 12 })).toBe(12);
+  });
+});
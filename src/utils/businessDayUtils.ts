@@ -0,0 +1,83 @@
+// Business Day Utilities
+import {
+  addDaysToDate,
+  getDateInTimezone,
+  getMinutesOfDayInTimezone,
+  getOrganizationTimezone,
+  zonedTimeToUtc
+} from './timezoneUtils';
+
+/**
+ * A business day is the date a shift *starts* on. For day shifts that is the
+ * calendar date; for overnight shifts (end time at or before the start time,
+ * e.g. 22:00–06:00) punches after midnight still belong to the shift that
+ * started the evening before. Punch times are read as wall-clock times in the
+ * organization timezone.
+ */
+
+export interface ShiftTimes {
+  start_time: string; // HH:mm or HH:mm:ss
+  end_time: string;
+}
+
+export interface ShiftWindow {
+  businessDate: string; // yyyy-MM-dd
+  start: Date;
+  end: Date;
+  isOvernight: boolean;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const isOvernightShift = (shift: ShiftTimes): boolean =>
+  toMinutes(shift.end_time) <= toMinutes(shift.start_time);
+
+// Length of the shift in minutes, crossing midnight when needed
+export const getShiftLengthMinutes = (shift: ShiftTimes): number => {
+  const length = toMinutes(shift.end_time) - toMinutes(shift.start_time);
+  return length <= 0 ? length + MINUTES_PER_DAY : length;
+};
+
+/**
+ * Business date for a punch. Overnight shifts split the off-duty gap in half:
+ * punches before its midpoint belong to the previous day's shift.
+ */
+export const getBusinessDate = (
+  punchTime: Date | string,
+  shift?: ShiftTimes | null,
+  timeZone: string = getOrganizationTimezone()
+): string => {
+  const calendarDate = getDateInTimezone(punchTime, timeZone);
+
+  if (shift?.start_time && shift?.end_time && isOvernightShift(shift)) {
+    const end = toMinutes(shift.end_time);
+    const offDutyMidpoint = end + (toMinutes(shift.start_time) - end) / 2;
+    if (getMinutesOfDayInTimezone(punchTime, timeZone) < offDutyMidpoint) {
+      return addDaysToDate(calendarDate, -1);
+    }
+  }
+
+  return calendarDate;
+};
+
+// Roster start and end anchored to a business date
+export const getShiftWindow = (
+  businessDate: string,
+  shift: ShiftTimes,
+  timeZone: string = getOrganizationTimezone()
+): ShiftWindow => {
+  const isOvernight = isOvernightShift(shift);
+  const endDate = isOvernight ? addDaysToDate(businessDate, 1) : businessDate;
+
+  return {
+    businessDate,
+    start: zonedTimeToUtc(businessDate, shift.start_time, timeZone),
+    end: zonedTimeToUtc(endDate, shift.end_time, timeZone),
+    isOvernight
+  };
+};
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { HEARTBEAT_INTERVAL_MS, generatePairingCode, getDeviceStatus, getStoredDevice, pairDevice } from './deviceUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+const now = new Date('2025-07-01T08:00:00Z');
+const seenAgo = (ms: number) => new Date(now.getTime() - ms).toISOString();
+
+describe('device status', () => {
+  it('is online while heartbeats keep arriving', () => {
+    expect(getDeviceStatus({ last_seen_at: seenAgo(HEARTBEAT_INTERVAL_MS), revoked_at: null, health: { online: true } }, now))
+      .toBe('online');
+  });
+
+  it('is stale after missed heartbeats or when the tablet reports no connection', () => {
+    expect(getDeviceStatus({ last_seen_at: seenAgo(5 * HEARTBEAT_INTERVAL_MS), revoked_at: null, health: {} }, now))
+      .toBe('stale');
+    expect(getDeviceStatus({ last_seen_at: seenAgo(0), revoked_at: null, health: { online: false } }, now))
+      .toBe('stale');
+  });
+
+  it('is offline when never seen or silent for long', () => {
+    expect(getDeviceStatus({ last_seen_at: null, revoked_at: null, health: {} }, now)).toBe('offline');
+    expect(getDeviceStatus({ last_seen_at: seenAgo(60 * HEARTBEAT_INTERVAL_MS), revoked_at: null, health: {} }, now))
+      .toBe('offline');
+  });
+
+  it('reports revoked devices as revoked whatever they last sent', () => {
+    expect(getDeviceStatus({ last_seen_at: seenAgo(0), revoked_at: seenAgo(0), health: { online: true } }, now))
+      .toBe('revoked');
+  });
+});
+
+describe('pairing codes', () => {
+  it('uses only characters that cannot be misread', () => {
+    const code = generatePairingCode();
+    expect(code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+  });
+});
+
+describe('pairing a tablet', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    localStorage.clear();
+    (supabase.functions.invoke as Mock).mockResolvedValue({
+      data: { device: { id: 'd1', name: 'Gate 1', site: 'Head Office' }, email: 'kiosk-d1@devices.local', token: 'secret' },
+      error: null,
+    });
+    (supabase.auth.signInWithPassword as Mock).mockResolvedValue({ error: null });
+  });
+
+  it('signs in with the issued token and keeps the device', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: true, error: null });
+
+    expect(await pairDevice('ABCD2345')).toEqual({ success: true, message: 'Paired as Gate 1 (Head Office)' });
+    expect(supabase.auth.signInWithPassword).toHaveBeenCalledWith({ email: 'kiosk-d1@devices.local', password: 'secret' });
+    expect(getStoredDevice()).toMatchObject({ id: 'd1', token: 'secret' });
+  });
+
+  it('forgets a device revoked before its first heartbeat', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: false, error: null });
+
+    expect(await pairDevice('ABCD2345')).toMatchObject({ success: false });
+    expect(getStoredDevice()).toBeNull();
+    expect(supabase.auth.signOut).toHaveBeenCalled();
+  });
+
+  it('keeps the device when the heartbeat cannot reach the server', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: null, error: { message: 'Failed to fetch' } });
+
+    expect(await pairDevice('ABCD2345')).toMatchObject({ success: true });
+    expect(getStoredDevice()).not.toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+// Kiosk Device Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { PunchLocation } from './selfCheckInUtils';
+
+/**
+ * Tablets that record scans are paired once by an admin and then sign in as
+ * their own kiosk-role account. The device token is that account's password
+ * and is kept in local storage so the tablet can sign back in by itself.
+ * Which device captured each punch is recorded by database triggers (see the
+ * kiosk_devices migration), so nothing here has to pass the device along.
+ */
+
+export interface DeviceHealth {
+  online?: boolean;
+  queued_scans?: number;
+  user_agent?: string;
+  // Kiosk punches are tagged with the last reported position
+  location?: PunchLocation;
+}
+
+export interface KioskDevice {
+  id: string;
+  name: string;
+  site_id: string;
+  site?: { name: string } | null;
+  paired_at: string;
+  last_seen_at: string | null;
+  health: DeviceHealth;
+  revoked_at: string | null;
+}
+
+export interface PairingCode {
+  code: string;
+  name: string;
+  site_id: string;
+  site?: { name: string } | null;
+  expires_at: string;
+}
+
+export interface StoredDevice {
+  id: string;
+  name: string;
+  site: string; // site name, for display
+  email: string;
+  token: string;
+}
+
+export type DeviceStatus = 'online' | 'stale' | 'offline' | 'revoked';
+
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// A device that has missed a few heartbeats is stale; after that, offline
+const STALE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+const OFFLINE_AFTER_MS = 15 * HEARTBEAT_INTERVAL_MS;
+
+const STORED_DEVICE_KEY = 'kioskDevice';
+
+// No 0/O or 1/I so codes can be typed from the screen
+const PAIRING_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const getDeviceStatus = (
+  device: Pick<KioskDevice, 'last_seen_at' | 'revoked_at' | 'health'>,
+  now: Date = new Date()
+): DeviceStatus => {
+  if (device.revoked_at) return 'revoked';
+  if (!device.last_seen_at) return 'offline';
+
+  const age = now.getTime() - new Date(device.last_seen_at).getTime();
+  if (age > OFFLINE_AFTER_MS) return 'offline';
+  if (age > STALE_AFTER_MS || device.health.online === false) return 'stale';
+  return 'online';
+};
+
+export const generatePairingCode = (length = 8): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, byte => PAIRING_ALPHABET[byte % PAIRING_ALPHABET.length]).join('');
+};
+
+export const getPairingUrl = (code: string): string =>
+  `${window.location.origin}/pair?code=${encodeURIComponent(code)}`;
+
+export const createPairingCode = async (
+  name: string,
+  siteId: string
+): Promise<{ success: boolean; message: string; pairing?: PairingCode }> => {
+  if (!name.trim() || !siteId) {
+    return { success: false, message: 'Give the device a name and a site' };
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('kiosk_pairing_codes')
+    .insert({ code: generatePairingCode(), name: name.trim(), site_id: siteId, created_by: user?.id })
+    .select('code, name, site_id, expires_at, site:site_id (name)')
+    .single();
+
+  if (error) {
+    console.error('Error creating pairing code:', error);
+    return { success: false, message: 'Failed to create a pairing code' };
+  }
+  return { success: true, message: 'Scan the code on the tablet within 10 minutes', pairing: data as unknown as PairingCode };
+};
+
+export const getKioskDevices = async (): Promise<KioskDevice[]> => {
+  const { data, error } = await supabase
+    .from('kiosk_devices')
+    .select('id, name, site_id, paired_at, last_seen_at, health, revoked_at, site:site_id (name)')
+    .order('revoked_at', { nullsFirst: true })
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching kiosk devices:', error);
+    throw error;
+  }
+  return (data || []) as unknown as KioskDevice[];
+};
+
+export const revokeDevice = async (deviceId: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.rpc('revoke_kiosk_device', { p_device_id: deviceId });
+
+  if (error) {
+    console.error('Error revoking device:', error);
+    return { success: false, message: 'Failed to revoke device' };
+  }
+  return { success: true, message: 'Device revoked; it will be signed out on its next request' };
+};
+
+export const getStoredDevice = (): StoredDevice | null => {
+  try {
+    const stored = localStorage.getItem(STORED_DEVICE_KEY);
+    return stored ? JSON.parse(stored) as StoredDevice : null;
+  } catch {
+    return null;
+  }
+};
+
+export const forgetDevice = () => localStorage.removeItem(STORED_DEVICE_KEY);
+
+export const pairDevice = async (code: string): Promise<{ success: boolean; message: string }> => {
+  const { data, error } = await supabase.functions.invoke('pair_device', {
+    body: { code, userAgent: navigator.userAgent }
+  });
+
+  if (error || !data?.token) {
+    console.error('Error pairing device:', error);
+    return { success: false, message: data?.error || 'Failed to pair this device' };
+  }
+
+  const device: StoredDevice = { ...data.device, email: data.email, token: data.token };
+  localStorage.setItem(STORED_DEVICE_KEY, JSON.stringify(device));
+  return restoreDeviceSession();
+};
+
+// Signs a paired tablet back in after its session was lost
+export const restoreDeviceSession = async (): Promise<{ success: boolean; message: string }> => {
+  const device = getStoredDevice();
+  if (!device) {
+    return { success: false, message: 'This device is not paired' };
+  }
+
+  const { error } = await supabase.auth.signInWithPassword({ email: device.email, password: device.token });
+  if (error) {
+    console.error('Error signing in device:', error);
+    return { success: false, message: 'This device could not sign in' };
+  }
+
+  // A revoked device can still sign in but has no role; unpair it for good
+  if (!(await sendHeartbeat({ online: navigator.onLine, user_agent: navigator.userAgent }))) {
+    forgetDevice();
+    await supabase.auth.signOut();
+    return { success: false, message: 'This device has been revoked; pair it again to use it' };
+  }
+  return { success: true, message: `Paired as ${device.name} (${device.site})` };
+};
+
+// Returns false once the device has been revoked
+export const sendHeartbeat = async (health: DeviceHealth): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('kiosk_heartbeat', { p_health: health });
+
+  if (error) {
+    console.error('Error sending device heartbeat:', error);
+    // A failed request says nothing about revocation
+    return true;
+  }
+  return data !== false;
+};
@@ -20,6 +20,7 @@ type DatabaseEmployee = {
   join_date: string;
   status: string;
   department_id: string;
+  home_site_id: string | null;
   departments: {
     id: string;
     name: string;
@@ -72,6 +73,7 @@ export const getEmployees = async (): Promise<Employee[]> => {
         join_date,
         status,
         department_id,
+        home_site_id,
         departments:departments!department_id (
           id,
           name
@@ -100,6 +102,7 @@ export const getEmployees = async (): Promise<Employee[]> => {
       last_name: emp.last_name || '',
       email: emp.email,
       department: emp.departments.name,
+      home_site_id: emp.home_site_id,
       phone: emp.phone,
       position: emp.position,
       join_date: emp.join_date || new Date().toISOString().split('T')[0],
@@ -174,6 +177,7 @@ export const addEmployee = async (employee: Omit<Employee, 'id'>): Promise<Emplo
         last_name: employee.last_name,
         email: employee.email,
         department_id: departmentData.id,
+        home_site_id: employee.home_site_id,
         phone: employee.phone,
         position: employee.position,
         join_date: employee.join_date,
@@ -205,6 +209,7 @@ export const addEmployee = async (employee: Omit<Employee, 'id'>): Promise<Emplo
       last_name: data.last_name || '',
       email: data.email,
       department: data.departments.name,
+      home_site_id: data.home_site_id,
       phone: data.phone,
       position: data.position,
       join_date: data.join_date,
@@ -282,6 +287,7 @@ export const updateEmployee = async (updatedEmployee: Employee): Promise<Employe
         last_name: updatedEmployee.last_name,
         email: updatedEmployee.email,
         department_id: departmentData.id,
+        home_site_id: updatedEmployee.home_site_id,
         phone: updatedEmployee.phone,
         position: updatedEmployee.position,
         join_date: updatedEmployee.join_date,
@@ -315,6 +321,7 @@ export const updateEmployee = async (updatedEmployee: Employee): Promise<Employe
       last_name: data.last_name || '',
       email: data.email,
       department: data.departments.name,
+      home_site_id: data.home_site_id,
       phone: data.phone,
       position: data.position,
       join_date: data.join_date,
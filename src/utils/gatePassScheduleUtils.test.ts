@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mockQuery, mockTables } from '@/test/supabaseMock';
+import { recordGatePassUsage } from './gatePassUtils';
+import {
+  buildCustomWindow,
+  buildRecurringWindow,
+  describeSchedule,
+  getExitDenial,
+  scheduleFromRow,
+  validateGatePassWindow
+} from './gatePassScheduleUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+const TZ = 'Asia/Kolkata';
+// Fridays 12:00-14:00
+const fridayLunch = { days: [5], start: '12:00', end: '14:00' };
+
+describe('gate pass windows', () => {
+  const now = new Date('2025-07-01T06:00:00Z');
+
+  it('builds a custom window from its start and duration', () => {
+    const window = buildCustomWindow(new Date('2025-07-02T09:00:00Z'), 2, 30);
+
+    expect(window.expiresAt.toISOString()).toBe('2025-07-02T11:30:00.000Z');
+    expect(validateGatePassWindow(window, now)).toBeNull();
+    expect(validateGatePassWindow(buildCustomWindow(new Date('2025-07-02T09:00:00Z'), 0, 0), now))
+      .toBe('The pass must end after it starts');
+    expect(validateGatePassWindow(buildCustomWindow(new Date('2025-06-01T09:00:00Z'), 1, 0), now))
+      .toBe('The pass would already have expired');
+  });
+
+  it('spans whole organization days for a recurring window', () => {
+    const window = buildRecurringWindow('2025-07-01', '2025-07-31', { ...fridayLunch, days: [5, 1, 5] }, TZ);
+
+    expect(window.validFrom.toISOString()).toBe('2025-06-30T18:30:00.000Z');
+    expect(window.expiresAt.toISOString()).toBe('2025-07-31T18:29:59.999Z');
+    expect(window.schedule?.days).toEqual([1, 5]);
+    expect(validateGatePassWindow(window, now)).toBeNull();
+  });
+
+  it('rejects recurring windows without days or with a backwards exit window', () => {
+    expect(validateGatePassWindow(buildRecurringWindow('2025-07-01', '2025-07-31', { ...fridayLunch, days: [] }, TZ), now))
+      .toBe('Please choose the days the pass can be used');
+    expect(validateGatePassWindow(buildRecurringWindow('2025-07-01', '2025-07-31', { ...fridayLunch, start: '14:00', end: '12:00' }, TZ), now))
+      .toBe('The exit window must end after it starts');
+    expect(validateGatePassWindow(buildRecurringWindow('2025-07-01', '2025-07-31', { ...fridayLunch, end: '' }, TZ), now))
+      .toBe('Please enter the exit window as HH:MM times');
+  });
+
+  it('reads and describes a stored schedule', () => {
+    expect(scheduleFromRow([5, 1], '12:00:00', '14:00:00')).toEqual({ days: [5, 1], start: '12:00', end: '14:00' });
+    expect(scheduleFromRow(null, null, null)).toBeNull();
+    expect(describeSchedule({ days: [5, 1], start: '12:00', end: '14:00' })).toBe('Mon, Fri 12:00-14:00');
+  });
+});
+
+describe('getExitDenial', () => {
+  const pass = { validFrom: '2025-07-01T00:00:00+05:30', schedule: fridayLunch };
+
+  it('allows exits inside the scheduled window', () => {
+    // Friday 4 July, 13:00 in Kolkata
+    expect(getExitDenial(pass, new Date('2025-07-04T07:30:00Z'), TZ)).toBeNull();
+    expect(getExitDenial(pass, new Date('2025-07-04T08:30:00Z'), TZ)).toBeNull();
+  });
+
+  it('denies exits on other days or outside the times', () => {
+    // Thursday 3 July, 13:00 in Kolkata
+    expect(getExitDenial(pass, new Date('2025-07-03T07:30:00Z'), TZ)).toBe('The pass does not allow exits on Thursday');
+    // Friday 4 July, 14:30 in Kolkata
+    expect(getExitDenial(pass, new Date('2025-07-04T09:00:00Z'), TZ)).toBe('The pass only allows exits between 12:00 and 14:00');
+  });
+
+  it('reads the weekday in the organization timezone', () => {
+    // Thursday 23:00 UTC is already Friday 04:30 in Kolkata, before the window opens
+    expect(getExitDenial(pass, new Date('2025-07-03T23:00:00Z'), TZ)).toBe('The pass only allows exits between 12:00 and 14:00');
+  });
+
+  it('denies exits before the pass starts', () => {
+    const custom = { validFrom: '2025-07-02T09:00:00Z', schedule: null };
+
+    expect(getExitDenial(custom, new Date('2025-07-02T08:00:00Z'), TZ)).toBe('The pass is valid from 2025-07-02 14:30');
+    expect(getExitDenial(custom, new Date('2025-07-02T10:00:00Z'), TZ)).toBeNull();
+  });
+});
+
+describe('recording an exit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  it('refuses an exit outside the schedule without recording it', async () => {
+    // Friday 4 July, 14:30 in Kolkata
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-07-04T09:00:00Z'));
+
+    const gatePasses = mockQuery({
+      data: {
+        id: 'pass-1',
+        status: 'active',
+        expires_at: '2025-12-31T00:00:00Z',
+        valid_from: '2025-07-01T00:00:00+05:30',
+        schedule_days: [5],
+        schedule_start: '12:00:00',
+        schedule_end: '14:00:00',
+      },
+      error: null,
+    });
+    mockTables({
+      admin_settings: mockQuery({ data: { timezone: TZ }, error: null }),
+      gate_passes: gatePasses,
+    });
+
+    expect(await recordGatePassUsage('pass-1', 'exit', new Date().toISOString())).toEqual({
+      success: false,
+      message: 'The pass only allows exits between 12:00 and 14:00',
+    });
+    expect(gatePasses.update).not.toHaveBeenCalled();
+  });
+
+  it("reads the window on the holder's home site clock", async () => {
+    // 13:00 at the organization's Dubai office, but 14:30 at the Kolkata site
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-07-04T09:00:00Z'));
+
+    const gatePasses = mockQuery({
+      data: {
+        id: 'pass-1',
+        status: 'active',
+        expires_at: '2025-12-31T00:00:00Z',
+        valid_from: null,
+        schedule_days: [5],
+        schedule_start: '12:00:00',
+        schedule_end: '14:00:00',
+        employees: { home_site: { timezone: TZ } },
+      },
+      error: null,
+    });
+    mockTables({
+      admin_settings: mockQuery({ data: { timezone: 'Asia/Dubai' }, error: null }),
+      gate_passes: gatePasses,
+    });
+
+    expect(await recordGatePassUsage('pass-1', 'exit', new Date().toISOString())).toEqual({
+      success: false,
+      message: 'The pass only allows exits between 12:00 and 14:00',
+    });
+    expect(gatePasses.update).not.toHaveBeenCalled();
+  });
+});
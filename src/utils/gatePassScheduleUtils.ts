@@ -0,0 +1,118 @@
+// Gate Pass Schedule Utilities
+import { GatePass, GatePassSchedule } from '@/types';
+import {
+  addDaysToDate,
+  getDateInTimezone,
+  getMinutesOfDayInTimezone,
+  getOrganizationTimezone,
+  getZonedParts,
+  zonedTimeToUtc
+} from './timezoneUtils';
+
+/**
+ * Custom passes run from a chosen start for a set duration. Recurring passes
+ * ("every Friday 12:00-14:00") run between a start and an end date and only
+ * let the holder out on the scheduled days and times, read in the timezone
+ * of the holder's home site. recordGatePassUsage refuses exits outside the
+ * window; the database enforces the same rule (gate_pass_exit_denial).
+ */
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface GatePassWindow {
+  validity: 'custom' | 'recurring';
+  validFrom: Date;
+  expiresAt: Date;
+  schedule: GatePassSchedule | null;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A custom window from a start instant and a duration
+export const buildCustomWindow = (validFrom: Date, hours: number, minutes: number): GatePassWindow => ({
+  validity: 'custom',
+  validFrom,
+  expiresAt: new Date(validFrom.getTime() + (hours * 60 + minutes) * 60 * 1000),
+  schedule: null
+});
+
+// A recurring window over whole organization days, both dates included
+export const buildRecurringWindow = (
+  startDate: string,
+  endDate: string,
+  schedule: GatePassSchedule,
+  timeZone: string = getOrganizationTimezone()
+): GatePassWindow => ({
+  validity: 'recurring',
+  validFrom: zonedTimeToUtc(startDate, '00:00', timeZone),
+  expiresAt: new Date(zonedTimeToUtc(addDaysToDate(endDate, 1), '00:00', timeZone).getTime() - 1),
+  schedule: { ...schedule, days: [...new Set(schedule.days)].sort((a, b) => a - b) }
+});
+
+export const validateGatePassWindow = (window: GatePassWindow, now: Date = new Date()): string | null => {
+  if (isNaN(window.validFrom.getTime()) || isNaN(window.expiresAt.getTime())) {
+    return 'Please choose when the pass starts and ends';
+  }
+  if (window.expiresAt <= window.validFrom) return 'The pass must end after it starts';
+  if (window.expiresAt <= now) return 'The pass would already have expired';
+
+  if (window.validity === 'recurring') {
+    const { schedule } = window;
+    if (!schedule || schedule.days.length === 0) return 'Please choose the days the pass can be used';
+    if (!TIME_PATTERN.test(schedule.start) || !TIME_PATTERN.test(schedule.end)) {
+      return 'Please enter the exit window as HH:MM times';
+    }
+    if (toMinutes(schedule.start) >= toMinutes(schedule.end)) {
+      return 'The exit window must end after it starts';
+    }
+  }
+  return null;
+};
+
+// Columns of a gate_passes row as a schedule
+export const scheduleFromRow = (
+  days: number[] | null,
+  start: string | null,
+  end: string | null
+): GatePassSchedule | null =>
+  days && start && end ? { days, start: start.slice(0, 5), end: end.slice(0, 5) } : null;
+
+// e.g. "Mon, Tue, Wed 16:00-16:30"
+export const describeSchedule = (schedule: GatePassSchedule): string =>
+  `${[...schedule.days].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day].slice(0, 3)).join(', ')} ${schedule.start}-${schedule.end}`;
+
+/**
+ * Why an exit at `at` is not allowed on the pass, or null when it is. Same
+ * rule as gate_pass_exit_denial in the gate_pass_schedules migration.
+ */
+export const getExitDenial = (
+  pass: Pick<GatePass, 'validFrom' | 'schedule'>,
+  at: Date = new Date(),
+  timeZone: string = getOrganizationTimezone()
+): string | null => {
+  if (pass.validFrom && at < new Date(pass.validFrom)) {
+    const { hour, minute } = getZonedParts(pass.validFrom, timeZone);
+    const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+    return `The pass is valid from ${getDateInTimezone(pass.validFrom, timeZone)} ${time}`;
+  }
+
+  const { schedule } = pass;
+  if (!schedule) return null;
+
+  const [year, month, day] = getDateInTimezone(at, timeZone).split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  if (!schedule.days.includes(weekday)) {
+    return `The pass does not allow exits on ${WEEKDAY_NAMES[weekday]}`;
+  }
+
+  const minutes = getMinutesOfDayInTimezone(at, timeZone);
+  if (minutes < toMinutes(schedule.start) || minutes > toMinutes(schedule.end)) {
+    return `The pass only allows exits between ${schedule.start} and ${schedule.end}`;
+  }
+  return null;
+};
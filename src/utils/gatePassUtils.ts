@@ -1,6 +1,16 @@
 import { supabase } from '@/integrations/supabase/client';
 import { Employee, GatePass } from '@/types';
 import { generateQRCodeForPass as generateQRCode } from './qrCodeUtils';
+import {
+  buildGatePassApprovalNotification,
+  buildGatePassNotification,
+  notifyAdmins,
+  notifyGatePassApprovers
+} from './adminNotificationUtils';
+import { decodeSignedGatePass, getGatePassQRData } from './signedGatePassUtils';
+import { GatePassWindow, describeSchedule, getExitDenial, scheduleFromRow, validateGatePassWindow } from './gatePassScheduleUtils';
+import { isValidTimeZone, loadOrganizationTimezone, ORGANIZATION_SETTING_TYPE } from './timezoneUtils';
+import { DEFAULT_ALERT_MINUTES, formatOverdue } from '../../supabase/functions/_shared/gatePassAlerts';
 import QRCode from 'qrcode';
 
 // Generate a unique pass code with better uniqueness guarantee
@@ -44,7 +54,21 @@ export const calculateExpirationDate = (validity: 'single' | 'day' | 'week' | 'm
   return expirationDate;
 };
 
-// Create a new gate pass with improved error handling and time tracking
+// Passes stay pending until the employee's department head or HR approves them
+export const isGatePassApproved = (status: GatePass['status']): boolean =>
+  status !== 'pending' && status !== 'rejected';
+
+// Let the approvers know without holding up the request
+const requestApproval = (pass: GatePass) => {
+  notifyGatePassApprovers(pass.id, buildGatePassApprovalNotification(pass))
+    .then(result => {
+      if (!result.success) console.warn('Gate pass approvers were not notified:', result.message);
+    })
+    .catch(error => console.error('Error notifying gate pass approvers:', error));
+};
+
+// Create a new gate pass request with improved error handling and time tracking.
+// The pass is pending until it is approved with reviewGatePass.
 export const createGatePass = async (
   employeeId: string,
   validity: 'single' | 'day' | 'week' | 'month',
@@ -113,7 +137,7 @@ export const createGatePass = async (
       reason: reason.trim(),
       created_by: '00000000-0000-0000-0000-000000000000',
       expires_at: expirationDate.toISOString(),
-      status: 'active',
+      status: 'pending',
       use_count: 0,
       expected_exit_time: expectedExitTime || null,
       expected_return_time: expectedReturnTime || null,
@@ -173,7 +197,9 @@ export const createGatePass = async (
           throw new Error('No data returned after successful retry');
         }
         
-        return mapDatabasePassToGatePass(retryData, expectedExitTime, expectedReturnTime);
+        const retriedPass = mapDatabasePassToGatePass(retryData, expectedExitTime, expectedReturnTime);
+        requestApproval(retriedPass);
+        return retriedPass;
       }
       
       // Handle other specific error codes
@@ -192,7 +218,8 @@ export const createGatePass = async (
     
     const mappedPass = mapDatabasePassToGatePass(data, expectedExitTime, expectedReturnTime);
     console.log('Mapped gate pass:', mappedPass);
-    
+
+    requestApproval(mappedPass);
     return mappedPass;
   } catch (error: any) {
     // Enhanced error logging
@@ -210,6 +237,109 @@ export const createGatePass = async (
   }
 };
 
+// Request a pass with a custom window or a recurring schedule. These are
+// inserted directly since create_gate_pass has no window columns; like any
+// other request the pass is pending until it is approved.
+export const createScheduledGatePass = async (
+  employeeId: string,
+  type: 'entry' | 'exit' | 'both',
+  reason: string,
+  window: GatePassWindow,
+  expectedExitTime?: string,
+  expectedReturnTime?: string
+): Promise<GatePass> => {
+  if (!reason?.trim()) {
+    throw new Error('Reason is required and cannot be empty');
+  }
+  const windowError = validateGatePassWindow(window);
+  if (windowError) {
+    throw new Error(windowError);
+  }
+
+  const { data: employee, error: employeeError } = await supabase
+    .from('employees')
+    .select('id, first_name, last_name')
+    .eq('id', employeeId)
+    .maybeSingle();
+  if (employeeError || !employee) {
+    console.error('Error fetching employee:', employeeError);
+    throw new Error('Employee not found');
+  }
+
+  const insertPass = (passCode: string) =>
+    supabase
+      .from('gate_passes')
+      .insert({
+        employee_id: employee.id,
+        pass_code: passCode,
+        employee_name: `${employee.first_name || ''} ${employee.last_name || ''}`.trim(),
+        validity: window.validity,
+        type,
+        reason: reason.trim(),
+        created_by: '00000000-0000-0000-0000-000000000000',
+        valid_from: window.validFrom.toISOString(),
+        expires_at: window.expiresAt.toISOString(),
+        schedule_days: window.schedule?.days ?? null,
+        schedule_start: window.schedule?.start ?? null,
+        schedule_end: window.schedule?.end ?? null,
+        expected_exit_time: expectedExitTime || null,
+        expected_return_time: expectedReturnTime || null
+      })
+      .select()
+      .single();
+
+  let { data, error } = await insertPass(generatePassCode());
+  if (error?.code === '23505') {
+    ({ data, error } = await insertPass(generatePassCode()));
+  }
+
+  if (error || !data) {
+    console.error('Error creating scheduled gate pass:', error);
+    throw new Error('Failed to create the gate pass');
+  }
+
+  const pass = mapDatabasePassToGatePass(data, expectedExitTime, expectedReturnTime);
+  requestApproval(pass);
+  return pass;
+};
+
+// Visitor passes are issued at the gate and active straight away, for a
+// fixed number of hours
+export const createVisitorPass = async (
+  visitorId: string,
+  visitorName: string,
+  reason: string,
+  validHours: number
+): Promise<GatePass> => {
+  const expiresAt = new Date(Date.now() + validHours * 60 * 60 * 1000).toISOString();
+  const insertPass = (passCode: string) =>
+    supabase
+      .from('gate_passes')
+      .insert({
+        visitor_id: visitorId,
+        pass_code: passCode,
+        employee_name: visitorName,
+        validity: 'day',
+        type: 'both',
+        reason,
+        created_by: '00000000-0000-0000-0000-000000000000',
+        expires_at: expiresAt
+      })
+      .select('*, visitor:visitor_id (*, host:host_employee_id (first_name, last_name))')
+      .single();
+
+  let { data, error } = await insertPass(generatePassCode());
+  if (error?.code === '23505') {
+    ({ data, error } = await insertPass(generatePassCode()));
+  }
+
+  if (error || !data) {
+    console.error('Error creating visitor pass:', error);
+    throw new Error('Failed to create the visitor pass');
+  }
+  return mapDatabasePassToGatePass(data);
+};
+
 // Helper function to map database pass to GatePass type
 const mapDatabasePassToGatePass = (
   data: any,
@@ -237,7 +367,17 @@ const mapDatabasePassToGatePass = (
     useCount: data.use_count || 0,
     revokedAt: data.revoked_at,
     revokedBy: data.revoked_by,
-    revocationReason: data.revocation_reason
+    revocationReason: data.revocation_reason,
+    reviewedBy: data.reviewed_by,
+    reviewedAt: data.reviewed_at,
+    reviewComment: data.review_comment,
+    exitedAt: data.exited_at,
+    returnDueAt: data.return_due_at,
+    visitorId: data.visitor_id,
+    visitor: data.visitor,
+    qrData: data.qr_data,
+    validFrom: data.valid_from,
+    schedule: scheduleFromRow(data.schedule_days, data.schedule_start, data.schedule_end)
   };
 };
 
@@ -255,7 +395,7 @@ export const recordGatePassUsage = async (
     // Get the current pass status first to check if it's valid
     const { data: pass, error: getError } = await supabase
       .from('gate_passes')
-      .select('*')
+      .select('*, employees (home_site:home_site_id (timezone))')
       .eq('id', passId)
       .single();
       
@@ -275,6 +415,23 @@ export const recordGatePassUsage = async (
       };
     }
     
+    if (new Date(pass.expires_at) < new Date()) {
+      return { success: false, message: `This pass expired on ${new Date(pass.expires_at).toLocaleString()}` };
+    }
+
+    // Custom and recurring passes only let the holder out inside their window,
+    // read on the clock of the holder's home site
+    if (usageType === 'exit') {
+      const siteTimezone = pass.employees?.home_site?.timezone;
+      const denial = getExitDenial({
+        validFrom: pass.valid_from,
+        schedule: scheduleFromRow(pass.schedule_days, pass.schedule_start, pass.schedule_end)
+      }, new Date(), isValidTimeZone(siteTimezone) ? siteTimezone : await loadOrganizationTimezone());
+      if (denial) {
+        return { success: false, message: denial };
+      }
+    }
+
     // For return, check if exit time is recorded
     if (usageType === 'return' && !pass.exit_time) {
       return { 
@@ -300,6 +457,17 @@ export const recordGatePassUsage = async (
       console.error(`Error recording ${usageType} time:`, updateError);
       return { success: false, message: `Error recording ${usageType} time` };
     }
+
+    // Alert admins without holding up the gate
+    notifyAdmins(buildGatePassNotification({
+      employeeName: pass.employee_name,
+      reason: pass.reason,
+      expectedReturnTime: pass.expected_return_time
+    }, usageType, time))
+      .then(result => {
+        if (!result.success) console.warn('Gate pass alert was not sent:', result.message);
+      })
+      .catch(error => console.error('Error sending gate pass alert:', error));
     
     return { 
       success: true, 
@@ -320,6 +488,8 @@ export const getGatePasses = async (): Promise<GatePass[]> => {
       .select(`
         id,
         employee_id,
+        employee_name,
+        visitor_id,
         pass_code,
         validity,
         type,
@@ -332,7 +502,15 @@ export const getGatePasses = async (): Promise<GatePass[]> => {
         expected_return_time,
         exit_time,
         return_time,
-        employees (id, first_name, last_name)
+        reviewed_at,
+        review_comment,
+        qr_data,
+        valid_from,
+        schedule_days,
+        schedule_start,
+        schedule_end,
+        employees (id, first_name, last_name),
+        visitor:visitor_id (*, host:host_employee_id (first_name, last_name))
       `)
       .order('created_at', { ascending: false });
       
@@ -369,7 +547,7 @@ export const getGatePasses = async (): Promise<GatePass[]> => {
         employeeId: pass.employee_id,
         employeeName: pass.employees ? 
           `${pass.employees.first_name || ''} ${pass.employees.last_name || ''}`.trim() : 
-          'Unknown Employee',
+          pass.employee_name || 'Unknown Employee',
         passCode: pass.pass_code,
         validity: pass.validity,
         type: pass.type,
@@ -381,7 +559,14 @@ export const getGatePasses = async (): Promise<GatePass[]> => {
         expectedExitTime: pass.expected_exit_time,
         expectedReturnTime: pass.expected_return_time,
         exitTime: pass.exit_time,
-        returnTime: pass.return_time
+        returnTime: pass.return_time,
+        reviewedAt: pass.reviewed_at,
+        reviewComment: pass.review_comment,
+        visitorId: pass.visitor_id,
+        visitor: pass.visitor as unknown as GatePass['visitor'],
+        qrData: pass.qr_data,
+        validFrom: pass.valid_from,
+        schedule: scheduleFromRow(pass.schedule_days, pass.schedule_start, pass.schedule_end)
       };
     }).filter(Boolean) as GatePass[]; // Filter out any null values and cast
     
@@ -405,6 +590,134 @@ export const getGatePasses = async (): Promise<GatePass[]> => {
   }
 };
 
+// Requests waiting for the signed-in user to review; RLS limits department
+// heads to their own department
+export const getPendingGatePasses = async (): Promise<GatePass[]> => {
+  const { data, error } = await supabase
+    .from('gate_passes')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching pending gate passes:', error);
+    throw new Error('Failed to load gate passes awaiting approval');
+  }
+  return (data || []).map(pass => mapDatabasePassToGatePass(pass));
+};
+
+// Approve or reject a pending pass. Rejections need a comment.
+export const reviewGatePass = async (
+  passId: string,
+  approve: boolean,
+  comment?: string
+): Promise<{ success: boolean; message: string }> => {
+  if (!approve && !comment?.trim()) {
+    return { success: false, message: 'Please give a reason for rejecting the gate pass' };
+  }
+
+  const { data, error } = await supabase.rpc('review_gate_pass', {
+    p_pass_id: passId,
+    p_approve: approve,
+    p_comment: comment?.trim() || null
+  });
+
+  if (error) {
+    console.error('Error reviewing gate pass:', error);
+    return { success: false, message: error.message || 'Failed to review gate pass' };
+  }
+  if (data?.status === 'Error') {
+    return { success: false, message: data.message };
+  }
+  return { success: true, message: approve ? 'Gate pass approved' : 'Gate pass rejected' };
+};
+
+// Employees who left on a pass and have not come back, most overdue first.
+// A visitor's exit is their departure, so visitor passes are left out.
+export const getPassesOutside = async (): Promise<GatePass[]> => {
+  const { data, error } = await supabase
+    .from('gate_passes')
+    .select('*')
+    .not('employee_id', 'is', null)
+    .not('exit_time', 'is', null)
+    .is('return_time', null)
+    .order('return_due_at', { ascending: true, nullsFirst: false });
+
+  if (error) {
+    console.error('Error fetching passes outside:', error);
+    throw new Error('Failed to load who is outside');
+  }
+  return (data || []).map(pass => mapDatabasePassToGatePass(pass));
+};
+
+// Whole minutes past the expected return, or null when the pass is not overdue
+export const getOverdueMinutes = (pass: GatePass, now = new Date()): number | null => {
+  if (!pass.returnDueAt) return null;
+  const minutes = Math.floor((now.getTime() - new Date(pass.returnDueAt).getTime()) / 60000);
+  return minutes >= 0 ? minutes : null;
+};
+
+export { formatOverdue };
+
+// "0, 30, 120" to [0, 30, 120]; null unless every step is a whole number of
+// minutes and each comes after the one before
+export const parseAlertMinutes = (text: string): number[] | null => {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0 || parts.some(part => !/^\d+$/.test(part))) return null;
+  const minutes = parts.map(Number);
+  return minutes.every((value, index) => index === 0 || value > minutes[index - 1]) ? minutes : null;
+};
+
+export const getGatePassAlertMinutes = async (): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('gate_pass_alert_minutes')
+    .eq('setting_type', ORGANIZATION_SETTING_TYPE)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching gate pass alert steps:', error);
+    throw new Error('Failed to load gate pass alert settings');
+  }
+  return data?.gate_pass_alert_minutes || DEFAULT_ALERT_MINUTES;
+};
+
+export const saveGatePassAlertMinutes = async (
+  minutes: number[]
+): Promise<{ success: boolean; message: string }> => {
+  if (minutes.length === 0) {
+    return { success: false, message: 'Add at least one alert step' };
+  }
+
+  const { error } = await supabase
+    .from('admin_settings')
+    .update({ gate_pass_alert_minutes: minutes, updated_at: new Date().toISOString() })
+    .eq('setting_type', ORGANIZATION_SETTING_TYPE);
+
+  if (error) {
+    console.error('Error saving gate pass alert steps:', error);
+    return { success: false, message: 'Failed to save gate pass alert settings' };
+  }
+  return { success: true, message: 'Gate pass alert settings saved' };
+};
+
+// The pass code in a scanned QR: signed passes carry it in their payload,
+// older passes hold the plain code, and the old JSON format still scans
+export const parseGatePassQR = (value: string): string | null => {
+  const text = value.trim();
+  const signedPass = decodeSignedGatePass(text);
+  if (signedPass) return signedPass.payload.pc;
+  if (text.startsWith('{')) {
+    try {
+      const data = JSON.parse(text);
+      return typeof data?.pass_code === 'string' ? data.pass_code : null;
+    } catch {
+      return null;
+    }
+  }
+  return /^[A-Z0-9-]{6,}$/i.test(text) ? text.toUpperCase() : null;
+};
+
 // Completely rewritten verification function for better reliability
 export const verifyGatePass = async (passCode: string): Promise<{
   verified: boolean;
@@ -437,7 +750,8 @@ export const verifyGatePass = async (passCode: string): Promise<{
           id,
           first_name,
           last_name
-        )
+        ),
+        visitor:visitor_id (*, host:host_employee_id (first_name, last_name))
       `)
       .eq('pass_code', cleanPassCode)
       .eq('status', 'active')
@@ -468,7 +782,8 @@ export const verifyGatePass = async (passCode: string): Promise<{
             id,
             first_name,
             last_name
-          )
+          ),
+          visitor:visitor_id (*, host:host_employee_id (first_name, last_name))
         `)
         .eq('pass_code', noHyphenCode)
         .eq('status', 'active')
@@ -548,7 +863,8 @@ export const verifyGatePass = async (passCode: string): Promise<{
           id,
           first_name,
           last_name
-        )
+        ),
+        visitor:visitor_id (*, host:host_employee_id (first_name, last_name))
       `)
       .single();
 
@@ -631,6 +947,11 @@ export { generateQRCode as generateQRCodeForPass };
 
 // Function to generate gate pass image
 export const generateGatePassImage = async (pass: GatePass): Promise<Blob> => {
+  // Only approved passes get a QR code
+  if (!isGatePassApproved(pass.status)) {
+    throw new Error(pass.status === 'pending' ? 'This gate pass is still waiting for approval' : 'This gate pass was rejected');
+  }
+
   // Create a canvas element
   const canvas = document.createElement('canvas');
   canvas.width = 1000;
@@ -656,10 +977,10 @@ export const generateGatePassImage = async (pass: GatePass): Promise<Blob> => {
   ctx.font = 'bold 48px Arial';
   ctx.fillStyle = '#ffffff';
   ctx.textAlign = 'center';
-  ctx.fillText('GATE PASS', canvas.width / 2, 55);
+  ctx.fillText(pass.visitor ? 'VISITOR PASS' : 'GATE PASS', canvas.width / 2, 55);
 
   // Add QR code
-  const qrCodeDataUrl = await QRCode.toDataURL(pass.passCode, {
+  const qrCodeDataUrl = await QRCode.toDataURL(await getGatePassQRData(pass), {
     width: 200,
     margin: 1,
     color: {
@@ -680,7 +1001,7 @@ export const generateGatePassImage = async (pass: GatePass): Promise<Blob> => {
   ctx.font = 'bold 24px Arial';
   
   // Employee details
-  ctx.fillText('Employee Name:', 300, 150);
+  ctx.fillText(pass.visitor ? 'Visitor:' : 'Employee Name:', 300, 150);
   ctx.font = '24px Arial';
   ctx.fillText(pass.employeeName, 300, 180);
   
@@ -690,15 +1011,30 @@ export const generateGatePassImage = async (pass: GatePass): Promise<Blob> => {
   ctx.fillText(pass.passCode, 300, 250);
   
   ctx.font = 'bold 24px Arial';
-  ctx.fillText('Type:', 300, 290);
-  ctx.font = '24px Arial';
-  ctx.fillText(pass.type.toUpperCase(), 300, 320);
+  if (pass.visitor) {
+    const host = pass.visitor.host ? `${pass.visitor.host.first_name} ${pass.visitor.host.last_name}` : '';
+    ctx.fillText('Visiting:', 300, 290);
+    ctx.font = '24px Arial';
+    ctx.fillText(pass.visitor.company ? `${host} (${pass.visitor.company})` : host, 300, 320);
+  } else {
+    ctx.fillText('Type:', 300, 290);
+    ctx.font = '24px Arial';
+    ctx.fillText(pass.type.toUpperCase(), 300, 320);
+  }
   
   ctx.font = 'bold 24px Arial';
   ctx.fillText('Valid Until:', 300, 360);
   ctx.font = '24px Arial';
   ctx.fillText(new Date(pass.expiresAt).toLocaleString(), 300, 390);
 
+  // Recurring passes are only good for exits inside their schedule
+  if (pass.schedule) {
+    ctx.font = 'bold 24px Arial';
+    ctx.fillText('Exits:', 300, 420);
+    ctx.font = '24px Arial';
+    ctx.fillText(describeSchedule(pass.schedule), 300, 448);
+  }
+
   // Add footer
   ctx.font = 'italic 16px Arial';
   ctx.fillStyle = '#6b7280';
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/supabaseMock';
+import { buildNonWorkingDates, getWorkingDates, importHolidaysFromIcs, parseIcsHolidays } from './holidayUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:new-year@example.com',
+  'DTSTART;VALUE=DATE:20250101',
+  'DTEND;VALUE=DATE:20250102',
+  'SUMMARY:New Year\\, Day',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:sinhala-tamil-new-year@example.com',
+  'DTSTART;VALUE=DATE:20250413',
+  'DTEND;VALUE=DATE:20250415',
+  'SUMMARY:Sinhala and Tamil',
+  '  New Year',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART:20250512T090000',
+  'SUMMARY:Vesak',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('iCalendar import', () => {
+  it('expands all-day events using the exclusive end date', () => {
+    expect(parseIcsHolidays(ICS).map(holiday => holiday.date)).toEqual([
+      '2025-01-01',
+      '2025-04-13',
+      '2025-04-14',
+      '2025-05-12',
+    ]);
+  });
+
+  it('unfolds long lines and unescapes text', () => {
+    const [newYear, sinhalaNewYear] = parseIcsHolidays(ICS);
+
+    expect(newYear).toEqual({ date: '2025-01-01', name: 'New Year, Day', uid: 'new-year@example.com' });
+    expect(sinhalaNewYear.name).toBe('Sinhala and Tamil New Year');
+  });
+
+  it('ignores events without a start date', () => {
+    expect(parseIcsHolidays('BEGIN:VEVENT\nSUMMARY:Broken\nEND:VEVENT')).toEqual([]);
+  });
+});
+
+describe('importing a calendar', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('skips dates already holidays in the same scope only', async () => {
+    const holidays = mockQuery({
+      data: [
+        { date: '2025-01-01', department_id: 'kitchen', site_id: null },
+        { date: '2025-04-13', department_id: null, site_id: null },
+      ],
+      error: null,
+    });
+    (supabase.from as Mock).mockReturnValue(holidays);
+
+    const result = await importHolidaysFromIcs(ICS, 'kitchen');
+
+    expect(result).toMatchObject({ success: true, imported: 3, skipped: 1 });
+    expect(holidays.insert.mock.calls[0][0].map((row: { date: string }) => row.date)).toEqual([
+      '2025-04-13',
+      '2025-04-14',
+      '2025-05-12',
+    ]);
+  });
+});
+
+describe('working days', () => {
+  const employees = [
+    { id: 'e1', department_id: 'kitchen' },
+    { id: 'e2', department_id: 'front-office' },
+  ];
+  const holidays = [
+    { date: '2025-07-01', department_id: null },
+    { date: '2025-07-02', department_id: 'kitchen' },
+  ];
+  const rosters = [
+    { employee_id: 'e2', shift_pattern: [
+      { date: '2025-07-03', shift: 'off' as const },
+      { date: '2025-07-04', shift: 'morning' as const },
+    ] },
+  ];
+
+  it('skips organization holidays, department holidays and rostered off days', () => {
+    const nonWorking = buildNonWorkingDates(employees, holidays, rosters);
+    const dates = ['2025-07-01', '2025-07-02', '2025-07-03', '2025-07-04'];
+
+    expect(getWorkingDates(dates, nonWorking, 'e1')).toEqual(['2025-07-03', '2025-07-04']);
+    expect(getWorkingDates(dates, nonWorking, 'e2')).toEqual(['2025-07-02', '2025-07-04']);
+  });
+
+  it('applies site holidays and site closed days only to employees based there', () => {
+    const siteEmployees = [
+      { id: 'e1', department_id: 'kitchen', home_site_id: 'galle' },
+      { id: 'e2', department_id: 'kitchen', home_site_id: 'kandy' },
+    ];
+    const siteHolidays = [{ date: '2025-07-01', department_id: null, site_id: 'galle' }];
+    // 2025-07-06 is a Sunday, when Kandy is closed
+    const siteOffDates = new Map([['kandy', new Set(['2025-07-06'])]]);
+
+    const nonWorking = buildNonWorkingDates(siteEmployees, siteHolidays, [], siteOffDates);
+    const dates = ['2025-07-01', '2025-07-06'];
+
+    expect(getWorkingDates(dates, nonWorking, 'e1')).toEqual(['2025-07-06']);
+    expect(getWorkingDates(dates, nonWorking, 'e2')).toEqual(['2025-07-01']);
+  });
+});
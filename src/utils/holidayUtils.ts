@@ -0,0 +1,313 @@
+// Holiday Calendar Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { DailyShift } from '@/integrations/supabase/types';
+import { addDaysToDate, getDateInTimezone } from './timezoneUtils';
+import { getSiteOffDates } from './siteUtils';
+
+/**
+ * Admin-managed public holidays, either organization-wide or limited to one
+ * department or site, plus the working-day helpers that absence and
+ * attendance-rate calculations use. A day is not a working day for an
+ * employee when it is a holiday for their department and home site, falls
+ * outside their home site's working week, or their roster marks it as 'off'.
+ */
+
+export interface Holiday {
+  id: string;
+  date: string; // yyyy-MM-dd
+  name: string;
+  department_id: string | null; // null = applies to everyone
+  site_id: string | null; // null = applies to every site
+  source: 'manual' | 'ics';
+  external_uid: string | null;
+  department?: { name: string } | null;
+  site?: { name: string } | null;
+}
+
+export interface ParsedHoliday {
+  date: string;
+  name: string;
+  uid: string | null;
+}
+
+export interface WorkingDayEmployee {
+  id: string;
+  department_id?: string | null;
+  home_site_id?: string | null;
+}
+
+// Non-working dates per employee id
+export type NonWorkingDates = Map<string, Set<string>>;
+
+const unescapeIcsText = (value: string): string =>
+  value
+    .replace(/\\[nN]/g, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+
+// DATE (20250101) or DATE-TIME (20250101T000000[Z]) to yyyy-MM-dd
+const parseIcsDate = (value: string): { date: string; allDay: boolean } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (!hour) return { date: `${year}-${month}-${day}`, allDay: true };
+
+  // UTC times are moved into the organization's calendar day
+  const date = utc
+    ? getDateInTimezone(new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`))
+    : `${year}-${month}-${day}`;
+  return { date, allDay: false };
+};
+
+/**
+ * Parse the VEVENTs of an iCalendar file into one entry per holiday date.
+ * All-day events use the exclusive DTEND from RFC 5545, so a three-day event
+ * yields three dates. Recurrence rules are not expanded.
+ */
+export const parseIcsHolidays = (text: string): ParsedHoliday[] => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: ParsedHoliday[] = [];
+  let event: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      const current = event;
+      event = null;
+      const start = current?.DTSTART ? parseIcsDate(current.DTSTART) : null;
+      if (!current || !start) return;
+
+      const end = current.DTEND ? parseIcsDate(current.DTEND) : null;
+      const endDate = end?.allDay ? addDaysToDate(end.date, -1) : end?.date;
+      const lastDate = endDate && endDate > start.date ? endDate : start.date;
+
+      const name = unescapeIcsText(current.SUMMARY || '') || 'Holiday';
+      for (let date = start.date; date <= lastDate; date = addDaysToDate(date, 1)) {
+        holidays.push({ date, name, uid: current.UID || null });
+      }
+      return;
+    }
+    if (!event) return;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    event[property] = line.slice(separator + 1);
+  });
+
+  return holidays;
+};
+
+export const appliesToDepartment = (
+  holiday: Pick<Holiday, 'department_id'>,
+  departmentId?: string | null
+): boolean => !holiday.department_id || holiday.department_id === departmentId;
+
+export const appliesToEmployee = (
+  holiday: Pick<Holiday, 'department_id'> & Partial<Pick<Holiday, 'site_id'>>,
+  employee: WorkingDayEmployee
+): boolean =>
+  appliesToDepartment(holiday, employee.department_id) &&
+  (!holiday.site_id || holiday.site_id === employee.home_site_id);
+
+export const getOffDates = (shiftPattern: DailyShift[] | null | undefined): Set<string> =>
+  new Set((shiftPattern || []).filter(day => day?.shift === 'off').map(day => day.date));
+
+// `siteOffDates` holds the days outside each site's working week, by site id
+export const buildNonWorkingDates = (
+  employees: WorkingDayEmployee[],
+  holidays: (Pick<Holiday, 'date' | 'department_id'> & Partial<Pick<Holiday, 'site_id'>>)[],
+  rosters: { employee_id: string; shift_pattern: DailyShift[] | null }[],
+  siteOffDates: Map<string, Set<string>> = new Map()
+): NonWorkingDates => {
+  const nonWorking: NonWorkingDates = new Map();
+
+  employees.forEach(employee => {
+    const dates = new Set(
+      holidays
+        .filter(holiday => appliesToEmployee(holiday, employee))
+        .map(holiday => holiday.date)
+    );
+    if (employee.home_site_id) {
+      siteOffDates.get(employee.home_site_id)?.forEach(date => dates.add(date));
+    }
+    rosters
+      .filter(roster => roster.employee_id === employee.id)
+      .forEach(roster => getOffDates(roster.shift_pattern).forEach(date => dates.add(date)));
+    nonWorking.set(employee.id, dates);
+  });
+
+  return nonWorking;
+};
+
+export const isWorkingDay = (
+  nonWorking: NonWorkingDates,
+  employeeId: string,
+  date: string
+): boolean => !nonWorking.get(employeeId)?.has(date);
+
+export const getWorkingDates = (
+  dates: string[],
+  nonWorking: NonWorkingDates,
+  employeeId: string
+): string[] => dates.filter(date => isWorkingDay(nonWorking, employeeId, date));
+
+export const getHolidays = async (from?: string, to?: string): Promise<Holiday[]> => {
+  let query = supabase
+    .from('holidays')
+    .select('*, department:department_id (name), site:site_id (name)')
+    .order('date');
+
+  if (from) query = query.gte('date', from);
+  if (to) query = query.lte('date', to);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching holidays:', error);
+    throw new Error('Failed to load holidays');
+  }
+  return (data || []) as Holiday[];
+};
+
+/**
+ * Holidays, site closed days and rostered off days for each employee between
+ * `from` and `to`. A roster or site lookup failure is logged and treated as
+ * "no off days" so reports still load.
+ */
+export const getNonWorkingDates = async (
+  employees: WorkingDayEmployee[],
+  from: string,
+  to: string
+): Promise<NonWorkingDates> => {
+  if (employees.length === 0) return new Map();
+
+  const [holidays, { data: rosters, error: rosterError }, { data: sites, error: siteError }] = await Promise.all([
+    getHolidays(from, to),
+    supabase
+      .from('rosters')
+      .select('employee_id, shift_pattern')
+      .in('employee_id', employees.map(employee => employee.id))
+      .lte('start_date', to)
+      .gte('end_date', from),
+    supabase.from('sites').select('id, working_days')
+  ]);
+
+  if (rosterError) {
+    console.error('Error fetching rosters for working days:', rosterError);
+  }
+  if (siteError) {
+    console.error('Error fetching site working days:', siteError);
+  }
+
+  const siteOffDates = new Map(
+    (siteError ? [] : sites || []).map(site => [site.id as string, getSiteOffDates(site, from, to)])
+  );
+  return buildNonWorkingDates(employees, holidays, rosterError ? [] : rosters || [], siteOffDates);
+};
+
+export const addHoliday = async (holiday: {
+  date: string;
+  name: string;
+  departmentId?: string | null;
+  siteId?: string | null;
+}): Promise<{ success: boolean; message: string }> => {
+  if (!holiday.date || !holiday.name?.trim()) {
+    return { success: false, message: 'Date and name are required' };
+  }
+
+  const { error } = await supabase
+    .from('holidays')
+    .insert({
+      date: holiday.date,
+      name: holiday.name.trim(),
+      department_id: holiday.departmentId || null,
+      site_id: holiday.siteId || null,
+      source: 'manual'
+    });
+
+  if (error) {
+    console.error('Error adding holiday:', error);
+    return {
+      success: false,
+      message: error.code === '23505' ? 'A holiday already exists on this date' : 'Failed to add holiday'
+    };
+  }
+  return { success: true, message: 'Holiday added' };
+};
+
+export const deleteHoliday = async (id: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.from('holidays').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting holiday:', error);
+    return { success: false, message: 'Failed to delete holiday' };
+  }
+  return { success: true, message: 'Holiday deleted' };
+};
+
+// Import an .ics file, skipping dates that already have a holiday in the same scope
+export const importHolidaysFromIcs = async (
+  text: string,
+  departmentId?: string | null,
+  siteId?: string | null
+): Promise<{ success: boolean; message: string; imported: number; skipped: number }> => {
+  try {
+    const parsed = parseIcsHolidays(text);
+    if (parsed.length === 0) {
+      return { success: false, message: 'No events found in the calendar file', imported: 0, skipped: 0 };
+    }
+
+    const dates = parsed.map(holiday => holiday.date).sort();
+    const existing = await getHolidays(dates[0], dates[dates.length - 1]);
+    const taken = new Set(
+      existing
+        .filter(holiday =>
+          (holiday.department_id || null) === (departmentId || null) &&
+          (holiday.site_id || null) === (siteId || null))
+        .map(holiday => holiday.date)
+    );
+
+    const rows = parsed
+      .filter(holiday => {
+        if (taken.has(holiday.date)) return false;
+        taken.add(holiday.date);
+        return true;
+      })
+      .map(holiday => ({
+        date: holiday.date,
+        name: holiday.name,
+        department_id: departmentId || null,
+        site_id: siteId || null,
+        source: 'ics',
+        external_uid: holiday.uid
+      }));
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('holidays').insert(rows);
+      if (error) {
+        console.error('Error importing holidays:', error);
+        return { success: false, message: 'Failed to import holidays', imported: 0, skipped: parsed.length };
+      }
+    }
+
+    const skipped = parsed.length - rows.length;
+    return {
+      success: true,
+      message: `Imported ${rows.length} holiday(s)${skipped > 0 ? `, skipped ${skipped} existing` : ''}`,
+      imported: rows.length,
+      skipped
+    };
+  } catch (error) {
+    console.error('Error in importHolidaysFromIcs:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to import holidays',
+      imported: 0,
+      skipped: 0
+    };
+  }
+};
@@ -1,6 +1,14 @@
 // Late Duration Calculation Utilities
 import { Roster } from '@/types';
 import { differenceInMinutes, parseISO, format } from 'date-fns';
+import { getBusinessDate, getShiftLengthMinutes, getShiftWindow, ShiftTimes } from './businessDayUtils';
+import { AttendancePunches, getAttendanceSessions, getRulesForRoster } from './attendanceStateMachine';
+
+// Roster fields the early-departure checks read
+export type EarlyDepartureRoster = ShiftTimes & {
+  early_departure_threshold?: number | null;
+  max_sessions?: number | null;
+};
 
 export interface LateDurationCalculation {
   isLate: boolean;
@@ -12,12 +20,14 @@ export interface LateDurationCalculation {
 }
 
 /**
- * Calculate late duration based on employee's roster start time
- * This is the corrected implementation that ensures accurate late calculations
+ * Calculate late duration based on employee's roster start time.
+ * The start is anchored to the business day, so a 00:30 check-in on a
+ * 22:00–06:00 shift counts against the previous evening's start.
  */
 export const calculateLateDuration = (
   checkInTime: string | Date,
-  roster: Roster
+  roster: Roster,
+  businessDate?: string
 ): LateDurationCalculation => {
   try {
     // Parse the actual check-in time
@@ -25,13 +35,11 @@ export const calculateLateDuration = (
       ? parseISO(checkInTime) 
       : checkInTime;
     
-    // Get the roster start time for the same date
-    const checkInDate = actualCheckIn;
-    const [startHours, startMinutes] = roster.start_time.split(':').map(Number);
-    
-    // Create roster start time for the same date as check-in
-    const rosterStart = new Date(checkInDate);
-    rosterStart.setHours(startHours, startMinutes, 0, 0);
+    // Roster start on the business day the check-in belongs to
+    const rosterStart = getShiftWindow(
+      businessDate || getBusinessDate(actualCheckIn, roster),
+      roster
+    ).start;
     
     // Calculate the difference in minutes
     const minutesDifference = differenceInMinutes(actualCheckIn, rosterStart);
@@ -51,7 +59,7 @@ export const calculateLateDuration = (
       lateMinutes,
       actualCheckInTime: actualCheckIn,
       rosterStartTime: rosterStart,
-      gracePeriodUsed: Math.min(gracePeriod, minutesDifference),
+      gracePeriodUsed: Math.max(0, Math.min(gracePeriod, minutesDifference)),
       formattedLateDuration
     };
     
@@ -165,15 +173,13 @@ export const minutesToTimeString = (minutes: number): string => {
 };
 
 /**
- * Calculate expected working hours based on roster
+ * Calculate expected working hours based on roster (overnight shifts wrap past midnight)
  */
 export const calculateExpectedWorkingHours = (roster: Roster): number => {
   try {
-    const startMinutes = timeStringToMinutes(roster.start_time);
-    const endMinutes = timeStringToMinutes(roster.end_time);
     const breakDuration = roster.break_duration || 0;
     
-    const totalMinutes = endMinutes - startMinutes - breakDuration;
+    const totalMinutes = getShiftLengthMinutes(roster) - breakDuration;
     return Math.max(0, totalMinutes / 60);
   } catch (error) {
     console.error('Error calculating expected working hours:', error);
@@ -181,6 +187,48 @@ export const calculateExpectedWorkingHours = (roster: Roster): number => {
   }
 };
 
+/**
+ * Minutes an employee left before the roster end, beyond the allowed threshold
+ */
+export const calculateEarlyDeparture = (
+  checkOutTime: string | Date,
+  roster: EarlyDepartureRoster,
+  businessDate?: string
+): { isEarly: boolean; earlyMinutes: number; rosterEndTime: Date } => {
+  const actualCheckOut = typeof checkOutTime === 'string' ? parseISO(checkOutTime) : checkOutTime;
+  const rosterEnd = getShiftWindow(
+    businessDate || getBusinessDate(actualCheckOut, roster),
+    roster
+  ).end;
+
+  const minutesEarly = differenceInMinutes(rosterEnd, actualCheckOut);
+  const earlyMinutes = Math.max(0, minutesEarly - (roster.early_departure_threshold || 0));
+
+  return { isEarly: earlyMinutes > 0, earlyMinutes, rosterEndTime: rosterEnd };
+};
+
+/**
+ * Early departure for the attendance report. Only a finished day counts: its
+ * last check-out is measured against the roster end of the record's business
+ * day. Without a roster the stored minutes are used.
+ */
+export const getRosterBasedEarlyDeparture = (
+  record: AttendancePunches & { date?: string; early_departure_minutes?: number | null },
+  roster?: EarlyDepartureRoster | null
+): number => {
+  if (!roster) {
+    return record.early_departure_minutes || 0;
+  }
+
+  const sessions = getAttendanceSessions(record);
+  const last = sessions[sessions.length - 1];
+  if (!last?.check_out || sessions.length < getRulesForRoster(roster).maximumSessions) {
+    return 0;
+  }
+
+  return calculateEarlyDeparture(last.check_out, roster, record.date).earlyMinutes;
+};
+
 /**
  * Get roster-aware late duration for display in components
  */
@@ -190,7 +238,8 @@ export const getRosterBasedLateDuration = (
 ): string => {
   // If we have roster information and check-in time, calculate properly
   if (roster && record.first_check_in_time) {
-    const calculation = calculateLateDuration(record.first_check_in_time, roster);
+    // The record's date is its business day, even when the punch is after midnight
+    const calculation = calculateLateDuration(record.first_check_in_time, roster, record.date);
     return calculation.formattedLateDuration;
   }
   
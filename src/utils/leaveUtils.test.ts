@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LeaveRequest,
+  LeaveType,
+  calculateAccruedDays,
+  calculateLeaveBalance,
+  countLeaveDays,
+  countWorkingLeaveDays,
+  getLeaveForDate,
+  reviewLeaveRequest,
+  splitAbsencesByLeave
+} from './leaveUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+const ANNUAL_LEAVE: LeaveType = {
+  id: 'al',
+  name: 'Annual Leave',
+  code: 'AL',
+  color: '#22c55e',
+  is_paid: true,
+  annual_allowance: 14,
+  accrual_method: 'monthly',
+  max_carry_over: 5,
+  is_active: true
+};
+
+const leave = (employeeId: string, start: string, end: string, status: LeaveRequest['status'] = 'approved'): LeaveRequest => ({
+  id: `${employeeId}-${start}`,
+  employee_id: employeeId,
+  leave_type_id: 'al',
+  start_date: start,
+  end_date: end,
+  half_day: false,
+  days: countLeaveDays(start, end),
+  reason: null,
+  status,
+  reviewed_by: null,
+  reviewed_by_name: null,
+  reviewed_at: null,
+  review_note: null,
+  created_at: ''
+});
+
+describe('leave day counts', () => {
+  it('counts both ends of the range', () => {
+    expect(countLeaveDays('2025-07-30', '2025-08-02')).toBe(4);
+  });
+
+  it('counts a half day as 0.5', () => {
+    expect(countLeaveDays('2025-07-01', '2025-07-01', true)).toBe(0.5);
+  });
+
+  it('does not charge holidays or rostered off days', () => {
+    const nonWorking = new Map([['e1', new Set(['2025-07-01', '2025-07-03'])]]);
+
+    expect(countWorkingLeaveDays('e1', '2025-07-01', '2025-07-04', false, nonWorking)).toBe(2);
+    expect(countWorkingLeaveDays('e1', '2025-07-01', '2025-07-01', true, nonWorking)).toBe(0);
+  });
+});
+
+describe('leave accrual', () => {
+  it('credits monthly accrual at the start of each month, rounded down to half days', () => {
+    expect(calculateAccruedDays(ANNUAL_LEAVE, 2025, '2025-01-15')).toBe(1);
+    expect(calculateAccruedDays(ANNUAL_LEAVE, 2025, '2025-07-01')).toBe(8);
+    expect(calculateAccruedDays(ANNUAL_LEAVE, 2025, '2026-03-01')).toBe(14);
+  });
+
+  it('grants annual accrual in full and leaves unlimited types unbounded', () => {
+    expect(calculateAccruedDays({ annual_allowance: 7, accrual_method: 'annual' }, 2025, '2025-01-01')).toBe(7);
+    expect(calculateAccruedDays({ annual_allowance: null, accrual_method: 'annual' }, 2025, '2025-01-01')).toBeNull();
+  });
+
+  it('caps carry-over and subtracts approved usage', () => {
+    const balance = calculateLeaveBalance(ANNUAL_LEAVE, {
+      employee_id: 'e1',
+      leave_type_id: 'al',
+      year: 2025,
+      carried_over: 8,
+      adjustment: 1,
+      used: 3
+    }, 2025, '2025-07-01');
+
+    expect(balance.carriedOver).toBe(5);
+    expect(balance.available).toBe(8 + 5 + 1 - 3);
+  });
+});
+
+describe('approved leave in reports', () => {
+  it('ignores requests that are not approved', () => {
+    const onLeave = getLeaveForDate([leave('e1', '2025-07-01', '2025-07-03'), leave('e2', '2025-07-01', '2025-07-01', 'pending')], '2025-07-02');
+
+    expect(Array.from(onLeave.keys())).toEqual(['e1']);
+  });
+
+  it('reports an employee as on leave only when every missed day is covered', () => {
+    const dates = ['2025-07-01', '2025-07-02', '2025-07-03'];
+    const present = new Map([
+      ['2025-07-01', new Set(['e3'])],
+      ['2025-07-02', new Set(['e3'])],
+      ['2025-07-03', new Set(['e2', 'e3'])],
+    ]);
+
+    const result = splitAbsencesByLeave(['e1', 'e2', 'e3'], dates, present, [
+      leave('e1', '2025-07-01', '2025-07-02'),
+      leave('e2', '2025-07-01', '2025-07-02'),
+    ]);
+
+    expect(result).toEqual({ absent: ['e1'], onLeave: ['e2'] });
+  });
+
+  it('does not treat holidays as missed days', () => {
+    const dates = ['2025-07-01', '2025-07-02'];
+    const present = new Map([['2025-07-01', new Set(['e1'])]]);
+    const nonWorking = new Map([['e1', new Set(['2025-07-02'])]]);
+
+    expect(splitAbsencesByLeave(['e1'], dates, present, [], nonWorking)).toEqual({ absent: [], onLeave: [] });
+  });
+});
+
+describe('reviewLeaveRequest', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('reviews through the database as the signed-in user', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: { success: true }, error: null });
+
+    expect(await reviewLeaveRequest('request-1', true, ' Enjoy ')).toEqual({ success: true, message: 'Leave approved' });
+    expect(supabase.rpc).toHaveBeenCalledWith('review_leave_request', {
+      p_request_id: 'request-1',
+      p_approve: true,
+      p_review_note: 'Enjoy',
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('passes on a balance the database found insufficient', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { success: false, error: 'Insufficient Annual Leave balance: 2 day(s) available' },
+      error: null,
+    });
+
+    expect(await reviewLeaveRequest('request-1', true)).toEqual({
+      success: false,
+      message: 'Insufficient Annual Leave balance: 2 day(s) available',
+    });
+  });
+
+  it('refuses reviewers outside the employee\'s department', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: null,
+      error: { code: '42501', message: 'Not allowed to review leave for this employee' },
+    });
+
+    expect(await reviewLeaveRequest('request-1', false)).toEqual({
+      success: false,
+      message: 'You cannot review leave for this employee',
+    });
+  });
+});
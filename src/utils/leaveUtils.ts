@@ -0,0 +1,408 @@
+// Leave Management Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { addDaysToDate, getDateInTimezone } from './timezoneUtils';
+import { NonWorkingDates, getNonWorkingDates, getWorkingDates, isWorkingDay } from './holidayUtils';
+
+/**
+ * Employees request leave against a leave type; a manager approves or rejects
+ * it. Balances are accrued from the type's rule (all at once, or monthly) plus
+ * carry-over and manual adjustments; the database keeps `used` in step with
+ * approved requests. Approved leave turns a missing attendance row into
+ * "On Leave" instead of an absence.
+ */
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type AccrualMethod = 'annual' | 'monthly';
+
+export interface LeaveType {
+  id: string;
+  name: string;
+  code: string;
+  color: string;
+  is_paid: boolean;
+  annual_allowance: number | null; // null = not balance-limited
+  accrual_method: AccrualMethod;
+  max_carry_over: number;
+  is_active: boolean;
+}
+
+export interface LeaveRequest {
+  id: string;
+  employee_id: string;
+  leave_type_id: string;
+  start_date: string; // yyyy-MM-dd
+  end_date: string;
+  half_day: boolean;
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  reviewed_by: string | null;
+  // Email of the reviewer, or the name typed in before sign-in was required
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  created_at: string;
+  employee?: { name: string | null; first_name: string | null; last_name: string | null } | null;
+  leave_type?: Pick<LeaveType, 'name' | 'code' | 'color' | 'is_paid'> | null;
+}
+
+export interface LeaveBalanceRow {
+  employee_id: string;
+  leave_type_id: string;
+  year: number;
+  carried_over: number;
+  adjustment: number;
+  used: number;
+}
+
+export interface LeaveBalance {
+  leaveType: LeaveType;
+  year: number;
+  accrued: number;
+  carriedOver: number;
+  adjustment: number;
+  used: number;
+  available: number | null; // null = unlimited
+}
+
+export interface NewLeaveRequest {
+  employeeId: string;
+  leaveTypeId: string;
+  startDate: string;
+  endDate: string;
+  halfDay?: boolean;
+  reason?: string;
+}
+
+type LeaveResult = { success: boolean; message: string };
+
+const LEAVE_REQUEST_SELECT = `
+  *,
+  employee:employee_id (name, first_name, last_name),
+  leave_type:leave_type_id (name, code, color, is_paid)
+`;
+
+// Every date from start to end inclusive
+export const getDatesInRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDaysToDate(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+export const countLeaveDays = (startDate: string, endDate: string, halfDay = false): number => {
+  if (endDate < startDate) return 0;
+  return halfDay ? 0.5 : getDatesInRange(startDate, endDate).length;
+};
+
+// Leave days charged to the balance: holidays and rostered off days are free
+export const countWorkingLeaveDays = (
+  employeeId: string,
+  startDate: string,
+  endDate: string,
+  halfDay: boolean,
+  nonWorking: NonWorkingDates
+): number => {
+  if (endDate < startDate) return 0;
+  const workingDays = getWorkingDates(getDatesInRange(startDate, endDate), nonWorking, employeeId).length;
+  return halfDay ? Math.min(workingDays, 0.5) : workingDays;
+};
+
+/**
+ * Days accrued for `year` as of `asOf` (yyyy-MM-dd). Monthly accrual credits
+ * a twelfth of the allowance at the start of each month, rounded down to the
+ * nearest half day. Returns null for types without an allowance.
+ */
+export const calculateAccruedDays = (
+  leaveType: Pick<LeaveType, 'annual_allowance' | 'accrual_method'>,
+  year: number,
+  asOf: string
+): number | null => {
+  if (leaveType.annual_allowance === null) return null;
+
+  const [asOfYear, asOfMonth] = asOf.split('-').map(Number);
+  if (asOfYear < year) return 0;
+  if (leaveType.accrual_method === 'annual' || asOfYear > year) return leaveType.annual_allowance;
+
+  return Math.floor((leaveType.annual_allowance * asOfMonth / 12) * 2) / 2;
+};
+
+export const calculateLeaveBalance = (
+  leaveType: LeaveType,
+  row: LeaveBalanceRow | null | undefined,
+  year: number,
+  asOf: string
+): LeaveBalance => {
+  const accrued = calculateAccruedDays(leaveType, year, asOf);
+  const carriedOver = Math.min(row?.carried_over || 0, leaveType.max_carry_over);
+  const adjustment = row?.adjustment || 0;
+  const used = row?.used || 0;
+
+  return {
+    leaveType,
+    year,
+    accrued: accrued ?? 0,
+    carriedOver,
+    adjustment,
+    used,
+    available: accrued === null ? null : accrued + carriedOver + adjustment - used
+  };
+};
+
+export const rangesOverlap = (
+  a: { start_date: string; end_date: string },
+  b: { start_date: string; end_date: string }
+): boolean => a.start_date <= b.end_date && b.start_date <= a.end_date;
+
+// Approved leave covering `date`, keyed by employee
+export const getLeaveForDate = (
+  requests: LeaveRequest[],
+  date: string
+): Map<string, LeaveRequest> => {
+  const onLeave = new Map<string, LeaveRequest>();
+  requests
+    .filter(request => request.status === 'approved' && request.start_date <= date && date <= request.end_date)
+    .forEach(request => onLeave.set(request.employee_id, request));
+  return onLeave;
+};
+
+/**
+ * Split employees without attendance over `dates` into those absent on at
+ * least one uncovered day and those whose every missing day is approved leave.
+ * Holidays and rostered off days in `nonWorking` are never missed days.
+ */
+export const splitAbsencesByLeave = (
+  employeeIds: string[],
+  dates: string[],
+  presentByDate: Map<string, Set<string>>,
+  approvedLeave: LeaveRequest[],
+  nonWorking: NonWorkingDates = new Map()
+): { absent: string[]; onLeave: string[] } => {
+  const absent: string[] = [];
+  const onLeave: string[] = [];
+
+  employeeIds.forEach(employeeId => {
+    const missingDates = dates.filter(date =>
+      !presentByDate.get(date)?.has(employeeId) && isWorkingDay(nonWorking, employeeId, date)
+    );
+    if (missingDates.length === 0) return;
+
+    const coveredByLeave = missingDates.every(date =>
+      approvedLeave.some(request =>
+        request.employee_id === employeeId &&
+        request.status === 'approved' &&
+        request.start_date <= date && date <= request.end_date
+      )
+    );
+    (coveredByLeave ? onLeave : absent).push(employeeId);
+  });
+
+  return { absent, onLeave };
+};
+
+export const getLeaveTypes = async (activeOnly = true): Promise<LeaveType[]> => {
+  let query = supabase.from('leave_types').select('*').order('name');
+  if (activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching leave types:', error);
+    throw new Error('Failed to load leave types');
+  }
+  return (data || []) as LeaveType[];
+};
+
+export const getLeaveRequests = async (
+  filters: { employeeId?: string; status?: LeaveStatus; from?: string; to?: string } = {}
+): Promise<LeaveRequest[]> => {
+  let query = supabase
+    .from('leave_requests')
+    .select(LEAVE_REQUEST_SELECT)
+    .order('start_date', { ascending: false });
+
+  if (filters.employeeId) query = query.eq('employee_id', filters.employeeId);
+  if (filters.status) query = query.eq('status', filters.status);
+  // Any request overlapping the window
+  if (filters.to) query = query.lte('start_date', filters.to);
+  if (filters.from) query = query.gte('end_date', filters.from);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching leave requests:', error);
+    throw new Error('Failed to load leave requests');
+  }
+  return (data || []) as LeaveRequest[];
+};
+
+export const getApprovedLeave = (from: string, to: string): Promise<LeaveRequest[]> =>
+  getLeaveRequests({ status: 'approved', from, to });
+
+export const getEmployeesOnLeave = async (
+  date: string = getDateInTimezone()
+): Promise<Map<string, LeaveRequest>> => getLeaveForDate(await getApprovedLeave(date, date), date);
+
+export const getLeaveBalances = async (
+  employeeId: string,
+  year: number = Number(getDateInTimezone().slice(0, 4))
+): Promise<LeaveBalance[]> => {
+  const [leaveTypes, { data, error }] = await Promise.all([
+    getLeaveTypes(),
+    supabase
+      .from('leave_balances')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .eq('year', year)
+  ]);
+
+  if (error) {
+    console.error('Error fetching leave balances:', error);
+    throw new Error('Failed to load leave balances');
+  }
+
+  const rows = (data || []) as LeaveBalanceRow[];
+  const asOf = getDateInTimezone();
+  return leaveTypes.map(leaveType =>
+    calculateLeaveBalance(leaveType, rows.find(row => row.leave_type_id === leaveType.id), year, asOf)
+  );
+};
+
+// Reject overlapping requests and requests beyond the remaining balance
+const checkLeaveRequest = async (
+  request: Pick<LeaveRequest, 'employee_id' | 'leave_type_id' | 'start_date' | 'end_date' | 'days'>
+): Promise<string | null> => {
+  const existing = await getLeaveRequests({
+    employeeId: request.employee_id,
+    from: request.start_date,
+    to: request.end_date
+  });
+  const overlapping = existing.find(other =>
+    (other.status === 'pending' || other.status === 'approved') &&
+    rangesOverlap(other, request)
+  );
+  if (overlapping) {
+    return `Overlaps an existing ${overlapping.status} leave request (${overlapping.start_date} to ${overlapping.end_date})`;
+  }
+
+  const year = Number(request.start_date.slice(0, 4));
+  const balance = (await getLeaveBalances(request.employee_id, year))
+    .find(item => item.leaveType.id === request.leave_type_id);
+  if (!balance) {
+    return 'Leave type not found';
+  }
+  if (balance.available !== null && request.days > balance.available) {
+    return `Insufficient ${balance.leaveType.name} balance: ${balance.available} day(s) available`;
+  }
+
+  return null;
+};
+
+export const requestLeave = async (
+  input: NewLeaveRequest
+): Promise<LeaveResult & { request?: LeaveRequest }> => {
+  try {
+    if (!input.employeeId || !input.leaveTypeId) {
+      return { success: false, message: 'Employee and leave type are required' };
+    }
+    if (!input.startDate || !input.endDate || input.endDate < input.startDate) {
+      return { success: false, message: 'End date must be on or after the start date' };
+    }
+    const halfDay = !!input.halfDay && input.startDate === input.endDate;
+
+    const { data: employee } = await supabase
+      .from('employees')
+      .select('id, department_id, home_site_id')
+      .eq('id', input.employeeId)
+      .single();
+    const nonWorking = await getNonWorkingDates(
+      [employee || { id: input.employeeId }],
+      input.startDate,
+      input.endDate
+    );
+    const days = countWorkingLeaveDays(input.employeeId, input.startDate, input.endDate, halfDay, nonWorking);
+    if (days === 0) {
+      return { success: false, message: 'The selected dates are all holidays or rostered off days' };
+    }
+
+    const problem = await checkLeaveRequest({
+      employee_id: input.employeeId,
+      leave_type_id: input.leaveTypeId,
+      start_date: input.startDate,
+      end_date: input.endDate,
+      days
+    });
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const { data, error } = await supabase
+      .from('leave_requests')
+      .insert({
+        employee_id: input.employeeId,
+        leave_type_id: input.leaveTypeId,
+        start_date: input.startDate,
+        end_date: input.endDate,
+        half_day: halfDay,
+        days,
+        reason: input.reason?.trim() || null
+      })
+      .select(LEAVE_REQUEST_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error creating leave request:', error);
+      return { success: false, message: 'Failed to submit leave request' };
+    }
+
+    return { success: true, message: `Leave request for ${days} working day(s) submitted for approval`, request: data as LeaveRequest };
+  } catch (error) {
+    console.error('Error in requestLeave:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to submit leave request' };
+  }
+};
+
+// Approve or reject as the signed-in user; overlap and balance are checked again on approval
+export const reviewLeaveRequest = async (
+  requestId: string,
+  approve: boolean,
+  note?: string
+): Promise<LeaveResult> => {
+  try {
+    const { data, error } = await supabase.rpc('review_leave_request', {
+      p_request_id: requestId,
+      p_approve: approve,
+      p_review_note: note?.trim() || null
+    });
+
+    if (error) {
+      console.error('Error reviewing leave request:', error);
+      return {
+        success: false,
+        message: error.code === '42501' ? 'You cannot review leave for this employee' : 'Failed to update leave request'
+      };
+    }
+    if (!data?.success) {
+      return { success: false, message: data?.error || 'Failed to update leave request' };
+    }
+
+    return { success: true, message: approve ? 'Leave approved' : 'Leave rejected' };
+  } catch (error) {
+    console.error('Error in reviewLeaveRequest:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to update leave request' };
+  }
+};
+
+// Withdraw a pending request or cancel approved leave, returning the days
+export const cancelLeaveRequest = async (requestId: string): Promise<LeaveResult> => {
+  const { error } = await supabase
+    .from('leave_requests')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .in('status', ['pending', 'approved']);
+
+  if (error) {
+    console.error('Error cancelling leave request:', error);
+    return { success: false, message: 'Failed to cancel leave request' };
+  }
+  return { success: true, message: 'Leave request cancelled' };
+};
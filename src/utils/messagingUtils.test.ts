@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildDailySummaryMessage,
+  createMockMessagingProvider,
+  sendToRecipients,
+  sendWithRetry,
+  whatsAppCloudProvider,
+  WHATSAPP_TEMPLATES,
+} from './messagingUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}));
+
+const message = buildDailySummaryMessage('Tuesday, July 1, 2025', {
+  totalEmployees: 20,
+  presentCount: 17,
+  lateCount: 2,
+  absentCount: 3,
+  presentRate: '85.0',
+}, '*Dutch Trails Report*\nPresent: 17');
+
+describe('daily summary template', () => {
+  it('fills the template parameters in order', () => {
+    expect(message.template).toBe(WHATSAPP_TEMPLATES.dailySummary);
+    expect(message.parameters).toEqual(['Tuesday, July 1, 2025', '20', '17', '2', '0', '3', '85.0%']);
+  });
+});
+
+describe('sending with retry', () => {
+  it('retries failed attempts until the provider accepts the message', async () => {
+    const provider = createMockMessagingProvider({ failures: 2 });
+    const onRetry = vi.fn();
+
+    const receipt = await sendWithRetry(provider, '94771234567', message, { delayMs: 0, onRetry });
+
+    expect(receipt).toMatchObject({ status: 'sent', attempts: 3, messageId: 'mock-1' });
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  it('gives up after the last attempt and keeps the error', async () => {
+    const provider = createMockMessagingProvider({ failures: 5 });
+
+    const receipt = await sendWithRetry(provider, '94771234567', message, { attempts: 3, delayMs: 0 });
+
+    expect(receipt).toMatchObject({ status: 'failed', attempts: 3, error: 'Mock provider failure' });
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('normalizes local numbers, sends once per number and skips invalid ones', async () => {
+    const provider = createMockMessagingProvider();
+
+    const receipts = await sendToRecipients(['0771234567', '12', '94771234567', '94777654321'], message, { provider, delayMs: 0 });
+
+    expect(receipts.map(receipt => receipt.status)).toEqual(['sent', 'failed', 'sent']);
+    expect(receipts[1]).toMatchObject({ attempts: 0, error: 'Invalid WhatsApp number' });
+    expect(provider.sent.map(item => item.recipient)).toEqual(['94771234567', '94777654321']);
+  });
+});
+
+describe('WhatsApp Cloud provider', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('sends through the edge function and returns the message id for the receipt', async () => {
+    (supabase.functions.invoke as Mock).mockResolvedValue({ data: { messageId: 'wamid.1' }, error: null });
+
+    expect(await whatsAppCloudProvider.send('94771234567', message, 2)).toBe('wamid.1');
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('send_whatsapp_message', {
+      body: expect.objectContaining({ to: '94771234567', template: WHATSAPP_TEMPLATES.dailySummary, attempt: 2 }),
+    });
+  });
+
+  it('fails the attempt when no message id comes back', async () => {
+    (supabase.functions.invoke as Mock).mockResolvedValue({
+      data: { error: 'Recipient is not on WhatsApp' },
+      error: { message: 'Edge Function returned a non-2xx status code' },
+    });
+
+    await expect(whatsAppCloudProvider.send('94771234567', message, 1)).rejects.toThrow('Recipient is not on WhatsApp');
+  });
+});
@@ -0,0 +1,227 @@
+// Messaging Utilities
+import { supabase } from '@/integrations/supabase/client';
+import {
+  MAX_RETRY_ATTEMPTS,
+  RETRY_DELAY,
+  WHATSAPP_TEMPLATES,
+  normalizeWhatsAppNumber
+} from '../../supabase/functions/_shared/messaging';
+
+/**
+ * Bot messages go out through a MessagingProvider instead of a wa.me link
+ * someone has to click. The WhatsApp Cloud API provider calls the
+ * send_whatsapp_message edge function, which holds the API token and records
+ * a receipt per attempt; set VITE_MESSAGING_PROVIDER=mock to send to an
+ * in-memory mock instead when working offline.
+ */
+
+export { MAX_RETRY_ATTEMPTS, RETRY_DELAY, WHATSAPP_TEMPLATES, normalizeWhatsAppNumber };
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface TemplateMessage {
+  template: string;
+  language?: string;
+  parameters: string[];
+  // Plain text version, kept with the receipt and used by the mock provider
+  text: string;
+}
+
+export interface MessagingProvider {
+  name: string;
+  // Sends one attempt and resolves with the provider's message ID
+  send: (recipient: string, message: TemplateMessage, attempt: number) => Promise<string>;
+}
+
+export interface SendReceipt {
+  recipient: string;
+  provider: string;
+  messageId: string | null;
+  status: 'sent' | 'failed';
+  attempts: number;
+  error?: string;
+}
+
+export interface MessageReceipt {
+  id: string;
+  channel: string;
+  provider: string;
+  recipient: string;
+  template: string | null;
+  provider_message_id: string | null;
+  status: ReceiptStatus;
+  attempt: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockMessagingProvider extends MessagingProvider {
+  sent: { recipient: string; message: TemplateMessage; messageId: string }[];
+}
+
+interface SendOptions {
+  attempts?: number;
+  delayMs?: number;
+  onRetry?: (recipient: string, attempt: number) => void;
+}
+
+export const whatsAppCloudProvider: MessagingProvider = {
+  name: 'whatsapp_cloud',
+  send: async (recipient, message, attempt) => {
+    const { data, error } = await supabase.functions.invoke('send_whatsapp_message', {
+      body: {
+        to: recipient,
+        template: message.template,
+        language: message.language,
+        parameters: message.parameters,
+        text: message.text,
+        attempt
+      }
+    });
+
+    if (error || !data?.messageId) {
+      console.error('Error sending WhatsApp message:', error || data);
+      throw new Error(data?.error || 'Failed to send WhatsApp message');
+    }
+    return data.messageId;
+  }
+};
+
+/**
+ * In-memory provider for offline use and tests. The first `failures` attempts
+ * throw, which is handy for exercising the retry path.
+ */
+export const createMockMessagingProvider = ({ failures = 0 } = {}): MockMessagingProvider => {
+  let remainingFailures = failures;
+  const sent: MockMessagingProvider['sent'] = [];
+
+  return {
+    name: 'mock',
+    sent,
+    send: async (recipient, message) => {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        throw new Error('Mock provider failure');
+      }
+      const messageId = `mock-${sent.length + 1}`;
+      sent.push({ recipient, message, messageId });
+      console.log(`[mock whatsapp] ${recipient}\n${message.text}`);
+      return messageId;
+    }
+  };
+};
+
+let mockProvider: MockMessagingProvider | null = null;
+
+export const getMessagingProvider = (): MessagingProvider => {
+  if (import.meta.env.VITE_MESSAGING_PROVIDER === 'mock') {
+    mockProvider = mockProvider || createMockMessagingProvider();
+    return mockProvider;
+  }
+  return whatsAppCloudProvider;
+};
+
+export const sendWithRetry = async (
+  provider: MessagingProvider,
+  recipient: string,
+  message: TemplateMessage,
+  { attempts = MAX_RETRY_ATTEMPTS, delayMs = RETRY_DELAY, onRetry }: SendOptions = {}
+): Promise<SendReceipt> => {
+  let lastError = 'Delivery failed';
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const messageId = await provider.send(recipient, message, attempt);
+      return { recipient, provider: provider.name, messageId, status: 'sent', attempts: attempt };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : lastError;
+      if (attempt < attempts) {
+        onRetry?.(recipient, attempt + 1);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  return { recipient, provider: provider.name, messageId: null, status: 'failed', attempts, error: lastError };
+};
+
+/**
+ * Sends the message once to every distinct number, retrying each one on its
+ * own. Numbers that cannot be normalized fail straight away without an attempt.
+ */
+export const sendToRecipients = async (
+  recipients: string[],
+  message: TemplateMessage,
+  { provider = getMessagingProvider(), ...options }: SendOptions & { provider?: MessagingProvider } = {}
+): Promise<SendReceipt[]> => {
+  const numbers = new Map<string, string>();
+  recipients.map(recipient => recipient.trim()).filter(Boolean).forEach(number => {
+    const to = normalizeWhatsAppNumber(number);
+    if (!numbers.has(to || number)) numbers.set(to || number, to);
+  });
+
+  return Promise.all(Array.from(numbers, ([number, to]) => {
+    if (!to) {
+      return Promise.resolve<SendReceipt>({
+        recipient: number,
+        provider: provider.name,
+        messageId: null,
+        status: 'failed',
+        attempts: 0,
+        error: 'Invalid WhatsApp number'
+      });
+    }
+    return sendWithRetry(provider, to, message, options);
+  }));
+};
+
+// Template parameters may not contain newlines, tabs or more than four spaces in a row
+const toParameter = (value: string | number): string =>
+  String(value).replace(/[\n\t]+/g, ' ').replace(/ {4,}/g, '   ').trim() || '-';
+
+export const buildDailySummaryMessage = (
+  dateLabel: string,
+  summary: {
+    totalEmployees: number;
+    presentCount: number;
+    lateCount: number;
+    onLeaveCount?: number;
+    absentCount: number;
+    presentRate?: string | number;
+    totalPresentRate?: string | number;
+  },
+  text: string
+): TemplateMessage => ({
+  template: WHATSAPP_TEMPLATES.dailySummary,
+  parameters: [
+    dateLabel,
+    summary.totalEmployees,
+    summary.presentCount,
+    summary.lateCount,
+    summary.onLeaveCount || 0,
+    summary.absentCount,
+    `${summary.presentRate ?? summary.totalPresentRate ?? '0.0'}%`
+  ].map(toParameter),
+  text
+});
+
+export const buildAbsenteesMessage = (dateLabel: string, names: string[], text: string): TemplateMessage => ({
+  template: WHATSAPP_TEMPLATES.absentees,
+  parameters: [dateLabel, names.length, names.join(', ') || 'None'].map(toParameter),
+  text
+});
+
+export const getMessageReceipts = async (limit = 50): Promise<MessageReceipt[]> => {
+  const { data, error } = await supabase
+    .from('message_receipts')
+    .select('id, channel, provider, recipient, template, provider_message_id, status, attempt, error, created_at, updated_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching message receipts:', error);
+    throw new Error('Failed to load message receipts');
+  }
+  return (data || []) as MessageReceipt[];
+};
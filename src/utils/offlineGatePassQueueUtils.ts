@@ -0,0 +1,231 @@
+// Offline Gate Pass Usage Queue Utilities
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Exits and returns recorded at a gate without a connection. They are kept in
+ * IndexedDB with an event id made on the device and replayed in order through
+ * sync_gate_pass_usage, which ignores events it has already seen and reports
+ * double use when another gate synced the same pass first.
+ */
+
+export interface QueuedGatePassUsage {
+  id?: number;
+  eventId: string;
+  passId: string;
+  passCode: string;
+  holderName: string;
+  usageType: 'exit' | 'return';
+  time: string;       // wall-clock time as shown on the pass
+  occurredAt: string; // original device timestamp
+  status: 'pending' | 'conflict';
+  attempts: number;
+  lastAttemptAt?: string;
+  conflictReason?: string;
+}
+
+export interface GatePassQueueState {
+  pendingCount: number;
+  conflicts: QueuedGatePassUsage[];
+  isReplaying: boolean;
+}
+
+export interface GatePassReplaySummary {
+  recorded: number;
+  conflicts: number;
+  remaining: number;
+}
+
+const DB_NAME = 'gate-pass-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'usage';
+const LOCK_NAME = 'gate-pass-usage-queue';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('occurredAt', 'occurredAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Oldest first so the server sees each gate's events in the order they happened
+export const sortByOccurredAt = (events: QueuedGatePassUsage[]): QueuedGatePassUsage[] =>
+  [...events].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt) || (a.id || 0) - (b.id || 0));
+
+class OfflineGatePassQueue {
+  private static instance: OfflineGatePassQueue;
+  private state: GatePassQueueState = { pendingCount: 0, conflicts: [], isReplaying: false };
+  private callbacks: Set<(state: GatePassQueueState) => void> = new Set();
+  private replayPromise: Promise<GatePassReplaySummary> | null = null;
+
+  private constructor() {
+    if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    window.addEventListener('online', () => {
+      this.replay().catch(error => console.error('Error replaying gate pass queue:', error));
+    });
+
+    this.refresh().then(() => {
+      if (navigator.onLine && this.state.pendingCount > 0) {
+        return this.replay();
+      }
+    }).catch(error => console.error('Error loading gate pass queue:', error));
+  }
+
+  public static getInstance(): OfflineGatePassQueue {
+    if (!OfflineGatePassQueue.instance) {
+      OfflineGatePassQueue.instance = new OfflineGatePassQueue();
+    }
+    return OfflineGatePassQueue.instance;
+  }
+
+  public getState(): GatePassQueueState {
+    return this.state;
+  }
+
+  public subscribe(callback: (state: GatePassQueueState) => void): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  private setState(update: Partial<GatePassQueueState>): void {
+    this.state = { ...this.state, ...update };
+    this.callbacks.forEach(callback => callback(this.state));
+  }
+
+  public async getQueuedUsage(): Promise<QueuedGatePassUsage[]> {
+    return sortByOccurredAt(await withStore<QueuedGatePassUsage[]>('readonly', store => store.getAll()));
+  }
+
+  public async refresh(): Promise<void> {
+    const events = await this.getQueuedUsage();
+    this.setState({
+      pendingCount: events.filter(event => event.status === 'pending').length,
+      conflicts: events.filter(event => event.status === 'conflict')
+    });
+  }
+
+  // Store an exit or return recorded while the gate was offline
+  public async enqueue(
+    usage: Pick<QueuedGatePassUsage, 'passId' | 'passCode' | 'holderName' | 'usageType' | 'time'>,
+    occurredAt: Date = new Date()
+  ): Promise<void> {
+    const event: QueuedGatePassUsage = {
+      ...usage,
+      eventId: crypto.randomUUID(),
+      occurredAt: occurredAt.toISOString(),
+      status: 'pending',
+      attempts: 0
+    };
+
+    await withStore('readwrite', store => store.add(event));
+    await this.refresh();
+  }
+
+  /**
+   * Replay pending usage in order. Events the server turns down become
+   * conflicts for the guard; connectivity failures stop the run and leave the
+   * rest of the queue for the next attempt.
+   */
+  public replay(): Promise<GatePassReplaySummary> {
+    if (!this.replayPromise) {
+      const run = () => this.replayPending();
+      const locks = (navigator as Navigator & {
+        locks?: { request: (name: string, callback: () => Promise<GatePassReplaySummary>) => Promise<GatePassReplaySummary> };
+      }).locks;
+
+      // Only one tab on the device may replay at a time
+      this.replayPromise = (locks ? locks.request(LOCK_NAME, run) : run())
+        .finally(() => {
+          this.replayPromise = null;
+        });
+    }
+    return this.replayPromise;
+  }
+
+  private async replayPending(): Promise<GatePassReplaySummary> {
+    const summary: GatePassReplaySummary = { recorded: 0, conflicts: 0, remaining: 0 };
+    const pending = (await this.getQueuedUsage()).filter(event => event.status === 'pending');
+
+    this.setState({ isReplaying: true });
+    try {
+      for (let index = 0; index < pending.length; index++) {
+        const event = pending[index];
+        const attempted: QueuedGatePassUsage = {
+          ...event,
+          attempts: event.attempts + 1,
+          lastAttemptAt: new Date().toISOString()
+        };
+
+        const { data, error } = await supabase.rpc('sync_gate_pass_usage', {
+          p_event_id: event.eventId,
+          p_pass_id: event.passId,
+          p_usage_type: event.usageType,
+          p_occurred_at: event.occurredAt,
+          p_time: event.time
+        });
+
+        // Database errors carry a code; anything else means the gate is still offline
+        if (error && !error.code) {
+          console.error('Gate pass replay interrupted:', error);
+          await withStore('readwrite', store => store.put(attempted));
+          summary.remaining = pending.length - index;
+          break;
+        }
+
+        if (error || data?.status === 'Conflict') {
+          const conflictReason = error?.message || data?.message || 'Rejected by the server';
+          await withStore('readwrite', store => store.put({ ...attempted, status: 'conflict', conflictReason }));
+          summary.conflicts++;
+          continue;
+        }
+
+        await withStore('readwrite', store => store.delete(event.id!));
+        summary.recorded++;
+      }
+    } finally {
+      await this.refresh();
+      this.setState({ isReplaying: false });
+    }
+
+    return summary;
+  }
+
+  // Guard acknowledged a conflict; drop it from the queue
+  public async dismissConflict(id: number): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+    await this.refresh();
+  }
+}
+
+export const offlineGatePassQueue = OfflineGatePassQueue.getInstance();
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AttendanceError } from './attendanceUtils';
+import { isConnectivityError } from './offlineQueueUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+describe('isConnectivityError', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues scans whose request never reached the server', () => {
+    expect(isConnectivityError(new TypeError('Failed to fetch'))).toBe(true);
+    // supabase-js resolves fetch failures to an error without a Postgres code
+    expect(isConnectivityError({ message: 'TypeError: Failed to fetch', code: '' })).toBe(true);
+    expect(isConnectivityError({ message: 'NetworkError when attempting to fetch resource.' })).toBe(true);
+  });
+
+  it('rejects scans the server or the attendance rules refused', () => {
+    expect(isConnectivityError(new AttendanceError('Please wait 3 minutes', 'COOLDOWN_ACTIVE'))).toBe(false);
+    expect(isConnectivityError({ message: 'new row violates row-level security policy', code: '42501' })).toBe(false);
+    expect(isConnectivityError(new Error('Employee not found'))).toBe(false);
+  });
+
+  it('treats everything as connectivity while the browser is offline', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+    expect(isConnectivityError(new AttendanceError('Please wait 3 minutes', 'COOLDOWN_ACTIVE'))).toBe(true);
+  });
+});
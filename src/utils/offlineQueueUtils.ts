@@ -0,0 +1,275 @@
+// Offline Scan Queue Utilities
+import { AttendanceError, singleScanAttendance } from './attendanceUtils';
+import { verifyEmployeeQR } from './qrCodeUtils';
+import { REPLAY_SCAN_QUEUE_MESSAGE, SCAN_QUEUE_SYNC_TAG } from './scanQueueSync';
+
+export interface QueuedScan {
+  id?: number;
+  qrData: string;
+  employeeId: string;
+  scannedAt: string; // original device timestamp
+  status: 'pending' | 'conflict';
+  attempts: number;
+  lastAttemptAt?: string;
+  conflictReason?: string;
+}
+
+export interface OfflineQueueState {
+  pendingCount: number;
+  conflicts: QueuedScan[];
+  isReplaying: boolean;
+}
+
+export interface ReplaySummary {
+  recorded: number;
+  conflicts: number;
+  remaining: number;
+}
+
+// Web lock held by the tab that is replaying
+const SCAN_QUEUE_LOCK = 'attendance-scan-queue';
+
+const DB_NAME = 'qr-attendance-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'scans';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('scannedAt', 'scannedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Oldest scan first so punches replay in the order they happened
+const sortByScanTime = (scans: QueuedScan[]): QueuedScan[] =>
+  [...scans].sort((a, b) => a.scannedAt.localeCompare(b.scannedAt) || (a.id || 0) - (b.id || 0));
+
+class OfflineScanQueue {
+  private static instance: OfflineScanQueue;
+  private state: OfflineQueueState = { pendingCount: 0, conflicts: [], isReplaying: false };
+  private callbacks: Set<(state: OfflineQueueState) => void> = new Set();
+  private replayPromise: Promise<ReplaySummary> | null = null;
+
+  private constructor() {
+    if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+      return;
+    }
+
+    // The queue lives in the kiosk page, so it replays when that page sees the
+    // connection come back (or on the next load)
+    window.addEventListener('online', () => {
+      this.replay().catch(error => console.error('Error replaying scan queue:', error));
+    });
+
+    // Background sync fires in the service worker, which asks open pages to replay
+    navigator.serviceWorker?.addEventListener('message', (event) => {
+      if (event.data?.type === REPLAY_SCAN_QUEUE_MESSAGE) {
+        this.replay().catch(error => console.error('Error replaying scan queue:', error));
+      }
+    });
+
+    this.refresh().then(() => {
+      if (navigator.onLine && this.state.pendingCount > 0) {
+        return this.replay();
+      }
+    }).catch(error => console.error('Error loading scan queue:', error));
+  }
+
+  public static getInstance(): OfflineScanQueue {
+    if (!OfflineScanQueue.instance) {
+      OfflineScanQueue.instance = new OfflineScanQueue();
+    }
+    return OfflineScanQueue.instance;
+  }
+
+  public getState(): OfflineQueueState {
+    return this.state;
+  }
+
+  public subscribe(callback: (state: OfflineQueueState) => void): () => void {
+    this.callbacks.add(callback);
+    return () => {
+      this.callbacks.delete(callback);
+    };
+  }
+
+  private setState(update: Partial<OfflineQueueState>): void {
+    this.state = { ...this.state, ...update };
+    this.callbacks.forEach(callback => callback(this.state));
+  }
+
+  public async getQueuedScans(): Promise<QueuedScan[]> {
+    return sortByScanTime(await withStore<QueuedScan[]>('readonly', store => store.getAll()));
+  }
+
+  public async refresh(): Promise<void> {
+    const scans = await this.getQueuedScans();
+    this.setState({
+      pendingCount: scans.filter(scan => scan.status === 'pending').length,
+      conflicts: scans.filter(scan => scan.status === 'conflict')
+    });
+  }
+
+  /**
+   * Store a scan that could not be sent. The QR code is verified again on
+   * replay, so forged or revoked badges still end up as conflicts.
+   */
+  public async enqueue(qrData: string, employeeId: string, scannedAt: Date = new Date()): Promise<void> {
+    const scan: QueuedScan = {
+      qrData,
+      employeeId,
+      scannedAt: scannedAt.toISOString(),
+      status: 'pending',
+      attempts: 0
+    };
+
+    await withStore('readwrite', store => store.add(scan));
+    await this.refresh();
+    await this.requestBackgroundSync();
+  }
+
+  private async requestBackgroundSync(): Promise<void> {
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration();
+      const syncRegistration = registration as (ServiceWorkerRegistration & {
+        sync?: { register: (tag: string) => Promise<void> };
+      }) | undefined;
+
+      await syncRegistration?.sync?.register(SCAN_QUEUE_SYNC_TAG);
+    } catch (error) {
+      // Background sync is optional; the online listener covers browsers without it
+      console.warn('Background sync registration failed:', error);
+    }
+  }
+
+  /**
+   * Replay pending scans in order. Rejections from the attendance rules become
+   * conflicts for the operator; connectivity failures stop the run and leave
+   * the rest of the queue for the next attempt.
+   */
+  public replay(): Promise<ReplaySummary> {
+    if (!this.replayPromise) {
+      const run = () => this.replayPending();
+      const locks = (navigator as Navigator & {
+        locks?: { request: (name: string, callback: () => Promise<ReplaySummary>) => Promise<ReplaySummary> };
+      }).locks;
+
+      // Only one tab on the kiosk may replay at a time
+      this.replayPromise = (locks ? locks.request(SCAN_QUEUE_LOCK, run) : run())
+        .finally(() => {
+          this.replayPromise = null;
+        });
+    }
+    return this.replayPromise;
+  }
+
+  private async replayPending(): Promise<ReplaySummary> {
+    const summary: ReplaySummary = { recorded: 0, conflicts: 0, remaining: 0 };
+    const pending = (await this.getQueuedScans()).filter(scan => scan.status === 'pending');
+
+    this.setState({ isReplaying: true });
+    try {
+      for (let index = 0; index < pending.length; index++) {
+        const scan = pending[index];
+        const attempted: QueuedScan = {
+          ...scan,
+          attempts: scan.attempts + 1,
+          lastAttemptAt: new Date().toISOString()
+        };
+
+        try {
+          const verification = await verifyEmployeeQR(scan.qrData);
+          if (verification.reason === 'unavailable') {
+            throw new Error(verification.message);
+          }
+
+          if (!verification.valid) {
+            await withStore('readwrite', store => store.put({ ...attempted, status: 'conflict', conflictReason: verification.message }));
+            summary.conflicts++;
+            continue;
+          }
+
+          await singleScanAttendance(scan.employeeId, { scannedAt: scan.scannedAt, badge: scan.qrData });
+          await withStore('readwrite', store => store.delete(scan.id!));
+          summary.recorded++;
+        } catch (error) {
+          if (!isConnectivityError(error)) {
+            const conflictReason = error instanceof Error ? error.message : 'The scan could not be recorded';
+            await withStore('readwrite', store => store.put({ ...attempted, status: 'conflict', conflictReason }));
+            summary.conflicts++;
+            continue;
+          }
+
+          console.error('Scan replay interrupted:', error);
+          await withStore('readwrite', store => store.put(attempted));
+          summary.remaining = pending.length - index;
+          break;
+        }
+      }
+    } finally {
+      await this.refresh();
+      this.setState({ isReplaying: false });
+    }
+
+    return summary;
+  }
+
+  // Operator acknowledged a conflict; drop it from the queue
+  public async dismissConflict(id: number): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+    await this.refresh();
+  }
+
+  // Put a conflict back in the queue after the underlying issue was fixed
+  public async retryConflict(id: number): Promise<ReplaySummary> {
+    const scan = await withStore<QueuedScan | undefined>('readonly', store => store.get(id));
+    if (scan) {
+      await withStore('readwrite', store => store.put({ ...scan, status: 'pending', conflictReason: undefined }));
+    }
+    await this.refresh();
+    return this.replay();
+  }
+}
+
+export const offlineScanQueue = OfflineScanQueue.getInstance();
+
+/**
+ * Whether a failed scan should be queued rather than rejected. A request that
+ * never reached the server counts even while the browser reports online;
+ * supabase-js reports those as errors without a Postgres error code.
+ */
+export const isConnectivityError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof AttendanceError) return false;
+  if (error instanceof TypeError) return true;
+
+  const { code, message } = (error || {}) as { code?: unknown; message?: unknown };
+  return !code && typeof message === 'string' && /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/supabaseMock';
+import {
+  OvertimePolicy,
+  approveOvertime,
+  calculateOvertimeBuckets,
+  recalculateOvertimeForWeek,
+  roundDownToBlock
+} from './overtimeUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+const POLICY: OvertimePolicy = {
+  id: 'standard',
+  name: 'Standard',
+  daily_threshold_minutes: 480,
+  weekly_threshold_minutes: 2400,
+  overtime_multiplier: 1.5,
+  weekend_multiplier: 1.5,
+  holiday_multiplier: 2,
+  weekend_days: [0, 6],
+  requires_approval: false,
+  minimum_block_minutes: 15,
+  is_active: true
+};
+
+describe('overtime buckets', () => {
+  it('rounds overtime down to whole minimum blocks', () => {
+    expect(roundDownToBlock(44, 15)).toBe(30);
+    expect(roundDownToBlock(-5, 15)).toBe(0);
+  });
+
+  it('puts time beyond the daily threshold into OT1 and keeps the remainder regular', () => {
+    // 2025-07-01 is a Tuesday
+    const [day] = calculateOvertimeBuckets([{ date: '2025-07-01', workedMinutes: 530 }], POLICY);
+
+    expect(day).toMatchObject({ dayType: 'regular', regularMinutes: 485, ot1Minutes: 45, ot2Minutes: 0, ot2Multiplier: null });
+  });
+
+  it('moves regular time past the weekly threshold into OT1', () => {
+    const days = ['2025-06-30', '2025-07-01', '2025-07-02', '2025-07-03', '2025-07-04']
+      .map(date => ({ date, workedMinutes: 480 }));
+    const buckets = calculateOvertimeBuckets(
+      [...days, { date: '2025-07-05', workedMinutes: 120 }],
+      { ...POLICY, weekly_threshold_minutes: 2280 }
+    );
+
+    expect(buckets.map(day => day.ot1Minutes)).toEqual([0, 0, 0, 0, 120, 0]);
+    // Saturday is a weekend day, paid as OT2 instead
+    expect(buckets[5]).toMatchObject({ dayType: 'weekend', ot2Minutes: 120, ot2Multiplier: 1.5 });
+  });
+
+  it('pays holidays and rostered off days as OT2', () => {
+    const buckets = calculateOvertimeBuckets([
+      { date: '2025-07-01', workedMinutes: 300, isHoliday: true },
+      { date: '2025-07-02', workedMinutes: 300, isOffDay: true },
+    ], POLICY);
+
+    expect(buckets.map(day => [day.dayType, day.ot2Minutes, day.ot2Multiplier])).toEqual([
+      ['holiday', 300, 2],
+      ['weekend', 300, 1.5],
+    ]);
+  });
+
+  it('holds overtime as unapproved when the policy requires approval', () => {
+    const policy = { ...POLICY, requires_approval: true };
+    const [pending, approved] = calculateOvertimeBuckets([
+      { date: '2025-07-01', workedMinutes: 540 },
+      { date: '2025-07-02', workedMinutes: 540, approved: true },
+    ], policy);
+
+    expect(pending.unapprovedMinutes).toBe(60);
+    expect(approved.unapprovedMinutes).toBe(0);
+  });
+});
+
+describe('stored overtime', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('leaves attendance alone when the active roster has no overtime policy', async () => {
+    (supabase.from as Mock).mockReturnValue(
+      mockQuery({ data: { id: 'roster-1', shift_pattern: [], overtime_policy: null }, error: null })
+    );
+
+    await recalculateOvertimeForWeek('e1', '2025-07-02');
+
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+    expect(supabase.from).toHaveBeenCalledWith('rosters');
+  });
+
+  it('approves overtime as the signed-in user', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: { success: true }, error: null });
+
+    expect(await approveOvertime('a1')).toEqual({ success: true, message: 'Overtime approved' });
+    expect(supabase.rpc).toHaveBeenCalledWith('approve_overtime', { p_attendance_id: 'a1' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('explains a refused approval', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: null, error: { code: '42501', message: 'permission denied' } });
+
+    expect(await approveOvertime('a1')).toEqual({
+      success: false,
+      message: 'You cannot approve overtime for this employee',
+    });
+  });
+});
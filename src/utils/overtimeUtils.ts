@@ -0,0 +1,326 @@
+// Overtime Rules Utilities
+import { format, parseISO, startOfISOWeek } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { DailyShift } from '@/integrations/supabase/types';
+import { calculateSessionTotals, AttendancePunches } from './attendanceStateMachine';
+import { appliesToDepartment, getHolidays, getOffDates } from './holidayUtils';
+import { addDaysToDate } from './timezoneUtils';
+
+/**
+ * An overtime policy is attached to a roster and splits each attendance day
+ * into minute buckets:
+ * - regular: time up to the daily threshold, and up to the weekly threshold
+ *   across the ISO week (Monday to Sunday)
+ * - OT1: time beyond either threshold on a normal working day
+ * - OT2: all time worked on a weekend day, rostered off day or holiday, paid
+ *   at the weekend or holiday multiplier
+ * Overtime is paid in whole minimum blocks; the remainder stays regular. When
+ * the policy requires approval, overtime is held as unapproved until an admin
+ * signs it off.
+ */
+
+export interface OvertimePolicy {
+  id: string;
+  name: string;
+  daily_threshold_minutes: number;
+  weekly_threshold_minutes: number | null; // null = no weekly threshold
+  overtime_multiplier: number;
+  weekend_multiplier: number;
+  holiday_multiplier: number;
+  weekend_days: number[]; // 0 = Sunday
+  requires_approval: boolean;
+  minimum_block_minutes: number;
+  is_active: boolean;
+}
+
+export type OvertimeDayType = 'regular' | 'weekend' | 'holiday';
+
+export interface OvertimeDay {
+  date: string; // yyyy-MM-dd
+  workedMinutes: number;
+  isHoliday?: boolean;
+  isOffDay?: boolean;
+  approved?: boolean;
+}
+
+export interface OvertimeBuckets {
+  date: string;
+  dayType: OvertimeDayType;
+  regularMinutes: number;
+  ot1Minutes: number;
+  ot2Minutes: number;
+  ot2Multiplier: number | null;
+  unapprovedMinutes: number;
+}
+
+export interface PendingOvertime {
+  id: string;
+  date: string;
+  ot1_minutes: number | null;
+  ot2_minutes: number | null;
+  unapproved_overtime_minutes: number;
+  employee?: { first_name: string; last_name: string } | null;
+}
+
+export const roundDownToBlock = (minutes: number, blockMinutes: number): number => {
+  const block = Math.max(1, Math.round(blockMinutes || 1));
+  return Math.floor(Math.max(0, minutes) / block) * block;
+};
+
+export const getOvertimeDayType = (
+  day: Pick<OvertimeDay, 'date' | 'isHoliday' | 'isOffDay'>,
+  policy: Pick<OvertimePolicy, 'weekend_days'>
+): OvertimeDayType => {
+  if (day.isHoliday) return 'holiday';
+  if (day.isOffDay || (policy.weekend_days || []).includes(parseISO(day.date).getDay())) return 'weekend';
+  return 'regular';
+};
+
+const getWeekKey = (date: string): string => format(startOfISOWeek(parseISO(date)), 'yyyy-MM-dd');
+
+/**
+ * Split worked minutes into regular/OT1/OT2 buckets. Days are processed in
+ * date order so the weekly threshold only counts regular time from earlier in
+ * the same week.
+ */
+export const calculateOvertimeBuckets = (
+  days: OvertimeDay[],
+  policy: OvertimePolicy
+): OvertimeBuckets[] => {
+  const weeklyRegular = new Map<string, number>();
+
+  return [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => {
+      const worked = Math.max(0, Math.round(day.workedMinutes));
+      const dayType = getOvertimeDayType(day, policy);
+      let ot1Minutes = 0;
+      let ot2Minutes = 0;
+
+      if (dayType === 'regular') {
+        const week = getWeekKey(day.date);
+        const dailyExcess = Math.max(0, worked - policy.daily_threshold_minutes);
+        let regular = worked - dailyExcess;
+
+        let weeklyExcess = 0;
+        if (policy.weekly_threshold_minutes !== null && policy.weekly_threshold_minutes !== undefined) {
+          const before = weeklyRegular.get(week) || 0;
+          weeklyExcess = Math.max(0, before + regular - policy.weekly_threshold_minutes);
+          regular -= weeklyExcess;
+        }
+        weeklyRegular.set(week, (weeklyRegular.get(week) || 0) + regular);
+
+        ot1Minutes = roundDownToBlock(dailyExcess + weeklyExcess, policy.minimum_block_minutes);
+      } else {
+        ot2Minutes = roundDownToBlock(worked, policy.minimum_block_minutes);
+      }
+
+      const overtime = ot1Minutes + ot2Minutes;
+      return {
+        date: day.date,
+        dayType,
+        regularMinutes: worked - overtime,
+        ot1Minutes,
+        ot2Minutes,
+        ot2Multiplier: dayType === 'holiday'
+          ? policy.holiday_multiplier
+          : dayType === 'weekend' ? policy.weekend_multiplier : null,
+        unapprovedMinutes: policy.requires_approval && !day.approved ? overtime : 0
+      };
+    });
+};
+
+// Short form used in report cells, e.g. 7h30 or 45m
+export const formatBucketMinutes = (minutes: number | null | undefined): string => {
+  if (!minutes) return '0';
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest ? `${hours}h${rest.toString().padStart(2, '0')}` : `${hours}h`;
+};
+
+// NUMERIC columns come back from PostgREST as strings
+const normalizePolicy = (policy: OvertimePolicy): OvertimePolicy => ({
+  ...policy,
+  overtime_multiplier: Number(policy.overtime_multiplier),
+  weekend_multiplier: Number(policy.weekend_multiplier),
+  holiday_multiplier: Number(policy.holiday_multiplier)
+});
+
+export const getOvertimePolicies = async (activeOnly = false): Promise<OvertimePolicy[]> => {
+  let query = supabase.from('overtime_policies').select('*').order('name');
+  if (activeOnly) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching overtime policies:', error);
+    throw new Error('Failed to load overtime policies');
+  }
+  return (data || []).map(normalizePolicy);
+};
+
+export const saveOvertimePolicy = async (
+  policy: Omit<OvertimePolicy, 'id'> & { id?: string }
+): Promise<{ success: boolean; message: string }> => {
+  if (!policy.name?.trim()) {
+    return { success: false, message: 'Policy name is required' };
+  }
+  if (policy.daily_threshold_minutes < 0 || (policy.weekly_threshold_minutes ?? 0) < 0) {
+    return { success: false, message: 'Thresholds cannot be negative' };
+  }
+  if ([policy.overtime_multiplier, policy.weekend_multiplier, policy.holiday_multiplier].some(value => !(value >= 1))) {
+    return { success: false, message: 'Multipliers must be at least 1' };
+  }
+  if (!(policy.minimum_block_minutes >= 1)) {
+    return { success: false, message: 'Minimum block must be at least 1 minute' };
+  }
+
+  const { id, ...values } = policy;
+  const row = { ...values, name: policy.name.trim(), updated_at: new Date().toISOString() };
+  const { error } = id
+    ? await supabase.from('overtime_policies').update(row).eq('id', id)
+    : await supabase.from('overtime_policies').insert(row);
+
+  if (error) {
+    console.error('Error saving overtime policy:', error);
+    return {
+      success: false,
+      message: error.code === '23505' ? 'A policy with this name already exists' : 'Failed to save overtime policy'
+    };
+  }
+  return { success: true, message: 'Overtime policy saved' };
+};
+
+export const assignOvertimePolicy = async (
+  rosterId: string,
+  policyId: string | null
+): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase
+    .from('rosters')
+    .update({ overtime_policy_id: policyId || null })
+    .eq('id', rosterId);
+
+  if (error) {
+    console.error('Error assigning overtime policy:', error);
+    return { success: false, message: 'Failed to update roster overtime policy' };
+  }
+  return { success: true, message: policyId ? 'Overtime policy assigned' : 'Overtime policy removed' };
+};
+
+/**
+ * Recompute the buckets for every attendance day in the ISO week containing
+ * `date`, since a later day can push earlier ones past the weekly threshold.
+ * Does nothing when the employee's active roster has no overtime policy. Days
+ * with an open session are left for the check-out that closes them.
+ */
+export const recalculateOvertimeForWeek = async (employeeId: string, date: string): Promise<void> => {
+  const { data: roster, error: rosterError } = await supabase
+    .from('rosters')
+    .select('id, shift_pattern, overtime_policy:overtime_policy_id (*)')
+    .eq('employee_id', employeeId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (rosterError) throw rosterError;
+  const attached = roster?.overtime_policy as OvertimePolicy | null | undefined;
+  if (!attached || !attached.is_active) return;
+  const policy = normalizePolicy(attached);
+
+  const weekStart = getWeekKey(date);
+  const weekEnd = addDaysToDate(weekStart, 6);
+
+  const [{ data: records, error }, { data: employee }, holidays] = await Promise.all([
+    supabase
+      .from('attendance')
+      .select('id, date, first_check_in_time, first_check_out_time, second_check_in_time, second_check_out_time, sessions, overtime_approved_at')
+      .eq('employee_id', employeeId)
+      .gte('date', weekStart)
+      .lte('date', weekEnd),
+    supabase.from('employees').select('department_id').eq('id', employeeId).maybeSingle(),
+    getHolidays(weekStart, weekEnd)
+  ]);
+
+  if (error) throw error;
+
+  const holidayDates = new Set(
+    holidays
+      .filter(holiday => appliesToDepartment(holiday, employee?.department_id))
+      .map(holiday => holiday.date)
+  );
+  const offDates = getOffDates(roster?.shift_pattern as DailyShift[] | null);
+
+  const closed = (records || [])
+    .map(record => ({ record, totals: calculateSessionTotals(record as AttendancePunches) }))
+    .filter(({ totals }) => !totals.hasOpenSession);
+
+  const buckets = calculateOvertimeBuckets(
+    closed.map(({ record, totals }) => ({
+      date: record.date,
+      workedMinutes: totals.workedMinutes,
+      isHoliday: holidayDates.has(record.date),
+      isOffDay: offDates.has(record.date),
+      approved: !!record.overtime_approved_at
+    })),
+    policy
+  );
+
+  const sorted = [...closed].sort((a, b) => a.record.date.localeCompare(b.record.date));
+  await Promise.all(sorted.map(async ({ record }, index) => {
+    const bucket = buckets[index];
+    const paidOvertime = bucket.ot1Minutes + bucket.ot2Minutes - bucket.unapprovedMinutes;
+    const { error: updateError } = await supabase
+      .from('attendance')
+      .update({
+        regular_minutes: bucket.regularMinutes,
+        ot1_minutes: bucket.ot1Minutes,
+        ot2_minutes: bucket.ot2Minutes,
+        ot2_multiplier: bucket.ot2Multiplier,
+        unapproved_overtime_minutes: bucket.unapprovedMinutes,
+        overtime: Math.round((paidOvertime / 60) * 100) / 100
+      })
+      .eq('id', record.id);
+    if (updateError) throw updateError;
+  }));
+};
+
+export const getPendingOvertime = async (): Promise<PendingOvertime[]> => {
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('id, date, ot1_minutes, ot2_minutes, unapproved_overtime_minutes, employee:employee_id (first_name, last_name)')
+    .gt('unapproved_overtime_minutes', 0)
+    .order('date', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching pending overtime:', error);
+    throw new Error('Failed to load overtime awaiting approval');
+  }
+  return (data || []) as unknown as PendingOvertime[];
+};
+
+// Approve as the signed-in user; the database checks they may approve for the employee
+export const approveOvertime = async (
+  attendanceId: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const { data, error } = await supabase.rpc('approve_overtime', { p_attendance_id: attendanceId });
+
+    if (error) {
+      console.error('Error approving overtime:', error);
+      return {
+        success: false,
+        message: error.code === '42501' ? 'You cannot approve overtime for this employee' : 'Failed to approve overtime'
+      };
+    }
+    if (!data?.success) {
+      return { success: false, message: data?.error || 'Failed to approve overtime' };
+    }
+
+    return { success: true, message: 'Overtime approved' };
+  } catch (error) {
+    console.error('Error in approveOvertime:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to approve overtime' };
+  }
+};
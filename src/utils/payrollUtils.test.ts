@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { LeaveRequest } from './leaveUtils';
+import { PayPeriod, buildPayrollTotals, closePayPeriod, formatPayrollExport, getPayPeriodRange } from './payrollUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+const PERIOD = { start_date: '2025-07-01', end_date: '2025-07-31' };
+
+const leave = (start: string, end: string, isPaid: boolean): LeaveRequest => ({
+  id: `${start}-${isPaid}`,
+  employee_id: 'e1',
+  leave_type_id: isPaid ? 'al' : 'ul',
+  start_date: start,
+  end_date: end,
+  half_day: false,
+  days: 0,
+  reason: null,
+  status: 'approved',
+  reviewed_by: null,
+  reviewed_by_name: null,
+  reviewed_at: null,
+  review_note: null,
+  created_at: '',
+  leave_type: { name: '', code: '', color: '', is_paid: isPaid }
+});
+
+describe('pay period ranges', () => {
+  it('covers the calendar month, ISO week or fortnight containing the date', () => {
+    expect(getPayPeriodRange('monthly', '2025-02-14')).toEqual({ start_date: '2025-02-01', end_date: '2025-02-28' });
+    expect(getPayPeriodRange('weekly', '2025-07-06')).toEqual({ start_date: '2025-06-30', end_date: '2025-07-06' });
+    expect(getPayPeriodRange('biweekly', '2024-01-15')).toEqual({ start_date: '2024-01-15', end_date: '2024-01-28' });
+  });
+});
+
+describe('pay period totals', () => {
+  const employees = [{ id: 'e1', name: 'Amal Perera', department: 'Kitchen' }];
+
+  it('uses overtime buckets and drops overtime still awaiting approval', () => {
+    const [totals] = buildPayrollTotals(employees, [
+      {
+        employee_id: 'e1',
+        date: '2025-07-01',
+        sessions: [
+          { check_in: '2025-07-01T08:00:00Z', check_out: '2025-07-01T12:00:00Z' },
+          { check_in: '2025-07-01T13:00:00Z', check_out: '2025-07-01T18:00:00Z' },
+        ],
+        minutes_late: 5,
+        regular_minutes: 480,
+        ot1_minutes: 60,
+        ot2_minutes: 0,
+      },
+      {
+        employee_id: 'e1',
+        date: '2025-07-02',
+        sessions: [{ check_in: '2025-07-02T08:00:00Z', check_out: '2025-07-02T17:30:00Z' }],
+        regular_minutes: 480,
+        ot1_minutes: 90,
+        ot2_minutes: 0,
+        unapproved_overtime_minutes: 90,
+      },
+    ], [], PERIOD);
+
+    expect(totals).toMatchObject({
+      days_worked: 2,
+      regular_hours: 16,
+      ot1_hours: 1,
+      overtime_hours: 1,
+      late_minutes: 5,
+      unpaid_break_minutes: 60,
+    });
+  });
+
+  it('splits leave into paid and unpaid days within the period', () => {
+    const [totals] = buildPayrollTotals(employees, [], [
+      leave('2025-06-30', '2025-07-02', true),
+      leave('2025-07-10', '2025-07-10', false),
+    ], PERIOD);
+
+    expect(totals.paid_leave_days).toBe(2);
+    expect(totals.unpaid_leave_days).toBe(1);
+  });
+});
+
+describe('payroll export layout', () => {
+  it('writes the template columns in order and quotes cells containing the delimiter', () => {
+    const [totals] = buildPayrollTotals([{ id: 'e1', name: 'Perera, Amal', department: null }], [], [], PERIOD);
+    const output = formatPayrollExport([totals], {
+      columns: [
+        { key: 'employee_name', header: 'Name' },
+        { key: 'period_end', header: 'To' },
+        { key: 'regular_hours', header: 'Basic Hrs' },
+      ],
+      delimiter: ',',
+      include_header: true,
+    }, PERIOD);
+
+    expect(output).toBe('Name,To,Basic Hrs\r\n"Perera, Amal",2025-07-31,0');
+  });
+});
+
+describe('closePayPeriod', () => {
+  const period: PayPeriod = {
+    id: 'period-1',
+    frequency: 'monthly',
+    ...PERIOD,
+    status: 'open',
+    closed_by: null,
+    closed_by_name: null,
+    closed_at: null,
+    created_at: '',
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('leaves the totals and the closer to the database', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({ data: { success: true, employees: 12 }, error: null });
+
+    expect(await closePayPeriod(period)).toEqual({
+      success: true,
+      message: 'Pay period closed with totals for 12 employee(s)',
+    });
+    expect(supabase.rpc).toHaveBeenCalledWith('close_pay_period', { p_period_id: 'period-1' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('refuses users who are not HR admins', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: null,
+      error: { code: '42501', message: 'Only HR admins can close pay periods' },
+    });
+
+    expect(await closePayPeriod(period)).toEqual({
+      success: false,
+      message: 'Only HR admins can close pay periods',
+    });
+  });
+
+  it('does not call the database for a period already closed', async () => {
+    expect(await closePayPeriod({ ...period, status: 'closed' })).toEqual({
+      success: false,
+      message: 'Pay period is already closed',
+    });
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+});
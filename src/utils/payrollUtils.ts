@@ -0,0 +1,445 @@
+// Payroll Period Utilities
+import { differenceInCalendarDays, endOfMonth, format, parseISO, startOfISOWeek, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { AttendancePunches, calculateSessionTotals, getLastPunchTime } from './attendanceStateMachine';
+import { NonWorkingDates, getNonWorkingDates } from './holidayUtils';
+import { LeaveRequest, countWorkingLeaveDays, getApprovedLeave } from './leaveUtils';
+import { addDaysToDate } from './timezoneUtils';
+
+/**
+ * Pay periods are weekly, bi-weekly or monthly date ranges. Closing a period
+ * through `close_pay_period` computes and stores the per-employee totals on
+ * the database; from then on a trigger rejects any attendance change dated
+ * inside the period. Open periods are previewed with `buildPayrollTotals`,
+ * which the database calculation mirrors. Totals can be exported with a saved
+ * column layout per payroll system.
+ */
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'monthly';
+export type PayPeriodStatus = 'open' | 'closed';
+
+export interface PayPeriod {
+  id: string;
+  frequency: PayFrequency;
+  start_date: string; // yyyy-MM-dd
+  end_date: string;
+  status: PayPeriodStatus;
+  closed_by: string | null;
+  closed_by_name: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface PayrollTotals {
+  employee_id: string;
+  employee_name: string;
+  department: string | null;
+  days_worked: number;
+  regular_hours: number;
+  ot1_hours: number;
+  ot2_hours: number;
+  overtime_hours: number;
+  late_minutes: number;
+  unpaid_break_minutes: number;
+  paid_leave_days: number;
+  unpaid_leave_days: number;
+}
+
+export interface PayrollEmployee {
+  id: string;
+  name: string;
+  department: string | null;
+}
+
+export interface PayrollAttendance extends AttendancePunches {
+  employee_id: string;
+  date: string;
+  minutes_late?: number | null;
+  overtime?: number | null;
+  regular_minutes?: number | null;
+  ot1_minutes?: number | null;
+  ot2_minutes?: number | null;
+  unapproved_overtime_minutes?: number | null;
+}
+
+export type PayrollColumnKey =
+  | keyof PayrollTotals
+  | 'period_start'
+  | 'period_end';
+
+export interface PayrollColumn {
+  key: PayrollColumnKey;
+  header: string;
+}
+
+export interface PayrollTemplate {
+  id: string;
+  name: string;
+  payroll_system: string | null;
+  columns: PayrollColumn[];
+  delimiter: ',' | ';' | '\t';
+  include_header: boolean;
+}
+
+// Default headers, in the order offered by the template editor
+export const PAYROLL_COLUMNS: Record<PayrollColumnKey, string> = {
+  employee_id: 'Employee ID',
+  employee_name: 'Employee',
+  department: 'Department',
+  period_start: 'Period Start',
+  period_end: 'Period End',
+  days_worked: 'Days Worked',
+  regular_hours: 'Regular Hours',
+  ot1_hours: 'OT1 Hours',
+  ot2_hours: 'OT2 Hours',
+  overtime_hours: 'Overtime Hours',
+  late_minutes: 'Late Minutes',
+  unpaid_break_minutes: 'Unpaid Break Minutes',
+  paid_leave_days: 'Paid Leave Days',
+  unpaid_leave_days: 'Unpaid Leave Days'
+};
+
+// Bi-weekly periods are counted in fortnights from this Monday
+const BIWEEKLY_ANCHOR = '2024-01-01';
+
+const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const roundHours = (minutes: number): number => Math.round((minutes / 60) * 100) / 100;
+
+export const getPayPeriodRange = (
+  frequency: PayFrequency,
+  date: string
+): { start_date: string; end_date: string } => {
+  const day = parseISO(date);
+
+  if (frequency === 'monthly') {
+    return { start_date: toDateString(startOfMonth(day)), end_date: toDateString(endOfMonth(day)) };
+  }
+
+  if (frequency === 'weekly') {
+    const start = toDateString(startOfISOWeek(day));
+    return { start_date: start, end_date: addDaysToDate(start, 6) };
+  }
+
+  const fortnights = Math.floor(differenceInCalendarDays(day, parseISO(BIWEEKLY_ANCHOR)) / 14);
+  const start = addDaysToDate(BIWEEKLY_ANCHOR, fortnights * 14);
+  return { start_date: start, end_date: addDaysToDate(start, 13) };
+};
+
+/**
+ * Payable minutes for one attendance day. Days with overtime buckets use them,
+ * dropping overtime that is still awaiting approval; other days split worked
+ * time using the stored overtime hours. A session left open counts only up to
+ * its last punch.
+ */
+const getDayMinutes = (record: PayrollAttendance) => {
+  const lastPunch = getLastPunchTime(record);
+  const totals = calculateSessionTotals(record, lastPunch ? new Date(lastPunch) : undefined);
+  const worked = totals.workedMinutes;
+
+  if (record.regular_minutes !== null && record.regular_minutes !== undefined) {
+    const approved = !record.unapproved_overtime_minutes;
+    return {
+      worked,
+      breakMinutes: totals.breakMinutes,
+      regular: record.regular_minutes,
+      ot1: approved ? record.ot1_minutes || 0 : 0,
+      ot2: approved ? record.ot2_minutes || 0 : 0
+    };
+  }
+
+  const overtime = Math.min(worked, Math.round((Number(record.overtime) || 0) * 60));
+  return { worked, breakMinutes: totals.breakMinutes, regular: worked - overtime, ot1: overtime, ot2: 0 };
+};
+
+export const buildPayrollTotals = (
+  employees: PayrollEmployee[],
+  records: PayrollAttendance[],
+  approvedLeave: LeaveRequest[],
+  period: Pick<PayPeriod, 'start_date' | 'end_date'>,
+  nonWorking: NonWorkingDates = new Map()
+): PayrollTotals[] =>
+  employees.map(employee => {
+    const days = records
+      .filter(record => record.employee_id === employee.id)
+      .filter(record => record.date >= period.start_date && record.date <= period.end_date)
+      .map(record => ({ record, minutes: getDayMinutes(record) }));
+
+    const sum = (pick: (day: typeof days[number]) => number) =>
+      days.reduce((total, day) => total + pick(day), 0);
+
+    let paidLeave = 0;
+    let unpaidLeave = 0;
+    approvedLeave
+      .filter(request => request.employee_id === employee.id && request.status === 'approved')
+      .forEach(request => {
+        const start = request.start_date > period.start_date ? request.start_date : period.start_date;
+        const end = request.end_date < period.end_date ? request.end_date : period.end_date;
+        const leaveDays = countWorkingLeaveDays(employee.id, start, end, request.half_day, nonWorking);
+        if (request.leave_type?.is_paid === false) {
+          unpaidLeave += leaveDays;
+        } else {
+          paidLeave += leaveDays;
+        }
+      });
+
+    const ot1 = sum(day => day.minutes.ot1);
+    const ot2 = sum(day => day.minutes.ot2);
+
+    return {
+      employee_id: employee.id,
+      employee_name: employee.name,
+      department: employee.department,
+      days_worked: new Set(days.filter(day => day.minutes.worked > 0).map(day => day.record.date)).size,
+      regular_hours: roundHours(sum(day => day.minutes.regular)),
+      ot1_hours: roundHours(ot1),
+      ot2_hours: roundHours(ot2),
+      overtime_hours: roundHours(ot1 + ot2),
+      late_minutes: sum(day => day.record.minutes_late || 0),
+      unpaid_break_minutes: sum(day => day.minutes.breakMinutes),
+      paid_leave_days: paidLeave,
+      unpaid_leave_days: unpaidLeave
+    };
+  });
+
+const escapeCell = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const formatPayrollExport = (
+  totals: PayrollTotals[],
+  template: Pick<PayrollTemplate, 'columns' | 'delimiter' | 'include_header'>,
+  period: Pick<PayPeriod, 'start_date' | 'end_date'>
+): string => {
+  const { columns, delimiter } = template;
+  const lines = totals.map(row =>
+    columns
+      .map(column => {
+        const value = column.key === 'period_start'
+          ? period.start_date
+          : column.key === 'period_end' ? period.end_date : row[column.key];
+        return escapeCell(value === null || value === undefined ? '' : String(value), delimiter);
+      })
+      .join(delimiter)
+  );
+
+  if (template.include_header) {
+    lines.unshift(columns.map(column => escapeCell(column.header, delimiter)).join(delimiter));
+  }
+  return lines.join('\r\n');
+};
+
+export const getPayPeriods = async (): Promise<PayPeriod[]> => {
+  const { data, error } = await supabase
+    .from('pay_periods')
+    .select('*')
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching pay periods:', error);
+    throw new Error('Failed to load pay periods');
+  }
+  return (data || []) as PayPeriod[];
+};
+
+// The closed period covering `date`, if any
+export const getClosedPayPeriod = async (date: string): Promise<PayPeriod | null> => {
+  const { data, error } = await supabase
+    .from('pay_periods')
+    .select('*')
+    .eq('status', 'closed')
+    .lte('start_date', date)
+    .gte('end_date', date)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking pay period lock:', error);
+    throw new Error('Failed to check whether the pay period is locked');
+  }
+  return data as PayPeriod | null;
+};
+
+export const getPayPeriodLockMessage = (period: Pick<PayPeriod, 'start_date' | 'end_date'>): string =>
+  `The pay period ${period.start_date} to ${period.end_date} is closed and locked`;
+
+export const createPayPeriod = async (
+  frequency: PayFrequency,
+  date: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const range = getPayPeriodRange(frequency, date);
+    const { data: overlapping, error: overlapError } = await supabase
+      .from('pay_periods')
+      .select('id')
+      .lte('start_date', range.end_date)
+      .gte('end_date', range.start_date)
+      .limit(1);
+
+    if (overlapError) throw overlapError;
+    if (overlapping && overlapping.length > 0) {
+      return { success: false, message: 'This period overlaps an existing pay period' };
+    }
+
+    const { error } = await supabase.from('pay_periods').insert({ frequency, ...range });
+    if (error) throw error;
+
+    return { success: true, message: `Pay period ${range.start_date} to ${range.end_date} created` };
+  } catch (error) {
+    console.error('Error creating pay period:', error);
+    return { success: false, message: 'Failed to create pay period' };
+  }
+};
+
+export const calculatePayPeriodTotals = async (
+  period: Pick<PayPeriod, 'start_date' | 'end_date'>
+): Promise<PayrollTotals[]> => {
+  const [{ data: employees, error: employeeError }, { data: records, error: recordError }, leave] = await Promise.all([
+    supabase
+      .from('employees')
+      .select('id, first_name, last_name, department_id, home_site_id, departments:department_id (name)')
+      .eq('status', 'active')
+      .order('first_name'),
+    supabase
+      .from('attendance')
+      .select('employee_id, date, first_check_in_time, first_check_out_time, second_check_in_time, second_check_out_time, sessions, minutes_late, overtime, regular_minutes, ot1_minutes, ot2_minutes, unapproved_overtime_minutes')
+      .gte('date', period.start_date)
+      .lte('date', period.end_date),
+    getApprovedLeave(period.start_date, period.end_date)
+  ]);
+
+  if (employeeError || recordError) {
+    console.error('Error fetching payroll data:', employeeError || recordError);
+    throw new Error('Failed to load attendance for the pay period');
+  }
+
+  const rows = (employees || []) as unknown as {
+    id: string;
+    first_name: string;
+    last_name: string;
+    department_id: string | null;
+    home_site_id: string | null;
+    departments?: { name: string } | null;
+  }[];
+  const nonWorking = await getNonWorkingDates(rows, period.start_date, period.end_date);
+
+  return buildPayrollTotals(
+    rows.map(employee => ({
+      id: employee.id,
+      name: `${employee.first_name} ${employee.last_name}`,
+      department: employee.departments?.name || null
+    })),
+    (records || []) as PayrollAttendance[],
+    leave,
+    period,
+    nonWorking
+  );
+};
+
+// Closes the period as the signed-in user; only HR admins may close periods
+export const closePayPeriod = async (
+  period: PayPeriod
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    if (period.status === 'closed') {
+      return { success: false, message: 'Pay period is already closed' };
+    }
+
+    const { data, error } = await supabase.rpc('close_pay_period', { p_period_id: period.id });
+
+    if (error) {
+      if (error.code === '42501') {
+        return { success: false, message: 'Only HR admins can close pay periods' };
+      }
+      throw error;
+    }
+    if (!data?.success) {
+      return { success: false, message: data?.error || 'Failed to close pay period' };
+    }
+
+    return { success: true, message: `Pay period closed with totals for ${data.employees} employee(s)` };
+  } catch (error) {
+    console.error('Error in closePayPeriod:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to close pay period' };
+  }
+};
+
+export const getPayPeriodTotals = async (periodId: string): Promise<PayrollTotals[]> => {
+  const { data, error } = await supabase
+    .from('pay_period_totals')
+    .select('*')
+    .eq('pay_period_id', periodId)
+    .order('employee_name');
+
+  if (error) {
+    console.error('Error fetching pay period totals:', error);
+    throw new Error('Failed to load pay period totals');
+  }
+  // NUMERIC columns come back from PostgREST as strings
+  return (data || []).map(row => ({
+    ...row,
+    regular_hours: Number(row.regular_hours),
+    ot1_hours: Number(row.ot1_hours),
+    ot2_hours: Number(row.ot2_hours),
+    overtime_hours: Number(row.overtime_hours),
+    paid_leave_days: Number(row.paid_leave_days),
+    unpaid_leave_days: Number(row.unpaid_leave_days)
+  })) as PayrollTotals[];
+};
+
+export const getPayrollTemplates = async (): Promise<PayrollTemplate[]> => {
+  const { data, error } = await supabase
+    .from('payroll_export_templates')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching payroll templates:', error);
+    throw new Error('Failed to load payroll export templates');
+  }
+  return (data || []) as PayrollTemplate[];
+};
+
+export const savePayrollTemplate = async (
+  template: Omit<PayrollTemplate, 'id'> & { id?: string }
+): Promise<{ success: boolean; message: string }> => {
+  if (!template.name?.trim()) {
+    return { success: false, message: 'Template name is required' };
+  }
+  if (template.columns.length === 0) {
+    return { success: false, message: 'Select at least one column' };
+  }
+
+  const { id, ...values } = template;
+  const row = {
+    ...values,
+    name: template.name.trim(),
+    payroll_system: template.payroll_system?.trim() || null,
+    columns: template.columns.map(column => ({
+      key: column.key,
+      header: column.header.trim() || PAYROLL_COLUMNS[column.key]
+    })),
+    updated_at: new Date().toISOString()
+  };
+  const { error } = id
+    ? await supabase.from('payroll_export_templates').update(row).eq('id', id)
+    : await supabase.from('payroll_export_templates').insert(row);
+
+  if (error) {
+    console.error('Error saving payroll template:', error);
+    return {
+      success: false,
+      message: error.code === '23505' ? 'A template with this name already exists' : 'Failed to save payroll template'
+    };
+  }
+  return { success: true, message: 'Payroll template saved' };
+};
+
+export const deletePayrollTemplate = async (id: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.from('payroll_export_templates').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting payroll template:', error);
+    return { success: false, message: 'Failed to delete payroll template' };
+  }
+  return { success: true, message: 'Payroll template deleted' };
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/supabaseMock';
+import { verifyEmployeeQR } from './qrCodeUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+// employees lookup answering with each given response in turn
+const mockEmployeeLookups = (...responses: Array<{ data: unknown; error: unknown }>) => {
+  const employees = mockQuery();
+  responses.forEach(response => employees.maybeSingle.mockResolvedValueOnce(response));
+  (supabase.from as Mock).mockReturnValue(employees);
+};
+
+describe('verifyEmployeeQR', () => {
+  const legacyBadge = 'EMP:employee-123:Jane Doe';
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('VITE_LEGACY_BADGE_ACCEPT_UNTIL', '2099-12-31');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('checks the employee status on every scan', async () => {
+    mockEmployeeLookups(
+      { data: { id: 'employee-123', status: 'active' }, error: null },
+      { data: { id: 'employee-123', status: 'inactive' }, error: null }
+    );
+
+    expect(await verifyEmployeeQR(legacyBadge)).toMatchObject({ valid: true });
+    // Deactivated a moment later: the next scan must be refused
+    expect(await verifyEmployeeQR(legacyBadge)).toMatchObject({ valid: false, reason: 'inactive_employee' });
+  });
+
+  it('reports a failed lookup as unavailable, not as an inactive employee', async () => {
+    mockEmployeeLookups({ data: null, error: { message: 'Failed to fetch' } });
+
+    expect(await verifyEmployeeQR(legacyBadge)).toMatchObject({
+      valid: false,
+      reason: 'unavailable',
+      employeeId: 'employee-123',
+    });
+  });
+
+  it('refuses an employee that does not exist', async () => {
+    mockEmployeeLookups({ data: null, error: null });
+
+    expect(await verifyEmployeeQR(legacyBadge)).toMatchObject({ valid: false, reason: 'inactive_employee' });
+  });
+});
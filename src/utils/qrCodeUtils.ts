@@ -1,9 +1,20 @@
 import JSZip from 'jszip';
 import { Employee, GatePass } from '@/types';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  BadgeVerificationResult,
+  DecodedSignedBadge,
+  decodeSignedBadge,
+  getBadgeRevocationStatus,
+  getOrIssueEmployeeBadge,
+  isLegacyBadgeAccepted,
+  verifyBadgeSignature
+} from './badgeUtils';
+import { getGatePassQRData } from './signedGatePassUtils';
 
-// Cache for QR code validation results
-const validationCache = new Map<string, { result: boolean; timestamp: number }>();
+// Cache for badge signature checks. Revocation and employee status are looked
+// up on every scan so a deactivated employee or revoked badge stops at once.
+const signatureCache = new Map<string, { result: Awaited<ReturnType<typeof verifyBadgeSignature>>; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 // Optimized QR code generation with caching
@@ -46,67 +57,146 @@ const generateQRSVG = async (data: string | Record<string, any>): Promise<string
 
 // Optimized employee QR code generation
 export const generateEmployeeQRSVG = async (employee: Employee): Promise<string> => {
-  const qrCodeData = generateLegacyQR(employee);
+  const qrCodeData = await generateEmployeeQR(employee);
   return generateQRSVG(qrCodeData);
 };
 
 // Optimized gate pass QR code generation
 export const generateGatePassQRSVG = async (pass: GatePass): Promise<string> => {
-  const qrCodeData = JSON.stringify({
-    type: 'gatepass',
-    id: pass.id,
-    passCode: pass.passCode,
-    employeeId: pass.employeeId
-  });
+  const qrCodeData = await getGatePassQRData(pass);
   return generateQRSVG(qrCodeData);
 };
 
-// Optimized legacy QR format generation
-const generateLegacyQR = (employee: { id: string; name: string }): string => {
-  return `EMP:${employee.id}:${employee.name.replace(/[^a-zA-Z0-9 ]/g, '')}`;
+// Legacy QR format, still readable during the migration window
+const LEGACY_QR_PATTERN = /^EMP:([^:]+):(.+)$/;
+
+// Employee badges carry a signed payload issued by the badge signing function
+export const generateEmployeeQR = async (employee: { id: string }): Promise<string> => {
+  const badge = await getOrIssueEmployeeBadge(employee.id);
+  return badge.qr_data;
 };
 
-export const generateEmployeeQR = (employee: { id: string; name: string; email: string; department: string }): string => {
-  return generateLegacyQR(employee);
+// Throws when the lookup fails so a lost connection is not read as an inactive employee
+const checkEmployeeActive = async (employeeId: string): Promise<boolean> => {
+  const { data: employee, error } = await supabase
+    .from('employees')
+    .select('id, status')
+    .eq('id', employeeId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking employee status:', error);
+    throw new Error('Failed to check employee status');
+  }
+  return employee?.status === 'active';
 };
 
-// Optimized QR code validation with caching
-export const validateEmployeeQR = async (qrData: string): Promise<boolean> => {
-  // Check cache first
-  const cached = validationCache.get(qrData);
+const verifyBadgeSignatureCached = async (qrData: string, badge: DecodedSignedBadge) => {
+  const cached = signatureCache.get(qrData);
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
     return cached.result;
   }
 
+  const result = await verifyBadgeSignature(badge);
+  signatureCache.set(qrData, { result, timestamp: Date.now() });
+  return result;
+};
+
+/**
+ * Verify a scanned employee badge before any attendance is recorded.
+ * Signed badges must carry a valid signature and an unrevoked serial; legacy
+ * badges are only accepted until the configured cut-off date.
+ */
+export const verifyEmployeeQR = async (qrData: string): Promise<BadgeVerificationResult> => {
   try {
-    const legacyMatch = qrData.match(/^EMP:([^:]+):(.+)$/);
-    if (!legacyMatch) {
-      validationCache.set(qrData, { result: false, timestamp: Date.now() });
-      return false;
+    return await checkEmployeeQR(qrData);
+  } catch (error) {
+    console.error('Error validating QR code:', error);
+    return {
+      valid: false,
+      format: 'unknown',
+      employeeId: parseQRCodeData(qrData).id || null,
+      reason: 'unavailable',
+      message: 'Unable to verify QR code. Please try again.'
+    };
+  }
+};
+
+const checkEmployeeQR = async (qrData: string): Promise<BadgeVerificationResult> => {
+  const signedBadge = decodeSignedBadge(qrData);
+
+  if (signedBadge) {
+    const { payload } = signedBadge;
+    const base = { format: 'signed' as const, employeeId: payload.eid, serial: payload.sn };
+
+    const signature = await verifyBadgeSignatureCached(qrData, signedBadge);
+    if (!signature.valid) {
+      return { ...base, valid: false, reason: signature.reason, message: 'This badge could not be verified' };
     }
 
-      const [, employeeId] = legacyMatch;
-      
-      const { data: employee, error } = await supabase
-        .from('employees')
-        .select('id, status')
-        .eq('id', employeeId)
-        .eq('status', 'active')
-        .single();
+    const revocation = await getBadgeRevocationStatus(payload.sn);
+    if (!revocation.usable) {
+      return {
+        ...base,
+        valid: false,
+        reason: revocation.reason,
+        message: revocation.reason === 'revoked' ? 'This badge has been revoked' : 'This badge is not registered'
+      };
+    }
 
-    const isValid = !error && !!employee;
-    validationCache.set(qrData, { result: isValid, timestamp: Date.now() });
-    return isValid;
-  } catch (error) {
-    console.error('Error validating QR code:', error);
-    return false;
+    if (!(await checkEmployeeActive(payload.eid))) {
+      return { ...base, valid: false, reason: 'inactive_employee', message: 'Employee is not active in the system' };
+    }
+
+    return { ...base, valid: true, message: 'Badge verified' };
+  }
+
+  const legacyMatch = qrData.match(LEGACY_QR_PATTERN);
+  if (legacyMatch) {
+    const base = { format: 'legacy' as const, employeeId: legacyMatch[1] };
+
+    if (!isLegacyBadgeAccepted()) {
+      return {
+        ...base,
+        valid: false,
+        reason: 'legacy_not_accepted',
+        message: 'This badge format is no longer accepted. Please request a new badge.'
+      };
+    }
+
+    if (!(await checkEmployeeActive(legacyMatch[1]))) {
+      return { ...base, valid: false, reason: 'inactive_employee', message: 'Employee is not active in the system' };
+    }
+
+    return { ...base, valid: true, message: 'Legacy badge accepted' };
   }
+
+  return {
+    valid: false,
+    format: 'unknown',
+    employeeId: null,
+    reason: 'malformed',
+    message: 'Please scan a valid employee QR code'
+  };
 };
 
-// Optimized QR code parsing with validation
+export const validateEmployeeQR = async (qrData: string): Promise<boolean> => {
+  const result = await verifyEmployeeQR(qrData);
+  return result.valid;
+};
+
+/**
+ * Identify the employee a QR code claims to belong to. This does not verify
+ * the signature; use verifyEmployeeQR before trusting the result.
+ */
 export const parseQRCodeData = (qrData: string): { type: 'employee' | 'unknown', id: string } => {
   try {
-    const legacyMatch = qrData.match(/^EMP:([^:]+):(.+)$/);
+    const signedBadge = decodeSignedBadge(qrData);
+    if (signedBadge) {
+      return { type: 'employee', id: signedBadge.payload.eid };
+    }
+
+    const legacyMatch = qrData.match(LEGACY_QR_PATTERN);
     if (legacyMatch) {
       return { type: 'employee', id: legacyMatch[1] };
     }
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { runDueReports } from './reportScheduleUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), functions: { invoke: vi.fn() } },
+}));
+
+describe('runDueReports', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('asks the scheduler to send what is due', async () => {
+    (supabase.functions.invoke as Mock).mockResolvedValue({ data: { processed: 2 }, error: null });
+
+    expect(await runDueReports()).toEqual({ success: true, message: '2 report(s) processed' });
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('run_report_schedules', { body: {} });
+  });
+
+  it('reports a refused run instead of claiming nothing was due', async () => {
+    (supabase.functions.invoke as Mock).mockResolvedValue({
+      data: { error: 'You do not have permission for this action' },
+      error: { message: 'Edge Function returned a non-2xx status code' },
+    });
+
+    expect(await runDueReports()).toEqual({
+      success: false,
+      message: 'You do not have permission for this action',
+    });
+  });
+});
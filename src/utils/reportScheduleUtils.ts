@@ -0,0 +1,153 @@
+// Report Schedule Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { getOrganizationTimezone, isValidTimeZone } from './timezoneUtils';
+
+/**
+ * Report schedules are sent by the run_report_schedules edge function, which
+ * pg_cron calls every five minutes; the browser only edits schedules and
+ * reads the delivery log. A schedule is due once its send time has passed on
+ * one of its weekdays in its own timezone, and each local date gets at most
+ * one delivery.
+ */
+
+export type ReportType = 'daily_summary' | 'absentees';
+export type ReportChannel = 'whatsapp' | 'email' | 'telegram' | 'sms';
+export type DeliveryStatus = 'sending' | 'sent' | 'partial' | 'failed';
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  report_type: ReportType;
+  channel: ReportChannel;
+  recipients: string[];
+  send_time: string; // HH:mm or HH:mm:ss
+  timezone: string;
+  days_of_week: number[]; // 0 = Sunday
+  is_active: boolean;
+  site_id: string | null; // null = every site
+}
+
+export interface ReportDelivery {
+  id: string;
+  schedule_id: string;
+  scheduled_for: string;
+  status: DeliveryStatus;
+  channel: ReportChannel;
+  recipients: string[];
+  message: string | null;
+  results: { recipient: string; ok: boolean; error?: string }[];
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+  schedule?: { name: string } | null;
+}
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  daily_summary: 'Daily attendance summary',
+  absentees: 'Absent employees'
+};
+
+export const REPORT_CHANNEL_LABELS: Record<ReportChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  telegram: 'Telegram',
+  sms: 'SMS'
+};
+
+// The bot's answers look this schedule up by name on the server too
+export { BOT_SCHEDULE_NAME } from '../../supabase/functions/_shared/reportSchedule';
+
+export const getReportSchedules = async (): Promise<ReportSchedule[]> => {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching report schedules:', error);
+    throw new Error('Failed to load report schedules');
+  }
+  return (data || []).map(schedule => ({
+    ...schedule,
+    send_time: String(schedule.send_time).slice(0, 5)
+  })) as ReportSchedule[];
+};
+
+export const saveReportSchedule = async (
+  schedule: Omit<ReportSchedule, 'id' | 'timezone'> & { id?: string; timezone?: string }
+): Promise<{ success: boolean; message: string }> => {
+  if (!schedule.name?.trim()) {
+    return { success: false, message: 'Schedule name is required' };
+  }
+  const timezone = schedule.timezone || getOrganizationTimezone();
+  if (!isValidTimeZone(timezone)) {
+    return { success: false, message: `Unknown timezone: ${timezone}` };
+  }
+  if (!/^\d{2}:\d{2}(:\d{2})?$/.test(schedule.send_time)) {
+    return { success: false, message: 'Please choose a send time' };
+  }
+  const recipients = schedule.recipients.map(recipient => recipient.trim()).filter(Boolean);
+  if (schedule.is_active && recipients.length === 0) {
+    return { success: false, message: 'Add at least one recipient' };
+  }
+  if (schedule.is_active && schedule.days_of_week.length === 0) {
+    return { success: false, message: 'Select at least one day' };
+  }
+
+  const { id, ...values } = schedule;
+  const row = {
+    ...values,
+    name: schedule.name.trim(),
+    recipients,
+    timezone,
+    updated_at: new Date().toISOString()
+  };
+  const { error } = id
+    ? await supabase.from('report_schedules').update(row).eq('id', id)
+    : await supabase.from('report_schedules').insert(row);
+
+  if (error) {
+    console.error('Error saving report schedule:', error);
+    return {
+      success: false,
+      message: error.code === '23505' ? 'A schedule with this name already exists' : 'Failed to save report schedule'
+    };
+  }
+  return { success: true, message: 'Report schedule saved' };
+};
+
+export const deleteReportSchedule = async (id: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.from('report_schedules').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting report schedule:', error);
+    return { success: false, message: 'Failed to delete report schedule' };
+  }
+  return { success: true, message: 'Report schedule deleted' };
+};
+
+export const getReportDeliveries = async (limit = 50): Promise<ReportDelivery[]> => {
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .select('*, schedule:schedule_id (name)')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching report deliveries:', error);
+    throw new Error('Failed to load the delivery log');
+  }
+  return (data || []) as ReportDelivery[];
+};
+
+// Ask the scheduler to send anything already due instead of waiting for cron
+export const runDueReports = async (): Promise<{ success: boolean; message: string }> => {
+  const { data, error } = await supabase.functions.invoke('run_report_schedules', { body: {} });
+
+  if (error) {
+    console.error('Error running report schedules:', error);
+    return { success: false, message: data?.error || 'Failed to run report schedules' };
+  }
+  const sent = data?.processed ?? 0;
+  return { success: true, message: sent > 0 ? `${sent} report(s) processed` : 'No reports are due' };
+};
@@ -0,0 +1,4 @@
+// Background sync of the offline scan queue. Kept apart from offlineQueueUtils
+// so the service worker can use it without loading the app modules.
+export const SCAN_QUEUE_SYNC_TAG = 'attendance-scan-queue-sync';
+export const REPLAY_SCAN_QUEUE_MESSAGE = 'REPLAY_SCAN_QUEUE';
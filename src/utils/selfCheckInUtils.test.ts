@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { buildSiteCheckInQR, checkGeofence, distanceInMeters, parseSiteCheckInQR, selfCheckIn } from './selfCheckInUtils';
+import { Site, emptySite } from './siteUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+const site = (id: string, latitude: number | null, longitude: number | null, radius = 150): Site => ({
+  ...emptySite(),
+  id,
+  name: id,
+  timezone: 'Asia/Colombo',
+  latitude,
+  longitude,
+  geofence_radius_m: radius
+});
+
+describe('distanceInMeters', () => {
+  it('measures a degree of latitude as about 111 km', () => {
+    const distance = distanceInMeters({ latitude: 6, longitude: 80 }, { latitude: 7, longitude: 80 });
+    expect(distance).toBeGreaterThan(110500);
+    expect(distance).toBeLessThan(111500);
+  });
+
+  it('is zero for the same point', () => {
+    expect(distanceInMeters({ latitude: 6.9271, longitude: 79.8612 }, { latitude: 6.9271, longitude: 79.8612 })).toBe(0);
+  });
+});
+
+describe('checkGeofence', () => {
+  // About 100 m north of the Colombo site
+  const nearColombo = { latitude: 6.9280, longitude: 79.8612, accuracy: 20 };
+
+  it('picks the nearest site with a location', () => {
+    const result = checkGeofence(
+      [site('galle', 6.0329, 80.2168), site('colombo', 6.9271, 79.8612), site('remote', null, null)],
+      nearColombo
+    );
+    expect(result?.site.id).toBe('colombo');
+    expect(result?.inside).toBe(true);
+  });
+
+  it('is outside beyond the radius', () => {
+    expect(checkGeofence([site('colombo', 6.9271, 79.8612, 50)], nearColombo)?.inside).toBe(false);
+  });
+
+  it('is outside when the location is less precise than the radius', () => {
+    const result = checkGeofence([site('colombo', 6.9271, 79.8612)], { ...nearColombo, accuracy: 400 });
+    expect(result?.inside).toBe(false);
+  });
+
+  it('finds nothing when no site has a location', () => {
+    expect(checkGeofence([site('remote', null, null)], nearColombo)).toBeNull();
+  });
+});
+
+describe('site check-in QR', () => {
+  it('round-trips the site and code', () => {
+    expect(parseSiteCheckInQR(buildSiteCheckInQR('site-1', '0A1B2C3D'))).toEqual({ siteId: 'site-1', code: '0A1B2C3D' });
+  });
+
+  it('rejects badges and malformed codes', () => {
+    expect(parseSiteCheckInQR('EMP2.payload.signature')).toBeNull();
+    expect(parseSiteCheckInQR('SITE1.site-1.XYZ')).toBeNull();
+    expect(parseSiteCheckInQR('SITE1.site-1.0A1B2C3D.extra')).toBeNull();
+  });
+});
+
+describe('selfCheckIn', () => {
+  const location = { latitude: 6.9271, longitude: 79.8612, accuracy: 20 };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('names the site the punch was recorded at', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { status: 'Success', action: 'check_in', message: 'Checked in', method: 'geofence', site_name: 'Head Office' },
+      error: null,
+    });
+
+    expect(await selfCheckIn(location)).toEqual({ success: true, flagged: false, message: 'Checked in at Head Office' });
+    expect(supabase.rpc).toHaveBeenCalledWith('self_check_in', {
+      p_latitude: 6.9271,
+      p_longitude: 79.8612,
+      p_accuracy_m: 20,
+      p_site_id: null,
+      p_site_code: null,
+    });
+  });
+
+  it('passes on punches the attendance rules refuse, as at the kiosk', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { status: 'Error', reason: 'COOLDOWN_ACTIVE', message: 'Please wait 3 minutes before checking out' },
+      error: null,
+    });
+
+    expect(await selfCheckIn(location)).toEqual({
+      success: false,
+      flagged: false,
+      message: 'Please wait 3 minutes before checking out',
+    });
+  });
+
+  it('tells the employee a check-in outside the site went to review', async () => {
+    (supabase.rpc as Mock).mockResolvedValue({
+      data: { status: 'Flagged', message: '420 m from Head Office, outside its 150 m radius', method: 'geofence' },
+      error: null,
+    });
+
+    expect(await selfCheckIn(location)).toMatchObject({
+      success: false,
+      flagged: true,
+      message: '420 m from Head Office, outside its 150 m radius. Your check-in was sent to an admin for review.',
+    });
+  });
+});
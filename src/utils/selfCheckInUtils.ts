@@ -0,0 +1,211 @@
+// Self Check-in Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { Site } from './siteUtils';
+
+/**
+ * Field staff check in from their own phone. The `self_check_in` database
+ * function records the punch only when the phone is inside a site's geofence
+ * or the employee scanned the rotating code shown at that site's reception;
+ * any other attempt is kept as flagged for an admin to approve or reject. The
+ * distance helpers here just show the employee where they stand beforehand.
+ */
+
+export type PunchMethod = 'kiosk' | 'self' | 'geofence';
+
+export const PUNCH_METHOD_LABELS: Record<PunchMethod, string> = {
+  kiosk: 'Kiosk',
+  self: 'Site QR',
+  geofence: 'Geofence'
+};
+
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // metres
+}
+
+export interface SiteCheckInCode {
+  siteId: string;
+  code: string;
+}
+
+export interface SelfCheckInResult {
+  success: boolean;
+  flagged: boolean;
+  message: string;
+}
+
+export type CheckInAttemptStatus = 'flagged' | 'approved' | 'rejected';
+
+export interface CheckInAttempt {
+  id: string;
+  employee_id: string;
+  site_id: string | null;
+  method: Exclude<PunchMethod, 'kiosk'>;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy_m: number | null;
+  distance_m: number | null;
+  reason: string;
+  attempted_at: string;
+  status: CheckInAttemptStatus;
+  employee?: { first_name: string; last_name: string } | null;
+  site?: { name: string } | null;
+}
+
+// Marks the reception QR so it is never mistaken for a badge
+export const SITE_CODE_PREFIX = 'SITE1';
+
+// Matches the 30 second window in site_check_in_code()
+export const SITE_CODE_ROTATION_MS = 30 * 1000;
+
+export const buildSiteCheckInQR = (siteId: string, code: string): string =>
+  `${SITE_CODE_PREFIX}.${siteId}.${code}`;
+
+export const parseSiteCheckInQR = (value: string): SiteCheckInCode | null => {
+  const [prefix, siteId, code, ...rest] = value.trim().split('.');
+  if (prefix !== SITE_CODE_PREFIX || rest.length > 0 || !siteId || !/^[0-9A-F]{8}$/i.test(code ?? '')) {
+    return null;
+  }
+  return { siteId, code: code.toUpperCase() };
+};
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance, the same formula as distance_m() in the database
+export const distanceInMeters = (
+  from: Pick<PunchLocation, 'latitude' | 'longitude'>,
+  to: Pick<PunchLocation, 'latitude' | 'longitude'>
+): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+export interface GeofenceCheck {
+  site: Site;
+  distance: number;
+  inside: boolean;
+}
+
+/**
+ * The nearest site with a location. The position counts as inside only when
+ * it is within the radius and its accuracy is no worse than the radius, as
+ * the database decides.
+ */
+export const checkGeofence = (sites: Site[], location: PunchLocation): GeofenceCheck | null => {
+  let nearest: GeofenceCheck | null = null;
+  for (const site of sites) {
+    if (site.latitude === null || site.longitude === null) continue;
+    const distance = distanceInMeters(location, { latitude: site.latitude, longitude: site.longitude });
+    if (!nearest || distance < nearest.distance) {
+      nearest = { site, distance, inside: false };
+    }
+  }
+  if (nearest) {
+    const radius = nearest.site.geofence_radius_m;
+    nearest.inside = nearest.distance <= radius && location.accuracy <= radius;
+  }
+  return nearest;
+};
+
+export const getCurrentLocation = (maximumAge = 0): Promise<PunchLocation> =>
+  new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('This device cannot share its location'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        }),
+      error =>
+        reject(
+          new Error(
+            error.code === error.PERMISSION_DENIED
+              ? 'Allow location access to check in'
+              : 'Could not find your location; try again or scan the site code'
+          )
+        ),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge }
+    );
+  });
+
+export const selfCheckIn = async (
+  location: PunchLocation | null,
+  siteCode: SiteCheckInCode | null = null
+): Promise<SelfCheckInResult> => {
+  const { data, error } = await supabase.rpc('self_check_in', {
+    p_latitude: location?.latitude ?? null,
+    p_longitude: location?.longitude ?? null,
+    p_accuracy_m: location?.accuracy ?? null,
+    p_site_id: siteCode?.siteId ?? null,
+    p_site_code: siteCode?.code ?? null
+  });
+
+  if (error) {
+    console.error('Error checking in:', error);
+    return { success: false, flagged: false, message: error.message || 'Failed to check in' };
+  }
+  if (data?.status === 'Flagged') {
+    return { success: false, flagged: true, message: `${data.message}. Your check-in was sent to an admin for review.` };
+  }
+  if (data?.status !== 'Success') {
+    return { success: false, flagged: false, message: data?.message || 'Failed to check in' };
+  }
+  return { success: true, flagged: false, message: data.site_name ? `${data.message} at ${data.site_name}` : data.message };
+};
+
+// The code currently shown at a site's reception. Kiosks always get their own site's code.
+export const getSiteCheckInCode = async (siteId: string | null): Promise<{ qr: string; expiresAt: string }> => {
+  const { data, error } = await supabase.rpc('get_site_check_in_code', { p_site_id: siteId });
+
+  if (error || !data) {
+    console.error('Error fetching site check-in code:', error);
+    throw new Error('Failed to load the site check-in code');
+  }
+  return { qr: buildSiteCheckInQR(data.site_id, data.code), expiresAt: data.expires_at };
+};
+
+export const getFlaggedCheckIns = async (): Promise<CheckInAttempt[]> => {
+  const { data, error } = await supabase
+    .from('self_check_in_attempts')
+    .select('*, employee:employee_id (first_name, last_name), site:site_id (name)')
+    .eq('status', 'flagged')
+    .order('attempted_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching flagged check-ins:', error);
+    throw new Error('Failed to load flagged check-ins');
+  }
+  return (data || []) as unknown as CheckInAttempt[];
+};
+
+export const reviewCheckIn = async (
+  attemptId: string,
+  approve: boolean,
+  note?: string
+): Promise<{ success: boolean; message: string }> => {
+  const { data, error } = await supabase.rpc('review_self_check_in', {
+    p_attempt_id: attemptId,
+    p_approve: approve,
+    p_note: note ?? null
+  });
+
+  if (error) {
+    console.error('Error reviewing check-in:', error);
+    return { success: false, message: error.message || 'Failed to review check-in' };
+  }
+  if (data?.status === 'Error') {
+    return { success: false, message: data.message };
+  }
+  return { success: true, message: approve ? 'Check-in approved and recorded' : 'Check-in rejected' };
+};
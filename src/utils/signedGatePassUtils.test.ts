@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { encodeBase64Url } from './badgeUtils';
+import { parseGatePassQR } from './gatePassUtils';
+import {
+  createSignedGatePass,
+  decodeSignedGatePass,
+  getGatePassQRData,
+  SignedGatePassPayload,
+  verifyGatePassOffline
+} from './signedGatePassUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    functions: { invoke: vi.fn() },
+  },
+}));
+
+describe('signed gate passes', () => {
+  const payload: SignedGatePassPayload = {
+    v: 1,
+    pid: 'pass-123',
+    pc: 'AB12CD34',
+    eid: 'employee-123',
+    vid: null,
+    n: 'Jane Doe',
+    t: 'both',
+    val: 'day',
+    nbf: Date.UTC(2025, 6, 1, 8) / 1000,
+    exp: Date.UTC(2025, 6, 1, 18) / 1000,
+    kid: 'k1',
+  };
+  const during = new Date(Date.UTC(2025, 6, 1, 12));
+
+  let privateKey: CryptoKey;
+  let publicKeys: Record<string, string>;
+
+  beforeAll(async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    privateKey = keyPair.privateKey;
+    const rawPublicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    publicKeys = { k1: encodeBase64Url(new Uint8Array(rawPublicKey)) };
+  });
+
+  it('verifies a pass offline within its window', async () => {
+    const qrData = await createSignedGatePass(payload, privateKey);
+
+    expect(qrData.startsWith('GP2.')).toBe(true);
+    expect(decodeSignedGatePass(qrData)?.payload).toEqual(payload);
+    const result = await verifyGatePassOffline(qrData, during, publicKeys);
+    expect(result.valid).toBe(true);
+    expect(result.payload).toEqual(payload);
+  });
+
+  it('rejects a pass whose payload was altered', async () => {
+    const qrData = await createSignedGatePass(payload, privateKey);
+    const [prefix, , signature] = qrData.split('.');
+    const forgedPayload = encodeBase64Url(new TextEncoder().encode(JSON.stringify({ ...payload, exp: payload.exp + 86400 })));
+
+    const result = await verifyGatePassOffline(`${prefix}.${forgedPayload}.${signature}`, during, publicKeys);
+    expect(result).toMatchObject({ valid: false, reason: 'bad_signature' });
+  });
+
+  it('rejects a pass outside its validity window', async () => {
+    const qrData = await createSignedGatePass(payload, privateKey);
+
+    expect(await verifyGatePassOffline(qrData, new Date(Date.UTC(2025, 6, 1, 7)), publicKeys))
+      .toMatchObject({ valid: false, reason: 'not_yet_valid' });
+    expect(await verifyGatePassOffline(qrData, new Date(Date.UTC(2025, 6, 2)), publicKeys))
+      .toMatchObject({ valid: false, reason: 'expired' });
+  });
+
+  it('rejects a pass signed with an unknown key or not signed at all', async () => {
+    const qrData = await createSignedGatePass({ ...payload, kid: 'k2' }, privateKey);
+
+    expect(await verifyGatePassOffline(qrData, during, publicKeys)).toMatchObject({ valid: false, reason: 'unknown_key' });
+    expect(await verifyGatePassOffline('AB12CD34', during, publicKeys)).toMatchObject({ valid: false, reason: 'malformed' });
+  });
+
+  it('does not accept a signed badge as a gate pass', () => {
+    expect(decodeSignedGatePass('EMP2.e30.c2ln')).toBeNull();
+  });
+
+  it('reads the pass code from a signed pass for online checks', async () => {
+    expect(parseGatePassQR(await createSignedGatePass(payload, privateKey))).toBe('AB12CD34');
+  });
+});
+
+describe('getGatePassQRData', () => {
+  it('reuses the stored signed code', async () => {
+    await expect(getGatePassQRData({ id: 'pass-1', qrData: 'GP2.stored.sig' })).resolves.toBe('GP2.stored.sig');
+    expect(supabase.functions.invoke).not.toHaveBeenCalled();
+  });
+
+  it('throws when the pass cannot be signed', async () => {
+    (supabase.functions.invoke as Mock).mockResolvedValue({
+      data: { error: 'Gate pass signing is not configured' },
+      error: null
+    });
+
+    await expect(getGatePassQRData({ id: 'pass-1', qrData: null })).rejects.toThrow(
+      'Gate pass signing is not configured'
+    );
+  });
+});
@@ -0,0 +1,149 @@
+// Signed Gate Pass Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { GatePass, GatePassSchedule } from '@/types';
+import { decodeBase64Url, encodeBase64Url, getBadgeConfig, verifyBadgeSignature } from './badgeUtils';
+
+/**
+ * Signed gate passes are encoded as `GP2.<payload>.<signature>`, like signed
+ * badges, and are signed with the same Ed25519 key by the `sign_gate_pass`
+ * edge function. A guard device holds the public keys in its bundle, so it can
+ * check the signature and validity window with no connection. Revocations only
+ * reach it when it syncs; usage recorded offline is reconciled then.
+ */
+export const SIGNED_GATE_PASS_PREFIX = 'GP2';
+export const SIGNED_GATE_PASS_VERSION = 1;
+
+export interface SignedGatePassPayload {
+  v: number;           // payload version
+  pid: string;         // gate pass id
+  pc: string;          // pass code
+  eid: string | null;  // employee id, null for visitors
+  vid: string | null;  // visitor id, null for employees
+  n: string;           // holder name
+  t: GatePass['type'];
+  val: GatePass['validity'];
+  nbf: number;         // valid from, epoch seconds
+  exp: number;         // valid until, epoch seconds
+  s?: { d: number[]; s: string; e: string }; // exit schedule of recurring passes
+  kid: string;         // signing key id
+}
+
+export interface DecodedSignedGatePass {
+  payload: SignedGatePassPayload;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+export type SignedGatePassFailure =
+  | 'malformed'
+  | 'unsupported_version'
+  | 'unknown_key'
+  | 'bad_signature'
+  | 'not_yet_valid'
+  | 'expired';
+
+export interface OfflineGatePassVerification {
+  valid: boolean;
+  payload?: SignedGatePassPayload;
+  reason?: SignedGatePassFailure;
+  message: string;
+}
+
+/**
+ * Split a scanned string into its signed gate pass parts. Returns null for
+ * anything that is not structurally a signed pass; the signature is NOT
+ * checked here.
+ */
+export const decodeSignedGatePass = (qrData: string): DecodedSignedGatePass | null => {
+  const parts = qrData.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== SIGNED_GATE_PASS_PREFIX) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(decodeBase64Url(parts[1])));
+    if (!payload || typeof payload.pid !== 'string' || typeof payload.pc !== 'string' ||
+        typeof payload.kid !== 'string' || typeof payload.nbf !== 'number' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    return {
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: decodeBase64Url(parts[2])
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Build a signed gate pass string. Used by tests and mirrors the edge
+ * function; the private key never ships to the browser.
+ */
+export const createSignedGatePass = async (
+  payload: SignedGatePassPayload,
+  privateKey: CryptoKey
+): Promise<string> => {
+  const encodedPayload = encodeBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signingInput = `${SIGNED_GATE_PASS_PREFIX}.${encodedPayload}`;
+  const signature = await crypto.subtle.sign('Ed25519', privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+const FAILURE_MESSAGES: Record<Exclude<SignedGatePassFailure, 'not_yet_valid' | 'expired'>, string> = {
+  malformed: 'This is not a signed gate pass',
+  unsupported_version: 'This gate pass was issued in a format this device does not support',
+  unknown_key: 'This gate pass was signed with a key this device does not know',
+  bad_signature: 'This gate pass has been tampered with'
+};
+
+// Check a scanned pass with no connection: signature first, then the window
+export const verifyGatePassOffline = async (
+  qrData: string,
+  now: Date = new Date(),
+  publicKeys: Record<string, string> = getBadgeConfig().publicKeys
+): Promise<OfflineGatePassVerification> => {
+  const decoded = decodeSignedGatePass(qrData);
+  if (!decoded) {
+    return { valid: false, reason: 'malformed', message: FAILURE_MESSAGES.malformed };
+  }
+
+  const signature = await verifyBadgeSignature(decoded, publicKeys);
+  if (!signature.valid) {
+    const reason = signature.reason as keyof typeof FAILURE_MESSAGES;
+    return { valid: false, reason, message: FAILURE_MESSAGES[reason] };
+  }
+
+  const { payload } = decoded;
+  const seconds = Math.floor(now.getTime() / 1000);
+  if (seconds < payload.nbf) {
+    return { valid: false, payload, reason: 'not_yet_valid', message: `This pass is valid from ${new Date(payload.nbf * 1000).toLocaleString()}` };
+  }
+  if (seconds > payload.exp) {
+    return { valid: false, payload, reason: 'expired', message: `This pass expired on ${new Date(payload.exp * 1000).toLocaleString()}` };
+  }
+
+  return { valid: true, payload, message: 'Signature valid. Checked offline, so revocations since the last sync are not known.' };
+};
+
+export const getSignedPassSchedule = (payload: SignedGatePassPayload): GatePassSchedule | null =>
+  payload.s ? { days: payload.s.d, start: payload.s.s, end: payload.s.e } : null;
+
+// What goes in an approved pass's QR code, asking the signing function the
+// first time. Throws when the pass cannot be signed rather than printing a
+// plain pass code guard devices cannot check offline.
+export const getGatePassQRData = async (pass: Pick<GatePass, 'id' | 'qrData'>): Promise<string> => {
+  if (pass.qrData) return pass.qrData;
+
+  const { data, error } = await supabase.functions.invoke('sign_gate_pass', {
+    body: { passId: pass.id }
+  });
+
+  if (error || !data?.qrData) {
+    console.error('Error signing gate pass:', error || data);
+    throw new Error(data?.error || 'Failed to sign the gate pass');
+  }
+
+  return data.qrData as string;
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/supabaseMock';
+import { combineSiteTotals, deleteSite, emptySite, getSiteOffDates, getSiteToday, isSiteWorkingDay, saveSite } from './siteUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+describe('site working week', () => {
+  const site = { working_days: [1, 2, 3, 4, 5, 6] };
+
+  it('treats days outside the working week as off', () => {
+    // 2025-07-05 is a Saturday and 2025-07-06 a Sunday
+    expect(isSiteWorkingDay(site, '2025-07-05')).toBe(true);
+    expect(isSiteWorkingDay(site, '2025-07-06')).toBe(false);
+  });
+
+  it('lists the off days in a range', () => {
+    expect(Array.from(getSiteOffDates(site, '2025-07-01', '2025-07-14'))).toEqual(['2025-07-06', '2025-07-13']);
+  });
+});
+
+describe('getSiteToday', () => {
+  it('uses the site timezone', () => {
+    const now = new Date('2025-07-04T20:00:00Z');
+    expect(getSiteToday({ timezone: 'Asia/Colombo' }, now)).toBe('2025-07-05');
+    expect(getSiteToday({ timezone: 'Europe/Amsterdam' }, now)).toBe('2025-07-04');
+  });
+});
+
+describe('combineSiteTotals', () => {
+  it('adds the counts and recomputes the rate from the totals', () => {
+    const galle = { totalEmployees: 10, presentCount: 6, checkedOutCount: 2, lateCount: 1, onLeaveCount: 1, offDutyCount: 0, absentCount: 1 };
+    const kandy = { totalEmployees: 30, presentCount: 12, checkedOutCount: 0, lateCount: 3, onLeaveCount: 0, offDutyCount: 6, absentCount: 12 };
+
+    expect(combineSiteTotals([galle, kandy])).toEqual({
+      totalEmployees: 40,
+      presentCount: 18,
+      checkedOutCount: 2,
+      lateCount: 4,
+      onLeaveCount: 1,
+      offDutyCount: 6,
+      absentCount: 13,
+      attendanceRate: '50.0'
+    });
+  });
+
+  it('reports a zero rate without employees', () => {
+    expect(combineSiteTotals([]).attendanceRate).toBe('0.0');
+  });
+});
+
+describe('saving sites', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('stores blank contact details as empty', async () => {
+    const sites = mockQuery();
+    (supabase.from as Mock).mockReturnValue(sites);
+
+    const result = await saveSite({ ...emptySite(), name: ' Galle Fort ', timezone: 'Asia/Colombo', contact_email: '  ' });
+
+    expect(result).toEqual({ success: true, message: 'Site saved' });
+    expect(sites.insert).toHaveBeenCalledWith(expect.objectContaining({ name: 'Galle Fort', contact_email: null }));
+  });
+
+  it('needs both coordinates before checking the geofence', async () => {
+    const result = await saveSite({ ...emptySite(), name: 'Galle Fort', timezone: 'Asia/Colombo', latitude: 6.03 });
+
+    expect(result).toEqual({ success: false, message: 'Enter both latitude and longitude, or neither' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('keeps sites that kiosk devices were paired at', async () => {
+    (supabase.from as Mock).mockReturnValue(mockQuery({ error: { code: '23503' } }));
+
+    expect(await deleteSite('site-1')).toEqual({
+      success: false,
+      message: 'Kiosk devices have been paired at this site, so it cannot be deleted',
+    });
+  });
+});
@@ -0,0 +1,174 @@
+// Site Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { addDaysToDate, getDateInTimezone, getOrganizationTimezone, isValidTimeZone } from './timezoneUtils';
+
+/**
+ * Sites are the properties or branches employees work at. Each has its own
+ * timezone, working week and admin contacts. Employees have a home site that
+ * reports group them by, but may punch at any site; the punch records where
+ * it was captured in attendance.site_id. A site with a location also accepts
+ * self check-ins from phones within its geofence radius.
+ */
+
+export interface Site {
+  id: string;
+  name: string;
+  timezone: string;
+  working_days: number[]; // 0 = Sunday
+  contact_email: string | null;
+  contact_phone: string | null;
+  contact_whatsapp: string | null;
+  contact_telegram: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_m: number;
+}
+
+export type SiteInput = Omit<Site, 'id'> & { id?: string };
+
+// Value of the report site filters for "every site"
+export const ALL_SITES = 'all';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5, 6];
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 150;
+
+export const emptySite = (): SiteInput => ({
+  name: '',
+  timezone: getOrganizationTimezone(),
+  working_days: DEFAULT_WORKING_DAYS,
+  contact_email: null,
+  contact_phone: null,
+  contact_whatsapp: null,
+  contact_telegram: null,
+  latitude: null,
+  longitude: null,
+  geofence_radius_m: DEFAULT_GEOFENCE_RADIUS_M
+});
+
+export const isSiteWorkingDay = (site: Pick<Site, 'working_days'>, date: string): boolean =>
+  site.working_days.includes(new Date(`${date}T00:00:00Z`).getUTCDay());
+
+// Dates between `from` and `to` that fall outside the site's working week
+export const getSiteOffDates = (site: Pick<Site, 'working_days'>, from: string, to: string): Set<string> => {
+  const dates = new Set<string>();
+  for (let date = from; date <= to; date = addDaysToDate(date, 1)) {
+    if (!isSiteWorkingDay(site, date)) dates.add(date);
+  }
+  return dates;
+};
+
+// Today's date where the site is, which can differ from head office
+export const getSiteToday = (site: Pick<Site, 'timezone'> | null | undefined, now: Date = new Date()): string =>
+  site && isValidTimeZone(site.timezone) ? getDateInTimezone(now, site.timezone) : getDateInTimezone(now);
+
+export const getSiteName = (sites: Pick<Site, 'id' | 'name'>[], siteId: string | null | undefined): string =>
+  sites.find(site => site.id === siteId)?.name || 'No site';
+
+export interface SiteTotals {
+  totalEmployees: number;
+  presentCount: number;
+  checkedOutCount: number;
+  lateCount: number;
+  onLeaveCount: number;
+  offDutyCount: number;
+  absentCount: number;
+}
+
+/**
+ * Head office roll-up of per-site counts. Rates are recomputed from the
+ * totals rather than averaged, so a small site does not skew them.
+ */
+export const combineSiteTotals = (totals: SiteTotals[]): SiteTotals & { attendanceRate: string } => {
+  const combined = totals.reduce<SiteTotals>(
+    (sum, site) => ({
+      totalEmployees: sum.totalEmployees + site.totalEmployees,
+      presentCount: sum.presentCount + site.presentCount,
+      checkedOutCount: sum.checkedOutCount + site.checkedOutCount,
+      lateCount: sum.lateCount + site.lateCount,
+      onLeaveCount: sum.onLeaveCount + site.onLeaveCount,
+      offDutyCount: sum.offDutyCount + site.offDutyCount,
+      absentCount: sum.absentCount + site.absentCount
+    }),
+    { totalEmployees: 0, presentCount: 0, checkedOutCount: 0, lateCount: 0, onLeaveCount: 0, offDutyCount: 0, absentCount: 0 }
+  );
+  const attended = combined.presentCount + combined.checkedOutCount;
+  return {
+    ...combined,
+    attendanceRate: combined.totalEmployees > 0 ? ((attended / combined.totalEmployees) * 100).toFixed(1) : '0.0'
+  };
+};
+
+export const getSites = async (): Promise<Site[]> => {
+  const { data, error } = await supabase
+    .from('sites')
+    .select('id, name, timezone, working_days, contact_email, contact_phone, contact_whatsapp, contact_telegram, latitude, longitude, geofence_radius_m')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching sites:', error);
+    throw new Error('Failed to load sites');
+  }
+  return (data || []) as Site[];
+};
+
+export const saveSite = async (site: SiteInput): Promise<{ success: boolean; message: string }> => {
+  if (!site.name?.trim()) {
+    return { success: false, message: 'Site name is required' };
+  }
+  if (!isValidTimeZone(site.timezone)) {
+    return { success: false, message: `Unknown timezone: ${site.timezone}` };
+  }
+  if (site.working_days.length === 0) {
+    return { success: false, message: 'Select at least one working day' };
+  }
+  if ((site.latitude === null) !== (site.longitude === null)) {
+    return { success: false, message: 'Enter both latitude and longitude, or neither' };
+  }
+  if (site.latitude !== null && (Math.abs(site.latitude) > 90 || Math.abs(site.longitude!) > 180)) {
+    return { success: false, message: 'Latitude must be within ±90 and longitude within ±180' };
+  }
+  if (!(site.geofence_radius_m > 0)) {
+    return { success: false, message: 'The check-in radius must be more than 0 m' };
+  }
+
+  const { id, ...values } = site;
+  const blankToNull = (value: string | null) => value?.trim() || null;
+  const row = {
+    ...values,
+    name: site.name.trim(),
+    contact_email: blankToNull(site.contact_email),
+    contact_phone: blankToNull(site.contact_phone),
+    contact_whatsapp: blankToNull(site.contact_whatsapp),
+    contact_telegram: blankToNull(site.contact_telegram),
+    updated_at: new Date().toISOString()
+  };
+  const { error } = id
+    ? await supabase.from('sites').update(row).eq('id', id)
+    : await supabase.from('sites').insert(row);
+
+  if (error) {
+    console.error('Error saving site:', error);
+    return {
+      success: false,
+      message: error.code === '23505' ? 'A site with this name already exists' : 'Failed to save site'
+    };
+  }
+  return { success: true, message: 'Site saved' };
+};
+
+export const deleteSite = async (id: string): Promise<{ success: boolean; message: string }> => {
+  const { error } = await supabase.from('sites').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting site:', error);
+    // Kiosk devices keep their site even after being revoked
+    return {
+      success: false,
+      message: error.code === '23503' ? 'Kiosk devices have been paired at this site, so it cannot be deleted' : 'Failed to delete site'
+    };
+  }
+  return { success: true, message: 'Site deleted' };
+};
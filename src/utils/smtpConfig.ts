@@ -1,43 +1,114 @@
-import { createTransport } from 'nodemailer';
+// SMTP Settings Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { SMTP_SETTING_TYPE } from '../../supabase/functions/_shared/smtpSettings';
+
+/**
+ * SMTP settings live on the `smtp` row of admin_settings. Email is sent by
+ * the send_email edge function, which reads them with the service role key;
+ * the browser writes the password but never reads it back.
+ */
+
+export { SMTP_SETTING_TYPE };
 
 export interface SMTPSettings {
   host: string;
   port: number;
   secure: boolean;
+  from: string;
   auth: {
     user: string;
+    // Empty when loaded; only sent when it changes
     pass: string;
   };
 }
 
-// Default SMTP configuration
-const defaultSMTPConfig: SMTPSettings = {
+// Edge functions cannot reach ports 25 and 587, so default to implicit TLS on 465
+export const defaultSMTPConfig: SMTPSettings = {
   host: '',
-  port: 587,
-  secure: false, // true for 465, false for other ports
+  port: 465,
+  secure: true,
+  from: '',
   auth: {
     user: '',
     pass: ''
   }
 };
 
-// Create SMTP transporter
-export const createSMTPTransporter = (settings: SMTPSettings = defaultSMTPConfig) => {
-  return createTransport({
-    host: settings.host,
-    port: settings.port,
-    secure: settings.secure,
-    auth: {
-      user: settings.auth.user,
-      pass: settings.auth.pass,
-    },
-  });
-};
-
 // Validate SMTP settings
 export const validateSMTPSettings = (settings: SMTPSettings): boolean => {
-  if (!settings.host || !settings.auth.user || !settings.auth.pass) {
+  if (!settings.host || !settings.auth.user) {
     return false;
   }
-  return true;
-}; 
\ No newline at end of file
+  return Number.isInteger(settings.port) && settings.port > 0 && settings.port <= 65535;
+};
+
+export const getSMTPSettings = async (): Promise<SMTPSettings> => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('smtp_host, smtp_port, smtp_secure, smtp_user, smtp_from')
+    .eq('setting_type', SMTP_SETTING_TYPE)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading SMTP settings:', error);
+    throw error;
+  }
+  if (!data) return defaultSMTPConfig;
+
+  return {
+    host: data.smtp_host || '',
+    port: data.smtp_port || defaultSMTPConfig.port,
+    secure: data.smtp_secure ?? defaultSMTPConfig.secure,
+    from: data.smtp_from || '',
+    auth: { user: data.smtp_user || '', pass: '' }
+  };
+};
+
+export const saveSMTPSettings = async (
+  settings: SMTPSettings
+): Promise<{ success: boolean; message: string }> => {
+  if (!validateSMTPSettings(settings)) {
+    return { success: false, message: 'Host, port and username are required' };
+  }
+
+  const values: Record<string, unknown> = {
+    smtp_host: settings.host.trim(),
+    smtp_port: settings.port,
+    smtp_secure: settings.secure,
+    smtp_user: settings.auth.user.trim(),
+    smtp_from: settings.from.trim() || null
+  };
+  // A blank password keeps the saved one
+  if (settings.auth.pass) values.smtp_pass = settings.auth.pass;
+
+  try {
+    const { data: existing, error: findError } = await supabase
+      .from('admin_settings')
+      .select('id')
+      .eq('setting_type', SMTP_SETTING_TYPE)
+      .maybeSingle();
+    if (findError) throw findError;
+
+    const { error } = existing
+      ? await supabase.from('admin_settings').update(values).eq('id', existing.id)
+      : await supabase.from('admin_settings').insert({ setting_type: SMTP_SETTING_TYPE, ...values });
+    if (error) throw error;
+
+    return { success: true, message: 'SMTP settings saved' };
+  } catch (error) {
+    console.error('Error saving SMTP settings:', error);
+    return { success: false, message: 'Failed to save SMTP settings' };
+  }
+};
+
+// Sends a test email with the saved settings
+export const sendTestEmail = async (to: string): Promise<{ success: boolean; message: string }> => {
+  const { data, error } = await supabase.functions.invoke('send_email', { body: { test: { to } } });
+
+  if (error) {
+    console.error('Error sending test email:', error);
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    return { success: false, message: details?.error || data?.error || 'Failed to send test email' };
+  }
+  return { success: true, message: `Test email sent to ${to}` };
+};
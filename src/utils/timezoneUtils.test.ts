@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  addDaysToDate,
+  formatTimeInTimezone,
+  getDateInTimezone,
+  getMinutesOfDayInTimezone,
+  isValidTimeZone,
+  zonedTimeToUtc
+} from './timezoneUtils';
+import { getBusinessDate, getShiftWindow } from './businessDayUtils';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+const COLOMBO = 'Asia/Colombo'; // UTC+5:30, no DST
+const NEW_YORK = 'America/New_York'; // DST starts 2025-03-09, ends 2025-11-02
+const AMSTERDAM = 'Europe/Amsterdam'; // DST starts 2025-03-30, ends 2025-10-26
+
+const NIGHT_SHIFT = { start_time: '22:00:00', end_time: '06:00:00' };
+
+describe('attendance date in the organization timezone', () => {
+  it('puts an early-morning check-in in Colombo on that morning', () => {
+    // 05:00 on 2 July in Colombo is still 1 July in UTC
+    const checkIn = '2025-07-01T23:30:00.000Z';
+
+    expect(getDateInTimezone(checkIn, COLOMBO)).toBe('2025-07-02');
+    expect(getDateInTimezone(checkIn, 'UTC')).toBe('2025-07-01');
+  });
+
+  it('rolls over exactly at local midnight', () => {
+    expect(getDateInTimezone('2025-07-01T18:29:59.000Z', COLOMBO)).toBe('2025-07-01');
+    expect(getDateInTimezone('2025-07-01T18:30:00.000Z', COLOMBO)).toBe('2025-07-02');
+    expect(getMinutesOfDayInTimezone('2025-07-01T18:30:00.000Z', COLOMBO)).toBe(0);
+  });
+
+  it('follows DST changes when rolling over midnight', () => {
+    // Midnight is 05:00Z in winter and 04:00Z in summer
+    expect(getDateInTimezone('2025-03-08T04:59:00.000Z', NEW_YORK)).toBe('2025-03-07');
+    expect(getDateInTimezone('2025-03-08T05:00:00.000Z', NEW_YORK)).toBe('2025-03-08');
+    expect(getDateInTimezone('2025-03-10T03:59:00.000Z', NEW_YORK)).toBe('2025-03-09');
+    expect(getDateInTimezone('2025-03-10T04:00:00.000Z', NEW_YORK)).toBe('2025-03-10');
+  });
+
+  it('formats punch times in the organization timezone', () => {
+    const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hour12: false };
+
+    expect(formatTimeInTimezone('2025-07-01T23:30:00.000Z', options, COLOMBO)).toBe('05:00');
+    expect(formatTimeInTimezone(null, options, COLOMBO)).toBe('-');
+  });
+});
+
+describe('wall-clock times to instants', () => {
+  it('converts roster times in a fixed-offset zone', () => {
+    expect(zonedTimeToUtc('2025-07-02', '08:00', COLOMBO).toISOString()).toBe('2025-07-02T02:30:00.000Z');
+  });
+
+  it('uses the offset in force on each side of a DST change', () => {
+    expect(zonedTimeToUtc('2025-03-29', '09:00', AMSTERDAM).toISOString()).toBe('2025-03-29T08:00:00.000Z');
+    expect(zonedTimeToUtc('2025-03-30', '09:00', AMSTERDAM).toISOString()).toBe('2025-03-30T07:00:00.000Z');
+  });
+
+  it('moves times skipped by spring-forward past the gap', () => {
+    expect(zonedTimeToUtc('2025-03-09', '02:30', NEW_YORK).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('picks the first occurrence of a repeated fall-back time', () => {
+    expect(zonedTimeToUtc('2025-11-02', '01:30', NEW_YORK).toISOString()).toBe('2025-11-02T05:30:00.000Z');
+  });
+});
+
+describe('overnight shifts across timezones and DST', () => {
+  it('keeps a post-midnight punch on the evening the shift started', () => {
+    // 01:00 on 2 July in Colombo
+    expect(getBusinessDate('2025-07-01T19:30:00.000Z', NIGHT_SHIFT, COLOMBO)).toBe('2025-07-01');
+    expect(getBusinessDate('2025-07-01T19:30:00.000Z', null, COLOMBO)).toBe('2025-07-02');
+  });
+
+  it('shortens a night shift that spans spring-forward by an hour', () => {
+    const window = getShiftWindow('2025-03-08', NIGHT_SHIFT, NEW_YORK);
+
+    expect(window.start.toISOString()).toBe('2025-03-09T03:00:00.000Z');
+    expect(window.end.toISOString()).toBe('2025-03-09T10:00:00.000Z');
+  });
+});
+
+describe('helpers', () => {
+  it('adds days across month and year boundaries', () => {
+    expect(addDaysToDate('2025-03-01', -1)).toBe('2025-02-28');
+    expect(addDaysToDate('2024-12-31', 1)).toBe('2025-01-01');
+  });
+
+  it('validates IANA timezone names', () => {
+    expect(isValidTimeZone(COLOMBO)).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+// Organization Timezone Utilities
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Attendance dates and roster times are wall-clock values in the
+ * organization's timezone, not the device's and not UTC. Every module derives
+ * the attendance date and formats punch times through these helpers so a
+ * 05:00 check-in in Colombo lands on that morning's record wherever the code
+ * runs. The timezone is stored on the `organization` row of `admin_settings`.
+ */
+
+export const ORGANIZATION_SETTING_TYPE = 'organization';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export const isValidTimeZone = (timeZone: string | null | undefined): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const resolveDefaultTimeZone = (): string => {
+  const configured = import.meta.env.VITE_ORG_TIMEZONE;
+  if (isValidTimeZone(configured)) return configured;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+export const DEFAULT_TIMEZONE = resolveDefaultTimeZone();
+
+let organizationTimeZone = DEFAULT_TIMEZONE;
+let loadPromise: Promise<string> | null = null;
+
+export const getOrganizationTimezone = (): string => organizationTimeZone;
+
+export const setOrganizationTimezone = (timeZone: string): void => {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone: ${timeZone}`);
+  }
+  organizationTimeZone = timeZone;
+};
+
+/**
+ * Load the organization timezone once per session. Falls back to the default
+ * when the setting is missing or cannot be read, so attendance keeps working.
+ */
+export const loadOrganizationTimezone = (force = false): Promise<string> => {
+  if (loadPromise && !force) return loadPromise;
+
+  loadPromise = (async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_settings')
+        .select('timezone')
+        .eq('setting_type', ORGANIZATION_SETTING_TYPE)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading organization timezone:', error);
+      } else if (isValidTimeZone(data?.timezone)) {
+        organizationTimeZone = data.timezone;
+      }
+    } catch (error) {
+      console.error('Error loading organization timezone:', error);
+    }
+    return organizationTimeZone;
+  })();
+
+  return loadPromise;
+};
+
+export const saveOrganizationTimezone = async (
+  timeZone: string
+): Promise<{ success: boolean; message: string }> => {
+  if (!isValidTimeZone(timeZone)) {
+    return { success: false, message: `Unknown timezone: ${timeZone}` };
+  }
+
+  try {
+    const { data: existing, error: fetchError } = await supabase
+      .from('admin_settings')
+      .select('id')
+      .eq('setting_type', ORGANIZATION_SETTING_TYPE)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error('Failed to check existing settings');
+    }
+
+    const { error } = existing?.id
+      ? await supabase
+          .from('admin_settings')
+          .update({ timezone: timeZone, updated_at: new Date().toISOString() })
+          .eq('id', existing.id)
+      : await supabase
+          .from('admin_settings')
+          .insert({ setting_type: ORGANIZATION_SETTING_TYPE, timezone: timeZone });
+
+    if (error) {
+      throw new Error('Failed to save organization timezone');
+    }
+
+    organizationTimeZone = timeZone;
+    loadPromise = Promise.resolve(timeZone);
+    return { success: true, message: `Timezone set to ${timeZone}` };
+  } catch (error) {
+    console.error('Error saving organization timezone:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to save organization timezone'
+    };
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const toDate = (value: Date | string | number): Date =>
+  value instanceof Date ? value : new Date(value);
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Wall-clock fields of an instant in the given timezone
+export const getZonedParts = (
+  value: Date | string | number,
+  timeZone: string = organizationTimeZone
+): ZonedParts => {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(toDate(value)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour, // some engines render midnight as 24
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+// Attendance date (yyyy-MM-dd) of an instant in the given timezone
+export const getDateInTimezone = (
+  value: Date | string | number = new Date(),
+  timeZone: string = organizationTimeZone
+): string => {
+  const { year, month, day } = getZonedParts(value, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const getMinutesOfDayInTimezone = (
+  value: Date | string | number,
+  timeZone: string = organizationTimeZone
+): number => {
+  const { hour, minute } = getZonedParts(value, timeZone);
+  return hour * 60 + minute;
+};
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+const getOffset = (instant: number, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Instant at which the clock in `timeZone` reads `date` `time`. Times skipped
+ * by a DST change resolve to the equivalent time after the jump.
+ */
+export const zonedTimeToUtc = (
+  date: string,
+  time: string = '00:00',
+  timeZone: string = organizationTimeZone
+): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours || 0, minutes || 0, seconds || 0);
+
+  const firstGuess = wallClock - getOffset(wallClock, timeZone);
+  const candidate = wallClock - getOffset(firstGuess, timeZone);
+
+  // In a spring-forward gap no instant reads back as the wall-clock time
+  return getOffset(candidate, timeZone) === wallClock - candidate
+    ? new Date(candidate)
+    : new Date(firstGuess);
+};
+
+// Calendar arithmetic on yyyy-MM-dd strings, independent of any timezone
+export const addDaysToDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+};
+
+export const formatTimeInTimezone = (
+  value: Date | string | number | null | undefined,
+  options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' },
+  timeZone: string = organizationTimeZone
+): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return '-';
+  return date.toLocaleTimeString('en-US', { ...options, timeZone });
+};
+
+export const formatDateInTimezone = (
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' },
+  timeZone: string = organizationTimeZone
+): string => toDate(value).toLocaleDateString('en-US', { ...options, timeZone });
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { supabase } from '@/integrations/supabase/client';
+import { mockQuery } from '@/test/supabaseMock';
+import { MAX_VISIT_HOURS, VisitorForm, emptyVisitorForm, registerVisitor, validateVisitor } from './visitorUtils';
+import { parseGatePassQR } from './gatePassUtils';
+
+vi.mock('@/integrations/supabase/client', () => import('@/test/supabaseMock'));
+
+const form = (changes: Partial<VisitorForm> = {}): VisitorForm => ({
+  ...emptyVisitorForm(),
+  full_name: 'Jane Doe',
+  host_employee_id: 'employee-1',
+  id_document_number: 'AB123456',
+  ...changes
+});
+
+describe('visitor validation', () => {
+
+  it('accepts a complete visitor', () => {
+    expect(validateVisitor(form())).toBeNull();
+  });
+
+  it('needs a name, a host and an ID document', () => {
+    expect(validateVisitor(form({ full_name: '  ' }))).toBe('Please enter the visitor\'s name');
+    expect(validateVisitor(form({ host_employee_id: '' }))).toBe('Please choose who they are visiting');
+    expect(validateVisitor(form({ id_document_number: '' }))).toBe('Please enter the ID document number');
+  });
+
+  it('needs a company for vendors and contractors only', () => {
+    expect(validateVisitor(form({ visitor_type: 'contractor' }))).toBe('Please enter the contractor\'s company');
+    expect(validateVisitor(form({ visitor_type: 'vendor', company: 'Acme' }))).toBeNull();
+  });
+
+  it('keeps the pass within the visit limit', () => {
+    expect(validateVisitor(form({ valid_hours: MAX_VISIT_HOURS }))).toBeNull();
+    expect(validateVisitor(form({ valid_hours: 0 }))).not.toBeNull();
+    expect(validateVisitor(form({ valid_hours: MAX_VISIT_HOURS + 1 }))).not.toBeNull();
+  });
+});
+
+describe('registering visitors', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('records nothing for an incomplete form', async () => {
+    expect(await registerVisitor(form({ id_document_number: ' ' }))).toEqual({
+      success: false,
+      message: 'Please enter the ID document number',
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('issues no pass when the visitor could not be logged', async () => {
+    const visitors = mockQuery({ data: null, error: { message: 'new row violates row-level security policy' } });
+    (supabase.from as Mock).mockReturnValue(visitors);
+
+    const result = await registerVisitor(form({ company: ' ', vehicle_plate: ' wp cab-1234 ' }));
+
+    expect(result).toEqual({ success: false, message: 'Failed to register the visitor' });
+    expect(visitors.insert).toHaveBeenCalledWith(expect.objectContaining({ company: null, vehicle_plate: 'WP CAB-1234' }));
+    expect(supabase.from).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('pass QR codes', () => {
+  it('reads plain codes and the old JSON format', () => {
+    expect(parseGatePassQR(' ab12cd34 ')).toBe('AB12CD34');
+    expect(parseGatePassQR('{"id":"1","pass_code":"AB12CD34","type":"gate_pass"}')).toBe('AB12CD34');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseGatePassQR('{not json')).toBeNull();
+    expect(parseGatePassQR('https://example.com')).toBeNull();
+  });
+});
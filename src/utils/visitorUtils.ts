@@ -0,0 +1,138 @@
+// Visitor Utilities
+import { supabase } from '@/integrations/supabase/client';
+import { GatePass, GatePassVisitor } from '@/types';
+import { buildVisitorArrivalNotification, notifyVisitorHost } from './adminNotificationUtils';
+import { createVisitorPass } from './gatePassUtils';
+
+/**
+ * Visitors, vendors and contractors are logged by security as they arrive and
+ * get a time-boxed pass in the same gate_passes table as employees, linked
+ * through visitor_id, so the gate verifies both the same way. Visitor passes
+ * need no approval; the host employee is told of the arrival instead.
+ */
+
+export type VisitorType = GatePassVisitor['visitor_type'];
+
+export const VISITOR_TYPE_LABELS: Record<VisitorType, string> = {
+  visitor: 'Visitor',
+  vendor: 'Vendor',
+  contractor: 'Contractor'
+};
+
+export interface Visitor extends GatePassVisitor {
+  host_employee_id: string;
+  arrived_at: string;
+}
+
+export interface VisitorForm {
+  full_name: string;
+  visitor_type: VisitorType;
+  company: string;
+  host_employee_id: string;
+  id_document_number: string;
+  vehicle_plate: string;
+  purpose: string;
+  photo: string | null;
+  valid_hours: number;
+}
+
+// Longest a visitor pass can run; anyone staying longer gets a new one
+export const MAX_VISIT_HOURS = 12;
+
+export const emptyVisitorForm = (): VisitorForm => ({
+  full_name: '',
+  visitor_type: 'visitor',
+  company: '',
+  host_employee_id: '',
+  id_document_number: '',
+  vehicle_plate: '',
+  purpose: '',
+  photo: null,
+  valid_hours: 4
+});
+
+export const validateVisitor = (form: VisitorForm): string | null => {
+  if (!form.full_name.trim()) return 'Please enter the visitor\'s name';
+  if (!form.host_employee_id) return 'Please choose who they are visiting';
+  if (form.visitor_type !== 'visitor' && !form.company.trim()) {
+    return `Please enter the ${VISITOR_TYPE_LABELS[form.visitor_type].toLowerCase()}'s company`;
+  }
+  if (!form.id_document_number.trim()) return 'Please enter the ID document number';
+  if (!Number.isInteger(form.valid_hours) || form.valid_hours < 1 || form.valid_hours > MAX_VISIT_HOURS) {
+    return `A visitor pass can last from 1 to ${MAX_VISIT_HOURS} hours`;
+  }
+  return null;
+};
+
+const optional = (value: string) => value.trim() || null;
+
+// Logs the arrival, issues the pass and lets the host know
+export const registerVisitor = async (
+  form: VisitorForm
+): Promise<{ success: boolean; message: string; pass?: GatePass }> => {
+  const validationError = validateVisitor(form);
+  if (validationError) {
+    return { success: false, message: validationError };
+  }
+
+  try {
+    const { data: visitor, error } = await supabase
+      .from('visitors')
+      .insert({
+        full_name: form.full_name.trim(),
+        visitor_type: form.visitor_type,
+        company: optional(form.company),
+        host_employee_id: form.host_employee_id,
+        id_document_number: form.id_document_number.trim(),
+        vehicle_plate: optional(form.vehicle_plate)?.toUpperCase() ?? null,
+        purpose: optional(form.purpose),
+        photo: form.photo
+      })
+      .select('id')
+      .single();
+
+    if (error || !visitor) {
+      console.error('Error registering visitor:', error);
+      return { success: false, message: 'Failed to register the visitor' };
+    }
+
+    const pass = await createVisitorPass(
+      visitor.id,
+      form.full_name.trim(),
+      optional(form.purpose) || VISITOR_TYPE_LABELS[form.visitor_type],
+      form.valid_hours
+    );
+
+    // Tell the host without holding up the gate
+    notifyVisitorHost(visitor.id, buildVisitorArrivalNotification({
+      fullName: form.full_name.trim(),
+      company: optional(form.company),
+      purpose: optional(form.purpose),
+      vehiclePlate: optional(form.vehicle_plate),
+      expiresAt: pass.expiresAt
+    }))
+      .then(result => {
+        if (!result.success) console.warn('Visitor host was not notified:', result.message);
+      })
+      .catch(notifyError => console.error('Error notifying visitor host:', notifyError));
+
+    return { success: true, message: `Visitor registered with pass ${pass.passCode}`, pass };
+  } catch (error) {
+    console.error('Error in registerVisitor:', error);
+    return { success: false, message: error instanceof Error ? error.message : 'Failed to register the visitor' };
+  }
+};
+
+export const getRecentVisitors = async (limit = 50): Promise<Visitor[]> => {
+  const { data, error } = await supabase
+    .from('visitors')
+    .select('*, host:host_employee_id (first_name, last_name)')
+    .order('arrived_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching visitors:', error);
+    throw new Error('Failed to load the visitor register');
+  }
+  return (data || []) as unknown as Visitor[];
+};
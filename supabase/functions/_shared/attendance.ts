@@ -0,0 +1,180 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Attendance queries shared by the scheduled reports and the chat bot. Dates
+// are local dates in the organization timezone, like in the app.
+
+export interface StaffMember {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+  home_site_id: string | null;
+}
+
+export interface Site {
+  id: string;
+  name: string;
+  timezone: string;
+  working_days: number[];
+}
+
+export interface SiteAttendance {
+  site: Site | null;
+  total: number;
+  present: number;
+  late: number;
+  onLeave: number;
+  absent: number;
+}
+
+export interface LateArrival {
+  employee: StaffMember;
+  minutes_late: number | null;
+  check_in_time: string | null;
+}
+
+// Same default as the report_schedules migration
+const DEFAULT_TIMEZONE = 'Asia/Colombo';
+
+export const getOrganizationTimezone = async (supabase: SupabaseClient): Promise<string> => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('timezone')
+    .eq('setting_type', 'organization')
+    .maybeSingle();
+
+  if (error) console.error('Error loading organization timezone:', error);
+  return data?.timezone || DEFAULT_TIMEZONE;
+};
+
+export const getLocalDate = (now: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+
+export const formatLocalTime = (value: string | null, timeZone: string): string =>
+  value
+    ? new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' }).format(new Date(value))
+    : '—';
+
+export const formatReportDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+export const getFullName = (employee: { first_name: string; last_name: string }) =>
+  `${employee.first_name} ${employee.last_name}`.trim();
+
+export const getSites = async (supabase: SupabaseClient): Promise<Site[]> => {
+  const { data, error } = await supabase.from('sites').select('id, name, timezone, working_days').order('name');
+  if (error) throw error;
+  return (data || []) as Site[];
+};
+
+// Case-insensitive match on part of a site name, for chat commands
+export const findSite = (sites: Site[], query: string): Site | null => {
+  const wanted = query.trim().toLowerCase();
+  return sites.find(site => site.name.toLowerCase() === wanted) ||
+    sites.find(site => site.name.toLowerCase().includes(wanted)) ||
+    null;
+};
+
+/**
+ * Attendance for one date, excluding employees on a holiday, a rostered off
+ * day or a day their home site does not work, and counting approved leave
+ * separately from absences. `siteId` limits it to one home site; `bySite`
+ * breaks the result down per site for head office.
+ */
+export const getAttendanceForDate = async (supabase: SupabaseClient, date: string, siteId?: string | null) => {
+  let employeeQuery = supabase.from('employees').select('id, first_name, last_name, department_id, home_site_id').eq('status', 'active');
+  if (siteId) employeeQuery = employeeQuery.eq('home_site_id', siteId);
+
+  const [employees, attendance, leave, holidays, rosters, sites] = await Promise.all([
+    employeeQuery,
+    supabase.from('attendance').select('employee_id, status, minutes_late, check_in_time').eq('date', date).order('check_in_time'),
+    supabase.from('leave_requests').select('employee_id').eq('status', 'approved').lte('start_date', date).gte('end_date', date),
+    supabase.from('holidays').select('department_id, site_id').eq('date', date),
+    supabase.from('rosters').select('employee_id, shift_pattern').lte('start_date', date).gte('end_date', date),
+    supabase.from('sites').select('id, name, timezone, working_days').order('name')
+  ]);
+
+  const failed = [employees, attendance, leave, holidays, rosters, sites].find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  const staff = (employees.data || []) as StaffMember[];
+  const staffIds = new Set(staff.map(employee => employee.id));
+
+  // The first session of the day decides whether someone was late
+  const present = new Map<string, { status: string; minutes_late: number | null; check_in_time: string | null }>();
+  (attendance.data || []).forEach(record => {
+    if (staffIds.has(record.employee_id) && !present.has(record.employee_id)) present.set(record.employee_id, record);
+  });
+  const onLeave = new Set((leave.data || []).map(request => request.employee_id));
+  const offDuty = new Set(
+    (rosters.data || [])
+      .filter(roster => (roster.shift_pattern || []).some((day: { date: string; shift: string }) => day?.date === date && day.shift === 'off'))
+      .map(roster => roster.employee_id)
+  );
+  const siteList = (sites.data || []) as Site[];
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  const closedSites = new Set(siteList.filter(site => !site.working_days.includes(weekday)).map(site => site.id));
+  const isHoliday = (employee: StaffMember) =>
+    (holidays.data || []).some(holiday =>
+      (!holiday.department_id || holiday.department_id === employee.department_id) &&
+      (!holiday.site_id || holiday.site_id === employee.home_site_id));
+
+  const isLate = (record: { status: string; minutes_late: number | null }) =>
+    record.status === 'late' || (record.minutes_late || 0) > 0;
+  const isOnLeave = (employee: StaffMember) => onLeave.has(employee.id) && !present.has(employee.id);
+  const isAbsent = (employee: StaffMember) =>
+    !present.has(employee.id) &&
+    !onLeave.has(employee.id) &&
+    !offDuty.has(employee.id) &&
+    !(employee.home_site_id && closedSites.has(employee.home_site_id)) &&
+    !isHoliday(employee);
+
+  const absent = staff.filter(isAbsent);
+  const lateArrivals: LateArrival[] = staff.flatMap(employee => {
+    const record = present.get(employee.id);
+    if (!record || !isLate(record)) return [];
+    return [{ employee, minutes_late: record.minutes_late, check_in_time: record.check_in_time }];
+  });
+
+  const summarize = (members: StaffMember[], site: Site | null): SiteAttendance => ({
+    site,
+    total: members.length,
+    present: members.filter(employee => present.has(employee.id)).length,
+    late: members.filter(employee => {
+      const record = present.get(employee.id);
+      return !!record && isLate(record);
+    }).length,
+    onLeave: members.filter(isOnLeave).length,
+    absent: members.filter(isAbsent).length
+  });
+
+  const bySite = siteList
+    .map(site => summarize(staff.filter(employee => employee.home_site_id === site.id), site))
+    .filter(summary => summary.total > 0);
+  const withoutSite = staff.filter(employee => !employee.home_site_id);
+  if (withoutSite.length > 0) bySite.push(summarize(withoutSite, null));
+
+  return {
+    total: staff.length,
+    present: present.size,
+    late: Array.from(present.values()).filter(isLate).length,
+    onLeave: staff.filter(isOnLeave).length,
+    absent,
+    lateArrivals,
+    bySite
+  };
+};
+
+// One line per site for summaries covering several sites
+export const formatSiteLines = (bySite: SiteAttendance[]): string[] =>
+  bySite.map(summary => {
+    const rate = summary.total > 0 ? ((summary.present / summary.total) * 100).toFixed(1) : '0.0';
+    return `${summary.site?.name || 'No site'}: ${summary.present}/${summary.total} present (${rate}%), ` +
+      `${summary.late} late, ${summary.absent} absent`;
+  });
@@ -0,0 +1,43 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { AppRole } from './roles.ts';
+
+// Role checks for functions called from the app. The caller's access token
+// comes from the Authorization header; the role from user_roles.
+
+export class AuthError extends Error {
+  constructor(message: string, public status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export const requireRole = async (
+  supabase: SupabaseClient,
+  req: Request,
+  roles: AppRole[]
+): Promise<{ userId: string; role: AppRole }> => {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  const { data, error } = token ? await supabase.auth.getUser(token) : { data: { user: null }, error: null };
+  if (error || !data.user) {
+    throw new AuthError('Sign in required', 401);
+  }
+
+  const { data: userRole, error: roleError } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', data.user.id)
+    .maybeSingle();
+  if (roleError) throw roleError;
+
+  if (!userRole || !roles.includes(userRole.role)) {
+    throw new AuthError('You do not have permission for this action', 403);
+  }
+  return { userId: data.user.id, role: userRole.role };
+};
+
+// Scheduled runs: pg_cron sends the service role key, or CRON_SECRET where set
+export const isSchedulerRequest = (req: Request): boolean => {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  const accepted = [Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('CRON_SECRET')].filter(Boolean);
+  return Boolean(token) && accepted.includes(token);
+};
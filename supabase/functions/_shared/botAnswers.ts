@@ -0,0 +1,325 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  findSite,
+  formatLocalTime,
+  formatReportDate,
+  formatSiteLines,
+  getAttendanceForDate,
+  getFullName,
+  getLocalDate,
+  getOrganizationTimezone,
+  getSites
+} from './attendance.ts';
+import { BOT_COMMANDS, BotCommand, parseBotCommand } from './botCommands.ts';
+import { NotificationContent } from './notificationFormat.ts';
+import { sendChatReply } from './notify.ts';
+import { BOT_SCHEDULE_NAME } from './reportSchedule.ts';
+import { normalizeWhatsAppNumber } from './messaging.ts';
+
+// Answers to chat commands, built from the same queries as the scheduled
+// reports. Only admins may ask: their WhatsApp numbers, phone numbers and
+// Telegram chat IDs in admin_settings, plus the Attendance BOT recipients,
+// form the allow-list.
+
+const MAX_WHO_MATCHES = 5;
+
+// A pass that expired more than a day ago is a stale record, not someone still out
+const getOpenPassCutoff = () => new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+const splitContacts = (value: string | null) =>
+  (value || '').split(/[|,]/).map(item => item.trim()).filter(Boolean);
+
+export const isAllowedSender = async (
+  supabase: SupabaseClient,
+  channel: 'whatsapp' | 'telegram',
+  sender: string
+): Promise<boolean> => {
+  const [admins, schedules] = await Promise.all([
+    supabase.from('admin_settings').select('phone, whatsapp, telegram'),
+    supabase.from('report_schedules').select('recipients').eq('name', BOT_SCHEDULE_NAME).eq('channel', channel)
+  ]);
+  if (admins.error) throw admins.error;
+  if (schedules.error) throw schedules.error;
+
+  const scheduled = (schedules.data || []).flatMap(schedule => schedule.recipients || []);
+
+  if (channel === 'telegram') {
+    const chatIds = [...(admins.data || []).flatMap(admin => splitContacts(admin.telegram)), ...scheduled];
+    return chatIds.includes(sender.trim());
+  }
+
+  const number = normalizeWhatsAppNumber(sender);
+  if (!number) return false;
+  const numbers = [
+    ...(admins.data || []).flatMap(admin => [...splitContacts(admin.whatsapp), ...splitContacts(admin.phone)]),
+    ...scheduled
+  ];
+  return numbers.some(candidate => normalizeWhatsAppNumber(candidate) === number);
+};
+
+export const getHelpReply = (): NotificationContent => ({
+  title: 'Dutch Trails BOT',
+  sections: [{
+    heading: 'Commands',
+    lines: BOT_COMMANDS.map(command => `${command.usage} - ${command.description}`)
+  }]
+});
+
+// Without a site this is the head office roll-up, with a line per site
+const answerToday = async (supabase: SupabaseClient, now: Date, timeZone: string, siteQuery: string | null): Promise<NotificationContent> => {
+  const sites = await getSites(supabase);
+  const site = siteQuery ? findSite(sites, siteQuery) : null;
+
+  if (siteQuery && !site) {
+    return {
+      title: 'Attendance Today',
+      sections: [{
+        heading: `No site matches "${siteQuery}"`,
+        lines: sites.map(item => item.name)
+      }]
+    };
+  }
+
+  // "Today" is the site's own date when asking about one site
+  const date = getLocalDate(now, site?.timezone || timeZone);
+  const stats = await getAttendanceForDate(supabase, date, site?.id);
+  const rate = stats.total > 0 ? ((stats.present / stats.total) * 100).toFixed(1) : '0.0';
+  const sections = [{
+    heading: '📊 SUMMARY',
+    lines: [
+      `Total Staff: ${stats.total}`,
+      `Present: ${stats.present} ✅`,
+      `Late Arrivals: ${stats.late} ⏰`,
+      `On Leave: ${stats.onLeave} 🌴`,
+      `Absent: ${stats.absent.length} ❌`,
+      `Attendance Rate: ${rate}%`
+    ]
+  }];
+  if (!site && stats.bySite.length > 1) {
+    sections.push({ heading: '🏢 BY SITE', lines: formatSiteLines(stats.bySite) });
+  }
+
+  return {
+    title: site ? `Attendance Today - ${site.name}` : 'Attendance Today',
+    subtitle: `📅 ${formatReportDate(date)}`,
+    sections
+  };
+};
+
+const answerAbsent = async (
+  supabase: SupabaseClient,
+  date: string,
+  department: string | null
+): Promise<NotificationContent> => {
+  const [stats, departments] = await Promise.all([
+    getAttendanceForDate(supabase, date),
+    supabase.from('departments').select('id, name')
+  ]);
+  if (departments.error) throw departments.error;
+
+  const departmentNames = new Map((departments.data || []).map(item => [item.id, item.name as string]));
+  const matching = department
+    ? (departments.data || []).filter(item => item.name.toLowerCase().includes(department.toLowerCase()))
+    : null;
+
+  if (matching && matching.length === 0) {
+    return {
+      title: 'Absent Today',
+      sections: [{
+        heading: `No department matches "${department}"`,
+        lines: Array.from(departmentNames.values()).sort()
+      }]
+    };
+  }
+
+  const matchingIds = new Set(matching?.map(item => item.id));
+  const absent = matching
+    ? stats.absent.filter(employee => employee.department_id && matchingIds.has(employee.department_id))
+    : stats.absent;
+
+  const byDepartment = new Map<string, string[]>();
+  absent.forEach(employee => {
+    const name = (employee.department_id && departmentNames.get(employee.department_id)) || 'No department';
+    byDepartment.set(name, [...(byDepartment.get(name) || []), getFullName(employee)]);
+  });
+
+  return {
+    title: `Absent Today (${absent.length})`,
+    subtitle: `📅 ${formatReportDate(date)}`,
+    sections: byDepartment.size > 0
+      ? Array.from(byDepartment.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([heading, names]) => ({ heading, lines: names.sort() }))
+      : [{ heading: 'Nobody is absent', lines: ['Everyone scheduled to work is present'] }]
+  };
+};
+
+const answerLate = async (supabase: SupabaseClient, date: string, timeZone: string): Promise<NotificationContent> => {
+  const stats = await getAttendanceForDate(supabase, date);
+  return {
+    title: `Late Today (${stats.lateArrivals.length})`,
+    subtitle: `📅 ${formatReportDate(date)}`,
+    sections: [{
+      heading: '⏰ LATE ARRIVALS',
+      lines: stats.lateArrivals.length > 0
+        ? stats.lateArrivals.map(arrival =>
+          `${getFullName(arrival.employee)} - in at ${formatLocalTime(arrival.check_in_time, timeZone)}` +
+          (arrival.minutes_late ? ` (${arrival.minutes_late} min late)` : ''))
+        : ['Nobody was late']
+    }]
+  };
+};
+
+const answerWho = async (
+  supabase: SupabaseClient,
+  date: string,
+  timeZone: string,
+  query: string
+): Promise<NotificationContent> => {
+  // PostgREST filter syntax uses these characters, so they never reach the query
+  const words = query.toLowerCase().replace(/[,().%*\\]/g, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return getHelpReply();
+
+  const { data, error } = await supabase
+    .from('employees')
+    .select('id, first_name, last_name, status')
+    .or(`first_name.ilike.%${words[0]}%,last_name.ilike.%${words[0]}%`)
+    .order('first_name');
+  if (error) throw error;
+
+  const matches = (data || [])
+    .filter(employee => words.every(word => getFullName(employee).toLowerCase().includes(word)))
+    .slice(0, MAX_WHO_MATCHES);
+
+  if (matches.length === 0) {
+    return { title: 'Who', sections: [{ heading: `No employee matches "${query}"`, lines: ['Try part of a first or last name'] }] };
+  }
+
+  const ids = matches.map(employee => employee.id);
+  const [attendance, leave, passes] = await Promise.all([
+    supabase.from('attendance').select('employee_id, check_in_time, check_out_time, minutes_late')
+      .eq('date', date).in('employee_id', ids).order('check_in_time'),
+    supabase.from('leave_requests').select('employee_id')
+      .eq('status', 'approved').lte('start_date', date).gte('end_date', date).in('employee_id', ids),
+    supabase.from('gate_passes').select('employee_id, exit_time, expected_return_time, reason')
+      .in('employee_id', ids).not('exit_time', 'is', null).is('return_time', null)
+      .gte('expires_at', getOpenPassCutoff())
+  ]);
+  const failed = [attendance, leave, passes].find(result => result.error);
+  if (failed?.error) throw failed.error;
+
+  return {
+    title: 'Who',
+    subtitle: `📅 ${formatReportDate(date)}`,
+    sections: matches.map(employee => {
+      const sessions = (attendance.data || []).filter(record => record.employee_id === employee.id);
+      const lines: string[] = [];
+
+      if (employee.status !== 'active') {
+        lines.push(`Employee status: ${employee.status}`);
+      }
+      if (sessions.length > 0) {
+        const first = sessions[0];
+        const last = sessions[sessions.length - 1];
+        lines.push(
+          `Checked in at ${formatLocalTime(first.check_in_time, timeZone)}` +
+          (first.minutes_late ? ` (${first.minutes_late} min late)` : '')
+        );
+        lines.push(last.check_out_time
+          ? `Checked out at ${formatLocalTime(last.check_out_time, timeZone)}`
+          : 'Still checked in');
+      } else if ((leave.data || []).some(request => request.employee_id === employee.id)) {
+        lines.push('On approved leave');
+      } else {
+        lines.push('Not checked in today');
+      }
+
+      (passes.data || []).filter(pass => pass.employee_id === employee.id).forEach(pass => {
+        lines.push(
+          `Out on gate pass since ${pass.exit_time} (${pass.reason})` +
+          (pass.expected_return_time ? `, expected back ${pass.expected_return_time}` : '')
+        );
+      });
+
+      return { heading: getFullName(employee), lines };
+    })
+  };
+};
+
+const answerPassesOut = async (supabase: SupabaseClient): Promise<NotificationContent> => {
+  const { data, error } = await supabase
+    .from('gate_passes')
+    .select('employee_name, exit_time, expected_return_time, reason')
+    .not('exit_time', 'is', null)
+    .is('return_time', null)
+    .gte('expires_at', getOpenPassCutoff())
+    .order('exit_time');
+  if (error) throw error;
+
+  const passes = data || [];
+  return {
+    title: `Out on Gate Pass (${passes.length})`,
+    sections: [{
+      heading: '🚪 CURRENTLY OUT',
+      lines: passes.length > 0
+        ? passes.map(pass =>
+          `${pass.employee_name} - left ${pass.exit_time}` +
+          (pass.expected_return_time ? `, due back ${pass.expected_return_time}` : '') +
+          ` (${pass.reason})`)
+        : ['Nobody is out on a gate pass']
+    }]
+  };
+};
+
+export const answerBotCommand = async (
+  supabase: SupabaseClient,
+  command: BotCommand | null,
+  now = new Date()
+): Promise<NotificationContent> => {
+  if (!command || command.name === 'help') return getHelpReply();
+
+  const timeZone = await getOrganizationTimezone(supabase);
+  const date = getLocalDate(now, timeZone);
+
+  switch (command.name) {
+    case 'today':
+      return answerToday(supabase, now, timeZone, command.site);
+    case 'absent':
+      return answerAbsent(supabase, date, command.department);
+    case 'late':
+      return answerLate(supabase, date, timeZone);
+    case 'who':
+      return answerWho(supabase, date, timeZone, command.query);
+    case 'passes_out':
+      return answerPassesOut(supabase);
+  }
+};
+
+// Answers one inbound chat message; used by both webhooks
+export const handleBotMessage = async (
+  supabase: SupabaseClient,
+  channel: 'whatsapp' | 'telegram',
+  sender: string,
+  text: string
+): Promise<void> => {
+  if (!(await isAllowedSender(supabase, channel, sender))) {
+    console.warn(`Refusing bot command from unauthorized ${channel} sender ${sender}`);
+    await sendChatReply(supabase, channel, sender, {
+      title: 'Not authorized',
+      sections: [{
+        heading: 'Only admins can query attendance',
+        lines: [`Ask an administrator to add ${channel === 'telegram' ? 'chat ID' : 'number'} ${sender} to the admin settings.`]
+      }]
+    });
+    return;
+  }
+
+  let reply: NotificationContent;
+  try {
+    reply = await answerBotCommand(supabase, parseBotCommand(text));
+  } catch (error) {
+    console.error('Error answering bot command:', error);
+    reply = { title: 'Something went wrong', sections: [{ heading: 'The answer could not be loaded', lines: ['Please try again in a moment.'] }] };
+  }
+  await sendChatReply(supabase, channel, sender, reply);
+};
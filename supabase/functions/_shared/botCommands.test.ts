@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseBotCommand } from './botCommands';
+
+describe('parseBotCommand', () => {
+  it('parses every command with its arguments', () => {
+    expect(parseBotCommand('/today')).toEqual({ name: 'today', site: null });
+    expect(parseBotCommand('/today Galle Fort')).toEqual({ name: 'today', site: 'Galle Fort' });
+    expect(parseBotCommand('/absent')).toEqual({ name: 'absent', department: null });
+    expect(parseBotCommand('/absent  Front Office ')).toEqual({ name: 'absent', department: 'Front Office' });
+    expect(parseBotCommand('/late')).toEqual({ name: 'late' });
+    expect(parseBotCommand('/who Nimal Perera')).toEqual({ name: 'who', query: 'Nimal Perera' });
+    expect(parseBotCommand('/passes out')).toEqual({ name: 'passes_out' });
+    expect(parseBotCommand('/help')).toEqual({ name: 'help' });
+  });
+
+  it('accepts a missing slash, any case and the Telegram @bot suffix', () => {
+    expect(parseBotCommand('Today')).toEqual({ name: 'today', site: null });
+    expect(parseBotCommand('/LATE@DutchTrailsBot')).toEqual({ name: 'late' });
+    expect(parseBotCommand('passes OUT')).toEqual({ name: 'passes_out' });
+  });
+
+  it('rejects unknown commands and missing arguments', () => {
+    expect(parseBotCommand('hello')).toBeNull();
+    expect(parseBotCommand('')).toBeNull();
+    expect(parseBotCommand('/who')).toBeNull();
+    expect(parseBotCommand('/passes')).toBeNull();
+  });
+});
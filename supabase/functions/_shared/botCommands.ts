@@ -0,0 +1,50 @@
+// Chat commands understood by the attendance bot on WhatsApp and Telegram.
+// Parsing is kept free of Deno APIs so it can be unit tested alongside the app.
+
+export type BotCommand =
+  | { name: 'today'; site: string | null }
+  | { name: 'absent'; department: string | null }
+  | { name: 'late' }
+  | { name: 'who'; query: string }
+  | { name: 'passes_out' }
+  | { name: 'help' };
+
+export const BOT_COMMANDS: { usage: string; description: string }[] = [
+  { usage: '/today [site]', description: "Today's attendance summary, by site or for one site" },
+  { usage: '/absent [department]', description: 'Who is absent today, optionally for one department' },
+  { usage: '/late', description: 'Late arrivals today' },
+  { usage: '/who <name>', description: "An employee's attendance and gate pass status today" },
+  { usage: '/passes out', description: 'Employees currently out on a gate pass' },
+  { usage: '/help', description: 'This list' }
+];
+
+/**
+ * Parses a chat message into a command. Commands are case-insensitive, the
+ * leading slash is optional (WhatsApp users often leave it out) and Telegram's
+ * "/late@SomeBot" group form is accepted. Returns null for anything else so
+ * ordinary chatter gets the help text rather than a guess.
+ */
+export const parseBotCommand = (text: string): BotCommand | null => {
+  const [word = '', ...rest] = text.trim().split(/\s+/);
+  const command = word.replace(/^\//, '').replace(/@\w+$/, '').toLowerCase();
+  const args = rest.join(' ').trim();
+
+  switch (command) {
+    case 'today':
+    case 'summary':
+      return { name: 'today', site: args || null };
+    case 'absent':
+      return { name: 'absent', department: args || null };
+    case 'late':
+      return { name: 'late' };
+    case 'who':
+      return args ? { name: 'who', query: args } : null;
+    case 'passes':
+      return args.toLowerCase() === 'out' ? { name: 'passes_out' } : null;
+    case 'help':
+    case 'start':
+      return { name: 'help' };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,65 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { MAX_RETRY_ATTEMPTS, RETRY_DELAY } from './messaging.ts';
+import { NotificationChannel } from './notificationFormat.ts';
+
+// Retry and receipt bookkeeping shared by every channel sender. Each attempt
+// gets a message_receipts row so failures and retries show up in the log.
+
+export interface ReceiptDetails {
+  channel: NotificationChannel;
+  provider: string;
+  recipient: string;
+  template?: string | null;
+  message?: string | null;
+  delivery_id?: string | null;
+}
+
+export const recordReceipt = async (
+  supabase: SupabaseClient,
+  details: ReceiptDetails,
+  outcome: { attempt: number; provider_message_id?: string | null; error?: string }
+) => {
+  const { error } = await supabase.from('message_receipts').insert({
+    channel: details.channel,
+    provider: details.provider,
+    recipient: details.recipient,
+    template: details.template ?? null,
+    message: details.message ?? null,
+    provider_message_id: outcome.provider_message_id ?? null,
+    status: outcome.error ? 'failed' : 'sent',
+    attempt: outcome.attempt,
+    error: outcome.error ?? null,
+    delivery_id: details.delivery_id ?? null
+  });
+  if (error) console.error('Error recording message receipt:', error);
+};
+
+/**
+ * Calls `send` up to MAX_RETRY_ATTEMPTS times, RETRY_DELAY apart, recording a
+ * receipt for every attempt. Resolves with the provider message ID and throws
+ * the last error if every attempt fails.
+ */
+export const sendWithRetry = async (
+  supabase: SupabaseClient,
+  details: ReceiptDetails,
+  send: () => Promise<string | null>
+): Promise<string | null> => {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_RETRY_ATTEMPTS; attempt++) {
+    try {
+      const messageId = await send();
+      await recordReceipt(supabase, details, { attempt, provider_message_id: messageId });
+      return messageId;
+    } catch (error) {
+      lastError = error;
+      await recordReceipt(supabase, details, {
+        attempt,
+        error: error instanceof Error ? error.message : 'Delivery failed'
+      });
+      if (attempt < MAX_RETRY_ATTEMPTS) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+      }
+    }
+  }
+  throw lastError;
+};
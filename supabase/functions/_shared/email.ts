@@ -0,0 +1,82 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import nodemailer from 'npm:nodemailer@6';
+import { SMTP_SETTING_TYPE } from './smtpSettings.ts';
+
+// SMTP sender shared by the edge functions. Settings are read from the
+// `smtp` row of admin_settings with the service role key, so the password
+// never leaves the server. Set EMAIL_PROVIDER=mock to log emails instead.
+
+export interface EmailAttachment {
+  filename: string;
+  // Base64 encoded file contents
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export const getEmailProviderName = () =>
+  Deno.env.get('EMAIL_PROVIDER') === 'mock' ? 'mock' : 'smtp';
+
+export const isValidEmail = (value: string): boolean =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+
+const getSmtpSettings = async (supabase: SupabaseClient) => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('smtp_host, smtp_port, smtp_secure, smtp_user, smtp_pass, smtp_from')
+    .eq('setting_type', SMTP_SETTING_TYPE)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.smtp_host || !data.smtp_user || !data.smtp_pass) {
+    throw new Error('SMTP is not configured');
+  }
+  return data;
+};
+
+const sendSmtpEmail = async (supabase: SupabaseClient, to: string, message: EmailMessage): Promise<string> => {
+  const settings = await getSmtpSettings(supabase);
+  const transporter = nodemailer.createTransport({
+    host: settings.smtp_host,
+    port: settings.smtp_port || (settings.smtp_secure ? 465 : 587),
+    secure: Boolean(settings.smtp_secure),
+    auth: { user: settings.smtp_user, pass: settings.smtp_pass },
+    connectionTimeout: 10000,
+    greetingTimeout: 5000,
+    socketTimeout: 10000
+  });
+
+  const info = await transporter.sendMail({
+    from: settings.smtp_from || settings.smtp_user,
+    to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    attachments: (message.attachments || []).map(attachment => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      encoding: 'base64',
+      contentType: attachment.contentType
+    }))
+  });
+  return info.messageId;
+};
+
+const sendMockEmail = async (to: string, message: EmailMessage): Promise<string> => {
+  console.log(`[mock email] ${to} ${message.subject}`, (message.attachments || []).map(attachment => attachment.filename));
+  return `mock-${crypto.randomUUID()}`;
+};
+
+// One attempt; returns the SMTP message ID
+export const sendEmail = (supabase: SupabaseClient, to: string, message: EmailMessage): Promise<string> => {
+  if (!isValidEmail(to)) {
+    return Promise.reject(new Error(`Invalid email address: ${to}`));
+  }
+  return getEmailProviderName() === 'mock' ? sendMockEmail(to, message) : sendSmtpEmail(supabase, to.trim(), message);
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { formatOverdue, getDueAlertStep } from './gatePassAlerts';
+
+describe('getDueAlertStep', () => {
+  it('is null before the first alert', () => {
+    expect(getDueAlertStep([15, 60], 10)).toBeNull();
+  });
+
+  it('picks the latest step that has passed', () => {
+    expect(getDueAlertStep([0, 30, 120], 0)).toBe(0);
+    expect(getDueAlertStep([0, 30, 120], 45)).toBe(1);
+    expect(getDueAlertStep([0, 30, 120], 500)).toBe(2);
+  });
+
+  it('never alerts without steps', () => {
+    expect(getDueAlertStep([], 500)).toBeNull();
+  });
+});
+
+describe('formatOverdue', () => {
+  it('shows minutes, hours or both', () => {
+    expect(formatOverdue(5)).toBe('5 min');
+    expect(formatOverdue(120)).toBe('2 h');
+    expect(formatOverdue(135)).toBe('2 h 15 min');
+  });
+});
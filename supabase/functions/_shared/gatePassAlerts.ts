@@ -0,0 +1,25 @@
+// When overdue gate pass alerts go out. Kept free of Deno APIs so the rules
+// can be unit tested alongside the app.
+
+// Same default as admin_settings.gate_pass_alert_minutes
+export const DEFAULT_ALERT_MINUTES = [0, 30, 120];
+
+/**
+ * The latest alert step that is due for a return this many minutes overdue,
+ * or null before the first one. Only the latest step is sent, so a monitor
+ * run that was missed does not send a burst of stale alerts afterwards.
+ */
+export const getDueAlertStep = (alertMinutes: number[], overdueMinutes: number): number | null => {
+  let step: number | null = null;
+  alertMinutes.forEach((minutes, index) => {
+    if (overdueMinutes >= minutes) step = index;
+  });
+  return step;
+};
+
+export const formatOverdue = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
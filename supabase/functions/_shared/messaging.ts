@@ -0,0 +1,21 @@
+// Delivery limits and WhatsApp template names. Kept free of Deno APIs so the
+// app's bot sends the same templates, as often, as the edge functions do.
+
+export const MAX_RETRY_ATTEMPTS = 3;
+export const RETRY_DELAY = 5000; // 5 seconds
+
+// Approved WhatsApp message templates
+export const WHATSAPP_TEMPLATES = {
+  dailySummary: 'attendance_daily_summary',
+  absentees: 'attendance_absentees',
+  gatePassAlert: 'gate_pass_alert',
+  gatePassOverdue: 'gate_pass_overdue'
+} as const;
+
+// Local numbers are Sri Lankan by default, like the rest of the app
+export const normalizeWhatsAppNumber = (number: string): string => {
+  let cleaned = number.replace(/\D/g, '');
+  if (cleaned.startsWith('0')) cleaned = cleaned.substring(1);
+  if (!cleaned.startsWith('94')) cleaned = '94' + cleaned;
+  return cleaned.length >= 11 ? cleaned : '';
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Notification,
+  escapeTelegramMarkdown,
+  formatEmailHtml,
+  formatSmsText,
+  formatTelegramText,
+  splitSmsMessage,
+} from './notificationFormat';
+
+const notification: Notification = {
+  title: 'Gate Pass Exit',
+  subtitle: '📅 Tuesday, July 1, 2025',
+  sections: [{ heading: '🚪 A. Perera left at 10:30', lines: ['Reason: Bank (urgent)!'] }],
+  footer: 'This is an automated message from Dutch Attendance BOT.',
+  template: { name: 'gate_pass_alert', parameters: [] },
+};
+
+describe('telegram formatting', () => {
+  it('escapes every MarkdownV2 special character', () => {
+    expect(escapeTelegramMarkdown('a_b*c[d](e)~`>#+-=|{}.!\\')).toBe(
+      'a\\_b\\*c\\[d\\]\\(e\\)\\~\\`\\>\\#\\+\\-\\=\\|\\{\\}\\.\\!\\\\'
+    );
+  });
+
+  it('keeps its own bold markers unescaped', () => {
+    const text = formatTelegramText(notification);
+    expect(text).toContain('*Gate Pass Exit*');
+    expect(text).toContain('*🚪 A\\. Perera left at 10:30*');
+    expect(text).toContain('• Reason: Bank \\(urgent\\)\\!');
+  });
+});
+
+describe('sms formatting', () => {
+  it('drops markup and emoji', () => {
+    expect(formatSmsText(notification)).toBe(
+      'Gate Pass Exit\nTuesday, July 1, 2025\n\n' +
+      'A. Perera left at 10:30:\n- Reason: Bank (urgent)!\n\n' +
+      'This is an automated message from Dutch Attendance BOT.'
+    );
+  });
+
+  it('sends short messages as a single segment', () => {
+    expect(splitSmsMessage('Present: 17')).toEqual(['Present: 17']);
+  });
+
+  it('splits long messages into numbered segments of at most 160 characters', () => {
+    const text = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+    const parts = splitSmsMessage(text);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part, index) => {
+      expect(part.length).toBeLessThanOrEqual(160);
+      expect(part.startsWith(`(${index + 1}/${parts.length}) `)).toBe(true);
+    });
+    expect(parts.map(part => part.replace(/^\(\d+\/\d+\) /, '')).join(' ')).toBe(text);
+  });
+});
+
+describe('email formatting', () => {
+  it('escapes markup in every field', () => {
+    const html = formatEmailHtml({
+      ...notification,
+      sections: [{ heading: 'R&D <team>', lines: ['"Quoted" & <b>bold</b>'] }]
+    });
+    expect(html).toContain('<h1 style="margin:0;font-size:20px">Gate Pass Exit</h1>');
+    expect(html).toContain('R&amp;D &lt;team&gt;');
+    expect(html).toContain('<li>&quot;Quoted&quot; &amp; &lt;b&gt;bold&lt;/b&gt;</li>');
+    expect(html).not.toContain('<b>');
+  });
+});
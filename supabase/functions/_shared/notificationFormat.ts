@@ -0,0 +1,154 @@
+// Per-channel rendering of a notification. Kept free of Deno APIs so the
+// rules can be unit tested alongside the app.
+
+export type NotificationChannel = 'whatsapp' | 'telegram' | 'sms' | 'email';
+
+export interface NotificationSection {
+  heading: string;
+  lines: string[];
+}
+
+// What every channel renders; replies to a chat need nothing more
+export interface NotificationContent {
+  title: string;
+  subtitle?: string;
+  sections: NotificationSection[];
+  footer?: string;
+}
+
+export interface Notification extends NotificationContent {
+  // WhatsApp only allows approved templates for messages the bot starts
+  template: { name: string; parameters: string[] };
+}
+
+export const SMS_SEGMENT_LENGTH = 160;
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+export const WHATSAPP_TEXT_LIMIT = 4096;
+
+export const formatWhatsAppText = (notification: NotificationContent): string =>
+  [
+    `*${notification.title}*` + (notification.subtitle ? `\n${notification.subtitle}` : ''),
+    ...notification.sections.map(section =>
+      `*${section.heading}*\n` + section.lines.map(line => `• ${line}`).join('\n')
+    ),
+    notification.footer
+  ].filter(Boolean).join('\n\n');
+
+// Every character Telegram's MarkdownV2 treats as markup has to be escaped in plain text
+export const escapeTelegramMarkdown = (text: string): string =>
+  text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+
+export const formatTelegramText = (notification: NotificationContent): string =>
+  [
+    `*${escapeTelegramMarkdown(notification.title)}*` +
+      (notification.subtitle ? `\n${escapeTelegramMarkdown(notification.subtitle)}` : ''),
+    ...notification.sections.map(section =>
+      `*${escapeTelegramMarkdown(section.heading)}*\n` +
+      section.lines.map(line => escapeTelegramMarkdown(`• ${line}`)).join('\n')
+    ),
+    notification.footer ? `_${escapeTelegramMarkdown(notification.footer)}_` : ''
+  ].filter(Boolean).join('\n\n');
+
+/**
+ * Splits formatted text between lines so no chunk breaks a Telegram escape
+ * sequence or a bold marker. A single over-long line is cut at the limit.
+ */
+export const splitLongMessage = (text: string, limit: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  text.split('\n').forEach(line => {
+    const next = current ? `${current}\n${line}` : line;
+    if (next.length <= limit) {
+      current = next;
+      return;
+    }
+    if (current) chunks.push(current);
+    current = line.slice(0, limit);
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+// SMS is sent as plain GSM text: no markup, emoji or box drawing characters
+export const formatSmsText = (notification: NotificationContent): string =>
+  [
+    notification.title + (notification.subtitle ? `\n${notification.subtitle}` : ''),
+    ...notification.sections.map(section =>
+      `${section.heading}:\n` + section.lines.map(line => `- ${line}`).join('\n')
+    ),
+    notification.footer
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+    .replace(/[^\x20-\x7E\n£¥èéùìòÇØøÅåÉÄÖÑÜ§äöñüà]/g, '')
+    .split('\n')
+    .map(line => line.replace(/ {2,}/g, ' ').trim())
+    .join('\n')
+    .trim();
+
+/**
+ * Splits text into SMS segments of at most `limit` characters. Multi-part
+ * messages are numbered "(1/3) " and broken at spaces where possible.
+ */
+export const splitSmsMessage = (text: string, limit = SMS_SEGMENT_LENGTH): string[] => {
+  if (text.length <= limit) return [text];
+
+  // Sized for the widest "(n/n) " prefix with the given number of digits
+  const split = (maxParts: number): string[] => {
+    const size = limit - `(${maxParts}/${maxParts}) `.length;
+    const parts: string[] = [];
+    let rest = text;
+    while (rest.length > 0) {
+      if (rest.length <= size) {
+        parts.push(rest);
+        break;
+      }
+      const breakAt = Math.max(rest.lastIndexOf(' ', size), rest.lastIndexOf('\n', size));
+      const end = breakAt > size / 2 ? breakAt : size;
+      parts.push(rest.slice(0, end).trimEnd());
+      rest = rest.slice(end).trimStart();
+    }
+    return parts;
+  };
+
+  let maxParts = 9;
+  let parts = split(maxParts);
+  while (parts.length > maxParts) {
+    maxParts = maxParts * 10 + 9;
+    parts = split(maxParts);
+  }
+  return parts.map((part, index) => `(${index + 1}/${parts.length}) ${part}`);
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Inline styles only; most mail clients strip <style> blocks
+export const formatEmailHtml = (notification: NotificationContent): string => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#1f2937">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden">
+    <div style="background:#2980b9;color:#ffffff;padding:20px 24px">
+      <h1 style="margin:0;font-size:20px">${escapeHtml(notification.title)}</h1>
+      ${notification.subtitle ? `<p style="margin:8px 0 0;font-size:14px">${escapeHtml(notification.subtitle)}</p>` : ''}
+    </div>
+    <div style="padding:8px 24px 16px">
+${notification.sections.map(section => `      <h2 style="font-size:16px;margin:16px 0 8px">${escapeHtml(section.heading)}</h2>
+      <ul style="margin:0;padding-left:20px;font-size:14px;line-height:1.6">
+${section.lines.map(line => `        <li>${escapeHtml(line)}</li>`).join('\n')}
+      </ul>`).join('\n')}
+    </div>
+    ${notification.footer ? `<p style="margin:0;padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#6b7280">${escapeHtml(notification.footer)}</p>` : ''}
+  </div>
+</body>
+</html>`;
+
+// Plain-text alternative sent alongside the HTML
+export const formatEmailText = (notification: NotificationContent): string =>
+  [
+    notification.title + (notification.subtitle ? `\n${notification.subtitle}` : ''),
+    ...notification.sections.map(section =>
+      `${section.heading}\n` + section.lines.map(line => `- ${line}`).join('\n')
+    ),
+    notification.footer
+  ].filter(Boolean).join('\n\n');
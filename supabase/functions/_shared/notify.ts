@@ -0,0 +1,196 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { recordReceipt, sendWithRetry } from './delivery.ts';
+import { EmailAttachment, getEmailProviderName, sendEmail } from './email.ts';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationContent,
+  TELEGRAM_MESSAGE_LIMIT,
+  WHATSAPP_TEXT_LIMIT,
+  formatEmailHtml,
+  formatEmailText,
+  formatSmsText,
+  formatTelegramText,
+  formatWhatsAppText,
+  splitLongMessage,
+  splitSmsMessage
+} from './notificationFormat.ts';
+import { getSmsProviderName, normalizePhoneNumber, sendSmsMessage } from './sms.ts';
+import { getTelegramProviderName, sendTelegramMessage } from './telegram.ts';
+import { normalizeWhatsAppNumber } from './messaging.ts';
+import { getWhatsAppProviderName, sendWhatsAppText, sendWhatsAppWithRetry } from './whatsapp.ts';
+
+// One dispatcher for every notification channel. Each admin_settings row with
+// notification_preferences is an admin, and gets the notification on every
+// channel they enabled and have an address for.
+
+export interface DispatchResult {
+  channel: NotificationChannel;
+  recipient: string;
+  ok: boolean;
+  error?: string;
+}
+
+interface AdminContact {
+  email: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+  telegram: string | null;
+  notification_preferences: Partial<Record<NotificationChannel, boolean>> | null;
+}
+
+// Formats the notification for the channel and sends it, retrying each message
+export const sendNotification = async (
+  supabase: SupabaseClient,
+  channel: NotificationChannel,
+  recipient: string,
+  notification: Notification,
+  options: { delivery_id?: string | null; attachments?: EmailAttachment[] } = {}
+): Promise<void> => {
+  const details = { delivery_id: options.delivery_id };
+  switch (channel) {
+    case 'whatsapp':
+      await sendWhatsAppWithRetry(supabase, recipient, notification.template, {
+        ...details,
+        message: formatWhatsAppText(notification)
+      });
+      return;
+
+    case 'telegram': {
+      const chatId = recipient.trim();
+      for (const chunk of splitLongMessage(formatTelegramText(notification), TELEGRAM_MESSAGE_LIMIT)) {
+        await sendWithRetry(supabase, {
+          ...details,
+          channel,
+          provider: getTelegramProviderName(),
+          recipient: chatId,
+          template: notification.template.name,
+          message: chunk
+        }, () => sendTelegramMessage(chatId, chunk));
+      }
+      return;
+    }
+
+    case 'sms': {
+      const to = normalizePhoneNumber(recipient);
+      if (!to) throw new Error(`Invalid phone number: ${recipient}`);
+      for (const segment of splitSmsMessage(formatSmsText(notification))) {
+        await sendWithRetry(supabase, {
+          ...details,
+          channel,
+          provider: getSmsProviderName(),
+          recipient: to,
+          template: notification.template.name,
+          message: segment
+        }, () => sendSmsMessage(to, segment));
+      }
+      return;
+    }
+
+    case 'email': {
+      const message = {
+        subject: notification.subtitle ? `${notification.title} - ${notification.subtitle}` : notification.title,
+        html: formatEmailHtml(notification),
+        text: formatEmailText(notification),
+        attachments: options.attachments
+      };
+      await sendWithRetry(supabase, {
+        ...details,
+        channel,
+        provider: getEmailProviderName(),
+        recipient: recipient.trim(),
+        template: notification.template.name,
+        message: message.subject
+      }, () => sendEmail(supabase, recipient, message));
+      return;
+    }
+
+    default:
+      throw new Error(`No ${channel} provider is configured`);
+  }
+};
+
+/**
+ * Answers someone who just messaged the bot. Replies are free-form rather than
+ * templates and get a single attempt each, so the webhook that triggered them
+ * returns before the platform gives up and redelivers the message.
+ */
+export const sendChatReply = async (
+  supabase: SupabaseClient,
+  channel: 'whatsapp' | 'telegram',
+  recipient: string,
+  reply: NotificationContent
+): Promise<void> => {
+  const to = channel === 'whatsapp' ? normalizeWhatsAppNumber(recipient) : recipient.trim();
+  if (!to) throw new Error(`Invalid ${channel} recipient: ${recipient}`);
+
+  const chunks = channel === 'whatsapp'
+    ? splitLongMessage(formatWhatsAppText(reply), WHATSAPP_TEXT_LIMIT)
+    : splitLongMessage(formatTelegramText(reply), TELEGRAM_MESSAGE_LIMIT);
+
+  for (const chunk of chunks) {
+    const details = {
+      channel,
+      provider: channel === 'whatsapp' ? getWhatsAppProviderName() : getTelegramProviderName(),
+      recipient: to,
+      message: chunk
+    };
+    try {
+      const messageId = channel === 'whatsapp' ? await sendWhatsAppText(to, chunk) : await sendTelegramMessage(to, chunk);
+      await recordReceipt(supabase, details, { attempt: 1, provider_message_id: messageId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Delivery failed';
+      await recordReceipt(supabase, details, { attempt: 1, error: message });
+      throw error;
+    }
+  }
+};
+
+export const getAdminRecipients = async (
+  supabase: SupabaseClient
+): Promise<{ channel: NotificationChannel; recipient: string }[]> => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('email, phone, whatsapp, telegram, notification_preferences')
+    .not('notification_preferences', 'is', null);
+
+  if (error) throw error;
+
+  const recipients: { channel: NotificationChannel; recipient: string }[] = [];
+  const seen = new Set<string>();
+  const add = (channel: NotificationChannel, value: string | null) => {
+    (value || '').split(/[|,]/).map(item => item.trim()).filter(Boolean).forEach(recipient => {
+      const key = `${channel}:${recipient}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      recipients.push({ channel, recipient });
+    });
+  };
+
+  ((data || []) as AdminContact[]).forEach(admin => {
+    const preferences = admin.notification_preferences || {};
+    if (preferences.whatsapp) add('whatsapp', admin.whatsapp);
+    if (preferences.telegram) add('telegram', admin.telegram);
+    if (preferences.sms) add('sms', admin.phone);
+    if (preferences.email) add('email', admin.email);
+  });
+  return recipients;
+};
+
+export const dispatchToAdmins = async (
+  supabase: SupabaseClient,
+  notification: Notification,
+  options: { channels?: NotificationChannel[]; attachments?: EmailAttachment[] } = {}
+): Promise<DispatchResult[]> => {
+  const recipients = (await getAdminRecipients(supabase))
+    .filter(({ channel }) => !options.channels || options.channels.includes(channel));
+
+  return Promise.all(recipients.map(async ({ channel, recipient }) => {
+    try {
+      await sendNotification(supabase, channel, recipient, notification, { attachments: options.attachments });
+      return { channel, recipient, ok: true };
+    } catch (error) {
+      return { channel, recipient, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+    }
+  }));
+};
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { getDueScheduleDate } from './reportSchedule';
+
+const schedule = {
+  send_time: '18:00',
+  timezone: 'Asia/Colombo',
+  days_of_week: [1, 2, 3, 4, 5],
+  is_active: true,
+};
+
+describe('report schedule due dates', () => {
+  it('is due once the send time has passed in the schedule timezone', () => {
+    // 12:29 UTC is 17:59 in Colombo, 12:30 UTC is 18:00
+    expect(getDueScheduleDate(schedule, new Date('2025-07-01T12:29:00Z'))).toBeNull();
+    expect(getDueScheduleDate(schedule, new Date('2025-07-01T12:30:00Z'))).toBe('2025-07-01');
+  });
+
+  it('uses the local date and weekday rather than UTC', () => {
+    // Friday 20:00 UTC is already Saturday in Colombo
+    expect(getDueScheduleDate(schedule, new Date('2025-07-04T20:00:00Z'))).toBeNull();
+    expect(getDueScheduleDate({ ...schedule, send_time: '01:00', days_of_week: [6] }, new Date('2025-07-04T20:00:00Z'))).toBe('2025-07-05');
+  });
+
+  it('is never due when paused or the timezone is unknown', () => {
+    const now = new Date('2025-07-01T15:00:00Z');
+    expect(getDueScheduleDate({ ...schedule, is_active: false }, now)).toBeNull();
+    expect(getDueScheduleDate({ ...schedule, timezone: 'Mars/Olympus' }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+// When a report schedule is due. Kept free of Deno APIs so the app's bot
+// settings use the same rule as the run_report_schedules function.
+
+// Schedule the Attendance BOT card keeps in sync with its settings
+export const BOT_SCHEDULE_NAME = 'Attendance BOT';
+
+export interface ScheduleTiming {
+  send_time: string;
+  timezone: string;
+  days_of_week: number[];
+  is_active: boolean;
+}
+
+const getLocalParts = (now: Date, timeZone: string) => {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(now).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    minutes: (Number(parts.hour) % 24) * 60 + Number(parts.minute),
+    weekday: new Date(`${date}T00:00:00Z`).getUTCDay()
+  };
+};
+
+/**
+ * Local date (yyyy-MM-dd) the schedule should be delivered for at `now`, or
+ * null if it is not due yet today. Paused schedules and unknown timezones are
+ * never due.
+ */
+export const getDueScheduleDate = (schedule: ScheduleTiming, now: Date = new Date()): string | null => {
+  if (!schedule.is_active) return null;
+
+  let local;
+  try {
+    local = getLocalParts(now, schedule.timezone);
+  } catch {
+    return null;
+  }
+  if (!schedule.days_of_week.includes(local.weekday)) return null;
+
+  const [hour, minute] = schedule.send_time.split(':').map(Number);
+  return local.minutes >= hour * 60 + minute ? local.date : null;
+};
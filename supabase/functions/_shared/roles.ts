@@ -0,0 +1,6 @@
+// The roles a user_roles row can hold. Kept free of Deno APIs so the app and
+// the edge functions check against the same list.
+
+export type AppRole = 'super_admin' | 'hr' | 'department_manager' | 'security_guard' | 'kiosk' | 'employee';
+
+export const APP_ROLES: AppRole[] = ['super_admin', 'hr', 'department_manager', 'security_guard', 'kiosk', 'employee'];
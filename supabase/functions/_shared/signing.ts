@@ -0,0 +1,33 @@
+// Ed25519 signing shared by the badge and gate pass functions. Both use the
+// key in BADGE_SIGNING_PRIVATE_KEY (PKCS8, base64url), so kiosks and guard
+// devices verify either kind of token with VITE_BADGE_PUBLIC_KEYS.
+
+const encodeBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+export const importSigningKey = (privateKeyData: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('pkcs8', decodeBase64Url(privateKeyData), { name: 'Ed25519' }, false, ['sign']);
+
+// `<prefix>.<payload>.<signature>`, with the payload JSON and the signature
+// over `<prefix>.<payload>` both base64url encoded
+export const signToken = async (
+  privateKey: CryptoKey,
+  prefix: string,
+  payload: Record<string, unknown>
+): Promise<string> => {
+  const encodedPayload = encodeBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signingInput = `${prefix}.${encodedPayload}`;
+  const signature = await crypto.subtle.sign('Ed25519', privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
@@ -0,0 +1,47 @@
+// Generic HTTP SMS gateway sender. The gateway is configured with
+// SMS_GATEWAY_URL, SMS_GATEWAY_TOKEN (sent as a bearer token) and an optional
+// SMS_SENDER_ID; it receives JSON { to, from, message } and may return an
+// { id } or { message_id }. Set SMS_PROVIDER=mock to log messages instead.
+
+export const getSmsProviderName = () =>
+  Deno.env.get('SMS_PROVIDER') === 'mock' ? 'mock' : 'sms_gateway';
+
+// Same numbering rules as the WhatsApp sender, in international format without the +
+export const normalizePhoneNumber = (number: string): string => {
+  let cleaned = number.replace(/\D/g, '');
+  if (cleaned.startsWith('0')) cleaned = cleaned.substring(1);
+  if (!cleaned.startsWith('94')) cleaned = '94' + cleaned;
+  return cleaned.length >= 11 ? cleaned : '';
+};
+
+const sendGatewayMessage = async (to: string, message: string): Promise<string | null> => {
+  const url = Deno.env.get('SMS_GATEWAY_URL');
+  const token = Deno.env.get('SMS_GATEWAY_TOKEN');
+  if (!url || !token) {
+    throw new Error('SMS gateway is not configured');
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ to, from: Deno.env.get('SMS_SENDER_ID') || undefined, message })
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body?.error?.message || body?.error || body?.message || `SMS gateway returned ${response.status}`);
+  }
+  return body.id ?? body.message_id ?? null;
+};
+
+const sendMockMessage = async (to: string, message: string): Promise<string> => {
+  console.log(`[mock sms] ${to} (${message.length} chars)\n${message}`);
+  return `mock-${crypto.randomUUID()}`;
+};
+
+// One attempt for one segment; returns the gateway message ID if it gives one
+export const sendSmsMessage = (to: string, message: string): Promise<string | null> =>
+  getSmsProviderName() === 'mock' ? sendMockMessage(to, message) : sendGatewayMessage(to, message);
@@ -0,0 +1,4 @@
+// Where the SMTP settings are stored. Kept free of Deno APIs so the settings
+// page writes the row the send_email function reads.
+
+export const SMTP_SETTING_TYPE = 'smtp';
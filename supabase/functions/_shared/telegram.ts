@@ -0,0 +1,34 @@
+// Telegram Bot API sender. The bot token only lives in the function secrets
+// (TELEGRAM_BOT_TOKEN); set TELEGRAM_PROVIDER=mock to log messages instead.
+// Text must already be MarkdownV2 formatted.
+
+export const getTelegramProviderName = () =>
+  Deno.env.get('TELEGRAM_PROVIDER') === 'mock' ? 'mock' : 'telegram_bot';
+
+const sendBotMessage = async (chatId: string, text: string): Promise<string> => {
+  const token = Deno.env.get('TELEGRAM_BOT_TOKEN');
+  if (!token) {
+    throw new Error('Telegram bot is not configured');
+  }
+
+  const response = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text, parse_mode: 'MarkdownV2' })
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.ok) {
+    throw new Error(body?.description || `Telegram API returned ${response.status}`);
+  }
+  return String(body.result?.message_id ?? '');
+};
+
+const sendMockMessage = async (chatId: string, text: string): Promise<string> => {
+  console.log(`[mock telegram] ${chatId}\n${text}`);
+  return `mock-${crypto.randomUUID()}`;
+};
+
+// One attempt; returns the Telegram message ID
+export const sendTelegramMessage = (chatId: string, text: string): Promise<string> =>
+  getTelegramProviderName() === 'mock' ? sendMockMessage(chatId, text) : sendBotMessage(chatId, text);
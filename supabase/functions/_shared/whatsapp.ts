@@ -0,0 +1,100 @@
+import { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { sendWithRetry } from './delivery.ts';
+import { normalizeWhatsAppNumber } from './messaging.ts';
+
+// WhatsApp Business Cloud API sender shared by the edge functions. The access
+// token only lives in the function secrets (WHATSAPP_ACCESS_TOKEN,
+// WHATSAPP_PHONE_NUMBER_ID). Set WHATSAPP_PROVIDER=mock to log messages
+// instead of calling the API when running the functions locally.
+
+export interface WhatsAppTemplate {
+  name: string;
+  language?: string;
+  parameters: string[];
+}
+
+const GRAPH_API_VERSION = 'v21.0';
+
+export const getWhatsAppProviderName = () =>
+  Deno.env.get('WHATSAPP_PROVIDER') === 'mock' ? 'mock' : 'whatsapp_cloud';
+
+// Template parameters may not contain newlines, tabs or more than four spaces in a row
+export const toTemplateParameter = (value: string | number): string =>
+  String(value).replace(/[\n\t]+/g, ' ').replace(/ {4,}/g, '   ').trim() || '-';
+
+const postCloudMessage = async (message: Record<string, unknown>): Promise<string> => {
+  const token = Deno.env.get('WHATSAPP_ACCESS_TOKEN');
+  const phoneNumberId = Deno.env.get('WHATSAPP_PHONE_NUMBER_ID');
+  if (!token || !phoneNumberId) {
+    throw new Error('WhatsApp Cloud API is not configured');
+  }
+
+  const response = await fetch(`https://graph.facebook.com/${GRAPH_API_VERSION}/${phoneNumberId}/messages`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ messaging_product: 'whatsapp', ...message })
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body?.error?.message || `WhatsApp API returned ${response.status}`);
+  }
+  return body.messages?.[0]?.id ?? null;
+};
+
+const sendCloudMessage = (to: string, template: WhatsAppTemplate): Promise<string> =>
+  postCloudMessage({
+    to,
+    type: 'template',
+    template: {
+      name: template.name,
+      language: { code: template.language || Deno.env.get('WHATSAPP_TEMPLATE_LANGUAGE') || 'en' },
+      components: [{
+        type: 'body',
+        parameters: template.parameters.map(text => ({ type: 'text', text: toTemplateParameter(text) }))
+      }]
+    }
+  });
+
+const sendMockMessage = async (to: string, template: WhatsAppTemplate): Promise<string> => {
+  console.log(`[mock whatsapp] ${to} ${template.name}`, template.parameters);
+  return `mock-${crypto.randomUUID()}`;
+};
+
+// One attempt; returns the provider message ID
+export const sendWhatsAppTemplate = (to: string, template: WhatsAppTemplate): Promise<string> =>
+  getWhatsAppProviderName() === 'mock' ? sendMockMessage(to, template) : sendCloudMessage(to, template);
+
+/**
+ * Free-form text, which WhatsApp only accepts within 24 hours of the
+ * recipient's last message. Used to answer bot commands. One attempt.
+ */
+export const sendWhatsAppText = async (to: string, text: string): Promise<string> => {
+  if (getWhatsAppProviderName() === 'mock') {
+    console.log(`[mock whatsapp] ${to}\n${text}`);
+    return `mock-${crypto.randomUUID()}`;
+  }
+  return postCloudMessage({ to, type: 'text', text: { body: text } });
+};
+
+// Sends with retries, recording a receipt for every attempt
+export const sendWhatsAppWithRetry = async (
+  supabase: SupabaseClient,
+  recipient: string,
+  template: WhatsAppTemplate,
+  details: { message?: string | null; delivery_id?: string | null } = {}
+): Promise<string | null> => {
+  const to = normalizeWhatsAppNumber(recipient);
+  if (!to) throw new Error(`Invalid WhatsApp number: ${recipient}`);
+
+  return sendWithRetry(supabase, {
+    ...details,
+    channel: 'whatsapp',
+    provider: getWhatsAppProviderName(),
+    recipient: to,
+    template: template.name
+  }, () => sendWhatsAppTemplate(to, template));
+};
@@ -0,0 +1,72 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { APP_ROLES } from '../_shared/roles.ts';
+
+// Invites a user by email and gives them a role. Only super admins may call
+// it; inviting needs the service role key, which never reaches the browser.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    await requireRole(supabase, req, ['super_admin']);
+
+    const { email, role, departmentId, employeeId, redirectTo } = await req.json();
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      return jsonResponse({ error: 'A valid email address is required' }, 400);
+    }
+    if (!APP_ROLES.includes(role)) {
+      return jsonResponse({ error: 'Unknown role' }, 400);
+    }
+    if (role === 'department_manager' && !departmentId) {
+      return jsonResponse({ error: 'Department managers need a department' }, 400);
+    }
+    if (role === 'employee' && !employeeId) {
+      return jsonResponse({ error: 'Employee accounts need an employee' }, 400);
+    }
+
+    const { data, error } = await supabase.auth.admin.inviteUserByEmail(email.trim(), { redirectTo });
+    if (error || !data.user) {
+      return jsonResponse({ error: error?.message || 'Failed to invite user' }, 400);
+    }
+
+    const { error: roleError } = await supabase.from('user_roles').upsert({
+      user_id: data.user.id,
+      email: email.trim().toLowerCase(),
+      role,
+      department_id: role === 'department_manager' ? departmentId : null,
+      employee_id: role === 'employee' ? employeeId : null,
+      updated_at: new Date().toISOString()
+    });
+    if (roleError) throw roleError;
+
+    return jsonResponse({ userId: data.user.id });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error inviting user:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to invite user' }, 500);
+  }
+});
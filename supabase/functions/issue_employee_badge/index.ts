@@ -0,0 +1,101 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { importSigningKey, signToken } from '../_shared/signing.ts';
+
+// Issues a signed employee badge. The Ed25519 private key only lives in the
+// function secrets (BADGE_SIGNING_PRIVATE_KEY, PKCS8 base64url); kiosks verify
+// with the matching public key configured as VITE_BADGE_PUBLIC_KEYS.
+const SIGNED_BADGE_PREFIX = 'EMP2';
+const SIGNED_BADGE_VERSION = 1;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+// Short, human readable serial printed under the QR code
+const generateSerial = (): string => {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  return 'B' + Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { employeeId } = await req.json();
+    if (!employeeId) {
+      return jsonResponse({ error: 'Employee ID is required' }, 400);
+    }
+
+    const keyId = Deno.env.get('BADGE_SIGNING_KEY_ID');
+    const privateKeyData = Deno.env.get('BADGE_SIGNING_PRIVATE_KEY');
+    if (!keyId || !privateKeyData) {
+      return jsonResponse({ error: 'Badge signing is not configured' }, 500);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    await requireRole(supabaseClient, req, ['super_admin', 'hr']);
+
+    const { data: employee, error: employeeError } = await supabaseClient
+      .from('employees')
+      .select('id, status')
+      .eq('id', employeeId)
+      .maybeSingle();
+
+    if (employeeError) throw employeeError;
+    if (!employee || employee.status !== 'active') {
+      return jsonResponse({ error: 'Employee not found or not active' }, 404);
+    }
+
+    const privateKey = await importSigningKey(privateKeyData);
+
+    const serial = generateSerial();
+    const payload = {
+      v: SIGNED_BADGE_VERSION,
+      eid: employee.id,
+      iat: new Date().toISOString().split('T')[0],
+      kid: keyId,
+      sn: serial
+    };
+
+    const qrData = await signToken(privateKey, SIGNED_BADGE_PREFIX, payload);
+
+    const { data: badge, error: insertError } = await supabaseClient
+      .from('employee_badges')
+      .insert({
+        employee_id: employee.id,
+        serial,
+        key_id: keyId,
+        qr_data: qrData
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    return jsonResponse({ badge });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error issuing employee badge:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to issue badge' }, 500);
+  }
+});
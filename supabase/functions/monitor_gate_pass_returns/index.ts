@@ -0,0 +1,162 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { isSchedulerRequest } from '../_shared/auth.ts';
+import { DEFAULT_ALERT_MINUTES, formatOverdue, getDueAlertStep } from '../_shared/gatePassAlerts.ts';
+import { Notification } from '../_shared/notificationFormat.ts';
+import { DispatchResult, dispatchToAdmins, sendNotification } from '../_shared/notify.ts';
+import { WHATSAPP_TEMPLATES } from '../_shared/messaging.ts';
+
+// Alerts about employees who left on a gate pass and are overdue back.
+// Called by pg_cron every five minutes with the service role key (see the
+// gate_pass_overdue_alerts migration); other callers get a 401. The first
+// alert goes by email to whoever approved the pass and to the security
+// guards; each later step in gate_pass_alert_minutes repeats it and also
+// escalates to the admins on their notification channels. A step is claimed
+// in gate_pass_alerts before it is sent, so overlapping runs never send it
+// twice.
+
+interface OutsidePass {
+  id: string;
+  employee_name: string;
+  reason: string;
+  exit_time: string;
+  expected_return_time: string | null;
+  exited_at: string;
+  return_due_at: string;
+  reviewed_by: string | null;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const getAlertMinutes = async (supabase: SupabaseClient): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from('admin_settings')
+    .select('gate_pass_alert_minutes')
+    .eq('setting_type', 'organization')
+    .maybeSingle();
+  if (error) throw error;
+  return data?.gate_pass_alert_minutes || DEFAULT_ALERT_MINUTES;
+};
+
+const buildNotification = (pass: OutsidePass, overdueMinutes: number, step: number): Notification => {
+  const overdue = formatOverdue(overdueMinutes);
+  return {
+    title: step === 0 ? '⏰ Gate Pass Return Overdue' : '🚨 Gate Pass Return Still Overdue',
+    sections: [{
+      heading: `${pass.employee_name} is ${overdue} late back`,
+      lines: [
+        `Left at: ${pass.exit_time}`,
+        `Expected back: ${pass.expected_return_time}`,
+        `Reason: ${pass.reason}`
+      ]
+    }],
+    footer: 'This is an automated message from Dutch Attendance BOT.',
+    template: {
+      name: WHATSAPP_TEMPLATES.gatePassOverdue,
+      parameters: [pass.employee_name, overdue, pass.expected_return_time || '', pass.reason]
+    }
+  };
+};
+
+// The approver and every security guard, at the address they sign in with
+const getAlertEmails = async (supabase: SupabaseClient, pass: OutsidePass): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('email')
+    .or(pass.reviewed_by ? `role.eq.security_guard,user_id.eq.${pass.reviewed_by}` : 'role.eq.security_guard');
+  if (error) throw error;
+  return [...new Set((data || []).map(row => row.email as string).filter(Boolean))];
+};
+
+const sendAlert = async (
+  supabase: SupabaseClient,
+  pass: OutsidePass,
+  overdueMinutes: number,
+  step: number
+): Promise<boolean> => {
+  // Claim the step first; a conflict means it was already sent for this trip
+  const { data: alert, error: claimError } = await supabase
+    .from('gate_pass_alerts')
+    .insert({ gate_pass_id: pass.id, exited_at: pass.exited_at, step, overdue_minutes: overdueMinutes })
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    if (claimError.code === '23505') return false;
+    throw claimError;
+  }
+
+  const notification = buildNotification(pass, overdueMinutes, step);
+  const results: DispatchResult[] = await Promise.all((await getAlertEmails(supabase, pass)).map(async email => {
+    try {
+      await sendNotification(supabase, 'email', email, notification);
+      return { channel: 'email' as const, recipient: email, ok: true };
+    } catch (error) {
+      return { channel: 'email' as const, recipient: email, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+    }
+  }));
+  if (step > 0) {
+    results.push(...await dispatchToAdmins(supabase, notification));
+  }
+
+  await supabase.from('gate_pass_alerts').update({ results }).eq('id', alert!.id);
+  return true;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!isSchedulerRequest(req)) {
+    return jsonResponse({ error: 'Scheduler credentials required' }, 401);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = new Date();
+    const { data: passes, error } = await supabase
+      .from('gate_passes')
+      .select('id, employee_name, reason, exit_time, expected_return_time, exited_at, return_due_at, reviewed_by')
+      .not('employee_id', 'is', null)
+      .not('exit_time', 'is', null)
+      .is('return_time', null)
+      .lte('return_due_at', now.toISOString());
+
+    if (error) throw error;
+
+    const alertMinutes = await getAlertMinutes(supabase);
+    let sent = 0;
+    for (const pass of (passes || []) as OutsidePass[]) {
+      const overdueMinutes = Math.floor((now.getTime() - new Date(pass.return_due_at).getTime()) / 60000);
+      const step = getDueAlertStep(alertMinutes, overdueMinutes);
+      if (step === null) continue;
+      try {
+        if (await sendAlert(supabase, pass, overdueMinutes, step)) sent++;
+      } catch (alertError) {
+        console.error(`Error sending overdue alert for gate pass ${pass.id}:`, alertError);
+      }
+    }
+
+    return jsonResponse({ sent });
+  } catch (error) {
+    console.error('Error monitoring gate pass returns:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to monitor gate pass returns' }, 500);
+  }
+});
@@ -0,0 +1,59 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { dispatchToAdmins } from '../_shared/notify.ts';
+import { Notification } from '../_shared/notificationFormat.ts';
+
+// Sends a notification built by the app (daily summary, absent list, gate
+// pass alert) to every admin on the channels they enabled.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const isNotification = (value: unknown): value is Notification => {
+  const notification = value as Notification;
+  return typeof notification?.title === 'string' &&
+    Array.isArray(notification.sections) &&
+    typeof notification.template?.name === 'string' &&
+    Array.isArray(notification.template.parameters);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { notification } = await req.json();
+    if (!isNotification(notification)) {
+      return jsonResponse({ error: 'A notification with a title, sections and template is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    // Guards trigger gate pass alerts; kiosks never notify anyone
+    await requireRole(supabase, req, ['super_admin', 'hr', 'department_manager', 'security_guard']);
+
+    const results = await dispatchToAdmins(supabase, notification);
+    return jsonResponse({ results });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error notifying admins:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to notify admins' }, 500);
+  }
+});
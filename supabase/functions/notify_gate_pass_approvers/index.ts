@@ -0,0 +1,99 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { sendNotification } from '../_shared/notify.ts';
+import { Notification } from '../_shared/notificationFormat.ts';
+
+// Emails a new gate pass request to the people who can approve it: the
+// department heads of the employee's department, or HR and super admins when
+// nobody but the requester heads it. Approvers get it at the address they
+// sign in with.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const isNotification = (value: unknown): value is Notification => {
+  const notification = value as Notification;
+  return typeof notification?.title === 'string' &&
+    Array.isArray(notification.sections) &&
+    typeof notification.template?.name === 'string' &&
+    Array.isArray(notification.template.parameters);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { passId, notification } = await req.json();
+    if (typeof passId !== 'string' || !isNotification(notification)) {
+      return jsonResponse({ error: 'A passId and a notification are required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    await requireRole(supabase, req, ['super_admin', 'hr', 'department_manager']);
+
+    const { data: pass, error: passError } = await supabase
+      .from('gate_passes')
+      .select('id, status, created_by, employees (department_id)')
+      .eq('id', passId)
+      .maybeSingle();
+    if (passError) throw passError;
+    if (!pass || pass.status !== 'pending') {
+      return jsonResponse({ error: 'No pending gate pass with that id' }, 404);
+    }
+
+    const departmentId = (pass.employees as { department_id: string | null } | null)?.department_id;
+    const { data: managers, error: managerError } = departmentId
+      ? await supabase
+        .from('user_roles')
+        .select('email')
+        .eq('role', 'department_manager')
+        .eq('department_id', departmentId)
+        .neq('user_id', pass.created_by)
+      : { data: [], error: null };
+    if (managerError) throw managerError;
+
+    let approvers = managers || [];
+    if (approvers.length === 0) {
+      const { data: admins, error: adminError } = await supabase
+        .from('user_roles')
+        .select('email')
+        .in('role', ['super_admin', 'hr'])
+        .neq('user_id', pass.created_by);
+      if (adminError) throw adminError;
+      approvers = admins || [];
+    }
+
+    const results = await Promise.all(approvers.map(async ({ email }) => {
+      try {
+        await sendNotification(supabase, 'email', email, notification);
+        return { channel: 'email', recipient: email, ok: true };
+      } catch (error) {
+        return { channel: 'email', recipient: email, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+      }
+    }));
+    return jsonResponse({ results });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error notifying gate pass approvers:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to notify approvers' }, 500);
+  }
+});
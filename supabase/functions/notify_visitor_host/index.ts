@@ -0,0 +1,82 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { NotificationChannel } from '../_shared/notificationFormat.ts';
+import { sendNotification } from '../_shared/notify.ts';
+import { Notification } from '../_shared/notificationFormat.ts';
+
+// Tells an employee that their visitor has arrived at the gate, by email and
+// SMS to the contact details on their employee record.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const isNotification = (value: unknown): value is Notification => {
+  const notification = value as Notification;
+  return typeof notification?.title === 'string' &&
+    Array.isArray(notification.sections) &&
+    typeof notification.template?.name === 'string' &&
+    Array.isArray(notification.template.parameters);
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { visitorId, notification } = await req.json();
+    if (typeof visitorId !== 'string' || !isNotification(notification)) {
+      return jsonResponse({ error: 'A visitorId and a notification are required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    await requireRole(supabase, req, ['super_admin', 'hr', 'security_guard']);
+
+    const { data: visitor, error } = await supabase
+      .from('visitors')
+      .select('id, host:host_employee_id (email, phone)')
+      .eq('id', visitorId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!visitor) {
+      return jsonResponse({ error: 'Visitor not found' }, 404);
+    }
+
+    const host = visitor.host as { email: string | null; phone: string | null } | null;
+    const recipients: { channel: NotificationChannel; recipient: string }[] = [
+      ...(host?.email ? [{ channel: 'email' as const, recipient: host.email }] : []),
+      ...(host?.phone ? [{ channel: 'sms' as const, recipient: host.phone }] : [])
+    ];
+
+    const results = await Promise.all(recipients.map(async ({ channel, recipient }) => {
+      try {
+        await sendNotification(supabase, channel, recipient, notification);
+        return { channel, recipient, ok: true };
+      } catch (sendError) {
+        return { channel, recipient, ok: false, error: sendError instanceof Error ? sendError.message : 'Delivery failed' };
+      }
+    }));
+    return jsonResponse({ results });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error notifying visitor host:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to notify the host' }, 500);
+  }
+});
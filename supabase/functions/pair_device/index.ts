@@ -0,0 +1,98 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Redeems a one-time pairing code for a kiosk tablet. The code is the only
+// credential, so the tablet calls this before anyone has signed in on it.
+// Each device gets its own kiosk-role account; the random password returned
+// here is the device token, and revoking the device takes the role away.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const createDeviceToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { code, userAgent } = await req.json();
+    if (typeof code !== 'string' || !code.trim()) {
+      return jsonResponse({ error: 'A pairing code is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Claim the code first so two tablets cannot redeem it at once
+    const { data: pairing, error: claimError } = await supabase
+      .from('kiosk_pairing_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('code', code.trim().toUpperCase())
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .select('code, name, site_id, created_by, site:site_id (name)')
+      .maybeSingle();
+    if (claimError) throw claimError;
+    if (!pairing) {
+      return jsonResponse({ error: 'This pairing code is invalid, used or expired' }, 404);
+    }
+
+    const deviceId = crypto.randomUUID();
+    const email = `kiosk-${deviceId}@devices.invalid`;
+    const token = createDeviceToken();
+
+    const { data: created, error: userError } = await supabase.auth.admin.createUser({
+      email,
+      password: token,
+      email_confirm: true,
+      user_metadata: { kiosk_device_id: deviceId }
+    });
+    if (userError || !created.user) throw userError ?? new Error('Failed to create device account');
+
+    const { error: deviceError } = await supabase.from('kiosk_devices').insert({
+      id: deviceId,
+      user_id: created.user.id,
+      name: pairing.name,
+      site_id: pairing.site_id,
+      paired_by: pairing.created_by,
+      health: typeof userAgent === 'string' ? { user_agent: userAgent } : {}
+    });
+    if (deviceError) throw deviceError;
+
+    const { error: roleError } = await supabase.from('user_roles').insert({
+      user_id: created.user.id,
+      email,
+      role: 'kiosk'
+    });
+    if (roleError) throw roleError;
+
+    await supabase.from('kiosk_pairing_codes').update({ device_id: deviceId }).eq('code', pairing.code);
+
+    return jsonResponse({
+      device: { id: deviceId, name: pairing.name, site: pairing.site?.name ?? '' },
+      email,
+      token
+    });
+  } catch (error) {
+    console.error('Error pairing device:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to pair device' }, 500);
+  }
+});
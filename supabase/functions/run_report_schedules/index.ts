@@ -0,0 +1,222 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, isSchedulerRequest, requireRole } from '../_shared/auth.ts';
+import { formatReportDate, formatSiteLines, getAttendanceForDate } from '../_shared/attendance.ts';
+import { Notification, formatWhatsAppText } from '../_shared/notificationFormat.ts';
+import { sendNotification } from '../_shared/notify.ts';
+import { getDueScheduleDate } from '../_shared/reportSchedule.ts';
+import { WHATSAPP_TEMPLATES } from '../_shared/messaging.ts';
+
+// Sends every report schedule that is due and records each run in
+// report_deliveries. Called by pg_cron every five minutes with the service
+// role key (see the report_schedules migration), or by an HR admin from the
+// bot dashboard to send what is already due. A delivery row is claimed
+// before anything is sent and (schedule_id, scheduled_for) is unique, so a
+// report goes out at most once per local date even if runs overlap. A run
+// that fails part way is logged and not retried.
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  report_type: 'daily_summary' | 'absentees';
+  channel: 'whatsapp' | 'email' | 'telegram' | 'sms';
+  recipients: string[];
+  send_time: string;
+  timezone: string;
+  days_of_week: number[];
+  is_active: boolean;
+  // Limits the report to employees based at one site; null covers every site
+  site_id: string | null;
+  site: { name: string } | null;
+}
+
+interface DeliveryResult {
+  recipient: string;
+  ok: boolean;
+  error?: string;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const buildNotification = async (
+  supabase: SupabaseClient,
+  schedule: ReportSchedule,
+  date: string
+): Promise<Notification> => {
+  const stats = await getAttendanceForDate(supabase, date, schedule.site_id);
+  const footer = 'This is an automated message from Dutch Attendance BOT.';
+  const title = schedule.site ? `Dutch Trails Report - ${schedule.site.name}` : 'Dutch Trails Report';
+
+  if (schedule.report_type === 'absentees') {
+    const names = stats.absent.map(employee => `${employee.first_name} ${employee.last_name}`);
+    return {
+      title,
+      subtitle: `📅 Date: ${formatReportDate(date)}`,
+      sections: [{
+        heading: `❌ ABSENT EMPLOYEES (${stats.absent.length})`,
+        lines: names.length > 0 ? names : ['Everyone scheduled to work is present']
+      }],
+      footer,
+      template: {
+        name: WHATSAPP_TEMPLATES.absentees,
+        parameters: [formatReportDate(date), String(stats.absent.length), names.join(', ') || 'None']
+      }
+    };
+  }
+
+  const rate = stats.total > 0 ? ((stats.present / stats.total) * 100).toFixed(1) : '0.0';
+  return {
+    title,
+    subtitle: `📅 Date: ${formatReportDate(date)}`,
+    sections: [
+      {
+        heading: '📊 ATTENDANCE SUMMARY',
+        lines: [
+          `Total Staff: ${stats.total}`,
+          `Present: ${stats.present} ✅`,
+          `Late Arrivals: ${stats.late} ⏰`,
+          `On Leave: ${stats.onLeave} 🌴`,
+          `Absent: ${stats.absent.length} ❌`
+        ]
+      },
+      { heading: '📈 PERFORMANCE', lines: [`Attendance Rate: ${rate}%`] },
+      // Head office roll-up: one line per site when the report covers several
+      ...(!schedule.site_id && stats.bySite.length > 1
+        ? [{ heading: '🏢 BY SITE', lines: formatSiteLines(stats.bySite) }]
+        : [])
+    ],
+    footer,
+    template: {
+      name: WHATSAPP_TEMPLATES.dailySummary,
+      parameters: [
+        formatReportDate(date),
+        String(stats.total),
+        String(stats.present),
+        String(stats.late),
+        String(stats.onLeave),
+        String(stats.absent.length),
+        `${rate}%`
+      ]
+    }
+  };
+};
+
+const deliver = async (
+  supabase: SupabaseClient,
+  schedule: ReportSchedule,
+  notification: Notification,
+  deliveryId: string
+): Promise<DeliveryResult[]> =>
+  Promise.all(schedule.recipients.map(async recipient => {
+    try {
+      await sendNotification(supabase, schedule.channel, recipient, notification, { delivery_id: deliveryId });
+      return { recipient, ok: true };
+    } catch (error) {
+      return { recipient, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+    }
+  }));
+
+const runSchedule = async (
+  supabase: SupabaseClient,
+  schedule: ReportSchedule,
+  scheduledFor: string
+): Promise<boolean> => {
+  // Claim the run first; a conflict means this date was already handled
+  const { data: delivery, error: claimError } = await supabase
+    .from('report_deliveries')
+    .insert({
+      schedule_id: schedule.id,
+      scheduled_for: scheduledFor,
+      channel: schedule.channel,
+      recipients: schedule.recipients
+    })
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    if (claimError.code === '23505') return false;
+    throw claimError;
+  }
+
+  let message: string | null = null;
+  try {
+    const notification = await buildNotification(supabase, schedule, scheduledFor);
+    message = formatWhatsAppText(notification);
+    const results = await deliver(supabase, schedule, notification, delivery!.id);
+    const sent = results.filter(result => result.ok).length;
+
+    await supabase
+      .from('report_deliveries')
+      .update({
+        status: sent === results.length ? 'sent' : sent > 0 ? 'partial' : 'failed',
+        message,
+        results,
+        error: sent === results.length ? null : results.find(result => !result.ok)?.error || null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', delivery!.id);
+  } catch (error) {
+    console.error(`Error running report schedule ${schedule.name}:`, error);
+    await supabase
+      .from('report_deliveries')
+      .update({
+        status: 'failed',
+        message,
+        error: error instanceof Error ? error.message : 'Failed to build or send the report',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', delivery!.id);
+  }
+  return true;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    if (!isSchedulerRequest(req)) {
+      await requireRole(supabase, req, ['super_admin', 'hr']);
+    }
+
+    const { data: schedules, error } = await supabase
+      .from('report_schedules')
+      .select('*, site:site_id (name)')
+      .eq('is_active', true);
+
+    if (error) throw error;
+
+    const now = new Date();
+    let processed = 0;
+    for (const schedule of (schedules || []) as ReportSchedule[]) {
+      const scheduledFor = getDueScheduleDate(schedule, now);
+      if (!scheduledFor || schedule.recipients.length === 0) continue;
+      if (await runSchedule(supabase, schedule, scheduledFor)) processed++;
+    }
+
+    return jsonResponse({ processed });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error running report schedules:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to run report schedules' }, 500);
+  }
+});
@@ -0,0 +1,108 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { EmailAttachment, isValidEmail, sendEmail } from '../_shared/email.ts';
+import { Notification, formatEmailHtml, formatEmailText } from '../_shared/notificationFormat.ts';
+import { DispatchResult, dispatchToAdmins, sendNotification } from '../_shared/notify.ts';
+
+// Emails a report built by the app, optionally with PDF attachments, to the
+// given addresses or to every admin with email notifications enabled.
+// `{ test: { to } }` sends a test email with the stored SMTP settings.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Edge function requests are capped well above this, but mail servers are not
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const isNotification = (value: unknown): value is Notification => {
+  const notification = value as Notification;
+  return typeof notification?.title === 'string' &&
+    Array.isArray(notification.sections) &&
+    typeof notification.template?.name === 'string' &&
+    Array.isArray(notification.template.parameters);
+};
+
+const isAttachment = (value: unknown): value is EmailAttachment => {
+  const attachment = value as EmailAttachment;
+  return typeof attachment?.filename === 'string' && typeof attachment.content === 'string';
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { test, notification, attachments = [], to } = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    await requireRole(supabase, req, ['super_admin', 'hr', 'department_manager']);
+
+    if (test) {
+      if (typeof test.to !== 'string' || !isValidEmail(test.to)) {
+        return jsonResponse({ error: 'A valid test recipient is required' }, 400);
+      }
+      const message = {
+        title: 'SMTP Test',
+        subtitle: new Date().toUTCString(),
+        sections: [{ heading: 'Email delivery is working', lines: ['Attendance reports can now be sent by email.'] }],
+        footer: 'This is an automated message from Dutch Attendance BOT.'
+      };
+      const messageId = await sendEmail(supabase, test.to, {
+        subject: 'Dutch Trails BOT: SMTP test',
+        html: formatEmailHtml(message),
+        text: formatEmailText(message)
+      });
+      return jsonResponse({ messageId });
+    }
+
+    if (!isNotification(notification)) {
+      return jsonResponse({ error: 'A notification with a title, sections and template is required' }, 400);
+    }
+    if (!Array.isArray(attachments) || !attachments.every(isAttachment)) {
+      return jsonResponse({ error: 'Attachments need a filename and base64 content' }, 400);
+    }
+    // Base64 is four characters for every three bytes
+    const size = attachments.reduce((total: number, attachment: EmailAttachment) => total + attachment.content.length * 0.75, 0);
+    if (size > MAX_ATTACHMENT_BYTES) {
+      return jsonResponse({ error: 'Attachments are larger than 10 MB' }, 413);
+    }
+
+    let results: DispatchResult[];
+    if (Array.isArray(to) && to.length > 0) {
+      results = await Promise.all(to.map(async (recipient: string) => {
+        try {
+          await sendNotification(supabase, 'email', recipient, notification, { attachments });
+          return { channel: 'email' as const, recipient, ok: true };
+        } catch (error) {
+          return { channel: 'email' as const, recipient, ok: false, error: error instanceof Error ? error.message : 'Delivery failed' };
+        }
+      }));
+    } else {
+      results = await dispatchToAdmins(supabase, notification, { channels: ['email'], attachments });
+    }
+
+    return jsonResponse({ results });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error sending email:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to send email' }, 500);
+  }
+});
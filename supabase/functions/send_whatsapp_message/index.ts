@@ -0,0 +1,71 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { recordReceipt } from '../_shared/delivery.ts';
+import { normalizeWhatsAppNumber } from '../_shared/messaging.ts';
+import { getWhatsAppProviderName, sendWhatsAppTemplate } from '../_shared/whatsapp.ts';
+
+// Sends one WhatsApp template message through the Cloud API and records a
+// receipt. The browser retries failed attempts (see sendWithRetry in
+// src/utils/messagingUtils.ts), passing the attempt number along.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { to, template, language, parameters, text, attempt } = await req.json();
+    if (!template || !Array.isArray(parameters)) {
+      return jsonResponse({ error: 'Template name and parameters are required' }, 400);
+    }
+    const recipient = normalizeWhatsAppNumber(String(to ?? ''));
+    if (!recipient) {
+      return jsonResponse({ error: 'Invalid WhatsApp number' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    await requireRole(supabase, req, ['super_admin', 'hr', 'department_manager']);
+    const provider = getWhatsAppProviderName();
+    const details = {
+      channel: 'whatsapp' as const,
+      provider,
+      recipient,
+      template,
+      message: typeof text === 'string' ? text : null
+    };
+
+    try {
+      const messageId = await sendWhatsAppTemplate(recipient, { name: template, language, parameters: parameters.map(String) });
+      await recordReceipt(supabase, details, { attempt: Number(attempt) || 1, provider_message_id: messageId });
+      return jsonResponse({ messageId, provider });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to send WhatsApp message';
+      await recordReceipt(supabase, details, { attempt: Number(attempt) || 1, error: message });
+      return jsonResponse({ error: message }, 502);
+    }
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error sending WhatsApp message:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to send WhatsApp message' }, 500);
+  }
+});
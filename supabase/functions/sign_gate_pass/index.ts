@@ -0,0 +1,116 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AuthError, requireRole } from '../_shared/auth.ts';
+import { importSigningKey, signToken } from '../_shared/signing.ts';
+
+// Signs the QR payload of an approved gate pass so guards can verify it
+// offline. Uses the badge signing key (BADGE_SIGNING_KEY_ID and
+// BADGE_SIGNING_PRIVATE_KEY), so guard devices check it with the same
+// VITE_BADGE_PUBLIC_KEYS; the GP2 prefix keeps the two kinds of token apart.
+// The signed string is saved in gate_passes.qr_data and reused.
+const SIGNED_GATE_PASS_PREFIX = 'GP2';
+const SIGNED_GATE_PASS_VERSION = 1;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const toEpochSeconds = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { passId } = await req.json();
+    if (typeof passId !== 'string') {
+      return jsonResponse({ error: 'A passId is required' }, 400);
+    }
+
+    const keyId = Deno.env.get('BADGE_SIGNING_KEY_ID');
+    const privateKeyData = Deno.env.get('BADGE_SIGNING_PRIVATE_KEY');
+    if (!keyId || !privateKeyData) {
+      return jsonResponse({ error: 'Gate pass signing is not configured' }, 500);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const { userId, role } = await requireRole(supabase, req, ['super_admin', 'hr', 'department_manager', 'security_guard']);
+
+    const { data: pass, error: passError } = await supabase
+      .from('gate_passes')
+      .select('id, pass_code, employee_id, visitor_id, employee_name, type, validity, status, created_at, reviewed_at, valid_from, expires_at, schedule_days, schedule_start, schedule_end, qr_data, employees (department_id)')
+      .eq('id', passId)
+      .maybeSingle();
+    if (passError) throw passError;
+    if (!pass || pass.status !== 'active') {
+      return jsonResponse({ error: 'No active gate pass with that id' }, 404);
+    }
+
+    if (role === 'department_manager') {
+      const { data: manager, error: managerError } = await supabase
+        .from('user_roles')
+        .select('department_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (managerError) throw managerError;
+      const departmentId = (pass.employees as { department_id: string | null } | null)?.department_id;
+      if (!departmentId || manager?.department_id !== departmentId) {
+        throw new AuthError('You do not have permission for this action', 403);
+      }
+    }
+
+    if (pass.qr_data) {
+      return jsonResponse({ qrData: pass.qr_data });
+    }
+
+    const privateKey = await importSigningKey(privateKeyData);
+
+    const payload = {
+      v: SIGNED_GATE_PASS_VERSION,
+      pid: pass.id,
+      pc: pass.pass_code,
+      eid: pass.employee_id,
+      vid: pass.visitor_id,
+      n: pass.employee_name,
+      t: pass.type,
+      val: pass.validity,
+      nbf: Math.max(toEpochSeconds(pass.reviewed_at || pass.created_at), pass.valid_from ? toEpochSeconds(pass.valid_from) : 0),
+      exp: toEpochSeconds(pass.expires_at),
+      // Recurring passes carry their exit window so offline gates enforce it too
+      ...(pass.schedule_days ? {
+        s: { d: pass.schedule_days, s: pass.schedule_start.slice(0, 5), e: pass.schedule_end.slice(0, 5) }
+      } : {}),
+      kid: keyId
+    };
+
+    const qrData = await signToken(privateKey, SIGNED_GATE_PASS_PREFIX, payload);
+
+    const { error: updateError } = await supabase
+      .from('gate_passes')
+      .update({ qr_data: qrData })
+      .eq('id', pass.id);
+    if (updateError) throw updateError;
+
+    return jsonResponse({ qrData });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Error signing gate pass:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to sign the gate pass' }, 500);
+  }
+});
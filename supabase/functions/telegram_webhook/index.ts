@@ -0,0 +1,47 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { handleBotMessage } from '../_shared/botAnswers.ts';
+
+// Receives Telegram bot updates and answers text messages from admin chats as
+// bot commands. Register it with setWebhook and a secret_token equal to
+// TELEGRAM_WEBHOOK_SECRET; every update must carry it in
+// X-Telegram-Bot-Api-Secret-Token, and updates are refused until it is set.
+
+interface TelegramUpdate {
+  message?: {
+    chat: { id: number };
+    text?: string;
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const secret = Deno.env.get('TELEGRAM_WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('TELEGRAM_WEBHOOK_SECRET is not set; refusing Telegram update');
+    return new Response('Webhook not configured', { status: 503 });
+  }
+  if (req.headers.get('x-telegram-bot-api-secret-token') !== secret) {
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  try {
+    const update: TelegramUpdate = await req.json();
+    const message = update.message;
+
+    if (message?.text) {
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+      await handleBotMessage(supabase, 'telegram', String(message.chat.id), message.text);
+    }
+  } catch (error) {
+    // Telegram redelivers an update until it gets a 2xx, so failures are only logged
+    console.error('Error handling Telegram update:', error);
+  }
+
+  return new Response('ok', { status: 200 });
+});
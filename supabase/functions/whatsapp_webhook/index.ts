@@ -0,0 +1,130 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { handleBotMessage } from '../_shared/botAnswers.ts';
+
+// Receives WhatsApp Cloud API callbacks. Status updates move the matching
+// message_receipts row to delivered, read or failed; text messages from admins
+// are answered as bot commands. Meta verifies the URL with
+// WHATSAPP_VERIFY_TOKEN, and every callback must carry an X-Hub-Signature-256
+// made with WHATSAPP_APP_SECRET. Callbacks are refused until the secret is set.
+
+interface StatusUpdate {
+  id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  errors?: { title?: string; message?: string }[];
+}
+
+interface InboundMessage {
+  from: string;
+  type: string;
+  text?: { body: string };
+}
+
+interface WebhookValue {
+  statuses?: StatusUpdate[];
+  messages?: InboundMessage[];
+}
+
+// A receipt only moves forward, whatever order the callbacks arrive in
+const PREVIOUS_STATUSES: Record<string, string[]> = {
+  delivered: ['sent'],
+  read: ['sent', 'delivered'],
+  failed: ['sent']
+};
+
+const verifySignature = async (body: string, signature: string | null, secret: string): Promise<boolean> => {
+  if (!signature?.startsWith('sha256=')) return false;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+  const expected = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  const actual = signature.slice('sha256='.length);
+
+  let mismatch = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length && i < actual.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+
+  if (req.method === 'GET') {
+    const verifyToken = Deno.env.get('WHATSAPP_VERIFY_TOKEN');
+    if (
+      verifyToken &&
+      url.searchParams.get('hub.mode') === 'subscribe' &&
+      url.searchParams.get('hub.verify_token') === verifyToken
+    ) {
+      return new Response(url.searchParams.get('hub.challenge') ?? '', { status: 200 });
+    }
+    return new Response('Forbidden', { status: 403 });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const appSecret = Deno.env.get('WHATSAPP_APP_SECRET');
+  if (!appSecret) {
+    console.error('WHATSAPP_APP_SECRET is not set; refusing WhatsApp callback');
+    return new Response('Webhook not configured', { status: 503 });
+  }
+
+  const body = await req.text();
+  if (!(await verifySignature(body, req.headers.get('x-hub-signature-256'), appSecret))) {
+    return new Response('Invalid signature', { status: 401 });
+  }
+
+  try {
+    const payload = JSON.parse(body);
+    const values: WebhookValue[] = (payload.entry || []).flatMap(
+      (entry: { changes?: { value?: WebhookValue }[] }) =>
+        (entry.changes || []).flatMap(change => change.value ? [change.value] : [])
+    );
+    const statuses = values.flatMap(value => value.statuses || []);
+    const messages = values.flatMap(value => value.messages || []).filter(message => message.type === 'text');
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    for (const update of statuses) {
+      const previous = PREVIOUS_STATUSES[update.status];
+      if (!previous) continue;
+
+      const { error } = await supabase
+        .from('message_receipts')
+        .update({
+          status: update.status,
+          error: update.status === 'failed'
+            ? update.errors?.[0]?.message || update.errors?.[0]?.title || 'Delivery failed'
+            : null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('provider_message_id', update.id)
+        .in('status', previous);
+
+      if (error) console.error('Error updating message receipt:', error);
+    }
+
+    for (const message of messages) {
+      try {
+        await handleBotMessage(supabase, 'whatsapp', message.from, message.text?.body || '');
+      } catch (error) {
+        console.error('Error answering WhatsApp message:', error);
+      }
+    }
+  } catch (error) {
+    // Meta retries non-2xx responses for days, so malformed payloads are only logged
+    console.error('Error handling WhatsApp webhook:', error);
+  }
+
+  return new Response('ok', { status: 200 });
+});
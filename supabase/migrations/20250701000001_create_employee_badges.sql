@@ -0,0 +1,56 @@
+-- Create employee_badges table for signed, individually revocable badges
+CREATE TABLE IF NOT EXISTS employee_badges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  serial TEXT NOT NULL UNIQUE,
+  key_id TEXT NOT NULL,
+  qr_data TEXT NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID,
+  revocation_reason TEXT
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_employee_badges_employee_id ON employee_badges(employee_id);
+CREATE INDEX IF NOT EXISTS idx_employee_badges_active ON employee_badges(employee_id) WHERE revoked_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE employee_badges ENABLE ROW LEVEL SECURITY;
+
+-- Kiosks need to read badges to check revocation
+CREATE POLICY "Enable read access for all users"
+ON employee_badges FOR SELECT
+USING (true);
+
+-- Badges are only issued by the signing edge function (service role); admins may revoke
+CREATE POLICY "Enable revocation for authenticated users"
+ON employee_badges FOR UPDATE
+TO authenticated
+USING (revoked_at IS NULL)
+WITH CHECK (revoked_at IS NOT NULL);
+
+-- Prevent un-revoking or re-pointing a badge once issued
+CREATE OR REPLACE FUNCTION protect_employee_badge_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.employee_id <> OLD.employee_id
+     OR NEW.serial <> OLD.serial
+     OR NEW.key_id <> OLD.key_id
+     OR NEW.qr_data <> OLD.qr_data
+     OR NEW.issued_at <> OLD.issued_at THEN
+    RAISE EXCEPTION 'Only revocation fields of a badge can be changed';
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Badge % is already revoked', OLD.serial;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_employee_badge_fields_trigger
+  BEFORE UPDATE ON employee_badges
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_employee_badge_fields();
@@ -0,0 +1,38 @@
+-- Store each day's punches as an ordered list of sessions so split shifts can
+-- clock in and out more than twice. The first/second columns stay populated
+-- for the first two sessions so existing reports and functions keep working.
+
+ALTER TABLE attendance
+  ADD COLUMN IF NOT EXISTS sessions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Backfill sessions from the legacy two-session columns
+UPDATE attendance
+SET sessions = (
+  SELECT COALESCE(jsonb_agg(session ORDER BY ordinal), '[]'::jsonb)
+  FROM (
+    SELECT 1 AS ordinal, jsonb_build_object('check_in', first_check_in_time, 'check_out', first_check_out_time) AS session
+    WHERE first_check_in_time IS NOT NULL
+    UNION ALL
+    SELECT 2, jsonb_build_object('check_in', second_check_in_time, 'check_out', second_check_out_time)
+    WHERE second_check_in_time IS NOT NULL
+  ) legacy_sessions
+)
+WHERE sessions = '[]'::jsonb
+  AND first_check_in_time IS NOT NULL;
+
+ALTER TABLE attendance
+  DROP CONSTRAINT IF EXISTS attendance_sessions_is_array;
+ALTER TABLE attendance
+  ADD CONSTRAINT attendance_sessions_is_array CHECK (jsonb_typeof(sessions) = 'array');
+
+-- Per-roster limit on sessions per day
+ALTER TABLE rosters
+  ADD COLUMN IF NOT EXISTS max_sessions INTEGER NOT NULL DEFAULT 2;
+
+ALTER TABLE rosters
+  DROP CONSTRAINT IF EXISTS rosters_max_sessions_range;
+ALTER TABLE rosters
+  ADD CONSTRAINT rosters_max_sessions_range CHECK (max_sessions BETWEEN 1 AND 6);
+
+COMMENT ON COLUMN attendance.sessions IS 'Ordered [{check_in, check_out}] punches for the day';
+COMMENT ON COLUMN rosters.max_sessions IS 'Maximum check-in/check-out sessions per day';
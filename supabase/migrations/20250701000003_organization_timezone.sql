@@ -0,0 +1,39 @@
+-- Organization timezone used to derive attendance dates and display punch
+-- times. Stored on a single `organization` row of admin_settings.
+
+ALTER TABLE admin_settings
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+-- Reject names Postgres does not recognise as timezones
+CREATE OR REPLACE FUNCTION is_valid_timezone(tz TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN tz IS NULL OR EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+ALTER TABLE admin_settings
+  DROP CONSTRAINT IF EXISTS admin_settings_timezone_valid;
+ALTER TABLE admin_settings
+  ADD CONSTRAINT admin_settings_timezone_valid CHECK (is_valid_timezone(timezone));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_settings_organization
+  ON admin_settings(setting_type)
+  WHERE setting_type = 'organization';
+
+INSERT INTO admin_settings (setting_type, timezone)
+SELECT 'organization', 'Asia/Colombo'
+WHERE NOT EXISTS (SELECT 1 FROM admin_settings WHERE setting_type = 'organization');
+
+-- Attendance date of an instant in the organization timezone, for functions
+-- and reports that run on the database
+CREATE OR REPLACE FUNCTION organization_date(ts TIMESTAMPTZ DEFAULT NOW())
+RETURNS DATE AS $$
+  SELECT (ts AT TIME ZONE COALESCE(
+    (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+    'UTC'
+  ))::date;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE attendance
+  ALTER COLUMN date SET DEFAULT organization_date();
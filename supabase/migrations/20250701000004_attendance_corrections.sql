@@ -0,0 +1,185 @@
+-- Supervisor punch corrections. A correction proposes new punch times with a
+-- reason and only takes effect once a different admin approves it. Every
+-- applied change is kept in attendance_history, which cannot be edited.
+
+CREATE TABLE IF NOT EXISTS attendance_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attendance_id UUID NOT NULL REFERENCES attendance(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  requested_by TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  original_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  proposed_values JSONB NOT NULL CHECK (proposed_values <> '{}'::jsonb),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT attendance_corrections_second_reviewer CHECK (
+    reviewed_by IS NULL OR lower(trim(reviewed_by)) <> lower(trim(requested_by))
+  )
+);
+
+-- One open correction per attendance record
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_corrections_one_pending
+  ON attendance_corrections(attendance_id)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_attendance_corrections_status ON attendance_corrections(status);
+
+CREATE TABLE IF NOT EXISTS attendance_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: history outlives the attendance row it describes
+  attendance_id UUID NOT NULL,
+  correction_id UUID REFERENCES attendance_corrections(id) ON DELETE SET NULL,
+  change_type TEXT NOT NULL,
+  changed_by TEXT NOT NULL,
+  reason TEXT,
+  before_values JSONB NOT NULL,
+  after_values JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_history_attendance ON attendance_history(attendance_id, created_at);
+
+CREATE OR REPLACE FUNCTION prevent_attendance_history_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Allow the correction link to be cleared when a correction row is removed
+  IF TG_OP = 'UPDATE'
+     AND NEW.correction_id IS NULL
+     AND (to_jsonb(NEW) - 'correction_id') = (to_jsonb(OLD) - 'correction_id') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'attendance_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS attendance_history_immutable ON attendance_history;
+CREATE TRIGGER attendance_history_immutable
+  BEFORE UPDATE OR DELETE ON attendance_history
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_attendance_history_changes();
+
+ALTER TABLE attendance_corrections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attendance_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users"
+ON attendance_corrections FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable insert access for authenticated users"
+ON attendance_corrections FOR INSERT
+TO authenticated
+WITH CHECK (status = 'pending');
+
+-- Pending corrections can be rejected directly; approval goes through
+-- apply_attendance_correction so the record and history change together
+CREATE POLICY "Enable rejection for authenticated users"
+ON attendance_corrections FOR UPDATE
+TO authenticated
+USING (status = 'pending')
+WITH CHECK (status = 'rejected');
+
+CREATE POLICY "Enable read access for authenticated users"
+ON attendance_history FOR SELECT
+TO authenticated
+USING (true);
+
+-- Apply an approved correction: update the punches and recomputed totals,
+-- record before/after values and close the correction in one transaction
+CREATE OR REPLACE FUNCTION apply_attendance_correction(
+  p_correction_id UUID,
+  p_reviewed_by TEXT,
+  p_review_note TEXT,
+  p_updates JSONB
+) RETURNS JSONB AS $$
+DECLARE
+  v_correction attendance_corrections%ROWTYPE;
+  v_before JSONB;
+  v_after JSONB;
+  v_field TEXT;
+  v_tracked TEXT[] := ARRAY[
+    'first_check_in_time', 'first_check_out_time',
+    'second_check_in_time', 'second_check_out_time',
+    'sessions', 'status', 'minutes_late', 'actual_hours', 'working_duration'
+  ];
+BEGIN
+  SELECT * INTO v_correction
+  FROM attendance_corrections
+  WHERE id = p_correction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction not found');
+  END IF;
+
+  IF v_correction.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction has already been ' || v_correction.status);
+  END IF;
+
+  IF lower(trim(p_reviewed_by)) = lower(trim(v_correction.requested_by)) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A correction must be approved by a different admin');
+  END IF;
+
+  SELECT to_jsonb(a) INTO v_before
+  FROM attendance a
+  WHERE id = v_correction.attendance_id
+  FOR UPDATE;
+
+  IF v_before IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attendance record not found');
+  END IF;
+
+  -- Refuse to overwrite punches that moved after the request was filed
+  FOR v_field IN SELECT jsonb_object_keys(v_correction.original_values) LOOP
+    IF (v_before->>v_field)::timestamptz IS DISTINCT FROM (v_correction.original_values->>v_field)::timestamptz THEN
+      RETURN jsonb_build_object('success', false, 'error', 'The record changed after this correction was requested');
+    END IF;
+  END LOOP;
+
+  UPDATE attendance SET
+    first_check_in_time = CASE WHEN p_updates ? 'first_check_in_time'
+      THEN (p_updates->>'first_check_in_time')::timestamptz ELSE first_check_in_time END,
+    first_check_out_time = CASE WHEN p_updates ? 'first_check_out_time'
+      THEN (p_updates->>'first_check_out_time')::timestamptz ELSE first_check_out_time END,
+    second_check_in_time = CASE WHEN p_updates ? 'second_check_in_time'
+      THEN (p_updates->>'second_check_in_time')::timestamptz ELSE second_check_in_time END,
+    second_check_out_time = CASE WHEN p_updates ? 'second_check_out_time'
+      THEN (p_updates->>'second_check_out_time')::timestamptz ELSE second_check_out_time END,
+    sessions = COALESCE(p_updates->'sessions', sessions),
+    status = COALESCE(p_updates->>'status', status),
+    minutes_late = COALESCE((p_updates->>'minutes_late')::integer, minutes_late),
+    actual_hours = COALESCE((p_updates->>'actual_hours')::numeric, actual_hours),
+    working_duration = COALESCE(p_updates->>'working_duration', working_duration),
+    updated_at = NOW()
+  WHERE id = v_correction.attendance_id;
+
+  SELECT to_jsonb(a) INTO v_after
+  FROM attendance a
+  WHERE id = v_correction.attendance_id;
+
+  INSERT INTO attendance_history (
+    attendance_id, correction_id, change_type, changed_by, reason, before_values, after_values
+  ) VALUES (
+    v_correction.attendance_id,
+    v_correction.id,
+    'correction',
+    p_reviewed_by,
+    v_correction.reason,
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(v_before) WHERE key = ANY(v_tracked)),
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(v_after) WHERE key = ANY(v_tracked))
+  );
+
+  UPDATE attendance_corrections SET
+    status = 'approved',
+    reviewed_by = p_reviewed_by,
+    reviewed_at = NOW(),
+    review_note = p_review_note
+  WHERE id = p_correction_id;
+
+  RETURN jsonb_build_object('success', true, 'record', v_after);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION apply_attendance_correction(UUID, TEXT, TEXT, JSONB) TO authenticated;
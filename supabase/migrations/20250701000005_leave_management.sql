@@ -0,0 +1,136 @@
+-- Leave management: leave types with accrual rules, per-year balances and
+-- employee requests approved by a manager. Approved leave is excluded from
+-- absence counts and reported as its own "On Leave" category.
+
+CREATE TABLE IF NOT EXISTS leave_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  code TEXT NOT NULL UNIQUE,
+  color TEXT NOT NULL DEFAULT '#3b82f6',
+  is_paid BOOLEAN NOT NULL DEFAULT true,
+  -- Days granted per year; NULL means the type is not balance-limited
+  annual_allowance NUMERIC(5,1) CHECK (annual_allowance IS NULL OR annual_allowance >= 0),
+  accrual_method TEXT NOT NULL DEFAULT 'annual' CHECK (accrual_method IN ('annual', 'monthly')),
+  max_carry_over NUMERIC(5,1) NOT NULL DEFAULT 0 CHECK (max_carry_over >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO leave_types (name, code, color, is_paid, annual_allowance, accrual_method, max_carry_over) VALUES
+  ('Annual Leave', 'AL', '#22c55e', true, 14, 'monthly', 5),
+  ('Sick Leave', 'SL', '#ef4444', true, 7, 'annual', 0),
+  ('Casual Leave', 'CL', '#f59e0b', true, 7, 'annual', 0),
+  ('Unpaid Leave', 'UL', '#6b7280', false, NULL, 'annual', 0)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS leave_balances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  leave_type_id UUID NOT NULL REFERENCES leave_types(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+  carried_over NUMERIC(5,1) NOT NULL DEFAULT 0,
+  -- Manual grants or deductions on top of the accrual rule
+  adjustment NUMERIC(5,1) NOT NULL DEFAULT 0,
+  used NUMERIC(5,1) NOT NULL DEFAULT 0 CHECK (used >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (employee_id, leave_type_id, year)
+);
+
+CREATE TABLE IF NOT EXISTS leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  leave_type_id UUID NOT NULL REFERENCES leave_types(id),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  half_day BOOLEAN NOT NULL DEFAULT false,
+  days NUMERIC(5,1) NOT NULL CHECK (days > 0),
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT leave_requests_valid_range CHECK (end_date >= start_date),
+  CONSTRAINT leave_requests_half_day_single CHECK (NOT half_day OR start_date = end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_employee ON leave_requests(employee_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_dates ON leave_requests(start_date, end_date) WHERE status = 'approved';
+
+-- Keep leave_balances.used in step with approved requests
+CREATE OR REPLACE FUNCTION sync_leave_balance_usage()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_delta NUMERIC(5,1) := 0;
+  v_row leave_requests%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    v_delta := -OLD.days;
+    v_row := OLD;
+  ELSIF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status <> 'approved') THEN
+    v_delta := NEW.days;
+    v_row := NEW;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO leave_balances (employee_id, leave_type_id, year, used)
+  VALUES (v_row.employee_id, v_row.leave_type_id, EXTRACT(YEAR FROM v_row.start_date)::integer, GREATEST(v_delta, 0))
+  ON CONFLICT (employee_id, leave_type_id, year) DO UPDATE
+    SET used = GREATEST(leave_balances.used + v_delta, 0),
+        updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS leave_requests_sync_balance ON leave_requests;
+CREATE TRIGGER leave_requests_sync_balance
+  AFTER INSERT OR UPDATE OF status ON leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_leave_balance_usage();
+
+ALTER TABLE leave_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leave_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE leave_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users"
+ON leave_types FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable write access for authenticated users"
+ON leave_types FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Enable read access for authenticated users"
+ON leave_balances FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable write access for authenticated users"
+ON leave_balances FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Enable read access for authenticated users"
+ON leave_requests FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable insert access for authenticated users"
+ON leave_requests FOR INSERT
+TO authenticated
+WITH CHECK (status = 'pending');
+
+CREATE POLICY "Enable update access for authenticated users"
+ON leave_requests FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,32 @@
+-- Public holiday calendar. A holiday with no department applies to everyone;
+-- one with a department only to that department's employees. Absence and
+-- attendance-rate calculations skip holidays and rostered 'off' days.
+
+CREATE TABLE IF NOT EXISTS holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  department_id UUID REFERENCES departments(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ics')),
+  -- UID of the imported VEVENT, so re-importing a calendar is harmless
+  external_uid TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One holiday per date per scope (organization-wide or a single department)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holidays_date_scope
+  ON holidays(date, COALESCE(department_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_holidays_date ON holidays(date);
+
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users"
+ON holidays FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable write access for authenticated users"
+ON holidays FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
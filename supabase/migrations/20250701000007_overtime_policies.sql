@@ -0,0 +1,55 @@
+-- Overtime policies attached to rosters. Each attendance day is split into
+-- regular, OT1 (beyond the daily or weekly threshold) and OT2 (any time
+-- worked on a weekend, rostered off day or holiday) minute buckets.
+
+CREATE TABLE IF NOT EXISTS overtime_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+  daily_threshold_minutes INTEGER NOT NULL DEFAULT 480 CHECK (daily_threshold_minutes >= 0),
+  -- NULL = no weekly threshold
+  weekly_threshold_minutes INTEGER CHECK (weekly_threshold_minutes >= 0),
+  overtime_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.5 CHECK (overtime_multiplier >= 1),
+  weekend_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.5 CHECK (weekend_multiplier >= 1),
+  holiday_multiplier NUMERIC(4,2) NOT NULL DEFAULT 2.0 CHECK (holiday_multiplier >= 1),
+  -- Day of week numbers, 0 = Sunday
+  weekend_days SMALLINT[] NOT NULL DEFAULT '{0,6}',
+  requires_approval BOOLEAN NOT NULL DEFAULT false,
+  minimum_block_minutes INTEGER NOT NULL DEFAULT 15 CHECK (minimum_block_minutes >= 1),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO overtime_policies (name, daily_threshold_minutes, weekly_threshold_minutes)
+VALUES ('Standard', 480, 2400)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE rosters
+  ADD COLUMN IF NOT EXISTS overtime_policy_id UUID REFERENCES overtime_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE attendance
+  ADD COLUMN IF NOT EXISTS regular_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS ot1_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS ot2_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS ot2_multiplier NUMERIC(4,2),
+  -- Overtime waiting for approval under a policy that requires it
+  ADD COLUMN IF NOT EXISTS unapproved_overtime_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overtime_approved_by TEXT,
+  ADD COLUMN IF NOT EXISTS overtime_approved_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_rosters_overtime_policy ON rosters(overtime_policy_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_unapproved_overtime
+  ON attendance(date) WHERE unapproved_overtime_minutes > 0;
+
+ALTER TABLE overtime_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users"
+ON overtime_policies FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable write access for authenticated users"
+ON overtime_policies FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,191 @@
+-- Payroll pay periods. Closing a period stores per-employee totals and locks
+-- the period: attendance rows dated inside a closed period can no longer be
+-- inserted, updated or deleted.
+
+CREATE TABLE IF NOT EXISTS pay_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  closed_by TEXT,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  UNIQUE (start_date, end_date)
+);
+
+CREATE TABLE IF NOT EXISTS pay_period_totals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pay_period_id UUID NOT NULL REFERENCES pay_periods(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  employee_name TEXT NOT NULL,
+  department TEXT,
+  days_worked INTEGER NOT NULL DEFAULT 0,
+  regular_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ot1_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ot2_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+  overtime_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+  late_minutes INTEGER NOT NULL DEFAULT 0,
+  unpaid_break_minutes INTEGER NOT NULL DEFAULT 0,
+  paid_leave_days NUMERIC(5,1) NOT NULL DEFAULT 0,
+  unpaid_leave_days NUMERIC(5,1) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (pay_period_id, employee_id)
+);
+
+-- Column layouts for exporting period totals into a payroll system
+CREATE TABLE IF NOT EXISTS payroll_export_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+  payroll_system TEXT,
+  -- [{ "key": "regular_hours", "header": "Basic Hrs" }, ...]
+  columns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  delimiter TEXT NOT NULL DEFAULT ',' CHECK (delimiter IN (',', ';', E'\t')),
+  include_header BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO payroll_export_templates (name, payroll_system, columns)
+VALUES ('Default', NULL, '[
+  {"key": "employee_name", "header": "Employee"},
+  {"key": "department", "header": "Department"},
+  {"key": "days_worked", "header": "Days Worked"},
+  {"key": "regular_hours", "header": "Regular Hours"},
+  {"key": "overtime_hours", "header": "Overtime Hours"},
+  {"key": "late_minutes", "header": "Late Minutes"},
+  {"key": "unpaid_break_minutes", "header": "Unpaid Break Minutes"},
+  {"key": "paid_leave_days", "header": "Paid Leave Days"},
+  {"key": "unpaid_leave_days", "header": "Unpaid Leave Days"}
+]'::jsonb)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_pay_periods_closed ON pay_periods(start_date, end_date) WHERE status = 'closed';
+CREATE INDEX IF NOT EXISTS idx_pay_period_totals_period ON pay_period_totals(pay_period_id);
+
+-- Reject attendance changes dated inside a closed pay period
+CREATE OR REPLACE FUNCTION reject_locked_attendance_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_date DATE;
+BEGIN
+  FOREACH v_date IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.date END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.date END
+  ] LOOP
+    IF v_date IS NOT NULL AND EXISTS (
+      SELECT 1 FROM pay_periods
+      WHERE status = 'closed'
+        AND v_date BETWEEN start_date AND end_date
+    ) THEN
+      RAISE EXCEPTION 'Attendance on % is in a closed pay period', v_date
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS attendance_pay_period_lock ON attendance;
+CREATE TRIGGER attendance_pay_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_locked_attendance_change();
+
+-- Store the computed totals and close the period in one transaction
+CREATE OR REPLACE FUNCTION close_pay_period(
+  p_period_id UUID,
+  p_closed_by TEXT,
+  p_totals JSONB
+) RETURNS JSONB AS $$
+DECLARE
+  v_period pay_periods%ROWTYPE;
+BEGIN
+  SELECT * INTO v_period
+  FROM pay_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay period not found');
+  END IF;
+
+  IF v_period.status = 'closed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay period is already closed');
+  END IF;
+
+  DELETE FROM pay_period_totals WHERE pay_period_id = p_period_id;
+
+  INSERT INTO pay_period_totals (
+    pay_period_id, employee_id, employee_name, department, days_worked,
+    regular_hours, ot1_hours, ot2_hours, overtime_hours, late_minutes,
+    unpaid_break_minutes, paid_leave_days, unpaid_leave_days
+  )
+  SELECT
+    p_period_id, t.employee_id, t.employee_name, t.department, t.days_worked,
+    t.regular_hours, t.ot1_hours, t.ot2_hours, t.overtime_hours, t.late_minutes,
+    t.unpaid_break_minutes, t.paid_leave_days, t.unpaid_leave_days
+  FROM jsonb_to_recordset(p_totals) AS t(
+    employee_id UUID,
+    employee_name TEXT,
+    department TEXT,
+    days_worked INTEGER,
+    regular_hours NUMERIC,
+    ot1_hours NUMERIC,
+    ot2_hours NUMERIC,
+    overtime_hours NUMERIC,
+    late_minutes INTEGER,
+    unpaid_break_minutes INTEGER,
+    paid_leave_days NUMERIC,
+    unpaid_leave_days NUMERIC
+  );
+
+  UPDATE pay_periods
+  SET status = 'closed',
+      closed_by = p_closed_by,
+      closed_at = NOW()
+  WHERE id = p_period_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION close_pay_period(UUID, TEXT, JSONB) TO authenticated;
+
+ALTER TABLE pay_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pay_period_totals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_export_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users"
+ON pay_periods FOR SELECT
+TO authenticated
+USING (true);
+
+-- Periods are created open; closing goes through close_pay_period
+CREATE POLICY "Enable insert for authenticated users"
+ON pay_periods FOR INSERT
+TO authenticated
+WITH CHECK (status = 'open');
+
+CREATE POLICY "Enable delete of open periods for authenticated users"
+ON pay_periods FOR DELETE
+TO authenticated
+USING (status = 'open');
+
+CREATE POLICY "Enable read access for authenticated users"
+ON pay_period_totals FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable read access for authenticated users"
+ON payroll_export_templates FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable write access for authenticated users"
+ON payroll_export_templates FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,79 @@
+-- Server-side report scheduling. The run_report_schedules edge function is
+-- called by pg_cron every five minutes, sends every schedule that is due and
+-- records the run in report_deliveries. A schedule can only have one delivery
+-- per local date, so overlapping or repeated runs never send a report twice.
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+  report_type TEXT NOT NULL DEFAULT 'daily_summary' CHECK (report_type IN ('daily_summary', 'absentees')),
+  channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'email', 'telegram', 'sms')),
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  send_time TIME NOT NULL DEFAULT '18:00',
+  timezone TEXT NOT NULL DEFAULT 'Asia/Colombo',
+  -- Day of week numbers, 0 = Sunday
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES report_schedules(id) ON DELETE CASCADE,
+  -- Local date in the schedule's timezone the run belongs to
+  scheduled_for DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'partial', 'failed')),
+  channel TEXT NOT NULL,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  message TEXT,
+  -- [{ "recipient": "...", "ok": true } | { "recipient": "...", "ok": false, "error": "..." }]
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (schedule_id, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_started ON report_deliveries(started_at DESC);
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users"
+ON report_schedules FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Enable write access for authenticated users"
+ON report_schedules FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Deliveries are written by the edge function with the service role
+CREATE POLICY "Enable read access for authenticated users"
+ON report_deliveries FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- The project URL and service role key come from the Vault secrets
+-- 'project_url' and 'service_role_key'
+SELECT cron.schedule(
+  'run-report-schedules',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/run_report_schedules',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
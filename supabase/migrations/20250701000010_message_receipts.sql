@@ -0,0 +1,33 @@
+-- Delivery receipts for messages sent through a messaging provider. Every send
+-- attempt gets a row; the whatsapp_webhook edge function moves successful
+-- sends on to delivered, read or failed as the provider reports back.
+
+CREATE TABLE IF NOT EXISTS message_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel TEXT NOT NULL DEFAULT 'whatsapp',
+  provider TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  template TEXT,
+  message TEXT,
+  provider_message_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'delivered', 'read', 'failed')),
+  attempt SMALLINT NOT NULL DEFAULT 1 CHECK (attempt > 0),
+  error TEXT,
+  -- Set when the message was sent for a scheduled report
+  delivery_id UUID REFERENCES report_deliveries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_receipts_created ON message_receipts(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_message_receipts_provider_message
+  ON message_receipts(provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+ALTER TABLE message_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Receipts are written by the edge functions with the service role
+CREATE POLICY "Enable read access for authenticated users"
+ON message_receipts FOR SELECT
+TO authenticated
+USING (true);
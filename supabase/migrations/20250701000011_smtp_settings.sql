@@ -0,0 +1,16 @@
+-- SMTP settings used by the send_email edge function. Stored on a single
+-- `smtp` row of admin_settings and read server-side with the service role;
+-- the app writes the password but never selects it.
+
+ALTER TABLE admin_settings
+  ADD COLUMN IF NOT EXISTS smtp_from TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_settings_smtp
+  ON admin_settings(setting_type)
+  WHERE setting_type = 'smtp';
+
+-- Edge functions cannot open connections to ports 25 and 587, so default to
+-- implicit TLS on 465
+INSERT INTO admin_settings (setting_type, smtp_port, smtp_secure)
+SELECT 'smtp', 465, true
+WHERE NOT EXISTS (SELECT 1 FROM admin_settings WHERE setting_type = 'smtp');
@@ -0,0 +1,233 @@
+-- Supabase Auth login with one role per user. Replaces the permissive
+-- anonymous policies on attendance, employees, rosters and gate_passes with
+-- policies scoped by role:
+--   super_admin, hr       everything
+--   department_manager    employees, attendance, rosters and gate passes of
+--                         their own department_id; no deletes
+--   security_guard        read employees, read and update gate passes
+--   kiosk                 read employees and record today's scans only
+
+DO $$
+BEGIN
+  CREATE TYPE app_role AS ENUM ('super_admin', 'hr', 'department_manager', 'security_guard', 'kiosk');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Copied from auth.users so the app can list users without the admin API
+  email TEXT NOT NULL,
+  role app_role NOT NULL,
+  -- Required for department managers, ignored for everyone else
+  department_id UUID REFERENCES departments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_roles_manager_department CHECK (role <> 'department_manager' OR department_id IS NOT NULL)
+);
+
+-- Role lookups for policies. SECURITY DEFINER so they can read user_roles
+-- without recursing into its own policies.
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS app_role AS $$
+  SELECT role FROM user_roles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_department_id()
+RETURNS UUID AS $$
+  SELECT department_id FROM user_roles WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_role(VARIADIC roles app_role[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(current_app_role() = ANY(roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- True when the employee belongs to the calling manager's department
+CREATE OR REPLACE FUNCTION in_my_department(p_employee_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM employees
+    WHERE id = p_employee_id
+      AND department_id = current_department_id()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_app_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION current_department_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_role(app_role[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION in_my_department(UUID) TO authenticated;
+
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read their own role" ON user_roles;
+DROP POLICY IF EXISTS "Super admins manage roles" ON user_roles;
+
+CREATE POLICY "Users read their own role"
+ON user_roles FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR has_role('super_admin'));
+
+CREATE POLICY "Super admins manage roles"
+ON user_roles FOR ALL
+TO authenticated
+USING (has_role('super_admin'))
+WITH CHECK (has_role('super_admin'));
+
+-- Drop every existing policy on the guarded tables; earlier migrations
+-- created them under many different names
+DO $$
+DECLARE
+  existing RECORD;
+BEGIN
+  FOR existing IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('attendance', 'employees', 'rosters', 'gate_passes')
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', existing.policyname, existing.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rosters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gate_passes ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON attendance, employees, rosters, gate_passes FROM anon;
+
+-- Employees
+CREATE POLICY "Staff read employees"
+ON employees FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr', 'security_guard', 'kiosk')
+  OR (has_role('department_manager') AND department_id = current_department_id())
+);
+
+CREATE POLICY "Admins manage employees"
+ON employees FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+-- Attendance
+CREATE POLICY "Staff read attendance"
+ON attendance FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  -- Kiosks look up the current record to decide between check-in and check-out
+  OR (has_role('kiosk') AND date = organization_date())
+);
+
+CREATE POLICY "Staff record attendance"
+ON attendance FOR INSERT
+TO authenticated
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  OR (has_role('kiosk') AND date = organization_date())
+);
+
+CREATE POLICY "Staff update attendance"
+ON attendance FOR UPDATE
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  OR (has_role('kiosk') AND date = organization_date())
+)
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  OR (has_role('kiosk') AND date = organization_date())
+);
+
+CREATE POLICY "Admins delete attendance"
+ON attendance FOR DELETE
+TO authenticated
+USING (has_role('super_admin', 'hr'));
+
+-- Rosters
+CREATE POLICY "Staff read rosters"
+ON rosters FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr', 'kiosk')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+CREATE POLICY "Managers write rosters"
+ON rosters FOR INSERT
+TO authenticated
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+CREATE POLICY "Managers update rosters"
+ON rosters FOR UPDATE
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+)
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+CREATE POLICY "Admins delete rosters"
+ON rosters FOR DELETE
+TO authenticated
+USING (has_role('super_admin', 'hr'));
+
+-- Gate passes
+CREATE POLICY "Staff read gate passes"
+ON gate_passes FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr', 'security_guard')
+  OR (has_role('department_manager') AND in_my_department(employee_id::uuid))
+);
+
+CREATE POLICY "Managers issue gate passes"
+ON gate_passes FOR INSERT
+TO authenticated
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id::uuid))
+);
+
+-- Guards verify passes and record exit and return times
+CREATE POLICY "Guards update gate passes"
+ON gate_passes FOR UPDATE
+TO authenticated
+USING (has_role('super_admin', 'hr', 'security_guard'))
+WITH CHECK (has_role('super_admin', 'hr', 'security_guard'));
+
+CREATE POLICY "Admins delete gate passes"
+ON gate_passes FOR DELETE
+TO authenticated
+USING (has_role('super_admin', 'hr'));
+
+-- The first user to sign in becomes super admin so the system can be set up;
+-- everyone after that is given a role by a super admin
+CREATE OR REPLACE FUNCTION claim_first_super_admin()
+RETURNS app_role AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  LOCK TABLE user_roles IN EXCLUSIVE MODE;
+  IF NOT EXISTS (SELECT 1 FROM user_roles) THEN
+    INSERT INTO user_roles (user_id, email, role)
+    SELECT id, email, 'super_admin' FROM auth.users WHERE id = auth.uid();
+  END IF;
+  RETURN current_app_role();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION claim_first_super_admin() TO authenticated;
@@ -0,0 +1,207 @@
+-- Registered kiosk devices. An admin creates a one-time pairing code, shown as
+-- a QR; the tablet redeems it through the pair_device edge function and gets
+-- its own kiosk-role account, whose password is the device token. Punches and
+-- gate pass usage written by that account are tagged with the device and its
+-- site by the triggers below, whichever code path wrote them.
+
+CREATE TABLE IF NOT EXISTS kiosk_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  site TEXT NOT NULL,
+  paired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  paired_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_seen_at TIMESTAMPTZ,
+  -- Latest heartbeat: {online, queued_scans, user_agent}
+  health JSONB NOT NULL DEFAULT '{}'::jsonb,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS kiosk_pairing_codes (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  site TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '10 minutes',
+  used_at TIMESTAMPTZ,
+  device_id UUID REFERENCES kiosk_devices(id) ON DELETE SET NULL
+);
+
+-- Which device and site captured each punch and gate pass usage
+CREATE TABLE IF NOT EXISTS device_captures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES kiosk_devices(id) ON DELETE CASCADE,
+  site TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('attendance', 'gate_pass')),
+  record_id UUID NOT NULL,
+  employee_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('check_in', 'check_out', 'exit', 'return')),
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_captures_record ON device_captures(source, record_id);
+CREATE INDEX IF NOT EXISTS idx_device_captures_device_time ON device_captures(device_id, captured_at DESC);
+
+-- The calling kiosk device, or null for people and revoked devices
+CREATE OR REPLACE FUNCTION current_kiosk_device()
+RETURNS kiosk_devices AS $$
+  SELECT * FROM kiosk_devices
+  WHERE user_id = auth.uid()
+    AND revoked_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION capture_attendance_device()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_device kiosk_devices;
+  v_action TEXT;
+BEGIN
+  v_device := current_kiosk_device();
+  IF v_device.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.second_check_in_time IS DISTINCT FROM OLD.second_check_in_time THEN
+    v_action := 'check_in';
+  ELSIF NEW.first_check_out_time IS DISTINCT FROM OLD.first_check_out_time
+     OR NEW.second_check_out_time IS DISTINCT FROM OLD.second_check_out_time THEN
+    v_action := 'check_out';
+  ELSIF NEW.sessions IS DISTINCT FROM OLD.sessions THEN
+    -- Sessions beyond the second only live in the sessions list
+    v_action := CASE
+      WHEN jsonb_array_length(NEW.sessions) > jsonb_array_length(OLD.sessions) THEN 'check_in'
+      ELSE 'check_out'
+    END;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO device_captures (device_id, site, source, record_id, employee_id, action)
+  VALUES (v_device.id, v_device.site, 'attendance', NEW.id, NEW.employee_id, v_action);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attendance_capture_device ON attendance;
+CREATE TRIGGER attendance_capture_device
+AFTER INSERT OR UPDATE ON attendance
+FOR EACH ROW
+EXECUTE FUNCTION capture_attendance_device();
+
+CREATE OR REPLACE FUNCTION capture_gate_pass_device()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_device kiosk_devices;
+BEGIN
+  v_device := current_kiosk_device();
+  IF v_device.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.exit_time IS DISTINCT FROM OLD.exit_time AND NEW.exit_time IS NOT NULL THEN
+    INSERT INTO device_captures (device_id, site, source, record_id, employee_id, action)
+    VALUES (v_device.id, v_device.site, 'gate_pass', NEW.id, NEW.employee_id::uuid, 'exit');
+  END IF;
+  IF NEW.return_time IS DISTINCT FROM OLD.return_time AND NEW.return_time IS NOT NULL THEN
+    INSERT INTO device_captures (device_id, site, source, record_id, employee_id, action)
+    VALUES (v_device.id, v_device.site, 'gate_pass', NEW.id, NEW.employee_id::uuid, 'return');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS gate_pass_capture_device ON gate_passes;
+CREATE TRIGGER gate_pass_capture_device
+AFTER UPDATE ON gate_passes
+FOR EACH ROW
+EXECUTE FUNCTION capture_gate_pass_device();
+
+-- Heartbeat from a paired device. Returns false once the device is revoked
+-- so it can sign itself out.
+CREATE OR REPLACE FUNCTION kiosk_heartbeat(p_health JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_device kiosk_devices;
+BEGIN
+  v_device := current_kiosk_device();
+  IF v_device.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE kiosk_devices
+  SET last_seen_at = NOW(),
+      health = COALESCE(p_health, '{}'::jsonb)
+  WHERE id = v_device.id;
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revoking takes the device's role away, so row level security shuts it out
+-- on its next request
+CREATE OR REPLACE FUNCTION revoke_kiosk_device(p_device_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF NOT has_role('super_admin', 'hr') THEN
+    RAISE EXCEPTION 'Only admins can revoke devices';
+  END IF;
+
+  UPDATE kiosk_devices
+  SET revoked_at = NOW(),
+      revoked_by = auth.uid()
+  WHERE id = p_device_id
+    AND revoked_at IS NULL
+  RETURNING user_id INTO v_user_id;
+
+  IF v_user_id IS NOT NULL THEN
+    DELETE FROM user_roles WHERE user_id = v_user_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION kiosk_heartbeat(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_kiosk_device(UUID) TO authenticated;
+
+ALTER TABLE kiosk_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kiosk_pairing_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_captures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read devices"
+ON kiosk_devices FOR SELECT
+TO authenticated
+USING (has_role('super_admin', 'hr') OR user_id = auth.uid());
+
+CREATE POLICY "Admins rename devices"
+ON kiosk_devices FOR UPDATE
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins manage pairing codes"
+ON kiosk_pairing_codes FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Staff read device captures"
+ON device_captures FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+-- Kiosks at the gate record exit and return on active passes
+CREATE POLICY "Kiosks read gate passes"
+ON gate_passes FOR SELECT
+TO authenticated
+USING (has_role('kiosk'));
+
+CREATE POLICY "Kiosks record gate pass usage"
+ON gate_passes FOR UPDATE
+TO authenticated
+USING (has_role('kiosk') AND status = 'active')
+WITH CHECK (has_role('kiosk'));
@@ -0,0 +1,166 @@
+-- Sites (properties/branches). Each site has its own timezone, working week
+-- and admin contacts. Employees belong to a home site but may punch at any
+-- site; attendance.site_id records where the punch was captured. Holidays and
+-- report schedules may be limited to one site; NULL means every site.
+
+CREATE TABLE IF NOT EXISTS sites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (length(trim(name)) > 0),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Colombo',
+  -- 0 = Sunday ... 6 = Saturday, like report_schedules.days_of_week
+  working_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5,6}',
+  contact_email TEXT,
+  contact_phone TEXT,
+  contact_whatsapp TEXT,
+  contact_telegram TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT sites_working_days_range CHECK (working_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[])
+);
+
+-- Everything recorded so far happened at one property
+INSERT INTO sites (name, timezone)
+SELECT 'Main Site', COALESCE(
+  (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+  'Asia/Colombo'
+)
+WHERE NOT EXISTS (SELECT 1 FROM sites);
+
+-- Kiosk devices were tagged with free-text site names; turn those into sites
+INSERT INTO sites (name, timezone)
+SELECT DISTINCT kiosk_devices.site, (SELECT timezone FROM sites ORDER BY created_at LIMIT 1)
+FROM kiosk_devices
+WHERE NOT EXISTS (SELECT 1 FROM sites WHERE sites.name = kiosk_devices.site);
+
+ALTER TABLE employees ADD COLUMN IF NOT EXISTS home_site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+UPDATE employees SET home_site_id = (SELECT id FROM sites ORDER BY created_at LIMIT 1) WHERE home_site_id IS NULL;
+
+ALTER TABLE attendance ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+UPDATE attendance
+SET site_id = employees.home_site_id
+FROM employees
+WHERE employees.id = attendance.employee_id
+  AND attendance.site_id IS NULL;
+
+-- A department can be specific to one site; NULL is shared by all sites
+ALTER TABLE departments ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+-- The site a roster is worked at; NULL is the employee's home site
+ALTER TABLE rosters ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+
+ALTER TABLE holidays ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE CASCADE;
+DROP INDEX IF EXISTS idx_holidays_date_scope;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holidays_date_scope
+  ON holidays(
+    date,
+    COALESCE(department_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(site_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
+
+ALTER TABLE report_schedules ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_employees_home_site ON employees(home_site_id);
+CREATE INDEX IF NOT EXISTS idx_attendance_site_date ON attendance(site_id, date);
+
+-- Kiosk devices and their captures move from site names to sites
+ALTER TABLE kiosk_devices ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE RESTRICT;
+UPDATE kiosk_devices SET site_id = sites.id FROM sites WHERE sites.name = kiosk_devices.site AND kiosk_devices.site_id IS NULL;
+ALTER TABLE kiosk_devices ALTER COLUMN site_id SET NOT NULL;
+ALTER TABLE kiosk_devices DROP COLUMN IF EXISTS site;
+
+ALTER TABLE kiosk_pairing_codes ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE CASCADE;
+-- Codes only last ten minutes, so outstanding ones are dropped rather than mapped
+DELETE FROM kiosk_pairing_codes WHERE used_at IS NULL;
+UPDATE kiosk_pairing_codes SET site_id = sites.id FROM sites WHERE sites.name = kiosk_pairing_codes.site AND kiosk_pairing_codes.site_id IS NULL;
+ALTER TABLE kiosk_pairing_codes DROP COLUMN IF EXISTS site;
+
+ALTER TABLE device_captures ADD COLUMN IF NOT EXISTS site_id UUID REFERENCES sites(id) ON DELETE CASCADE;
+UPDATE device_captures SET site_id = sites.id FROM sites WHERE sites.name = device_captures.site AND device_captures.site_id IS NULL;
+ALTER TABLE device_captures ALTER COLUMN site_id SET NOT NULL;
+ALTER TABLE device_captures DROP COLUMN IF EXISTS site;
+
+-- Punches are tagged with the capturing kiosk's site, or else the employee's
+-- home site
+CREATE OR REPLACE FUNCTION set_attendance_site()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.site_id IS NULL THEN
+    NEW.site_id := COALESCE(
+      (current_kiosk_device()).site_id,
+      (SELECT home_site_id FROM employees WHERE id = NEW.employee_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attendance_set_site ON attendance;
+CREATE TRIGGER attendance_set_site
+BEFORE INSERT ON attendance
+FOR EACH ROW
+EXECUTE FUNCTION set_attendance_site();
+
+CREATE OR REPLACE FUNCTION capture_attendance_device()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_device kiosk_devices;
+  v_action TEXT;
+BEGIN
+  v_device := current_kiosk_device();
+  IF v_device.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.second_check_in_time IS DISTINCT FROM OLD.second_check_in_time THEN
+    v_action := 'check_in';
+  ELSIF NEW.first_check_out_time IS DISTINCT FROM OLD.first_check_out_time
+     OR NEW.second_check_out_time IS DISTINCT FROM OLD.second_check_out_time THEN
+    v_action := 'check_out';
+  ELSIF NEW.sessions IS DISTINCT FROM OLD.sessions THEN
+    v_action := CASE
+      WHEN jsonb_array_length(NEW.sessions) > jsonb_array_length(OLD.sessions) THEN 'check_in'
+      ELSE 'check_out'
+    END;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO device_captures (device_id, site_id, source, record_id, employee_id, action)
+  VALUES (v_device.id, v_device.site_id, 'attendance', NEW.id, NEW.employee_id, v_action);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION capture_gate_pass_device()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_device kiosk_devices;
+BEGIN
+  v_device := current_kiosk_device();
+  IF v_device.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.exit_time IS DISTINCT FROM OLD.exit_time AND NEW.exit_time IS NOT NULL THEN
+    INSERT INTO device_captures (device_id, site_id, source, record_id, employee_id, action)
+    VALUES (v_device.id, v_device.site_id, 'gate_pass', NEW.id, NEW.employee_id::uuid, 'exit');
+  END IF;
+  IF NEW.return_time IS DISTINCT FROM OLD.return_time AND NEW.return_time IS NOT NULL THEN
+    INSERT INTO device_captures (device_id, site_id, source, record_id, employee_id, action)
+    VALUES (v_device.id, v_device.site_id, 'gate_pass', NEW.id, NEW.employee_id::uuid, 'return');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE sites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read sites"
+ON sites FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage sites"
+ON sites FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
@@ -0,0 +1,5 @@
+-- Employees sign in on their own phones to check themselves in (see the
+-- self_check_in migration). A new enum value cannot be used in the
+-- transaction that adds it, so it gets a migration of its own.
+
+ALTER TYPE app_role ADD VALUE IF NOT EXISTS 'employee';
@@ -0,0 +1,378 @@
+-- Self check-in from an employee's own phone. Employees sign in with the
+-- employee role, linked to their employees row. A check-in is recorded only
+-- when the phone is inside a site's geofence or the employee scanned the
+-- site's rotating QR code at reception; anything else is kept as a flagged
+-- attempt for an admin to approve or reject.
+--
+-- Every punch written by a kiosk or by self check-in gets a device_captures
+-- row with how it was captured (kiosk, self = site QR, geofence) and where.
+
+-- Employee accounts
+ALTER TABLE user_roles ADD COLUMN IF NOT EXISTS employee_id UUID UNIQUE REFERENCES employees(id) ON DELETE CASCADE;
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_employee_link;
+ALTER TABLE user_roles ADD CONSTRAINT user_roles_employee_link CHECK (role <> 'employee' OR employee_id IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION current_employee_id()
+RETURNS UUID AS $$
+  SELECT employee_id FROM user_roles WHERE user_id = auth.uid() AND role = 'employee';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION current_employee_id() TO authenticated;
+
+CREATE POLICY "Employees read themselves"
+ON employees FOR SELECT
+TO authenticated
+USING (id = current_employee_id());
+
+CREATE POLICY "Employees read their own attendance"
+ON attendance FOR SELECT
+TO authenticated
+USING (employee_id = current_employee_id());
+
+-- Site geofences
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90);
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+ALTER TABLE sites ADD COLUMN IF NOT EXISTS geofence_radius_m INTEGER NOT NULL DEFAULT 150 CHECK (geofence_radius_m > 0);
+
+-- Secrets behind the rotating site QR codes. No policies: only the functions
+-- below read them.
+CREATE TABLE IF NOT EXISTS site_check_in_secrets (
+  site_id UUID PRIMARY KEY REFERENCES sites(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex')
+);
+
+ALTER TABLE site_check_in_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON site_check_in_secrets FROM anon, authenticated;
+
+-- How and where each punch was captured. Self check-ins have no device.
+ALTER TABLE device_captures ALTER COLUMN device_id DROP NOT NULL;
+ALTER TABLE device_captures ADD COLUMN IF NOT EXISTS method TEXT NOT NULL DEFAULT 'kiosk'
+  CHECK (method IN ('kiosk', 'self', 'geofence'));
+ALTER TABLE device_captures ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE device_captures ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+ALTER TABLE device_captures ADD COLUMN IF NOT EXISTS accuracy_m DOUBLE PRECISION;
+ALTER TABLE device_captures DROP CONSTRAINT IF EXISTS device_captures_kiosk_device;
+ALTER TABLE device_captures ADD CONSTRAINT device_captures_kiosk_device CHECK (method <> 'kiosk' OR device_id IS NOT NULL);
+
+-- Self check-ins that were not accepted
+CREATE TABLE IF NOT EXISTS self_check_in_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  -- Nearest geofenced site, or the site whose QR code was scanned
+  site_id UUID REFERENCES sites(id) ON DELETE SET NULL,
+  method TEXT NOT NULL CHECK (method IN ('self', 'geofence')),
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  accuracy_m DOUBLE PRECISION,
+  distance_m DOUBLE PRECISION,
+  reason TEXT NOT NULL,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  status TEXT NOT NULL DEFAULT 'flagged' CHECK (status IN ('flagged', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_self_check_in_attempts_status ON self_check_in_attempts(status, attempted_at DESC);
+
+-- Great-circle distance in metres
+CREATE OR REPLACE FUNCTION distance_m(lat1 DOUBLE PRECISION, lon1 DOUBLE PRECISION, lat2 DOUBLE PRECISION, lon2 DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2)
+    + cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The site's code for the 30 second window containing p_at
+CREATE OR REPLACE FUNCTION site_check_in_code(p_site_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS TEXT AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  INSERT INTO site_check_in_secrets (site_id) VALUES (p_site_id) ON CONFLICT (site_id) DO NOTHING;
+  SELECT secret INTO v_secret FROM site_check_in_secrets WHERE site_id = p_site_id;
+
+  RETURN upper(substr(encode(hmac(
+    p_site_id::text || ':' || floor(extract(epoch FROM p_at) / 30)::bigint::text,
+    v_secret,
+    'sha256'
+  ), 'hex'), 1, 8));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION site_check_in_code(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Code for the reception screen. Kiosks only get their own site's code.
+CREATE OR REPLACE FUNCTION get_site_check_in_code(p_site_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_site_id UUID := p_site_id;
+BEGIN
+  IF has_role('kiosk') THEN
+    v_site_id := (current_kiosk_device()).site_id;
+  ELSIF NOT has_role('super_admin', 'hr') THEN
+    RAISE EXCEPTION 'Only admins and kiosks can show site check-in codes';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sites WHERE id = v_site_id) THEN
+    RAISE EXCEPTION 'Site not found';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'site_id', v_site_id,
+    'code', site_check_in_code(v_site_id),
+    'expires_at', to_timestamp((floor(extract(epoch FROM NOW()) / 30) + 1) * 30)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Records a punch for the employee on their active roster. The punch details
+-- are handed to the capture and site triggers through transaction settings.
+CREATE OR REPLACE FUNCTION record_self_punch(
+  p_employee_id UUID,
+  p_site_id UUID,
+  p_method TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy_m DOUBLE PRECISION,
+  p_at TIMESTAMPTZ
+) RETURNS JSONB AS $$
+DECLARE
+  v_roster_id UUID;
+BEGIN
+  SELECT id INTO v_roster_id
+  FROM rosters
+  WHERE employee_id = p_employee_id
+    AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_roster_id IS NULL THEN
+    RETURN jsonb_build_object('status', 'Error', 'message', 'No active roster found for employee');
+  END IF;
+
+  PERFORM set_config('app.punch_method', p_method, true);
+  PERFORM set_config('app.punch_site_id', COALESCE(p_site_id::text, ''), true);
+  PERFORM set_config('app.punch_latitude', COALESCE(p_latitude::text, ''), true);
+  PERFORM set_config('app.punch_longitude', COALESCE(p_longitude::text, ''), true);
+  PERFORM set_config('app.punch_accuracy_m', COALESCE(p_accuracy_m::text, ''), true);
+
+  RETURN process_roster_attendance(p_employee_id, p_at, v_roster_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_self_punch(UUID, UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Check-in from the signed-in employee's phone. With a scanned site code the
+-- punch is recorded at that site when the code is current (or from the
+-- window before, so a code scanned as it rotates still counts). Otherwise the
+-- location must be inside the nearest site's radius, and no less precise than
+-- the radius itself.
+CREATE OR REPLACE FUNCTION self_check_in(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy_m DOUBLE PRECISION,
+  p_site_id UUID DEFAULT NULL,
+  p_site_code TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_employee_id UUID;
+  v_method TEXT;
+  v_site_id UUID;
+  v_site_name TEXT;
+  v_radius INTEGER;
+  v_distance DOUBLE PRECISION;
+  v_reason TEXT;
+  v_result JSONB;
+BEGIN
+  v_employee_id := current_employee_id();
+  IF v_employee_id IS NULL THEN
+    RAISE EXCEPTION 'Only employees can check themselves in';
+  END IF;
+
+  IF p_site_code IS NOT NULL THEN
+    v_method := 'self';
+    SELECT id, name INTO v_site_id, v_site_name FROM sites WHERE id = p_site_id;
+    IF v_site_id IS NULL THEN
+      v_reason := 'Scanned code is not for a known site';
+    ELSIF upper(p_site_code) NOT IN (site_check_in_code(v_site_id), site_check_in_code(v_site_id, NOW() - INTERVAL '30 seconds')) THEN
+      v_reason := 'Site code has expired; scan the code on the screen again';
+    END IF;
+  ELSE
+    IF p_latitude IS NULL OR p_longitude IS NULL THEN
+      RAISE EXCEPTION 'Share your location or scan the site code to check in';
+    END IF;
+
+    v_method := 'geofence';
+    SELECT id, name, geofence_radius_m, distance_m(p_latitude, p_longitude, latitude, longitude)
+    INTO v_site_id, v_site_name, v_radius, v_distance
+    FROM sites
+    WHERE latitude IS NOT NULL AND longitude IS NOT NULL
+    ORDER BY distance_m(p_latitude, p_longitude, latitude, longitude)
+    LIMIT 1;
+
+    IF v_site_id IS NULL THEN
+      v_reason := 'No site has a location set';
+    ELSIF v_distance > v_radius THEN
+      v_reason := format('%s m from %s, outside its %s m radius', round(v_distance), v_site_name, v_radius);
+    ELSIF p_accuracy_m IS NULL OR p_accuracy_m > v_radius THEN
+      v_reason := format('Location accuracy of %s m is not enough for the %s m radius', COALESCE(round(p_accuracy_m)::text, 'unknown'), v_radius);
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO self_check_in_attempts (employee_id, site_id, method, latitude, longitude, accuracy_m, distance_m, reason)
+    VALUES (v_employee_id, v_site_id, v_method, p_latitude, p_longitude, p_accuracy_m, v_distance, v_reason);
+
+    RETURN jsonb_build_object('status', 'Flagged', 'message', v_reason, 'method', v_method, 'site_name', v_site_name);
+  END IF;
+
+  v_result := record_self_punch(v_employee_id, v_site_id, v_method, p_latitude, p_longitude, p_accuracy_m, NOW());
+  RETURN v_result || jsonb_build_object('method', v_method, 'site_name', v_site_name);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approving a flagged attempt records the punch at the time it was attempted
+CREATE OR REPLACE FUNCTION review_self_check_in(p_attempt_id UUID, p_approve BOOLEAN, p_note TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt self_check_in_attempts;
+  v_result JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_attempt FROM self_check_in_attempts WHERE id = p_attempt_id FOR UPDATE;
+  IF v_attempt.id IS NULL THEN
+    RAISE EXCEPTION 'Check-in attempt not found';
+  END IF;
+  IF NOT (has_role('super_admin', 'hr') OR (has_role('department_manager') AND in_my_department(v_attempt.employee_id))) THEN
+    RAISE EXCEPTION 'Not allowed to review this check-in';
+  END IF;
+  IF v_attempt.status <> 'flagged' THEN
+    RAISE EXCEPTION 'This check-in has already been reviewed';
+  END IF;
+
+  IF p_approve THEN
+    v_result := record_self_punch(
+      v_attempt.employee_id,
+      COALESCE(v_attempt.site_id, (SELECT home_site_id FROM employees WHERE id = v_attempt.employee_id)),
+      v_attempt.method,
+      v_attempt.latitude,
+      v_attempt.longitude,
+      v_attempt.accuracy_m,
+      v_attempt.attempted_at
+    );
+    IF v_result->>'status' = 'Error' THEN
+      RETURN v_result;
+    END IF;
+  END IF;
+
+  UPDATE self_check_in_attempts
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_note = NULLIF(trim(p_note), '')
+  WHERE id = p_attempt_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_site_check_in_code(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION self_check_in(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_self_check_in(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Self check-ins are placed at the site they were accepted for
+CREATE OR REPLACE FUNCTION set_attendance_site()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.site_id IS NULL THEN
+    NEW.site_id := COALESCE(
+      NULLIF(current_setting('app.punch_site_id', true), '')::uuid,
+      (current_kiosk_device()).site_id,
+      (SELECT home_site_id FROM employees WHERE id = NEW.employee_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Kiosk punches take the tablet's last reported position (see kiosk_heartbeat),
+-- falling back to where its site is
+CREATE OR REPLACE FUNCTION capture_attendance_device()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_device kiosk_devices;
+  v_method TEXT;
+  v_action TEXT;
+BEGIN
+  v_method := NULLIF(current_setting('app.punch_method', true), '');
+  v_device := current_kiosk_device();
+  IF v_method IS NULL AND v_device.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.second_check_in_time IS DISTINCT FROM OLD.second_check_in_time THEN
+    v_action := 'check_in';
+  ELSIF NEW.first_check_out_time IS DISTINCT FROM OLD.first_check_out_time
+     OR NEW.second_check_out_time IS DISTINCT FROM OLD.second_check_out_time THEN
+    v_action := 'check_out';
+  ELSIF NEW.sessions IS DISTINCT FROM OLD.sessions THEN
+    v_action := CASE
+      WHEN jsonb_array_length(NEW.sessions) > jsonb_array_length(OLD.sessions) THEN 'check_in'
+      ELSE 'check_out'
+    END;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  IF v_method IS NOT NULL THEN
+    INSERT INTO device_captures (device_id, site_id, source, record_id, employee_id, action, method, latitude, longitude, accuracy_m)
+    VALUES (
+      NULL,
+      COALESCE(NULLIF(current_setting('app.punch_site_id', true), '')::uuid, NEW.site_id),
+      'attendance',
+      NEW.id,
+      NEW.employee_id,
+      v_action,
+      v_method,
+      NULLIF(current_setting('app.punch_latitude', true), '')::double precision,
+      NULLIF(current_setting('app.punch_longitude', true), '')::double precision,
+      NULLIF(current_setting('app.punch_accuracy_m', true), '')::double precision
+    );
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO device_captures (device_id, site_id, source, record_id, employee_id, action, method, latitude, longitude, accuracy_m)
+  SELECT
+    v_device.id,
+    v_device.site_id,
+    'attendance',
+    NEW.id,
+    NEW.employee_id,
+    v_action,
+    'kiosk',
+    COALESCE((v_device.health->'location'->>'latitude')::double precision, sites.latitude),
+    COALESCE((v_device.health->'location'->>'longitude')::double precision, sites.longitude),
+    (v_device.health->'location'->>'accuracy')::double precision
+  FROM sites
+  WHERE sites.id = v_device.site_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE self_check_in_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through review_self_check_in
+CREATE POLICY "Staff read check-in attempts"
+ON self_check_in_attempts FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  OR employee_id = current_employee_id()
+);
+
+CREATE POLICY "Employees read their own captures"
+ON device_captures FOR SELECT
+TO authenticated
+USING (employee_id = current_employee_id());
@@ -0,0 +1,6 @@
+-- Gate passes are requested and then approved or rejected (see the
+-- gate_pass_approvals migration). A new enum value cannot be used in the
+-- transaction that adds it, so they get a migration of their own.
+
+ALTER TYPE pass_status ADD VALUE IF NOT EXISTS 'pending' BEFORE 'active';
+ALTER TYPE pass_status ADD VALUE IF NOT EXISTS 'rejected';
@@ -0,0 +1,134 @@
+-- Gate passes start as pending requests. The employee's department head (a
+-- department_manager of their department), HR or a super admin approves or
+-- rejects them with a comment through review_gate_pass; approval makes the
+-- pass active, and only then can it be downloaded or used at the gate.
+--
+-- gate_pass_logs gets one row per status change with the signed-in user who
+-- made it, and can no longer be written from the app.
+
+ALTER TABLE gate_passes ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_gate_passes_pending ON gate_passes(created_at) WHERE status = 'pending';
+
+-- However a pass is inserted (create_gate_pass, create_gate_pass_with_times
+-- or directly), it is a request from the signed-in user
+CREATE OR REPLACE FUNCTION request_gate_pass()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status := 'pending';
+  NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_comment := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gate_pass_request ON gate_passes;
+CREATE TRIGGER gate_pass_request
+BEFORE INSERT ON gate_passes
+FOR EACH ROW
+EXECUTE FUNCTION request_gate_pass();
+
+-- Pending and rejected passes change only through review_gate_pass
+DROP POLICY IF EXISTS "Guards update gate passes" ON gate_passes;
+CREATE POLICY "Guards update gate passes"
+ON gate_passes FOR UPDATE
+TO authenticated
+USING (has_role('super_admin', 'hr', 'security_guard') AND status NOT IN ('pending', 'rejected'))
+WITH CHECK (has_role('super_admin', 'hr', 'security_guard') AND status NOT IN ('pending', 'rejected'));
+
+CREATE OR REPLACE FUNCTION review_gate_pass(p_pass_id UUID, p_approve BOOLEAN, p_comment TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_pass gate_passes;
+BEGIN
+  SELECT * INTO v_pass FROM gate_passes WHERE id = p_pass_id FOR UPDATE;
+  IF v_pass.id IS NULL THEN
+    RAISE EXCEPTION 'Gate pass not found';
+  END IF;
+  IF NOT (has_role('super_admin', 'hr') OR (has_role('department_manager') AND in_my_department(v_pass.employee_id))) THEN
+    RAISE EXCEPTION 'Only the employee''s department head or HR can review this gate pass';
+  END IF;
+  IF v_pass.status <> 'pending' THEN
+    RAISE EXCEPTION 'This gate pass has already been reviewed';
+  END IF;
+  IF v_pass.created_by = auth.uid() THEN
+    RAISE EXCEPTION 'A gate pass must be reviewed by someone other than who requested it';
+  END IF;
+  IF NOT p_approve AND NULLIF(trim(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Please give a reason for rejecting the gate pass';
+  END IF;
+
+  IF p_approve AND v_pass.expires_at <= NOW() THEN
+    UPDATE gate_passes
+    SET status = 'expired',
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW(),
+        review_comment = NULLIF(trim(p_comment), '')
+    WHERE id = p_pass_id;
+    RETURN jsonb_build_object('status', 'Error', 'message', 'This gate pass expired before it was approved');
+  END IF;
+
+  UPDATE gate_passes
+  SET status = CASE WHEN p_approve THEN 'active'::pass_status ELSE 'rejected'::pass_status END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_comment = NULLIF(trim(p_comment), '')
+  WHERE id = p_pass_id;
+
+  RETURN jsonb_build_object('status', 'Success');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION review_gate_pass(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- One log row per status change. The actor is the signed-in user; changes
+-- made with the service role fall back to whoever the row names.
+CREATE OR REPLACE FUNCTION log_gate_pass_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO gate_pass_logs (gate_pass_id, action, old_status, new_status, performed_by, notes)
+  VALUES (
+    NEW.id,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'CREATE'
+      WHEN OLD.status = 'pending' AND NEW.status = 'active' THEN 'APPROVE'
+      WHEN NEW.status = 'rejected' THEN 'REJECT'
+      WHEN NEW.status = 'used' THEN 'USE'
+      WHEN NEW.status = 'expired' THEN 'EXPIRE'
+      WHEN NEW.status = 'revoked' THEN 'REVOKE'
+      ELSE 'UPDATE'
+    END,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    COALESCE(auth.uid(), NEW.reviewed_by, NEW.revoked_by, NEW.used_by, NEW.created_by),
+    CASE
+      WHEN TG_OP = 'UPDATE' AND OLD.status = 'pending' THEN NEW.review_comment
+      WHEN NEW.status = 'revoked' THEN NEW.revocation_reason
+      WHEN NEW.status = 'used' THEN 'Pass used'
+      WHEN NEW.status = 'expired' THEN 'Pass expired'
+    END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Logs are read alongside the passes they belong to and written only by the
+-- trigger above
+DROP POLICY IF EXISTS "logs_all" ON gate_pass_logs;
+DROP POLICY IF EXISTS "Staff read gate pass logs" ON gate_pass_logs;
+
+REVOKE INSERT, UPDATE, DELETE ON gate_pass_logs FROM anon, authenticated;
+
+CREATE POLICY "Staff read gate pass logs"
+ON gate_pass_logs FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM gate_passes WHERE gate_passes.id = gate_pass_logs.gate_pass_id));
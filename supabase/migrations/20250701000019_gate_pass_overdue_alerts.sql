@@ -0,0 +1,126 @@
+-- Overdue gate pass returns. Recording an exit stamps exited_at and the
+-- instant the employee is due back (return_due_at), read from the expected
+-- return time in the organization timezone. The monitor_gate_pass_returns
+-- edge function, called by pg_cron every five minutes, alerts the pass's
+-- approver and the security guards once a return is overdue and escalates to
+-- the admins at each later step of admin_settings.gate_pass_alert_minutes.
+-- Each step is claimed in gate_pass_alerts before it is sent, so it goes out
+-- once per trip.
+
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS exited_at TIMESTAMPTZ;
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS returned_at TIMESTAMPTZ;
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS return_due_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_gate_passes_outside
+  ON gate_passes(return_due_at)
+  WHERE exited_at IS NOT NULL AND returned_at IS NULL;
+
+-- Minutes past the expected return at which each alert goes out; the first
+-- goes to the approver and security, the rest also escalate to the admins
+ALTER TABLE admin_settings
+  ADD COLUMN IF NOT EXISTS gate_pass_alert_minutes INTEGER[] NOT NULL DEFAULT '{0,30,120}';
+
+-- Expected return times are wall-clock text from the time picker ('14:30' or
+-- '02:30 PM'). The due instant is that time on the day of the exit, or the
+-- next day when it is more than twelve hours before the exit (an overnight
+-- trip). Unreadable times give NULL, and such passes are never overdue.
+CREATE OR REPLACE FUNCTION gate_pass_return_due(p_exited_at TIMESTAMPTZ, p_expected TEXT)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_timezone TEXT;
+  v_time TIME;
+  v_due TIMESTAMPTZ;
+BEGIN
+  IF p_exited_at IS NULL OR NULLIF(trim(p_expected), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    v_time := trim(p_expected)::time;
+  EXCEPTION
+    WHEN others THEN RETURN NULL;
+  END;
+
+  v_timezone := COALESCE(
+    (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+    'UTC'
+  );
+  v_due := (organization_date(p_exited_at) + v_time) AT TIME ZONE v_timezone;
+  IF v_due < p_exited_at - INTERVAL '12 hours' THEN
+    v_due := v_due + INTERVAL '1 day';
+  END IF;
+  RETURN v_due;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- A new exit on a multi-use pass starts a new trip
+CREATE OR REPLACE FUNCTION track_gate_pass_trip()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.exit_time IS NOT NULL AND NEW.exit_time IS DISTINCT FROM OLD.exit_time THEN
+    NEW.exited_at := NOW();
+    IF NEW.return_time IS NOT DISTINCT FROM OLD.return_time THEN
+      NEW.return_time := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.return_time IS NULL THEN
+    NEW.returned_at := NULL;
+  ELSIF NEW.return_time IS DISTINCT FROM OLD.return_time THEN
+    NEW.returned_at := NOW();
+  END IF;
+
+  NEW.return_due_at := gate_pass_return_due(NEW.exited_at, NEW.expected_return_time);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gate_pass_track_trip ON gate_passes;
+CREATE TRIGGER gate_pass_track_trip
+BEFORE UPDATE ON gate_passes
+FOR EACH ROW
+EXECUTE FUNCTION track_gate_pass_trip();
+
+-- Passes already out when this runs; their exit day is taken as the last update
+UPDATE gate_passes
+SET exited_at = COALESCE(updated_at, created_at)
+WHERE exit_time IS NOT NULL AND return_time IS NULL AND exited_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS gate_pass_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gate_pass_id UUID NOT NULL REFERENCES gate_passes(id) ON DELETE CASCADE,
+  -- The trip the alert belongs to
+  exited_at TIMESTAMPTZ NOT NULL,
+  -- 0 is the first alert, 1 and up are escalations
+  step SMALLINT NOT NULL,
+  overdue_minutes INTEGER NOT NULL,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (gate_pass_id, exited_at, step)
+);
+
+ALTER TABLE gate_pass_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read gate pass alerts" ON gate_pass_alerts;
+CREATE POLICY "Staff read gate pass alerts"
+ON gate_pass_alerts FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM gate_passes WHERE gate_passes.id = gate_pass_alerts.gate_pass_id));
+
+-- The project URL and service role key come from the Vault secrets
+-- 'project_url' and 'service_role_key'
+SELECT cron.schedule(
+  'monitor-gate-pass-returns',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/monitor_gate_pass_returns',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,82 @@
+-- Visitor register. Security logs visitors, vendors and contractors as they
+-- arrive, with who they are visiting, and gives them a time-boxed gate pass.
+-- A visitor pass is a gate_passes row with visitor_id instead of employee_id;
+-- it needs no approval and is active as soon as it is issued. The host is
+-- told of the arrival through the notify_visitor_host edge function.
+
+CREATE TABLE IF NOT EXISTS visitors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name TEXT NOT NULL CHECK (length(trim(full_name)) > 0),
+  visitor_type TEXT NOT NULL DEFAULT 'visitor' CHECK (visitor_type IN ('visitor', 'vendor', 'contractor')),
+  company TEXT,
+  host_employee_id UUID NOT NULL REFERENCES employees(id),
+  id_document_number TEXT,
+  vehicle_plate TEXT,
+  purpose TEXT,
+  -- Small JPEG data URL taken at the gate
+  photo TEXT,
+  registered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  arrived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_visitors_arrived_at ON visitors(arrived_at DESC);
+CREATE INDEX IF NOT EXISTS idx_visitors_host ON visitors(host_employee_id);
+
+ALTER TABLE visitors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read visitors" ON visitors;
+DROP POLICY IF EXISTS "Security registers visitors" ON visitors;
+
+CREATE POLICY "Staff read visitors"
+ON visitors FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr', 'security_guard', 'kiosk')
+  OR (has_role('department_manager') AND in_my_department(host_employee_id))
+);
+
+CREATE POLICY "Security registers visitors"
+ON visitors FOR INSERT
+TO authenticated
+WITH CHECK (has_role('super_admin', 'hr', 'security_guard'));
+
+-- Gate passes for visitors
+ALTER TABLE gate_passes ALTER COLUMN employee_id DROP NOT NULL;
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS visitor_id UUID REFERENCES visitors(id) ON DELETE CASCADE;
+ALTER TABLE gate_passes DROP CONSTRAINT IF EXISTS gate_passes_holder;
+ALTER TABLE gate_passes ADD CONSTRAINT gate_passes_holder
+  CHECK ((employee_id IS NULL) <> (visitor_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_gate_passes_visitor_id ON gate_passes(visitor_id);
+
+-- Employee passes wait for approval; visitor passes are issued at the gate
+CREATE OR REPLACE FUNCTION request_gate_pass()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.status := CASE WHEN NEW.visitor_id IS NULL THEN 'pending'::pass_status ELSE 'active'::pass_status END;
+  NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_comment := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE POLICY "Security issues visitor passes"
+ON gate_passes FOR INSERT
+TO authenticated
+WITH CHECK (visitor_id IS NOT NULL AND has_role('super_admin', 'hr', 'security_guard'));
+
+-- Department heads see visitors to their own department
+CREATE POLICY "Managers read visitor passes"
+ON gate_passes FOR SELECT
+TO authenticated
+USING (
+  visitor_id IS NOT NULL
+  AND has_role('department_manager')
+  AND EXISTS (
+    SELECT 1 FROM visitors
+    WHERE visitors.id = gate_passes.visitor_id
+      AND in_my_department(visitors.host_employee_id)
+  )
+);
@@ -0,0 +1,173 @@
+-- Offline-verifiable gate passes. The sign_gate_pass edge function signs a
+-- compact payload (pass id, holder, type and validity window) with the badge
+-- signing key and stores it in qr_data, so a guard device can check a pass
+-- with the cached public key and no connection. Exits and returns recorded
+-- offline are queued on the device and replayed through
+-- sync_gate_pass_usage, which keeps every usage in gate_pass_usage_events and
+-- flags double use when several gates sync the same pass.
+
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS qr_data TEXT;
+
+CREATE TABLE IF NOT EXISTS gate_pass_usage_events (
+  -- Generated on the device for offline events, so a replay is idempotent
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gate_pass_id UUID NOT NULL REFERENCES gate_passes(id) ON DELETE CASCADE,
+  usage_type TEXT NOT NULL CHECK (usage_type IN ('exit', 'return')),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('online', 'offline')),
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Why the event was not applied to the pass, e.g. a double use
+  conflict TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_gate_pass_usage_events_pass
+  ON gate_pass_usage_events(gate_pass_id, occurred_at);
+
+ALTER TABLE gate_pass_usage_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff read gate pass usage" ON gate_pass_usage_events;
+CREATE POLICY "Staff read gate pass usage"
+ON gate_pass_usage_events FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM gate_passes WHERE gate_passes.id = gate_pass_usage_events.gate_pass_id));
+
+-- Writes only go through the triggers and sync_gate_pass_usage
+REVOKE INSERT, UPDATE, DELETE ON gate_pass_usage_events FROM authenticated, anon;
+
+-- A replayed exit starts its trip when it happened, not when it synced.
+-- sync_gate_pass_usage passes that time in app.gate_pass_event_at.
+CREATE OR REPLACE FUNCTION track_gate_pass_trip()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event_at TIMESTAMPTZ := COALESCE(NULLIF(current_setting('app.gate_pass_event_at', true), '')::timestamptz, NOW());
+BEGIN
+  IF NEW.exit_time IS NOT NULL AND NEW.exit_time IS DISTINCT FROM OLD.exit_time THEN
+    NEW.exited_at := v_event_at;
+    IF NEW.return_time IS NOT DISTINCT FROM OLD.return_time THEN
+      NEW.return_time := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.return_time IS NULL THEN
+    NEW.returned_at := NULL;
+  ELSIF NEW.return_time IS DISTINCT FROM OLD.return_time THEN
+    NEW.returned_at := v_event_at;
+  END IF;
+
+  NEW.return_due_at := gate_pass_return_due(NEW.exited_at, NEW.expected_return_time);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exits and returns recorded online go into the same event log
+CREATE OR REPLACE FUNCTION log_gate_pass_usage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NULLIF(current_setting('app.gate_pass_event_at', true), '') IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.exited_at IS DISTINCT FROM OLD.exited_at AND NEW.exited_at IS NOT NULL THEN
+    INSERT INTO gate_pass_usage_events (gate_pass_id, usage_type, occurred_at, source, recorded_by)
+    VALUES (NEW.id, 'exit', NEW.exited_at, 'online', auth.uid());
+  END IF;
+  IF NEW.returned_at IS DISTINCT FROM OLD.returned_at AND NEW.returned_at IS NOT NULL THEN
+    INSERT INTO gate_pass_usage_events (gate_pass_id, usage_type, occurred_at, source, recorded_by)
+    VALUES (NEW.id, 'return', NEW.returned_at, 'online', auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS gate_pass_log_usage ON gate_passes;
+CREATE TRIGGER gate_pass_log_usage
+AFTER UPDATE ON gate_passes
+FOR EACH ROW
+EXECUTE FUNCTION log_gate_pass_usage();
+
+-- Replay one exit or return recorded offline. Returns status 'Recorded' when
+-- the pass was updated, 'Duplicate' when the event was already synced, and
+-- 'Conflict' with a message when it is kept in the log but not applied:
+-- the pass was not valid at the time, or it was already out through another
+-- gate (or, for a single-use pass, used before).
+CREATE OR REPLACE FUNCTION sync_gate_pass_usage(
+  p_event_id UUID,
+  p_pass_id UUID,
+  p_usage_type TEXT,
+  p_occurred_at TIMESTAMPTZ,
+  p_time TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_pass gate_passes%ROWTYPE;
+  v_previous gate_pass_usage_events%ROWTYPE;
+  v_next gate_pass_usage_events%ROWTYPE;
+  v_conflict TEXT;
+BEGIN
+  IF NOT has_role('super_admin', 'hr', 'security_guard') THEN
+    RAISE EXCEPTION 'Only security staff can record gate pass usage';
+  END IF;
+  IF p_usage_type NOT IN ('exit', 'return') THEN
+    RAISE EXCEPTION 'Unknown usage type %', p_usage_type;
+  END IF;
+
+  SELECT * INTO v_pass FROM gate_passes WHERE id = p_pass_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'Conflict', 'message', 'Gate pass not found');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM gate_pass_usage_events WHERE id = p_event_id) THEN
+    RETURN jsonb_build_object('status', 'Duplicate', 'message', 'Already synced');
+  END IF;
+
+  -- Neighbouring events in time, whichever gate and sync order they came from
+  SELECT * INTO v_previous FROM gate_pass_usage_events
+  WHERE gate_pass_id = p_pass_id AND conflict IS NULL AND occurred_at <= p_occurred_at
+  ORDER BY occurred_at DESC LIMIT 1;
+  SELECT * INTO v_next FROM gate_pass_usage_events
+  WHERE gate_pass_id = p_pass_id AND conflict IS NULL AND occurred_at > p_occurred_at
+  ORDER BY occurred_at LIMIT 1;
+
+  IF v_pass.status IN ('pending', 'rejected') THEN
+    v_conflict := format('The pass was %s', v_pass.status);
+  ELSIF v_pass.status = 'revoked' AND v_pass.revoked_at <= p_occurred_at THEN
+    v_conflict := 'The pass had been revoked';
+  ELSIF p_occurred_at > v_pass.expires_at THEN
+    v_conflict := 'The pass had expired';
+  ELSIF p_usage_type = 'exit' AND v_pass.validity = 'single' AND EXISTS (
+    SELECT 1 FROM gate_pass_usage_events
+    WHERE gate_pass_id = p_pass_id AND conflict IS NULL AND usage_type = 'exit'
+  ) THEN
+    v_conflict := 'Double use: this single-use pass was already used to exit';
+  ELSIF p_usage_type = 'exit' AND v_previous.usage_type = 'exit' THEN
+    v_conflict := format('Double use: already out since %s', v_previous.occurred_at);
+  ELSIF p_usage_type = 'exit' AND v_next.usage_type = 'exit' THEN
+    v_conflict := format('Double use: the pass was used to exit again at %s', v_next.occurred_at);
+  ELSIF p_usage_type = 'return' AND v_previous.usage_type IS DISTINCT FROM 'exit' THEN
+    v_conflict := 'Return without an exit';
+  END IF;
+
+  INSERT INTO gate_pass_usage_events (id, gate_pass_id, usage_type, occurred_at, source, recorded_by, conflict)
+  VALUES (p_event_id, p_pass_id, p_usage_type, p_occurred_at, 'offline', auth.uid(), v_conflict);
+
+  IF v_conflict IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'Conflict', 'message', v_conflict);
+  END IF;
+
+  -- Later events already moved the pass on; the log keeps this one
+  IF v_next.id IS NULL THEN
+    PERFORM set_config('app.gate_pass_event_at', p_occurred_at::text, true);
+    IF p_usage_type = 'exit' THEN
+      UPDATE gate_passes SET exit_time = p_time, updated_at = NOW() WHERE id = p_pass_id;
+    ELSE
+      UPDATE gate_passes SET return_time = p_time, updated_at = NOW() WHERE id = p_pass_id;
+    END IF;
+    PERFORM set_config('app.gate_pass_event_at', '', true);
+  END IF;
+
+  RETURN jsonb_build_object('status', 'Recorded', 'message', format('%s recorded', initcap(p_usage_type)));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION sync_gate_pass_usage(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
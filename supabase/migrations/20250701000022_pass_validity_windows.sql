@@ -0,0 +1,6 @@
+-- Gate passes can run for a custom window or on a recurring weekly schedule
+-- (see the gate_pass_schedules migration). A new enum value cannot be used in
+-- the transaction that adds it, so they get a migration of their own.
+
+ALTER TYPE pass_validity ADD VALUE IF NOT EXISTS 'custom';
+ALTER TYPE pass_validity ADD VALUE IF NOT EXISTS 'recurring';
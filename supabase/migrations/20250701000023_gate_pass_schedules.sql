@@ -0,0 +1,170 @@
+-- Custom validity windows and recurring schedules. A 'custom' pass is valid
+-- from valid_from to expires_at. A 'recurring' pass is valid between
+-- valid_from and expires_at (the start and end dates) and only lets the
+-- holder out on schedule_days between schedule_start and schedule_end,
+-- wall-clock times in the organization timezone. Exits outside the window are
+-- refused when recorded online and flagged as conflicts when replayed from a
+-- guard device.
+
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS valid_from TIMESTAMPTZ;
+-- 0 is Sunday, as in EXTRACT(DOW) and Date.getDay()
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS schedule_days SMALLINT[];
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS schedule_start TIME;
+ALTER TABLE gate_passes ADD COLUMN IF NOT EXISTS schedule_end TIME;
+
+ALTER TABLE gate_passes DROP CONSTRAINT IF EXISTS gate_passes_schedule;
+ALTER TABLE gate_passes ADD CONSTRAINT gate_passes_schedule CHECK (
+  (schedule_days IS NULL AND schedule_start IS NULL AND schedule_end IS NULL)
+  OR (
+    cardinality(schedule_days) > 0
+    AND schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+    AND schedule_start < schedule_end
+  )
+);
+ALTER TABLE gate_passes DROP CONSTRAINT IF EXISTS gate_passes_window;
+ALTER TABLE gate_passes ADD CONSTRAINT gate_passes_window
+  CHECK (valid_from IS NULL OR valid_from < expires_at);
+
+-- Why an exit at p_at is not allowed on the pass, or NULL when it is
+CREATE OR REPLACE FUNCTION gate_pass_exit_denial(p_pass gate_passes, p_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+  v_timezone TEXT := COALESCE(
+    (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+    'UTC'
+  );
+  -- Whole minutes, as the times on the pass are
+  v_local TIMESTAMP := date_trunc('minute', p_at AT TIME ZONE v_timezone);
+BEGIN
+  IF p_pass.valid_from IS NOT NULL AND p_at < p_pass.valid_from THEN
+    RETURN 'The pass is valid from ' || to_char(p_pass.valid_from AT TIME ZONE v_timezone, 'YYYY-MM-DD HH24:MI');
+  END IF;
+  IF p_pass.schedule_days IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT (EXTRACT(DOW FROM v_local)::SMALLINT = ANY (p_pass.schedule_days)) THEN
+    RETURN 'The pass does not allow exits on ' || trim(to_char(v_local, 'Day'));
+  END IF;
+  IF v_local::time < p_pass.schedule_start OR v_local::time > p_pass.schedule_end THEN
+    RETURN format('The pass only allows exits between %s and %s',
+      to_char(p_pass.schedule_start, 'HH24:MI'), to_char(p_pass.schedule_end, 'HH24:MI'));
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Refuse an exit outside the window however it is recorded. Replays set
+-- app.gate_pass_event_at and are checked by sync_gate_pass_usage instead.
+CREATE OR REPLACE FUNCTION enforce_gate_pass_schedule()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_denial TEXT;
+BEGIN
+  IF NEW.exit_time IS NOT NULL AND NEW.exit_time IS DISTINCT FROM OLD.exit_time
+     AND NULLIF(current_setting('app.gate_pass_event_at', true), '') IS NULL THEN
+    v_denial := gate_pass_exit_denial(NEW, NOW());
+    IF v_denial IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_denial;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS gate_pass_enforce_schedule ON gate_passes;
+CREATE TRIGGER gate_pass_enforce_schedule
+BEFORE UPDATE ON gate_passes
+FOR EACH ROW
+EXECUTE FUNCTION enforce_gate_pass_schedule();
+
+-- Same as in the gate_pass_signatures migration, with exits outside the
+-- window as conflicts.
+--
+-- Replay one exit or return recorded offline. Returns status 'Recorded' when
+-- the pass was updated, 'Duplicate' when the event was already synced, and
+-- 'Conflict' with a message when it is kept in the log but not applied:
+-- the pass was not valid at the time, or it was already out through another
+-- gate (or, for a single-use pass, used before).
+CREATE OR REPLACE FUNCTION sync_gate_pass_usage(
+  p_event_id UUID,
+  p_pass_id UUID,
+  p_usage_type TEXT,
+  p_occurred_at TIMESTAMPTZ,
+  p_time TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_pass gate_passes%ROWTYPE;
+  v_previous gate_pass_usage_events%ROWTYPE;
+  v_next gate_pass_usage_events%ROWTYPE;
+  v_conflict TEXT;
+BEGIN
+  IF NOT has_role('super_admin', 'hr', 'security_guard') THEN
+    RAISE EXCEPTION 'Only security staff can record gate pass usage';
+  END IF;
+  IF p_usage_type NOT IN ('exit', 'return') THEN
+    RAISE EXCEPTION 'Unknown usage type %', p_usage_type;
+  END IF;
+
+  SELECT * INTO v_pass FROM gate_passes WHERE id = p_pass_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'Conflict', 'message', 'Gate pass not found');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM gate_pass_usage_events WHERE id = p_event_id) THEN
+    RETURN jsonb_build_object('status', 'Duplicate', 'message', 'Already synced');
+  END IF;
+
+  -- Neighbouring events in time, whichever gate and sync order they came from
+  SELECT * INTO v_previous FROM gate_pass_usage_events
+  WHERE gate_pass_id = p_pass_id AND conflict IS NULL AND occurred_at <= p_occurred_at
+  ORDER BY occurred_at DESC LIMIT 1;
+  SELECT * INTO v_next FROM gate_pass_usage_events
+  WHERE gate_pass_id = p_pass_id AND conflict IS NULL AND occurred_at > p_occurred_at
+  ORDER BY occurred_at LIMIT 1;
+
+  IF v_pass.status IN ('pending', 'rejected') THEN
+    v_conflict := format('The pass was %s', v_pass.status);
+  ELSIF v_pass.status = 'revoked' AND v_pass.revoked_at <= p_occurred_at THEN
+    v_conflict := 'The pass had been revoked';
+  ELSIF p_occurred_at > v_pass.expires_at THEN
+    v_conflict := 'The pass had expired';
+  ELSIF p_usage_type = 'exit' AND gate_pass_exit_denial(v_pass, p_occurred_at) IS NOT NULL THEN
+    v_conflict := gate_pass_exit_denial(v_pass, p_occurred_at);
+  ELSIF p_usage_type = 'exit' AND v_pass.validity = 'single' AND EXISTS (
+    SELECT 1 FROM gate_pass_usage_events
+    WHERE gate_pass_id = p_pass_id AND conflict IS NULL AND usage_type = 'exit'
+  ) THEN
+    v_conflict := 'Double use: this single-use pass was already used to exit';
+  ELSIF p_usage_type = 'exit' AND v_previous.usage_type = 'exit' THEN
+    v_conflict := format('Double use: already out since %s', v_previous.occurred_at);
+  ELSIF p_usage_type = 'exit' AND v_next.usage_type = 'exit' THEN
+    v_conflict := format('Double use: the pass was used to exit again at %s', v_next.occurred_at);
+  ELSIF p_usage_type = 'return' AND v_previous.usage_type IS DISTINCT FROM 'exit' THEN
+    v_conflict := 'Return without an exit';
+  END IF;
+
+  INSERT INTO gate_pass_usage_events (id, gate_pass_id, usage_type, occurred_at, source, recorded_by, conflict)
+  VALUES (p_event_id, p_pass_id, p_usage_type, p_occurred_at, 'offline', auth.uid(), v_conflict);
+
+  IF v_conflict IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'Conflict', 'message', v_conflict);
+  END IF;
+
+  -- Later events already moved the pass on; the log keeps this one
+  IF v_next.id IS NULL THEN
+    PERFORM set_config('app.gate_pass_event_at', p_occurred_at::text, true);
+    IF p_usage_type = 'exit' THEN
+      UPDATE gate_passes SET exit_time = p_time, updated_at = NOW() WHERE id = p_pass_id;
+    ELSE
+      UPDATE gate_passes SET return_time = p_time, updated_at = NOW() WHERE id = p_pass_id;
+    END IF;
+    PERFORM set_config('app.gate_pass_event_at', '', true);
+  END IF;
+
+  RETURN jsonb_build_object('status', 'Recorded', 'message', format('%s recorded', initcap(p_usage_type)));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION sync_gate_pass_usage(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT) TO authenticated;
@@ -0,0 +1,46 @@
+-- Signed badges are as good as the physical card: anyone holding qr_data can
+-- print a copy. Reading badges is limited to the roles that issue or check
+-- them, and employees may read their own. Only super admins and HR revoke.
+
+DROP POLICY IF EXISTS "Enable read access for all users" ON employee_badges;
+DROP POLICY IF EXISTS "Enable revocation for authenticated users" ON employee_badges;
+DROP POLICY IF EXISTS "Staff read employee badges" ON employee_badges;
+DROP POLICY IF EXISTS "Admins revoke employee badges" ON employee_badges;
+
+REVOKE ALL ON employee_badges FROM anon;
+
+-- Kiosks check the serial of every scanned badge for revocation
+CREATE POLICY "Staff read employee badges"
+ON employee_badges FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr', 'kiosk')
+  OR employee_id = current_employee_id()
+);
+
+CREATE POLICY "Admins revoke employee badges"
+ON employee_badges FOR UPDATE
+TO authenticated
+USING (has_role('super_admin', 'hr') AND revoked_at IS NULL)
+WITH CHECK (has_role('super_admin', 'hr') AND revoked_at IS NOT NULL);
+
+-- The revoking user is whoever is signed in, not a value sent by the client
+CREATE OR REPLACE FUNCTION protect_employee_badge_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.employee_id <> OLD.employee_id
+     OR NEW.serial <> OLD.serial
+     OR NEW.key_id <> OLD.key_id
+     OR NEW.qr_data <> OLD.qr_data
+     OR NEW.issued_at <> OLD.issued_at THEN
+    RAISE EXCEPTION 'Only revocation fields of a badge can be changed';
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Badge % is already revoked', OLD.serial;
+  END IF;
+
+  NEW.revoked_by := auth.uid();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,289 @@
+-- Punches are recorded by one database function so the kiosk scanners, the
+-- offline replay and self check-in share the same session rules. This is the
+-- only place the rules are enforced; src/utils/attendanceStateMachine.ts only
+-- reads records to show the next action.
+
+-- Business date of a punch in the organization timezone, as getBusinessDate in
+-- businessDayUtils.ts works it out. Overnight shifts split the off-duty gap
+-- in half: punches before its midpoint belong to the previous day's shift.
+CREATE OR REPLACE FUNCTION attendance_business_date(
+  p_punch_time TIMESTAMPTZ,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL
+) RETURNS DATE AS $$
+DECLARE
+  v_timezone TEXT;
+  v_local TIMESTAMP;
+  v_start INTEGER;
+  v_end INTEGER;
+BEGIN
+  v_timezone := COALESCE(
+    (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+    'UTC'
+  );
+  v_local := p_punch_time AT TIME ZONE v_timezone;
+
+  IF p_start_time IS NULL OR p_end_time IS NULL OR p_end_time > p_start_time THEN
+    RETURN v_local::date;
+  END IF;
+
+  v_start := EXTRACT(HOUR FROM p_start_time) * 60 + EXTRACT(MINUTE FROM p_start_time);
+  v_end := EXTRACT(HOUR FROM p_end_time) * 60 + EXTRACT(MINUTE FROM p_end_time);
+  IF EXTRACT(HOUR FROM v_local) * 60 + EXTRACT(MINUTE FROM v_local) < v_end + (v_start - v_end) / 2.0 THEN
+    RETURN v_local::date - 1;
+  END IF;
+
+  RETURN v_local::date;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Punches held by a sessions list: two per closed session, one per open one
+CREATE OR REPLACE FUNCTION attendance_punch_count(p_sessions JSONB)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(CASE WHEN s->>'check_out' IS NULL THEN 1 ELSE 2 END), 0)::INTEGER
+  FROM jsonb_array_elements(COALESCE(p_sessions, '[]'::jsonb)) s;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The day's sessions, as getAttendanceSessions reads them: records written
+-- before the sessions column only have the first/second columns filled
+CREATE OR REPLACE FUNCTION attendance_sessions(p_record attendance)
+RETURNS JSONB AS $$
+DECLARE
+  v_sessions JSONB := COALESCE(p_record.sessions, '[]'::jsonb);
+  v_legacy JSONB := '[]'::jsonb;
+BEGIN
+  IF p_record.first_check_in_time IS NOT NULL THEN
+    v_legacy := v_legacy || jsonb_build_array(jsonb_build_object(
+      'check_in', p_record.first_check_in_time,
+      'check_out', p_record.first_check_out_time
+    ));
+  END IF;
+  IF p_record.second_check_in_time IS NOT NULL THEN
+    v_legacy := v_legacy || jsonb_build_array(jsonb_build_object(
+      'check_in', p_record.second_check_in_time,
+      'check_out', p_record.second_check_out_time
+    ));
+  END IF;
+
+  IF attendance_punch_count(v_legacy) > attendance_punch_count(v_sessions) THEN
+    RETURN v_legacy;
+  END IF;
+  RETURN v_sessions;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION attendance_punch_error(p_reason TEXT, p_message TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object('status', 'Error', 'reason', p_reason, 'message', p_message);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Applies the next punch of the day for an employee. Sessions are written up
+-- to the roster's max_sessions and the first two are mirrored into the
+-- first/second columns for older readers. Callers check who may punch.
+CREATE OR REPLACE FUNCTION apply_attendance_punch(
+  p_employee_id UUID,
+  p_punch_time TIMESTAMPTZ
+) RETURNS JSONB AS $$
+DECLARE
+  c_minimum_session_minutes CONSTANT INTEGER := 30;
+  c_minimum_break_minutes CONSTANT INTEGER := 15;
+  c_minimum_minutes_between_actions CONSTANT INTEGER := 1;
+  c_first_session_cooldown_minutes CONSTANT INTEGER := 3;
+  c_later_session_cooldown_minutes CONSTANT INTEGER := 2;
+  v_employee employees%ROWTYPE;
+  v_roster rosters%ROWTYPE;
+  v_max_sessions INTEGER;
+  v_date DATE;
+  v_record attendance%ROWTYPE;
+  v_sessions JSONB;
+  v_count INTEGER;
+  v_last_punch TIMESTAMPTZ;
+  v_minutes NUMERIC;
+  v_cooldown INTEGER;
+  v_session INTEGER;
+  v_punch TEXT;
+  v_label TEXT;
+  v_action TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF v_employee.id IS NULL THEN
+    RETURN attendance_punch_error('EMPLOYEE_NOT_FOUND', 'Employee not found or invalid employee ID');
+  END IF;
+  IF v_employee.status IS DISTINCT FROM 'active' THEN
+    RETURN attendance_punch_error('EMPLOYEE_INACTIVE', 'Employee is not active in the system');
+  END IF;
+
+  SELECT * INTO v_roster
+  FROM rosters
+  WHERE employee_id = p_employee_id
+    AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  v_max_sessions := CASE WHEN v_roster.max_sessions > 0 THEN v_roster.max_sessions ELSE 2 END;
+  -- Punches after midnight on an overnight shift belong to the evening before
+  v_date := attendance_business_date(p_punch_time, v_roster.start_time, v_roster.end_time);
+
+  -- A badge scanned twice in quick succession must not open two sessions
+  PERFORM pg_advisory_xact_lock(hashtext('attendance:' || p_employee_id::text));
+
+  SELECT * INTO v_record
+  FROM attendance
+  WHERE employee_id = p_employee_id
+    AND date = v_date
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  v_sessions := attendance_sessions(v_record);
+  v_count := jsonb_array_length(v_sessions);
+
+  IF v_count > 0 AND v_sessions->(v_count - 1)->>'check_out' IS NULL THEN
+    v_session := v_count;
+    v_punch := 'check_out';
+  ELSIF v_count >= v_max_sessions THEN
+    RETURN attendance_punch_error('DAY_COMPLETED', 'All attendance actions completed for today');
+  ELSE
+    v_session := v_count + 1;
+    v_punch := 'check_in';
+  END IF;
+
+  v_label := CASE v_session WHEN 1 THEN 'first' WHEN 2 THEN 'second' ELSE 'session_' || v_session END;
+  v_action := v_label || '_' || v_punch;
+
+  SELECT max(punch) INTO v_last_punch
+  FROM (
+    SELECT (s->>'check_in')::timestamptz AS punch FROM jsonb_array_elements(v_sessions) s
+    UNION ALL
+    SELECT (s->>'check_out')::timestamptz FROM jsonb_array_elements(v_sessions) s
+  ) punches;
+
+  IF v_last_punch IS NOT NULL THEN
+    v_minutes := EXTRACT(EPOCH FROM (p_punch_time - v_last_punch)) / 60;
+    IF v_minutes <= 0 THEN
+      RETURN attendance_punch_error('OUT_OF_ORDER', 'Scan time is before the last recorded punch');
+    END IF;
+    IF v_minutes < c_minimum_minutes_between_actions THEN
+      RETURN attendance_punch_error('TOO_SOON', 'Cannot record attendance at the same time as the previous action');
+    END IF;
+  END IF;
+
+  IF v_punch = 'check_out' THEN
+    v_minutes := EXTRACT(EPOCH FROM (p_punch_time - (v_sessions->(v_session - 1)->>'check_in')::timestamptz)) / 60;
+    v_cooldown := CASE WHEN v_session = 1 THEN c_first_session_cooldown_minutes ELSE c_later_session_cooldown_minutes END;
+    IF v_minutes < v_cooldown THEN
+      RETURN attendance_punch_error('COOLDOWN_ACTIVE', format(
+        'Please wait %s minutes before checking out from your %s session',
+        v_cooldown, replace(v_label, '_', ' ')
+      ));
+    END IF;
+    IF v_minutes < c_minimum_session_minutes THEN
+      RETURN attendance_punch_error('MINIMUM_SESSION', format(
+        'Minimum %s session duration is %s minutes',
+        replace(v_label, '_', ' '), c_minimum_session_minutes
+      ));
+    END IF;
+  ELSIF v_session > 1 THEN
+    v_minutes := EXTRACT(EPOCH FROM (p_punch_time - (v_sessions->(v_session - 2)->>'check_out')::timestamptz)) / 60;
+    IF v_minutes < c_minimum_break_minutes THEN
+      RETURN attendance_punch_error('MINIMUM_BREAK', format(
+        'Minimum break duration is %s minutes', c_minimum_break_minutes
+      ));
+    END IF;
+  END IF;
+
+  IF v_punch = 'check_in' THEN
+    v_sessions := v_sessions || jsonb_build_array(jsonb_build_object('check_in', p_punch_time, 'check_out', NULL));
+    v_status := 'PRESENT';
+  ELSE
+    v_sessions := jsonb_set(v_sessions, ARRAY[(v_session - 1)::text, 'check_out'], to_jsonb(p_punch_time));
+    v_status := CASE WHEN v_session >= v_max_sessions THEN 'COMPLETED' ELSE 'ON_BREAK' END;
+  END IF;
+
+  IF v_record.id IS NULL THEN
+    INSERT INTO attendance (employee_id, date, roster_id, sessions, status, is_second_session, first_check_in_time)
+    VALUES (p_employee_id, v_date, v_roster.id, v_sessions, v_status, false, p_punch_time)
+    RETURNING * INTO v_record;
+  ELSE
+    UPDATE attendance SET
+      sessions = v_sessions,
+      status = v_status,
+      is_second_session = v_session > 1,
+      first_check_in_time = CASE WHEN v_action = 'first_check_in' THEN p_punch_time ELSE first_check_in_time END,
+      first_check_out_time = CASE WHEN v_action = 'first_check_out' THEN p_punch_time ELSE first_check_out_time END,
+      second_check_in_time = CASE WHEN v_action = 'second_check_in' THEN p_punch_time ELSE second_check_in_time END,
+      second_check_out_time = CASE WHEN v_action = 'second_check_out' THEN p_punch_time ELSE second_check_out_time END
+    WHERE id = v_record.id
+    RETURNING * INTO v_record;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'Success',
+    'action', upper(v_action),
+    'punch', v_punch,
+    'session', v_session,
+    'message', format('Successfully recorded %s', replace(v_action, '_', ' ')),
+    'employee_name', v_employee.first_name || ' ' || v_employee.last_name,
+    'punched_at', p_punch_time,
+    'record', to_jsonb(v_record)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_attendance_punch(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Badge scans from the kiosks and the attendance page. Offline scans are
+-- replayed with the time they were captured; live scans use the server clock.
+-- Runs as definer because a replayed or overnight punch can land on a date
+-- the kiosk's row policies do not cover.
+CREATE OR REPLACE FUNCTION record_attendance_punch(
+  p_employee_id UUID,
+  p_scanned_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS JSONB AS $$
+BEGIN
+  IF NOT (
+    has_role('super_admin', 'hr', 'kiosk')
+    OR (has_role('department_manager') AND in_my_department(p_employee_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record attendance for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_scanned_at > NOW() + INTERVAL '5 minutes' THEN
+    RETURN attendance_punch_error('FUTURE_SCAN', 'Scan time is in the future');
+  END IF;
+
+  RETURN apply_attendance_punch(p_employee_id, COALESCE(p_scanned_at, NOW()));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_attendance_punch(UUID, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_attendance_punch(UUID, TIMESTAMPTZ) TO authenticated;
+
+-- The old entry points had two hard-coded sessions and dated punches in UTC.
+-- They now apply the same punch, dated by the business-day rule above, and
+-- are no longer callable by clients.
+CREATE OR REPLACE FUNCTION process_attendance(
+  p_employee_id UUID,
+  p_current_time TIMESTAMPTZ,
+  p_roster_id UUID
+) RETURNS JSONB AS $$
+  SELECT apply_attendance_punch(p_employee_id, p_current_time);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION process_roster_attendance(
+  p_employee_id UUID,
+  p_current_time TIMESTAMPTZ,
+  p_roster_id UUID
+) RETURNS JSONB AS $$
+BEGIN
+  IF p_roster_id IS NULL THEN
+    RETURN attendance_punch_error('NO_ROSTER', 'Roster ID is required');
+  END IF;
+
+  RETURN apply_attendance_punch(p_employee_id, p_current_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION process_attendance(UUID, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION process_roster_attendance(UUID, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,347 @@
+-- Corrections are requested and reviewed by signed-in users rather than typed
+-- names, so "approved by a different admin" compares accounts. Supervisors
+-- (HR, super admins, and managers for their own department) file and read
+-- corrections; only HR and super admins review them, and approval recomputes
+-- the record on the database instead of trusting values sent by the client.
+
+ALTER TABLE attendance_corrections
+  DROP CONSTRAINT IF EXISTS attendance_corrections_second_reviewer;
+
+-- The typed names are kept for corrections filed before this change; new
+-- rows copy the user's email so the app can show who acted
+ALTER TABLE attendance_corrections RENAME COLUMN requested_by TO requested_by_name;
+ALTER TABLE attendance_corrections RENAME COLUMN reviewed_by TO reviewed_by_name;
+
+ALTER TABLE attendance_corrections
+  ALTER COLUMN requested_by_name DROP NOT NULL,
+  ADD COLUMN requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD CONSTRAINT attendance_corrections_second_reviewer CHECK (reviewed_by IS NULL OR reviewed_by <> requested_by);
+
+-- The requester is whoever is signed in, and a new correction always starts
+-- pending for the employee the attendance record belongs to
+CREATE OR REPLACE FUNCTION set_attendance_correction_requester()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.requested_by := auth.uid();
+  NEW.requested_by_name := (SELECT email FROM user_roles WHERE user_id = auth.uid());
+  NEW.employee_id := (SELECT employee_id FROM attendance WHERE id = NEW.attendance_id);
+  NEW.status := 'pending';
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_by_name := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_note := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attendance_correction_requester ON attendance_corrections;
+CREATE TRIGGER attendance_correction_requester
+  BEFORE INSERT ON attendance_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION set_attendance_correction_requester();
+
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON attendance_corrections;
+DROP POLICY IF EXISTS "Enable insert access for authenticated users" ON attendance_corrections;
+DROP POLICY IF EXISTS "Enable rejection for authenticated users" ON attendance_corrections;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON attendance_history;
+
+REVOKE ALL ON attendance_corrections FROM anon;
+REVOKE ALL ON attendance_history FROM anon;
+
+CREATE POLICY "Supervisors read attendance corrections"
+ON attendance_corrections FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+CREATE POLICY "Supervisors request attendance corrections"
+ON attendance_corrections FOR INSERT
+TO authenticated
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+CREATE POLICY "Supervisors read attendance history"
+ON attendance_history FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (
+    has_role('department_manager')
+    AND EXISTS (
+      SELECT 1 FROM attendance
+      WHERE attendance.id = attendance_history.attendance_id
+        AND in_my_department(attendance.employee_id)
+    )
+  )
+);
+
+-- Status, lateness and worked time of a day's sessions. An open session
+-- contributes nothing until it is checked out.
+CREATE OR REPLACE FUNCTION recompute_attendance(
+  p_sessions JSONB,
+  p_date DATE,
+  p_roster_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_roster rosters%ROWTYPE;
+  v_timezone TEXT;
+  v_count INTEGER := jsonb_array_length(p_sessions);
+  v_worked INTEGER;
+  v_first_check_in TIMESTAMPTZ := (p_sessions->0->>'check_in')::timestamptz;
+  v_minutes_late INTEGER := 0;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_roster FROM rosters WHERE id = p_roster_id;
+
+  SELECT COALESCE(round(SUM(
+    EXTRACT(EPOCH FROM ((s->>'check_out')::timestamptz - (s->>'check_in')::timestamptz)) / 60
+  )), 0)::INTEGER
+  INTO v_worked
+  FROM jsonb_array_elements(p_sessions) s
+  WHERE s->>'check_out' IS NOT NULL;
+
+  IF v_roster.id IS NOT NULL AND v_first_check_in IS NOT NULL THEN
+    v_timezone := COALESCE(
+      (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+      'UTC'
+    );
+    v_minutes_late := GREATEST(0,
+      trunc(EXTRACT(EPOCH FROM (v_first_check_in - (p_date + v_roster.start_time) AT TIME ZONE v_timezone)) / 60)::INTEGER
+      - COALESCE(v_roster.grace_period, 0)
+    );
+  END IF;
+
+  IF v_count = 0 THEN
+    v_status := 'ABSENT';
+  ELSIF p_sessions->(v_count - 1)->>'check_out' IS NULL THEN
+    v_status := 'PRESENT';
+  ELSIF v_count >= CASE WHEN v_roster.max_sessions > 0 THEN v_roster.max_sessions ELSE 2 END THEN
+    v_status := 'COMPLETED';
+  ELSE
+    v_status := 'ON_BREAK';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'minutes_late', v_minutes_late,
+    'actual_hours', round(v_worked / 60.0, 2),
+    'working_duration', format('%sh %sm', v_worked / 60, v_worked % 60)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+DROP FUNCTION IF EXISTS apply_attendance_correction(UUID, TEXT, TEXT, JSONB);
+
+-- Approve a correction as the signed-in HR admin or super admin: apply the
+-- proposed punches, recompute the totals, record before/after values and
+-- close the correction in one transaction
+CREATE OR REPLACE FUNCTION apply_attendance_correction(
+  p_correction_id UUID,
+  p_review_note TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_correction attendance_corrections%ROWTYPE;
+  v_record attendance%ROWTYPE;
+  v_corrected attendance%ROWTYPE;
+  v_sessions JSONB;
+  v_totals JSONB;
+  v_before JSONB;
+  v_after JSONB;
+  v_reviewer_name TEXT;
+  v_field TEXT;
+  v_previous TIMESTAMPTZ;
+  v_punch TIMESTAMPTZ;
+  v_correctable TEXT[] := ARRAY[
+    'first_check_in_time', 'first_check_out_time',
+    'second_check_in_time', 'second_check_out_time'
+  ];
+  v_tracked TEXT[] := ARRAY[
+    'first_check_in_time', 'first_check_out_time',
+    'second_check_in_time', 'second_check_out_time',
+    'sessions', 'status', 'minutes_late', 'actual_hours', 'working_duration'
+  ];
+BEGIN
+  IF NOT has_role('super_admin', 'hr') THEN
+    RAISE EXCEPTION 'Only HR or a super admin can approve corrections'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_correction
+  FROM attendance_corrections
+  WHERE id = p_correction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction not found');
+  END IF;
+
+  IF v_correction.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction has already been ' || v_correction.status);
+  END IF;
+
+  IF v_correction.requested_by IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This correction has no signed-in requester. Please reject it and file a new one.');
+  END IF;
+
+  IF v_correction.requested_by = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A correction must be approved by a different admin');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(v_correction.proposed_values) AS key
+    WHERE key <> ALL(v_correctable)
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The correction changes fields that cannot be corrected');
+  END IF;
+
+  SELECT * INTO v_record
+  FROM attendance
+  WHERE id = v_correction.attendance_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attendance record not found');
+  END IF;
+
+  v_before := to_jsonb(v_record);
+
+  -- Refuse to overwrite punches that moved after the request was filed
+  FOR v_field IN SELECT jsonb_object_keys(v_correction.original_values) LOOP
+    IF (v_before->>v_field)::timestamptz IS DISTINCT FROM (v_correction.original_values->>v_field)::timestamptz THEN
+      RETURN jsonb_build_object('success', false, 'error', 'The record changed after this correction was requested. Please reject it and file a new one.');
+    END IF;
+  END LOOP;
+
+  -- The first two sessions are rebuilt from the corrected columns; any later
+  -- sessions are kept as they are
+  v_corrected := jsonb_populate_record(v_record, v_correction.proposed_values);
+  v_corrected.sessions := NULL;
+  SELECT attendance_sessions(v_corrected) || COALESCE(jsonb_agg(s ORDER BY i), '[]'::jsonb)
+  INTO v_sessions
+  FROM jsonb_array_elements(attendance_sessions(v_record)) WITH ORDINALITY AS later(s, i)
+  WHERE i > 2;
+
+  IF v_corrected.first_check_in_time IS NULL
+     AND (v_corrected.first_check_out_time IS NOT NULL OR v_corrected.second_check_in_time IS NOT NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A record with later punches must keep its first check-in');
+  END IF;
+  IF v_corrected.second_check_in_time IS NULL AND v_corrected.second_check_out_time IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Second check-out requires a second check-in');
+  END IF;
+  IF v_corrected.second_check_in_time IS NOT NULL AND v_corrected.first_check_out_time IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Second check-in requires a first check-out');
+  END IF;
+
+  FOR v_punch IN
+    SELECT punch
+    FROM jsonb_array_elements(v_sessions) WITH ORDINALITY AS day(s, i),
+      LATERAL (VALUES (1, (s->>'check_in')::timestamptz), (2, (s->>'check_out')::timestamptz)) AS p(n, punch)
+    WHERE punch IS NOT NULL
+    ORDER BY i, n
+  LOOP
+    IF v_punch <= v_previous THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Punch times must be in order: each punch after the previous one');
+    END IF;
+    v_previous := v_punch;
+  END LOOP;
+
+  v_totals := recompute_attendance(v_sessions, v_record.date, v_record.roster_id);
+
+  UPDATE attendance SET
+    first_check_in_time = v_corrected.first_check_in_time,
+    first_check_out_time = v_corrected.first_check_out_time,
+    second_check_in_time = v_corrected.second_check_in_time,
+    second_check_out_time = v_corrected.second_check_out_time,
+    sessions = v_sessions,
+    status = v_totals->>'status',
+    minutes_late = (v_totals->>'minutes_late')::integer,
+    actual_hours = (v_totals->>'actual_hours')::numeric,
+    working_duration = v_totals->>'working_duration',
+    updated_at = NOW()
+  WHERE id = v_record.id;
+
+  SELECT to_jsonb(a) INTO v_after
+  FROM attendance a
+  WHERE id = v_record.id;
+
+  v_reviewer_name := COALESCE((SELECT email FROM user_roles WHERE user_id = auth.uid()), auth.uid()::text);
+
+  INSERT INTO attendance_history (
+    attendance_id, correction_id, change_type, changed_by, reason, before_values, after_values
+  ) VALUES (
+    v_record.id,
+    v_correction.id,
+    'correction',
+    v_reviewer_name,
+    v_correction.reason,
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(v_before) WHERE key = ANY(v_tracked)),
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(v_after) WHERE key = ANY(v_tracked))
+  );
+
+  UPDATE attendance_corrections SET
+    status = 'approved',
+    reviewed_by = auth.uid(),
+    reviewed_by_name = v_reviewer_name,
+    reviewed_at = NOW(),
+    review_note = NULLIF(trim(p_review_note), '')
+  WHERE id = p_correction_id;
+
+  RETURN jsonb_build_object('success', true, 'record', v_after);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reject a correction as the signed-in HR admin or super admin
+CREATE OR REPLACE FUNCTION reject_attendance_correction(
+  p_correction_id UUID,
+  p_review_note TEXT
+) RETURNS JSONB AS $$
+DECLARE
+  v_correction attendance_corrections%ROWTYPE;
+BEGIN
+  IF NOT has_role('super_admin', 'hr') THEN
+    RAISE EXCEPTION 'Only HR or a super admin can reject corrections'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(p_review_note), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Please give a reason for rejecting the correction');
+  END IF;
+
+  SELECT * INTO v_correction
+  FROM attendance_corrections
+  WHERE id = p_correction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction not found');
+  END IF;
+
+  IF v_correction.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction has already been ' || v_correction.status);
+  END IF;
+
+  IF v_correction.requested_by = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A correction must be reviewed by a different admin');
+  END IF;
+
+  UPDATE attendance_corrections SET
+    status = 'rejected',
+    reviewed_by = auth.uid(),
+    reviewed_by_name = (SELECT email FROM user_roles WHERE user_id = auth.uid()),
+    reviewed_at = NOW(),
+    review_note = trim(p_review_note)
+  WHERE id = p_correction_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_attendance_correction(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reject_attendance_correction(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION apply_attendance_correction(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_attendance_correction(UUID, TEXT) TO authenticated;
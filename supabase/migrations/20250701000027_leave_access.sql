@@ -0,0 +1,205 @@
+-- Leave is scoped by role like attendance: HR and super admins see and manage
+-- everything, department managers handle their own department's requests,
+-- and employees read their own. Approval and rejection go through
+-- review_leave_request, which records the signed-in reviewer and re-checks
+-- overlap and balance on the database.
+
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON leave_types;
+DROP POLICY IF EXISTS "Enable write access for authenticated users" ON leave_types;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON leave_balances;
+DROP POLICY IF EXISTS "Enable write access for authenticated users" ON leave_balances;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON leave_requests;
+DROP POLICY IF EXISTS "Enable insert access for authenticated users" ON leave_requests;
+DROP POLICY IF EXISTS "Enable update access for authenticated users" ON leave_requests;
+
+REVOKE ALL ON leave_types FROM anon;
+REVOKE ALL ON leave_balances FROM anon;
+REVOKE ALL ON leave_requests FROM anon;
+
+CREATE POLICY "Signed-in users read leave types"
+ON leave_types FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage leave types"
+ON leave_types FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Staff read leave balances"
+ON leave_balances FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  OR employee_id = current_employee_id()
+);
+
+-- Carry-over and manual adjustments; usage is kept by the request trigger
+CREATE POLICY "Admins manage leave balances"
+ON leave_balances FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Staff read leave requests"
+ON leave_requests FOR SELECT
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+  OR employee_id = current_employee_id()
+);
+
+CREATE POLICY "Managers request leave"
+ON leave_requests FOR INSERT
+TO authenticated
+WITH CHECK (
+  status = 'pending'
+  AND (
+    has_role('super_admin', 'hr')
+    OR (has_role('department_manager') AND in_my_department(employee_id))
+  )
+);
+
+-- Withdrawing or cancelling leave is the only direct update
+CREATE POLICY "Managers cancel leave requests"
+ON leave_requests FOR UPDATE
+TO authenticated
+USING (
+  status IN ('pending', 'approved')
+  AND (
+    has_role('super_admin', 'hr')
+    OR (has_role('department_manager') AND in_my_department(employee_id))
+  )
+)
+WITH CHECK (status = 'cancelled');
+
+-- Balances are kept in step whoever changes the request, so the trigger
+-- writes past the balance policies
+ALTER FUNCTION sync_leave_balance_usage() SECURITY DEFINER SET search_path = public;
+
+-- The typed reviewer names are kept for requests reviewed before this change
+ALTER TABLE leave_requests RENAME COLUMN reviewed_by TO reviewed_by_name;
+ALTER TABLE leave_requests
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Days left of a balance-limited leave type, as calculateLeaveBalance in
+-- leaveUtils.ts works it out; NULL for types without an allowance
+CREATE OR REPLACE FUNCTION leave_available_days(
+  p_employee_id UUID,
+  p_leave_type_id UUID,
+  p_year INTEGER
+) RETURNS NUMERIC AS $$
+DECLARE
+  v_type leave_types%ROWTYPE;
+  v_balance leave_balances%ROWTYPE;
+  v_today DATE := organization_date();
+  v_accrued NUMERIC;
+BEGIN
+  SELECT * INTO v_type FROM leave_types WHERE id = p_leave_type_id;
+  IF v_type.annual_allowance IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXTRACT(YEAR FROM v_today) < p_year THEN
+    v_accrued := 0;
+  ELSIF v_type.accrual_method = 'annual' OR EXTRACT(YEAR FROM v_today) > p_year THEN
+    v_accrued := v_type.annual_allowance;
+  ELSE
+    v_accrued := floor(v_type.annual_allowance * EXTRACT(MONTH FROM v_today) / 12 * 2) / 2;
+  END IF;
+
+  SELECT * INTO v_balance
+  FROM leave_balances
+  WHERE employee_id = p_employee_id
+    AND leave_type_id = p_leave_type_id
+    AND year = p_year;
+
+  RETURN v_accrued
+    + LEAST(COALESCE(v_balance.carried_over, 0), v_type.max_carry_over)
+    + COALESCE(v_balance.adjustment, 0)
+    - COALESCE(v_balance.used, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Approve or reject a pending request as the signed-in reviewer
+CREATE OR REPLACE FUNCTION review_leave_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_review_note TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_request leave_requests%ROWTYPE;
+  v_overlap leave_requests%ROWTYPE;
+  v_available NUMERIC;
+BEGIN
+  SELECT * INTO v_request
+  FROM leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Leave request not found');
+  END IF;
+
+  IF NOT (
+    has_role('super_admin', 'hr')
+    OR (has_role('department_manager') AND in_my_department(v_request.employee_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to review leave for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Leave request has already been ' || v_request.status);
+  END IF;
+
+  -- Other requests and balances may have moved since the request was filed
+  IF p_approve THEN
+    SELECT * INTO v_overlap
+    FROM leave_requests
+    WHERE employee_id = v_request.employee_id
+      AND id <> v_request.id
+      AND status IN ('pending', 'approved')
+      AND start_date <= v_request.end_date
+      AND end_date >= v_request.start_date
+    ORDER BY start_date
+    LIMIT 1;
+
+    IF v_overlap.id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', format(
+        'Overlaps an existing %s leave request (%s to %s)',
+        v_overlap.status, v_overlap.start_date, v_overlap.end_date
+      ));
+    END IF;
+
+    v_available := leave_available_days(
+      v_request.employee_id,
+      v_request.leave_type_id,
+      EXTRACT(YEAR FROM v_request.start_date)::integer
+    );
+    IF v_available IS NOT NULL AND v_request.days > v_available THEN
+      RETURN jsonb_build_object('success', false, 'error', format(
+        'Insufficient %s balance: %s day(s) available',
+        (SELECT name FROM leave_types WHERE id = v_request.leave_type_id), v_available
+      ));
+    END IF;
+  END IF;
+
+  UPDATE leave_requests SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_by_name = (SELECT email FROM user_roles WHERE user_id = auth.uid()),
+    reviewed_at = NOW(),
+    review_note = NULLIF(trim(p_review_note), ''),
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION review_leave_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_leave_request(UUID, BOOLEAN, TEXT) TO authenticated;
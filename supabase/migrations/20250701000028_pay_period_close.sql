@@ -0,0 +1,194 @@
+-- Pay periods are closed by HR or a super admin as the signed-in user, and the
+-- totals frozen with the period are worked out here from attendance, leave
+-- and the working-day calendar instead of being taken from the browser.
+
+-- The typed names are kept for periods closed before this change
+ALTER TABLE pay_periods RENAME COLUMN closed_by TO closed_by_name;
+ALTER TABLE pay_periods
+  ADD COLUMN closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Whether the employee works on p_date, as getNonWorkingDates in
+-- holidayUtils.ts decides it: no holiday for their department and home site,
+-- inside the home site's working week and not a rostered 'off' day
+CREATE OR REPLACE FUNCTION is_employee_working_day(p_employee employees, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM holidays h
+      WHERE h.date = p_date
+        AND (h.department_id IS NULL OR h.department_id = p_employee.department_id)
+        AND (h.site_id IS NULL OR h.site_id = p_employee.home_site_id)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM sites s
+      WHERE s.id = p_employee.home_site_id
+        AND NOT EXTRACT(DOW FROM p_date)::SMALLINT = ANY (s.working_days)
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM rosters r
+      CROSS JOIN LATERAL jsonb_array_elements(r.shift_pattern) AS d(day)
+      WHERE r.employee_id = p_employee.id
+        AND d.day->>'date' = p_date::TEXT
+        AND d.day->>'shift' = 'off'
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Per-employee totals for the period, as buildPayrollTotals in
+-- payrollUtils.ts works them out for the preview. Days with overtime buckets
+-- use them, dropping overtime still awaiting approval; a session left open
+-- adds no worked time.
+CREATE OR REPLACE FUNCTION calculate_pay_period_totals(p_start DATE, p_end DATE)
+RETURNS TABLE (
+  employee_id UUID,
+  employee_name TEXT,
+  department TEXT,
+  days_worked INTEGER,
+  regular_hours NUMERIC,
+  ot1_hours NUMERIC,
+  ot2_hours NUMERIC,
+  overtime_hours NUMERIC,
+  late_minutes INTEGER,
+  unpaid_break_minutes INTEGER,
+  paid_leave_days NUMERIC,
+  unpaid_leave_days NUMERIC
+) AS $$
+  WITH day_minutes AS (
+    SELECT a.employee_id, a.date, a.minutes_late, a.overtime, a.regular_minutes,
+           a.ot1_minutes, a.ot2_minutes, a.unapproved_overtime_minutes,
+           m.worked, m.break_minutes
+    FROM attendance a
+    CROSS JOIN LATERAL (
+      SELECT
+        COALESCE(round(SUM(GREATEST(0, EXTRACT(EPOCH FROM (s.check_out - s.check_in)) / 60))), 0)::INTEGER AS worked,
+        COALESCE(round(SUM(GREATEST(0, EXTRACT(EPOCH FROM (s.check_in - s.previous_check_out)) / 60))), 0)::INTEGER AS break_minutes
+      FROM (
+        SELECT (x.session->>'check_in')::TIMESTAMPTZ AS check_in,
+               (x.session->>'check_out')::TIMESTAMPTZ AS check_out,
+               LAG((x.session->>'check_out')::TIMESTAMPTZ) OVER (ORDER BY x.n) AS previous_check_out
+        FROM jsonb_array_elements(attendance_sessions(a)) WITH ORDINALITY AS x(session, n)
+      ) s
+    ) m
+    WHERE a.date BETWEEN p_start AND p_end
+  ),
+  day_buckets AS (
+    SELECT d.employee_id, d.date, d.worked, d.break_minutes,
+           COALESCE(d.minutes_late, 0) AS late,
+           CASE WHEN d.regular_minutes IS NOT NULL THEN d.regular_minutes
+                ELSE d.worked - o.overtime END AS regular,
+           CASE WHEN d.regular_minutes IS NULL THEN o.overtime
+                WHEN COALESCE(d.unapproved_overtime_minutes, 0) = 0 THEN COALESCE(d.ot1_minutes, 0)
+                ELSE 0 END AS ot1,
+           CASE WHEN d.regular_minutes IS NOT NULL AND COALESCE(d.unapproved_overtime_minutes, 0) = 0
+                THEN COALESCE(d.ot2_minutes, 0)
+                ELSE 0 END AS ot2
+    FROM day_minutes d
+    CROSS JOIN LATERAL (
+      SELECT LEAST(d.worked, round(COALESCE(d.overtime, 0) * 60))::INTEGER AS overtime
+    ) o
+  ),
+  worked AS (
+    SELECT b.employee_id,
+           COUNT(DISTINCT b.date) FILTER (WHERE b.worked > 0)::INTEGER AS days_worked,
+           SUM(b.regular) AS regular,
+           SUM(b.ot1) AS ot1,
+           SUM(b.ot2) AS ot2,
+           SUM(b.late)::INTEGER AS late,
+           SUM(b.break_minutes)::INTEGER AS break_minutes
+    FROM day_buckets b
+    GROUP BY b.employee_id
+  ),
+  leave AS (
+    SELECT r.employee_id,
+           SUM(CASE WHEN r.half_day THEN LEAST(w.days, 0.5) ELSE w.days END)
+             FILTER (WHERE COALESCE(t.is_paid, true)) AS paid,
+           SUM(CASE WHEN r.half_day THEN LEAST(w.days, 0.5) ELSE w.days END)
+             FILTER (WHERE NOT COALESCE(t.is_paid, true)) AS unpaid
+    FROM leave_requests r
+    JOIN employees e ON e.id = r.employee_id
+    LEFT JOIN leave_types t ON t.id = r.leave_type_id
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*)::NUMERIC AS days
+      FROM generate_series(GREATEST(r.start_date, p_start), LEAST(r.end_date, p_end), INTERVAL '1 day') AS g(day)
+      WHERE is_employee_working_day(e, g.day::DATE)
+    ) w
+    WHERE r.status = 'approved'
+      AND r.start_date <= p_end
+      AND r.end_date >= p_start
+    GROUP BY r.employee_id
+  )
+  SELECT e.id,
+         e.first_name || ' ' || e.last_name,
+         dep.name,
+         COALESCE(w.days_worked, 0),
+         round(COALESCE(w.regular, 0) / 60.0, 2),
+         round(COALESCE(w.ot1, 0) / 60.0, 2),
+         round(COALESCE(w.ot2, 0) / 60.0, 2),
+         round(COALESCE(w.ot1 + w.ot2, 0) / 60.0, 2),
+         COALESCE(w.late, 0),
+         COALESCE(w.break_minutes, 0),
+         COALESCE(l.paid, 0),
+         COALESCE(l.unpaid, 0)
+  FROM employees e
+  LEFT JOIN departments dep ON dep.id = e.department_id
+  LEFT JOIN worked w ON w.employee_id = e.id
+  LEFT JOIN leave l ON l.employee_id = e.id
+  WHERE e.status = 'active'
+  ORDER BY e.first_name;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS close_pay_period(UUID, TEXT, JSONB);
+
+-- Store the period's totals and close it in one transaction, as the
+-- signed-in HR admin or super admin
+CREATE OR REPLACE FUNCTION close_pay_period(p_period_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_period pay_periods%ROWTYPE;
+  v_employees INTEGER;
+BEGIN
+  IF NOT has_role('super_admin', 'hr') THEN
+    RAISE EXCEPTION 'Only HR admins can close pay periods'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM pay_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay period not found');
+  END IF;
+
+  IF v_period.status = 'closed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Pay period is already closed');
+  END IF;
+
+  DELETE FROM pay_period_totals WHERE pay_period_id = p_period_id;
+
+  INSERT INTO pay_period_totals (
+    pay_period_id, employee_id, employee_name, department, days_worked,
+    regular_hours, ot1_hours, ot2_hours, overtime_hours, late_minutes,
+    unpaid_break_minutes, paid_leave_days, unpaid_leave_days
+  )
+  SELECT
+    p_period_id, t.employee_id, t.employee_name, t.department, t.days_worked,
+    t.regular_hours, t.ot1_hours, t.ot2_hours, t.overtime_hours, t.late_minutes,
+    t.unpaid_break_minutes, t.paid_leave_days, t.unpaid_leave_days
+  FROM calculate_pay_period_totals(v_period.start_date, v_period.end_date) t;
+
+  GET DIAGNOSTICS v_employees = ROW_COUNT;
+
+  UPDATE pay_periods
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_by_name = (SELECT email FROM user_roles WHERE user_id = auth.uid()),
+      closed_at = NOW()
+  WHERE id = p_period_id;
+
+  RETURN jsonb_build_object('success', true, 'employees', v_employees);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION close_pay_period(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION close_pay_period(UUID) TO authenticated;
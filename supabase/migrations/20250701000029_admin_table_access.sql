@@ -0,0 +1,79 @@
+-- Payroll, scheduled reports, message receipts and admin settings were open
+-- to every signed-in user. They are managed from the HR-only pages, so they
+-- are scoped to HR and super admins like the other admin tables. Pay period
+-- dates and the organization row stay readable by all staff: attendance
+-- edits check the period lock and every page needs the timezone.
+
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON pay_periods;
+DROP POLICY IF EXISTS "Enable insert for authenticated users" ON pay_periods;
+DROP POLICY IF EXISTS "Enable delete of open periods for authenticated users" ON pay_periods;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON pay_period_totals;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON payroll_export_templates;
+DROP POLICY IF EXISTS "Enable write access for authenticated users" ON payroll_export_templates;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON report_schedules;
+DROP POLICY IF EXISTS "Enable write access for authenticated users" ON report_schedules;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON report_deliveries;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON message_receipts;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON admin_settings;
+DROP POLICY IF EXISTS "Enable insert access for authenticated users" ON admin_settings;
+DROP POLICY IF EXISTS "Enable update access for authenticated users" ON admin_settings;
+
+ALTER TABLE admin_settings ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON pay_periods, pay_period_totals, payroll_export_templates FROM anon;
+REVOKE ALL ON report_schedules, report_deliveries, message_receipts, admin_settings FROM anon;
+
+CREATE POLICY "Signed-in users read pay periods"
+ON pay_periods FOR SELECT
+TO authenticated
+USING (true);
+
+-- Periods are created open; closing goes through close_pay_period
+CREATE POLICY "Admins create pay periods"
+ON pay_periods FOR INSERT
+TO authenticated
+WITH CHECK (status = 'open' AND has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins delete open pay periods"
+ON pay_periods FOR DELETE
+TO authenticated
+USING (status = 'open' AND has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins read pay period totals"
+ON pay_period_totals FOR SELECT
+TO authenticated
+USING (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins manage payroll templates"
+ON payroll_export_templates FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins manage report schedules"
+ON report_schedules FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+-- Deliveries and receipts are written by the edge functions with the service role
+CREATE POLICY "Admins read report deliveries"
+ON report_deliveries FOR SELECT
+TO authenticated
+USING (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins read message receipts"
+ON message_receipts FOR SELECT
+TO authenticated
+USING (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Signed-in users read organization settings"
+ON admin_settings FOR SELECT
+TO authenticated
+USING (setting_type = 'organization' OR has_role('super_admin', 'hr'));
+
+CREATE POLICY "Admins manage settings"
+ON admin_settings FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
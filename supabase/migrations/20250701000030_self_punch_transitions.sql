@@ -0,0 +1,26 @@
+-- Self check-ins apply the punch through apply_attendance_punch like kiosk
+-- scans, so they follow the same guards, session limit and business-day
+-- rule. As at the kiosk, an employee without an active roster gets the
+-- default two sessions instead of being refused.
+CREATE OR REPLACE FUNCTION record_self_punch(
+  p_employee_id UUID,
+  p_site_id UUID,
+  p_method TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy_m DOUBLE PRECISION,
+  p_at TIMESTAMPTZ
+) RETURNS JSONB AS $$
+BEGIN
+  -- Read by the capture and site triggers on attendance
+  PERFORM set_config('app.punch_method', p_method, true);
+  PERFORM set_config('app.punch_site_id', COALESCE(p_site_id::text, ''), true);
+  PERFORM set_config('app.punch_latitude', COALESCE(p_latitude::text, ''), true);
+  PERFORM set_config('app.punch_longitude', COALESCE(p_longitude::text, ''), true);
+  PERFORM set_config('app.punch_accuracy_m', COALESCE(p_accuracy_m::text, ''), true);
+
+  RETURN apply_attendance_punch(p_employee_id, p_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_self_punch(UUID, UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
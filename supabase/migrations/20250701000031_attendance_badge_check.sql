@@ -0,0 +1,94 @@
+-- The scanned badge is sent with every kiosk punch and checked here as well as
+-- in the browser, so a kiosk session cannot punch for someone without their
+-- card. A signed badge must be the qr_data the signing function stored for one
+-- of the employee's badges, which also pins its serial, and that badge must not
+-- be revoked. Plain EMP:<id>:<name> badges are taken up to the organization's
+-- legacy cut-off day only.
+
+-- Keep in step with DEFAULT_LEGACY_BADGE_ACCEPT_UNTIL in badgeUtils.ts
+ALTER TABLE admin_settings
+  ADD COLUMN IF NOT EXISTS legacy_badge_accepted_until DATE NOT NULL DEFAULT '2025-12-31';
+
+-- Why p_badge cannot punch for the employee at p_at, as a punch error, or NULL
+-- when it can
+CREATE OR REPLACE FUNCTION attendance_badge_denial(p_employee_id UUID, p_badge TEXT, p_at TIMESTAMPTZ)
+RETURNS JSONB AS $$
+DECLARE
+  v_badge employee_badges%ROWTYPE;
+  v_legacy TEXT[];
+BEGIN
+  IF trim(p_badge) LIKE 'EMP2.%' THEN
+    SELECT * INTO v_badge
+    FROM employee_badges
+    WHERE employee_id = p_employee_id AND qr_data = trim(p_badge);
+
+    IF NOT FOUND THEN
+      RETURN attendance_punch_error('UNKNOWN_BADGE', 'This badge is not registered');
+    END IF;
+    IF v_badge.revoked_at IS NOT NULL THEN
+      RETURN attendance_punch_error('REVOKED_BADGE', 'This badge has been revoked');
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  v_legacy := regexp_match(p_badge, '^EMP:([^:]+):(.+)$');
+  IF v_legacy IS NULL OR v_legacy[1] <> p_employee_id::TEXT THEN
+    RETURN attendance_punch_error('INVALID_BADGE', 'Please scan a valid employee QR code');
+  END IF;
+
+  IF organization_date(p_at) > COALESCE(
+    (SELECT legacy_badge_accepted_until FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+    '2025-12-31'
+  ) THEN
+    RETURN attendance_punch_error(
+      'LEGACY_BADGE',
+      'This badge format is no longer accepted. Please request a new badge.'
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION attendance_badge_denial(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS record_attendance_punch(UUID, TIMESTAMPTZ);
+
+-- Badge scans from the kiosks and the attendance page. Offline scans are
+-- replayed with the time they were captured; live scans use the server clock.
+-- Kiosks must send the scanned badge; HR and managers recording a punch by
+-- hand may leave it out. Runs as definer because a replayed or overnight
+-- punch can land on a date the kiosk's row policies do not cover.
+CREATE OR REPLACE FUNCTION record_attendance_punch(
+  p_employee_id UUID,
+  p_scanned_at TIMESTAMPTZ DEFAULT NULL,
+  p_badge TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_punch_time TIMESTAMPTZ := COALESCE(p_scanned_at, NOW());
+  v_denial JSONB;
+BEGIN
+  IF NOT (
+    has_role('super_admin', 'hr', 'kiosk')
+    OR (has_role('department_manager') AND in_my_department(p_employee_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record attendance for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_scanned_at > NOW() + INTERVAL '5 minutes' THEN
+    RETURN attendance_punch_error('FUTURE_SCAN', 'Scan time is in the future');
+  END IF;
+
+  IF p_badge IS NOT NULL OR has_role('kiosk') THEN
+    v_denial := attendance_badge_denial(p_employee_id, COALESCE(p_badge, ''), v_punch_time);
+    IF v_denial IS NOT NULL THEN
+      RETURN v_denial;
+    END IF;
+  END IF;
+
+  RETURN apply_attendance_punch(p_employee_id, v_punch_time);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_attendance_punch(UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_attendance_punch(UUID, TIMESTAMPTZ, TEXT) TO authenticated;
@@ -0,0 +1,50 @@
+-- Overtime is approved by HR, a super admin or the employee's department
+-- manager as the signed-in user, and the approver is recorded from the
+-- session instead of a name typed into the page.
+
+-- The typed names are kept for overtime approved before this change
+ALTER TABLE attendance RENAME COLUMN overtime_approved_by TO overtime_approved_by_name;
+ALTER TABLE attendance
+  ADD COLUMN overtime_approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Approving pays both overtime buckets of the day
+CREATE OR REPLACE FUNCTION approve_overtime(p_attendance_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_record attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO v_record
+  FROM attendance
+  WHERE id = p_attendance_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attendance record not found');
+  END IF;
+
+  IF NOT (
+    has_role('super_admin', 'hr')
+    OR (has_role('department_manager') AND in_my_department(v_record.employee_id))
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to approve overtime for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(v_record.unapproved_overtime_minutes, 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No overtime is awaiting approval for this day');
+  END IF;
+
+  UPDATE attendance
+  SET overtime_approved_by = auth.uid(),
+      overtime_approved_by_name = (SELECT email FROM user_roles WHERE user_id = auth.uid()),
+      overtime_approved_at = NOW(),
+      unapproved_overtime_minutes = 0,
+      overtime = round((COALESCE(ot1_minutes, 0) + COALESCE(ot2_minutes, 0)) / 60.0, 2)
+  WHERE id = p_attendance_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION approve_overtime(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION approve_overtime(UUID) TO authenticated;
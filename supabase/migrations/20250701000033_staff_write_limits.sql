@@ -0,0 +1,123 @@
+-- Narrow what staff can write directly. Punches go through
+-- record_attendance_punch and fixes through attendance corrections, so kiosks
+-- no longer write attendance rows and department managers may only store the
+-- overtime buckets worked out after a punch. Guards and gate kiosks record
+-- exit, return and use of a pass but cannot edit the pass itself, and the
+-- holiday calendar and overtime policies are HR settings.
+--
+-- The column checks only apply to requests made as the signed-in user; the
+-- definer functions that write these tables run as their owner and keep their
+-- own role checks.
+
+-- Attendance
+DROP POLICY IF EXISTS "Staff record attendance" ON attendance;
+DROP POLICY IF EXISTS "Staff update attendance" ON attendance;
+
+CREATE POLICY "Admins record attendance"
+ON attendance FOR INSERT
+TO authenticated
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Supervisors update attendance"
+ON attendance FOR UPDATE
+TO authenticated
+USING (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+)
+WITH CHECK (
+  has_role('super_admin', 'hr')
+  OR (has_role('department_manager') AND in_my_department(employee_id))
+);
+
+-- What recalculateOvertimeForWeek in overtimeUtils.ts writes
+CREATE OR REPLACE FUNCTION limit_attendance_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_allowed TEXT[] := ARRAY[
+    'regular_minutes', 'ot1_minutes', 'ot2_minutes', 'ot2_multiplier',
+    'unapproved_overtime_minutes', 'overtime', 'updated_at'
+  ];
+BEGIN
+  IF current_user = 'authenticated' AND NOT has_role('super_admin', 'hr')
+     AND to_jsonb(NEW) - v_allowed <> to_jsonb(OLD) - v_allowed THEN
+    RAISE EXCEPTION 'Attendance times can only be changed through a correction'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run before attendance_calculations_trigger fills in the derived
+-- columns, so only what the caller sent is compared
+DROP TRIGGER IF EXISTS attendance_allowed_columns ON attendance;
+CREATE TRIGGER attendance_allowed_columns
+BEFORE UPDATE ON attendance
+FOR EACH ROW
+EXECUTE FUNCTION limit_attendance_columns();
+
+-- Gate passes: guards and gate kiosks record use; an active pass may be
+-- marked used or expired but nothing else about it changes
+CREATE OR REPLACE FUNCTION limit_gate_pass_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_allowed TEXT[] := ARRAY[
+    'exit_time', 'return_time', 'use_count', 'last_used_at', 'used_at', 'status', 'updated_at'
+  ];
+BEGIN
+  IF current_user <> 'authenticated' OR has_role('super_admin', 'hr') THEN
+    RETURN NEW;
+  END IF;
+
+  IF to_jsonb(NEW) - v_allowed <> to_jsonb(OLD) - v_allowed THEN
+    RAISE EXCEPTION 'Only exit, return and use of a gate pass can be recorded'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT (OLD.status = 'active' AND NEW.status IN ('used', 'expired')) THEN
+    RAISE EXCEPTION 'Only an active gate pass can be marked used or expired'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run before gate_pass_enforce_schedule and gate_pass_track_trip,
+-- which set the trip columns themselves
+DROP TRIGGER IF EXISTS gate_pass_allowed_columns ON gate_passes;
+CREATE TRIGGER gate_pass_allowed_columns
+BEFORE UPDATE ON gate_passes
+FOR EACH ROW
+EXECUTE FUNCTION limit_gate_pass_columns();
+
+-- Holidays and overtime policies
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON holidays;
+DROP POLICY IF EXISTS "Enable write access for authenticated users" ON holidays;
+DROP POLICY IF EXISTS "Enable read access for authenticated users" ON overtime_policies;
+DROP POLICY IF EXISTS "Enable write access for authenticated users" ON overtime_policies;
+
+REVOKE ALL ON holidays, overtime_policies FROM anon;
+
+-- Every page that counts working days needs the calendar
+CREATE POLICY "Signed-in users read holidays"
+ON holidays FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage holidays"
+ON holidays FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
+
+CREATE POLICY "Signed-in users read overtime policies"
+ON overtime_policies FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins manage overtime policies"
+ON overtime_policies FOR ALL
+TO authenticated
+USING (has_role('super_admin', 'hr'))
+WITH CHECK (has_role('super_admin', 'hr'));
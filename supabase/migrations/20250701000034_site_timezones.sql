@@ -0,0 +1,520 @@
+-- Sites keep their own timezone, so punch dates, lateness and gate pass times
+-- are read in the timezone of the site they happen at: the site a punch was
+-- captured at, or else the employee's home site. The organization timezone is
+-- only the fallback for employees without a site.
+
+-- Timezone of a site, or the organization's when there is none
+CREATE OR REPLACE FUNCTION site_timezone(p_site_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (SELECT timezone FROM sites WHERE id = p_site_id),
+    (SELECT timezone FROM admin_settings WHERE setting_type = 'organization' LIMIT 1),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Where a punch for the employee is being captured: the site a self check-in
+-- was accepted for, the kiosk's site, or else the employee's home site
+CREATE OR REPLACE FUNCTION attendance_punch_site(p_employee_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    NULLIF(current_setting('app.punch_site_id', true), '')::uuid,
+    (current_kiosk_device()).site_id,
+    (SELECT home_site_id FROM employees WHERE id = p_employee_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_attendance_site()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.site_id IS NULL THEN
+    NEW.site_id := attendance_punch_site(NEW.employee_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS attendance_business_date(TIMESTAMPTZ, TIME, TIME);
+
+-- Business date of a punch in the site's timezone, as getBusinessDate in
+-- businessDayUtils.ts works it out. Overnight shifts split the off-duty gap
+-- in half: punches before its midpoint belong to the previous day's shift.
+CREATE OR REPLACE FUNCTION attendance_business_date(
+  p_punch_time TIMESTAMPTZ,
+  p_site_id UUID,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL
+) RETURNS DATE AS $$
+DECLARE
+  v_local TIMESTAMP := p_punch_time AT TIME ZONE site_timezone(p_site_id);
+  v_start INTEGER;
+  v_end INTEGER;
+BEGIN
+  IF p_start_time IS NULL OR p_end_time IS NULL OR p_end_time > p_start_time THEN
+    RETURN v_local::date;
+  END IF;
+
+  v_start := EXTRACT(HOUR FROM p_start_time) * 60 + EXTRACT(MINUTE FROM p_start_time);
+  v_end := EXTRACT(HOUR FROM p_end_time) * 60 + EXTRACT(MINUTE FROM p_end_time);
+  IF EXTRACT(HOUR FROM v_local) * 60 + EXTRACT(MINUTE FROM v_local) < v_end + (v_start - v_end) / 2.0 THEN
+    RETURN v_local::date - 1;
+  END IF;
+
+  RETURN v_local::date;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The record is placed at the site its date was worked out for
+CREATE OR REPLACE FUNCTION apply_attendance_punch(
+  p_employee_id UUID,
+  p_punch_time TIMESTAMPTZ
+) RETURNS JSONB AS $$
+DECLARE
+  c_minimum_session_minutes CONSTANT INTEGER := 30;
+  c_minimum_break_minutes CONSTANT INTEGER := 15;
+  c_minimum_minutes_between_actions CONSTANT INTEGER := 1;
+  c_first_session_cooldown_minutes CONSTANT INTEGER := 3;
+  c_later_session_cooldown_minutes CONSTANT INTEGER := 2;
+  v_employee employees%ROWTYPE;
+  v_roster rosters%ROWTYPE;
+  v_max_sessions INTEGER;
+  v_site_id UUID;
+  v_date DATE;
+  v_record attendance%ROWTYPE;
+  v_sessions JSONB;
+  v_count INTEGER;
+  v_last_punch TIMESTAMPTZ;
+  v_minutes NUMERIC;
+  v_cooldown INTEGER;
+  v_session INTEGER;
+  v_punch TEXT;
+  v_label TEXT;
+  v_action TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_employee FROM employees WHERE id = p_employee_id;
+  IF v_employee.id IS NULL THEN
+    RETURN attendance_punch_error('EMPLOYEE_NOT_FOUND', 'Employee not found or invalid employee ID');
+  END IF;
+  IF v_employee.status IS DISTINCT FROM 'active' THEN
+    RETURN attendance_punch_error('EMPLOYEE_INACTIVE', 'Employee is not active in the system');
+  END IF;
+
+  SELECT * INTO v_roster
+  FROM rosters
+  WHERE employee_id = p_employee_id
+    AND status = 'active'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  v_max_sessions := CASE WHEN v_roster.max_sessions > 0 THEN v_roster.max_sessions ELSE 2 END;
+  v_site_id := attendance_punch_site(p_employee_id);
+  -- Punches after midnight on an overnight shift belong to the evening before
+  v_date := attendance_business_date(p_punch_time, v_site_id, v_roster.start_time, v_roster.end_time);
+
+  -- A badge scanned twice in quick succession must not open two sessions
+  PERFORM pg_advisory_xact_lock(hashtext('attendance:' || p_employee_id::text));
+
+  SELECT * INTO v_record
+  FROM attendance
+  WHERE employee_id = p_employee_id
+    AND date = v_date
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  v_sessions := attendance_sessions(v_record);
+  v_count := jsonb_array_length(v_sessions);
+
+  IF v_count > 0 AND v_sessions->(v_count - 1)->>'check_out' IS NULL THEN
+    v_session := v_count;
+    v_punch := 'check_out';
+  ELSIF v_count >= v_max_sessions THEN
+    RETURN attendance_punch_error('DAY_COMPLETED', 'All attendance actions completed for today');
+  ELSE
+    v_session := v_count + 1;
+    v_punch := 'check_in';
+  END IF;
+
+  v_label := CASE v_session WHEN 1 THEN 'first' WHEN 2 THEN 'second' ELSE 'session_' || v_session END;
+  v_action := v_label || '_' || v_punch;
+
+  SELECT max(punch) INTO v_last_punch
+  FROM (
+    SELECT (s->>'check_in')::timestamptz AS punch FROM jsonb_array_elements(v_sessions) s
+    UNION ALL
+    SELECT (s->>'check_out')::timestamptz FROM jsonb_array_elements(v_sessions) s
+  ) punches;
+
+  IF v_last_punch IS NOT NULL THEN
+    v_minutes := EXTRACT(EPOCH FROM (p_punch_time - v_last_punch)) / 60;
+    IF v_minutes <= 0 THEN
+      RETURN attendance_punch_error('OUT_OF_ORDER', 'Scan time is before the last recorded punch');
+    END IF;
+    IF v_minutes < c_minimum_minutes_between_actions THEN
+      RETURN attendance_punch_error('TOO_SOON', 'Cannot record attendance at the same time as the previous action');
+    END IF;
+  END IF;
+
+  IF v_punch = 'check_out' THEN
+    v_minutes := EXTRACT(EPOCH FROM (p_punch_time - (v_sessions->(v_session - 1)->>'check_in')::timestamptz)) / 60;
+    v_cooldown := CASE WHEN v_session = 1 THEN c_first_session_cooldown_minutes ELSE c_later_session_cooldown_minutes END;
+    IF v_minutes < v_cooldown THEN
+      RETURN attendance_punch_error('COOLDOWN_ACTIVE', format(
+        'Please wait %s minutes before checking out from your %s session',
+        v_cooldown, replace(v_label, '_', ' ')
+      ));
+    END IF;
+    IF v_minutes < c_minimum_session_minutes THEN
+      RETURN attendance_punch_error('MINIMUM_SESSION', format(
+        'Minimum %s session duration is %s minutes',
+        replace(v_label, '_', ' '), c_minimum_session_minutes
+      ));
+    END IF;
+  ELSIF v_session > 1 THEN
+    v_minutes := EXTRACT(EPOCH FROM (p_punch_time - (v_sessions->(v_session - 2)->>'check_out')::timestamptz)) / 60;
+    IF v_minutes < c_minimum_break_minutes THEN
+      RETURN attendance_punch_error('MINIMUM_BREAK', format(
+        'Minimum break duration is %s minutes', c_minimum_break_minutes
+      ));
+    END IF;
+  END IF;
+
+  IF v_punch = 'check_in' THEN
+    v_sessions := v_sessions || jsonb_build_array(jsonb_build_object('check_in', p_punch_time, 'check_out', NULL));
+    v_status := 'PRESENT';
+  ELSE
+    v_sessions := jsonb_set(v_sessions, ARRAY[(v_session - 1)::text, 'check_out'], to_jsonb(p_punch_time));
+    v_status := CASE WHEN v_session >= v_max_sessions THEN 'COMPLETED' ELSE 'ON_BREAK' END;
+  END IF;
+
+  IF v_record.id IS NULL THEN
+    INSERT INTO attendance (employee_id, date, site_id, roster_id, sessions, status, is_second_session, first_check_in_time)
+    VALUES (p_employee_id, v_date, v_site_id, v_roster.id, v_sessions, v_status, false, p_punch_time)
+    RETURNING * INTO v_record;
+  ELSE
+    UPDATE attendance SET
+      sessions = v_sessions,
+      status = v_status,
+      is_second_session = v_session > 1,
+      first_check_in_time = CASE WHEN v_action = 'first_check_in' THEN p_punch_time ELSE first_check_in_time END,
+      first_check_out_time = CASE WHEN v_action = 'first_check_out' THEN p_punch_time ELSE first_check_out_time END,
+      second_check_in_time = CASE WHEN v_action = 'second_check_in' THEN p_punch_time ELSE second_check_in_time END,
+      second_check_out_time = CASE WHEN v_action = 'second_check_out' THEN p_punch_time ELSE second_check_out_time END
+    WHERE id = v_record.id
+    RETURNING * INTO v_record;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'Success',
+    'action', upper(v_action),
+    'punch', v_punch,
+    'session', v_session,
+    'message', format('Successfully recorded %s', replace(v_action, '_', ' ')),
+    'employee_name', v_employee.first_name || ' ' || v_employee.last_name,
+    'punched_at', p_punch_time,
+    'record', to_jsonb(v_record)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS recompute_attendance(JSONB, DATE, UUID);
+
+-- Status, lateness and worked time of a day's sessions, with the roster's
+-- start read in the record's site timezone. An open session contributes
+-- nothing until it is checked out.
+CREATE OR REPLACE FUNCTION recompute_attendance(
+  p_sessions JSONB,
+  p_date DATE,
+  p_roster_id UUID,
+  p_site_id UUID
+) RETURNS JSONB AS $$
+DECLARE
+  v_roster rosters%ROWTYPE;
+  v_timezone TEXT;
+  v_count INTEGER := jsonb_array_length(p_sessions);
+  v_worked INTEGER;
+  v_first_check_in TIMESTAMPTZ := (p_sessions->0->>'check_in')::timestamptz;
+  v_minutes_late INTEGER := 0;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_roster FROM rosters WHERE id = p_roster_id;
+
+  SELECT COALESCE(round(SUM(
+    EXTRACT(EPOCH FROM ((s->>'check_out')::timestamptz - (s->>'check_in')::timestamptz)) / 60
+  )), 0)::INTEGER
+  INTO v_worked
+  FROM jsonb_array_elements(p_sessions) s
+  WHERE s->>'check_out' IS NOT NULL;
+
+  IF v_roster.id IS NOT NULL AND v_first_check_in IS NOT NULL THEN
+    v_timezone := site_timezone(p_site_id);
+    v_minutes_late := GREATEST(0,
+      trunc(EXTRACT(EPOCH FROM (v_first_check_in - (p_date + v_roster.start_time) AT TIME ZONE v_timezone)) / 60)::INTEGER
+      - COALESCE(v_roster.grace_period, 0)
+    );
+  END IF;
+
+  IF v_count = 0 THEN
+    v_status := 'ABSENT';
+  ELSIF p_sessions->(v_count - 1)->>'check_out' IS NULL THEN
+    v_status := 'PRESENT';
+  ELSIF v_count >= CASE WHEN v_roster.max_sessions > 0 THEN v_roster.max_sessions ELSE 2 END THEN
+    v_status := 'COMPLETED';
+  ELSE
+    v_status := 'ON_BREAK';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'minutes_late', v_minutes_late,
+    'actual_hours', round(v_worked / 60.0, 2),
+    'working_duration', format('%sh %sm', v_worked / 60, v_worked % 60)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Corrections recompute lateness in the record's site timezone
+CREATE OR REPLACE FUNCTION apply_attendance_correction(
+  p_correction_id UUID,
+  p_review_note TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_correction attendance_corrections%ROWTYPE;
+  v_record attendance%ROWTYPE;
+  v_corrected attendance%ROWTYPE;
+  v_sessions JSONB;
+  v_totals JSONB;
+  v_before JSONB;
+  v_after JSONB;
+  v_reviewer_name TEXT;
+  v_field TEXT;
+  v_previous TIMESTAMPTZ;
+  v_punch TIMESTAMPTZ;
+  v_correctable TEXT[] := ARRAY[
+    'first_check_in_time', 'first_check_out_time',
+    'second_check_in_time', 'second_check_out_time'
+  ];
+  v_tracked TEXT[] := ARRAY[
+    'first_check_in_time', 'first_check_out_time',
+    'second_check_in_time', 'second_check_out_time',
+    'sessions', 'status', 'minutes_late', 'actual_hours', 'working_duration'
+  ];
+BEGIN
+  IF NOT has_role('super_admin', 'hr') THEN
+    RAISE EXCEPTION 'Only HR or a super admin can approve corrections'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_correction
+  FROM attendance_corrections
+  WHERE id = p_correction_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction not found');
+  END IF;
+
+  IF v_correction.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Correction has already been ' || v_correction.status);
+  END IF;
+
+  IF v_correction.requested_by IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This correction has no signed-in requester. Please reject it and file a new one.');
+  END IF;
+
+  IF v_correction.requested_by = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A correction must be approved by a different admin');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_object_keys(v_correction.proposed_values) AS key
+    WHERE key <> ALL(v_correctable)
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The correction changes fields that cannot be corrected');
+  END IF;
+
+  SELECT * INTO v_record
+  FROM attendance
+  WHERE id = v_correction.attendance_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Attendance record not found');
+  END IF;
+
+  v_before := to_jsonb(v_record);
+
+  -- Refuse to overwrite punches that moved after the request was filed
+  FOR v_field IN SELECT jsonb_object_keys(v_correction.original_values) LOOP
+    IF (v_before->>v_field)::timestamptz IS DISTINCT FROM (v_correction.original_values->>v_field)::timestamptz THEN
+      RETURN jsonb_build_object('success', false, 'error', 'The record changed after this correction was requested. Please reject it and file a new one.');
+    END IF;
+  END LOOP;
+
+  -- The first two sessions are rebuilt from the corrected columns; any later
+  -- sessions are kept as they are
+  v_corrected := jsonb_populate_record(v_record, v_correction.proposed_values);
+  v_corrected.sessions := NULL;
+  SELECT attendance_sessions(v_corrected) || COALESCE(jsonb_agg(s ORDER BY i), '[]'::jsonb)
+  INTO v_sessions
+  FROM jsonb_array_elements(attendance_sessions(v_record)) WITH ORDINALITY AS later(s, i)
+  WHERE i > 2;
+
+  IF v_corrected.first_check_in_time IS NULL
+     AND (v_corrected.first_check_out_time IS NOT NULL OR v_corrected.second_check_in_time IS NOT NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A record with later punches must keep its first check-in');
+  END IF;
+  IF v_corrected.second_check_in_time IS NULL AND v_corrected.second_check_out_time IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Second check-out requires a second check-in');
+  END IF;
+  IF v_corrected.second_check_in_time IS NOT NULL AND v_corrected.first_check_out_time IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Second check-in requires a first check-out');
+  END IF;
+
+  FOR v_punch IN
+    SELECT punch
+    FROM jsonb_array_elements(v_sessions) WITH ORDINALITY AS day(s, i),
+      LATERAL (VALUES (1, (s->>'check_in')::timestamptz), (2, (s->>'check_out')::timestamptz)) AS p(n, punch)
+    WHERE punch IS NOT NULL
+    ORDER BY i, n
+  LOOP
+    IF v_punch <= v_previous THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Punch times must be in order: each punch after the previous one');
+    END IF;
+    v_previous := v_punch;
+  END LOOP;
+
+  v_totals := recompute_attendance(v_sessions, v_record.date, v_record.roster_id, v_record.site_id);
+
+  UPDATE attendance SET
+    first_check_in_time = v_corrected.first_check_in_time,
+    first_check_out_time = v_corrected.first_check_out_time,
+    second_check_in_time = v_corrected.second_check_in_time,
+    second_check_out_time = v_corrected.second_check_out_time,
+    sessions = v_sessions,
+    status = v_totals->>'status',
+    minutes_late = (v_totals->>'minutes_late')::integer,
+    actual_hours = (v_totals->>'actual_hours')::numeric,
+    working_duration = v_totals->>'working_duration',
+    updated_at = NOW()
+  WHERE id = v_record.id;
+
+  SELECT to_jsonb(a) INTO v_after
+  FROM attendance a
+  WHERE id = v_record.id;
+
+  v_reviewer_name := COALESCE((SELECT email FROM user_roles WHERE user_id = auth.uid()), auth.uid()::text);
+
+  INSERT INTO attendance_history (
+    attendance_id, correction_id, change_type, changed_by, reason, before_values, after_values
+  ) VALUES (
+    v_record.id,
+    v_correction.id,
+    'correction',
+    v_reviewer_name,
+    v_correction.reason,
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(v_before) WHERE key = ANY(v_tracked)),
+    (SELECT jsonb_object_agg(key, value) FROM jsonb_each(v_after) WHERE key = ANY(v_tracked))
+  );
+
+  UPDATE attendance_corrections SET
+    status = 'approved',
+    reviewed_by = auth.uid(),
+    reviewed_by_name = v_reviewer_name,
+    reviewed_at = NOW(),
+    review_note = NULLIF(trim(p_review_note), '')
+  WHERE id = p_correction_id;
+
+  RETURN jsonb_build_object('success', true, 'record', v_after);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Gate passes are read in the timezone of the holder's home site; visitor
+-- passes use the organization's
+CREATE OR REPLACE FUNCTION gate_pass_timezone(p_pass gate_passes)
+RETURNS TEXT AS $$
+  SELECT site_timezone((SELECT home_site_id FROM employees WHERE id::text = p_pass.employee_id));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Why an exit at p_at is not allowed on the pass, or NULL when it is
+CREATE OR REPLACE FUNCTION gate_pass_exit_denial(p_pass gate_passes, p_at TIMESTAMPTZ)
+RETURNS TEXT AS $$
+DECLARE
+  v_timezone TEXT := gate_pass_timezone(p_pass);
+  -- Whole minutes, as the times on the pass are
+  v_local TIMESTAMP := date_trunc('minute', p_at AT TIME ZONE v_timezone);
+BEGIN
+  IF p_pass.valid_from IS NOT NULL AND p_at < p_pass.valid_from THEN
+    RETURN 'The pass is valid from ' || to_char(p_pass.valid_from AT TIME ZONE v_timezone, 'YYYY-MM-DD HH24:MI');
+  END IF;
+  IF p_pass.schedule_days IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT (EXTRACT(DOW FROM v_local)::SMALLINT = ANY (p_pass.schedule_days)) THEN
+    RETURN 'The pass does not allow exits on ' || trim(to_char(v_local, 'Day'));
+  END IF;
+  IF v_local::time < p_pass.schedule_start OR v_local::time > p_pass.schedule_end THEN
+    RETURN format('The pass only allows exits between %s and %s',
+      to_char(p_pass.schedule_start, 'HH24:MI'), to_char(p_pass.schedule_end, 'HH24:MI'));
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+DROP FUNCTION IF EXISTS gate_pass_return_due(TIMESTAMPTZ, TEXT);
+
+-- The expected return time on the day of the exit in p_timezone, or the next
+-- day for an overnight trip; NULL when the time cannot be read
+CREATE OR REPLACE FUNCTION gate_pass_return_due(p_exited_at TIMESTAMPTZ, p_expected TEXT, p_timezone TEXT)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_time TIME;
+  v_due TIMESTAMPTZ;
+BEGIN
+  IF p_exited_at IS NULL OR NULLIF(trim(p_expected), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    v_time := trim(p_expected)::time;
+  EXCEPTION
+    WHEN others THEN RETURN NULL;
+  END;
+
+  v_due := ((p_exited_at AT TIME ZONE p_timezone)::date + v_time) AT TIME ZONE p_timezone;
+  IF v_due < p_exited_at - INTERVAL '12 hours' THEN
+    v_due := v_due + INTERVAL '1 day';
+  END IF;
+  RETURN v_due;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Return times are due by the holder's site clock
+CREATE OR REPLACE FUNCTION track_gate_pass_trip()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event_at TIMESTAMPTZ := COALESCE(NULLIF(current_setting('app.gate_pass_event_at', true), '')::timestamptz, NOW());
+BEGIN
+  IF NEW.exit_time IS NOT NULL AND NEW.exit_time IS DISTINCT FROM OLD.exit_time THEN
+    NEW.exited_at := v_event_at;
+    IF NEW.return_time IS NOT DISTINCT FROM OLD.return_time THEN
+      NEW.return_time := NULL;
+    END IF;
+  END IF;
+
+  IF NEW.return_time IS NULL THEN
+    NEW.returned_at := NULL;
+  ELSIF NEW.return_time IS DISTINCT FROM OLD.return_time THEN
+    NEW.returned_at := v_event_at;
+  END IF;
+
+  NEW.return_due_at := gate_pass_return_due(NEW.exited_at, NEW.expected_return_time, gate_pass_timezone(NEW));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Passes out now are due back in their holder's timezone
+UPDATE gate_passes
+SET return_due_at = gate_pass_return_due(exited_at, expected_return_time, gate_pass_timezone(gate_passes))
+WHERE exited_at IS NOT NULL AND returned_at IS NULL;